@@ -20,16 +20,29 @@ import Dashboard from "./pages/Dashboard";
 import Inventory from "./pages/Inventory";
 import Invoices from "./pages/Invoices";
 import InvoiceCreate from "./pages/InvoiceCreate";
+import RecurringInvoices from "./pages/RecurringInvoices";
 import Bills from "./pages/Bills";
+import CreditNotes from "./pages/CreditNotes";
 import BillCreate from "./pages/BillCreate";
 import BalanceSheet from "./pages/BalanceSheet";
 import Settings from "./pages/Settings";
 import Clients from "./pages/Clients";
+import ClientStatement from "./pages/ClientStatement";
+import Suppliers from "./pages/Suppliers";
+import SupplierDetail from "./pages/SupplierDetail";
 import ProfitAnalytics from "./pages/ProfitAnalytics";
+import ReceivablesAging from "./pages/ReceivablesAging";
+import PayablesAging from "./pages/PayablesAging";
+import ExpiryReport from "./pages/ExpiryReport";
+import Locations from "./pages/Locations";
+import StockTakes from "./pages/StockTakes";
+import StockTakeDetail from "./pages/StockTakeDetail";
+import ShrinkageReport from "./pages/ShrinkageReport";
 import Search from "./pages/Search";
 import Profile from "./pages/Profile";
 import QuickBill from "./pages/QuickBill";
 import PurchaseOrders from "./pages/PurchaseOrders";
+import ReorderPlanner from "./pages/ReorderPlanner";
 import QuickPurchase from "./pages/QuickPurchase";
 import ProductDetail from "./pages/ProductDetail";
 import NotFound from "./pages/NotFound";
@@ -88,6 +101,26 @@ const App = () => (
                     <Inventory />
                   </AppLayout>
                 </ProtectedRoute>} />
+            <Route path="/locations" element={<ProtectedRoute>
+                  <AppLayout>
+                    <Locations />
+                  </AppLayout>
+                </ProtectedRoute>} />
+            <Route path="/stock-takes" element={<ProtectedRoute>
+                  <AppLayout>
+                    <StockTakes />
+                  </AppLayout>
+                </ProtectedRoute>} />
+            <Route path="/stock-takes/:id" element={<ProtectedRoute>
+                  <AppLayout>
+                    <StockTakeDetail />
+                  </AppLayout>
+                </ProtectedRoute>} />
+            <Route path="/shrinkage" element={<ProtectedRoute>
+                  <AppLayout>
+                    <ShrinkageReport />
+                  </AppLayout>
+                </ProtectedRoute>} />
             <Route path="/inventory/:id" element={<ProtectedRoute>
                   <AppLayout>
                     <ProductDetail />
@@ -103,6 +136,11 @@ const App = () => (
                     <InvoiceCreate />
                   </AppLayout>
                 </ProtectedRoute>} />
+            <Route path="/invoices/recurring" element={<ProtectedRoute>
+                  <AppLayout>
+                    <RecurringInvoices />
+                  </AppLayout>
+                </ProtectedRoute>} />
             <Route path="/bills" element={<ProtectedRoute>
                   <AppLayout>
                     <Bills />
@@ -113,6 +151,11 @@ const App = () => (
                     <BillCreate />
                   </AppLayout>
                 </ProtectedRoute>} />
+            <Route path="/credit-notes" element={<ProtectedRoute>
+                  <AppLayout>
+                    <CreditNotes />
+                  </AppLayout>
+                </ProtectedRoute>} />
             <Route path="/quick-bill" element={<ProtectedRoute>
                   <AppLayout>
                     <QuickBill />
@@ -123,6 +166,11 @@ const App = () => (
                     <PurchaseOrders />
                   </AppLayout>
                 </ProtectedRoute>} />
+            <Route path="/reorder" element={<ProtectedRoute>
+                  <AppLayout>
+                    <ReorderPlanner />
+                  </AppLayout>
+                </ProtectedRoute>} />
             <Route path="/quick-purchase" element={<ProtectedRoute>
                   <AppLayout>
                     <QuickPurchase />
@@ -138,6 +186,36 @@ const App = () => (
                     <Clients />
                   </AppLayout>
                 </ProtectedRoute>} />
+            <Route path="/clients/:id/statement" element={<ProtectedRoute>
+                  <AppLayout>
+                    <ClientStatement />
+                  </AppLayout>
+                </ProtectedRoute>} />
+            <Route path="/suppliers" element={<ProtectedRoute>
+                  <AppLayout>
+                    <Suppliers />
+                  </AppLayout>
+                </ProtectedRoute>} />
+            <Route path="/suppliers/:id" element={<ProtectedRoute>
+                  <AppLayout>
+                    <SupplierDetail />
+                  </AppLayout>
+                </ProtectedRoute>} />
+            <Route path="/receivables-aging" element={<ProtectedRoute>
+                  <AppLayout>
+                    <ReceivablesAging />
+                  </AppLayout>
+                </ProtectedRoute>} />
+            <Route path="/payables-aging" element={<ProtectedRoute>
+                  <AppLayout>
+                    <PayablesAging />
+                  </AppLayout>
+                </ProtectedRoute>} />
+            <Route path="/expiring-stock" element={<ProtectedRoute>
+                  <AppLayout>
+                    <ExpiryReport />
+                  </AppLayout>
+                </ProtectedRoute>} />
             <Route path="/profit-analytics" element={<ProtectedRoute>
                   <AppLayout>
                     <ProfitAnalytics />
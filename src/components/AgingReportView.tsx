@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { format, parseISO } from "date-fns";
+import { currencySymbol } from "@/lib/currency";
+import { AgedDocument, AgingBucket, AgingReport, AgingRow, agingBuckets } from "@/lib/aging";
+
+interface AgingReportViewProps {
+  report: AgingReport;
+  // Symbol of the base currency the report is totalled in
+  currencySymbol: string;
+  partyLabel: string;
+  documentLabel: string;
+  // Extra action in the drill-down of a party on record, e.g. its statement
+  partyAction?: { label: string; onClick: (row: AgingRow) => void };
+}
+
+type DrillDown = { row: AgingRow | null; bucket: AgingBucket | null };
+
+const bucketColors: Record<AgingBucket, string> = {
+  current: "text-success",
+  "1_30": "text-info",
+  "31_60": "text-warning",
+  "61_90": "text-destructive",
+  "90_plus": "text-destructive",
+};
+
+const bucketLabel = (bucket: AgingBucket) => {
+  const label = agingBuckets.find((b) => b.key === bucket)?.label || bucket;
+  return bucket === "current" ? label : `${label} days`;
+};
+
+/**
+ * Aging buckets by party with totals. Any amount opens the documents behind it.
+ */
+export const AgingReportView = ({ report, currencySymbol: cs, partyLabel, documentLabel, partyAction }: AgingReportViewProps) => {
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const money = (amount: number) => `${cs}${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const drillDownDocuments: AgedDocument[] = drillDown
+    ? (drillDown.row ? [drillDown.row] : report.rows)
+        .flatMap((row) => row.documents)
+        .filter((document) => !drillDown.bucket || document.bucket === drillDown.bucket)
+    : [];
+  const drillDownTitle = drillDown
+    ? [drillDown.row?.partyName || `All ${partyLabel.toLowerCase()}s`, drillDown.bucket && bucketLabel(drillDown.bucket)].filter(Boolean).join(" · ")
+    : "";
+
+  const amountButton = (amount: number, target: DrillDown, className = "") =>
+    amount ? (
+      <button type="button" className={`hover:underline ${className}`} onClick={() => setDrillDown(target)}>
+        {money(amount)}
+      </button>
+    ) : (
+      <span className="text-muted-foreground">-</span>
+    );
+
+  return (
+    <>
+      {/* Bucket totals */}
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-3 lg:grid-cols-6">
+        {agingBuckets.map((bucket) => (
+          <Card
+            key={bucket.key}
+            className="cursor-pointer hover:bg-muted/30 transition-colors"
+            onClick={() => report.totals[bucket.key] && setDrillDown({ row: null, bucket: bucket.key })}
+          >
+            <CardContent className="p-3 md:p-4">
+              <span className="text-xs font-medium text-muted-foreground">{bucketLabel(bucket.key)}</span>
+              <p className={`text-lg md:text-xl font-bold ${bucketColors[bucket.key]}`}>{money(report.totals[bucket.key])}</p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card className="cursor-pointer hover:bg-muted/30 transition-colors" onClick={() => report.total && setDrillDown({ row: null, bucket: null })}>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Total</span>
+            <p className="text-lg md:text-xl font-bold">{money(report.total)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* By party */}
+      <Card>
+        <CardHeader className="p-3 md:p-6 pb-2">
+          <CardTitle className="text-sm md:text-base">By {partyLabel.toLowerCase()}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 md:p-6 md:pt-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30">
+                  <TableHead className="font-semibold">{partyLabel}</TableHead>
+                  {agingBuckets.map((bucket) => (
+                    <TableHead key={bucket.key} className="font-semibold text-right whitespace-nowrap">{bucket.label}</TableHead>
+                  ))}
+                  <TableHead className="font-semibold text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row, index) => (
+                  <TableRow key={row.key} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
+                    <TableCell className="font-medium">
+                      <button type="button" className="hover:underline text-left" onClick={() => setDrillDown({ row, bucket: null })}>
+                        {row.partyName}
+                      </button>
+                    </TableCell>
+                    {agingBuckets.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right whitespace-nowrap">
+                        {amountButton(row.buckets[bucket.key], { row, bucket: bucket.key }, bucketColors[bucket.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-semibold whitespace-nowrap">{amountButton(row.total, { row, bucket: null })}</TableCell>
+                  </TableRow>
+                ))}
+                {report.rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={agingBuckets.length + 2} className="text-center text-muted-foreground py-6">
+                      Nothing outstanding ✓
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+              {report.rows.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    {agingBuckets.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right whitespace-nowrap">
+                        {amountButton(report.totals[bucket.key], { row: null, bucket: bucket.key })}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-bold whitespace-nowrap">{amountButton(report.total, { row: null, bucket: null })}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Drill-down */}
+      <Dialog open={!!drillDown} onOpenChange={(open) => !open && setDrillDown(null)}>
+        <DialogContent className="w-[95vw] max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{drillDownTitle}</DialogTitle>
+            <DialogDescription>
+              {drillDownDocuments.length} {documentLabel.toLowerCase()}{drillDownDocuments.length === 1 ? "" : "s"} ·{" "}
+              {money(drillDownDocuments.reduce((sum, document) => sum + document.baseBalance, 0))} outstanding as of{" "}
+              {format(parseISO(report.asOf), "dd MMM yyyy")}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="border rounded-lg divide-y">
+            {drillDownDocuments.map((document) => (
+              <div key={document.id} className="flex items-center justify-between gap-2 p-2 text-xs md:text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {document.number}
+                    {!drillDown?.row && <span className="text-muted-foreground font-normal"> · {document.partyName}</span>}
+                  </p>
+                  <p className="text-muted-foreground">
+                    Issued {format(parseISO(document.issueDate), "dd MMM yyyy")} · Due {format(parseISO(document.dueDate), "dd MMM yyyy")}
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="font-semibold">
+                    {currencySymbol(document.currencyCode)}{document.balance.toFixed(2)}
+                  </p>
+                  <Badge variant={document.daysOverdue > 0 ? "destructive" : "secondary"} className="text-[10px]">
+                    {document.daysOverdue > 0 ? `${document.daysOverdue}d overdue` : "Not due"}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+          {partyAction && drillDown?.row?.partyId && (
+            <Button variant="outline" size="sm" onClick={() => drillDown.row && partyAction.onClick(drillDown.row)}>
+              {partyAction.label}
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
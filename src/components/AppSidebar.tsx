@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { Home, Package, FileText, TrendingUp, Receipt, LogOut, Settings, Users, PieChart, ShoppingCart, UserCircle, Zap, ClipboardList, PackageCheck } from "lucide-react";
+import { Home, Package, FileText, TrendingUp, Receipt, LogOut, Settings, Users, PieChart, ShoppingCart, UserCircle, Zap, ClipboardList, PackageCheck, Undo2, Hourglass, CalendarClock, Factory, CalendarX, Warehouse, ClipboardCheck, PackagePlus } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import { useLocation } from "react-router-dom";
 import { Sidebar, SidebarContent, SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarMenu, SidebarMenuButton, SidebarMenuItem, SidebarFooter, useSidebar } from "@/components/ui/sidebar";
@@ -18,10 +18,22 @@ const menuItems = [{
   title: "Inventory",
   url: "/inventory",
   icon: Package
+}, {
+  title: "Locations",
+  url: "/locations",
+  icon: Warehouse
+}, {
+  title: "Stock Take",
+  url: "/stock-takes",
+  icon: ClipboardCheck
 }, {
   title: "Clients",
   url: "/clients",
   icon: Users
+}, {
+  title: "Suppliers",
+  url: "/suppliers",
+  icon: Factory
 }, {
   title: "Quick Bill",
   url: "/quick-bill",
@@ -38,6 +50,26 @@ const menuItems = [{
   title: "Purchase Orders",
   url: "/purchase-orders",
   icon: ClipboardList
+}, {
+  title: "Reorder Planner",
+  url: "/reorder",
+  icon: PackagePlus
+}, {
+  title: "Credit Notes",
+  url: "/credit-notes",
+  icon: Undo2
+}, {
+  title: "Receivables",
+  url: "/receivables-aging",
+  icon: Hourglass
+}, {
+  title: "Payables",
+  url: "/payables-aging",
+  icon: CalendarClock
+}, {
+  title: "Expiring Stock",
+  url: "/expiring-stock",
+  icon: CalendarX
 }, {
   title: "Balance Sheet",
   url: "/balance-sheet",
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CameraOff, ScanLine } from "lucide-react";
+import { logErrorInDev } from "@/lib/errorUtils";
+import { startBarcodeScanner } from "@/lib/barcodeScanner";
+
+interface BarcodeScannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDetected: (code: string) => void;
+  // Keep the camera open for the next item, as at a billing counter
+  continuous?: boolean;
+  title?: string;
+}
+
+// The same code seen again within this time is the same item still in view
+const REPEAT_MS = 1500;
+
+export const BarcodeScannerDialog = ({ open, onOpenChange, onDetected, continuous = false, title = "Scan Barcode" }: BarcodeScannerDialogProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const lastScan = useRef({ code: "", at: 0 });
+  const [cameraError, setCameraError] = useState("");
+  const [typedCode, setTypedCode] = useState("");
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    if (!open) return;
+    setCameraError("");
+    setTypedCode("");
+    lastScan.current = { code: "", at: 0 };
+
+    let cancelled = false;
+    let stop: (() => void) | null = null;
+
+    const handleCode = (code: string) => {
+      const now = Date.now();
+      if (code === lastScan.current.code && now - lastScan.current.at < REPEAT_MS) return;
+      lastScan.current = { code, at: now };
+      navigator.vibrate?.(60);
+      onDetectedRef.current(code);
+      if (!continuous) onOpenChange(false);
+    };
+
+    // The video element mounts with the dialog content, a frame after open
+    const timer = window.setTimeout(() => {
+      if (!videoRef.current) return;
+      startBarcodeScanner(videoRef.current, handleCode)
+        .then((stopScanner) => {
+          if (cancelled) stopScanner();
+          else stop = stopScanner;
+        })
+        .catch((error) => {
+          logErrorInDev("StartBarcodeScanner", error);
+          if (!cancelled) setCameraError("Camera not available. Allow camera access, or type the code below.");
+        });
+    }, 50);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stop?.();
+    };
+  }, [open]);
+
+  const handleTypedCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = typedCode.trim();
+    if (!code) return;
+    setTypedCode("");
+    onDetected(code);
+    if (!continuous) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-sm">
+            <ScanLine className="h-4 w-4 text-primary" />
+            {title}
+          </DialogTitle>
+          <DialogDescription className="text-xs">Point the camera at the barcode</DialogDescription>
+        </DialogHeader>
+        <div className="relative aspect-[4/3] rounded-lg overflow-hidden bg-muted">
+          {cameraError ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-sm text-muted-foreground">
+              <CameraOff className="h-8 w-8" />
+              {cameraError}
+            </div>
+          ) : (
+            <>
+              <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+              <div className="absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-destructive/70 shadow-[0_0_8px] shadow-destructive" />
+            </>
+          )}
+        </div>
+        <form onSubmit={handleTypedCode} className="flex gap-2">
+          <Input value={typedCode} onChange={(e) => setTypedCode(e.target.value)} placeholder="Or type the code" inputMode="numeric" />
+          <Button type="submit" variant="outline" disabled={!typedCode.trim()}>Enter</Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
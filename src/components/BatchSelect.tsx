@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { logErrorInDev } from "@/lib/errorUtils";
+import { ProductBatch, batchLabel, expiryStatus } from "@/lib/batches";
+
+// Radix Select has no empty value, so "no batch picked" gets its own
+const AUTO = "auto";
+
+interface BatchSelectProps {
+  productId: string;
+  // The batch picked for the line, or null to go first-expiry-first-out
+  value: string | null;
+  onChange: (batchId: string | null) => void;
+}
+
+/**
+ * Picks the batch a sale line comes from. Renders nothing for products
+ * without batches in stock.
+ */
+export const BatchSelect = ({ productId, value, onChange }: BatchSelectProps) => {
+  const [batches, setBatches] = useState<ProductBatch[]>([]);
+
+  useEffect(() => {
+    let stale = false;
+    supabase
+      .from("product_batches")
+      .select("id, batch_number, manufacturing_date, expiry_date, unit_cost, quantity")
+      .eq("product_id", productId)
+      .gt("quantity", 0)
+      .order("expiry_date", { ascending: true, nullsFirst: false })
+      .then(({ data, error }) => {
+        if (error) logErrorInDev("LoadBatches", error);
+        if (!stale) setBatches(data || []);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [productId]);
+
+  if (batches.length === 0) return null;
+
+  return (
+    <Select value={value || AUTO} onValueChange={(batchId) => onChange(batchId === AUTO ? null : batchId)}>
+      <SelectTrigger className="h-6 w-auto max-w-[180px] text-[10px] px-2 border-0 bg-muted/50">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={AUTO} className="text-xs">Batch: earliest expiry</SelectItem>
+        {batches.map((batch) => (
+          <SelectItem key={batch.id} value={batch.id} className="text-xs">
+            {batchLabel(batch)} ({batch.quantity}){expiryStatus(batch.expiry_date) === "expired" ? " · expired" : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { paymentModes } from "@/lib/payments";
+import { currencySymbol } from "@/lib/currency";
+
+export interface CreditableDocument {
+  type: "invoice" | "bill";
+  id: string;
+  number: string;
+  customer_name: string;
+  subtotal: number;
+  // Document-level discount, shared across the lines
+  discount_amount?: number;
+  tax: number;
+  // Invoices only: what the customer still owes
+  balance_due?: number;
+  // The credit note is issued in the document's currency
+  currency_code?: string;
+}
+
+type ReturnLine = {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  returnable: number;
+  returnQuantity: number;
+};
+
+interface CreditNoteDialogProps {
+  source: CreditableDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+}
+
+export const CreditNoteDialog = ({ source, open, onOpenChange, onCreated }: CreditNoteDialogProps) => {
+  const { settings } = useSettings();
+  const cs = source?.currency_code ? currencySymbol(source.currency_code) : settings.currency_symbol || "₹";
+  const [lines, setLines] = useState<ReturnLine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creditDate, setCreditDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [refundAmount, setRefundAmount] = useState(0);
+  const [refundMode, setRefundMode] = useState("cash");
+  const [saving, setSaving] = useState(false);
+
+  const loadLines = async (doc: CreditableDocument) => {
+    setLoading(true);
+    try {
+      const itemsQuery = doc.type === "invoice"
+        ? supabase.from("invoice_items").select("id, description, quantity, unit_price, amount").eq("invoice_id", doc.id)
+        : supabase.from("bill_items").select("id, description, quantity, unit_price, amount").eq("bill_id", doc.id);
+      const { data: items, error } = await itemsQuery;
+      if (error) throw error;
+
+      const sourceColumn = doc.type === "invoice" ? "invoice_item_id" : "bill_item_id";
+      const { data: returned, error: returnedError } = await supabase
+        .from("credit_note_items")
+        .select("invoice_item_id, bill_item_id, quantity")
+        .in(sourceColumn, (items || []).map((i) => i.id));
+      if (returnedError) throw returnedError;
+
+      setLines((items || []).map((item) => {
+        const alreadyReturned = (returned || [])
+          .filter((r) => r[sourceColumn] === item.id)
+          .reduce((sum, r) => sum + r.quantity, 0);
+        return { ...item, returnable: item.quantity - alreadyReturned, returnQuantity: 0 };
+      }));
+    } catch (error) {
+      logErrorInDev("LoadCreditNoteLines", error);
+      toast.error("Error loading document items");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && source) {
+      setLines([]);
+      setCreditDate(new Date().toISOString().split("T")[0]);
+      setReason("");
+      setRefundAmount(0);
+      setRefundMode("cash");
+      loadLines(source);
+    }
+  }, [open, source]);
+
+  // Returns are valued at what was actually charged, after line and document discounts
+  const discountedSubtotal = source ? source.subtotal - Number(source.discount_amount || 0) : 0;
+  const netFactor = source && source.subtotal > 0 ? discountedSubtotal / source.subtotal : 1;
+  const taxRate = discountedSubtotal > 0 ? Number(source?.tax || 0) / discountedSubtotal : 0;
+  const netUnitPrice = (line: ReturnLine) => (line.quantity > 0 ? (line.amount / line.quantity) * netFactor : 0);
+  const subtotal = lines.reduce((sum, l) => sum + Math.round(l.returnQuantity * netUnitPrice(l) * 100) / 100, 0);
+  const tax = Math.round(subtotal * taxRate * 100) / 100;
+  const total = subtotal + tax;
+  const isInvoice = source?.type === "invoice";
+  // Whatever cannot be taken off the invoice balance has to be refunded
+  const minimumRefund = isInvoice ? Math.max(0, total - Number(source?.balance_due || 0)) : total;
+
+  useEffect(() => {
+    setRefundAmount(Math.round(minimumRefund * 100) / 100);
+  }, [minimumRefund]);
+
+  const updateReturnQuantity = (id: string, value: number) => {
+    setLines((prev) => prev.map((l) => (
+      l.id === id ? { ...l, returnQuantity: Math.min(l.returnable, Math.max(0, Math.floor(value) || 0)) } : l
+    )));
+  };
+
+  const handleSave = async () => {
+    if (!source) return;
+    const items = lines.filter((l) => l.returnQuantity > 0);
+    if (items.length === 0) {
+      toast.error("Enter a return quantity for at least one item");
+      return;
+    }
+    if (isInvoice && (refundAmount < minimumRefund - 0.005 || refundAmount > total + 0.005)) {
+      toast.error(`Refund must be between ${cs}${minimumRefund.toFixed(2)} and ${cs}${total.toFixed(2)}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Stock is restored and the invoice balance adjusted in the same transaction
+      const { data: creditNoteId, error } = await supabase.rpc("create_credit_note", {
+        p_credit_note: {
+          invoice_id: isInvoice ? source.id : null,
+          bill_id: isInvoice ? null : source.id,
+          credit_date: creditDate,
+          reason: reason.trim() || null,
+          refund_amount: isInvoice ? refundAmount : total,
+          refund_mode: refundMode,
+        },
+        p_items: items.map((l) => ({ source_item_id: l.id, quantity: l.returnQuantity })),
+      });
+
+      if (error) throw error;
+
+      const { data: created } = await supabase
+        .from("credit_notes")
+        .select("credit_note_number")
+        .eq("id", creditNoteId)
+        .single();
+
+      toast.success(`Credit note ${created?.credit_note_number || ""} created and stock restored`);
+      onOpenChange(false);
+      onCreated?.();
+    } catch (error) {
+      logErrorInDev("CreateCreditNote", error);
+      toast.error(getSafeErrorMessage(error, "Failed to create credit note"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Credit Note</DialogTitle>
+          <DialogDescription>
+            {source ? `Return against ${source.number} · ${source.customer_name}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30">
+                    <TableHead className="text-xs">Item</TableHead>
+                    <TableHead className="text-xs text-right">Sold</TableHead>
+                    <TableHead className="text-xs text-right hidden sm:table-cell">Price</TableHead>
+                    <TableHead className="text-xs text-right w-24">Return</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell className="text-xs md:text-sm">
+                        {line.description}
+                        {line.returnable < line.quantity && (
+                          <span className="block text-[10px] text-muted-foreground">
+                            {line.quantity - line.returnable} already returned
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs md:text-sm text-right">{line.quantity}</TableCell>
+                      <TableCell className="text-xs md:text-sm text-right hidden sm:table-cell">{cs}{netUnitPrice(line).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={line.returnable}
+                          value={line.returnQuantity}
+                          disabled={line.returnable <= 0}
+                          onChange={(e) => updateReturnQuantity(line.id, Number(e.target.value))}
+                          className="h-8 w-20 ml-auto text-right"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="credit-date">Date</Label>
+              <Input id="credit-date" type="date" value={creditDate} onChange={(e) => setCreditDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="credit-reason">Reason</Label>
+              <Input id="credit-reason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Damaged, wrong item..." />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="refund-amount">Refund</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={refundAmount}
+                disabled={!isInvoice}
+                onChange={(e) => setRefundAmount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Refund Mode</Label>
+              <Select value={refundMode} onValueChange={setRefundMode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentModes.map((m) => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="p-3 rounded-lg bg-muted/30 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span>{cs}{subtotal.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tax</span>
+              <span>{cs}{tax.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between font-semibold pt-1 border-t">
+              <span>Credit Total</span>
+              <span>{cs}{total.toFixed(2)}</span>
+            </div>
+            {isInvoice && total > 0 && (
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Adjusted against balance due</span>
+                <span>{cs}{Math.max(0, total - refundAmount).toFixed(2)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || loading || total <= 0}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Credit Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,46 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { DiscountType } from "@/lib/gst";
+
+interface DiscountInputProps {
+  type: DiscountType;
+  value: number;
+  onChange: (type: DiscountType, value: number) => void;
+  className?: string;
+}
+
+/**
+ * Discount value with a toggle between percentage and flat amount
+ */
+export const DiscountInput = ({ type, value, onChange, className }: DiscountInputProps) => {
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Input
+        type="number"
+        aria-label="Discount"
+        value={value || ""}
+        placeholder="0"
+        onChange={(e) => onChange(type, Math.max(0, Number(e.target.value) || 0))}
+        className="w-14 h-7 text-center text-xs px-0"
+        min={0}
+        max={type === "percent" ? 100 : undefined}
+        step={0.01}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="h-7 w-8 px-0 text-xs"
+        title={type === "percent" ? "Switch to flat amount" : "Switch to percentage"}
+        onClick={() => onChange(type === "percent" ? "flat" : "percent", value)}
+      >
+        {type === "percent" ? "%" : cs}
+      </Button>
+    </div>
+  );
+};
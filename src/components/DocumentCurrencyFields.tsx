@@ -0,0 +1,75 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSettings } from "@/contexts/SettingsContext";
+import { currencies } from "@/lib/currency";
+
+interface DocumentCurrencyFieldsProps {
+  table: "invoices" | "bills";
+  currencyCode: string;
+  exchangeRate: number;
+  onChange: (currencyCode: string, exchangeRate: number) => void;
+}
+
+/**
+ * Currency of an invoice or bill and its rate to the base currency.
+ * Picking a foreign currency suggests the rate used on the last document in it.
+ */
+export const DocumentCurrencyFields = ({ table, currencyCode, exchangeRate, onChange }: DocumentCurrencyFieldsProps) => {
+  const { settings } = useSettings();
+  const baseCode = settings.currency_code;
+  const isForeign = currencyCode !== baseCode;
+
+  const handleCurrencyChange = async (code: string) => {
+    if (code === baseCode) {
+      onChange(code, 1);
+      return;
+    }
+    onChange(code, 0);
+    const { data } = await supabase
+      .from(table)
+      .select("exchange_rate")
+      .eq("currency_code", code)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    onChange(code, Number(data?.exchange_rate) || 0);
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label className="text-sm">Currency</Label>
+        <Select value={currencyCode} onValueChange={handleCurrencyChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {currencies.map((c) => (
+              <SelectItem key={c.code} value={c.code}>
+                {c.symbol} {c.code}{c.code === baseCode ? " (base)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {isForeign && (
+        <div className="space-y-2">
+          <Label htmlFor={`${table}-exchange-rate`} className="text-sm">
+            Exchange Rate (1 {currencyCode} = ? {baseCode})
+          </Label>
+          <Input
+            id={`${table}-exchange-rate`}
+            type="number"
+            min="0"
+            step="0.0001"
+            value={exchangeRate || ""}
+            placeholder="0.0000"
+            onChange={(e) => onChange(currencyCode, Math.max(0, Number(e.target.value) || 0))}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
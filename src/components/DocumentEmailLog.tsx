@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+
+type EmailLogEntry = {
+  id: string;
+  recipient: string;
+  subject: string;
+  status: string;
+  error: string | null;
+  created_at: string;
+};
+
+interface DocumentEmailLogProps {
+  documentType: "invoice" | "bill";
+  documentId: string;
+  // Bump to reload after sending
+  refreshKey?: number;
+}
+
+/**
+ * Emails sent for a document, newest first
+ */
+export const DocumentEmailLog = ({ documentType, documentId, refreshKey }: DocumentEmailLogProps) => {
+  const [entries, setEntries] = useState<EmailLogEntry[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from("email_log")
+      .select("id, recipient, subject, status, error, created_at")
+      .eq("document_type", documentType)
+      .eq("document_id", documentId)
+      .order("created_at", { ascending: false })
+      .then(({ data }) => setEntries(data || []));
+  }, [documentType, documentId, refreshKey]);
+
+  if (entries.length === 0) {
+    return <p className="text-xs md:text-sm text-muted-foreground">Not emailed yet</p>;
+  }
+
+  return (
+    <div className="border rounded-lg divide-y">
+      {entries.map((entry) => (
+        <div key={entry.id} className="flex items-center justify-between gap-2 p-2 text-xs md:text-sm">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{entry.recipient || "No email address"}</p>
+            <p className="text-muted-foreground truncate">
+              {new Date(entry.created_at).toLocaleString()} · {entry.subject}
+            </p>
+            {entry.error && <p className="text-[10px] text-destructive truncate">{entry.error}</p>}
+          </div>
+          <Badge variant={entry.status === "sent" ? "default" : "destructive"} className="capitalize flex-shrink-0">
+            {entry.status}
+          </Badge>
+        </div>
+      ))}
+    </div>
+  );
+};
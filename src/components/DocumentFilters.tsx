@@ -12,7 +12,7 @@ interface Client {
 }
 interface DocumentFiltersProps {
   onFiltersChange: (filters: FilterState) => void;
-  statusOptions: {
+  statusOptions?: {
     value: string;
     label: string;
   }[];
@@ -107,7 +107,7 @@ export const DocumentFilters = ({
               </div>}
 
             {/* Status Filter */}
-            <div className="flex flex-col">
+            {statusOptions && <div className="flex flex-col">
               <Label className="text-[9px] md:text-xs text-muted-foreground mb-0.5">Status</Label>
               <Select value={filters.status} onValueChange={(value) => handleFilterChange("status", value === "all" ? "" : value)}>
                 <SelectTrigger className="h-7 md:h-8 text-[10px] md:text-sm px-1.5 md:px-3 w-full md:w-28">
@@ -120,7 +120,7 @@ export const DocumentFilters = ({
                     </SelectItem>)}
                 </SelectContent>
               </Select>
-            </div>
+            </div>}
           </div>
 
           {hasActiveFilters && <Button variant="ghost" size="sm" onClick={clearFilters} className="text-muted-foreground hover:text-foreground">
@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Hash, Save, Loader2 } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { useSettings } from "@/contexts/SettingsContext";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+
+interface SequenceConfig {
+  document_type: string;
+  prefix: string;
+  format: string;
+  padding: number;
+  reset_yearly: boolean;
+  last_number: number;
+  current_period: string | null;
+}
+
+// Prefixes as in public.default_document_prefix; invoices and bills take theirs from settings
+const documentTypes = [
+  { type: "invoice", label: "Invoices", prefix: "INV-" },
+  { type: "bill", label: "Bills", prefix: "BILL-" },
+  { type: "purchase_order", label: "Purchase Orders", prefix: "PO-" },
+  { type: "credit_note", label: "Credit Notes", prefix: "CN-" },
+  { type: "stock_transfer", label: "Stock Transfers", prefix: "TRF-" },
+  { type: "stock_take", label: "Stock Takes", prefix: "ST-" },
+];
+
+const formatPresets = ["{PREFIX}{SEQ}", "{PREFIX}{FY}/{SEQ}", "{PREFIX}{YYYY}-{SEQ}"];
+
+// Mirrors public.financial_year_label / format_document_number, for the preview only
+const financialYear = (date: Date) => {
+  const start = date.getMonth() < 3 ? date.getFullYear() - 1 : date.getFullYear();
+  return `${start}-${String(start + 1).slice(-2)}`;
+};
+
+const formatNumber = (config: SequenceConfig, date = new Date()) => {
+  const fy = financialYear(date);
+  const next = config.reset_yearly && (!config.current_period || fy > config.current_period) ? 1 : config.last_number + 1;
+  return config.format
+    .replace("{PREFIX}", config.prefix)
+    .replace("{FY}", fy)
+    .replace("{YYYY}", String(date.getFullYear()))
+    .replace("{MM}", String(date.getMonth() + 1).padStart(2, "0"))
+    .replace("{SEQ}", String(next).padStart(config.padding, "0"));
+};
+
+const DocumentNumbering = () => {
+  const { settings } = useSettings();
+  const [sequences, setSequences] = useState<SequenceConfig[]>([]);
+  const [savingType, setSavingType] = useState<string | null>(null);
+
+  const defaultPrefix = (type: string) => {
+    const { prefix } = documentTypes.find((d) => d.type === type);
+    if (type === "invoice") return settings.invoice_prefix || prefix;
+    if (type === "bill") return settings.bill_prefix || prefix;
+    return prefix;
+  };
+
+  const fetchSequences = async () => {
+    const { data, error } = await supabase
+      .from("document_sequences")
+      .select("document_type, prefix, format, padding, reset_yearly, last_number, current_period");
+
+    if (error) {
+      toast.error("Error loading document numbering");
+      return;
+    }
+
+    setSequences(documentTypes.map(({ type }) => {
+      const existing = data?.find((s) => s.document_type === type);
+      return existing || {
+        document_type: type,
+        prefix: defaultPrefix(type),
+        format: "{PREFIX}{SEQ}",
+        padding: 4,
+        reset_yearly: false,
+        last_number: 0,
+        current_period: null,
+      };
+    }));
+  };
+
+  useEffect(() => {
+    fetchSequences();
+  }, []);
+
+  const updateSequence = (type: string, changes: Partial<SequenceConfig>) => {
+    setSequences((prev) => prev.map((s) => (s.document_type === type ? { ...s, ...changes } : s)));
+  };
+
+  const handleSave = async (config: SequenceConfig) => {
+    if (!config.format.includes("{SEQ}")) {
+      toast.error("Format must include {SEQ}");
+      return;
+    }
+    if (config.reset_yearly && !config.format.includes("{FY}")) {
+      toast.error("Include {FY} in the format to reset numbering every year");
+      return;
+    }
+
+    setSavingType(config.document_type);
+    try {
+      // The counter itself is only moved by the server as documents are numbered
+      const { error } = await supabase.rpc("save_document_sequence", {
+        p_document_type: config.document_type,
+        p_prefix: config.prefix,
+        p_format: config.format,
+        p_padding: config.padding,
+        p_reset_yearly: config.reset_yearly,
+      });
+
+      if (error) throw error;
+      toast.success("Numbering saved");
+      fetchSequences();
+    } catch (error) {
+      logErrorInDev("SaveDocumentNumbering", error);
+      toast.error(getSafeErrorMessage(error, "Failed to save numbering"));
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="px-4 md:px-6 py-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Hash className="h-5 w-5 text-primary" />
+          Document Numbering
+        </CardTitle>
+        <CardDescription>
+          Numbers are assigned when a document is saved and never skip or repeat.
+          Tokens: {"{PREFIX}"}, {"{FY}"} (e.g. 2026-27), {"{YYYY}"}, {"{MM}"}, {"{SEQ}"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 px-4 md:px-6">
+        {sequences.map((config) => {
+          const label = documentTypes.find((d) => d.type === config.document_type)?.label;
+          return (
+            <div key={config.document_type} className="p-3 rounded-lg border space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium text-sm">{label}</p>
+                <Badge variant="outline" className="font-mono text-xs">Next: {formatNumber(config)}</Badge>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Prefix</Label>
+                  <Input
+                    value={config.prefix}
+                    onChange={(e) => updateSequence(config.document_type, { prefix: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label className="text-xs">Format</Label>
+                  <Input
+                    value={config.format}
+                    onChange={(e) => updateSequence(config.document_type, { format: e.target.value })}
+                    list={`formats-${config.document_type}`}
+                    className="font-mono"
+                  />
+                  <datalist id={`formats-${config.document_type}`}>
+                    {formatPresets.map((f) => <option key={f} value={f} />)}
+                  </datalist>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Digits</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={config.padding}
+                    onChange={(e) => updateSequence(config.document_type, { padding: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={config.reset_yearly}
+                    onCheckedChange={(checked) => updateSequence(config.document_type, { reset_yearly: checked })}
+                  />
+                  <Label className="text-xs">Restart every financial year</Label>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleSave(config)} disabled={savingType === config.document_type}>
+                  {savingType === config.document_type ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DocumentNumbering;
@@ -2,15 +2,21 @@ import { Button } from "@/components/ui/button";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
-import { Printer, Send, Share2, X, Receipt, ClipboardList } from "lucide-react";
+import { Printer, Send, Share2, X, Receipt, ClipboardList, Download } from "lucide-react";
 import { CompanyBranding } from "@/components/CompanyBranding";
 import { useSettings } from "@/contexts/SettingsContext";
-import { useRef } from "react";
+import { useDocumentPdf } from "@/hooks/useDocumentPdf";
+import { PdfDocument, documentPdfLink } from "@/lib/documentPdf";
 
 type PreviewItem = {
+  productId?: string;
   name: string;
+  hsnCode?: string | null;
+  taxRate?: number;
   qty: number;
   unitPrice: number;
+  // Line discount; amount is already net of it
+  discount?: number;
   amount: number;
 };
 
@@ -18,13 +24,17 @@ type DocumentPreviewProps = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   type: "bill" | "purchase_order";
+  // Saved document the generated PDF is stored against
+  docId?: string;
   docNumber: string;
   partyName: string;
   partyPhone?: string;
   date: string;
   items: PreviewItem[];
   subtotal: number;
+  discount?: number;
   tax: number;
+  roundOff?: number;
   total: number;
 };
 
@@ -32,23 +42,27 @@ const DocumentPreview = ({
   open,
   onOpenChange,
   type,
+  docId,
   docNumber,
   partyName,
   partyPhone,
   date,
   items,
   subtotal,
+  discount = 0,
   tax,
+  roundOff = 0,
   total,
 }: DocumentPreviewProps) => {
   const { settings } = useSettings();
   const cs = settings.currency_symbol || "₹";
-  const printRef = useRef<HTMLDivElement>(null);
+  const { generating, generatePdf, downloadPdf, printPdf, sharePdf } = useDocumentPdf();
 
   const isBill = type === "bill";
   const title = isBill ? "Bill" : "Purchase Order";
   const partyLabel = isBill ? "Customer" : "Supplier";
   const Icon = isBill ? Receipt : ClipboardList;
+  const formatRoundOff = `${roundOff < 0 ? "-" : "+"}${cs}${Math.abs(roundOff).toFixed(2)}`;
 
   const buildWhatsAppMessage = () => {
     const emoji = isBill ? "🧾" : "📋";
@@ -57,79 +71,72 @@ const DocumentPreview = ({
     msg += `📅 ${new Date(date).toLocaleDateString("en-IN")}\n\n`;
     msg += `*Items:*\n`;
     items.forEach((item, i) => {
-      msg += `${i + 1}. ${item.name}\n   ${item.qty} × ${cs}${item.unitPrice.toLocaleString("en-IN")} = ${cs}${item.amount.toLocaleString("en-IN")}\n`;
+      const less = item.discount ? ` - ${cs}${item.discount.toLocaleString("en-IN")}` : "";
+      msg += `${i + 1}. ${item.name}\n   ${item.qty} × ${cs}${item.unitPrice.toLocaleString("en-IN")}${less} = ${cs}${item.amount.toLocaleString("en-IN")}\n`;
     });
     msg += `\n─────────────\n`;
     msg += `Subtotal: ${cs}${subtotal.toLocaleString("en-IN")}\n`;
+    if (discount > 0) {
+      msg += `Discount: -${cs}${discount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}\n`;
+    }
     if (settings.tax_enabled && tax > 0) {
       msg += `${settings.tax_name}: ${cs}${tax.toLocaleString("en-IN", { maximumFractionDigits: 2 })}\n`;
     }
+    if (roundOff !== 0) {
+      msg += `Round off: ${formatRoundOff}\n`;
+    }
     msg += `*Total: ${cs}${total.toLocaleString("en-IN", { maximumFractionDigits: 2 })}*\n`;
     msg += isBill ? `\nThank you for your purchase! 🙏` : `\nPlease confirm this order. 🙏`;
     return msg;
   };
 
-  const handlePrint = () => {
-    const content = printRef.current;
-    if (!content) return;
-    const printWindow = window.open("", "_blank");
-    if (!printWindow) return;
-    printWindow.document.write(`
-      <html><head><title>${title} - ${docNumber}</title>
-      <style>
-        body { font-family: system-ui, sans-serif; padding: 20px; color: #1a1a1a; max-width: 600px; margin: 0 auto; }
-        .header { text-align: center; margin-bottom: 16px; border-bottom: 2px solid #e5e5e5; padding-bottom: 12px; }
-        .doc-num { font-size: 18px; font-weight: 700; }
-        .meta { font-size: 13px; color: #666; margin: 4px 0; }
-        table { width: 100%; border-collapse: collapse; margin: 12px 0; }
-        th { text-align: left; font-size: 12px; color: #666; border-bottom: 1px solid #ddd; padding: 6px 4px; }
-        td { font-size: 13px; padding: 6px 4px; border-bottom: 1px solid #f0f0f0; }
-        .amount { text-align: right; }
-        .totals { margin-top: 12px; }
-        .total-row { display: flex; justify-content: space-between; padding: 4px 0; font-size: 13px; }
-        .grand-total { font-weight: 700; font-size: 16px; border-top: 2px solid #333; padding-top: 8px; margin-top: 4px; }
-        .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #999; }
-        @media print { body { padding: 0; } }
-      </style></head><body>
-      <div class="header">
-        <div class="doc-num">${title} #${docNumber}</div>
-        <div class="meta">${partyLabel}: ${partyName}</div>
-        <div class="meta">Date: ${new Date(date).toLocaleDateString("en-IN")}</div>
-      </div>
-      <table>
-        <thead><tr><th>#</th><th>Item</th><th>Qty</th><th>Price</th><th class="amount">Amount</th></tr></thead>
-        <tbody>
-          ${items.map((item, i) => `
-            <tr>
-              <td>${i + 1}</td>
-              <td>${item.name}</td>
-              <td>${item.qty}</td>
-              <td>${cs}${item.unitPrice.toLocaleString("en-IN")}</td>
-              <td class="amount">${cs}${item.amount.toLocaleString("en-IN")}</td>
-            </tr>
-          `).join("")}
-        </tbody>
-      </table>
-      <div class="totals">
-        <div class="total-row"><span>Subtotal</span><span>${cs}${subtotal.toLocaleString("en-IN")}</span></div>
-        ${settings.tax_enabled && tax > 0 ? `<div class="total-row"><span>${settings.tax_name}</span><span>${cs}${tax.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span></div>` : ""}
-        <div class="total-row grand-total"><span>Total</span><span>${cs}${total.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span></div>
-      </div>
-      <div class="footer">Thank you for your business!</div>
-      </body></html>
-    `);
-    printWindow.document.close();
-    printWindow.print();
-  };
+  const pdfTarget = docId ? { table: isBill ? "bills" as const : "purchase_orders" as const, id: docId } : undefined;
 
-  const handleWhatsAppShare = (phone?: string) => {
+  const buildPdf = (): PdfDocument => ({
+    type,
+    title: title.toUpperCase(),
+    number: docNumber,
+    partyLabel,
+    partyName,
+    partyDetails: [partyPhone && `Phone: ${partyPhone}`],
+    details: [{ label: "Date", value: new Date(date).toLocaleDateString("en-IN") }],
+    currencyCode: settings.currency_code,
+    items: items.map((item) => ({
+      description: item.name,
+      product_id: item.productId,
+      hsn_code: item.hsnCode,
+      tax_rate: item.taxRate,
+      quantity: item.qty,
+      unit_price: item.unitPrice,
+      discount_amount: item.discount,
+      amount: item.amount,
+    })),
+    totals: [
+      { label: "Subtotal", amount: subtotal },
+      ...(discount > 0 ? [{ label: "Discount", amount: -discount }] : []),
+      ...(settings.tax_enabled && tax > 0 ? [{ label: settings.tax_name, amount: tax }] : []),
+      ...(roundOff !== 0 ? [{ label: "Round off", amount: roundOff }] : []),
+      { label: "Total", amount: total, emphasis: true },
+    ],
+    footer: isBill ? "Thank you for your purchase!" : "Please confirm this order.",
+  });
+
+  const handlePrint = () => printPdf(buildPdf(), pdfTarget);
+
+  const handleWhatsAppShare = async (phone?: string) => {
     const msg = buildWhatsAppMessage();
+    const withLink = (link: string | null) => (link ? `${msg}\n\n📄 PDF: ${link}` : msg);
     if (phone) {
+      // A chat opened for a number carries text only, so link to the PDF
+      const pdf = await generatePdf(buildPdf(), pdfTarget);
+      const link = pdf?.path ? await documentPdfLink(pdf.path) : null;
       const cleaned = phone.replace(/\D/g, "");
       const full = cleaned.startsWith("91") ? cleaned : `91${cleaned}`;
-      window.open(`https://wa.me/${full}?text=${encodeURIComponent(msg)}`, "_blank");
+      window.open(`https://wa.me/${full}?text=${encodeURIComponent(withLink(link))}`, "_blank");
     } else {
-      window.open(`https://wa.me/?text=${encodeURIComponent(msg)}`, "_blank");
+      const { shared, link } = await sharePdf(buildPdf(), pdfTarget, msg);
+      if (shared) return;
+      window.open(`https://wa.me/?text=${encodeURIComponent(withLink(link))}`, "_blank");
     }
   };
 
@@ -143,7 +150,7 @@ const DocumentPreview = ({
           </DialogTitle>
         </DialogHeader>
 
-        <div ref={printRef} className="flex-1 overflow-y-auto px-4 pb-2">
+        <div className="flex-1 overflow-y-auto px-4 pb-2">
           {/* Doc Header */}
           <div className="text-center space-y-1 mb-3">
             <p className="text-lg font-bold text-primary">{docNumber}</p>
@@ -165,6 +172,7 @@ const DocumentPreview = ({
                   <p className="font-medium truncate">{item.name}</p>
                   <p className="text-xs text-muted-foreground">
                     {item.qty} × {cs}{item.unitPrice.toLocaleString("en-IN")}
+                    {!!item.discount && <> · less {cs}{item.discount.toLocaleString("en-IN")}</>}
                   </p>
                 </div>
                 <p className="font-bold text-sm">
@@ -182,12 +190,24 @@ const DocumentPreview = ({
               <span className="text-muted-foreground">Subtotal</span>
               <span>{cs}{subtotal.toLocaleString("en-IN")}</span>
             </div>
+            {discount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Discount</span>
+                <span>-{cs}{discount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
+              </div>
+            )}
             {settings.tax_enabled && tax > 0 && (
               <div className="flex justify-between">
                 <span className="text-muted-foreground">{settings.tax_name}</span>
                 <span>{cs}{tax.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
               </div>
             )}
+            {roundOff !== 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Round off</span>
+                <span>{formatRoundOff}</span>
+              </div>
+            )}
             <div className="flex justify-between font-bold text-base pt-1 border-t">
               <span>Total</span>
               <span className="text-primary">{cs}{total.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
@@ -197,12 +217,17 @@ const DocumentPreview = ({
 
         {/* Actions */}
         <div className="border-t p-4 flex flex-wrap gap-2">
-          <Button variant="outline" size="sm" onClick={handlePrint} className="flex-1">
+          <Button variant="outline" size="sm" onClick={handlePrint} disabled={generating} className="flex-1">
             <Printer className="h-4 w-4 mr-1" />
-            Print / PDF
+            Print
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => downloadPdf(buildPdf(), pdfTarget)} disabled={generating} className="flex-1">
+            <Download className="h-4 w-4 mr-1" />
+            PDF
           </Button>
           <Button
             size="sm"
+            disabled={generating}
             className="flex-1 bg-[#25D366] hover:bg-[#20BD5A] text-white"
             onClick={() => handleWhatsAppShare(partyPhone)}
           >
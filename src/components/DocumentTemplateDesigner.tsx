@@ -0,0 +1,400 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LayoutTemplate, Save, Loader2, Upload, X, ExternalLink } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { useSettings } from "@/contexts/SettingsContext";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { PdfCompany, PdfDocument, loadPdfCompany, loadPdfSignature, renderDocumentPdf } from "@/lib/documentPdf";
+import {
+  DocumentTemplate,
+  DocumentTemplateType,
+  LogoPosition,
+  defaultDocumentTemplate,
+  documentLayouts,
+  documentTemplateColumns,
+  documentTemplateTypes,
+  logoPositions,
+  toDocumentTemplate,
+} from "@/lib/documentTemplates";
+
+const columnToggles: { key: "show_sku" | "show_hsn" | "show_discount" | "show_tax"; label: string }[] = [
+  { key: "show_sku", label: "SKU" },
+  { key: "show_hsn", label: "HSN/SAC" },
+  { key: "show_discount", label: "Discount" },
+  { key: "show_tax", label: "Tax %" },
+];
+
+// Made-up document the preview is rendered from
+const sampleDocument = (type: DocumentTemplateType, currencyCode: string, taxName: string): PdfDocument => {
+  const items = [
+    { description: "Cotton T-shirt", sku: "TS-001", hsn_code: "6109", quantity: 4, unit_price: 450, discount_amount: 90, tax_rate: 5, amount: 1710 },
+    { description: "Denim jeans", sku: "DJ-014", hsn_code: "6203", quantity: 2, unit_price: 1200, discount_amount: 0, tax_rate: 12, amount: 2400 },
+    { description: "Alteration service", sku: null, hsn_code: "9988", quantity: 1, unit_price: 200, discount_amount: 0, tax_rate: 18, amount: 200 },
+  ];
+  const taxLines = items.map((item) => {
+    const tax = Math.round(item.amount * item.tax_rate) / 100;
+    return { amount: item.amount, tax_rate: item.tax_rate, cgst: tax / 2, sgst: tax / 2, igst: 0 };
+  });
+  const tax = taxLines.reduce((sum, line) => sum + line.cgst + line.sgst, 0);
+  const subtotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const labels = {
+    invoice: { title: "INVOICE", number: "INV-0042", partyLabel: "Bill To" },
+    bill: { title: "BILL", number: "BILL-0042", partyLabel: "Bill To" },
+    purchase_order: { title: "PURCHASE ORDER", number: "PO-0042", partyLabel: "Supplier" },
+  }[type];
+  const today = new Date().toLocaleDateString("en-IN");
+
+  return {
+    type,
+    ...labels,
+    partyName: type === "purchase_order" ? "Sharma Textiles" : "Priya Enterprises",
+    partyDetails: ["accounts@example.com"],
+    details: [
+      { label: "Date", value: today },
+      ...(type === "invoice" ? [{ label: "Due Date", value: today }] : []),
+    ],
+    currencyCode,
+    items,
+    taxLines,
+    totals: [
+      { label: "Subtotal", amount: subtotal },
+      { label: taxName || "Tax", amount: tax },
+      { label: "Total", amount: subtotal + tax, emphasis: true },
+    ],
+    notes: "Sample notes for the preview.",
+    footer: type === "purchase_order" ? "Please confirm this order." : undefined,
+  };
+};
+
+const DocumentTemplateDesigner = () => {
+  const { settings } = useSettings();
+  const [documentType, setDocumentType] = useState<DocumentTemplateType>("invoice");
+  const [templates, setTemplates] = useState<Record<DocumentTemplateType, DocumentTemplate>>({
+    invoice: defaultDocumentTemplate,
+    bill: defaultDocumentTemplate,
+    purchase_order: defaultDocumentTemplate,
+  });
+  const [company, setCompany] = useState<PdfCompany | null>(null);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const signatureInputRef = useRef<HTMLInputElement>(null);
+
+  const template = templates[documentType];
+
+  const fetchTemplates = async () => {
+    const { data, error } = await supabase.from("document_templates").select(documentTemplateColumns);
+    if (error) {
+      toast.error("Error loading document templates");
+      return;
+    }
+    setTemplates({
+      invoice: toDocumentTemplate(data?.find((t) => t.document_type === "invoice")),
+      bill: toDocumentTemplate(data?.find((t) => t.document_type === "bill")),
+      purchase_order: toDocumentTemplate(data?.find((t) => t.document_type === "purchase_order")),
+    });
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+    loadPdfCompany().then(setCompany);
+  }, []);
+
+  useEffect(() => {
+    loadPdfSignature(template.signature_path).then(setSignature);
+  }, [template.signature_path]);
+
+  // Re-render the preview shortly after the last change
+  useEffect(() => {
+    let url: string | null = null;
+    const timer = setTimeout(() => {
+      try {
+        const blob = renderDocumentPdf(
+          sampleDocument(documentType, settings.currency_code, settings.tax_name),
+          company,
+          settings.pdf_page_size,
+          { template, signature }
+        );
+        url = URL.createObjectURL(blob);
+        setPreviewUrl(url);
+      } catch (error) {
+        logErrorInDev("TemplatePreview", error);
+      }
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [documentType, template, company, signature, settings.pdf_page_size, settings.currency_code, settings.tax_name]);
+
+  const updateTemplate = (changes: Partial<DocumentTemplate>) => {
+    setTemplates((prev) => ({ ...prev, [documentType]: { ...prev[documentType], ...changes } }));
+  };
+
+  const saveTemplate = async (type: DocumentTemplateType, values: Partial<DocumentTemplate>) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Not authenticated");
+
+    const { error } = await supabase
+      .from("document_templates")
+      .upsert({ user_id: user.id, document_type: type, ...values }, { onConflict: "user_id,document_type" });
+    if (error) throw error;
+  };
+
+  const handleSave = async () => {
+    if (!/^#[0-9a-fA-F]{6}$/.test(template.accent_color)) {
+      toast.error("Accent colour must be a hex colour like #1d4ed8");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveTemplate(documentType, {
+        ...template,
+        footer_terms: template.footer_terms?.trim() || null,
+        bank_details: template.bank_details?.trim() || null,
+      });
+      toast.success("Template saved");
+    } catch (error) {
+      logErrorInDev("SaveDocumentTemplate", error);
+      toast.error(getSafeErrorMessage(error, "Failed to save template"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The signature is saved straight away, leaving other unsaved changes alone
+  const handleSignatureUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please upload an image file");
+      return;
+    }
+    if (file.size > 1024 * 1024) {
+      toast.error("Signature image should be less than 1MB");
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const path = `${user.id}/signature-${documentType}-${Date.now()}.${file.name.split(".").pop()}`;
+      const { error: uploadError } = await supabase.storage.from("company-logos").upload(path, file, { upsert: true });
+      if (uploadError) throw uploadError;
+
+      await saveTemplate(documentType, { signature_path: path });
+      if (template.signature_path) await supabase.storage.from("company-logos").remove([template.signature_path]);
+      updateTemplate({ signature_path: path });
+      toast.success("Signature uploaded");
+    } catch (error) {
+      logErrorInDev("SignatureUpload", error);
+      toast.error(getSafeErrorMessage(error, "Failed to upload signature"));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemoveSignature = async () => {
+    if (!template.signature_path) return;
+    try {
+      await saveTemplate(documentType, { signature_path: null });
+      await supabase.storage.from("company-logos").remove([template.signature_path]);
+      updateTemplate({ signature_path: null });
+      toast.deleted("Signature removed");
+    } catch (error) {
+      logErrorInDev("RemoveSignature", error);
+      toast.error(getSafeErrorMessage(error, "Failed to remove signature"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="px-4 md:px-6 py-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <LayoutTemplate className="h-5 w-5 text-primary" />
+          Document Templates
+        </CardTitle>
+        <CardDescription>
+          Layout used when printing, downloading and sharing documents. The preview uses sample data.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-4 md:px-6">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Document</Label>
+              <Select value={documentType} onValueChange={(value) => setDocumentType(value as DocumentTemplateType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {documentTemplateTypes.map((d) => (
+                    <SelectItem key={d.type} value={d.type}>{d.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Layout</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {documentLayouts.map((layout) => (
+                  <button
+                    key={layout.value}
+                    type="button"
+                    onClick={() => updateTemplate({ layout: layout.value })}
+                    className={`p-2 rounded-lg border text-left transition-colors ${
+                      template.layout === layout.value ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                    }`}
+                  >
+                    <p className="text-sm font-medium">{layout.label}</p>
+                    <p className="text-[10px] text-muted-foreground">{layout.description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Accent colour</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="color"
+                    value={/^#[0-9a-fA-F]{6}$/.test(template.accent_color) ? template.accent_color : "#282828"}
+                    onChange={(e) => updateTemplate({ accent_color: e.target.value })}
+                    className="w-12 p-1"
+                  />
+                  <Input
+                    value={template.accent_color}
+                    onChange={(e) => updateTemplate({ accent_color: e.target.value })}
+                    className="font-mono"
+                    maxLength={7}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Logo</Label>
+                <Select value={template.logo_position} onValueChange={(value) => updateTemplate({ logo_position: value as LogoPosition })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {logoPositions.map((p) => (
+                      <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Columns (shown when the document has values for them)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {columnToggles.map(({ key, label }) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Switch
+                      id={`template-${key}`}
+                      checked={template[key]}
+                      onCheckedChange={(checked) => updateTemplate({ [key]: checked })}
+                    />
+                    <Label htmlFor={`template-${key}`} className="text-sm">{label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="template-terms" className="text-xs">Terms & conditions</Label>
+              <Textarea
+                id="template-terms"
+                rows={3}
+                value={template.footer_terms || ""}
+                onChange={(e) => updateTemplate({ footer_terms: e.target.value })}
+                placeholder="e.g. Goods once sold will not be taken back"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="template-bank" className="text-xs">Bank details</Label>
+              <Textarea
+                id="template-bank"
+                rows={3}
+                value={template.bank_details || ""}
+                onChange={(e) => updateTemplate({ bank_details: e.target.value })}
+                placeholder={"Bank name\nAccount number\nIFSC"}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Signature</Label>
+              <div className="flex items-center gap-3">
+                {signature ? (
+                  <div className="relative">
+                    <img src={signature} alt="Signature" className="h-12 max-w-[160px] object-contain border rounded bg-white p-1" />
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      className="absolute -top-2 -right-2 h-5 w-5 rounded-full"
+                      onClick={handleRemoveSignature}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No signature</p>
+                )}
+                <input type="file" ref={signatureInputRef} onChange={handleSignatureUpload} accept="image/png,image/jpeg" className="hidden" />
+                <Button variant="outline" size="sm" onClick={() => signatureInputRef.current?.click()} disabled={uploading}>
+                  {uploading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+                  Upload
+                </Button>
+              </div>
+            </div>
+
+            <Button onClick={handleSave} disabled={saving} className="w-full sm:w-auto">
+              {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+              Save Template
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Preview ({settings.pdf_page_size.toUpperCase()})</Label>
+              {previewUrl && (
+                <Button variant="ghost" size="sm" onClick={() => window.open(previewUrl, "_blank")}>
+                  <ExternalLink className="h-4 w-4 mr-1" />
+                  Open
+                </Button>
+              )}
+            </div>
+            {previewUrl ? (
+              <iframe
+                src={`${previewUrl}#toolbar=0&view=FitH`}
+                title="Template preview"
+                className="w-full h-[420px] md:h-[560px] rounded-lg border bg-white"
+              />
+            ) : (
+              <div className="w-full h-[420px] rounded-lg border flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DocumentTemplateDesigner;
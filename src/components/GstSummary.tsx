@@ -0,0 +1,87 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useSettings } from "@/contexts/SettingsContext";
+import { GstLineTax, stateName, summarizeByRate } from "@/lib/gst";
+
+interface GstSummaryProps {
+  lines: GstLineTax[];
+  placeOfSupply?: string | null;
+  documentDiscount?: number;
+}
+
+/**
+ * Rate-wise tax table for printed invoices and bills.
+ * Renders nothing for documents without line-level tax.
+ */
+export const GstSummary = ({ lines, placeOfSupply, documentDiscount = 0 }: GstSummaryProps) => {
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const rows = summarizeByRate(lines, documentDiscount);
+  const hasLineTax = rows.some((r) => r.cgst + r.sgst + r.igst > 0);
+  if (!hasLineTax) return null;
+
+  const interState = rows.some((r) => r.igst > 0);
+  const totals = rows.reduce(
+    (sum, r) => ({
+      taxable: sum.taxable + r.taxable,
+      cgst: sum.cgst + r.cgst,
+      sgst: sum.sgst + r.sgst,
+      igst: sum.igst + r.igst,
+    }),
+    { taxable: 0, cgst: 0, sgst: 0, igst: 0 }
+  );
+
+  return (
+    <div className="space-y-1 print:break-inside-avoid">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span className="font-semibold">Tax Summary</span>
+        {placeOfSupply && <span>Place of supply: {placeOfSupply}-{stateName(placeOfSupply)}</span>}
+      </div>
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/30">
+              <TableHead className="text-xs">Rate</TableHead>
+              <TableHead className="text-xs text-right">Taxable</TableHead>
+              {interState ? (
+                <TableHead className="text-xs text-right">IGST</TableHead>
+              ) : (
+                <>
+                  <TableHead className="text-xs text-right">CGST</TableHead>
+                  <TableHead className="text-xs text-right">SGST</TableHead>
+                </>
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.tax_rate}>
+                <TableCell className="text-xs">{row.tax_rate}%</TableCell>
+                <TableCell className="text-xs text-right">{cs}{row.taxable.toFixed(2)}</TableCell>
+                {interState ? (
+                  <TableCell className="text-xs text-right">{cs}{row.igst.toFixed(2)}</TableCell>
+                ) : (
+                  <>
+                    <TableCell className="text-xs text-right">{cs}{row.cgst.toFixed(2)}</TableCell>
+                    <TableCell className="text-xs text-right">{cs}{row.sgst.toFixed(2)}</TableCell>
+                  </>
+                )}
+              </TableRow>
+            ))}
+            <TableRow className="font-semibold">
+              <TableCell className="text-xs">Total</TableCell>
+              <TableCell className="text-xs text-right">{cs}{totals.taxable.toFixed(2)}</TableCell>
+              {interState ? (
+                <TableCell className="text-xs text-right">{cs}{totals.igst.toFixed(2)}</TableCell>
+              ) : (
+                <>
+                  <TableCell className="text-xs text-right">{cs}{totals.cgst.toFixed(2)}</TableCell>
+                  <TableCell className="text-xs text-right">{cs}{totals.sgst.toFixed(2)}</TableCell>
+                </>
+              )}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Download, Printer } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { downloadBlob } from "@/lib/documentPdf";
+import { encodeBarcode } from "@/lib/barcodes";
+import { LabelItem, LabelLayoutKey, labelCount, labelLayouts, labelPageCount, renderLabelsPdf } from "@/lib/labelPdf";
+
+export type LabelProduct = {
+  id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  unit_price: number;
+  mrp: number | null;
+  quantity: number;
+};
+
+interface LabelPrintPanelProps {
+  products: LabelProduct[];
+}
+
+/**
+ * Pick products and copies, then print their labels on a sheet or a thermal
+ * roll. The bars carry the product's barcode, or its SKU where it has none.
+ */
+export const LabelPrintPanel = ({ products }: LabelPrintPanelProps) => {
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [layoutKey, setLayoutKey] = useState<LabelLayoutKey>("a4_65");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [copies, setCopies] = useState<Record<string, number>>({});
+
+  const layout = labelLayouts[layoutKey];
+  const copiesFor = (id: string) => copies[id] ?? 1;
+  const items: LabelItem[] = products
+    .filter((p) => selectedIds.includes(p.id))
+    .map((p) => ({ name: p.name, sku: p.sku, barcode: p.barcode, price: p.unit_price, mrp: p.mrp, copies: copiesFor(p.id) }));
+  const count = labelCount(items);
+  const pages = labelPageCount(items, layout);
+  const allSelected = products.length > 0 && products.every((p) => selectedIds.includes(p.id));
+
+  const toggleProduct = (id: string) => {
+    setSelectedIds((prev) => prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : products.map((p) => p.id));
+  };
+
+  // One label for every unit on hand, as when labelling a delivery
+  const copiesFromStock = () => {
+    setCopies(Object.fromEntries(products.map((p) => [p.id, Math.max(0, Math.floor(p.quantity))])));
+  };
+
+  const renderPdf = () => {
+    try {
+      return renderLabelsPdf(items, layout, cs);
+    } catch (error) {
+      logErrorInDev("RenderLabelsPdf", error);
+      toast.error("Failed to create labels");
+      return null;
+    }
+  };
+
+  const handlePrint = () => {
+    const blob = renderPdf();
+    if (!blob) return;
+    // Printed from the browser's PDF viewer, which keeps the label sizes exact
+    const url = URL.createObjectURL(blob);
+    if (!window.open(url, "_blank")) {
+      downloadBlob(blob, `labels_${new Date().toISOString().split("T")[0]}.pdf`);
+    }
+    window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleDownload = () => {
+    const blob = renderPdf();
+    if (!blob) return;
+    downloadBlob(blob, `labels_${new Date().toISOString().split("T")[0]}.pdf`);
+    toast.success(`${count} label${count === 1 ? "" : "s"} saved`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="space-y-1 flex-1">
+          <Label htmlFor="label-layout" className="text-xs">Label size</Label>
+          <select
+            id="label-layout"
+            value={layoutKey}
+            onChange={(e) => setLayoutKey(e.target.value as LabelLayoutKey)}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            {(Object.keys(labelLayouts) as LabelLayoutKey[]).map((key) => (
+              <option key={key} value={key}>{labelLayouts[key].name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handlePrint} variant="outline" size="sm" disabled={count === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button onClick={handleDownload} variant="outline" size="sm" disabled={count === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-muted/30 rounded-lg">
+        <div className="flex items-center space-x-2">
+          <Checkbox id="labels-all" checked={allSelected} onCheckedChange={toggleAll} />
+          <Label htmlFor="labels-all" className="text-sm cursor-pointer">Select all</Label>
+        </div>
+        <Button variant="ghost" size="sm" onClick={copiesFromStock}>Copies = stock</Button>
+        <p className="text-xs text-muted-foreground w-full sm:w-auto">
+          {count} label{count === 1 ? "" : "s"} · {pages} {layout.sheet ? `sheet${pages === 1 ? "" : "s"}` : `page${pages === 1 ? "" : "s"}`}
+        </p>
+      </div>
+
+      <div className="border rounded-lg divide-y max-h-[50vh] overflow-y-auto">
+        {products.map((product) => {
+          const code = product.barcode?.trim() || product.sku?.trim() || "";
+          const encoded = encodeBarcode(code);
+          return (
+            <div key={product.id} className="flex items-center gap-3 p-2">
+              <Checkbox checked={selectedIds.includes(product.id)} onCheckedChange={() => toggleProduct(product.id)} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{product.name}</p>
+                {encoded ? (
+                  <p className="text-xs text-muted-foreground truncate">
+                    {encoded.format === "EAN13" ? "EAN-13" : "Code 128"} · {encoded.text}
+                  </p>
+                ) : (
+                  <p className="text-xs text-warning truncate">{code ? "Code cannot be printed as a barcode" : "No barcode or SKU"}</p>
+                )}
+              </div>
+              <div className="text-right text-xs whitespace-nowrap">
+                <p className="font-medium">{cs}{product.unit_price.toFixed(2)}</p>
+                {product.mrp !== null && <p className="text-muted-foreground">MRP {cs}{product.mrp.toFixed(2)}</p>}
+              </div>
+              <Input
+                type="number"
+                min={0}
+                value={copiesFor(product.id)}
+                onChange={(e) => setCopies((prev) => ({ ...prev, [product.id]: Math.max(0, Math.floor(Number(e.target.value))) }))}
+                disabled={!selectedIds.includes(product.id)}
+                className="w-16 h-8"
+                aria-label={`Copies of ${product.name}`}
+              />
+            </div>
+          );
+        })}
+        {products.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-6">No products to label</p>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">Print at actual size (100%) so the labels line up with the sheet.</p>
+    </div>
+  );
+};
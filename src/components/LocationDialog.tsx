@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { StockLocation } from "@/lib/locations";
+
+interface LocationDialogProps {
+  // null to add a new location
+  location: StockLocation | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export const LocationDialog = ({ location, open, onOpenChange, onSaved }: LocationDialogProps) => {
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(location?.name || "");
+  }, [open, location?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error("Name is required");
+      return;
+    }
+    if (trimmed.length > 100) {
+      toast.error("Name must be less than 100 characters");
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = location
+      ? await supabase.from("locations").update({ name: trimmed }).eq("id", location.id)
+      : await supabase.from("locations").insert({ name: trimmed, user_id: user.id });
+    setSaving(false);
+
+    if (error) {
+      logErrorInDev("SaveLocation", error);
+      toast.error(
+        error.code === "23505"
+          ? "A location with this name already exists"
+          : getSafeErrorMessage(error, location ? "Error updating location" : "Error creating location")
+      );
+      return;
+    }
+
+    toast.success(location ? "Location updated successfully" : "Location created successfully");
+    onOpenChange(false);
+    onSaved?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{location ? "Rename Location" : "Add Location"}</DialogTitle>
+            <DialogDescription>A place you keep stock, such as the shop floor, a godown or another outlet.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="location-name">Name</Label>
+            <Input id="location-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Back godown" autoFocus />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving} className="gradient-primary text-primary-foreground">
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {location ? "Save" : "Add Location"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
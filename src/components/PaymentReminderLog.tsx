@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+
+type PaymentReminderEntry = {
+  id: string;
+  offset_days: number;
+  channel: string;
+  recipient: string | null;
+  status: string;
+  error: string | null;
+  created_at: string;
+};
+
+interface PaymentReminderLogProps {
+  invoiceId: string;
+}
+
+const stepLabel = (offsetDays: number) =>
+  offsetDays === 0 ? "On due date" : offsetDays < 0 ? `${-offsetDays}d before due` : `${offsetDays}d overdue`;
+
+/**
+ * Automatic payment reminders tried for an invoice, newest first
+ */
+export const PaymentReminderLog = ({ invoiceId }: PaymentReminderLogProps) => {
+  const [entries, setEntries] = useState<PaymentReminderEntry[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from("payment_reminders")
+      .select("id, offset_days, channel, recipient, status, error, created_at")
+      .eq("invoice_id", invoiceId)
+      .order("created_at", { ascending: false })
+      .then(({ data }) => setEntries(data || []));
+  }, [invoiceId]);
+
+  if (entries.length === 0) {
+    return <p className="text-xs md:text-sm text-muted-foreground">No reminders sent yet</p>;
+  }
+
+  return (
+    <div className="border rounded-lg divide-y">
+      {entries.map((entry) => (
+        <div key={entry.id} className="flex items-center justify-between gap-2 p-2 text-xs md:text-sm">
+          <div className="min-w-0">
+            <p className="font-medium truncate">
+              {stepLabel(entry.offset_days)} · <span className="capitalize">{entry.channel}</span>
+              {entry.recipient && <span className="text-muted-foreground font-normal"> · {entry.recipient}</span>}
+            </p>
+            <p className="text-muted-foreground truncate">{new Date(entry.created_at).toLocaleString()}</p>
+            {entry.error && <p className="text-[10px] text-destructive truncate">{entry.error}</p>}
+          </div>
+          <Badge
+            variant={entry.status === "sent" ? "default" : entry.status === "failed" ? "destructive" : "secondary"}
+            className="capitalize flex-shrink-0"
+          >
+            {entry.status}
+          </Badge>
+        </div>
+      ))}
+    </div>
+  );
+};
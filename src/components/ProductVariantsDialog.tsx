@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Loader2, Plus, Trash2 } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import {
+  VariantAttributes,
+  VariantOption,
+  attributesKey,
+  parseVariantAttributes,
+  parseVariantOptions,
+  variantCombinations,
+  variantLabel,
+} from "@/lib/variants";
+
+export interface VariantParent {
+  id: string;
+  name: string;
+  sku: string | null;
+  purchase_price: number;
+  unit_price: number;
+  quantity: number;
+  low_stock_threshold: number;
+  variant_options: Json | null;
+}
+
+type VariantRow = {
+  id: string | null;
+  sku: string;
+  barcode: string;
+  purchase_price: number;
+  unit_price: number;
+  quantity: number;
+  low_stock_threshold: number;
+};
+
+type ExistingVariant = { attributes: VariantAttributes; row: VariantRow };
+
+// Option values are edited as comma-separated text
+type OptionDraft = { name: string; values: string };
+
+const MAX_OPTIONS = 3;
+const MAX_VARIANTS = 100;
+
+const parseDraft = (drafts: OptionDraft[]): VariantOption[] =>
+  drafts
+    .map((draft) => ({
+      name: draft.name.trim(),
+      values: Array.from(new Set(draft.values.split(",").map((value) => value.trim()).filter(Boolean))),
+    }))
+    .filter((option) => option.name && option.values.length > 0);
+
+interface ProductVariantsDialogProps {
+  product: VariantParent | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export const ProductVariantsDialog = ({ product, open, onOpenChange, onSaved }: ProductVariantsDialogProps) => {
+  const [drafts, setDrafts] = useState<OptionDraft[]>([]);
+  const [existing, setExisting] = useState<ExistingVariant[]>([]);
+  const [edits, setEdits] = useState<Record<string, VariantRow>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !product) return;
+    const savedOptions = parseVariantOptions(product.variant_options);
+    setDrafts(savedOptions.length ? savedOptions.map((option) => ({ name: option.name, values: option.values.join(", ") })) : [{ name: "", values: "" }]);
+    setEdits({});
+    setExisting([]);
+    setLoading(true);
+    supabase
+      .from("products")
+      .select("id, sku, barcode, purchase_price, unit_price, quantity, low_stock_threshold, variant_attributes")
+      .eq("parent_id", product.id)
+      .then(({ data, error }) => {
+        setLoading(false);
+        if (error) {
+          logErrorInDev("LoadVariants", error);
+          toast.error("Error loading variants");
+          return;
+        }
+        setExisting(
+          (data || []).map((variant) => ({
+            attributes: parseVariantAttributes(variant.variant_attributes),
+            row: {
+              id: variant.id,
+              sku: variant.sku || "",
+              barcode: variant.barcode || "",
+              purchase_price: variant.purchase_price,
+              unit_price: variant.unit_price,
+              quantity: variant.quantity,
+              low_stock_threshold: variant.low_stock_threshold,
+            },
+          }))
+        );
+      });
+  }, [open, product?.id]);
+
+  if (!product) return null;
+
+  const options = parseDraft(drafts);
+  const combinations = variantCombinations(options);
+  const existingByKey = new Map(existing.map((variant) => [attributesKey(variant.attributes, options), variant]));
+  // The product's own stock is moved to the first variant when it first gets variants
+  const carriedStock = existing.length === 0 && product.quantity > 0 ? product.quantity : 0;
+
+  const defaultRow = (attributes: VariantAttributes): VariantRow => ({
+    id: null,
+    sku: product.sku ? [product.sku, ...options.map((option) => attributes[option.name])].join("-").toUpperCase().replace(/\s+/g, "") : "",
+    barcode: "",
+    purchase_price: product.purchase_price,
+    unit_price: product.unit_price,
+    quantity: 0,
+    low_stock_threshold: product.low_stock_threshold,
+  });
+
+  const rows = combinations.map((attributes) => {
+    const key = attributesKey(attributes, options);
+    return { key, attributes, row: edits[key] || existingByKey.get(key)?.row || defaultRow(attributes) };
+  });
+  const keptIds = new Set(rows.map(({ row }) => row.id).filter(Boolean));
+  const removed = existing.filter((variant) => !keptIds.has(variant.row.id));
+
+  const updateDraft = (index: number, patch: Partial<OptionDraft>) =>
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+
+  const updateRow = (key: string, row: VariantRow, patch: Partial<VariantRow>) =>
+    setEdits({ ...edits, [key]: { ...row, ...patch } });
+
+  const handleSave = async () => {
+    const names = options.map((option) => option.name.toLowerCase());
+    if (new Set(names).size !== names.length) {
+      toast.error("Each option needs a different name");
+      return;
+    }
+    if (rows.length > MAX_VARIANTS) {
+      toast.error(`A product can have at most ${MAX_VARIANTS} variants`);
+      return;
+    }
+    if (rows.some(({ row }) => row.quantity < 0 || row.purchase_price < 0 || row.unit_price < 0 || row.low_stock_threshold < 0)) {
+      toast.error("Prices and stock must be positive");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("save_product_variants", {
+      p_product_id: product.id,
+      p_options: options.map((option) => ({ name: option.name, values: option.values })),
+      p_variants: rows.map(({ attributes, row }) => ({
+        id: row.id,
+        variant_attributes: attributes,
+        sku: row.sku,
+        barcode: row.barcode,
+        purchase_price: row.purchase_price,
+        unit_price: row.unit_price,
+        quantity: row.quantity,
+        low_stock_threshold: row.low_stock_threshold,
+      })),
+    });
+    setSaving(false);
+
+    if (error) {
+      logErrorInDev("SaveVariants", error);
+      toast.error(
+        error.code === "23505"
+          ? "Another product already has one of these barcodes"
+          : getSafeErrorMessage(error, "Error saving variants")
+      );
+      return;
+    }
+
+    toast.success(rows.length ? `${rows.length} variant${rows.length === 1 ? "" : "s"} saved` : "Variants removed");
+    onOpenChange(false);
+    onSaved?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Variants of {product.name}</DialogTitle>
+          <DialogDescription>Each combination of options gets its own SKU, barcode, prices and stock.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {drafts.map((draft, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="w-1/3 space-y-1">
+                {index === 0 && <Label className="text-xs">Option</Label>}
+                <Input value={draft.name} onChange={(e) => updateDraft(index, { name: e.target.value })} placeholder="Size" />
+              </div>
+              <div className="flex-1 space-y-1">
+                {index === 0 && <Label className="text-xs">Values, separated by commas</Label>}
+                <Input value={draft.values} onChange={(e) => updateDraft(index, { values: e.target.value })} placeholder="S, M, L, XL" />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-destructive flex-shrink-0"
+                onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {drafts.length < MAX_OPTIONS && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setDrafts([...drafts, { name: "", values: "" }])}>
+              <Plus className="h-4 w-4 mr-1" /> Add Option
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Add an option with values to create variants</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Barcode</TableHead>
+                  <TableHead className="text-right">Purchase</TableHead>
+                  <TableHead className="text-right">Sale</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Low at</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ key, attributes, row }) => (
+                  <TableRow key={key}>
+                    <TableCell className="font-medium whitespace-nowrap">
+                      {variantLabel(attributes, options)}
+                      {!row.id && <span className="ml-1 text-[10px] text-success">new</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Input value={row.sku} onChange={(e) => updateRow(key, row, { sku: e.target.value })} className="h-8 min-w-[110px]" />
+                    </TableCell>
+                    <TableCell>
+                      <Input value={row.barcode} onChange={(e) => updateRow(key, row, { barcode: e.target.value })} className="h-8 min-w-[120px]" />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" min={0} step="0.01" value={row.purchase_price} onChange={(e) => updateRow(key, row, { purchase_price: Number(e.target.value) })} className="h-8 w-24 text-right" />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" min={0} step="0.01" value={row.unit_price} onChange={(e) => updateRow(key, row, { unit_price: Number(e.target.value) })} className="h-8 w-24 text-right" />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" min={0} value={row.quantity} onChange={(e) => updateRow(key, row, { quantity: Math.floor(Number(e.target.value)) })} className="h-8 w-20 text-right" />
+                    </TableCell>
+                    <TableCell>
+                      <Input type="number" min={0} value={row.low_stock_threshold} onChange={(e) => updateRow(key, row, { low_stock_threshold: Math.floor(Number(e.target.value)) })} className="h-8 w-20 text-right" />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {carriedStock > 0 && rows.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            The {carriedStock} in stock now is moved to the first variant, on top of any stock entered for it. Stock is kept per variant from here on.
+          </p>
+        )}
+        {removed.length > 0 && (
+          <p className="text-xs text-destructive flex items-center gap-1">
+            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+            {removed.length} existing variant{removed.length === 1 ? "" : "s"} will be deleted. Variants with stock history can't be removed.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || loading} className="gradient-primary text-primary-foreground">
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Variants
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, PackageCheck } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+
+export interface ReceivablePO {
+  id: string;
+  po_number: string;
+  supplier_name: string;
+}
+
+type ReceiveLine = {
+  id: string;
+  description: string;
+  quantity: number;
+  received_quantity: number;
+  unit_price: number;
+  receiving: number;
+  // The batch this delivery goes into, when the product is tracked by batch
+  batch_number: string;
+  manufacturing_date: string;
+  expiry_date: string;
+};
+
+interface ReceivePurchaseOrderDialogProps {
+  po: ReceivablePO | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReceived?: (billId: string, billNumber: string) => void;
+}
+
+export const ReceivePurchaseOrderDialog = ({ po, open, onOpenChange, onReceived }: ReceivePurchaseOrderDialogProps) => {
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [lines, setLines] = useState<ReceiveLine[]>([]);
+  const [billDate, setBillDate] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadLines = async (poId: string) => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("purchase_order_items")
+      .select("id, description, quantity, received_quantity, unit_price")
+      .eq("po_id", poId)
+      .order("created_at");
+    setLoading(false);
+
+    if (error) {
+      toast.error("Error loading PO items");
+      return;
+    }
+    // Default to everything still outstanding
+    setLines((data || []).map((item) => ({
+      ...item,
+      receiving: item.quantity - item.received_quantity,
+      batch_number: "",
+      manufacturing_date: "",
+      expiry_date: "",
+    })));
+  };
+
+  useEffect(() => {
+    if (open && po) {
+      setLines([]);
+      setBillDate(new Date().toISOString().split("T")[0]);
+      loadLines(po.id);
+    }
+  }, [open, po]);
+
+  const updateReceiving = (id: string, value: number) => {
+    setLines((prev) => prev.map((l) => (
+      l.id === id ? { ...l, receiving: Math.min(l.quantity - l.received_quantity, Math.max(0, Math.floor(value) || 0)) } : l
+    )));
+  };
+
+  const updateBatch = (id: string, patch: Partial<Pick<ReceiveLine, "batch_number" | "manufacturing_date" | "expiry_date">>) => {
+    setLines((prev) => prev.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+  };
+
+  const receivingValue = lines.reduce((sum, l) => sum + l.receiving * l.unit_price, 0);
+  const receivingCount = lines.filter((l) => l.receiving > 0).length;
+
+  const handleReceive = async () => {
+    if (!po) return;
+    if (receivingCount === 0) {
+      toast.error("Enter the quantity received for at least one item");
+      return;
+    }
+    if (lines.some((l) => l.receiving > 0 && !l.batch_number.trim() && (l.manufacturing_date || l.expiry_date))) {
+      toast.error("Enter the batch number for items with batch dates");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Creates the goods-receipt bill, adds stock and updates the PO status in one transaction
+      const { data: billId, error } = await supabase.rpc("receive_purchase_order", {
+        p_po_id: po.id,
+        p_lines: lines
+          .filter((l) => l.receiving > 0)
+          .map((l) => ({
+            po_item_id: l.id,
+            quantity: l.receiving,
+            batch_number: l.batch_number.trim() || null,
+            manufacturing_date: l.manufacturing_date || null,
+            expiry_date: l.expiry_date || null,
+          })),
+        p_bill_date: billDate,
+      });
+
+      if (error) throw error;
+
+      const { data: createdBill } = await supabase
+        .from("bills")
+        .select("bill_number")
+        .eq("id", billId)
+        .single();
+
+      onOpenChange(false);
+      onReceived?.(billId, createdBill?.bill_number || "");
+    } catch (error) {
+      logErrorInDev("ReceivePurchaseOrder", error);
+      toast.error(getSafeErrorMessage(error, "Failed to receive"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Goods</DialogTitle>
+          <DialogDescription>
+            {po ? `${po.po_number} · ${po.supplier_name}. Enter what arrived in this delivery, with batch and expiry dates for batch-tracked stock.` : ""}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="border rounded-lg overflow-hidden">
+              <div className="bg-muted p-2 flex text-[10px] font-semibold text-muted-foreground">
+                <span className="flex-1">Item</span>
+                <span className="w-14 text-center">Ordered</span>
+                <span className="w-14 text-center">Pending</span>
+                <span className="w-20 text-right">Received</span>
+              </div>
+              {lines.map((line) => {
+                const outstanding = line.quantity - line.received_quantity;
+                return (
+                  <div key={line.id} className="p-2 text-xs border-t space-y-2">
+                    <div className="flex items-center">
+                      <span className="flex-1 truncate">{line.description}</span>
+                      <span className="w-14 text-center">{line.quantity}</span>
+                      <span className="w-14 text-center">{outstanding}</span>
+                      <span className="w-20 flex justify-end">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding}
+                          value={line.receiving}
+                          disabled={outstanding <= 0}
+                          onChange={(e) => updateReceiving(line.id, Number(e.target.value))}
+                          className="h-8 w-16 text-right"
+                        />
+                      </span>
+                    </div>
+                    {line.receiving > 0 && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-0.5">
+                          <Label htmlFor={`batch-${line.id}`} className="text-[10px] text-muted-foreground">Batch no.</Label>
+                          <Input
+                            id={`batch-${line.id}`}
+                            value={line.batch_number}
+                            onChange={(e) => updateBatch(line.id, { batch_number: e.target.value })}
+                            className="h-8 text-xs"
+                          />
+                        </div>
+                        <div className="space-y-0.5">
+                          <Label htmlFor={`mfg-${line.id}`} className="text-[10px] text-muted-foreground">Mfg date</Label>
+                          <Input
+                            id={`mfg-${line.id}`}
+                            type="date"
+                            value={line.manufacturing_date}
+                            onChange={(e) => updateBatch(line.id, { manufacturing_date: e.target.value })}
+                            className="h-8 text-xs px-1"
+                          />
+                        </div>
+                        <div className="space-y-0.5">
+                          <Label htmlFor={`expiry-${line.id}`} className="text-[10px] text-muted-foreground">Expiry</Label>
+                          <Input
+                            id={`expiry-${line.id}`}
+                            type="date"
+                            value={line.expiry_date}
+                            onChange={(e) => updateBatch(line.id, { expiry_date: e.target.value })}
+                            className="h-8 text-xs px-1"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="receive-date">Bill Date</Label>
+                <Input id="receive-date" type="date" value={billDate} onChange={(e) => setBillDate(e.target.value)} />
+              </div>
+              <div className="text-right text-sm">
+                <p className="text-muted-foreground text-xs">Value before tax</p>
+                <p className="font-bold">{cs}{receivingValue.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleReceive} disabled={saving || loading || receivingCount === 0} className="gradient-secondary text-secondary-foreground">
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <PackageCheck className="h-4 w-4 mr-1" />}
+            Receive
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { currencySymbol } from "@/lib/currency";
+import { paymentModes } from "@/lib/payments";
+
+// An invoice paid by a customer or a purchase bill paid to a supplier
+export interface PayableDocument {
+  type: "invoice" | "bill";
+  id: string;
+  number: string;
+  party_name: string;
+  balance_due: number;
+  currency_code?: string;
+  exchange_rate?: number;
+}
+
+interface RecordPaymentDialogProps {
+  document: PayableDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRecorded?: () => void;
+}
+
+export const RecordPaymentDialog = ({ document, open, onOpenChange, onRecorded }: RecordPaymentDialogProps) => {
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const dcs = document?.currency_code ? currencySymbol(document.currency_code) : cs;
+  const isForeign = !!document?.currency_code && document.currency_code !== settings.currency_code;
+  const documentRate = Number(document?.exchange_rate) || 1;
+  const isBill = document?.type === "bill";
+  const [amount, setAmount] = useState(0);
+  const [exchangeRate, setExchangeRate] = useState(1);
+  const [paymentDate, setPaymentDate] = useState("");
+  const [mode, setMode] = useState("cash");
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && document) {
+      setAmount(Number(document.balance_due) || 0);
+      setExchangeRate(Number(document.exchange_rate) || 1);
+      setPaymentDate(new Date().toISOString().split("T")[0]);
+      setMode(document.type === "bill" ? "bank_transfer" : "cash");
+      setReference("");
+    }
+  }, [open, document?.id]);
+
+  const handleSave = async () => {
+    if (!document) return;
+    if (amount <= 0) {
+      toast.error("Enter a payment amount");
+      return;
+    }
+    if (amount > Number(document.balance_due) + 0.005) {
+      toast.error(`Amount is more than the balance due (${dcs}${Number(document.balance_due).toFixed(2)})`);
+      return;
+    }
+    if (isForeign && exchangeRate <= 0) {
+      toast.error(`Enter the exchange rate the payment was ${isBill ? "made" : "received"} at`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      // The document's amount_paid (and an invoice's status) are updated by a
+      // trigger, which also books the exchange gain or loss against its rate
+      const payment = {
+        user_id: user.id,
+        amount,
+        payment_date: paymentDate,
+        mode,
+        reference: reference.trim() || null,
+        exchange_rate: isForeign ? exchangeRate : undefined,
+      };
+      const { error } = isBill
+        ? await supabase.from("bill_payments").insert({ ...payment, bill_id: document.id })
+        : await supabase.from("payments").insert({ ...payment, invoice_id: document.id });
+
+      if (error) throw error;
+
+      toast.success(`Payment of ${dcs}${amount.toFixed(2)} recorded`);
+      onOpenChange(false);
+      onRecorded?.();
+    } catch (error) {
+      logErrorInDev("RecordPayment", error);
+      toast.error(getSafeErrorMessage(error, "Failed to record payment"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isBill ? "Record Supplier Payment" : "Record Payment"}</DialogTitle>
+          <DialogDescription>
+            {document ? `${document.number} · ${document.party_name} · Balance ${dcs}${Number(document.balance_due).toFixed(2)}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="payment-amount">Amount</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-date">Date</Label>
+              <Input id="payment-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={setMode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentModes.map((m) => (
+                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="UTR / cheque no."
+              />
+            </div>
+          </div>
+          {isForeign && (
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="payment-rate">Rate (1 {document?.currency_code} = ? {settings.currency_code})</Label>
+                <Input
+                  id="payment-rate"
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  value={exchangeRate}
+                  onChange={(e) => setExchangeRate(Number(e.target.value))}
+                />
+              </div>
+              <div className="text-right text-xs">
+                <p className="text-muted-foreground">{isBill ? "Billed" : "Invoiced"} at {documentRate}</p>
+                {exchangeRate !== documentRate && amount > 0 && (
+                  // Paying a supplier at a higher rate costs more, so the sign flips for bills
+                  <p className={(exchangeRate > documentRate) !== isBill ? "text-success font-medium" : "text-destructive font-medium"}>
+                    Exchange {(exchangeRate > documentRate) !== isBill ? "gain" : "loss"} {cs}{Math.abs(amount * (exchangeRate - documentRate)).toFixed(2)}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
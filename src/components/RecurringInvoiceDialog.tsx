@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { RecurrenceFrequency, recurrenceDate, recurrenceFrequencies, upcomingRunDates } from "@/lib/recurrence";
+
+export interface RepeatableInvoice {
+  id: string;
+  invoice_number: string;
+  customer_name: string;
+  issue_date: string;
+}
+
+interface RecurringInvoiceDialogProps {
+  invoice: RepeatableInvoice | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+}
+
+/**
+ * Sets up a schedule that raises a copy of an invoice at regular intervals
+ */
+export const RecurringInvoiceDialog = ({ invoice, open, onOpenChange, onCreated }: RecurringInvoiceDialogProps) => {
+  const { settings } = useSettings();
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("monthly");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [paymentTermsDays, setPaymentTermsDays] = useState(0);
+  const [autoSend, setAutoSend] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && invoice) {
+      setFrequency("monthly");
+      // The first repeat is one period after the original invoice
+      setStartDate(recurrenceDate(invoice.issue_date, "monthly", 1));
+      setEndDate("");
+      setPaymentTermsDays(settings.default_payment_terms);
+      setAutoSend(false);
+    }
+  }, [open, invoice]);
+
+  const handleFrequencyChange = (value: RecurrenceFrequency) => {
+    setFrequency(value);
+    if (invoice) setStartDate(recurrenceDate(invoice.issue_date, value, 1));
+  };
+
+  const preview = startDate
+    ? upcomingRunDates({ start_date: startDate, frequency, next_run_date: startDate, end_date: endDate || null }, 3)
+    : [];
+
+  const handleSave = async () => {
+    if (!invoice) return;
+    if (!startDate) {
+      toast.error("Choose a start date");
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      toast.error("End date cannot be before the start date");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc("create_recurring_invoice_from_invoice", {
+        p_invoice_id: invoice.id,
+        p_schedule: {
+          frequency,
+          start_date: startDate,
+          end_date: endDate || null,
+          payment_terms_days: paymentTermsDays,
+          auto_send: autoSend,
+        },
+      });
+      if (error) throw error;
+
+      toast.success(`${invoice.invoice_number} will repeat ${frequency}`);
+      onOpenChange(false);
+      onCreated?.();
+    } catch (error) {
+      logErrorInDev("CreateRecurringInvoice", error);
+      toast.error(getSafeErrorMessage(error, "Failed to set up recurring invoice"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-md">
+        <DialogHeader>
+          <DialogTitle>Repeat Invoice</DialogTitle>
+          <DialogDescription>
+            {invoice ? `Raise ${invoice.invoice_number} for ${invoice.customer_name} on a schedule` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={(value) => handleFrequencyChange(value as RecurrenceFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {recurrenceFrequencies.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="recurring-start">First invoice</Label>
+              <Input id="recurring-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recurring-end">Ends (optional)</Label>
+              <Input id="recurring-end" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="recurring-terms">Payment terms (days)</Label>
+            <Input
+              id="recurring-terms"
+              type="number"
+              min="0"
+              value={paymentTermsDays}
+              onChange={(e) => setPaymentTermsDays(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Switch id="recurring-auto-send" checked={autoSend} onCheckedChange={setAutoSend} />
+              <Label htmlFor="recurring-auto-send" className="text-sm">Email each invoice to the customer</Label>
+            </div>
+            {autoSend && (
+              <p className="text-xs text-muted-foreground">
+                Each invoice is raised as a draft and emailed once its PDF has been generated from Invoices.
+              </p>
+            )}
+          </div>
+
+          {preview.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Next invoices: {preview.map((d) => new Date(d).toLocaleDateString()).join(", ")}
+              {!endDate && " ..."}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
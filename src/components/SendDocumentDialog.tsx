@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Paperclip } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useDocumentPdf } from "@/hooks/useDocumentPdf";
+import { PdfDocument, pdfFileName } from "@/lib/documentPdf";
+import { currencySymbol } from "@/lib/currency";
+
+export interface EmailableDocument {
+  type: "invoice" | "bill";
+  id: string;
+  number: string;
+  customer_name: string;
+  customer_email: string | null;
+  total: number;
+  currency_code: string;
+  due_date?: string | null;
+}
+
+interface SendDocumentDialogProps {
+  document: EmailableDocument | null;
+  // Attached as rendered by Print and PDF
+  pdf: PdfDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSent?: () => void;
+}
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Emails an invoice or bill to the customer with its PDF attached
+ */
+export const SendDocumentDialog = ({ document, pdf, open, onOpenChange, onSent }: SendDocumentDialogProps) => {
+  const { generatePdf } = useDocumentPdf();
+  const [to, setTo] = useState("");
+  const [subject, setSubject] = useState("");
+  const [message, setMessage] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!open || !document) return;
+    const label = document.type === "invoice" ? "Invoice" : "Bill";
+    const amount = `${currencySymbol(document.currency_code)}${document.total.toFixed(2)}`;
+    const due = document.due_date ? `, due on ${new Date(document.due_date).toLocaleDateString("en-IN")}` : "";
+    const defaults = (companyName: string) => {
+      setSubject(`${label} ${document.number}${companyName ? ` from ${companyName}` : ""}`);
+      setMessage(
+        `Dear ${document.customer_name},\n\n` +
+        `Please find attached ${label.toLowerCase()} ${document.number} for ${amount}${due}.\n\n` +
+        `Thank you for your business.${companyName ? `\n${companyName}` : ""}`
+      );
+    };
+
+    setTo(document.customer_email || "");
+    defaults("");
+    supabase
+      .from("company_profile")
+      .select("company_name")
+      .maybeSingle()
+      .then(({ data }) => defaults(data?.company_name || ""));
+  }, [open, document?.id]);
+
+  const handleSend = async () => {
+    if (!document || !pdf) return;
+    if (!emailPattern.test(to.trim())) {
+      toast.error("Enter a valid email address");
+      return;
+    }
+    if (!subject.trim()) {
+      toast.error("Subject is required");
+      return;
+    }
+
+    setSending(true);
+    try {
+      // The function attaches the copy saved in storage
+      const generated = await generatePdf(pdf, { table: document.type === "invoice" ? "invoices" : "bills", id: document.id });
+      if (!generated) return;
+      if (!generated.path) throw new Error("Could not save the PDF");
+
+      const { data, error } = await supabase.functions.invoke("send-document", {
+        body: {
+          document_type: document.type,
+          document_id: document.id,
+          to: to.trim(),
+          subject: subject.trim(),
+          message,
+          file_name: generated.fileName,
+        },
+      });
+      if (error || !data?.success) throw new Error(data?.error || "Email could not be sent");
+
+      toast.success(`${document.number} emailed to ${to.trim()}`);
+      onOpenChange(false);
+    } catch (error) {
+      logErrorInDev("SendDocument", error);
+      toast.error(getSafeErrorMessage(error, "Email could not be sent"));
+    } finally {
+      setSending(false);
+      // Failed attempts are logged too
+      onSent?.();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Email {document?.type === "bill" ? "Bill" : "Invoice"}</DialogTitle>
+          <DialogDescription>
+            {document ? `Send ${document.number} to ${document.customer_name}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="send-to">To</Label>
+            <Input id="send-to" type="email" value={to} onChange={(e) => setTo(e.target.value)} placeholder="customer@example.com" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="send-subject">Subject</Label>
+            <Input id="send-subject" value={subject} maxLength={200} onChange={(e) => setSubject(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="send-message">Message</Label>
+            <Textarea id="send-message" rows={7} value={message} maxLength={5000} onChange={(e) => setMessage(e.target.value)} />
+          </div>
+          {pdf && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Paperclip className="h-3 w-3" />
+              {pdfFileName(pdf)}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSend} disabled={sending}>
+            {sending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
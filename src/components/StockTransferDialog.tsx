@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { ArrowRightLeft, Loader2, Search, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { StockLocation } from "@/lib/locations";
+
+type AvailableProduct = {
+  product_id: string;
+  name: string;
+  sku: string | null;
+  available: number;
+};
+
+type TransferLine = AvailableProduct & { quantity: number };
+
+interface StockTransferDialogProps {
+  locations: StockLocation[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export const StockTransferDialog = ({ locations, open, onOpenChange, onSaved }: StockTransferDialogProps) => {
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [transferDate, setTransferDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [available, setAvailable] = useState<AvailableProduct[]>([]);
+  const [lines, setLines] = useState<TransferLine[]>([]);
+  const [search, setSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    // From the default location to the next one, the usual restock direction
+    const from = locations.find((l) => l.is_default) || locations[0];
+    setFromId(from?.id || "");
+    setToId(locations.find((l) => l.id !== from?.id)?.id || "");
+    setTransferDate(format(new Date(), "yyyy-MM-dd"));
+    setNotes("");
+    setSearch("");
+  }, [open]);
+
+  useEffect(() => {
+    setLines([]);
+    setAvailable([]);
+    if (!open || !fromId) return;
+    let stale = false;
+    supabase
+      .from("location_stock")
+      .select("product_id, quantity, products(name, sku)")
+      .eq("location_id", fromId)
+      .gt("quantity", 0)
+      .then(({ data, error }) => {
+        if (stale) return;
+        if (error) {
+          logErrorInDev("LoadLocationStock", error);
+          toast.error("Error loading stock at this location");
+          return;
+        }
+        setAvailable(
+          (data || [])
+            .map((row) => ({ product_id: row.product_id, name: row.products?.name || "", sku: row.products?.sku || null, available: row.quantity }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      });
+    return () => {
+      stale = true;
+    };
+  }, [open, fromId]);
+
+  const term = search.trim().toLowerCase();
+  const matches = term
+    ? available
+        .filter((p) => !lines.some((l) => l.product_id === p.product_id))
+        .filter((p) => p.name.toLowerCase().includes(term) || p.sku?.toLowerCase().includes(term))
+        .slice(0, 8)
+    : [];
+
+  const addLine = (product: AvailableProduct) => {
+    setLines([...lines, { ...product, quantity: product.available }]);
+    setSearch("");
+  };
+
+  const updateQuantity = (productId: string, value: number) =>
+    setLines(lines.map((l) => (l.product_id === productId ? { ...l, quantity: Math.min(l.available, Math.max(0, Math.floor(value) || 0)) } : l)));
+
+  const handleSave = async () => {
+    if (!fromId || !toId || fromId === toId) {
+      toast.error("Choose two different locations");
+      return;
+    }
+    const items = lines.filter((l) => l.quantity > 0);
+    if (items.length === 0) {
+      toast.error("Add at least one item to transfer");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("create_stock_transfer", {
+      p_transfer: { from_location_id: fromId, to_location_id: toId, transfer_date: transferDate, notes },
+      p_items: items.map((l) => ({ product_id: l.product_id, quantity: l.quantity })),
+    });
+    setSaving(false);
+
+    if (error) {
+      logErrorInDev("CreateStockTransfer", error);
+      toast.error(getSafeErrorMessage(error, "Failed to transfer stock"));
+      return;
+    }
+
+    const units = items.reduce((sum, l) => sum + l.quantity, 0);
+    toast.success(`${units} unit${units === 1 ? "" : "s"} moved to ${locations.find((l) => l.id === toId)?.name}`);
+    onOpenChange(false);
+    onSaved?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Transfer Stock</DialogTitle>
+          <DialogDescription>Move stock from one location to another. Total stock stays the same.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-[1fr_auto_1fr] gap-2 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger><SelectValue placeholder="Location" /></SelectTrigger>
+                <SelectContent>
+                  {locations.map((l) => <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <ArrowRightLeft className="h-4 w-4 text-muted-foreground mb-3" />
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger><SelectValue placeholder="Location" /></SelectTrigger>
+                <SelectContent>
+                  {locations.filter((l) => l.id !== fromId).map((l) => <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={available.length ? "Search products at this location..." : "No stock at this location"}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              disabled={available.length === 0}
+              className="pl-10"
+            />
+            {matches.length > 0 && (
+              <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md divide-y">
+                {matches.map((p) => (
+                  <button
+                    key={p.product_id}
+                    type="button"
+                    className="w-full flex justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-muted/50"
+                    onClick={() => addLine(p)}
+                  >
+                    <span className="truncate">{p.name}</span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">{p.available} here</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {lines.length > 0 && (
+            <div className="border rounded-lg overflow-hidden">
+              <div className="bg-muted p-2 flex text-[10px] font-semibold text-muted-foreground">
+                <span className="flex-1">Item</span>
+                <span className="w-16 text-center">Available</span>
+                <span className="w-20 text-right">Move</span>
+                <span className="w-8" />
+              </div>
+              {lines.map((line) => (
+                <div key={line.product_id} className="p-2 flex text-xs border-t items-center">
+                  <span className="flex-1 truncate">{line.name}</span>
+                  <span className="w-16 text-center">{line.available}</span>
+                  <span className="w-20 flex justify-end">
+                    <Input
+                      type="number"
+                      min="1"
+                      max={line.available}
+                      value={line.quantity}
+                      onChange={(e) => updateQuantity(line.product_id, Number(e.target.value))}
+                      className="h-8 w-16 text-right"
+                    />
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => setLines(lines.filter((l) => l.product_id !== line.product_id))}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="transfer-date" className="text-xs">Date</Label>
+              <Input id="transfer-date" type="date" value={transferDate} onChange={(e) => setTransferDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="transfer-notes" className="text-xs">Notes</Label>
+              <Textarea id="transfer-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={1} className="min-h-10" />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || lines.length === 0} className="gradient-primary text-primary-foreground">
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ArrowRightLeft className="h-4 w-4 mr-1" />}
+            Transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { z } from "zod";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { gstStates, stateCodeFromGstin } from "@/lib/gst";
+import { Supplier } from "@/lib/suppliers";
+
+const supplierSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200, "Name must be less than 200 characters"),
+  contact_person: z.string().max(200).optional().or(z.literal("")),
+  email: z.string().email("Invalid email format").max(255).optional().or(z.literal("")),
+  phone: z.string().max(20, "Phone must be less than 20 characters").optional().or(z.literal("")),
+  gstin: z.string().regex(/^[0-9]{2}[A-Z0-9]{13}$/, "GSTIN must be 15 characters, starting with the state code").optional().or(z.literal("")),
+  address: z.string().max(500, "Address must be less than 500 characters").optional().or(z.literal("")),
+  state_code: z.string().optional().or(z.literal("")),
+  // Blank uses the default payment terms
+  payment_terms: z.string().refine(
+    (value) => value === "" || (Number.isInteger(Number(value)) && Number(value) >= 0 && Number(value) <= 365),
+    "Payment terms must be 0 to 365 days"
+  ),
+  // Blank uses the default lead time
+  lead_time_days: z.string().refine(
+    (value) => value === "" || (Number.isInteger(Number(value)) && Number(value) >= 0 && Number(value) <= 365),
+    "Lead time must be 0 to 365 days"
+  ),
+  bank_account_name: z.string().max(200).optional().or(z.literal("")),
+  bank_account_number: z.string().max(34).optional().or(z.literal("")),
+  bank_ifsc: z.string().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, "IFSC must be 11 characters, e.g. HDFC0001234").optional().or(z.literal("")),
+  bank_name: z.string().max(200).optional().or(z.literal("")),
+  upi_id: z.string().max(100).optional().or(z.literal("")),
+  notes: z.string().max(1000).optional().or(z.literal("")),
+});
+
+type SupplierForm = z.infer<typeof supplierSchema>;
+
+const emptyForm: SupplierForm = {
+  name: "",
+  contact_person: "",
+  email: "",
+  phone: "",
+  gstin: "",
+  address: "",
+  state_code: "",
+  payment_terms: "",
+  lead_time_days: "",
+  bank_account_name: "",
+  bank_account_number: "",
+  bank_ifsc: "",
+  bank_name: "",
+  upi_id: "",
+  notes: "",
+};
+
+interface SupplierDialogProps {
+  // null to add a new supplier
+  supplier: Supplier | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export const SupplierDialog = ({ supplier, open, onOpenChange, onSaved }: SupplierDialogProps) => {
+  const [formData, setFormData] = useState<SupplierForm>(emptyForm);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormErrors({});
+    setFormData(
+      supplier
+        ? {
+            name: supplier.name,
+            contact_person: supplier.contact_person || "",
+            email: supplier.email || "",
+            phone: supplier.phone || "",
+            gstin: supplier.gstin || "",
+            address: supplier.address || "",
+            state_code: supplier.state_code || "",
+            payment_terms: supplier.payment_terms === null ? "" : String(supplier.payment_terms),
+            lead_time_days: supplier.lead_time_days === null ? "" : String(supplier.lead_time_days),
+            bank_account_name: supplier.bank_account_name || "",
+            bank_account_number: supplier.bank_account_number || "",
+            bank_ifsc: supplier.bank_ifsc || "",
+            bank_name: supplier.bank_name || "",
+            upi_id: supplier.upi_id || "",
+            notes: supplier.notes || "",
+          }
+        : emptyForm
+    );
+  }, [open, supplier?.id]);
+
+  const field = (key: keyof SupplierForm) => ({
+    id: `supplier-${key}`,
+    value: formData[key] || "",
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setFormData({ ...formData, [key]: e.target.value }),
+    className: formErrors[key] ? "border-destructive" : "",
+  });
+
+  const fieldError = (key: keyof SupplierForm) =>
+    formErrors[key] && <p className="text-xs text-destructive">{formErrors[key]}</p>;
+
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase().replace(/\s/g, "");
+    // The GSTIN starts with the supplier's state code
+    setFormData({ ...formData, gstin, state_code: formData.state_code || stateCodeFromGstin(gstin) || "" });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormErrors({});
+
+    const validation = supplierSchema.safeParse(formData);
+    if (!validation.success) {
+      const errors: Record<string, string> = {};
+      validation.error.errors.forEach((err) => {
+        if (err.path[0]) {
+          errors[err.path[0] as string] = err.message;
+        }
+      });
+      setFormErrors(errors);
+      toast.error(validation.error.errors[0].message);
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast.error("You must be logged in");
+      return;
+    }
+
+    const values = validation.data;
+    const record = {
+      name: values.name,
+      contact_person: values.contact_person?.trim() || null,
+      email: values.email?.trim() || null,
+      phone: values.phone?.trim() || null,
+      gstin: values.gstin || null,
+      address: values.address?.trim() || null,
+      state_code: values.state_code || null,
+      payment_terms: values.payment_terms === "" ? null : Number(values.payment_terms),
+      lead_time_days: values.lead_time_days === "" ? null : Number(values.lead_time_days),
+      bank_account_name: values.bank_account_name?.trim() || null,
+      bank_account_number: values.bank_account_number?.trim() || null,
+      bank_ifsc: values.bank_ifsc || null,
+      bank_name: values.bank_name?.trim() || null,
+      upi_id: values.upi_id?.trim() || null,
+      notes: values.notes?.trim() || null,
+    };
+
+    setSaving(true);
+    const { error } = supplier
+      ? await supabase.from("suppliers").update(record).eq("id", supplier.id)
+      : await supabase.from("suppliers").insert({ ...record, user_id: user.id });
+    setSaving(false);
+
+    if (error) {
+      logErrorInDev("SaveSupplier", error);
+      if (error.code === "23505") {
+        setFormErrors({ name: "A supplier with this name already exists" });
+        toast.error("A supplier with this name already exists");
+      } else {
+        toast.error(getSafeErrorMessage(error, supplier ? "Error updating supplier" : "Error creating supplier"));
+      }
+      return;
+    }
+
+    toast.success(supplier ? "Supplier updated successfully" : "Supplier created successfully");
+    onOpenChange(false);
+    onSaved?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-gradient">{supplier ? "Edit Supplier" : "Add New Supplier"}</DialogTitle>
+          <DialogDescription className="sr-only">
+            {supplier ? "Edit supplier details" : "Add a new supplier to your database"}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="supplier-name">Supplier Name *</Label>
+            <Input {...field("name")} placeholder="Enter supplier name" required />
+            {fieldError("name")}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-contact_person">Contact Person</Label>
+              <Input {...field("contact_person")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-phone">Phone</Label>
+              <Input {...field("phone")} type="tel" placeholder="+91 9876543210" />
+              {fieldError("phone")}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-email">Email</Label>
+            <Input {...field("email")} type="email" placeholder="supplier@example.com" />
+            {fieldError("email")}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-address">Address</Label>
+            <Textarea {...field("address")} placeholder="Enter supplier address" />
+            {fieldError("address")}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-gstin">GSTIN</Label>
+              <Input {...field("gstin")} onChange={(e) => handleGstinChange(e.target.value)} placeholder="27AAPFU0939F1ZV" maxLength={15} />
+              {fieldError("gstin")}
+            </div>
+            <div className="space-y-2">
+              <Label>State</Label>
+              <Select value={formData.state_code} onValueChange={(value) => setFormData({ ...formData, state_code: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {gstStates.map((state) => (
+                    <SelectItem key={state.code} value={state.code}>{state.code} - {state.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-payment_terms">Payment Terms (days)</Label>
+            <Input {...field("payment_terms")} type="number" min={0} max={365} placeholder="Default terms" />
+            {fieldError("payment_terms")}
+            <p className="text-xs text-muted-foreground">Bills from this supplier fall due this many days after the bill date</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-lead_time_days">Lead Time (days)</Label>
+            <Input {...field("lead_time_days")} type="number" min={0} max={365} placeholder="Default lead time" />
+            {fieldError("lead_time_days")}
+            <p className="text-xs text-muted-foreground">Days from placing an order to delivery, used for reorder suggestions</p>
+          </div>
+
+          <Separator />
+          <p className="text-sm font-semibold">Bank Details</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-bank_account_name">Account Name</Label>
+              <Input {...field("bank_account_name")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-bank_account_number">Account Number</Label>
+              <Input {...field("bank_account_number")} inputMode="numeric" />
+              {fieldError("bank_account_number")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-bank_ifsc">IFSC</Label>
+              <Input
+                {...field("bank_ifsc")}
+                onChange={(e) => setFormData({ ...formData, bank_ifsc: e.target.value.toUpperCase().trim() })}
+                maxLength={11}
+              />
+              {fieldError("bank_ifsc")}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-bank_name">Bank</Label>
+              <Input {...field("bank_name")} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-upi_id">UPI ID</Label>
+            <Input {...field("upi_id")} placeholder="name@bank" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-notes">Notes</Label>
+            <Textarea {...field("notes")} />
+          </div>
+          <Button type="submit" className="w-full gradient-primary text-primary-foreground" disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {supplier ? "Update Supplier" : "Add Supplier"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
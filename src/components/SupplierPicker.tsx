@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Check, ChevronsUpDown, Loader2, Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { Supplier, fetchSuppliers, findOrCreateSupplier, normalizeSupplierName } from "@/lib/suppliers";
+
+interface SupplierPickerProps {
+  supplierId: string | null;
+  // Shown until a supplier is picked, e.g. the name on an existing document
+  supplierName?: string;
+  onSelect: (supplier: Supplier | null) => void;
+  // Offer to clear the supplier, for records where it is optional
+  allowClear?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Picks a supplier on record. A name that isn't on record yet is added as a
+ * new supplier, so the same supplier is never entered twice.
+ */
+export const SupplierPicker = ({
+  supplierId,
+  supplierName,
+  onSelect,
+  allowClear = false,
+  placeholder = "Select or add supplier...",
+  className,
+}: SupplierPickerProps) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    fetchSuppliers()
+      .then(setSuppliers)
+      .catch((error) => logErrorInDev("FetchSuppliers", error));
+  }, []);
+
+  const selected = suppliers.find((supplier) => supplier.id === supplierId);
+  const label = selected?.name || supplierName;
+  const canAdd = !!search.trim() && !suppliers.some((supplier) => normalizeSupplierName(supplier.name) === normalizeSupplierName(search));
+
+  const pick = (supplier: Supplier | null) => {
+    onSelect(supplier);
+    setSearch("");
+    setOpen(false);
+  };
+
+  const handleAdd = async () => {
+    if (!search.trim()) return;
+    setAdding(true);
+    try {
+      const supplier = await findOrCreateSupplier(search, suppliers);
+      setSuppliers((current) =>
+        current.some((s) => s.id === supplier.id) ? current : [...current, supplier].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      pick(supplier);
+    } catch (error) {
+      logErrorInDev("AddSupplier", error);
+      toast.error(getSafeErrorMessage(error, "Failed to add supplier"));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", !label && "text-muted-foreground", className)}
+        >
+          <span className="truncate">{label || placeholder}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[240px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search or add supplier..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No suppliers found</CommandEmpty>
+            {canAdd && (
+              <CommandGroup>
+                <CommandItem value={`add ${search}`} onSelect={handleAdd} disabled={adding}>
+                  {adding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Add "{search.trim()}" as a new supplier
+                </CommandItem>
+              </CommandGroup>
+            )}
+            <CommandGroup heading="Suppliers">
+              {suppliers.map((supplier) => (
+                <CommandItem key={supplier.id} value={supplier.name} onSelect={() => pick(supplier)}>
+                  <Check className={cn("mr-2 h-4 w-4", supplier.id === supplierId ? "opacity-100" : "opacity-0")} />
+                  <div className="flex flex-col min-w-0">
+                    <span className="truncate">{supplier.name}</span>
+                    {(supplier.phone || supplier.email) && (
+                      <span className="text-xs text-muted-foreground truncate">{supplier.phone || supplier.email}</span>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {allowClear && supplierId && (
+              <CommandGroup>
+                <CommandItem value="__clear_supplier" onSelect={() => pick(null)}>
+                  <X className="mr-2 h-4 w-4" />
+                  No supplier
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
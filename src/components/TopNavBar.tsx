@@ -8,8 +8,10 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSepara
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { supabase } from "@/integrations/supabase/client";
+import { useSettings } from "@/contexts/SettingsContext";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { cn } from "@/lib/utils";
+import { addDays, format } from "date-fns";
 const moreMenuItems = [{
   path: "/bills",
   label: "Purchases",
@@ -42,6 +44,7 @@ type Notification = {
 export const TopNavBar = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { settings, loading: settingsLoading } = useSettings();
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [isMoreOpen, setIsMoreOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -66,8 +69,8 @@ export const TopNavBar = () => {
   };
 
   useEffect(() => {
-    fetchNotifications();
-  }, []);
+    if (!settingsLoading) fetchNotifications();
+  }, [settingsLoading, settings.bill_due_alerts, settings.bill_due_alert_days]);
 
   const fetchNotifications = async () => {
     const newNotifications: Notification[] = [];
@@ -75,7 +78,8 @@ export const TopNavBar = () => {
     // Check low stock products
     const { data: products } = await supabase
       .from("products")
-      .select("id, name, quantity, low_stock_threshold");
+      .select("id, name, quantity, low_stock_threshold")
+      .is("variant_options", null);
     
     if (products) {
       const lowStockItems = products.filter(p => p.quantity <= p.low_stock_threshold);
@@ -110,23 +114,32 @@ export const TopNavBar = () => {
       });
     }
 
-    // Check overdue bills
-    const { data: overdueBills } = await supabase
-      .from("bills")
-      .select("id, bill_number, customer_name, bill_date")
-      .neq("status", "paid")
-      .neq("status", "cancelled")
-      .limit(5);
+    // Check unpaid purchase bills that are overdue or fall due within the alert window
+    if (settings.bill_due_alerts) {
+      const alertUntil = format(addDays(new Date(), settings.bill_due_alert_days), "yyyy-MM-dd");
+      const { data: dueBills } = await supabase
+        .from("bills")
+        .select("id, bill_number, customer_name, due_date")
+        .eq("bill_type", "purchase")
+        .neq("status", "cancelled")
+        .gt("balance_due", 0)
+        .lte("due_date", alertUntil)
+        .order("due_date")
+        .limit(5);
 
-    if (overdueBills) {
-      overdueBills.forEach(bill => {
-        newNotifications.push({
-          id: `overdue_bill_${bill.id}`,
-          type: "overdue_bill",
-          title: "Pending Bill",
-          message: `${bill.bill_number} from ${bill.customer_name} is pending`,
+      if (dueBills) {
+        dueBills.forEach(bill => {
+          const overdue = !!bill.due_date && bill.due_date < today;
+          newNotifications.push({
+            id: `overdue_bill_${bill.id}`,
+            type: "overdue_bill",
+            title: overdue ? "Overdue Bill" : "Bill Due Soon",
+            message: overdue
+              ? `${bill.bill_number} to ${bill.customer_name} is overdue`
+              : `${bill.bill_number} to ${bill.customer_name} is due ${bill.due_date === today ? "today" : `on ${bill.due_date}`}`,
+          });
         });
-      });
+      }
     }
 
     setNotifications(newNotifications);
@@ -21,6 +21,17 @@ export interface UserSettings {
   default_payment_terms: number;
   items_per_page: number;
   date_format: string;
+  pdf_page_size: "a4" | "a5";
+  reminder_channel: "email" | "whatsapp";
+  // Days from the due date to send reminders on, negative for before it
+  reminder_offsets: number[];
+  // Days ahead of a purchase bill's due date to start alerting
+  bill_due_alert_days: number;
+  // Reorder planning: days of sales to average, days of stock to order for,
+  // and the delivery time of suppliers without their own
+  reorder_history_days: number;
+  reorder_cover_days: number;
+  default_lead_time_days: number;
 }
 
 const defaultSettings: UserSettings = {
@@ -42,6 +53,13 @@ const defaultSettings: UserSettings = {
   default_payment_terms: 30,
   items_per_page: 10,
   date_format: "DD/MM/YYYY",
+  pdf_page_size: "a4",
+  reminder_channel: "email",
+  reminder_offsets: [-3, 0, 7],
+  bill_due_alert_days: 3,
+  reorder_history_days: 90,
+  reorder_cover_days: 30,
+  default_lead_time_days: 7,
 };
 
 interface SettingsContextType {
@@ -95,6 +113,13 @@ export const SettingsProvider = ({ children }: { children: ReactNode }) => {
           default_payment_terms: data.default_payment_terms,
           items_per_page: data.items_per_page,
           date_format: data.date_format,
+          pdf_page_size: data.pdf_page_size === "a5" ? "a5" : "a4",
+          reminder_channel: data.reminder_channel === "whatsapp" ? "whatsapp" : "email",
+          reminder_offsets: data.reminder_offsets,
+          bill_due_alert_days: data.bill_due_alert_days,
+          reorder_history_days: data.reorder_history_days,
+          reorder_cover_days: data.reorder_cover_days,
+          default_lead_time_days: data.default_lead_time_days,
         });
       }
     } catch (error) {
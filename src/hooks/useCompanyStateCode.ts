@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { stateCodeFromGstin } from "@/lib/gst";
+
+/**
+ * State code of the business, taken from the GSTIN in the company profile.
+ * Null until loaded, or when no valid GSTIN is set.
+ */
+export function useCompanyStateCode() {
+  const [stateCode, setStateCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStateCode = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data } = await supabase
+        .from("company_profile")
+        .select("gst_number")
+        .eq("user_id", user.id)
+        .maybeSingle();
+      setStateCode(stateCodeFromGstin(data?.gst_number));
+    };
+    fetchStateCode();
+  }, []);
+
+  return stateCode;
+}
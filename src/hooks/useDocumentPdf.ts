@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useSettings } from "@/contexts/SettingsContext";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import {
+  PdfDocument,
+  PdfDocumentTable,
+  documentPdfLink,
+  downloadBlob,
+  loadPdfCompany,
+  loadPdfSignature,
+  pdfFileName,
+  renderDocumentPdf,
+  shareFile,
+  storeDocumentPdf,
+  withBatches,
+  withSkus,
+} from "@/lib/documentPdf";
+import { loadDocumentTemplate } from "@/lib/documentTemplates";
+
+// The saved document a PDF belongs to
+export interface PdfTarget {
+  table: PdfDocumentTable;
+  id: string;
+}
+
+export interface GeneratedPdf {
+  blob: Blob;
+  fileName: string;
+  // Storage path, when the PDF was saved against its document
+  path: string | null;
+}
+
+/**
+ * Renders documents to PDF with the template and page size chosen in Settings
+ * and keeps a copy in storage against the document, for download, printing and sharing
+ */
+export function useDocumentPdf() {
+  const { settings } = useSettings();
+  const [generating, setGenerating] = useState(false);
+
+  const generatePdf = async (doc: PdfDocument, target?: PdfTarget, options: { autoPrint?: boolean } = {}): Promise<GeneratedPdf | null> => {
+    setGenerating(true);
+    try {
+      const [company, template] = await Promise.all([loadPdfCompany(), loadDocumentTemplate(doc.type)]);
+      const [skuItems, signature] = await Promise.all([
+        template.show_sku ? withSkus(doc.items) : doc.items,
+        loadPdfSignature(template.signature_path),
+      ]);
+      // Sales and purchase bills print the batches their stock moved through
+      const items = target && target.table !== "purchase_orders"
+        ? await withBatches(skuItems, { type: target.table === "invoices" ? "invoice" : "bill", id: target.id })
+        : skuItems;
+      const blob = renderDocumentPdf({ ...doc, items }, company, settings.pdf_page_size, { ...options, template, signature });
+      let path: string | null = null;
+      if (target) {
+        try {
+          path = await storeDocumentPdf(target.table, target.id, blob);
+        } catch (error) {
+          // The PDF is still usable on this device
+          logErrorInDev("StoreDocumentPdf", error);
+        }
+      }
+      return { blob, fileName: pdfFileName(doc), path };
+    } catch (error) {
+      logErrorInDev("GenerateDocumentPdf", error);
+      toast.error(getSafeErrorMessage(error, "Failed to generate PDF"));
+      return null;
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const downloadPdf = async (doc: PdfDocument, target?: PdfTarget) => {
+    const pdf = await generatePdf(doc, target);
+    if (!pdf) return;
+    downloadBlob(pdf.blob, pdf.fileName);
+    toast.success(`${pdf.fileName} downloaded`);
+  };
+
+  // Opens the PDF with the print dialog up
+  const printPdf = async (doc: PdfDocument, target?: PdfTarget) => {
+    const pdf = await generatePdf(doc, target, { autoPrint: true });
+    if (!pdf) return;
+    window.open(URL.createObjectURL(pdf.blob), "_blank");
+  };
+
+  /**
+   * Shares the PDF through the device share sheet with `text` as the message.
+   * Where files cannot be shared, returns a link to the stored copy for the
+   * caller to add to its own message instead.
+   */
+  const sharePdf = async (doc: PdfDocument, target: PdfTarget | undefined, text: string): Promise<{ shared: boolean; link: string | null }> => {
+    const pdf = await generatePdf(doc, target);
+    if (!pdf) return { shared: false, link: null };
+    if (await shareFile(pdf.blob, pdf.fileName, text)) return { shared: true, link: null };
+    return { shared: false, link: pdf.path ? await documentPdfLink(pdf.path) : null };
+  };
+
+  return { generating, generatePdf, downloadPdf, printPdf, sharePdf };
+}
@@ -18,79 +18,212 @@ export type Database = {
         Row: {
           amount: number
           bill_id: string
+          cgst: number
           created_at: string
           description: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          hsn_code: string | null
           id: string
+          igst: number
+          po_item_id: string | null
           product_id: string | null
           quantity: number
+          sgst: number
+          tax_rate: number
           unit_price: number
         }
         Insert: {
           amount?: number
           bill_id: string
+          cgst?: number
           created_at?: string
           description: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          hsn_code?: string | null
           id?: string
+          igst?: number
+          po_item_id?: string | null
           product_id?: string | null
           quantity?: number
+          sgst?: number
+          tax_rate?: number
           unit_price?: number
         }
         Update: {
           amount?: number
           bill_id?: string
+          cgst?: number
           created_at?: string
           description?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          hsn_code?: string | null
           id?: string
+          igst?: number
+          po_item_id?: string | null
           product_id?: string | null
           quantity?: number
+          sgst?: number
+          tax_rate?: number
           unit_price?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bill_items_po_item_id_fkey"
+            columns: ["po_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_payments: {
+        Row: {
+          amount: number
+          bill_id: string
+          created_at: string
+          exchange_gain_loss: number
+          exchange_rate: number
+          id: string
+          mode: string
+          notes: string | null
+          payment_date: string
+          reference: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          bill_id: string
+          created_at?: string
+          exchange_gain_loss?: number
+          exchange_rate?: number
+          id?: string
+          mode?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          bill_id?: string
+          created_at?: string
+          exchange_gain_loss?: number
+          exchange_rate?: number
+          id?: string
+          mode?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       bills: {
         Row: {
+          amount_paid: number
+          balance_due: number
           bill_date: string
           bill_number: string
+          bill_type: string
           client_id: string | null
           created_at: string
+          currency_code: string
           customer_email: string | null
           customer_name: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          due_date: string | null
+          exchange_rate: number
           id: string
+          location_id: string | null
           notes: string | null
+          pdf_path: string | null
+          place_of_supply: string | null
+          po_id: string | null
+          round_off: number
           status: string
           subtotal: number
+          supplier_id: string | null
           tax: number
           total: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          amount_paid?: number
+          balance_due?: never
           bill_date?: string
           bill_number: string
+          bill_type?: string
           client_id?: string | null
           created_at?: string
+          currency_code?: string
           customer_email?: string | null
           customer_name: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          due_date?: string | null
+          exchange_rate?: number
           id?: string
+          location_id?: string | null
           notes?: string | null
+          pdf_path?: string | null
+          place_of_supply?: string | null
+          po_id?: string | null
+          round_off?: number
           status?: string
           subtotal?: number
+          supplier_id?: string | null
           tax?: number
           total?: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          amount_paid?: number
+          balance_due?: never
           bill_date?: string
           bill_number?: string
+          bill_type?: string
           client_id?: string | null
           created_at?: string
+          currency_code?: string
           customer_email?: string | null
           customer_name?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          due_date?: string | null
+          exchange_rate?: number
           id?: string
+          location_id?: string | null
           notes?: string | null
+          pdf_path?: string | null
+          place_of_supply?: string | null
+          po_id?: string | null
+          round_off?: number
           status?: string
           subtotal?: number
+          supplier_id?: string | null
           tax?: number
           total?: number
           updated_at?: string
@@ -104,6 +237,27 @@ export type Database = {
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bills_po_id_fkey"
+            columns: ["po_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       clients: {
@@ -114,6 +268,8 @@ export type Database = {
           id: string
           name: string
           phone: string | null
+          reminders_opt_out: boolean
+          state_code: string | null
           updated_at: string
           user_id: string
         }
@@ -124,6 +280,8 @@ export type Database = {
           id?: string
           name: string
           phone?: string | null
+          reminders_opt_out?: boolean
+          state_code?: string | null
           updated_at?: string
           user_id: string
         }
@@ -134,6 +292,8 @@ export type Database = {
           id?: string
           name?: string
           phone?: string | null
+          reminders_opt_out?: boolean
+          state_code?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -181,47 +341,67 @@ export type Database = {
         }
         Relationships: []
       }
-      invoice_items: {
+      credit_note_items: {
         Row: {
           amount: number
+          bill_item_id: string | null
           created_at: string
+          credit_note_id: string
           description: string
           id: string
-          invoice_id: string
+          invoice_item_id: string | null
           product_id: string | null
           quantity: number
           unit_price: number
         }
         Insert: {
           amount: number
+          bill_item_id?: string | null
           created_at?: string
+          credit_note_id: string
           description: string
           id?: string
-          invoice_id: string
+          invoice_item_id?: string | null
           product_id?: string | null
-          quantity?: number
+          quantity: number
           unit_price: number
         }
         Update: {
           amount?: number
+          bill_item_id?: string | null
           created_at?: string
+          credit_note_id?: string
           description?: string
           id?: string
-          invoice_id?: string
+          invoice_item_id?: string | null
           product_id?: string | null
           quantity?: number
           unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "invoice_items_invoice_id_fkey"
-            columns: ["invoice_id"]
+            foreignKeyName: "credit_note_items_bill_item_id_fkey"
+            columns: ["bill_item_id"]
             isOneToOne: false
-            referencedRelation: "invoices"
+            referencedRelation: "bill_items"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "invoice_items_product_id_fkey"
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
@@ -229,18 +409,21 @@ export type Database = {
           },
         ]
       }
-      invoices: {
+      credit_notes: {
         Row: {
+          bill_id: string | null
           client_id: string | null
           created_at: string
-          customer_email: string | null
+          credit_date: string
+          credit_note_number: string
+          currency_code: string
           customer_name: string
-          due_date: string | null
+          exchange_rate: number
           id: string
-          invoice_number: string
-          issue_date: string
-          notes: string | null
-          status: string
+          invoice_id: string | null
+          reason: string | null
+          refund_amount: number
+          refund_mode: string | null
           subtotal: number
           tax: number
           total: number
@@ -248,16 +431,19 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          bill_id?: string | null
           client_id?: string | null
           created_at?: string
-          customer_email?: string | null
+          credit_date?: string
+          credit_note_number?: string
+          currency_code?: string
           customer_name: string
-          due_date?: string | null
+          exchange_rate?: number
           id?: string
-          invoice_number: string
-          issue_date?: string
-          notes?: string | null
-          status?: string
+          invoice_id?: string | null
+          reason?: string | null
+          refund_amount?: number
+          refund_mode?: string | null
           subtotal?: number
           tax?: number
           total?: number
@@ -265,16 +451,19 @@ export type Database = {
           user_id: string
         }
         Update: {
+          bill_id?: string | null
           client_id?: string | null
           created_at?: string
-          customer_email?: string | null
+          credit_date?: string
+          credit_note_number?: string
+          currency_code?: string
           customer_name?: string
-          due_date?: string | null
+          exchange_rate?: number
           id?: string
-          invoice_number?: string
-          issue_date?: string
-          notes?: string | null
-          status?: string
+          invoice_id?: string | null
+          reason?: string | null
+          refund_amount?: number
+          refund_mode?: string | null
           subtotal?: number
           tax?: number
           total?: number
@@ -283,295 +472,1446 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "invoices_client_id_fkey"
+            foreignKeyName: "credit_notes_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_client_id_fkey"
             columns: ["client_id"]
             isOneToOne: false
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      otp_audit_logs: {
+      document_sequences: {
         Row: {
           created_at: string
-          event: string
+          current_period: string | null
+          document_type: string
+          format: string
           id: string
-          ip_address: string | null
-          mobile_masked: string | null
-          reason: string | null
-          success: boolean
-          user_agent: string | null
+          last_number: number
+          padding: number
+          prefix: string
+          reset_yearly: boolean
+          updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          event: string
+          current_period?: string | null
+          document_type: string
+          format?: string
           id?: string
-          ip_address?: string | null
-          mobile_masked?: string | null
-          reason?: string | null
-          success?: boolean
-          user_agent?: string | null
+          last_number?: number
+          padding?: number
+          prefix?: string
+          reset_yearly?: boolean
+          updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          event?: string
+          current_period?: string | null
+          document_type?: string
+          format?: string
           id?: string
-          ip_address?: string | null
-          mobile_masked?: string | null
-          reason?: string | null
-          success?: boolean
-          user_agent?: string | null
+          last_number?: number
+          padding?: number
+          prefix?: string
+          reset_yearly?: boolean
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      otp_verifications: {
+      document_templates: {
         Row: {
+          accent_color: string
+          bank_details: string | null
           created_at: string
-          expires_at: string
+          document_type: string
+          footer_terms: string | null
           id: string
-          mobile: string
-          otp_code: string
+          layout: string
+          logo_position: string
+          show_discount: boolean
+          show_hsn: boolean
+          show_sku: boolean
+          show_tax: boolean
+          signature_path: string | null
+          updated_at: string
           user_id: string
-          verified: boolean
         }
         Insert: {
+          accent_color?: string
+          bank_details?: string | null
           created_at?: string
-          expires_at?: string
+          document_type: string
+          footer_terms?: string | null
           id?: string
-          mobile: string
-          otp_code: string
+          layout?: string
+          logo_position?: string
+          show_discount?: boolean
+          show_hsn?: boolean
+          show_sku?: boolean
+          show_tax?: boolean
+          signature_path?: string | null
+          updated_at?: string
           user_id: string
-          verified?: boolean
         }
         Update: {
+          accent_color?: string
+          bank_details?: string | null
           created_at?: string
-          expires_at?: string
+          document_type?: string
+          footer_terms?: string | null
           id?: string
-          mobile?: string
-          otp_code?: string
+          layout?: string
+          logo_position?: string
+          show_discount?: boolean
+          show_hsn?: boolean
+          show_sku?: boolean
+          show_tax?: boolean
+          signature_path?: string | null
+          updated_at?: string
           user_id?: string
-          verified?: boolean
         }
         Relationships: []
       }
-      pin_auth_attempts: {
+      email_log: {
         Row: {
           created_at: string
-          email: string
+          document_id: string
+          document_type: string
+          error: string | null
           id: string
-          success: boolean
+          message_id: string | null
+          recipient: string
+          status: string
+          subject: string
+          user_id: string
         }
         Insert: {
           created_at?: string
-          email: string
+          document_id: string
+          document_type: string
+          error?: string | null
           id?: string
-          success?: boolean
+          message_id?: string | null
+          recipient: string
+          status: string
+          subject: string
+          user_id: string
         }
         Update: {
           created_at?: string
-          email?: string
+          document_id?: string
+          document_type?: string
+          error?: string | null
           id?: string
-          success?: boolean
+          message_id?: string | null
+          recipient?: string
+          status?: string
+          subject?: string
+          user_id?: string
         }
         Relationships: []
       }
-      products: {
+      invoice_items: {
         Row: {
-          category: string | null
+          amount: number
+          cgst: number
           created_at: string
-          description: string | null
-          expiry_date: string | null
+          description: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          hsn_code: string | null
           id: string
-          low_stock_threshold: number
-          manufacturing_date: string | null
-          name: string
-          purchase_price: number
+          igst: number
+          invoice_id: string
+          product_id: string | null
           quantity: number
-          sku: string | null
-          storage_location: string | null
-          supplier_name: string | null
-          unit: string | null
+          sgst: number
+          tax_rate: number
           unit_price: number
-          updated_at: string
-          user_id: string
         }
         Insert: {
-          category?: string | null
+          amount: number
+          cgst?: number
           created_at?: string
-          description?: string | null
-          expiry_date?: string | null
+          description: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          hsn_code?: string | null
           id?: string
-          low_stock_threshold?: number
-          manufacturing_date?: string | null
-          name: string
-          purchase_price?: number
+          igst?: number
+          invoice_id: string
+          product_id?: string | null
           quantity?: number
-          sku?: string | null
-          storage_location?: string | null
-          supplier_name?: string | null
-          unit?: string | null
-          unit_price?: number
-          updated_at?: string
-          user_id: string
+          sgst?: number
+          tax_rate?: number
+          unit_price: number
         }
         Update: {
-          category?: string | null
+          amount?: number
+          cgst?: number
           created_at?: string
-          description?: string | null
-          expiry_date?: string | null
+          description?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          hsn_code?: string | null
           id?: string
-          low_stock_threshold?: number
-          manufacturing_date?: string | null
-          name?: string
-          purchase_price?: number
+          igst?: number
+          invoice_id?: string
+          product_id?: string | null
           quantity?: number
-          sku?: string | null
-          storage_location?: string | null
-          supplier_name?: string | null
-          unit?: string | null
+          sgst?: number
+          tax_rate?: number
           unit_price?: number
-          updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      invoices: {
         Row: {
-          avatar_url: string | null
-          company_name: string
+          amount_credited: number
+          amount_paid: number
+          balance_due: number
+          client_id: string | null
           created_at: string
-          email: string
-          full_name: string
+          currency_code: string
+          customer_email: string | null
+          customer_name: string
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          due_date: string | null
+          exchange_rate: number
           id: string
-          mobile: string
-          pin_enabled: boolean
-          updated_at: string
-          user_id: string
-        }
-        Insert: {
-          avatar_url?: string | null
+          invoice_number: string
+          issue_date: string
+          location_id: string | null
+          notes: string | null
+          pdf_path: string | null
+          place_of_supply: string | null
+          round_off: number
+          status: string
+          subtotal: number
+          tax: number
+          total: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount_credited?: number
+          amount_paid?: number
+          balance_due?: never
+          client_id?: string | null
+          created_at?: string
+          currency_code?: string
+          customer_email?: string | null
+          customer_name: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          due_date?: string | null
+          exchange_rate?: number
+          id?: string
+          invoice_number: string
+          issue_date?: string
+          location_id?: string | null
+          notes?: string | null
+          pdf_path?: string | null
+          place_of_supply?: string | null
+          round_off?: number
+          status?: string
+          subtotal?: number
+          tax?: number
+          total?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount_credited?: number
+          amount_paid?: number
+          balance_due?: never
+          client_id?: string | null
+          created_at?: string
+          currency_code?: string
+          customer_email?: string | null
+          customer_name?: string
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          due_date?: string | null
+          exchange_rate?: number
+          id?: string
+          invoice_number?: string
+          issue_date?: string
+          location_id?: string | null
+          notes?: string | null
+          pdf_path?: string | null
+          place_of_supply?: string | null
+          round_off?: number
+          status?: string
+          subtotal?: number
+          tax?: number
+          total?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_stock: {
+        Row: {
+          id: string
+          location_id: string
+          product_id: string
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          location_id: string
+          product_id: string
+          quantity?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          location_id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_stock_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_stock_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      otp_audit_logs: {
+        Row: {
+          created_at: string
+          event: string
+          id: string
+          ip_address: string | null
+          mobile_masked: string | null
+          reason: string | null
+          success: boolean
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          event: string
+          id?: string
+          ip_address?: string | null
+          mobile_masked?: string | null
+          reason?: string | null
+          success?: boolean
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          event?: string
+          id?: string
+          ip_address?: string | null
+          mobile_masked?: string | null
+          reason?: string | null
+          success?: boolean
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      otp_verifications: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          mobile: string
+          otp_code: string
+          user_id: string
+          verified: boolean
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          mobile: string
+          otp_code: string
+          user_id: string
+          verified?: boolean
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          mobile?: string
+          otp_code?: string
+          user_id?: string
+          verified?: boolean
+        }
+        Relationships: []
+      }
+      payment_reminders: {
+        Row: {
+          channel: string
+          created_at: string
+          due_date: string
+          error: string | null
+          id: string
+          invoice_id: string
+          offset_days: number
+          recipient: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          due_date: string
+          error?: string | null
+          id?: string
+          invoice_id: string
+          offset_days: number
+          recipient?: string | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          due_date?: string
+          error?: string | null
+          id?: string
+          invoice_id?: string
+          offset_days?: number
+          recipient?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_reminders_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          exchange_gain_loss: number
+          exchange_rate: number
+          id: string
+          invoice_id: string
+          mode: string
+          notes: string | null
+          payment_date: string
+          reference: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          exchange_gain_loss?: number
+          exchange_rate?: number
+          id?: string
+          invoice_id: string
+          mode?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          exchange_gain_loss?: number
+          exchange_rate?: number
+          id?: string
+          invoice_id?: string
+          mode?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pin_auth_attempts: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          success: boolean
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          success?: boolean
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          success?: boolean
+        }
+        Relationships: []
+      }
+      product_batches: {
+        Row: {
+          batch_number: string
+          created_at: string
+          expiry_date: string | null
+          id: string
+          manufacturing_date: string | null
+          product_id: string
+          quantity: number
+          received_quantity: number
+          unit_cost: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          batch_number: string
+          created_at?: string
+          expiry_date?: string | null
+          id?: string
+          manufacturing_date?: string | null
+          product_id: string
+          quantity?: number
+          received_quantity?: number
+          unit_cost?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          batch_number?: string
+          created_at?: string
+          expiry_date?: string | null
+          id?: string
+          manufacturing_date?: string | null
+          product_id?: string
+          quantity?: number
+          received_quantity?: number
+          unit_cost?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_batches_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          barcode: string | null
+          category: string | null
+          created_at: string
+          description: string | null
+          expiry_date: string | null
+          hsn_code: string | null
+          id: string
+          low_stock_threshold: number
+          manufacturing_date: string | null
+          mrp: number | null
+          name: string
+          parent_id: string | null
+          purchase_price: number
+          quantity: number
+          sku: string | null
+          storage_location: string | null
+          supplier_id: string | null
+          supplier_name: string | null
+          tax_rate: number | null
+          unit: string | null
+          unit_price: number
+          updated_at: string
+          user_id: string
+          variant_attributes: Json | null
+          variant_options: Json | null
+        }
+        Insert: {
+          barcode?: string | null
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          expiry_date?: string | null
+          hsn_code?: string | null
+          id?: string
+          low_stock_threshold?: number
+          manufacturing_date?: string | null
+          mrp?: number | null
+          name: string
+          parent_id?: string | null
+          purchase_price?: number
+          quantity?: number
+          sku?: string | null
+          storage_location?: string | null
+          supplier_id?: string | null
+          supplier_name?: string | null
+          tax_rate?: number | null
+          unit?: string | null
+          unit_price?: number
+          updated_at?: string
+          user_id: string
+          variant_attributes?: Json | null
+          variant_options?: Json | null
+        }
+        Update: {
+          barcode?: string | null
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          expiry_date?: string | null
+          hsn_code?: string | null
+          id?: string
+          low_stock_threshold?: number
+          manufacturing_date?: string | null
+          mrp?: number | null
+          name?: string
+          parent_id?: string | null
+          purchase_price?: number
+          quantity?: number
+          sku?: string | null
+          storage_location?: string | null
+          supplier_id?: string | null
+          supplier_name?: string | null
+          tax_rate?: number | null
+          unit?: string | null
+          unit_price?: number
+          updated_at?: string
+          user_id?: string
+          variant_attributes?: Json | null
+          variant_options?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
           company_name: string
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          mobile: string
+          pin_enabled: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          company_name: string
+          created_at?: string
+          email: string
+          full_name: string
+          id?: string
+          mobile: string
+          pin_enabled?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          company_name?: string
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+          mobile?: string
+          pin_enabled?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      purchase_order_items: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          id: string
+          po_id: string
+          product_id: string | null
+          quantity: number
+          received_quantity: number
+          unit_price: number
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          description: string
+          id?: string
+          po_id: string
+          product_id?: string | null
+          quantity?: number
+          received_quantity?: number
+          unit_price?: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          id?: string
+          po_id?: string
+          product_id?: string | null
+          quantity?: number
+          received_quantity?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_po_id_fkey"
+            columns: ["po_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string
+          expected_date: string | null
+          id: string
+          notes: string | null
+          pdf_path: string | null
+          po_date: string
+          po_number: string
+          status: string
+          subtotal: number
+          supplier_email: string | null
+          supplier_id: string | null
+          supplier_name: string
+          tax: number
+          total: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          pdf_path?: string | null
+          po_date?: string
+          po_number: string
+          status?: string
+          subtotal?: number
+          supplier_email?: string | null
+          supplier_id?: string | null
+          supplier_name: string
+          tax?: number
+          total?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          pdf_path?: string | null
+          po_date?: string
+          po_number?: string
+          status?: string
+          subtotal?: number
+          supplier_email?: string | null
+          supplier_id?: string | null
+          supplier_name?: string
+          tax?: number
+          total?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_items: {
+        Row: {
+          created_at: string
+          description: string
+          discount_type: string
+          discount_value: number
+          hsn_code: string | null
+          id: string
+          product_id: string | null
+          quantity: number
+          recurring_invoice_id: string
+          tax_rate: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          discount_type?: string
+          discount_value?: number
+          hsn_code?: string | null
+          id?: string
+          product_id?: string | null
+          quantity: number
+          recurring_invoice_id: string
+          tax_rate?: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          discount_type?: string
+          discount_value?: number
+          hsn_code?: string | null
+          id?: string
+          product_id?: string | null
+          quantity?: number
+          recurring_invoice_id?: string
+          tax_rate?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_items_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_runs: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          invoice_id: string | null
+          recurring_invoice_id: string
+          run_date: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          recurring_invoice_id: string
+          run_date: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          recurring_invoice_id?: string
+          run_date?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_runs_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_runs_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoices: {
+        Row: {
+          auto_send: boolean
+          client_id: string | null
+          created_at: string
+          currency_code: string | null
+          customer_email: string | null
+          customer_name: string
+          discount_type: string
+          discount_value: number
+          end_date: string | null
+          exchange_rate: number
+          frequency: string
+          id: string
+          next_run_date: string
+          notes: string | null
+          payment_terms_days: number | null
+          place_of_supply: string | null
+          round_off: boolean
+          start_date: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_send?: boolean
+          client_id?: string | null
+          created_at?: string
+          currency_code?: string | null
+          customer_email?: string | null
+          customer_name: string
+          discount_type?: string
+          discount_value?: number
+          end_date?: string | null
+          exchange_rate?: number
+          frequency: string
+          id?: string
+          next_run_date: string
+          notes?: string | null
+          payment_terms_days?: number | null
+          place_of_supply?: string | null
+          round_off?: boolean
+          start_date: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_send?: boolean
+          client_id?: string | null
+          created_at?: string
+          currency_code?: string | null
+          customer_email?: string | null
+          customer_name?: string
+          discount_type?: string
+          discount_value?: number
+          end_date?: string | null
+          exchange_rate?: number
+          frequency?: string
+          id?: string
+          next_run_date?: string
+          notes?: string | null
+          payment_terms_days?: number | null
+          place_of_supply?: string | null
+          round_off?: boolean
+          start_date?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movement_batches: {
+        Row: {
+          batch_id: string
+          created_at: string
+          id: string
+          quantity_change: number
+          stock_movement_id: string
+          user_id: string
+        }
+        Insert: {
+          batch_id: string
           created_at?: string
-          email: string
-          full_name: string
           id?: string
-          mobile: string
-          pin_enabled?: boolean
-          updated_at?: string
+          quantity_change: number
+          stock_movement_id: string
           user_id: string
         }
         Update: {
-          avatar_url?: string | null
-          company_name?: string
+          batch_id?: string
           created_at?: string
-          email?: string
-          full_name?: string
           id?: string
-          mobile?: string
-          pin_enabled?: boolean
-          updated_at?: string
+          quantity_change?: number
+          stock_movement_id?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "stock_movement_batches_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "product_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movement_batches_stock_movement_id_fkey"
+            columns: ["stock_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      purchase_order_items: {
+      stock_movements: {
+        Row: {
+          balance_after: number
+          created_at: string
+          id: string
+          location_id: string | null
+          product_id: string
+          quantity_change: number
+          reason: string
+          reference: string | null
+          source_id: string | null
+          source_type: string | null
+          user_id: string
+        }
+        Insert: {
+          balance_after: number
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          product_id: string
+          quantity_change: number
+          reason: string
+          reference?: string | null
+          source_id?: string | null
+          source_type?: string | null
+          user_id: string
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          product_id?: string
+          quantity_change?: number
+          reason?: string
+          reference?: string | null
+          source_id?: string | null
+          source_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_take_items: {
+        Row: {
+          counted_quantity: number | null
+          created_at: string
+          description: string
+          id: string
+          product_id: string | null
+          reason: string | null
+          sku: string | null
+          stock_take_id: string
+          system_quantity: number
+          unit: string | null
+          unit_cost: number
+          updated_at: string
+        }
+        Insert: {
+          counted_quantity?: number | null
+          created_at?: never
+          description: string
+          id?: never
+          product_id?: string | null
+          reason?: string | null
+          sku?: string | null
+          stock_take_id: string
+          system_quantity: number
+          unit?: string | null
+          unit_cost?: never
+          updated_at?: never
+        }
+        Update: {
+          counted_quantity?: number | null
+          created_at?: never
+          description?: string
+          id?: never
+          product_id?: string | null
+          reason?: string | null
+          sku?: string | null
+          stock_take_id?: string
+          system_quantity?: number
+          unit?: string | null
+          unit_cost?: never
+          updated_at?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_take_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_items_stock_take_id_fkey"
+            columns: ["stock_take_id"]
+            isOneToOne: false
+            referencedRelation: "stock_takes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_takes: {
+        Row: {
+          created_at: string
+          id: string
+          location_id: string | null
+          notes: string | null
+          posted_at: string | null
+          status: string
+          take_date: string
+          take_number: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: never
+          id?: never
+          location_id?: string | null
+          notes?: string | null
+          posted_at?: string | null
+          status?: never
+          take_date?: never
+          take_number?: never
+          updated_at?: never
+          user_id: string
+        }
+        Update: {
+          created_at?: never
+          id?: never
+          location_id?: string | null
+          notes?: string | null
+          posted_at?: string | null
+          status?: never
+          take_date?: never
+          take_number?: never
+          updated_at?: never
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_takes_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_items: {
         Row: {
-          amount: number
           created_at: string
           description: string
           id: string
-          po_id: string
           product_id: string | null
           quantity: number
-          unit_price: number
+          transfer_id: string
         }
         Insert: {
-          amount?: number
           created_at?: string
           description: string
           id?: string
-          po_id: string
           product_id?: string | null
-          quantity?: number
-          unit_price?: number
+          quantity: number
+          transfer_id: string
         }
         Update: {
-          amount?: number
           created_at?: string
           description?: string
           id?: string
-          po_id?: string
           product_id?: string | null
           quantity?: number
-          unit_price?: number
+          transfer_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "purchase_order_items_po_id_fkey"
-            columns: ["po_id"]
+            foreignKeyName: "stock_transfer_items_product_id_fkey"
+            columns: ["product_id"]
             isOneToOne: false
-            referencedRelation: "purchase_orders"
+            referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "purchase_order_items_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "stock_transfer_items_transfer_id_fkey"
+            columns: ["transfer_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "stock_transfers"
             referencedColumns: ["id"]
           },
         ]
       }
-      purchase_orders: {
+      stock_transfers: {
         Row: {
           created_at: string
-          expected_date: string | null
+          from_location_id: string
           id: string
           notes: string | null
-          po_date: string
-          po_number: string
-          status: string
-          subtotal: number
-          supplier_email: string | null
-          supplier_name: string
-          tax: number
-          total: number
+          to_location_id: string
+          transfer_date: string
+          transfer_number: string
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          expected_date?: string | null
+          from_location_id: string
           id?: string
           notes?: string | null
-          po_date?: string
-          po_number: string
-          status?: string
-          subtotal?: number
-          supplier_email?: string | null
-          supplier_name: string
-          tax?: number
-          total?: number
+          to_location_id: string
+          transfer_date?: string
+          transfer_number?: string
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          expected_date?: string | null
+          from_location_id?: string
           id?: string
           notes?: string | null
-          po_date?: string
-          po_number?: string
-          status?: string
-          subtotal?: number
-          supplier_email?: string | null
-          supplier_name?: string
-          tax?: number
-          total?: number
+          to_location_id?: string
+          transfer_date?: string
+          transfer_number?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_from_location_id_fkey"
+            columns: ["from_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          bank_account_name: string | null
+          bank_account_number: string | null
+          bank_ifsc: string | null
+          bank_name: string | null
+          contact_person: string | null
+          created_at: string
+          email: string | null
+          gstin: string | null
+          id: string
+          lead_time_days: number | null
+          name: string
+          notes: string | null
+          payment_terms: number | null
+          phone: string | null
+          state_code: string | null
+          updated_at: string
+          upi_id: string | null
+          user_id: string
+        }
+        Insert: {
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_ifsc?: string | null
+          bank_name?: string | null
+          contact_person?: string | null
+          created_at?: string
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          lead_time_days?: number | null
+          name: string
+          notes?: string | null
+          payment_terms?: number | null
+          phone?: string | null
+          state_code?: string | null
+          updated_at?: string
+          upi_id?: string | null
+          user_id: string
+        }
+        Update: {
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_ifsc?: string | null
+          bank_name?: string | null
+          contact_person?: string | null
+          created_at?: string
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          lead_time_days?: number | null
+          name?: string
+          notes?: string | null
+          payment_terms?: number | null
+          phone?: string | null
+          state_code?: string | null
           updated_at?: string
+          upi_id?: string | null
           user_id?: string
         }
         Relationships: []
@@ -635,12 +1975,14 @@ export type Database = {
       }
       user_settings: {
         Row: {
+          bill_due_alert_days: number
           bill_due_alerts: boolean
           bill_prefix: string
           created_at: string
           currency_code: string
           currency_symbol: string
           date_format: string
+          default_lead_time_days: number
           default_payment_terms: number
           default_tax_rate: number
           email_notifications: boolean
@@ -649,6 +1991,11 @@ export type Database = {
           invoice_reminders: boolean
           items_per_page: number
           low_stock_alerts: boolean
+          pdf_page_size: string
+          reminder_channel: string
+          reminder_offsets: number[]
+          reorder_cover_days: number
+          reorder_history_days: number
           show_clients: boolean
           show_dashboard: boolean
           show_inventory: boolean
@@ -659,12 +2006,14 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          bill_due_alert_days?: number
           bill_due_alerts?: boolean
           bill_prefix?: string
           created_at?: string
           currency_code?: string
           currency_symbol?: string
           date_format?: string
+          default_lead_time_days?: number
           default_payment_terms?: number
           default_tax_rate?: number
           email_notifications?: boolean
@@ -673,6 +2022,11 @@ export type Database = {
           invoice_reminders?: boolean
           items_per_page?: number
           low_stock_alerts?: boolean
+          pdf_page_size?: string
+          reminder_channel?: string
+          reminder_offsets?: number[]
+          reorder_cover_days?: number
+          reorder_history_days?: number
           show_clients?: boolean
           show_dashboard?: boolean
           show_inventory?: boolean
@@ -683,12 +2037,14 @@ export type Database = {
           user_id: string
         }
         Update: {
+          bill_due_alert_days?: number
           bill_due_alerts?: boolean
           bill_prefix?: string
           created_at?: string
           currency_code?: string
           currency_symbol?: string
           date_format?: string
+          default_lead_time_days?: number
           default_payment_terms?: number
           default_tax_rate?: number
           email_notifications?: boolean
@@ -697,6 +2053,11 @@ export type Database = {
           invoice_reminders?: boolean
           items_per_page?: number
           low_stock_alerts?: boolean
+          pdf_page_size?: string
+          reminder_channel?: string
+          reminder_offsets?: number[]
+          reorder_cover_days?: number
+          reorder_history_days?: number
           show_clients?: boolean
           show_dashboard?: boolean
           show_inventory?: boolean
@@ -713,11 +2074,171 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      advance_recurring_invoice: {
+        Args: { p_recurring_id: string }
+        Returns: undefined
+      }
+      calculate_discount: {
+        Args: { p_base: number; p_type: string; p_value: number }
+        Returns: number
+      }
+      cancel_bill: { Args: { p_bill_id: string }; Returns: undefined }
+      cancel_invoice: { Args: { p_invoice_id: string }; Returns: undefined }
+      confirm_purchase_orders: { Args: { p_po_ids: string[] }; Returns: number }
+      create_credit_note: {
+        Args: { p_credit_note: Json; p_items: Json }
+        Returns: string
+      }
+      create_invoice: {
+        Args: { p_invoice: Json; p_items: Json }
+        Returns: string
+      }
+      create_invoice_for_user: {
+        Args: { p_invoice: Json; p_items: Json; p_user_id: string }
+        Returns: string
+      }
+      create_purchase_bill: {
+        Args: { p_bill: Json; p_items: Json; p_po_id?: string }
+        Returns: string
+      }
+      create_purchase_order: {
+        Args: { p_items: Json; p_po: Json }
+        Returns: string
+      }
+      create_recurring_invoice_from_invoice: {
+        Args: { p_invoice_id: string; p_schedule: Json }
+        Returns: string
+      }
+      create_sale_bill: {
+        Args: { p_bill: Json; p_items: Json }
+        Returns: string
+      }
+      create_stock_transfer: {
+        Args: { p_items: Json; p_transfer: Json }
+        Returns: string
+      }
+      delete_bill: { Args: { p_bill_id: string }; Returns: undefined }
+      delete_invoice: { Args: { p_invoice_id: string }; Returns: undefined }
+      due_payment_reminders: {
+        Args: { p_today?: string }
+        Returns: {
+          channel: string
+          due_date: string
+          invoice_id: string
+          offset_days: number
+          user_id: string
+        }[]
+      }
+      due_recurring_invoice_emails: {
+        Args: never
+        Returns: {
+          invoice_id: string
+          user_id: string
+        }[]
+      }
+      generate_recurring_invoice: {
+        Args: { p_recurring_id: string }
+        Returns: string
+      }
+      get_reorder_stats: {
+        Args: { p_history_days?: number }
+        Returns: {
+          lead_time_days: number
+          low_stock_threshold: number
+          on_order: number
+          product_id: string
+          product_name: string
+          quantity: number
+          sku: string
+          supplier_email: string
+          supplier_id: string
+          supplier_name: string
+          unit: string
+          unit_cost: number
+          units_sold: number
+        }[]
+      }
+      get_stock_discrepancies: {
+        Args: never
+        Returns: {
+          difference: number
+          ledger_quantity: number
+          product_id: string
+          product_name: string
+          quantity: number
+        }[]
+      }
       hash_pin: { Args: { pin: string }; Returns: string }
+      normalize_supplier_name: { Args: { p_name: string }; Returns: string }
+      post_stock_take: { Args: { p_stock_take_id: string }; Returns: number }
+      purge_user_data: { Args: { p_user_id: string }; Returns: undefined }
+      receive_purchase_order: {
+        Args: { p_bill_date?: string; p_lines: Json; p_po_id: string }
+        Returns: string
+      }
+      recurrence_date: {
+        Args: { p_frequency: string; p_n: number; p_start: string }
+        Returns: string
+      }
+      save_document_sequence: {
+        Args: {
+          p_document_type: string
+          p_format: string
+          p_padding: number
+          p_prefix: string
+          p_reset_yearly: boolean
+        }
+        Returns: undefined
+      }
+      save_product_variants: {
+        Args: { p_options: Json; p_product_id: string; p_variants: Json }
+        Returns: undefined
+      }
+      set_default_location: {
+        Args: { p_location_id: string }
+        Returns: undefined
+      }
+      set_stock_batch_context: {
+        Args: { p_batch: Json }
+        Returns: undefined
+      }
+      set_stock_movement_context: {
+        Args: {
+          p_reason: string
+          p_reference?: string
+          p_source_id?: string
+          p_source_type?: string
+        }
+        Returns: undefined
+      }
       set_user_pin: {
         Args: { new_pin: string; user_uuid: string }
         Returns: boolean
       }
+      skip_recurring_invoice_run: {
+        Args: { p_recurring_id: string }
+        Returns: string
+      }
+      start_stock_take: {
+        Args: { p_location_id?: string; p_notes?: string }
+        Returns: string
+      }
+      supplier_payment_terms: {
+        Args: { p_supplier_name: string; p_user_id: string }
+        Returns: number
+      }
+      undo_purchase_receive: {
+        Args: { p_bill_id: string; p_po_id: string }
+        Returns: undefined
+      }
+      update_draft_purchase_order: {
+        Args: { p_items: Json; p_po: Json; p_po_id: string }
+        Returns: undefined
+      }
+      variant_label: {
+        Args: { p_attributes: Json; p_options: Json }
+        Returns: string
+      }
       verify_pin: {
         Args: { input_pin: string; user_uuid: string }
         Returns: boolean
@@ -0,0 +1,103 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export type AgingBucket = "current" | "1_30" | "31_60" | "61_90" | "90_plus";
+
+export const agingBuckets: { key: AgingBucket; label: string }[] = [
+  { key: "current", label: "Current" },
+  { key: "1_30", label: "1–30" },
+  { key: "31_60", label: "31–60" },
+  { key: "61_90", label: "61–90" },
+  { key: "90_plus", label: "90+" },
+];
+
+// An unpaid document, with its balance in the base currency
+export interface AgingDocument {
+  id: string;
+  number: string;
+  partyId: string | null;
+  partyName: string;
+  issueDate: string;
+  dueDate: string;
+  currencyCode: string;
+  // In the document currency
+  balance: number;
+  baseBalance: number;
+}
+
+export interface AgedDocument extends AgingDocument {
+  bucket: AgingBucket;
+  daysOverdue: number;
+}
+
+export interface AgingRow {
+  // Client or supplier id, or the name for documents without one
+  key: string;
+  partyId: string | null;
+  partyName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  documents: AgedDocument[];
+}
+
+export interface AgingReport {
+  asOf: string;
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number>;
+  total: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ current: 0, "1_30": 0, "31_60": 0, "61_90": 0, "90_plus": 0 });
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+export function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "1_30";
+  if (daysOverdue <= 60) return "31_60";
+  if (daysOverdue <= 90) return "61_90";
+  return "90_plus";
+}
+
+/**
+ * The due date, or the issue date plus the default payment terms for documents without one
+ */
+export function effectiveDueDate(dueDate: string | null, issueDate: string, paymentTermsDays: number): string {
+  return dueDate || format(addDays(parseISO(issueDate), paymentTermsDays), "yyyy-MM-dd");
+}
+
+/**
+ * Groups unpaid documents by party and by how long they are past due on `asOf`,
+ * largest balances first
+ */
+export function buildAgingReport(documents: AgingDocument[], asOf: string): AgingReport {
+  const rows = new Map<string, AgingRow>();
+  const totals = emptyBuckets();
+
+  for (const document of documents) {
+    const daysOverdue = differenceInCalendarDays(parseISO(asOf), parseISO(document.dueDate));
+    const bucket = agingBucket(daysOverdue);
+    const key = document.partyId || document.partyName.trim().toLowerCase();
+    const row = rows.get(key) || { key, partyId: document.partyId, partyName: document.partyName, buckets: emptyBuckets(), total: 0, documents: [] };
+    row.buckets[bucket] += document.baseBalance;
+    row.total += document.baseBalance;
+    row.documents.push({ ...document, bucket, daysOverdue });
+    rows.set(key, row);
+    totals[bucket] += document.baseBalance;
+  }
+
+  const sorted = [...rows.values()]
+    .map((row) => ({
+      ...row,
+      buckets: Object.fromEntries(Object.entries(row.buckets).map(([bucket, amount]) => [bucket, round2(amount)])) as Record<AgingBucket, number>,
+      total: round2(row.total),
+      documents: row.documents.sort((a, b) => b.daysOverdue - a.daysOverdue),
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    asOf,
+    rows: sorted,
+    totals: Object.fromEntries(Object.entries(totals).map(([bucket, amount]) => [bucket, round2(amount)])) as Record<AgingBucket, number>,
+    total: round2(sorted.reduce((sum, row) => sum + row.total, 0)),
+  };
+}
@@ -0,0 +1,101 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format, parseISO } from "date-fns";
+import { PdfCompany, PdfPageSize, pdfAmount, pdfText } from "@/lib/documentPdf";
+import { AgingReport, agingBuckets } from "@/lib/aging";
+
+type AutoTableDocument = jsPDF & { lastAutoTable?: { finalY?: number } };
+
+export interface AgingPdfOptions {
+  // e.g. Accounts Receivable Aging
+  title: string;
+  // Column heading for the client or supplier
+  partyLabel: string;
+  currencyCode: string;
+}
+
+/**
+ * Renders an aging report: a summary by party, then every document behind it.
+ * Always landscape, to fit the bucket columns.
+ */
+export function renderAgingPdf(report: AgingReport, company: PdfCompany | null, pageSize: PdfPageSize, options: AgingPdfOptions): Blob {
+  const pdf = new jsPDF({ unit: "mm", format: pageSize, orientation: "landscape" });
+  const compact = pageSize === "a5";
+  const fontSize = (pt: number) => pt * (compact ? 0.85 : 1);
+  const margin = compact ? 10 : 14;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - margin;
+  const bucketHead = agingBuckets.map((bucket) => bucket.key === "current" ? bucket.label : `${bucket.label.replace("–", "-")} days`);
+  const tableStyles = {
+    theme: "striped" as const,
+    margin: { left: margin, right: margin, bottom: margin + 6 },
+    styles: { fontSize: fontSize(8), cellPadding: compact ? 1.2 : 1.8, textColor: [20, 20, 20] as [number, number, number] },
+    headStyles: { fillColor: [40, 40, 40] as [number, number, number], textColor: [255, 255, 255] as [number, number, number], fontStyle: "bold" as const },
+    footStyles: { fillColor: [235, 235, 235] as [number, number, number], textColor: [20, 20, 20] as [number, number, number], fontStyle: "bold" as const },
+  };
+  let y = margin;
+
+  pdf.setTextColor(20, 20, 20);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(fontSize(14));
+  pdf.text(pdfText(company?.company_name || "Your Company Name"), margin, y + 5);
+  pdf.text(pdfText(options.title).toUpperCase(), right, y + 5, { align: "right" });
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(9));
+  pdf.setTextColor(100, 100, 100);
+  pdf.text(`As of ${format(parseISO(report.asOf), "dd MMM yyyy")} · Amounts in ${options.currencyCode}`, right, y + 10, { align: "right" });
+  y += 16;
+
+  autoTable(pdf, {
+    ...tableStyles,
+    startY: y,
+    head: [[options.partyLabel, ...bucketHead, "Total"]],
+    body: report.rows.map((row) => [
+      pdfText(row.partyName),
+      ...agingBuckets.map((bucket) => (row.buckets[bucket.key] ? pdfAmount(row.buckets[bucket.key]) : "-")),
+      pdfAmount(row.total),
+    ]),
+    foot: [["Total", ...agingBuckets.map((bucket) => pdfAmount(report.totals[bucket.key])), pdfAmount(report.total)]],
+    columnStyles: Object.fromEntries([...bucketHead, "Total"].map((_, index) => [index + 1, { halign: "right" as const }])),
+  });
+  y = ((pdf as AutoTableDocument).lastAutoTable?.finalY ?? y) + 8;
+
+  if (y + 20 > pageHeight - margin - 6) {
+    pdf.addPage();
+    y = margin;
+  }
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(fontSize(10));
+  pdf.setTextColor(20, 20, 20);
+  pdf.text("Details", margin, y);
+
+  autoTable(pdf, {
+    ...tableStyles,
+    startY: y + 3,
+    head: [[options.partyLabel, "Number", "Due date", "Days overdue", "Balance", `Balance (${options.currencyCode})`]],
+    body: report.rows.flatMap((row) =>
+      row.documents.map((document) => [
+        pdfText(row.partyName),
+        pdfText(document.number),
+        format(parseISO(document.dueDate), "dd MMM yyyy"),
+        document.daysOverdue > 0 ? String(document.daysOverdue) : "-",
+        `${document.currencyCode} ${pdfAmount(document.balance)}`,
+        pdfAmount(document.baseBalance),
+      ])
+    ),
+    columnStyles: { 3: { halign: "right" }, 4: { halign: "right" }, 5: { halign: "right" } },
+  });
+
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(fontSize(7.5));
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(`Generated on ${format(new Date(), "dd MMM yyyy")}`, margin, pageHeight - margin / 2);
+    pdf.text(`Page ${page} of ${pageCount}`, right, pageHeight - margin / 2, { align: "right" });
+  }
+
+  return pdf.output("blob");
+}
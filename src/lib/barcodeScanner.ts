@@ -0,0 +1,56 @@
+type DetectedBarcode = { rawValue: string };
+
+type BarcodeDetectorInstance = {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+};
+
+type BarcodeDetectorConstructor = new () => BarcodeDetectorInstance;
+
+// Not in TypeScript's DOM types yet; Chrome on Android has it, Safari and Firefox do not
+const nativeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const canScanBarcodes = () => typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Read barcodes from the back camera into `video`, calling `onCode` for each
+ * code seen. Uses the browser's BarcodeDetector where there is one and the
+ * ZXing decoder otherwise. Resolves to a function that stops the camera.
+ */
+export async function startBarcodeScanner(video: HTMLVideoElement, onCode: (code: string) => void): Promise<() => void> {
+  const Detector = nativeDetector();
+
+  if (Detector) {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+    video.srcObject = stream;
+    await video.play();
+
+    const detector = new Detector();
+    let stopped = false;
+    const scan = async () => {
+      if (stopped) return;
+      try {
+        const [barcode] = await detector.detect(video);
+        if (barcode?.rawValue && !stopped) onCode(barcode.rawValue);
+      } catch {
+        // A frame that cannot be read yet; try the next one
+      }
+      if (!stopped) window.setTimeout(scan, 200);
+    };
+    scan();
+
+    return () => {
+      stopped = true;
+      stream.getTracks().forEach((track) => track.stop());
+      video.srcObject = null;
+    };
+  }
+
+  // Loaded only when needed, as most phones that scan have the native detector
+  const { BrowserMultiFormatReader } = await import("@zxing/browser");
+  const reader = new BrowserMultiFormatReader();
+  const controls = await reader.decodeFromVideoDevice(undefined, video, (result) => {
+    if (result) onCode(result.getText());
+  });
+  return () => controls.stop();
+}
@@ -0,0 +1,102 @@
+export type BarcodeFormat = "EAN13" | "CODE128";
+
+export type EncodedBarcode = {
+  format: BarcodeFormat;
+  // One entry per module, left to right: true for a bar, false for a space
+  modules: boolean[];
+  // The human-readable line under the bars
+  text: string;
+};
+
+// Bar and space widths of each Code 128 symbol, by symbol value
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232",
+];
+const CODE128_STOP = "2331112";
+const CODE_B = 100;
+const START_B = 104;
+const START_C = 105;
+
+// EAN-13 left-hand odd-parity digits; the even-parity and right-hand sets derive from these
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+// The first digit is carried by the parity of the next six: L (odd) or G (even)
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+const widthsToModules = (widths: string) =>
+  widths.split("").flatMap((width, index) => Array<boolean>(Number(width)).fill(index % 2 === 0));
+
+const bitsToModules = (bits: string) => bits.split("").map((bit) => bit === "1");
+
+export function ean13CheckDigit(first12: string): number {
+  const sum = first12.split("").reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * A 13-digit code with a valid check digit. Anything else, 12-digit codes
+ * included, is not an EAN-13: completing one would print a code that scans
+ * differently from the one stored.
+ */
+export function asEan13(value: string): string | null {
+  if (/^\d{13}$/.test(value) && ean13CheckDigit(value.slice(0, 12)) === Number(value[12])) return value;
+  return null;
+}
+
+function encodeEan13(code: string): boolean[] {
+  const parity = EAN_PARITY[Number(code[0])];
+  const left = code.slice(1, 7).split("").map((digit, index) => {
+    const odd = EAN_L[Number(digit)];
+    if (parity[index] === "L") return odd;
+    // G codes are the right-hand code read backwards
+    return odd.split("").map((bit) => (bit === "1" ? "0" : "1")).reverse().join("");
+  });
+  const right = code.slice(7).split("").map((digit) => EAN_L[Number(digit)].split("").map((bit) => (bit === "1" ? "0" : "1")).join(""));
+  return bitsToModules(["101", ...left, "01010", ...right, "101"].join(""));
+}
+
+/**
+ * Code 128 symbol values: set C packs digit pairs, so all-digit codes use it
+ * (switching to set B for an odd last digit); anything else is set B, which
+ * covers printable ASCII. Returns null for characters neither set has.
+ */
+function code128Values(value: string): number[] | null {
+  if (/^\d{2,}$/.test(value)) {
+    const pairs = value.slice(0, value.length - (value.length % 2)).match(/\d\d/g) || [];
+    const values = [START_C, ...pairs.map(Number)];
+    if (value.length % 2) values.push(CODE_B, value.charCodeAt(value.length - 1) - 32);
+    return values;
+  }
+  if (!/^[\x20-\x7E]+$/.test(value)) return null;
+  return [START_B, ...value.split("").map((char) => char.charCodeAt(0) - 32)];
+}
+
+function encodeCode128(values: number[]): boolean[] {
+  const checksum = values.reduce((sum, symbol, index) => sum + symbol * Math.max(index, 1), 0) % 103;
+  return [...values, checksum].flatMap((symbol) => widthsToModules(CODE128_PATTERNS[symbol])).concat(widthsToModules(CODE128_STOP));
+}
+
+/**
+ * Bars for a product code: EAN-13 where it is one, as on retail packaging,
+ * and Code 128 otherwise. Either way the bars scan back to the code as stored.
+ * Null when the code cannot be printed as a barcode.
+ */
+export function encodeBarcode(value: string): EncodedBarcode | null {
+  const code = value.trim();
+  if (!code) return null;
+
+  const ean = asEan13(code);
+  if (ean) return { format: "EAN13", modules: encodeEan13(ean), text: ean };
+
+  const values = code128Values(code);
+  return values ? { format: "CODE128", modules: encodeCode128(values), text: code } : null;
+}
@@ -0,0 +1,31 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export interface ProductBatch {
+  id: string;
+  batch_number: string;
+  manufacturing_date: string | null;
+  expiry_date: string | null;
+  unit_cost: number;
+  quantity: number;
+}
+
+export type ExpiryStatus = "expired" | "near" | "ok";
+
+// Batches expiring within this many days count as near expiry
+export const NEAR_EXPIRY_DAYS = 90;
+
+export function daysToExpiry(expiryDate: string, today: Date = new Date()): number {
+  return differenceInCalendarDays(parseISO(expiryDate), today);
+}
+
+export function expiryStatus(expiryDate: string | null, nearDays = NEAR_EXPIRY_DAYS, today: Date = new Date()): ExpiryStatus | null {
+  if (!expiryDate) return null;
+  const days = daysToExpiry(expiryDate, today);
+  if (days < 0) return "expired";
+  return days <= nearDays ? "near" : "ok";
+}
+
+/** "B1234 · Exp 03/27", as printed on documents. */
+export function batchLabel(batch: Pick<ProductBatch, "batch_number" | "expiry_date">): string {
+  return batch.expiry_date ? `${batch.batch_number} · Exp ${format(parseISO(batch.expiry_date), "MM/yy")}` : batch.batch_number;
+}
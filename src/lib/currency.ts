@@ -0,0 +1,24 @@
+export const currencies = [
+  { code: "INR", symbol: "₹", name: "Indian Rupee" },
+  { code: "USD", symbol: "$", name: "US Dollar" },
+  { code: "EUR", symbol: "€", name: "Euro" },
+  { code: "GBP", symbol: "£", name: "British Pound" },
+  { code: "AED", symbol: "د.إ", name: "UAE Dirham" },
+  { code: "SAR", symbol: "ر.س", name: "Saudi Riyal" },
+];
+
+/**
+ * Symbol for a currency code, falling back to the code itself
+ */
+export function currencySymbol(code: string | null | undefined): string {
+  if (!code) return "₹";
+  return currencies.find((c) => c.code === code)?.symbol || code;
+}
+
+/**
+ * Amount in the base currency. exchange_rate is base units per unit of the
+ * document currency, 1 for documents already in the base currency.
+ */
+export function toBase(amount: number | string | null | undefined, exchangeRate: number | string | null | undefined): number {
+  return (Number(amount) || 0) * (Number(exchangeRate) || 1);
+}
@@ -0,0 +1,559 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { supabase } from "@/integrations/supabase/client";
+import { GstLineTax, stateName, summarizeByRate } from "@/lib/gst";
+import { DocumentTemplate, DocumentTemplateType, defaultDocumentTemplate } from "@/lib/documentTemplates";
+import { batchLabel } from "@/lib/batches";
+
+export type PdfPageSize = "a4" | "a5";
+
+// Tables whose rows keep the path of their latest PDF in pdf_path
+export type PdfDocumentTable = "invoices" | "bills" | "purchase_orders";
+
+export interface PdfCompany {
+  company_name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  gst_number: string | null;
+  website: string | null;
+  // Logo as a data URL, ready to embed
+  logo: string | null;
+}
+
+export interface PdfLineItem {
+  description: string;
+  // Used to look up the SKU when the template shows it
+  product_id?: string | null;
+  sku?: string | null;
+  // Batches the line's stock came from, e.g. "B12 · Exp 03/27"
+  batch?: string | null;
+  hsn_code?: string | null;
+  quantity: number;
+  unit_price: number;
+  // Line discount; amount is already net of it
+  discount_amount?: number;
+  tax_rate?: number;
+  amount: number;
+}
+
+export interface PdfDocument {
+  // Picks the template from Settings
+  type: DocumentTemplateType;
+  // Heading, e.g. INVOICE
+  title: string;
+  number: string;
+  partyLabel: string;
+  partyName: string;
+  partyDetails?: (string | null | undefined)[];
+  details: { label: string; value: string }[];
+  currencyCode: string;
+  items: PdfLineItem[];
+  // Stored line taxes, for the rate-wise tax summary
+  taxLines?: GstLineTax[];
+  placeOfSupply?: string | null;
+  documentDiscount?: number;
+  totals: { label: string; amount: number; emphasis?: boolean }[];
+  notes?: string | null;
+  footer?: string;
+}
+
+const DOCUMENTS_BUCKET = "documents";
+// Shared links to a stored PDF stay valid for a week
+const SHARE_LINK_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * The built-in PDF fonts only cover Latin-1, so the rupee sign is written out
+ * and any other character they cannot draw is dropped
+ */
+export function pdfText(text: string | null | undefined): string {
+  return (text || "").replace(/₹/g, "Rs.").replace(/[^\t\n\r\x20-\xFF]/g, "");
+}
+
+export function pdfAmount(amount: number | string | null | undefined): string {
+  return (Number(amount) || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function pdfFileName(doc: Pick<PdfDocument, "title" | "number">): string {
+  return `${doc.title}-${doc.number}`.replace(/[^\w.-]+/g, "_") + ".pdf";
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string | null> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === "string" ? reader.result : null);
+    reader.onerror = () => resolve(null);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function loadStoredImage(path: string | null | undefined): Promise<string | null> {
+  if (!path) return null;
+  const { data: file } = await supabase.storage.from("company-logos").download(path);
+  return file ? blobToDataUrl(file) : null;
+}
+
+/**
+ * Company details and logo for the document header
+ */
+export async function loadPdfCompany(): Promise<PdfCompany | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data } = await supabase
+    .from("company_profile")
+    .select("company_name, address, phone, email, gst_number, website, logo_url")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (!data) return null;
+
+  // Stored logo URLs may be old signed URLs, so go by the path inside the bucket
+  const logo = await loadStoredImage(data.logo_url?.split("/company-logos/")[1]?.split("?")[0]);
+
+  return {
+    company_name: data.company_name,
+    address: data.address,
+    phone: data.phone,
+    email: data.email,
+    gst_number: data.gst_number,
+    website: data.website,
+    logo,
+  };
+}
+
+/**
+ * Signature image of a template, ready to embed
+ */
+export function loadPdfSignature(path: string | null | undefined): Promise<string | null> {
+  return loadStoredImage(path);
+}
+
+/**
+ * Fills in the SKU of line items that came from a product
+ */
+export async function withSkus(items: PdfLineItem[]): Promise<PdfLineItem[]> {
+  const productIds = [...new Set(items.map((item) => item.product_id).filter(Boolean))];
+  if (productIds.length === 0) return items;
+  const { data } = await supabase.from("products").select("id, sku").in("id", productIds);
+  const skus = new Map((data || []).map((p) => [p.id, p.sku]));
+  return items.map((item) => ({ ...item, sku: item.sku ?? (item.product_id ? skus.get(item.product_id) : null) }));
+}
+
+/**
+ * Fills in the batches of line items from the stock movements of the invoice
+ * or bill they are on
+ */
+export async function withBatches(items: PdfLineItem[], source: { type: "invoice" | "bill"; id: string }): Promise<PdfLineItem[]> {
+  if (!items.some((item) => item.product_id)) return items;
+  const { data } = await supabase
+    .from("stock_movements")
+    .select("product_id, stock_movement_batches(quantity_change, product_batches(batch_number, expiry_date))")
+    .eq("source_type", source.type)
+    .eq("source_id", source.id);
+
+  // Net quantity per batch, so batches whose stock was put back drop out
+  const byProduct = new Map<string, Map<string, number>>();
+  (data || []).forEach((movement) => {
+    const labels = byProduct.get(movement.product_id) || new Map<string, number>();
+    movement.stock_movement_batches.forEach((allocation) => {
+      if (!allocation.product_batches) return;
+      const label = batchLabel(allocation.product_batches);
+      labels.set(label, (labels.get(label) || 0) + allocation.quantity_change);
+    });
+    byProduct.set(movement.product_id, labels);
+  });
+
+  return items.map((item) => {
+    const labels = item.product_id ? byProduct.get(item.product_id) : undefined;
+    const batch = labels ? [...labels].filter(([, quantity]) => quantity !== 0).map(([label]) => label).join(", ") : "";
+    return batch ? { ...item, batch } : item;
+  });
+}
+
+type AutoTableDocument = jsPDF & { lastAutoTable?: { finalY?: number } };
+type Rgb = [number, number, number];
+
+const tableEnd = (pdf: jsPDF, fallback: number) => (pdf as AutoTableDocument).lastAutoTable?.finalY ?? fallback;
+
+const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return Number.isNaN(value) ? [40, 40, 40] : [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Dark text on light accent colours, white on the rest
+const textOn = ([r, g, b]: Rgb): Rgb => (0.299 * r + 0.587 * g + 0.114 * b > 160 ? [20, 20, 20] : [255, 255, 255]);
+
+export interface RenderPdfOptions {
+  autoPrint?: boolean;
+  template?: DocumentTemplate;
+  // Signature image as a data URL
+  signature?: string | null;
+}
+
+/**
+ * Renders an invoice, bill or purchase order to a PDF in the layout of its
+ * template, so the same document comes out the same on every browser and device.
+ */
+export function renderDocumentPdf(
+  doc: PdfDocument,
+  company: PdfCompany | null,
+  pageSize: PdfPageSize = "a4",
+  options: RenderPdfOptions = {}
+): Blob {
+  const template = options.template || defaultDocumentTemplate;
+  const pdf = new jsPDF({ unit: "mm", format: pageSize });
+  const compact = pageSize === "a5";
+  const scale = compact ? 0.85 : 1;
+  const fontSize = (pt: number) => pt * scale;
+  const margin = compact ? 10 : 14;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - margin;
+  const lineHeight = (pt: number) => fontSize(pt) * 0.45;
+  const muted: Rgb = [100, 100, 100];
+  const dark: Rgb = [20, 20, 20];
+  const accent = hexToRgb(template.accent_color);
+  const onAccent = textOn(accent);
+  const banded = template.layout === "modern";
+  const minimal = template.layout === "minimal";
+
+  let y = margin;
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin - 6) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+  const drawImage = (data: string, x: number, top: number, width: number, height: number) => {
+    try {
+      pdf.addImage(data, x, top, width, height);
+    } catch {
+      // Image formats jsPDF cannot embed are left out
+    }
+  };
+  // Width that keeps an image's proportions at the given height, capped at maxWidth
+  const imageWidth = (data: string, height: number, maxWidth: number) => {
+    try {
+      const image = pdf.getImageProperties(data);
+      return Math.min(maxWidth, (height * image.width) / image.height);
+    } catch {
+      return 0;
+    }
+  };
+
+  // Header: company and document title, with the logo where the template puts it
+  const logoSize = compact ? 14 : 18;
+  const logo = company?.logo && template.logo_position !== "none" ? company.logo : null;
+  const logoWidth = logo ? imageWidth(logo, logoSize, logoSize * 2) : 0;
+  const logoPosition = logoWidth > 0 ? template.logo_position : "none";
+  const logoTop = y;
+  if (logoPosition === "center") y += logoSize + 3;
+
+  const textX = logoPosition === "left" ? margin + logoWidth + 4 : margin;
+  const titleTop = logoPosition === "right" ? y + logoSize + 2 : y;
+  const titleWidth = compact ? 45 : 60;
+  const companyWidth = right - titleWidth - textX;
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(8.5));
+  const companyLines = [
+    ...(company?.address ? pdf.splitTextToSize(pdfText(company.address), companyWidth) as string[] : []),
+    [company?.phone && `Phone: ${company.phone}`, company?.email && `Email: ${company.email}`].filter(Boolean).join("  |  "),
+    company?.gst_number ? `GSTIN: ${company.gst_number}` : "",
+    company?.website || "",
+  ].filter(Boolean);
+  const companyBottom = y + lineHeight(14) + companyLines.length * (lineHeight(8.5) + 0.8);
+  const titleBottom = titleTop + lineHeight(18) + lineHeight(10) + 2;
+  const headerBottom = Math.max(companyBottom, titleBottom, logoPosition === "left" ? y + logoSize : y);
+
+  if (banded) {
+    pdf.setFillColor(...accent);
+    pdf.rect(0, 0, pageWidth, headerBottom + 5, "F");
+  }
+  const headerText = banded ? onAccent : dark;
+  const headerMuted = banded ? onAccent : muted;
+
+  if (logo && logoPosition !== "none") {
+    const logoX = logoPosition === "center" ? (pageWidth - logoWidth) / 2 : logoPosition === "right" ? right - logoWidth : margin;
+    drawImage(logo, logoX, logoTop, logoWidth, logoSize);
+  }
+
+  pdf.setTextColor(...headerText);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(fontSize(14));
+  let companyY = y + lineHeight(14);
+  pdf.text(pdfText(company?.company_name || "Your Company Name"), textX, companyY);
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(8.5));
+  pdf.setTextColor(...headerMuted);
+  companyLines.forEach((line) => {
+    companyY += lineHeight(8.5) + 0.8;
+    pdf.text(pdfText(line), textX, companyY);
+  });
+
+  pdf.setTextColor(...(minimal ? accent : headerText));
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(fontSize(18));
+  pdf.text(pdfText(doc.title), right, titleTop + lineHeight(18), { align: "right" });
+  pdf.setTextColor(...headerText);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(10));
+  pdf.text(pdfText(doc.number), right, titleBottom - 2, { align: "right" });
+
+  if (banded) {
+    y = headerBottom + 11;
+  } else {
+    y = headerBottom + 4;
+    pdf.setDrawColor(...(minimal ? accent : [210, 210, 210] as Rgb));
+    pdf.line(margin, y, right, y);
+    y += 6;
+  }
+
+  // Party on the left, dates and other details on the right
+  const blockTop = y;
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(fontSize(8.5));
+  pdf.setTextColor(...(minimal ? accent : muted));
+  pdf.text(pdfText(doc.partyLabel).toUpperCase(), margin, y);
+  y += lineHeight(11) + 1;
+  pdf.setTextColor(...dark);
+  pdf.setFontSize(fontSize(11));
+  pdf.text(pdfText(doc.partyName), margin, y);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(9));
+  (doc.partyDetails || []).filter(Boolean).forEach((detail) => {
+    y += lineHeight(9) + 1;
+    pdf.text(pdfText(detail), margin, y);
+  });
+
+  let detailY = blockTop;
+  const detailsX = right - (compact ? 55 : 70);
+  doc.details.forEach(({ label, value }) => {
+    pdf.setTextColor(...muted);
+    pdf.text(`${pdfText(label)}:`, detailsX, detailY);
+    pdf.setTextColor(...dark);
+    pdf.text(pdfText(value), right, detailY, { align: "right" });
+    detailY += lineHeight(9) + 1;
+  });
+  y = Math.max(y, detailY) + 6;
+
+  // Line items, with the optional columns the template turns on and the document has values for
+  const showSku = template.show_sku && doc.items.some((item) => item.sku);
+  const showBatch = doc.items.some((item) => item.batch);
+  const showHsn = template.show_hsn && doc.items.some((item) => item.hsn_code);
+  const showDiscount = template.show_discount && doc.items.some((item) => Number(item.discount_amount) > 0);
+  const showTaxRate = template.show_tax && doc.items.some((item) => Number(item.tax_rate) > 0);
+  const head = [
+    "#",
+    "Description",
+    ...(showSku ? ["SKU"] : []),
+    ...(showBatch ? ["Batch"] : []),
+    ...(showHsn ? ["HSN/SAC"] : []),
+    "Qty",
+    `Rate (${doc.currencyCode})`,
+    ...(showDiscount ? ["Discount"] : []),
+    ...(showTaxRate ? ["Tax %"] : []),
+    `Amount (${doc.currencyCode})`,
+  ];
+  const body = doc.items.map((item, index) => [
+    String(index + 1),
+    pdfText(item.description),
+    ...(showSku ? [pdfText(item.sku)] : []),
+    ...(showBatch ? [pdfText(item.batch)] : []),
+    ...(showHsn ? [item.hsn_code || ""] : []),
+    String(item.quantity),
+    pdfAmount(item.unit_price),
+    ...(showDiscount ? [Number(item.discount_amount) > 0 ? pdfAmount(item.discount_amount) : "-"] : []),
+    ...(showTaxRate ? [`${Number(item.tax_rate) || 0}%`] : []),
+    pdfAmount(item.amount),
+  ]);
+  const numericFrom = head.indexOf("Qty");
+  autoTable(pdf, {
+    startY: y,
+    head: [head],
+    body,
+    theme: minimal ? "plain" : "striped",
+    margin: { left: margin, right: margin, bottom: margin + 6 },
+    styles: { fontSize: fontSize(8.5), cellPadding: compact ? 1.5 : 2, textColor: dark },
+    headStyles: minimal
+      ? { fillColor: false, textColor: accent, fontStyle: "bold", lineWidth: { bottom: 0.4 }, lineColor: accent }
+      : { fillColor: accent, textColor: onAccent, fontStyle: "bold" },
+    bodyStyles: minimal ? { lineWidth: { bottom: 0.1 }, lineColor: [220, 220, 220] } : {},
+    columnStyles: Object.fromEntries(
+      head.map((_, index) => [index, index === 0 ? { cellWidth: 8 } : index >= numericFrom ? { halign: "right" as const } : {}])
+    ),
+  });
+  y = tableEnd(pdf, y) + 6;
+
+  // Totals, right-aligned under the items
+  ensureSpace(doc.totals.length * (lineHeight(10) + 2) + 4);
+  const labelX = right - (compact ? 55 : 70);
+  doc.totals.forEach(({ label, amount, emphasis }) => {
+    if (emphasis) {
+      pdf.setDrawColor(...accent);
+      pdf.line(labelX, y - lineHeight(10), right, y - lineHeight(10));
+      y += 1;
+    }
+    pdf.setFont("helvetica", emphasis ? "bold" : "normal");
+    pdf.setFontSize(fontSize(emphasis ? 11 : 9));
+    pdf.setTextColor(...(emphasis ? dark : muted));
+    pdf.text(pdfText(label), labelX, y);
+    pdf.setTextColor(...dark);
+    pdf.text(`${emphasis ? `${doc.currencyCode} ` : ""}${pdfAmount(amount)}`, right, y, { align: "right" });
+    y += lineHeight(10) + 2;
+  });
+  y += 4;
+
+  // Rate-wise GST summary
+  const taxRows = doc.taxLines ? summarizeByRate(doc.taxLines, doc.documentDiscount || 0) : [];
+  if (taxRows.some((row) => row.cgst + row.sgst + row.igst > 0)) {
+    const interState = taxRows.some((row) => row.igst > 0);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(fontSize(9));
+    pdf.setTextColor(...dark);
+    ensureSpace(19);
+    pdf.text("Tax Summary", margin, y);
+    if (doc.placeOfSupply) {
+      pdf.setFont("helvetica", "normal");
+      pdf.text(`Place of supply: ${doc.placeOfSupply}-${stateName(doc.placeOfSupply)}`, right, y, { align: "right" });
+    }
+    autoTable(pdf, {
+      startY: y + 2,
+      head: [["Rate", `Taxable (${doc.currencyCode})`, ...(interState ? ["IGST"] : ["CGST", "SGST"])]],
+      body: taxRows.map((row) => [
+        `${row.tax_rate}%`,
+        pdfAmount(row.taxable),
+        ...(interState ? [pdfAmount(row.igst)] : [pdfAmount(row.cgst), pdfAmount(row.sgst)]),
+      ]),
+      theme: "grid",
+      margin: { left: margin, right: margin, bottom: margin + 6 },
+      styles: { fontSize: fontSize(8), cellPadding: compact ? 1.2 : 1.6, textColor: dark, halign: "right" },
+      headStyles: { fillColor: [235, 235, 235], textColor: dark, fontStyle: "bold" },
+      columnStyles: { 0: { halign: "left" } },
+    });
+    y = tableEnd(pdf, y) + 6;
+  }
+
+  const textBlock = (heading: string, text: string) => {
+    const lines = pdf.splitTextToSize(pdfText(text), right - margin) as string[];
+    ensureSpace((lines.length + 1) * (lineHeight(9) + 1) + 6);
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(fontSize(9));
+    pdf.setTextColor(...dark);
+    pdf.text(heading, margin, y);
+    pdf.setFont("helvetica", "normal");
+    pdf.setTextColor(...muted);
+    pdf.text(lines, margin, y + lineHeight(9) + 1);
+    y += (lines.length + 1) * (lineHeight(9) + 1) + 4;
+  };
+  if (doc.notes) textBlock("Notes", doc.notes);
+  if (template.footer_terms) textBlock("Terms & Conditions", template.footer_terms);
+
+  // Bank details on the left, signature on the right
+  if (template.bank_details || options.signature) {
+    const bankLines = template.bank_details
+      ? pdf.splitTextToSize(pdfText(template.bank_details), (right - margin) / 2) as string[]
+      : [];
+    const signatureHeight = compact ? 12 : 16;
+    const signatureWidth = options.signature ? imageWidth(options.signature, signatureHeight, compact ? 40 : 50) : 0;
+    const blockHeight = Math.max(
+      (bankLines.length + 1) * (lineHeight(9) + 1),
+      options.signature ? signatureHeight + 2 * (lineHeight(8.5) + 2) : 0
+    );
+    ensureSpace(blockHeight + 4);
+
+    if (bankLines.length > 0) {
+      pdf.setFont("helvetica", "bold");
+      pdf.setFontSize(fontSize(9));
+      pdf.setTextColor(...dark);
+      pdf.text("Bank Details", margin, y);
+      pdf.setFont("helvetica", "normal");
+      pdf.setTextColor(...muted);
+      pdf.text(bankLines, margin, y + lineHeight(9) + 1);
+    }
+    if (options.signature) {
+      pdf.setFont("helvetica", "normal");
+      pdf.setFontSize(fontSize(8.5));
+      pdf.setTextColor(...dark);
+      pdf.text(`For ${pdfText(company?.company_name || "Your Company Name")}`, right, y, { align: "right" });
+      if (signatureWidth > 0) drawImage(options.signature, right - signatureWidth, y + 2, signatureWidth, signatureHeight);
+      pdf.setTextColor(...muted);
+      pdf.text("Authorised Signatory", right, y + signatureHeight + 4 + lineHeight(8.5), { align: "right" });
+    }
+    y += blockHeight + 4;
+  }
+
+  // Footer with page numbers on every page
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(fontSize(7.5));
+    pdf.setTextColor(...muted);
+    pdf.text(pdfText(doc.footer || "Thank you for your business!"), margin, pageHeight - margin / 2);
+    pdf.text(`Page ${page} of ${pageCount}`, right, pageHeight - margin / 2, { align: "right" });
+  }
+
+  if (options.autoPrint) pdf.autoPrint();
+  return pdf.output("blob");
+}
+
+/**
+ * Uploads a PDF to the user's folder in the documents bucket, replacing any
+ * earlier copy, and returns its storage path
+ */
+export async function uploadPdf(folder: string, name: string, blob: Blob): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const path = `${user.id}/${folder}/${name}.pdf`;
+  const { error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(path, blob, { upsert: true, contentType: "application/pdf" });
+  if (error) throw error;
+  return path;
+}
+
+/**
+ * Saves the PDF against its document, replacing any earlier copy, and returns its storage path
+ */
+export async function storeDocumentPdf(table: PdfDocumentTable, id: string, blob: Blob): Promise<string> {
+  const path = await uploadPdf(table, id, blob);
+
+  const { error: updateError } = await supabase.from(table).update({ pdf_path: path }).eq("id", id);
+  if (updateError) throw updateError;
+  return path;
+}
+
+/**
+ * Time-limited link to a stored PDF, for messages that cannot carry the file
+ */
+export async function documentPdfLink(path: string): Promise<string | null> {
+  const { data } = await supabase.storage.from(DOCUMENTS_BUCKET).createSignedUrl(path, SHARE_LINK_SECONDS);
+  return data?.signedUrl || null;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+/**
+ * Hands the file to the device share sheet (WhatsApp, mail, ...). Returns
+ * false where files cannot be shared, which is most desktop browsers.
+ */
+export async function shareFile(blob: Blob, fileName: string, text?: string): Promise<boolean> {
+  const file = new File([blob], fileName, { type: blob.type || "application/pdf" });
+  if (!navigator.canShare?.({ files: [file] })) return false;
+  try {
+    await navigator.share({ files: [file], title: fileName, text });
+    return true;
+  } catch (error) {
+    // Closing the share sheet is not a failure
+    return error instanceof DOMException && error.name === "AbortError";
+  }
+}
@@ -0,0 +1,89 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type DocumentTemplateType = "invoice" | "bill" | "purchase_order";
+export type DocumentLayout = "classic" | "modern" | "minimal";
+export type LogoPosition = "left" | "center" | "right" | "none";
+
+export interface DocumentTemplate {
+  layout: DocumentLayout;
+  // Hex colour, e.g. #1d4ed8
+  accent_color: string;
+  logo_position: LogoPosition;
+  show_sku: boolean;
+  show_hsn: boolean;
+  show_discount: boolean;
+  show_tax: boolean;
+  footer_terms: string | null;
+  bank_details: string | null;
+  // Signature image in the company-logos bucket
+  signature_path: string | null;
+}
+
+export const documentTemplateTypes: { type: DocumentTemplateType; label: string }[] = [
+  { type: "invoice", label: "Invoices" },
+  { type: "bill", label: "Bills" },
+  { type: "purchase_order", label: "Purchase Orders" },
+];
+
+export const documentLayouts: { value: DocumentLayout; label: string; description: string }[] = [
+  { value: "classic", label: "Classic", description: "Shaded table header, striped rows" },
+  { value: "modern", label: "Modern", description: "Coloured header band" },
+  { value: "minimal", label: "Minimal", description: "No fills, thin rules" },
+];
+
+export const logoPositions: { value: LogoPosition; label: string }[] = [
+  { value: "left", label: "Left" },
+  { value: "center", label: "Centre" },
+  { value: "right", label: "Right" },
+  { value: "none", label: "Hidden" },
+];
+
+// Matches the layout documents had before templates existed
+export const defaultDocumentTemplate: DocumentTemplate = {
+  layout: "classic",
+  accent_color: "#282828",
+  logo_position: "left",
+  show_sku: false,
+  show_hsn: true,
+  show_discount: true,
+  show_tax: true,
+  footer_terms: null,
+  bank_details: null,
+  signature_path: null,
+};
+
+type DocumentTemplateRow = Omit<DocumentTemplate, "layout" | "logo_position"> & {
+  layout: string;
+  logo_position: string;
+};
+
+export function toDocumentTemplate(row: DocumentTemplateRow | null | undefined): DocumentTemplate {
+  if (!row) return defaultDocumentTemplate;
+  return {
+    layout: documentLayouts.some((l) => l.value === row.layout) ? (row.layout as DocumentLayout) : "classic",
+    accent_color: row.accent_color,
+    logo_position: logoPositions.some((p) => p.value === row.logo_position) ? (row.logo_position as LogoPosition) : "left",
+    show_sku: row.show_sku,
+    show_hsn: row.show_hsn,
+    show_discount: row.show_discount,
+    show_tax: row.show_tax,
+    footer_terms: row.footer_terms,
+    bank_details: row.bank_details,
+    signature_path: row.signature_path,
+  };
+}
+
+export const documentTemplateColumns =
+  "document_type, layout, accent_color, logo_position, show_sku, show_hsn, show_discount, show_tax, footer_terms, bank_details, signature_path";
+
+/**
+ * Saved template for a document type, or the default layout when none is saved
+ */
+export async function loadDocumentTemplate(type: DocumentTemplateType): Promise<DocumentTemplate> {
+  const { data } = await supabase
+    .from("document_templates")
+    .select(documentTemplateColumns)
+    .eq("document_type", type)
+    .maybeSingle();
+  return toDocumentTemplate(data);
+}
@@ -113,6 +113,9 @@ export function getSafeErrorMessage(error: any, defaultMessage?: string): string
   const code = extractErrorCode(error);
   const message = extractErrorMessage(error);
   
+  // Messages raised by our own database functions are written for users
+  if (code === 'P0001' && message) return message;
+
   // Check error code maps
   if (code) {
     if (DB_ERROR_MAP[code]) return DB_ERROR_MAP[code];
@@ -0,0 +1,186 @@
+// GST state codes as used in the first two digits of a GSTIN
+export const gstStates: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+  { code: "97", name: "Other Territory" },
+];
+
+export const gstRates = [0, 0.25, 3, 5, 12, 18, 28];
+
+export function stateName(code: string | null | undefined): string {
+  return gstStates.find((s) => s.code === code)?.name || "";
+}
+
+/**
+ * State code from a GSTIN (e.g. "27AAPFU0939F1ZV" → "27")
+ */
+export function stateCodeFromGstin(gstin: string | null | undefined): string | null {
+  const code = (gstin || "").trim().slice(0, 2);
+  return gstStates.some((s) => s.code === code) ? code : null;
+}
+
+/**
+ * Supply is inter-state (IGST) when the place of supply differs from the
+ * seller's state. Unknown states are treated as intra-state (CGST + SGST).
+ */
+export function isInterState(companyState: string | null | undefined, placeOfSupply: string | null | undefined): boolean {
+  return !!companyState && !!placeOfSupply && companyState !== placeOfSupply;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export type DiscountType = "percent" | "flat";
+
+/**
+ * Discount on an amount, never more than the amount itself
+ */
+export function discountAmount(base: number, type: DiscountType | undefined, value: number | undefined): number {
+  const v = Math.max(0, Number(value) || 0);
+  const discount = type === "flat" ? v : (base * Math.min(v, 100)) / 100;
+  return round2(Math.min(Math.max(base, 0), discount));
+}
+
+export interface GstLine {
+  quantity: number;
+  unit_price: number;
+  tax_rate: number;
+  discount_type?: DiscountType;
+  discount_value?: number;
+}
+
+export interface GstLineTax {
+  // After the line discount, before any document discount
+  amount: number;
+  tax_rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface CalculatedLine extends GstLineTax {
+  gross: number;
+  discount_amount: number;
+  taxable: number;
+}
+
+function taxOn(taxable: number, rate: number, interState: boolean) {
+  if (interState) {
+    return { cgst: 0, sgst: 0, igst: round2((taxable * rate) / 100) };
+  }
+  // Intra-state tax is split equally between CGST and SGST
+  const half = round2((taxable * rate) / 200);
+  return { cgst: half, sgst: half, igst: 0 };
+}
+
+export interface DocumentAdjustments {
+  discount_type?: DiscountType;
+  discount_value?: number;
+  round_off?: boolean;
+}
+
+/**
+ * Totals for a document. Line discounts come off each line, the document
+ * discount is shared across lines by value, and tax is charged on what is left.
+ * With round_off the total is rounded to the nearest rupee and the
+ * difference returned separately.
+ */
+export function calculateGstTotals(lines: GstLine[], interState: boolean, adjustments: DocumentAdjustments = {}) {
+  const discounted = lines.map((line) => {
+    const gross = round2(line.quantity * line.unit_price);
+    const lineDiscount = discountAmount(gross, line.discount_type, line.discount_value);
+    return { gross, discount_amount: lineDiscount, amount: round2(gross - lineDiscount), tax_rate: Number(line.tax_rate) || 0 };
+  });
+  const subtotal = round2(discounted.reduce((sum, l) => sum + l.amount, 0));
+  const documentDiscount = discountAmount(subtotal, adjustments.discount_type, adjustments.discount_value);
+
+  const calculated: CalculatedLine[] = discounted.map((line) => {
+    const share = subtotal > 0 ? round2((documentDiscount * line.amount) / subtotal) : 0;
+    const taxable = round2(line.amount - share);
+    return { ...line, taxable, ...taxOn(taxable, line.tax_rate, interState) };
+  });
+
+  const gross = round2(calculated.reduce((sum, l) => sum + l.gross, 0));
+  const lineDiscount = round2(calculated.reduce((sum, l) => sum + l.discount_amount, 0));
+  const cgst = round2(calculated.reduce((sum, l) => sum + l.cgst, 0));
+  const sgst = round2(calculated.reduce((sum, l) => sum + l.sgst, 0));
+  const igst = round2(calculated.reduce((sum, l) => sum + l.igst, 0));
+  const tax = round2(cgst + sgst + igst);
+  const unrounded = round2(subtotal - documentDiscount + tax);
+  const roundOff = adjustments.round_off ? round2(Math.round(unrounded) - unrounded) : 0;
+
+  return {
+    lines: calculated,
+    gross,
+    line_discount: lineDiscount,
+    subtotal,
+    discount_amount: documentDiscount,
+    cgst,
+    sgst,
+    igst,
+    tax,
+    round_off: roundOff,
+    total: round2(unrounded + roundOff),
+  };
+}
+
+export interface GstRateSummary {
+  tax_rate: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+/**
+ * Rate-wise summary of stored line taxes, lowest rate first. A document
+ * discount is shared across the lines by value, as when the tax was worked out.
+ */
+export function summarizeByRate(lines: GstLineTax[], documentDiscount = 0): GstRateSummary[] {
+  const subtotal = lines.reduce((sum, line) => sum + Number(line.amount), 0);
+  const byRate = new Map<number, GstRateSummary>();
+  lines.forEach((line) => {
+    const rate = Number(line.tax_rate) || 0;
+    const share = subtotal > 0 ? round2((documentDiscount * Number(line.amount)) / subtotal) : 0;
+    const row = byRate.get(rate) || { tax_rate: rate, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+    row.taxable = round2(row.taxable + Number(line.amount) - share);
+    row.cgst = round2(row.cgst + Number(line.cgst));
+    row.sgst = round2(row.sgst + Number(line.sgst));
+    row.igst = round2(row.igst + Number(line.igst));
+    byRate.set(rate, row);
+  });
+  return Array.from(byRate.values()).sort((a, b) => a.tax_rate - b.tax_rate);
+}
@@ -0,0 +1,156 @@
+import { jsPDF } from "jspdf";
+import { pdfAmount, pdfText } from "@/lib/documentPdf";
+import { encodeBarcode } from "@/lib/barcodes";
+
+export type LabelLayoutKey = "a4_65" | "a4_24" | "roll_50x25" | "roll_38x25";
+
+export interface LabelLayout {
+  name: string;
+  // Size of one label, in mm
+  width: number;
+  height: number;
+  // A grid of labels on an A4 sheet; without one, each label is a page, as on a thermal roll
+  sheet?: {
+    columns: number;
+    rows: number;
+    left: number;
+    top: number;
+    // Distance from one label to the next, gap included
+    pitchX: number;
+    pitchY: number;
+  };
+}
+
+export const labelLayouts: Record<LabelLayoutKey, LabelLayout> = {
+  a4_65: {
+    name: "A4 sheet · 65 labels (38.1 × 21.2 mm)",
+    width: 38.1,
+    height: 21.2,
+    sheet: { columns: 5, rows: 13, left: 4.67, top: 10.7, pitchX: 40.64, pitchY: 21.2 },
+  },
+  a4_24: {
+    name: "A4 sheet · 24 labels (63.5 × 33.9 mm)",
+    width: 63.5,
+    height: 33.9,
+    sheet: { columns: 3, rows: 8, left: 7.25, top: 12.9, pitchX: 66, pitchY: 33.9 },
+  },
+  roll_50x25: { name: "Thermal roll · 50 × 25 mm", width: 50, height: 25 },
+  roll_38x25: { name: "Thermal roll · 38 × 25 mm", width: 38, height: 25 },
+};
+
+export interface LabelItem {
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  price: number;
+  mrp: number | null;
+  copies: number;
+}
+
+// Points to mm, for turning font sizes into line heights
+const PT = 0.3528;
+
+const copiesOf = (item: LabelItem) => Math.max(0, Math.floor(item.copies) || 0);
+
+export function labelCount(items: LabelItem[]): number {
+  return items.reduce((sum, item) => sum + copiesOf(item), 0);
+}
+
+export function labelPageCount(items: LabelItem[], layout: LabelLayout): number {
+  const count = labelCount(items);
+  return layout.sheet ? Math.ceil(count / (layout.sheet.columns * layout.sheet.rows)) : count;
+}
+
+function fitText(pdf: jsPDF, text: string, width: number): string {
+  if (pdf.getTextWidth(text) <= width) return text;
+  let cut = text;
+  while (cut && pdf.getTextWidth(`${cut}...`) > width) cut = cut.slice(0, -1);
+  return `${cut}...`;
+}
+
+function drawLabel(pdf: jsPDF, item: LabelItem, x: number, y: number, layout: LabelLayout, currencySymbol: string) {
+  // Taller labels get larger type
+  const scale = layout.height >= 30 ? 1.25 : 1;
+  const nameSize = 7 * scale;
+  const smallSize = 5 * scale;
+  const priceSize = 8 * scale;
+  const pad = layout.height >= 30 ? 2 : 1.2;
+  const left = x + pad;
+  const right = x + layout.width - pad;
+  const innerWidth = right - left;
+  const code = item.barcode?.trim() || item.sku?.trim() || "";
+  const encoded = encodeBarcode(code);
+
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(nameSize);
+  // Without a barcode the name may take a second line
+  const name = pdfText(item.name);
+  const nameLines = encoded ? [fitText(pdf, name, innerWidth)] : (pdf.splitTextToSize(name, innerWidth) as string[]).slice(0, 2);
+  pdf.text(nameLines, left, y + pad, { baseline: "top" });
+  const nameBottom = y + pad + nameLines.length * nameSize * PT * 1.15;
+
+  const priceTop = y + layout.height - pad - priceSize * PT;
+  pdf.setFontSize(priceSize);
+  pdf.text(pdfText(`${currencySymbol}${pdfAmount(item.price)}`), right, priceTop, { baseline: "top", align: "right" });
+  if (item.mrp !== null) {
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(smallSize);
+    pdf.text(pdfText(`MRP ${currencySymbol}${pdfAmount(item.mrp)}`), left, priceTop + (priceSize - smallSize) * PT, { baseline: "top" });
+  }
+
+  if (!encoded) return;
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(smallSize);
+  const codeTop = priceTop - smallSize * PT * 1.2;
+  // The SKU goes beside the code when the bars carry the barcode instead
+  const sku = item.sku?.trim() && item.sku.trim() !== encoded.text ? pdfText(item.sku.trim()) : "";
+  if (sku) {
+    pdf.text(pdfText(encoded.text), left, codeTop, { baseline: "top" });
+    pdf.text(fitText(pdf, sku, innerWidth - pdf.getTextWidth(encoded.text) - 2), right, codeTop, { baseline: "top", align: "right" });
+  } else {
+    pdf.text(pdfText(encoded.text), x + layout.width / 2, codeTop, { baseline: "top", align: "center" });
+  }
+
+  // Ten modules of quiet zone either side keep the bars readable next to the label edge
+  const moduleWidth = Math.min(0.4, innerWidth / (encoded.modules.length + 20));
+  const barLeft = x + (layout.width - encoded.modules.length * moduleWidth) / 2;
+  const barTop = nameBottom + 0.4;
+  const barHeight = codeTop - 0.3 - barTop;
+  pdf.setFillColor(0, 0, 0);
+  for (let i = 0; i < encoded.modules.length; ) {
+    if (!encoded.modules[i]) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < encoded.modules.length && encoded.modules[end]) end++;
+    pdf.rect(barLeft + i * moduleWidth, barTop, (end - i) * moduleWidth, barHeight, "F");
+    i = end;
+  }
+}
+
+/**
+ * Product labels: name, barcode, price and MRP, with each item repeated for
+ * its copies. Sheets fill left to right, top to bottom; roll labels are one
+ * per page, sized to the label, for thermal printers.
+ */
+export function renderLabelsPdf(items: LabelItem[], layout: LabelLayout, currencySymbol: string): Blob {
+  const { sheet } = layout;
+  const pdf = sheet
+    ? new jsPDF({ unit: "mm", format: "a4" })
+    : new jsPDF({ unit: "mm", format: [layout.width, layout.height], orientation: layout.width > layout.height ? "landscape" : "portrait" });
+  const perPage = sheet ? sheet.columns * sheet.rows : 1;
+  const labels = items.flatMap((item) => Array<LabelItem>(copiesOf(item)).fill(item));
+
+  labels.forEach((item, index) => {
+    const slot = index % perPage;
+    if (index > 0 && slot === 0) pdf.addPage();
+    const x = sheet ? sheet.left + (slot % sheet.columns) * sheet.pitchX : 0;
+    const y = sheet ? sheet.top + Math.floor(slot / sheet.columns) * sheet.pitchY : 0;
+    drawLabel(pdf, item, x, y, layout, currencySymbol);
+  });
+
+  return pdf.output("blob");
+}
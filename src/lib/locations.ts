@@ -0,0 +1,28 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface StockLocation {
+  id: string;
+  name: string;
+  // Sales and receipts post their stock here
+  is_default: boolean;
+}
+
+export async function fetchLocations(): Promise<StockLocation[]> {
+  const { data, error } = await supabase
+    .from("locations")
+    .select("id, name, is_default")
+    .order("is_default", { ascending: false })
+    .order("name");
+  if (error) throw error;
+  return data || [];
+}
+
+/** Stock of each product at a location, by product id. */
+export async function fetchLocationStock(locationId: string): Promise<Map<string, number>> {
+  const { data, error } = await supabase
+    .from("location_stock")
+    .select("product_id, quantity")
+    .eq("location_id", locationId);
+  if (error) throw error;
+  return new Map((data || []).map((row) => [row.product_id, row.quantity]));
+}
@@ -0,0 +1,9 @@
+// Ways a payment or refund can be made, as allowed by the payments tables
+export const paymentModes = [
+  { value: "cash", label: "Cash" },
+  { value: "upi", label: "UPI" },
+  { value: "card", label: "Card" },
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "cheque", label: "Cheque" },
+  { value: "other", label: "Other" },
+];
@@ -0,0 +1,44 @@
+import { addMonths, addWeeks, addYears, format, parseISO } from "date-fns";
+
+export type RecurrenceFrequency = "weekly" | "monthly" | "quarterly" | "yearly";
+
+export const recurrenceFrequencies: { value: RecurrenceFrequency; label: string }[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+export function frequencyLabel(frequency: string): string {
+  return recurrenceFrequencies.find((f) => f.value === frequency)?.label || frequency;
+}
+
+/**
+ * The n-th date of a schedule counted from its start date (0 is the start),
+ * matching recurrence_date() in the database
+ */
+export function recurrenceDate(startDate: string, frequency: string, n: number): string {
+  const start = parseISO(startDate);
+  const date =
+    frequency === "weekly" ? addWeeks(start, n)
+    : frequency === "quarterly" ? addMonths(start, 3 * n)
+    : frequency === "yearly" ? addYears(start, n)
+    : addMonths(start, n);
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * The next `count` dates a schedule will run on, from its next run date up to its end date
+ */
+export function upcomingRunDates(
+  schedule: { start_date: string; frequency: string; next_run_date: string; end_date: string | null },
+  count: number
+): string[] {
+  const dates: string[] = [];
+  for (let n = 0; dates.length < count && n < 1000; n++) {
+    const date = recurrenceDate(schedule.start_date, schedule.frequency, n);
+    if (schedule.end_date && date > schedule.end_date) break;
+    if (date >= schedule.next_run_date) dates.push(date);
+  }
+  return dates;
+}
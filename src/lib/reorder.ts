@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ReorderStats {
+  product_id: string;
+  product_name: string;
+  sku: string | null;
+  unit: string | null;
+  quantity: number;
+  low_stock_threshold: number;
+  // Over the history window
+  units_sold: number;
+  // Still to arrive on draft and open purchase orders
+  on_order: number;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  supplier_email: string | null;
+  lead_time_days: number | null;
+  unit_cost: number;
+}
+
+export interface ReorderOptions {
+  historyDays: number;
+  coverDays: number;
+  defaultLeadDays: number;
+}
+
+export type ReorderSuggestion = ReorderStats & {
+  dailySales: number;
+  leadDays: number;
+  // Days until stock on hand runs out at the current rate; null when it is not selling
+  daysLeft: number | null;
+  suggestedQuantity: number;
+};
+
+export type SupplierReorder = {
+  // null for products with no supplier to order from
+  supplierId: string | null;
+  supplierName: string;
+  supplierEmail: string | null;
+  leadDays: number;
+  lines: ReorderSuggestion[];
+};
+
+export async function fetchReorderStats(historyDays: number): Promise<ReorderStats[]> {
+  const { data, error } = await supabase.rpc("get_reorder_stats", { p_history_days: historyDays });
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Products to reorder now: those whose stock and what is on order would fall
+ * to the low-stock threshold before a new order could arrive. Each is topped
+ * up to the threshold plus sales over the lead time and the days of cover.
+ * Products that are not selling are only brought back up to the threshold.
+ */
+export function planReorder(stats: ReorderStats[], options: ReorderOptions): ReorderSuggestion[] {
+  return stats
+    .map((row) => {
+      const dailySales = row.units_sold / options.historyDays;
+      const leadDays = row.lead_time_days ?? options.defaultLeadDays;
+      const available = row.quantity + row.on_order;
+      const reorderPoint = row.low_stock_threshold + dailySales * leadDays;
+      const target = reorderPoint + dailySales * options.coverDays;
+      return {
+        ...row,
+        dailySales,
+        leadDays,
+        daysLeft: dailySales > 0 ? row.quantity / dailySales : null,
+        suggestedQuantity: available <= reorderPoint ? Math.max(0, Math.ceil(target - available)) : 0,
+      };
+    })
+    .filter((row) => row.suggestedQuantity > 0)
+    .sort((a, b) => (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity));
+}
+
+/** Suggestions by supplier, one future purchase order each; unsourced products last. */
+export function groupBySupplier(suggestions: ReorderSuggestion[]): SupplierReorder[] {
+  const groups = suggestions.reduce<Map<string, SupplierReorder>>((acc, line) => {
+    const key = line.supplier_id || "";
+    const group = acc.get(key) || {
+      supplierId: line.supplier_id,
+      supplierName: line.supplier_name || "No supplier",
+      supplierEmail: line.supplier_email,
+      leadDays: line.leadDays,
+      lines: [],
+    };
+    group.lines.push(line);
+    acc.set(key, group);
+    return acc;
+  }, new Map());
+
+  return Array.from(groups.values()).sort((a, b) =>
+    a.supplierId && b.supplierId ? a.supplierName.localeCompare(b.supplierName) : a.supplierId ? -1 : 1
+  );
+}
@@ -0,0 +1,168 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type StatementEntryType = "invoice" | "payment" | "credit_note" | "refund";
+
+export interface StatementClient {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  // Debits add to what the customer owes, credits take off it
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface Statement {
+  client: StatementClient;
+  currencyCode: string;
+  // Inclusive yyyy-MM-dd dates
+  from: string;
+  to: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+export const statementEntryLabels: Record<StatementEntryType, string> = {
+  invoice: "Invoice",
+  payment: "Payment",
+  credit_note: "Credit note",
+  refund: "Refund",
+};
+
+// Same-day entries read as the invoice first, then what settled it
+const entryOrder: StatementEntryType[] = ["invoice", "credit_note", "refund", "payment"];
+
+// Drafts were never sent and cancelled invoices are not owed
+const excludedInvoiceStatuses = ["draft", "cancelled"];
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Currencies the client has been invoiced in. Each currency gets its own
+ * statement, since amounts are not converted.
+ */
+export async function loadStatementCurrencies(clientId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("invoices")
+    .select("currency_code")
+    .eq("client_id", clientId)
+    .not("status", "in", `(${excludedInvoiceStatuses.join(",")})`);
+  if (error) throw error;
+  return [...new Set((data || []).map((invoice) => invoice.currency_code))].sort();
+}
+
+/**
+ * Ledger of a client's invoices, payments, credit notes and refunds in one
+ * currency, with everything before `from` brought forward as the opening balance
+ */
+export async function loadStatement(client: StatementClient, currencyCode: string, from: string, to: string): Promise<Statement> {
+  const { data: invoices, error } = await supabase
+    .from("invoices")
+    .select("id, invoice_number, issue_date, due_date, total")
+    .eq("client_id", client.id)
+    .eq("currency_code", currencyCode)
+    .not("status", "in", `(${excludedInvoiceStatuses.join(",")})`)
+    .lte("issue_date", to);
+  if (error) throw error;
+
+  const invoiceIds = (invoices || []).map((invoice) => invoice.id);
+  const invoiceNumbers = new Map((invoices || []).map((invoice) => [invoice.id, invoice.invoice_number]));
+
+  const [{ data: payments, error: paymentsError }, { data: creditNotes, error: creditNotesError }] = invoiceIds.length
+    ? await Promise.all([
+        supabase
+          .from("payments")
+          .select("id, invoice_id, amount, payment_date, mode, reference")
+          .in("invoice_id", invoiceIds)
+          .lte("payment_date", to),
+        supabase
+          .from("credit_notes")
+          .select("id, invoice_id, credit_note_number, credit_date, total, refund_amount, refund_mode, reason")
+          .in("invoice_id", invoiceIds)
+          .lte("credit_date", to),
+      ])
+    : [{ data: [], error: null }, { data: [], error: null }];
+  if (paymentsError) throw paymentsError;
+  if (creditNotesError) throw creditNotesError;
+
+  const movements: Omit<StatementEntry, "balance">[] = [
+    ...(invoices || []).map((invoice) => ({
+      date: invoice.issue_date,
+      type: "invoice" as const,
+      reference: invoice.invoice_number,
+      description: invoice.due_date ? `Due ${invoice.due_date}` : "",
+      debit: Number(invoice.total),
+      credit: 0,
+    })),
+    ...(payments || []).map((payment) => ({
+      date: payment.payment_date,
+      type: "payment" as const,
+      reference: invoiceNumbers.get(payment.invoice_id) || "",
+      description: [payment.mode.replace(/_/g, " "), payment.reference].filter(Boolean).join(" · "),
+      debit: 0,
+      credit: Number(payment.amount),
+    })),
+    ...(creditNotes || []).flatMap((note) => {
+      const against = note.invoice_id ? invoiceNumbers.get(note.invoice_id) : null;
+      const credit = {
+        date: note.credit_date,
+        type: "credit_note" as const,
+        reference: note.credit_note_number,
+        description: [against && `Against ${against}`, note.reason].filter(Boolean).join(" · "),
+        debit: 0,
+        credit: Number(note.total),
+      };
+      // Whatever was paid back no longer counts against the balance
+      return Number(note.refund_amount) > 0
+        ? [credit, {
+            date: note.credit_date,
+            type: "refund" as const,
+            reference: note.credit_note_number,
+            description: note.refund_mode ? `Paid back by ${note.refund_mode.replace(/_/g, " ")}` : "Paid back",
+            debit: Number(note.refund_amount),
+            credit: 0,
+          }]
+        : [credit];
+    }),
+  ].sort((a, b) => a.date.localeCompare(b.date) || entryOrder.indexOf(a.type) - entryOrder.indexOf(b.type));
+
+  let balance = 0;
+  let openingBalance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const entries: StatementEntry[] = [];
+  for (const movement of movements) {
+    balance = round2(balance + movement.debit - movement.credit);
+    if (movement.date < from) {
+      openingBalance = balance;
+      continue;
+    }
+    totalDebit += movement.debit;
+    totalCredit += movement.credit;
+    entries.push({ ...movement, balance });
+  }
+
+  return {
+    client,
+    currencyCode,
+    from,
+    to,
+    openingBalance,
+    entries,
+    totalDebit: round2(totalDebit),
+    totalCredit: round2(totalCredit),
+    closingBalance: balance,
+  };
+}
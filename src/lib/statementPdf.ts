@@ -0,0 +1,162 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format, parseISO } from "date-fns";
+import { PdfCompany, PdfPageSize, pdfAmount, pdfText } from "@/lib/documentPdf";
+import { Statement, statementEntryLabels } from "@/lib/statement";
+
+type AutoTableDocument = jsPDF & { lastAutoTable?: { finalY?: number } };
+type Rgb = [number, number, number];
+
+export const statementDate = (date: string) => format(parseISO(date), "dd MMM yyyy");
+
+export function statementFileName(statement: Statement): string {
+  return `Statement-${statement.client.name}-${statement.from}-to-${statement.to}`.replace(/[^\w.-]+/g, "_") + ".pdf";
+}
+
+/**
+ * Renders a statement of account: the company header, the customer, a summary
+ * and the ledger with its running balance
+ */
+export function renderStatementPdf(statement: Statement, company: PdfCompany | null, pageSize: PdfPageSize = "a4"): Blob {
+  const pdf = new jsPDF({ unit: "mm", format: pageSize });
+  const compact = pageSize === "a5";
+  const fontSize = (pt: number) => pt * (compact ? 0.85 : 1);
+  const lineHeight = (pt: number) => fontSize(pt) * 0.45;
+  const margin = compact ? 10 : 14;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - margin;
+  const muted: Rgb = [100, 100, 100];
+  const dark: Rgb = [20, 20, 20];
+  const header: Rgb = [40, 40, 40];
+  const code = statement.currencyCode;
+  let y = margin;
+
+  // Company on the left, with its logo, and the title on the right
+  const logoSize = compact ? 14 : 18;
+  let textX = margin;
+  if (company?.logo) {
+    try {
+      const image = pdf.getImageProperties(company.logo);
+      const logoWidth = Math.min(logoSize * 2, (logoSize * image.width) / image.height);
+      pdf.addImage(company.logo, margin, y, logoWidth, logoSize);
+      textX = margin + logoWidth + 4;
+    } catch {
+      // Image formats jsPDF cannot embed are left out
+    }
+  }
+  pdf.setTextColor(...dark);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(fontSize(14));
+  let companyY = y + lineHeight(14);
+  pdf.text(pdfText(company?.company_name || "Your Company Name"), textX, companyY);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(8.5));
+  pdf.setTextColor(...muted);
+  [
+    company?.address,
+    [company?.phone && `Phone: ${company.phone}`, company?.email && `Email: ${company.email}`].filter(Boolean).join("  |  "),
+    company?.gst_number && `GSTIN: ${company.gst_number}`,
+  ].filter(Boolean).forEach((line) => {
+    companyY += lineHeight(8.5) + 0.8;
+    pdf.text(pdfText(line), textX, companyY, { maxWidth: right - textX - (compact ? 50 : 70) });
+  });
+
+  pdf.setTextColor(...dark);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(fontSize(16));
+  pdf.text("STATEMENT OF ACCOUNT", right, y + lineHeight(16), { align: "right" });
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(9));
+  pdf.text(`${statementDate(statement.from)} to ${statementDate(statement.to)}`, right, y + lineHeight(16) + lineHeight(9) + 2, { align: "right" });
+
+  y = Math.max(companyY, y + logoSize) + 4;
+  pdf.setDrawColor(210, 210, 210);
+  pdf.line(margin, y, right, y);
+  y += 6;
+
+  // Customer on the left, summary on the right
+  const blockTop = y;
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(fontSize(8.5));
+  pdf.setTextColor(...muted);
+  pdf.text("STATEMENT FOR", margin, y);
+  y += lineHeight(11) + 1;
+  pdf.setTextColor(...dark);
+  pdf.setFontSize(fontSize(11));
+  pdf.text(pdfText(statement.client.name), margin, y);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(9));
+  [statement.client.address, statement.client.phone, statement.client.email].filter(Boolean).forEach((detail) => {
+    y += lineHeight(9) + 1;
+    pdf.text(pdfText(detail), margin, y, { maxWidth: (right - margin) / 2 });
+  });
+
+  let summaryY = blockTop;
+  const summaryX = right - (compact ? 60 : 75);
+  [
+    { label: "Opening balance", amount: statement.openingBalance },
+    { label: "Invoiced and refunded", amount: statement.totalDebit },
+    { label: "Paid and credited", amount: statement.totalCredit },
+    { label: "Balance due", amount: statement.closingBalance, emphasis: true },
+  ].forEach(({ label, amount, emphasis }) => {
+    pdf.setFont("helvetica", emphasis ? "bold" : "normal");
+    pdf.setTextColor(...(emphasis ? dark : muted));
+    pdf.text(label, summaryX, summaryY);
+    pdf.setTextColor(...dark);
+    pdf.text(`${code} ${pdfAmount(amount)}`, right, summaryY, { align: "right" });
+    summaryY += lineHeight(9) + 1.5;
+  });
+  y = Math.max(y, summaryY) + 6;
+
+  autoTable(pdf, {
+    startY: y,
+    head: [["Date", "Type", "Reference", "Details", `Debit (${code})`, `Credit (${code})`, `Balance (${code})`]],
+    body: [
+      ["", "", "", "Opening balance", "", "", pdfAmount(statement.openingBalance)],
+      ...statement.entries.map((entry) => [
+        statementDate(entry.date),
+        statementEntryLabels[entry.type],
+        pdfText(entry.reference),
+        pdfText(entry.description),
+        entry.debit ? pdfAmount(entry.debit) : "",
+        entry.credit ? pdfAmount(entry.credit) : "",
+        pdfAmount(entry.balance),
+      ]),
+    ],
+    foot: [["", "", "", "Closing balance", pdfAmount(statement.totalDebit), pdfAmount(statement.totalCredit), pdfAmount(statement.closingBalance)]],
+    theme: "striped",
+    margin: { left: margin, right: margin, bottom: margin + 6 },
+    styles: { fontSize: fontSize(8), cellPadding: compact ? 1.2 : 1.8, textColor: dark },
+    headStyles: { fillColor: header, textColor: [255, 255, 255], fontStyle: "bold" },
+    footStyles: { fillColor: [235, 235, 235], textColor: dark, fontStyle: "bold" },
+    columnStyles: { 0: { cellWidth: compact ? 18 : 22 }, 4: { halign: "right" }, 5: { halign: "right" }, 6: { halign: "right" } },
+  });
+  y = ((pdf as AutoTableDocument).lastAutoTable?.finalY ?? y) + 6;
+
+  if (y + 10 > pageHeight - margin - 6) {
+    pdf.addPage();
+    y = margin;
+  }
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(fontSize(8.5));
+  pdf.setTextColor(...muted);
+  pdf.text(
+    statement.closingBalance > 0
+      ? "Please arrange payment of the balance due. Ignore this if you have paid it already."
+      : "Thank you. Nothing is due on your account.",
+    margin,
+    y
+  );
+
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFontSize(fontSize(7.5));
+    pdf.setTextColor(...muted);
+    pdf.text(`Generated on ${format(new Date(), "dd MMM yyyy")}`, margin, pageHeight - margin / 2);
+    pdf.text(`Page ${page} of ${pageCount}`, right, pageHeight - margin / 2, { align: "right" });
+  }
+
+  return pdf.output("blob");
+}
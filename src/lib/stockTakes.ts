@@ -0,0 +1,30 @@
+export type AdjustmentReason = "count_error" | "damage" | "theft" | "expired" | "other";
+
+export const adjustmentReasonLabels: Record<AdjustmentReason, string> = {
+  count_error: "Count error",
+  damage: "Damage",
+  theft: "Theft",
+  expired: "Expired",
+  other: "Other",
+};
+
+export interface StockTakeLine {
+  id: string;
+  product_id: string | null;
+  description: string;
+  sku: string | null;
+  unit: string | null;
+  system_quantity: number;
+  counted_quantity: number | null;
+  unit_cost: number;
+  reason: string | null;
+}
+
+/** Counted minus system stock; 0 while the line is uncounted. */
+export function lineVariance(line: Pick<StockTakeLine, "system_quantity" | "counted_quantity">): number {
+  return line.counted_quantity === null ? 0 : line.counted_quantity - line.system_quantity;
+}
+
+export function varianceValue(line: Pick<StockTakeLine, "system_quantity" | "counted_quantity" | "unit_cost">): number {
+  return lineVariance(line) * Number(line.unit_cost);
+}
@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_person: string | null;
+  email: string | null;
+  phone: string | null;
+  gstin: string | null;
+  address: string | null;
+  state_code: string | null;
+  // Days to pay bills in; null falls back to the default payment terms
+  payment_terms: number | null;
+  // Days from ordering to delivery; null falls back to the default lead time
+  lead_time_days: number | null;
+  bank_account_name: string | null;
+  bank_account_number: string | null;
+  bank_ifsc: string | null;
+  bank_name: string | null;
+  upi_id: string | null;
+  notes: string | null;
+}
+
+/**
+ * Names that differ only in case, spacing or punctuation are the same supplier.
+ * Mirrors normalize_supplier_name in the database.
+ */
+export function normalizeSupplierName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim() || name.trim().toLowerCase();
+}
+
+export async function fetchSuppliers(): Promise<Supplier[]> {
+  const { data, error } = await supabase
+    .from("suppliers")
+    .select("id, name, contact_person, email, phone, gstin, address, state_code, payment_terms, lead_time_days, bank_account_name, bank_account_number, bank_ifsc, bank_name, upi_id, notes")
+    .order("name");
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * The supplier with this name, or a new one. Looks the name up again after a
+ * failed insert, in case the supplier was added on another device meanwhile.
+ */
+export async function findOrCreateSupplier(name: string, suppliers: Supplier[]): Promise<Supplier> {
+  const key = normalizeSupplierName(name);
+  const existing = suppliers.find((supplier) => normalizeSupplierName(supplier.name) === key);
+  if (existing) return existing;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("You must be logged in");
+
+  const { data, error } = await supabase
+    .from("suppliers")
+    .insert({ user_id: user.id, name: name.trim() })
+    .select("id, name, contact_person, email, phone, gstin, address, state_code, payment_terms, lead_time_days, bank_account_name, bank_account_number, bank_ifsc, bank_name, upi_id, notes")
+    .single();
+  if (!error) return data;
+
+  const match = (await fetchSuppliers()).find((supplier) => normalizeSupplierName(supplier.name) === key);
+  if (match) return match;
+  throw error;
+}
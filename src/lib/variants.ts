@@ -0,0 +1,51 @@
+import { Json } from "@/integrations/supabase/types";
+
+// An option a product varies by, e.g. Size with values S, M and L
+export interface VariantOption {
+  name: string;
+  values: string[];
+}
+
+// Option name to value, e.g. { Size: "M", Colour: "Red" }
+export type VariantAttributes = Record<string, string>;
+
+export function parseVariantOptions(value: Json | null): VariantOption[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((option) =>
+    option && typeof option === "object" && !Array.isArray(option) && typeof option.name === "string" && Array.isArray(option.values)
+      ? [{ name: option.name, values: option.values.filter((v): v is string => typeof v === "string") }]
+      : []
+  );
+}
+
+export function parseVariantAttributes(value: Json | null): VariantAttributes {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string"));
+}
+
+/** Every combination of the option values, in option order. */
+export function variantCombinations(options: VariantOption[]): VariantAttributes[] {
+  return options
+    .filter((option) => option.values.length > 0)
+    .reduce<VariantAttributes[]>(
+      (combinations, option) => combinations.flatMap((attributes) => option.values.map((value) => ({ ...attributes, [option.name]: value }))),
+      [{}]
+    );
+}
+
+/** "M / Red" — mirrors variant_label in the database. */
+export function variantLabel(attributes: VariantAttributes, options: VariantOption[]): string {
+  return options
+    .filter((option) => option.name in attributes)
+    .map((option) => attributes[option.name])
+    .join(" / ");
+}
+
+export function attributesKey(attributes: VariantAttributes, options: VariantOption[]): string {
+  return options.map((option) => `${option.name}=${attributes[option.name] ?? ""}`).join("|");
+}
+
+// A parent product holds no stock itself; its variants do
+export function isVariantParent(product: { variant_options: Json | null }): boolean {
+  return product.variant_options !== null;
+}
@@ -11,6 +11,7 @@ import { Plus, TrendingUp, TrendingDown, X } from "lucide-react";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { z } from "zod";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useSettings } from "@/contexts/SettingsContext";
 
 const transactionSchema = z.object({
   type: z.enum(["income", "expense"]),
@@ -29,9 +30,16 @@ type Transaction = {
   transaction_date: string;
 };
 
+type ExchangeDifference = {
+  id: string;
+  payment_date: string;
+  exchange_gain_loss: number;
+};
+
 const BalanceSheet = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
+  const [exchangeDifferences, setExchangeDifferences] = useState<ExchangeDifference[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
@@ -43,6 +51,20 @@ const BalanceSheet = () => {
     transaction_date: new Date().toISOString().split("T")[0],
   });
   const isMobile = useIsMobile();
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+
+  // Gains and losses realised on payments of invoices in other currencies
+  const fetchExchangeDifferences = async () => {
+    const { data, error } = await supabase
+      .from("payments")
+      .select("id, payment_date, exchange_gain_loss")
+      .neq("exchange_gain_loss", 0);
+
+    if (!error) {
+      setExchangeDifferences(data || []);
+    }
+  };
 
   const fetchTransactions = async () => {
     const { data, error } = await supabase
@@ -74,6 +96,7 @@ const BalanceSheet = () => {
 
   useEffect(() => {
     fetchTransactions();
+    fetchExchangeDifferences();
 
     const channel = supabase
       .channel("transactions-changes")
@@ -129,7 +152,11 @@ const BalanceSheet = () => {
     .filter((t) => t.type === "expense")
     .reduce((sum, t) => sum + Number(t.amount), 0);
 
-  const netBalance = totalIncome - totalExpenses;
+  const exchangeGainLoss = exchangeDifferences
+    .filter((d) => (!startDate || d.payment_date >= startDate) && (!endDate || d.payment_date <= endDate))
+    .reduce((sum, d) => sum + Number(d.exchange_gain_loss), 0);
+
+  const netBalance = totalIncome - totalExpenses + exchangeGainLoss;
 
   return (
     <div className="p-4 md:p-8 space-y-4 md:space-y-8 pb-24 md:pb-8">
@@ -219,7 +246,7 @@ const BalanceSheet = () => {
           <CardContent className="p-2 md:p-6 text-center">
             <p className="text-[10px] md:text-sm text-muted-foreground truncate">Income</p>
             <p className="text-sm md:text-2xl font-bold text-success">
-              ₹{totalIncome >= 1000 ? `${(totalIncome / 1000).toFixed(1)}k` : totalIncome.toFixed(2)}
+              {cs}{totalIncome >= 1000 ? `${(totalIncome / 1000).toFixed(1)}k` : totalIncome.toFixed(2)}
             </p>
           </CardContent>
         </Card>
@@ -228,7 +255,7 @@ const BalanceSheet = () => {
           <CardContent className="p-2 md:p-6 text-center">
             <p className="text-[10px] md:text-sm text-muted-foreground truncate">Expenses</p>
             <p className="text-sm md:text-2xl font-bold text-destructive">
-              ₹{totalExpenses >= 1000 ? `${(totalExpenses / 1000).toFixed(1)}k` : totalExpenses.toFixed(2)}
+              {cs}{totalExpenses >= 1000 ? `${(totalExpenses / 1000).toFixed(1)}k` : totalExpenses.toFixed(2)}
             </p>
           </CardContent>
         </Card>
@@ -237,12 +264,21 @@ const BalanceSheet = () => {
           <CardContent className="p-2 md:p-6 text-center">
             <p className="text-[10px] md:text-sm text-muted-foreground truncate">Net Balance</p>
             <p className={`text-sm md:text-2xl font-bold ${netBalance >= 0 ? "text-success" : "text-destructive"}`}>
-              ₹{Math.abs(netBalance) >= 1000 ? `${(netBalance / 1000).toFixed(1)}k` : netBalance.toFixed(2)}
+              {cs}{Math.abs(netBalance) >= 1000 ? `${(netBalance / 1000).toFixed(1)}k` : netBalance.toFixed(2)}
             </p>
           </CardContent>
         </Card>
       </div>
 
+      {exchangeGainLoss !== 0 && (
+        <div className="flex items-center justify-between rounded-lg border px-3 py-2 md:px-6 text-xs md:text-sm">
+          <span className="text-muted-foreground">Realised exchange {exchangeGainLoss > 0 ? "gain" : "loss"} on payments</span>
+          <span className={`font-semibold ${exchangeGainLoss > 0 ? "text-success" : "text-destructive"}`}>
+            {exchangeGainLoss > 0 ? "+" : "-"}{cs}{Math.abs(exchangeGainLoss).toFixed(2)}
+          </span>
+        </div>
+      )}
+
       {/* Transaction History */}
       <Card>
         <CardHeader className="px-3 md:px-6 pt-3 md:pt-6">
@@ -321,7 +357,7 @@ const BalanceSheet = () => {
                         transaction.type === "income" ? "text-success" : "text-destructive"
                       }`}
                     >
-                      {transaction.type === "income" ? "+" : "-"}₹{transaction.amount.toFixed(2)}
+                      {transaction.type === "income" ? "+" : "-"}{cs}{transaction.amount.toFixed(2)}
                     </p>
                   </CardContent>
                 </Card>
@@ -367,7 +403,7 @@ const BalanceSheet = () => {
                         transaction.type === "income" ? "text-success" : "text-destructive"
                       }`}
                     >
-                      {transaction.type === "income" ? "+" : "-"}₹{transaction.amount.toFixed(2)}
+                      {transaction.type === "income" ? "+" : "-"}{cs}{transaction.amount.toFixed(2)}
                     </TableCell>
                   </TableRow>
                 ))}
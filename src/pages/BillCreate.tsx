@@ -19,13 +19,24 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCompanyStateCode } from "@/hooks/useCompanyStateCode";
+import { calculateGstTotals, DiscountType, gstStates, isInterState } from "@/lib/gst";
+import { DiscountInput } from "@/components/DiscountInput";
+import { DocumentCurrencyFields } from "@/components/DocumentCurrencyFields";
+import { SupplierPicker } from "@/components/SupplierPicker";
+import { currencySymbol } from "@/lib/currency";
+import { addDays, format, parseISO } from "date-fns";
 
 const billSchema = z.object({
   customer_name: z.string().min(1, "Customer name is required"),
   customer_email: z.string().email("Invalid email").optional().or(z.literal("")),
   customer_phone: z.string().optional().or(z.literal("")),
   bill_date: z.string().min(1, "Bill date is required"),
+  due_date: z.string().optional(),
   notes: z.string().optional()
+}).refine((data) => !data.due_date || data.due_date >= data.bill_date, {
+  message: "Due date can't be before the bill date",
+  path: ["due_date"]
 });
 
 type BillFormData = z.infer<typeof billSchema>;
@@ -34,6 +45,10 @@ type BillItem = {
   description: string;
   quantity: number;
   unit_price: number;
+  hsn_code: string | null;
+  tax_rate: number;
+  discount_type: DiscountType;
+  discount_value: number;
 };
 
 type Product = {
@@ -43,6 +58,8 @@ type Product = {
   unit_price: number;
   quantity: number;
   category: string | null;
+  hsn_code: string | null;
+  tax_rate: number | null;
 };
 
 const UNITS = ["kg", "ltr", "pc", "box", "pack", "set", "pair", "g", "ml", "dozen"];
@@ -57,11 +74,23 @@ const BillCreate = () => {
     product_id: null,
     description: "",
     quantity: 1,
-    unit_price: 0
+    unit_price: 0,
+    hsn_code: null,
+    tax_rate: settings.default_tax_rate,
+    discount_type: "percent",
+    discount_value: 0
   }]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [taxEnabled, setTaxEnabled] = useState(settings.tax_enabled);
-  const [taxRate, setTaxRate] = useState(settings.default_tax_rate);
+  const companyState = useCompanyStateCode();
+  const [supplierId, setSupplierId] = useState<string | null>(null);
+  const [supplierState, setSupplierState] = useState("");
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [discountValue, setDiscountValue] = useState(0);
+  const [roundOff, setRoundOff] = useState(false);
+  const [currencyCode, setCurrencyCode] = useState(settings.currency_code);
+  const [exchangeRate, setExchangeRate] = useState(1);
+  const dcs = currencySymbol(currencyCode);
   const [productSearch, setProductSearch] = useState("");
   const [showProductPicker, setShowProductPicker] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState("");
@@ -71,6 +100,9 @@ const BillCreate = () => {
   const [newProduct, setNewProduct] = useState({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc" });
   const [isAddingProduct, setIsAddingProduct] = useState(false);
 
+  // Set once the due date is picked by hand, after which it is left alone
+  const [dueDateEdited, setDueDateEdited] = useState(false);
+
   const form = useForm<BillFormData>({
     resolver: zodResolver(billSchema),
     defaultValues: {
@@ -78,15 +110,42 @@ const BillCreate = () => {
       customer_email: "",
       customer_phone: "",
       bill_date: new Date().toISOString().split("T")[0],
+      due_date: "",
       notes: ""
     }
   });
 
+  const supplierName = form.watch("customer_name");
+  const billDate = form.watch("bill_date");
+
+  // The due date follows the supplier's terms from their last bill, else the default terms
+  useEffect(() => {
+    if (dueDateEdited || !billDate) return;
+    let stale = false;
+    const timer = setTimeout(async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data: terms, error } = await supabase.rpc("supplier_payment_terms", {
+        p_user_id: user.id,
+        p_supplier_name: supplierName.trim()
+      });
+      if (stale) return;
+      const days = error || terms === null ? settings.default_payment_terms : terms;
+      form.setValue("due_date", format(addDays(parseISO(billDate), days), "yyyy-MM-dd"));
+    }, 400);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [supplierName, billDate, dueDateEdited, settings.default_payment_terms]);
+
   useEffect(() => {
     const fetchProducts = async () => {
       const { data, error } = await supabase
         .from("products")
-        .select("id, name, purchase_price, unit_price, quantity, category")
+        .select("id, name, purchase_price, unit_price, quantity, category, hsn_code, tax_rate")
+        // Variants are bought, not the product they belong to
+        .is("variant_options", null)
         .order("name");
       if (!error && data) {
         setProducts(data);
@@ -95,6 +154,13 @@ const BillCreate = () => {
     fetchProducts();
   }, []);
 
+  // Purchases are intra-state unless the supplier is registered elsewhere
+  useEffect(() => {
+    if (companyState && !supplierState) {
+      setSupplierState(companyState);
+    }
+  }, [companyState]);
+
   const categories = Array.from(
     new Set(products.map((p) => p.category).filter(Boolean) as string[])
   ).sort();
@@ -127,7 +193,7 @@ const BillCreate = () => {
           unit: newProduct.unit || "pc",
           quantity: 0,
         })
-        .select("id, name, unit_price, purchase_price, quantity, category")
+        .select("id, name, unit_price, purchase_price, quantity, category, hsn_code, tax_rate")
         .single();
 
       if (error) throw error;
@@ -158,7 +224,12 @@ const BillCreate = () => {
         product_id: product.id,
         description: product.name,
         quantity: 1,
-        unit_price: product.purchase_price
+        // Catalogue prices are in the base currency
+        unit_price: Math.round(product.purchase_price / (exchangeRate || 1) * 100) / 100,
+        hsn_code: product.hsn_code,
+        tax_rate: product.tax_rate ?? settings.default_tax_rate,
+        discount_type: "percent",
+        discount_value: 0
       }]);
       toast.success(`${product.name} added`);
     }
@@ -172,7 +243,7 @@ const BillCreate = () => {
     if (items.length > 1) {
       setItems(items.filter((_, i) => i !== index));
     } else {
-      setItems([{ product_id: null, description: "", quantity: 1, unit_price: 0 }]);
+      setItems([{ product_id: null, description: "", quantity: 1, unit_price: 0, hsn_code: null, tax_rate: settings.default_tax_rate, discount_type: "percent", discount_value: 0 }]);
     }
   };
 
@@ -182,14 +253,24 @@ const BillCreate = () => {
     setItems(newItems);
   };
 
-  const calculateTotals = () => {
-    const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
-    const tax = taxEnabled ? subtotal * (taxRate / 100) : 0;
-    const total = subtotal + tax;
-    return { subtotal, tax, total };
+  const updateItemDiscount = (index: number, type: DiscountType, value: number) => {
+    const newItems = [...items];
+    newItems[index] = { ...newItems[index], discount_type: type, discount_value: value };
+    setItems(newItems);
   };
 
+  const interState = isInterState(companyState, supplierState);
+  const calculateTotals = () => calculateGstTotals(
+    items.map((item) => ({ ...item, tax_rate: taxEnabled ? item.tax_rate : 0 })),
+    interState,
+    { discount_type: discountType, discount_value: discountValue, round_off: roundOff }
+  );
+
   const onSubmit = async (data: BillFormData) => {
+    if (currencyCode !== settings.currency_code && exchangeRate <= 0) {
+      toast.error(`Enter the exchange rate for ${currencyCode}`);
+      return;
+    }
     setIsSubmitting(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -198,50 +279,51 @@ const BillCreate = () => {
         return;
       }
 
-      const { subtotal, tax, total } = calculateTotals();
-      const billNumber = `BILL-${Date.now()}`;
-
-      const { data: bill, error: billError } = await supabase.from("bills").insert({
-        bill_number: billNumber,
-        user_id: user.id,
-        customer_name: data.customer_name,
-        customer_email: data.customer_email || null,
-        bill_date: data.bill_date,
-        notes: data.notes || null,
-        status: "active",
-        subtotal,
-        tax,
-        total
-      }).select().single();
-
-      if (billError) throw billError;
+      const { subtotal, discount_amount, round_off, tax, total, lines } = calculateTotals();
 
       const itemsToInsert = items
-        .filter((item) => item.description && item.quantity > 0 && item.unit_price > 0)
-        .map((item) => ({
-          bill_id: bill.id,
+        .map((item, index) => ({
           product_id: item.product_id,
           description: item.description,
           quantity: item.quantity,
           unit_price: item.unit_price,
-          amount: item.quantity * item.unit_price
-        }));
-
-      if (itemsToInsert.length > 0) {
-        const { error: itemsError } = await supabase.from("bill_items").insert(itemsToInsert);
-        if (itemsError) throw itemsError;
-
-        for (const item of itemsToInsert) {
-          if (item.product_id) {
-            const product = products.find((p) => p.id === item.product_id);
-            if (product) {
-              await supabase.from("products").update({
-                quantity: product.quantity + item.quantity
-              }).eq("id", item.product_id);
-            }
-          }
-        }
-      }
+          discount_type: item.discount_type,
+          discount_value: item.discount_value,
+          discount_amount: lines[index].discount_amount,
+          hsn_code: item.hsn_code,
+          tax_rate: lines[index].tax_rate,
+          cgst: lines[index].cgst,
+          sgst: lines[index].sgst,
+          igst: lines[index].igst
+        }))
+        .filter((item) => item.description && item.quantity > 0 && item.unit_price > 0);
+
+      // Bill, items and stock increase are written in one transaction;
+      // the bill number comes from the numbering sequence
+      const { error: billError } = await supabase.rpc("create_purchase_bill", {
+        p_bill: {
+          supplier_id: supplierId,
+          customer_name: data.customer_name,
+          customer_email: data.customer_email || null,
+          bill_date: data.bill_date,
+          due_date: data.due_date || null,
+          notes: data.notes || null,
+          // Goods are received here, so the place of supply is our own state
+          place_of_supply: companyState,
+          currency_code: currencyCode,
+          exchange_rate: currencyCode === settings.currency_code ? 1 : exchangeRate,
+          subtotal,
+          discount_type: discountType,
+          discount_value: discountValue,
+          discount_amount,
+          round_off,
+          tax,
+          total
+        },
+        p_items: itemsToInsert
+      });
+
+      if (billError) throw billError;
 
       toast.success("Bill created successfully");
       navigate("/bills");
@@ -255,7 +337,7 @@ const BillCreate = () => {
     }
   };
 
-  const { subtotal, tax, total } = calculateTotals();
+  const { lines, subtotal, discount_amount, cgst, sgst, igst, tax, round_off, total } = calculateTotals();
   const itemCount = items.filter((i) => i.product_id).length;
 
   return (
@@ -289,7 +371,19 @@ const BillCreate = () => {
                   <FormItem>
                     <FormLabel className="text-xs md:text-sm">Supplier *</FormLabel>
                     <FormControl>
-                      <Input {...field} placeholder="Name" className="h-9 text-sm" />
+                      <SupplierPicker
+                        supplierId={supplierId}
+                        supplierName={field.value}
+                        placeholder="Select supplier"
+                        className="h-9 text-sm"
+                        onSelect={(supplier) => {
+                          setSupplierId(supplier?.id || null);
+                          field.onChange(supplier?.name || "");
+                          form.setValue("customer_email", supplier?.email || "");
+                          form.setValue("customer_phone", supplier?.phone || "");
+                          if (supplier?.state_code) setSupplierState(supplier.state_code);
+                        }}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -304,6 +398,26 @@ const BillCreate = () => {
                   </FormItem>
                 } />
               </div>
+              <div className="grid grid-cols-2 gap-2 md:gap-3">
+                <FormField control={form.control} name="due_date" render={({ field }) =>
+                  <FormItem>
+                    <FormLabel className="text-xs md:text-sm">Due Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="date"
+                        min={billDate}
+                        className="h-9 text-sm"
+                        onChange={(e) => {
+                          field.onChange(e);
+                          setDueDateEdited(!!e.target.value);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                } />
+              </div>
               <div className="grid grid-cols-2 gap-2 md:gap-3">
                 <FormField control={form.control} name="customer_email" render={({ field }) =>
                   <FormItem>
@@ -324,6 +438,15 @@ const BillCreate = () => {
                   </FormItem>
                 } />
               </div>
+              <DocumentCurrencyFields
+                table="bills"
+                currencyCode={currencyCode}
+                exchangeRate={exchangeRate}
+                onChange={(code, rate) => {
+                  setCurrencyCode(code);
+                  setExchangeRate(rate);
+                }}
+              />
             </CardContent>
           </Card>
 
@@ -375,9 +498,23 @@ const BillCreate = () => {
                       <div key={actualIndex} className="flex items-center gap-2 p-2 bg-muted/30 rounded-lg border">
                         <div className="flex-1 min-w-0">
                           <p className="font-medium text-sm truncate">{item.description}</p>
-                          <p className="text-[10px] text-muted-foreground">
-                            {cs}{item.unit_price}/unit
-                          </p>
+                          <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                            <span>{dcs}{item.unit_price}/unit</span>
+                            {taxEnabled && (
+                              <>
+                                <span>·</span>
+                                <Input type="number" aria-label={`${settings.tax_name} rate`} value={item.tax_rate}
+                                  onChange={(e) => updateItem(actualIndex, "tax_rate", Number(e.target.value))}
+                                  className="w-10 h-5 text-center text-[10px] px-0" min={0} max={100} step={0.25} />
+                                <span>%</span>
+                              </>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1 text-[10px] text-muted-foreground mt-1">
+                            <span>Disc</span>
+                            <DiscountInput type={item.discount_type} value={item.discount_value}
+                              onChange={(type, value) => updateItemDiscount(actualIndex, type, value)} />
+                          </div>
                         </div>
                         <div className="flex items-center gap-1">
                           <Button type="button" variant="outline" size="icon" className="h-7 w-7"
@@ -390,9 +527,16 @@ const BillCreate = () => {
                             <Plus className="h-3 w-3" />
                           </Button>
                         </div>
-                        <p className="font-semibold text-sm w-14 text-right">
-                          {cs}{(item.quantity * item.unit_price).toLocaleString("en-IN", { maximumFractionDigits: 0 })}
-                        </p>
+                        <div className="w-14 text-right">
+                          <p className="font-semibold text-sm">
+                            {dcs}{lines[actualIndex].amount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}
+                          </p>
+                          {lines[actualIndex].discount_amount > 0 && (
+                            <p className="text-[10px] text-muted-foreground line-through">
+                              {dcs}{lines[actualIndex].gross.toLocaleString("en-IN", { maximumFractionDigits: 0 })}
+                            </p>
+                          )}
+                        </div>
                         <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-destructive"
                           onClick={() => removeItem(actualIndex)}>
                           <Trash2 className="h-3 w-3" />
@@ -407,28 +551,75 @@ const BillCreate = () => {
               <div className="border-t pt-3 mt-3 space-y-2">
                 <div className="flex justify-between text-xs md:text-sm">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span>{cs}{subtotal.toFixed(2)}</span>
+                  <span>{dcs}{subtotal.toFixed(2)}</span>
                 </div>
-                <div className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/50">
+                <div className="flex items-center justify-between gap-2 text-xs md:text-sm">
                   <div className="flex items-center gap-2">
-                    <Switch id="tax-toggle-bill" checked={taxEnabled} onCheckedChange={setTaxEnabled} />
-                    <Label htmlFor="tax-toggle-bill" className="text-xs md:text-sm text-muted-foreground">
-                      {settings.tax_name}
-                    </Label>
+                    <span className="text-muted-foreground">Discount</span>
+                    <DiscountInput type={discountType} value={discountValue}
+                      onChange={(type, value) => { setDiscountType(type); setDiscountValue(value); }} />
                   </div>
-                  {taxEnabled && (
-                    <div className="flex items-center gap-1">
-                      <Input type="number" value={taxRate} onChange={(e) => setTaxRate(Number(e.target.value))}
-                        className="w-12 h-7 text-center text-xs" min={0} max={100} step={0.1} />
-                      <span className="text-xs text-muted-foreground">%</span>
-                      <span className="font-medium text-xs">{cs}{tax.toFixed(2)}</span>
+                  <span>-{dcs}{discount_amount.toFixed(2)}</span>
+                </div>
+                <div className="p-2 rounded-lg bg-muted/50 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Switch id="tax-toggle-bill" checked={taxEnabled} onCheckedChange={setTaxEnabled} />
+                      <Label htmlFor="tax-toggle-bill" className="text-xs md:text-sm text-muted-foreground">
+                        {settings.tax_name}
+                      </Label>
                     </div>
+                    {taxEnabled && <span className="font-medium text-xs">{dcs}{tax.toFixed(2)}</span>}
+                  </div>
+                  {taxEnabled && (
+                    <>
+                      <div className="flex items-center justify-between gap-2">
+                        <Label className="text-xs text-muted-foreground">Supplier State</Label>
+                        <Select value={supplierState} onValueChange={setSupplierState}>
+                          <SelectTrigger className="h-7 w-40 md:w-56 text-xs"><SelectValue placeholder="Select state" /></SelectTrigger>
+                          <SelectContent>
+                            {gstStates.map((state) => (
+                              <SelectItem key={state.code} value={state.code}>{state.code} - {state.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {interState ? (
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>IGST</span>
+                          <span>{dcs}{igst.toFixed(2)}</span>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>CGST</span>
+                            <span>{dcs}{cgst.toFixed(2)}</span>
+                          </div>
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>SGST</span>
+                            <span>{dcs}{sgst.toFixed(2)}</span>
+                          </div>
+                        </>
+                      )}
+                    </>
                   )}
                 </div>
+                <div className="flex items-center justify-between gap-2 text-xs md:text-sm">
+                  <div className="flex items-center gap-2">
+                    <Switch id="round-off-toggle-bill" checked={roundOff} onCheckedChange={setRoundOff} />
+                    <Label htmlFor="round-off-toggle-bill" className="text-xs md:text-sm text-muted-foreground">
+                      Round off
+                    </Label>
+                  </div>
+                  {roundOff && <span>{round_off >= 0 ? "+" : "-"}{dcs}{Math.abs(round_off).toFixed(2)}</span>}
+                </div>
                 <div className="flex justify-between text-sm md:text-lg font-bold pt-1 border-t">
                   <span>Total</span>
-                  <span className="text-primary">{cs}{total.toFixed(2)}</span>
+                  <span className="text-primary">{dcs}{total.toFixed(2)}</span>
                 </div>
+                {currencyCode !== settings.currency_code && exchangeRate > 0 && <p className="text-right text-[10px] md:text-xs text-muted-foreground">
+                    {cs}{(total * exchangeRate).toFixed(2)} at {exchangeRate} {settings.currency_code}/{currencyCode}
+                  </p>}
               </div>
             </CardContent>
           </Card>
@@ -457,7 +648,7 @@ const BillCreate = () => {
               {itemCount > 0 && (
                 <div className="flex-1 min-w-0 md:hidden">
                   <p className="text-xs text-muted-foreground">{itemCount} items</p>
-                  <p className="text-sm font-bold text-primary">{cs}{total.toFixed(2)}</p>
+                  <p className="text-sm font-bold text-primary">{dcs}{total.toFixed(2)}</p>
                 </div>
               )}
               <Button type="button" variant="outline" onClick={() => navigate("/bills")}
@@ -539,7 +730,7 @@ const BillCreate = () => {
             </div>
           </div>
           <div className="border-t p-3 flex items-center justify-between">
-            <p className="text-sm text-muted-foreground">{itemCount} items • {cs}{total.toFixed(2)}</p>
+            <p className="text-sm text-muted-foreground">{itemCount} items • {dcs}{total.toFixed(2)}</p>
             <Button type="button" size="sm" onClick={() => setShowProductPicker(false)}>
               Done
             </Button>
@@ -6,13 +6,24 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Printer, Share2, Receipt, IndianRupee, XCircle, CheckCircle, Download, Trash2 } from "lucide-react";
+import { Plus, Printer, Share2, Receipt, IndianRupee, XCircle, CheckCircle, Download, Trash2, Undo2, Mail } from "lucide-react";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage } from "@/lib/errorUtils";
 import { useNavigate } from "react-router-dom";
 import { CompanyBranding } from "@/components/CompanyBranding";
 import { DocumentFilters, FilterState } from "@/components/DocumentFilters";
 import { SwipeableCard } from "@/components/SwipeableCard";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { CreditNoteDialog, CreditableDocument } from "@/components/CreditNoteDialog";
+import { SendDocumentDialog } from "@/components/SendDocumentDialog";
+import { DocumentEmailLog } from "@/components/DocumentEmailLog";
+import { GstSummary } from "@/components/GstSummary";
+import { useSettings } from "@/contexts/SettingsContext";
+import { currencySymbol, toBase } from "@/lib/currency";
+import { useDocumentPdf } from "@/hooks/useDocumentPdf";
+import { PdfDocument } from "@/lib/documentPdf";
+import { RecordPaymentDialog } from "@/components/RecordPaymentDialog";
+import { paymentModes } from "@/lib/payments";
 
 type Bill = {
   id: string;
@@ -26,14 +37,42 @@ type Bill = {
   notes: string | null;
   status?: string;
   client_id: string | null;
+  place_of_supply: string | null;
+  discount_amount: number;
+  round_off: number;
+  currency_code: string;
+  exchange_rate: number;
+  // Sale bills are settled at the counter; purchase bills are paid to the supplier later
+  bill_type: string;
+  due_date: string | null;
+  amount_paid: number;
+  balance_due: number;
+};
+
+type BillPayment = {
+  id: string;
+  amount: number;
+  payment_date: string;
+  mode: string;
+  reference: string | null;
+  notes: string | null;
+  exchange_rate: number;
+  exchange_gain_loss: number;
 };
 
 type BillItem = {
   id: string;
+  product_id: string | null;
   description: string;
   quantity: number;
   unit_price: number;
   amount: number;
+  discount_amount: number;
+  hsn_code: string | null;
+  tax_rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
 };
 
 const billStatusOptions = [
@@ -46,7 +85,12 @@ const Bills = () => {
   const [filteredBills, setFilteredBills] = useState<Bill[]>([]);
   const [selectedBill, setSelectedBill] = useState<Bill | null>(null);
   const [billItems, setBillItems] = useState<BillItem[]>([]);
+  const [payments, setPayments] = useState<BillPayment[]>([]);
+  const [paymentBill, setPaymentBill] = useState<Bill | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [creditSource, setCreditSource] = useState<CreditableDocument | null>(null);
+  const [emailBill, setEmailBill] = useState<Bill | null>(null);
+  const [emailLogKey, setEmailLogKey] = useState(0);
   const [filters, setFilters] = useState<FilterState>({
     dateFrom: "",
     dateTo: "",
@@ -55,6 +99,11 @@ const Bills = () => {
   });
   const navigate = useNavigate();
   const isMobile = useIsMobile();
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  // Printed and shared documents use the bill's own currency
+  const dcs = currencySymbol(selectedBill?.currency_code);
+  const { generating: pdfGenerating, downloadPdf, printPdf, sharePdf } = useDocumentPdf();
 
   const fetchBills = async () => {
     const { data, error } = await supabase
@@ -117,67 +166,65 @@ const Bills = () => {
     }
   };
 
+  const fetchPayments = async (billId: string) => {
+    const { data, error } = await supabase
+      .from("bill_payments")
+      .select("id, amount, payment_date, mode, reference, notes, exchange_rate, exchange_gain_loss")
+      .eq("bill_id", billId)
+      .order("payment_date", { ascending: true });
+
+    if (error) {
+      toast.error("Error fetching payments");
+    } else {
+      setPayments(data || []);
+    }
+  };
+
   const handleBillClick = async (bill: Bill) => {
     setSelectedBill(bill);
-    await fetchBillItems(bill.id);
+    setPayments([]);
+    await Promise.all([fetchBillItems(bill.id), bill.bill_type === "purchase" && fetchPayments(bill.id)]);
     setIsDialogOpen(true);
   };
 
-  const restoreStock = async (billId: string) => {
-    const { data: items, error: itemsError } = await supabase
-      .from("bill_items")
-      .select("product_id, quantity")
-      .eq("bill_id", billId);
+  const handlePaymentRecorded = async () => {
+    if (!selectedBill || !isDialogOpen) return;
+    const { data } = await supabase.from("bills").select("*").eq("id", selectedBill.id).single();
+    if (data) setSelectedBill(data);
+    fetchPayments(selectedBill.id);
+  };
 
-    if (itemsError) {
-      if (import.meta.env.DEV) {
-        console.error("Failed to fetch bill items for stock restoration:", itemsError);
-      }
-      return false;
-    }
+  const handleDeletePayment = async (paymentId: string) => {
+    const { error } = await supabase.from("bill_payments").delete().eq("id", paymentId);
 
-    for (const item of items || []) {
-      if (item.product_id) {
-        const { data: product, error: productError } = await supabase
-          .from("products")
-          .select("quantity")
-          .eq("id", item.product_id)
-          .maybeSingle();
-
-        if (productError || !product) {
-          if (import.meta.env.DEV) {
-            console.error("Failed to fetch product:", productError);
-          }
-          continue;
-        }
-
-        const { error: updateError } = await supabase
-          .from("products")
-          .update({ quantity: product.quantity + item.quantity })
-          .eq("id", item.product_id);
-
-        if (updateError) {
-          if (import.meta.env.DEV) {
-            console.error("Failed to restore product quantity:", updateError);
-          }
-        }
-      }
+    if (error) {
+      toast.error("Failed to delete payment");
+    } else {
+      toast.deleted("Payment deleted");
+      handlePaymentRecorded();
     }
-
-    return true;
   };
 
+  const today = new Date().toISOString().split("T")[0];
+  const isOverdue = (bill: Bill) => bill.balance_due > 0 && !!bill.due_date && bill.due_date < today;
+
   const handleStatusChange = async (billId: string, newStatus: string, currentStatus: string | undefined) => {
     if (newStatus === "cancelled" && currentStatus !== "cancelled") {
-      const restored = await restoreStock(billId);
-      if (restored) {
-        toast.success("Stock quantities have been restored");
+      // Cancelling reverses the bill's stock change, so it goes through the RPC to stay atomic
+      const { error } = await supabase.rpc("cancel_bill", { p_bill_id: billId });
+
+      if (error) {
+        toast.error(getSafeErrorMessage(error, "Failed to cancel bill"));
+      } else {
+        const isPurchase = bills.find((b) => b.id === billId)?.bill_type === "purchase";
+        toast.success(isPurchase ? "Bill cancelled and stock removed" : "Bill cancelled and stock restored");
       }
+      return;
     }
 
     const { error } = await supabase
       .from("bills")
-      .update({ status: newStatus } as any)
+      .update({ status: newStatus })
       .eq("id", billId);
 
     if (error) {
@@ -188,28 +235,11 @@ const Bills = () => {
   };
 
   const handleDeleteBill = async (billId: string) => {
-    const bill = bills.find(b => b.id === billId);
-    if (bill && bill.status !== "cancelled") {
-      await restoreStock(billId);
-    }
-
-    const { error: itemsError } = await supabase
-      .from("bill_items")
-      .delete()
-      .eq("bill_id", billId);
-
-    if (itemsError) {
-      toast.error("Failed to delete bill items");
-      return;
-    }
-
-    const { error } = await supabase
-      .from("bills")
-      .delete()
-      .eq("id", billId);
+    // Reverses the stock change (unless already cancelled) and deletes the bill with its items
+    const { error } = await supabase.rpc("delete_bill", { p_bill_id: billId });
 
     if (error) {
-      toast.error("Failed to delete bill");
+      toast.error(getSafeErrorMessage(error, "Failed to delete bill"));
     } else {
       toast.deleted("Bill deleted successfully");
     }
@@ -239,25 +269,52 @@ const Bills = () => {
     );
   };
 
-  const handlePrint = () => {
+  const buildBillPdf = (bill: Bill): PdfDocument => ({
+    type: "bill",
+    title: "BILL",
+    number: bill.bill_number,
+    partyLabel: "Bill To",
+    partyName: bill.customer_name,
+    partyDetails: [bill.customer_email],
+    details: [
+      { label: "Date", value: new Date(bill.bill_date).toLocaleDateString('en-IN') },
+      ...(bill.bill_type === "purchase" && bill.due_date ? [{ label: "Due Date", value: new Date(bill.due_date).toLocaleDateString('en-IN') }] : []),
+      ...(bill.currency_code !== settings.currency_code ? [{ label: "Exchange Rate", value: `1 ${bill.currency_code} = ${bill.exchange_rate} ${settings.currency_code}` }] : []),
+      ...(bill.status === "cancelled" ? [{ label: "Status", value: "Cancelled" }] : []),
+    ],
+    currencyCode: bill.currency_code,
+    items: billItems,
+    taxLines: billItems,
+    placeOfSupply: bill.place_of_supply,
+    documentDiscount: bill.discount_amount,
+    totals: [
+      { label: "Subtotal", amount: bill.subtotal },
+      ...(bill.discount_amount > 0 ? [{ label: "Discount", amount: -bill.discount_amount }] : []),
+      { label: settings.tax_name || "Tax", amount: bill.tax },
+      ...(bill.round_off !== 0 ? [{ label: "Round off", amount: bill.round_off }] : []),
+      { label: "Total", amount: bill.total, emphasis: true },
+    ],
+    notes: bill.notes,
+  });
+
+  const handleSavePDF = () => {
     if (!selectedBill) {
-      toast.error("No bill selected to print");
+      toast.error("No bill selected");
       return;
     }
-    setTimeout(() => {
-      window.print();
-    }, 100);
+    downloadPdf(buildBillPdf(selectedBill), { table: "bills", id: selectedBill.id });
   };
-  const handleSavePDF = () => {
+
+  // Printing goes through the PDF so it follows the bill template
+  const handlePrint = () => {
     if (!selectedBill) {
-      toast.error("No bill selected");
+      toast.error("No bill selected to print");
       return;
     }
-    toast.info("Select 'Save as PDF' as the printer destination");
-    setTimeout(() => window.print(), 300);
+    printPdf(buildBillPdf(selectedBill), { table: "bills", id: selectedBill.id });
   };
 
-  const handleWhatsAppShare = () => {
+  const handleWhatsAppShare = async () => {
     if (!selectedBill) {
       toast.error("No bill selected to share");
       return;
@@ -265,7 +322,7 @@ const Bills = () => {
     
     // Build items list
     const itemsList = billItems.map((item, index) => 
-      `${index + 1}. ${item.description} (${item.quantity} x ₹${item.unit_price.toFixed(2)}) = ₹${item.amount.toFixed(2)}`
+      `${index + 1}. ${item.description} (${item.quantity} x ${dcs}${item.unit_price.toFixed(2)}${item.discount_amount > 0 ? ` - ${dcs}${item.discount_amount.toFixed(2)}` : ''}) = ${dcs}${item.amount.toFixed(2)}`
     ).join('\n');
     
     const message = `*BILL: ${selectedBill.bill_number}*
@@ -278,18 +335,22 @@ ${selectedBill.customer_email ? `📧 Email: ${selectedBill.customer_email}` : '
 ${itemsList}
 
 ━━━━━━━━━━━━━━━
-💰 *Subtotal:* ₹${selectedBill.subtotal.toFixed(2)}
-📊 *Tax:* ₹${selectedBill.tax.toFixed(2)}
-*Total:* ₹${selectedBill.total.toFixed(2)}
+💰 *Subtotal:* ${dcs}${selectedBill.subtotal.toFixed(2)}
+${selectedBill.discount_amount > 0 ? `🏷️ *Discount:* -${dcs}${selectedBill.discount_amount.toFixed(2)}\n` : ''}📊 *Tax:* ${dcs}${selectedBill.tax.toFixed(2)}
+${selectedBill.round_off !== 0 ? `Round off: ${dcs}${selectedBill.round_off.toFixed(2)}\n` : ''}*Total:* ${dcs}${selectedBill.total.toFixed(2)}
 ━━━━━━━━━━━━━━━
 ${selectedBill.notes ? `\n📝 Notes: ${selectedBill.notes}` : ''}
 
 Thank you for your business! 🙏`;
     
+    // Share the PDF itself where the device allows, otherwise link to the stored copy
+    const { shared, link } = await sharePdf(buildBillPdf(selectedBill), { table: "bills", id: selectedBill.id }, message);
+    if (shared) return;
+
     // Detect mobile device
     const isMobileDevice = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
     
-    const encodedMessage = encodeURIComponent(message);
+    const encodedMessage = encodeURIComponent(link ? `${message}\n\n📄 PDF: ${link}` : message);
     
     if (isMobileDevice) {
       // Use WhatsApp app protocol for mobile
@@ -305,19 +366,28 @@ Thank you for your business! 🙏`;
   // Calculate summary stats from filtered bills
   const totalBills = filteredBills.length;
   const activeBills = filteredBills.filter(b => (b.status || "active") === "active");
-  const totalAmount = activeBills.reduce((sum, b) => sum + b.total, 0);
+  const totalAmount = activeBills.reduce((sum, b) => sum + toBase(b.total, b.exchange_rate), 0);
 
   const handleCSVExport = () => {
-    const headers = ['Bill #', 'Customer', 'Email', 'Date', 'Status', 'Subtotal', 'Tax', 'Total'];
+    const headers = ['Bill #', 'Type', 'Customer', 'Email', 'Date', 'Due Date', 'Status', 'Currency', 'Exchange Rate', 'Subtotal', 'Discount', 'Tax', 'Round Off', 'Total', `Total (${settings.currency_code})`, 'Paid', 'Balance Due'];
     const rows = filteredBills.map(bill => [
       bill.bill_number,
+      bill.bill_type,
       bill.customer_name,
       bill.customer_email || '',
       bill.bill_date,
+      bill.due_date || '',
       bill.status || 'active',
+      bill.currency_code,
+      bill.exchange_rate,
       bill.subtotal.toFixed(2),
+      bill.discount_amount.toFixed(2),
       bill.tax.toFixed(2),
-      bill.total.toFixed(2)
+      bill.round_off.toFixed(2),
+      bill.total.toFixed(2),
+      toBase(bill.total, bill.exchange_rate).toFixed(2),
+      bill.bill_type === "purchase" ? bill.amount_paid.toFixed(2) : '',
+      bill.bill_type === "purchase" ? bill.balance_due.toFixed(2) : ''
     ]);
     
     const dateRange = filters.dateFrom || filters.dateTo 
@@ -402,7 +472,7 @@ Thank you for your business! 🙏`;
           <CardContent className="p-2 md:p-6">
             <div className="text-center">
               <p className="text-[10px] md:text-sm text-muted-foreground truncate">Amount</p>
-              <p className="text-sm md:text-2xl font-bold text-warning">₹{totalAmount >= 1000 ? `${(totalAmount / 1000).toFixed(0)}k` : totalAmount.toFixed(0)}</p>
+              <p className="text-sm md:text-2xl font-bold text-warning">{cs}{totalAmount >= 1000 ? `${(totalAmount / 1000).toFixed(0)}k` : totalAmount.toFixed(0)}</p>
             </div>
           </CardContent>
         </Card>
@@ -432,7 +502,14 @@ Thank you for your business! 🙏`;
                     </div>
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
-                    <p className="text-base font-bold">₹{bill.total.toLocaleString('en-IN', { maximumFractionDigits: 0 })}</p>
+                    <div className="text-right">
+                      <p className="text-base font-bold">{currencySymbol(bill.currency_code)}{bill.total.toLocaleString('en-IN', { maximumFractionDigits: 0 })}</p>
+                      {bill.balance_due > 0 && (
+                        <p className={`text-[10px] ${isOverdue(bill) ? "text-destructive" : "text-warning"}`}>
+                          {isOverdue(bill) ? "Overdue" : "Unpaid"} {currencySymbol(bill.currency_code)}{bill.balance_due.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+                        </p>
+                      )}
+                    </div>
                     {getStatusBadge(bill.status)}
                   </div>
                 </div>
@@ -499,6 +576,7 @@ Thank you for your business! 🙏`;
                   <TableHead className="font-semibold">Bill #</TableHead>
                   <TableHead className="font-semibold">Customer</TableHead>
                   <TableHead className="font-semibold">Date</TableHead>
+                  <TableHead className="font-semibold">Due</TableHead>
                   <TableHead className="font-semibold">Status</TableHead>
                   <TableHead className="font-semibold text-right">Amount</TableHead>
                   <TableHead className="font-semibold">Actions</TableHead>
@@ -516,6 +594,9 @@ Thank you for your business! 🙏`;
                     <TableCell className="font-medium text-primary">{bill.bill_number}</TableCell>
                     <TableCell>{bill.customer_name}</TableCell>
                     <TableCell>{new Date(bill.bill_date).toLocaleDateString()}</TableCell>
+                    <TableCell className={isOverdue(bill) ? "text-destructive font-medium" : ""}>
+                      {bill.bill_type === "purchase" && bill.due_date ? new Date(bill.due_date).toLocaleDateString() : "-"}
+                    </TableCell>
                     <TableCell onClick={(e) => e.stopPropagation()}>
                       <Select
                         value={bill.status || "active"}
@@ -530,7 +611,12 @@ Thank you for your business! 🙏`;
                         </SelectContent>
                       </Select>
                     </TableCell>
-                    <TableCell className="font-semibold text-right">₹{bill.total.toFixed(2)}</TableCell>
+                    <TableCell className="font-semibold text-right">
+                      {currencySymbol(bill.currency_code)}{bill.total.toFixed(2)}
+                      {bill.balance_due > 0 && (
+                        <span className="block text-xs font-normal text-warning">Balance {currencySymbol(bill.currency_code)}{bill.balance_due.toFixed(2)}</span>
+                      )}
+                    </TableCell>
                     <TableCell onClick={(e) => e.stopPropagation()}>
                       <Button
                         variant="ghost"
@@ -569,24 +655,49 @@ Thank you for your business! 🙏`;
                   </p>
                 </div>
                 <div className="flex gap-2 print:hidden w-full md:w-auto flex-wrap">
-                  <Button onClick={handleSavePDF} variant="outline" size="sm" className="flex-1 md:flex-none border-destructive/20 hover:bg-destructive/10">
+                  <Button onClick={handleSavePDF} disabled={pdfGenerating} variant="outline" size="sm" className="flex-1 md:flex-none border-destructive/20 hover:bg-destructive/10">
                     <Download className="h-4 w-4 mr-1 text-destructive" />
                     PDF
                   </Button>
-                  <Button onClick={handlePrint} variant="outline" size="sm" className="flex-1 md:flex-none border-primary/20 hover:bg-primary/10">
+                  <Button onClick={handlePrint} disabled={pdfGenerating} variant="outline" size="sm" className="flex-1 md:flex-none border-primary/20 hover:bg-primary/10">
                     <Printer className="h-4 w-4 mr-1 text-primary" />
                     Print
                   </Button>
-                  <Button onClick={handleWhatsAppShare} variant="outline" size="sm" className="flex-1 md:flex-none border-success/20 hover:bg-success/10">
+                  <Button onClick={handleWhatsAppShare} disabled={pdfGenerating} variant="outline" size="sm" className="flex-1 md:flex-none border-success/20 hover:bg-success/10">
                     <Share2 className="h-4 w-4 mr-1 text-success" />
                     Share
                   </Button>
+                  <Button onClick={() => setEmailBill(selectedBill)} variant="outline" size="sm" className="flex-1 md:flex-none border-primary/20 hover:bg-primary/10">
+                    <Mail className="h-4 w-4 mr-1 text-primary" />
+                    Email
+                  </Button>
+                  {/* Credit notes are for customer returns, so only on sale bills */}
+                  {selectedBill.status !== "cancelled" && selectedBill.bill_type === "sale" && (
+                    <Button
+                      onClick={() => setCreditSource({
+                        type: "bill",
+                        id: selectedBill.id,
+                        number: selectedBill.bill_number,
+                        customer_name: selectedBill.customer_name,
+                        subtotal: selectedBill.subtotal,
+                        discount_amount: selectedBill.discount_amount,
+                        currency_code: selectedBill.currency_code,
+                        tax: selectedBill.tax,
+                      })}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 md:flex-none border-warning/20 hover:bg-warning/10"
+                    >
+                      <Undo2 className="h-4 w-4 mr-1 text-warning" />
+                      Return
+                    </Button>
+                  )}
                 </div>
               </div>
 
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6 print:gap-4">
                 <div className="p-3 md:p-4 rounded-lg bg-gradient-to-br from-primary/5 to-accent/5">
-                  <h3 className="font-semibold text-primary mb-2 text-sm md:text-base">Bill To:</h3>
+                  <h3 className="font-semibold text-primary mb-2 text-sm md:text-base">{selectedBill.bill_type === "purchase" ? "Supplier:" : "Bill To:"}</h3>
                   <p className="text-foreground font-medium">{selectedBill.customer_name}</p>
                   {selectedBill.customer_email && (
                     <p className="text-muted-foreground text-xs md:text-sm">{selectedBill.customer_email}</p>
@@ -600,6 +711,18 @@ Thank you for your business! 🙏`;
                         {new Date(selectedBill.bill_date).toLocaleDateString()}
                       </span>
                     </p>
+                    {selectedBill.bill_type === "purchase" && selectedBill.due_date && <p className="text-xs md:text-sm">
+                        <span className="text-muted-foreground">Due Date:</span>{" "}
+                        <span className={isOverdue(selectedBill) ? "text-destructive font-medium" : "text-foreground font-medium"}>
+                          {new Date(selectedBill.due_date).toLocaleDateString()}
+                        </span>
+                      </p>}
+                    {selectedBill.currency_code !== settings.currency_code && <p className="text-xs md:text-sm">
+                        <span className="text-muted-foreground">Exchange Rate:</span>{" "}
+                        <span className="text-foreground font-medium">
+                          1 {selectedBill.currency_code} = {selectedBill.exchange_rate} {settings.currency_code}
+                        </span>
+                      </p>}
                     <div className="mt-2">
                       {getStatusBadge(selectedBill.status)}
                     </div>
@@ -620,30 +743,55 @@ Thank you for your business! 🙏`;
                   <TableBody>
                     {billItems.map((item, index) => (
                       <TableRow key={item.id} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
-                        <TableCell className="font-medium text-xs md:text-sm">{item.description}</TableCell>
+                        <TableCell className="font-medium text-xs md:text-sm">
+                          {item.description}
+                          {item.hsn_code && <span className="block text-[10px] text-muted-foreground font-normal">HSN/SAC {item.hsn_code}</span>}
+                            {item.discount_amount > 0 && <span className="block text-[10px] text-muted-foreground font-normal">Less discount {dcs}{item.discount_amount.toFixed(2)}</span>}
+                        </TableCell>
                         <TableCell className="text-right text-xs md:text-sm">{item.quantity}</TableCell>
-                        <TableCell className="text-right text-xs md:text-sm hidden sm:table-cell">₹{item.unit_price.toFixed(2)}</TableCell>
-                        <TableCell className="text-right font-medium text-xs md:text-sm">₹{item.amount.toFixed(2)}</TableCell>
+                        <TableCell className="text-right text-xs md:text-sm hidden sm:table-cell">{dcs}{item.unit_price.toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-medium text-xs md:text-sm">{dcs}{item.amount.toFixed(2)}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
                 </Table>
               </div>
 
-              <div className="flex justify-end">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-3">
+                <div className="w-full sm:w-96">
+                  <GstSummary lines={billItems} placeOfSupply={selectedBill.place_of_supply} documentDiscount={selectedBill.discount_amount} />
+                </div>
                 <div className="w-full sm:w-64 space-y-2 p-3 md:p-4 rounded-lg bg-gradient-to-br from-primary/5 to-success/5">
                   <div className="flex justify-between text-xs md:text-sm">
                     <span className="text-muted-foreground">Subtotal:</span>
-                    <span className="font-medium">₹{selectedBill.subtotal.toFixed(2)}</span>
+                    <span className="font-medium">{dcs}{selectedBill.subtotal.toFixed(2)}</span>
                   </div>
+                  {selectedBill.discount_amount > 0 && <div className="flex justify-between text-xs md:text-sm">
+                      <span className="text-muted-foreground">Discount:</span>
+                      <span className="font-medium">-{dcs}{selectedBill.discount_amount.toFixed(2)}</span>
+                    </div>}
                   <div className="flex justify-between text-xs md:text-sm">
                     <span className="text-muted-foreground">Tax:</span>
-                    <span className="font-medium">₹{selectedBill.tax.toFixed(2)}</span>
+                    <span className="font-medium">{dcs}{selectedBill.tax.toFixed(2)}</span>
                   </div>
+                  {selectedBill.round_off !== 0 && <div className="flex justify-between text-xs md:text-sm">
+                      <span className="text-muted-foreground">Round off:</span>
+                      <span className="font-medium">{dcs}{selectedBill.round_off.toFixed(2)}</span>
+                    </div>}
                   <div className="flex justify-between text-base md:text-lg font-bold pt-2 border-t">
                     <span>Total:</span>
-                    <span className="text-primary">₹{selectedBill.total.toFixed(2)}</span>
+                    <span className="text-primary">{dcs}{selectedBill.total.toFixed(2)}</span>
                   </div>
+                  {selectedBill.bill_type === "purchase" && selectedBill.status !== "cancelled" && <>
+                      <div className="flex justify-between text-xs md:text-sm">
+                        <span className="text-muted-foreground">Paid:</span>
+                        <span className="text-success font-medium">{dcs}{selectedBill.amount_paid.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between text-sm md:text-base font-semibold">
+                        <span>Balance Due:</span>
+                        <span>{dcs}{selectedBill.balance_due.toFixed(2)}</span>
+                      </div>
+                    </>}
                 </div>
               </div>
 
@@ -653,10 +801,94 @@ Thank you for your business! 🙏`;
                   <p className="text-foreground text-xs md:text-sm">{selectedBill.notes}</p>
                 </div>
               )}
+
+              {/* Supplier payments - Hidden on Print */}
+              {selectedBill.bill_type === "purchase" && (
+                <div className="print:hidden space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold text-foreground text-sm md:text-base">Payments</h3>
+                    {selectedBill.status !== "cancelled" && selectedBill.balance_due > 0 && (
+                      <Button size="sm" variant="outline" onClick={() => setPaymentBill(selectedBill)} className="border-success/20 hover:bg-success/10">
+                        <IndianRupee className="h-4 w-4 mr-1 text-success" />
+                        Record Payment
+                      </Button>
+                    )}
+                  </div>
+                  {payments.length === 0 ? (
+                    <p className="text-xs md:text-sm text-muted-foreground">No payments recorded</p>
+                  ) : (
+                    <div className="border rounded-lg divide-y">
+                      {payments.map((payment) => (
+                        <div key={payment.id} className="flex items-center justify-between gap-2 p-2 text-xs md:text-sm">
+                          <div className="min-w-0">
+                            <p className="font-medium">
+                              {new Date(payment.payment_date).toLocaleDateString()} · {paymentModes.find((m) => m.value === payment.mode)?.label || payment.mode}
+                            </p>
+                            {(payment.reference || payment.notes) && <p className="text-muted-foreground truncate">{payment.reference || payment.notes}</p>}
+                            {payment.exchange_gain_loss !== 0 && (
+                              <p className={payment.exchange_gain_loss > 0 ? "text-success" : "text-destructive"}>
+                                At {payment.exchange_rate} · exchange {payment.exchange_gain_loss > 0 ? "gain" : "loss"} {cs}{Math.abs(payment.exchange_gain_loss).toFixed(2)}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            <span className="font-semibold text-success">{dcs}{payment.amount.toFixed(2)}</span>
+                            <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive hover:text-destructive" onClick={() => handleDeletePayment(payment.id)}>
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="print:hidden space-y-2">
+                <h3 className="font-semibold text-foreground text-sm md:text-base">Emails</h3>
+                <DocumentEmailLog documentType="bill" documentId={selectedBill.id} refreshKey={emailLogKey} />
+              </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
+
+      <RecordPaymentDialog
+        document={paymentBill && {
+          type: "bill",
+          id: paymentBill.id,
+          number: paymentBill.bill_number,
+          party_name: paymentBill.customer_name,
+          balance_due: paymentBill.balance_due,
+          currency_code: paymentBill.currency_code,
+          exchange_rate: paymentBill.exchange_rate,
+        }}
+        open={!!paymentBill}
+        onOpenChange={(open) => !open && setPaymentBill(null)}
+        onRecorded={handlePaymentRecorded}
+      />
+
+      <CreditNoteDialog
+        source={creditSource}
+        open={!!creditSource}
+        onOpenChange={(open) => !open && setCreditSource(null)}
+      />
+
+      <SendDocumentDialog
+        document={emailBill && {
+          type: "bill",
+          id: emailBill.id,
+          number: emailBill.bill_number,
+          customer_name: emailBill.customer_name,
+          customer_email: emailBill.customer_email,
+          total: emailBill.total,
+          currency_code: emailBill.currency_code,
+        }}
+        pdf={emailBill && buildBillPdf(emailBill)}
+        open={!!emailBill}
+        onOpenChange={(open) => !open && setEmailBill(null)}
+        onSent={() => setEmailLogKey((key) => key + 1)}
+      />
     </div>
   );
 };
@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, FileSpreadsheet, Loader2, ScrollText, Send } from "lucide-react";
+import { format } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { currencySymbol } from "@/lib/currency";
+import { Statement, StatementClient, loadStatement, loadStatementCurrencies, statementEntryLabels } from "@/lib/statement";
+import { renderStatementPdf, statementDate, statementFileName } from "@/lib/statementPdf";
+import { documentPdfLink, downloadBlob, loadPdfCompany, shareFile, uploadPdf } from "@/lib/documentPdf";
+
+// Statements run from the start of the financial year (April) by default
+const financialYearStart = (today: Date) =>
+  format(new Date(today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1, 3, 1), "yyyy-MM-dd");
+
+const ClientStatement = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const [client, setClient] = useState<StatementClient | null>(null);
+  const [currencies, setCurrencies] = useState<string[]>([]);
+  const [currencyCode, setCurrencyCode] = useState("");
+  const [from, setFrom] = useState(() => financialYearStart(new Date()));
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    const fetchClient = async () => {
+      const [{ data, error }, codes] = await Promise.all([
+        supabase.from("clients").select("id, name, email, phone, address").eq("id", id).single(),
+        loadStatementCurrencies(id).catch((e) => {
+          logErrorInDev("LoadStatementCurrencies", e);
+          return [] as string[];
+        }),
+      ]);
+      if (error || !data) {
+        toast.error("Client not found");
+        navigate("/clients");
+        return;
+      }
+      setClient(data);
+      setCurrencies(codes);
+      setCurrencyCode(codes.includes(settings.currency_code) || codes.length === 0 ? settings.currency_code : codes[0]);
+    };
+    fetchClient();
+  }, [id]);
+
+  useEffect(() => {
+    if (!client || !currencyCode || !from || !to) return;
+    if (from > to) {
+      toast.error("The start date must be before the end date");
+      return;
+    }
+    let stale = false;
+    setLoading(true);
+    loadStatement(client, currencyCode, from, to)
+      .then((result) => {
+        if (!stale) setStatement(result);
+      })
+      .catch((error) => {
+        logErrorInDev("LoadStatement", error);
+        toast.error(getSafeErrorMessage(error, "Failed to load statement"));
+      })
+      .finally(() => {
+        if (!stale) setLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [client, currencyCode, from, to]);
+
+  const cs = currencySymbol(currencyCode);
+  const money = (amount: number) => `${cs}${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const handleCSVExport = () => {
+    if (!statement) return;
+    const headers = ['Date', 'Type', 'Reference', 'Details', `Debit (${statement.currencyCode})`, `Credit (${statement.currencyCode})`, `Balance (${statement.currencyCode})`];
+    const rows = [
+      [statement.from, '', '', 'Opening balance', '', '', statement.openingBalance.toFixed(2)],
+      ...statement.entries.map((entry) => [
+        entry.date,
+        statementEntryLabels[entry.type],
+        entry.reference,
+        entry.description,
+        entry.debit ? entry.debit.toFixed(2) : '',
+        entry.credit ? entry.credit.toFixed(2) : '',
+        entry.balance.toFixed(2)
+      ]),
+      [statement.to, '', '', 'Closing balance', statement.totalDebit.toFixed(2), statement.totalCredit.toFixed(2), statement.closingBalance.toFixed(2)]
+    ];
+
+    const csvContent = [
+      `Statement of Account: ${statement.client.name}, ${statement.from} to ${statement.to}`,
+      headers.join(','),
+      ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), statementFileName(statement).replace(/\.pdf$/, '.csv'));
+    toast.success('Statement exported to CSV');
+  };
+
+  const buildPdf = async () => {
+    if (!statement) return null;
+    const company = await loadPdfCompany();
+    return renderStatementPdf(statement, company, settings.pdf_page_size);
+  };
+
+  const handlePdfDownload = async () => {
+    if (!statement) return;
+    setExporting(true);
+    try {
+      const blob = await buildPdf();
+      if (!blob) return;
+      downloadBlob(blob, statementFileName(statement));
+      toast.success(`${statementFileName(statement)} downloaded`);
+    } catch (error) {
+      logErrorInDev("StatementPdf", error);
+      toast.error(getSafeErrorMessage(error, "Failed to generate PDF"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleWhatsAppShare = async () => {
+    if (!statement) return;
+    setExporting(true);
+    try {
+      const blob = await buildPdf();
+      if (!blob) return;
+      const fileName = statementFileName(statement);
+      const msg =
+        `Dear ${statement.client.name},\n\n` +
+        `Here is your statement of account from ${statementDate(statement.from)} to ${statementDate(statement.to)}.\n` +
+        `Balance due: ${statement.currencyCode} ${statement.closingBalance.toFixed(2)}`;
+      const phone = statement.client.phone?.replace(/\D/g, "");
+
+      // With no number to open a chat for, let the device share the file itself
+      if (!phone && (await shareFile(blob, fileName, msg))) return;
+
+      // A chat opened for a number carries text only, so link to the PDF
+      const path = await uploadPdf("statements", statement.client.id, blob);
+      const link = await documentPdfLink(path);
+      const text = link ? `${msg}\n\n📄 PDF: ${link}` : msg;
+      const full = phone ? (phone.startsWith("91") ? phone : `91${phone}`) : "";
+      window.open(`https://wa.me/${full}?text=${encodeURIComponent(text)}`, "_blank");
+    } catch (error) {
+      logErrorInDev("ShareStatement", error);
+      toast.error(getSafeErrorMessage(error, "Failed to share statement"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (!client) {
+    return (
+      <div className="p-4 md:p-8 flex items-center justify-center min-h-[50vh]">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/clients")} className="flex-shrink-0">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-xl md:text-2xl font-bold text-foreground truncate">{client.name}</h1>
+            <p className="text-xs md:text-sm text-muted-foreground">Statement of account</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleCSVExport} disabled={!statement}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" /> CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={handlePdfDownload} disabled={!statement || exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />} PDF
+          </Button>
+          <Button size="sm" onClick={handleWhatsAppShare} disabled={!statement || exporting} className="bg-[#25D366] hover:bg-[#20BD5A] text-white">
+            <Send className="h-4 w-4 mr-1" /> WhatsApp
+          </Button>
+        </div>
+      </div>
+
+      {/* Period */}
+      <Card>
+        <CardContent className="p-3 md:p-4 grid grid-cols-2 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from" className="text-xs">From</Label>
+            <Input id="statement-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to" className="text-xs">To</Label>
+            <Input id="statement-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          {currencies.length > 1 && (
+            <div className="space-y-1 col-span-2 md:col-span-1">
+              <Label className="text-xs">Currency</Label>
+              <Select value={currencyCode} onValueChange={setCurrencyCode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Summary */}
+      {statement && (
+        <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
+          {[
+            { title: "Opening Balance", value: statement.openingBalance, color: "text-foreground" },
+            { title: "Invoiced", value: statement.totalDebit, color: "text-info" },
+            { title: "Paid & Credited", value: statement.totalCredit, color: "text-success" },
+            { title: "Balance Due", value: statement.closingBalance, color: statement.closingBalance > 0 ? "text-destructive" : "text-success" },
+          ].map((item) => (
+            <Card key={item.title} className="relative overflow-hidden">
+              <div className="absolute top-0 left-0 right-0 h-1" style={{ background: "var(--gradient-primary)" }} />
+              <CardContent className="p-3 md:p-4 pt-4">
+                <span className="text-xs font-medium text-muted-foreground">{item.title}</span>
+                <p className={`text-lg md:text-xl font-bold ${item.color}`}>{money(item.value)}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader className="p-3 md:p-6 pb-2">
+          <CardTitle className="text-sm md:text-base flex items-center gap-2">
+            <ScrollText className="h-4 w-4 text-primary" />
+            Transactions
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 md:p-6 md:pt-0">
+          {loading || !statement ? (
+            <p className="text-center text-muted-foreground py-6 text-sm">Loading...</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30">
+                    <TableHead className="font-semibold">Date</TableHead>
+                    <TableHead className="font-semibold">Type</TableHead>
+                    <TableHead className="font-semibold">Reference</TableHead>
+                    <TableHead className="font-semibold text-right">Debit</TableHead>
+                    <TableHead className="font-semibold text-right">Credit</TableHead>
+                    <TableHead className="font-semibold text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="whitespace-nowrap">{statementDate(statement.from)}</TableCell>
+                    <TableCell colSpan={4} className="text-muted-foreground">Opening balance</TableCell>
+                    <TableCell className="text-right font-medium whitespace-nowrap">{money(statement.openingBalance)}</TableCell>
+                  </TableRow>
+                  {statement.entries.map((entry, index) => (
+                    <TableRow key={`${entry.type}-${entry.reference}-${index}`} className={index % 2 === 0 ? "bg-muted/20" : "bg-card"}>
+                      <TableCell className="whitespace-nowrap">{statementDate(entry.date)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-[10px] whitespace-nowrap">{statementEntryLabels[entry.type]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{entry.reference}</p>
+                        {entry.description && <p className="text-xs text-muted-foreground capitalize">{entry.description}</p>}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{entry.debit ? money(entry.debit) : ""}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap text-success">{entry.credit ? money(entry.credit) : ""}</TableCell>
+                      <TableCell className="text-right font-medium whitespace-nowrap">{money(entry.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {statement.entries.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-6">No transactions in this period</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3} className="font-semibold">Closing balance</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{money(statement.totalDebit)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{money(statement.totalCredit)}</TableCell>
+                    <TableCell className="text-right font-bold whitespace-nowrap">{money(statement.closingBalance)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ClientStatement;
@@ -1,22 +1,28 @@
 import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
-import { Plus, Pencil, Trash2, Users, Search } from "lucide-react";
+import { Plus, Pencil, Trash2, Users, Search, ScrollText } from "lucide-react";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { z } from "zod";
 import { SwipeableCard } from "@/components/SwipeableCard";
+import { gstStates, stateName } from "@/lib/gst";
 
 const clientSchema = z.object({
   name: z.string().min(1, "Name is required").max(200, "Name must be less than 200 characters"),
   email: z.string().email("Invalid email format").max(255).optional().or(z.literal("")),
   phone: z.string().max(20, "Phone must be less than 20 characters").optional().or(z.literal("")),
   address: z.string().max(500, "Address must be less than 500 characters").optional().or(z.literal("")),
+  state_code: z.string().optional().or(z.literal("")),
+  reminders_opt_out: z.boolean(),
 });
 
 interface Client {
@@ -25,10 +31,13 @@ interface Client {
   email: string | null;
   phone: string | null;
   address: string | null;
+  state_code: string | null;
+  reminders_opt_out: boolean;
   created_at: string;
 }
 
 const Clients = () => {
+  const navigate = useNavigate();
   const [clients, setClients] = useState<Client[]>([]);
   const [filteredClients, setFilteredClients] = useState<Client[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -40,6 +49,8 @@ const Clients = () => {
     email: "",
     phone: "",
     address: "",
+    state_code: "",
+    reminders_opt_out: false,
   });
 
   const fetchClients = async () => {
@@ -116,6 +127,8 @@ const Clients = () => {
           email: formData.email || null,
           phone: formData.phone || null,
           address: formData.address || null,
+          state_code: formData.state_code || null,
+          reminders_opt_out: formData.reminders_opt_out,
         })
         .eq("id", editingClient.id);
 
@@ -131,6 +144,8 @@ const Clients = () => {
         email: formData.email || null,
         phone: formData.phone || null,
         address: formData.address || null,
+        state_code: formData.state_code || null,
+        reminders_opt_out: formData.reminders_opt_out,
       });
 
       if (error) {
@@ -151,6 +166,8 @@ const Clients = () => {
       email: client.email || "",
       phone: client.phone || "",
       address: client.address || "",
+      state_code: client.state_code || "",
+      reminders_opt_out: client.reminders_opt_out,
     });
     setIsDialogOpen(true);
   };
@@ -166,7 +183,7 @@ const Clients = () => {
   };
 
   const resetForm = () => {
-    setFormData({ name: "", email: "", phone: "", address: "" });
+    setFormData({ name: "", email: "", phone: "", address: "", state_code: "", reminders_opt_out: false });
     setEditingClient(null);
     setFormErrors({});
   };
@@ -240,6 +257,30 @@ const Clients = () => {
                 />
                 {formErrors.address && <p className="text-xs text-destructive">{formErrors.address}</p>}
               </div>
+              <div className="space-y-2">
+                <Label>State (GST place of supply)</Label>
+                <Select value={formData.state_code} onValueChange={(value) => setFormData({ ...formData, state_code: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gstStates.map((state) => (
+                      <SelectItem key={state.code} value={state.code}>{state.code} - {state.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <Label htmlFor="reminders_opt_out">No payment reminders</Label>
+                  <p className="text-xs text-muted-foreground">Skip automatic reminders for this client's invoices</p>
+                </div>
+                <Switch
+                  id="reminders_opt_out"
+                  checked={formData.reminders_opt_out}
+                  onCheckedChange={(checked) => setFormData({ ...formData, reminders_opt_out: checked })}
+                />
+              </div>
               <Button type="submit" className="w-full gradient-primary text-primary-foreground">
                 {editingClient ? "Update Client" : "Add Client"}
               </Button>
@@ -289,11 +330,22 @@ const Clients = () => {
                     {client.email && client.phone && <span>•</span>}
                     {client.email && <span className="truncate max-w-[140px]">{client.email}</span>}
                   </div>
+                  {client.state_code && (
+                    <p className="text-xs text-muted-foreground mt-1">{stateName(client.state_code)}</p>
+                  )}
                   {client.address && (
                     <p className="text-xs text-muted-foreground mt-1 line-clamp-1">{client.address}</p>
                   )}
                 </div>
                 <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => navigate(`/clients/${client.id}/statement`)}
+                  >
+                    <ScrollText className="h-3.5 w-3.5" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -351,6 +403,15 @@ const Clients = () => {
                   <TableCell className="max-w-xs truncate">{client.address || "-"}</TableCell>
                   <TableCell>
                     <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => navigate(`/clients/${client.id}/statement`)}
+                        className="h-8 w-8"
+                        title="Statement of account"
+                      >
+                        <ScrollText className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Undo2, Download, Printer } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { CompanyBranding } from "@/components/CompanyBranding";
+import { DocumentFilters, FilterState } from "@/components/DocumentFilters";
+import { paymentModes } from "@/lib/payments";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useSettings } from "@/contexts/SettingsContext";
+import { currencySymbol, toBase } from "@/lib/currency";
+
+type CreditNote = {
+  id: string;
+  credit_note_number: string;
+  credit_date: string;
+  customer_name: string;
+  client_id: string | null;
+  reason: string | null;
+  subtotal: number;
+  tax: number;
+  total: number;
+  refund_amount: number;
+  refund_mode: string | null;
+  currency_code: string;
+  exchange_rate: number;
+  invoices: { invoice_number: string } | null;
+  bills: { bill_number: string } | null;
+};
+
+type CreditNoteItem = {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+};
+
+const sourceNumber = (note: CreditNote) => note.invoices?.invoice_number || note.bills?.bill_number || "-";
+
+const CreditNotes = () => {
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [filteredCreditNotes, setFilteredCreditNotes] = useState<CreditNote[]>([]);
+  const [selectedNote, setSelectedNote] = useState<CreditNote | null>(null);
+  const dcs = currencySymbol(selectedNote?.currency_code);
+  const [noteItems, setNoteItems] = useState<CreditNoteItem[]>([]);
+  const [filters, setFilters] = useState<FilterState>({
+    dateFrom: "",
+    dateTo: "",
+    clientId: "",
+    status: "",
+  });
+  const isMobile = useIsMobile();
+
+  const fetchCreditNotes = async () => {
+    const { data, error } = await supabase
+      .from("credit_notes")
+      .select("*, invoices(invoice_number), bills(bill_number)")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Error fetching credit notes");
+    } else {
+      setCreditNotes(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchCreditNotes();
+  }, []);
+
+  useEffect(() => {
+    let result = [...creditNotes];
+
+    if (filters.dateFrom) {
+      result = result.filter(note => note.credit_date >= filters.dateFrom);
+    }
+    if (filters.dateTo) {
+      result = result.filter(note => note.credit_date <= filters.dateTo);
+    }
+    if (filters.clientId) {
+      result = result.filter(note => note.client_id === filters.clientId);
+    }
+
+    setFilteredCreditNotes(result);
+  }, [creditNotes, filters]);
+
+  const handleNoteClick = async (note: CreditNote) => {
+    const { data, error } = await supabase
+      .from("credit_note_items")
+      .select("id, description, quantity, unit_price, amount")
+      .eq("credit_note_id", note.id);
+
+    if (error) {
+      toast.error("Error fetching credit note items");
+      return;
+    }
+    setNoteItems(data || []);
+    setSelectedNote(note);
+  };
+
+  const totalCredited = filteredCreditNotes.reduce((sum, n) => sum + toBase(n.total, n.exchange_rate), 0);
+  const totalRefunded = filteredCreditNotes.reduce((sum, n) => sum + toBase(n.refund_amount, n.exchange_rate), 0);
+
+  const handleCSVExport = () => {
+    const headers = ['Credit Note #', 'Against', 'Customer', 'Date', 'Reason', 'Currency', 'Subtotal', 'Tax', 'Total', 'Refunded'];
+    const rows = filteredCreditNotes.map(note => [
+      note.credit_note_number,
+      sourceNumber(note),
+      note.customer_name,
+      note.credit_date,
+      note.reason || '',
+      note.currency_code,
+      note.subtotal.toFixed(2),
+      note.tax.toFixed(2),
+      note.total.toFixed(2),
+      note.refund_amount.toFixed(2)
+    ]);
+
+    const csvContent = [
+      headers.join(','),
+      ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `credit_notes_${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+    toast.success('Credit notes exported to CSV');
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-8 pb-24 md:pb-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">Credit Notes</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Returns issued from Sales and Bills</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleCSVExport}
+          className="border-success hover:bg-success/10"
+          size={isMobile ? "sm" : "default"}
+        >
+          <Download className="h-4 w-4" />
+          <span className="hidden sm:inline ml-2">Export CSV</span>
+        </Button>
+      </div>
+
+      <DocumentFilters onFiltersChange={setFilters} showClientFilter={true} />
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-3 gap-2 md:gap-4 shadow-md rounded-sm opacity-80 bg-muted">
+        <Card className="border-0 shadow-sm overflow-hidden">
+          <div className="h-1 gradient-primary" />
+          <CardContent className="p-2 md:p-6">
+            <div className="text-center">
+              <p className="text-[10px] md:text-sm text-muted-foreground truncate">Credit Notes</p>
+              <p className="text-sm md:text-2xl font-bold">{filteredCreditNotes.length}</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow-sm overflow-hidden">
+          <div className="h-1 gradient-warm" />
+          <CardContent className="p-2 md:p-6">
+            <div className="text-center">
+              <p className="text-[10px] md:text-sm text-muted-foreground truncate">Credited</p>
+              <p className="text-sm md:text-2xl font-bold text-warning">{cs}{totalCredited.toFixed(0)}</p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow-sm overflow-hidden">
+          <div className="h-1 gradient-secondary" />
+          <CardContent className="p-2 md:p-6">
+            <div className="text-center">
+              <p className="text-[10px] md:text-sm text-muted-foreground truncate">Refunded</p>
+              <p className="text-sm md:text-2xl font-bold text-destructive">{cs}{totalRefunded.toFixed(0)}</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-0 shadow-colorful">
+        <CardHeader className="border-b bg-gradient-to-r from-primary/5 to-accent/5">
+          <CardTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5 text-primary" />
+            All Credit Notes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {filteredCreditNotes.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground text-sm">
+              No credit notes yet. Open an invoice or bill to record a return.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30">
+                  <TableHead className="font-semibold">Credit Note #</TableHead>
+                  <TableHead className="font-semibold hidden sm:table-cell">Against</TableHead>
+                  <TableHead className="font-semibold">Customer</TableHead>
+                  <TableHead className="font-semibold hidden sm:table-cell">Date</TableHead>
+                  <TableHead className="font-semibold text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredCreditNotes.map((note, index) => (
+                  <TableRow
+                    key={note.id}
+                    className={`cursor-pointer hover:bg-muted/50 transition-colors ${index % 2 === 0 ? "bg-card" : "bg-muted/20"}`}
+                    onClick={() => handleNoteClick(note)}
+                  >
+                    <TableCell className="font-medium text-primary">{note.credit_note_number}</TableCell>
+                    <TableCell className="hidden sm:table-cell">{sourceNumber(note)}</TableCell>
+                    <TableCell>{note.customer_name}</TableCell>
+                    <TableCell className="hidden sm:table-cell">{new Date(note.credit_date).toLocaleDateString()}</TableCell>
+                    <TableCell className="font-semibold text-right">{currencySymbol(note.currency_code)}{note.total.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Credit Note Details Dialog */}
+      <Dialog open={!!selectedNote} onOpenChange={(open) => !open && setSelectedNote(null)}>
+        <DialogContent className="w-[95vw] max-w-3xl max-h-[85vh] overflow-y-auto p-4 md:p-6">
+          <DialogHeader className="print:mb-8">
+            <DialogTitle className="text-xl md:text-2xl text-gradient">Credit Note Details</DialogTitle>
+            <DialogDescription className="sr-only">View and print a credit note</DialogDescription>
+          </DialogHeader>
+
+          {selectedNote && (
+            <div className="space-y-4 md:space-y-6">
+              <div className="flex flex-col md:flex-row justify-between items-start gap-4">
+                <div>
+                  <CompanyBranding />
+                  <h2 className="text-2xl md:text-3xl font-bold text-gradient">CREDIT NOTE</h2>
+                  <p className="text-lg md:text-xl font-semibold text-muted-foreground mt-1">
+                    {selectedNote.credit_note_number}
+                  </p>
+                </div>
+                <Button onClick={() => window.print()} variant="outline" size="sm" className="print:hidden border-primary/20 hover:bg-primary/10">
+                  <Printer className="h-4 w-4 mr-1 text-primary" />
+                  Print
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="p-3 md:p-4 rounded-lg bg-gradient-to-br from-primary/5 to-accent/5">
+                  <h3 className="font-semibold text-primary mb-2 text-sm md:text-base">Customer:</h3>
+                  <p className="text-foreground font-medium">{selectedNote.customer_name}</p>
+                </div>
+                <div className="text-left sm:text-right p-3 md:p-4 rounded-lg bg-gradient-to-bl from-secondary/5 to-success/5 space-y-1 text-xs md:text-sm">
+                  <p>
+                    <span className="text-muted-foreground">Date:</span>{" "}
+                    <span className="font-medium">{new Date(selectedNote.credit_date).toLocaleDateString()}</span>
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Against:</span>{" "}
+                    <span className="font-medium">{sourceNumber(selectedNote)}</span>
+                  </p>
+                  {selectedNote.reason && (
+                    <p>
+                      <span className="text-muted-foreground">Reason:</span>{" "}
+                      <span className="font-medium">{selectedNote.reason}</span>
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div className="border rounded-lg overflow-hidden shadow-sm">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gradient-to-r from-primary/10 to-accent/10">
+                      <TableHead className="font-semibold text-xs md:text-sm">Description</TableHead>
+                      <TableHead className="text-right font-semibold text-xs md:text-sm">Qty</TableHead>
+                      <TableHead className="text-right font-semibold text-xs md:text-sm hidden sm:table-cell">Unit Price</TableHead>
+                      <TableHead className="text-right font-semibold text-xs md:text-sm">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {noteItems.map((item, index) => (
+                      <TableRow key={item.id} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
+                        <TableCell className="font-medium text-xs md:text-sm">{item.description}</TableCell>
+                        <TableCell className="text-right text-xs md:text-sm">{item.quantity}</TableCell>
+                        <TableCell className="text-right text-xs md:text-sm hidden sm:table-cell">{dcs}{item.unit_price.toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-medium text-xs md:text-sm">{dcs}{item.amount.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex justify-end">
+                <div className="w-full sm:w-72 space-y-2 p-3 md:p-4 rounded-lg bg-gradient-to-br from-primary/5 to-success/5">
+                  <div className="flex justify-between text-xs md:text-sm">
+                    <span className="text-muted-foreground">Subtotal:</span>
+                    <span className="font-medium">{dcs}{selectedNote.subtotal.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-xs md:text-sm">
+                    <span className="text-muted-foreground">Tax:</span>
+                    <span className="font-medium">{dcs}{selectedNote.tax.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-base md:text-lg font-bold pt-2 border-t">
+                    <span>Total Credit:</span>
+                    <span className="text-primary">{dcs}{selectedNote.total.toFixed(2)}</span>
+                  </div>
+                  {selectedNote.refund_amount > 0 && (
+                    <div className="flex justify-between text-xs md:text-sm">
+                      <span className="text-muted-foreground">
+                        Refunded ({paymentModes.find((m) => m.value === selectedNote.refund_mode)?.label || selectedNote.refund_mode}):
+                      </span>
+                      <span className="font-medium">{dcs}{selectedNote.refund_amount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {selectedNote.total - selectedNote.refund_amount > 0 && (
+                    <div className="flex justify-between text-xs md:text-sm">
+                      <span className="text-muted-foreground">Adjusted against balance:</span>
+                      <span className="font-medium">{dcs}{(selectedNote.total - selectedNote.refund_amount).toFixed(2)}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CreditNotes;
@@ -16,6 +16,7 @@ import { useSettings } from "@/contexts/SettingsContext";
 import { CompanyBranding } from "@/components/CompanyBranding";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import { toBase } from "@/lib/currency";
 
 const Dashboard = () => {
   const { settings } = useSettings();
@@ -32,6 +33,7 @@ const Dashboard = () => {
   const [allInvoices, setAllInvoices] = useState<any[]>([]);
   const [allInvoiceItems, setAllInvoiceItems] = useState<any[]>([]);
   const [allBills, setAllBills] = useState<any[]>([]);
+  const [allCreditNotes, setAllCreditNotes] = useState<{ invoice_id: string | null; bill_id: string | null; credit_date: string; total: number }[]>([]);
   const [allClients, setAllClients] = useState<any[]>([]);
   const [allPOs, setAllPOs] = useState<any[]>([]);
   const [outstandingInvoices, setOutstandingInvoices] = useState<any[]>([]);
@@ -45,24 +47,35 @@ const Dashboard = () => {
       { data: outstanding },
       { data: bills },
       { data: clients },
-      { data: purchaseOrders }
+      { data: purchaseOrders },
+      { data: creditNotes }
     ] = await Promise.all([
-      supabase.from("products").select("*"),
+      // Stock is held by variants, not the products they belong to
+      supabase.from("products").select("*").is("variant_options", null),
       supabase.from("invoices").select("*"),
-      supabase.from("invoice_items").select("product_id, amount, quantity, invoice_id, products(name)"),
-      supabase.from("invoices").select("*").neq("status", "paid").order("due_date", { ascending: true }).limit(5),
+      supabase.from("invoice_items").select("product_id, amount, quantity, invoice_id, products(name), invoices(exchange_rate)"),
+      supabase.from("invoices").select("*").gt("balance_due", 0).neq("status", "cancelled").order("due_date", { ascending: true }).limit(5),
       supabase.from("bills").select("*"),
       supabase.from("clients").select("id"),
-      supabase.from("purchase_orders").select("*").order("created_at", { ascending: false }).limit(5)
+      supabase.from("purchase_orders").select("*").order("created_at", { ascending: false }).limit(5),
+      supabase.from("credit_notes").select("invoice_id, bill_id, credit_date, total, exchange_rate")
     ]);
 
+    // Documents in other currencies are counted at their stored rate to the base currency
+    const invoiceInBase = <T extends { total: number; balance_due: number; exchange_rate: number }>(inv: T) => ({
+      ...inv,
+      total: toBase(inv.total, inv.exchange_rate),
+      balance_due: toBase(inv.balance_due, inv.exchange_rate),
+    });
+
     setAllProducts(products || []);
-    setAllInvoices(invoices || []);
-    setAllInvoiceItems(invoiceItems || []);
-    setAllBills(bills || []);
+    setAllInvoices((invoices || []).map(invoiceInBase));
+    setAllInvoiceItems((invoiceItems || []).map((item) => ({ ...item, amount: toBase(item.amount, item.invoices?.exchange_rate) })));
+    setAllBills((bills || []).map((b) => ({ ...b, total: toBase(b.total, b.exchange_rate) })));
     setAllClients(clients || []);
     setAllPOs(purchaseOrders || []);
-    setOutstandingInvoices(outstanding || []);
+    setAllCreditNotes((creditNotes || []).map((cn) => ({ ...cn, total: toBase(cn.total, cn.exchange_rate) })));
+    setOutstandingInvoices((outstanding || []).map(invoiceInBase));
 
     // Low stock (not date-dependent)
     if (products) {
@@ -123,23 +136,35 @@ const Dashboard = () => {
     const invoices = allInvoices.filter((inv) => isInRange(inv.issue_date));
     const bills = allBills.filter((b) => isInRange(b.bill_date));
     const pos = allPOs.filter((po) => isInRange(po.po_date));
+    // Returns are counted on the date of the credit note, against what they reverse
+    const salesReturns = allCreditNotes.filter((cn) => cn.invoice_id && isInRange(cn.credit_date));
+    const billReturns = allCreditNotes.filter((cn) => cn.bill_id && isInRange(cn.credit_date));
 
     // Previous period
     const prevInvoices = allInvoices.filter((inv) => isInPrevRange(inv.issue_date));
     const prevBills = allBills.filter((b) => isInPrevRange(b.bill_date));
+    const prevSalesReturns = allCreditNotes.filter((cn) => cn.invoice_id && isInPrevRange(cn.credit_date));
+    const prevBillReturns = allCreditNotes.filter((cn) => cn.bill_id && isInPrevRange(cn.credit_date));
 
     const totalProducts = allProducts.length;
     const totalInvoices = invoices.length;
-    const pendingInvoices = invoices.filter((inv) => inv.status !== "paid").length;
-    const totalRevenue = invoices.reduce((sum, inv) => sum + (Number(inv.total) || 0), 0);
+    const unpaidInvoices = invoices.filter((inv) => inv.status !== "cancelled" && Number(inv.balance_due) > 0);
+    const pendingInvoices = unpaidInvoices.length;
+    const outstandingAmount = unpaidInvoices.reduce((sum, inv) => sum + (Number(inv.balance_due) || 0), 0);
+    const totalRevenue = invoices.reduce((sum, inv) => sum + (Number(inv.total) || 0), 0)
+      - salesReturns.reduce((sum, cn) => sum + (Number(cn.total) || 0), 0);
     const totalStockValue = allProducts.reduce((sum, p) => sum + p.quantity * p.unit_price, 0);
-    const totalBillsAmount = bills.reduce((sum, b) => sum + (Number(b.total) || 0), 0);
-    const pendingBillsCount = bills.filter((b) => b.status === "pending").length;
+    const totalBillsAmount = bills.reduce((sum, b) => sum + (Number(b.total) || 0), 0)
+      - billReturns.reduce((sum, cn) => sum + (Number(cn.total) || 0), 0);
+    // Purchase bills still owed to suppliers
+    const pendingBillsCount = bills.filter((b) => b.bill_type === "purchase" && b.balance_due > 0).length;
     const profit = totalRevenue - totalBillsAmount;
 
     // Previous period totals
-    const prevRevenue = prevInvoices.reduce((sum, inv) => sum + (Number(inv.total) || 0), 0);
-    const prevExpenses = prevBills.reduce((sum, b) => sum + (Number(b.total) || 0), 0);
+    const prevRevenue = prevInvoices.reduce((sum, inv) => sum + (Number(inv.total) || 0), 0)
+      - prevSalesReturns.reduce((sum, cn) => sum + (Number(cn.total) || 0), 0);
+    const prevExpenses = prevBills.reduce((sum, b) => sum + (Number(b.total) || 0), 0)
+      - prevBillReturns.reduce((sum, cn) => sum + (Number(cn.total) || 0), 0);
     const prevProfit = prevRevenue - prevExpenses;
     const prevInvoiceCount = prevInvoices.length;
 
@@ -156,6 +181,10 @@ const Dashboard = () => {
       acc[month] = (acc[month] || 0) + (Number(inv.total) || 0);
       return acc;
     }, {});
+    salesReturns.forEach((cn) => {
+      const month = format(new Date(cn.credit_date), "MMM yyyy");
+      revenueByMonth[month] = (revenueByMonth[month] || 0) - (Number(cn.total) || 0);
+    });
     const revenueData = Object.entries(revenueByMonth)
       .map(([month, revenue]) => ({ month, revenue: revenue as number }))
       .sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime())
@@ -227,18 +256,24 @@ const Dashboard = () => {
       if (!months[m]) months[m] = { revenue: 0, expense: 0 };
       months[m].expense += Number(b.total) || 0;
     });
+    [...salesReturns, ...billReturns].forEach((cn) => {
+      const m = format(new Date(cn.credit_date), "MMM");
+      if (!months[m]) months[m] = { revenue: 0, expense: 0 };
+      if (cn.invoice_id) months[m].revenue -= Number(cn.total) || 0;
+      else months[m].expense -= Number(cn.total) || 0;
+    });
     const expenseVsRevenue = Object.entries(months)
       .map(([month, data]) => ({ month, ...data }))
       .slice(-6);
 
     return {
-      totalProducts, totalInvoices, pendingInvoices, totalRevenue, totalStockValue,
+      totalProducts, totalInvoices, pendingInvoices, outstandingAmount, totalRevenue, totalStockValue,
       totalBillsAmount, pendingBillsCount, profit, revenueData, topProducts,
       recentBills, expenseVsRevenue, recentPOs: pos.slice(0, 5),
       totalClientsCount: allClients.length, changes, topSellingItems,
       stockByCategory, uniqueCategories, avgOrderValue, profitMargin,
     };
-  }, [allInvoices, allBills, allProducts, allInvoiceItems, allPOs, allClients, dateRange]);
+  }, [allInvoices, allBills, allProducts, allInvoiceItems, allPOs, allClients, allCreditNotes, dateRange]);
 
   // Preset helpers
   const applyPreset = (preset: string) => {
@@ -285,12 +320,12 @@ const Dashboard = () => {
     message += `📅 ${format(new Date(), "dd MMM yyyy")}\n\n`;
     message += `📦 Products: ${filtered.totalProducts}\n`;
     message += `💰 Stock Value: ${cs}${filtered.totalStockValue.toLocaleString('en-IN', { maximumFractionDigits: 0 })}\n`;
-    message += `📄 Pending Invoices: ${filtered.pendingInvoices}\n`;
+    message += `📄 Pending Invoices: ${filtered.pendingInvoices} (${cs}${filtered.outstandingAmount.toLocaleString('en-IN', { maximumFractionDigits: 0 })} due)\n`;
     message += `✅ Total Revenue: ${cs}${filtered.totalRevenue.toLocaleString('en-IN', { maximumFractionDigits: 0 })}\n`;
     if (outstandingInvoices.length > 0) {
       message += `\n⚠️ *Outstanding Invoices:*\n`;
       outstandingInvoices.forEach((inv) => {
-        message += `• ${inv.customer_name} - ${cs}${Number(inv.total).toLocaleString('en-IN', { maximumFractionDigits: 0 })} (Due: ${format(new Date(inv.due_date), "dd MMM")})\n`;
+        message += `• ${inv.customer_name} - ${cs}${Number(inv.balance_due).toLocaleString('en-IN', { maximumFractionDigits: 0 })}${inv.due_date ? ` (Due: ${format(new Date(inv.due_date), "dd MMM")})` : ""}\n`;
       });
     }
     window.open(`https://wa.me/?text=${encodeURIComponent(message)}`, "_blank");
@@ -319,8 +354,9 @@ const Dashboard = () => {
       exportToCSV(outstandingInvoices.map((inv) => ({
         customer_name: inv.customer_name,
         invoice_number: inv.invoice_number,
-        due_date: format(new Date(inv.due_date), "MMM dd, yyyy"),
+        due_date: inv.due_date ? format(new Date(inv.due_date), "MMM dd, yyyy") : "",
         total: Number(inv.total).toFixed(2),
+        balance_due: Number(inv.balance_due).toFixed(2),
         status: inv.status
       })), `outstanding-invoices-${date}`);
     }
@@ -716,9 +752,14 @@ const Dashboard = () => {
               <AlertTriangle className="h-4 w-4 text-warning" />
               Low Stock Alerts
             </CardTitle>
-            <Button variant="ghost" size="sm" className="text-xs h-7" onClick={() => navigate('/inventory')}>
-              View All
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="text-xs h-7" onClick={() => navigate('/reorder')}>
+                Reorder
+              </Button>
+              <Button variant="ghost" size="sm" className="text-xs h-7" onClick={() => navigate('/inventory')}>
+                View All
+              </Button>
+            </div>
           </CardHeader>
           <CardContent className="p-3 md:p-6 pt-0">
             {lowStockProducts.length === 0 ? (
@@ -753,7 +794,10 @@ const Dashboard = () => {
         <Card>
           <CardHeader className="p-3 md:p-6 pb-2 flex flex-row items-center justify-between">
             <CardTitle className="text-sm md:text-base">Outstanding Invoices</CardTitle>
-            <Badge variant="secondary" className="text-[10px]">{filtered.pendingInvoices} pending</Badge>
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" className="text-[10px]">{filtered.pendingInvoices} pending · {fmtCurrency(filtered.outstandingAmount)}</Badge>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => navigate('/receivables-aging')}>Aging</Button>
+            </div>
           </CardHeader>
           <CardContent className="p-3 md:p-6 pt-0">
             {outstandingInvoices.length === 0 ? (
@@ -765,13 +809,13 @@ const Dashboard = () => {
                     <div className="min-w-0 flex-1">
                       <p className="font-medium text-sm truncate">{invoice.customer_name}</p>
                       <p className="text-xs text-muted-foreground">
-                        #{invoice.invoice_number} • Due: {format(new Date(invoice.due_date), "dd MMM")}
+                        #{invoice.invoice_number}{invoice.due_date && ` • Due: ${format(new Date(invoice.due_date), "dd MMM")}`}
                       </p>
                     </div>
                     <div className="text-right flex-shrink-0">
-                      <p className="text-sm font-bold">{fmtCurrency(Number(invoice.total))}</p>
+                      <p className="text-sm font-bold">{fmtCurrency(Number(invoice.balance_due))}</p>
                       <Badge variant={invoice.status === "overdue" ? "destructive" : "secondary"} className="text-[10px]">
-                        {invoice.status}
+                        {invoice.status.replace("_", " ")}
                       </Badge>
                     </div>
                   </div>
@@ -841,10 +885,10 @@ const Dashboard = () => {
                     <div className="text-right flex-shrink-0">
                       <p className="text-sm font-bold">{fmtCurrency(Number(po.total))}</p>
                       <Badge
-                        variant={po.status === "received" ? "default" : po.status === "pending" ? "secondary" : "destructive"}
+                        variant={po.status === "received" ? "default" : po.status === "cancelled" ? "destructive" : "secondary"}
                         className="text-[10px]"
                       >
-                        {po.status}
+                        {po.status.replace("_", " ")}
                       </Badge>
                     </div>
                   </div>
@@ -908,8 +952,8 @@ const Dashboard = () => {
               {outstandingInvoices.map((inv) => (
                 <div key={inv.id} className="flex justify-between text-[10px]">
                   <span className="truncate max-w-[45%]">{inv.customer_name}</span>
-                  <span>{format(new Date(inv.due_date), "dd/MM")}</span>
-                  <span className="font-bold">{fmtCurrency(Number(inv.total))}</span>
+                  <span>{inv.due_date ? format(new Date(inv.due_date), "dd/MM") : "-"}</span>
+                  <span className="font-bold">{fmtCurrency(Number(inv.balance_due))}</span>
                 </div>
               ))}
             </div>
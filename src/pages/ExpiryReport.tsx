@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileSpreadsheet } from "lucide-react";
+import { addDays, format, parseISO } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { downloadBlob } from "@/lib/documentPdf";
+import { NEAR_EXPIRY_DAYS, daysToExpiry } from "@/lib/batches";
+
+type ExpiringBatch = {
+  id: string;
+  product_id: string;
+  batch_number: string;
+  expiry_date: string;
+  quantity: number;
+  unit_cost: number;
+  products: { name: string; sku: string | null } | null;
+};
+
+const windows = [30, 60, NEAR_EXPIRY_DAYS, 180];
+
+/**
+ * Batches in stock that have expired or expire within the chosen window,
+ * soonest first, with their value at cost
+ */
+const ExpiryReport = () => {
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [withinDays, setWithinDays] = useState(NEAR_EXPIRY_DAYS);
+  const [batches, setBatches] = useState<ExpiringBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let stale = false;
+    setLoading(true);
+    supabase
+      .from("product_batches")
+      .select("id, product_id, batch_number, expiry_date, quantity, unit_cost, products(name, sku)")
+      .gt("quantity", 0)
+      .not("expiry_date", "is", null)
+      .lte("expiry_date", format(addDays(new Date(), withinDays), "yyyy-MM-dd"))
+      .order("expiry_date")
+      .then(({ data, error }) => {
+        if (stale) return;
+        setLoading(false);
+        if (error) {
+          logErrorInDev("LoadExpiryReport", error);
+          toast.error(getSafeErrorMessage(error, "Failed to load expiring stock"));
+          return;
+        }
+        setBatches((data || []) as ExpiringBatch[]);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [withinDays]);
+
+  const money = (amount: number) => `${cs}${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const expired = batches.filter((batch) => daysToExpiry(batch.expiry_date) < 0);
+  const expiring = batches.filter((batch) => daysToExpiry(batch.expiry_date) >= 0);
+  const valueOf = (list: ExpiringBatch[]) => list.reduce((sum, batch) => sum + batch.quantity * Number(batch.unit_cost), 0);
+  const quantityOf = (list: ExpiringBatch[]) => list.reduce((sum, batch) => sum + batch.quantity, 0);
+
+  const handleCSVExport = () => {
+    const headers = ['Product', 'SKU', 'Batch', 'Expiry Date', 'Days Left', 'Quantity', `Unit Cost (${settings.currency_code})`, `Value (${settings.currency_code})`];
+    const rows = batches.map((batch) => [
+      batch.products?.name || '',
+      batch.products?.sku || '',
+      batch.batch_number,
+      batch.expiry_date,
+      daysToExpiry(batch.expiry_date),
+      batch.quantity,
+      Number(batch.unit_cost).toFixed(2),
+      (batch.quantity * Number(batch.unit_cost)).toFixed(2)
+    ]);
+    const today = format(new Date(), "yyyy-MM-dd");
+
+    const csvContent = [
+      `Stock expired or expiring within ${withinDays} days as of ${today}`,
+      headers.join(','),
+      ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), `expiring_stock_${today}.csv`);
+    toast.success('Expiring stock exported to CSV');
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">Expiring Stock</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Batches past or close to their expiry date</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Expiring within</Label>
+            <Select value={String(withinDays)} onValueChange={(value) => setWithinDays(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {windows.map((days) => (
+                  <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCSVExport} disabled={batches.length === 0}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" /> CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 grid-cols-2">
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Expired</span>
+            <p className="text-lg md:text-xl font-bold text-destructive">{money(valueOf(expired))}</p>
+            <p className="text-xs text-muted-foreground">{quantityOf(expired)} units in {expired.length} batch{expired.length === 1 ? "" : "es"}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Expiring within {withinDays} days</span>
+            <p className="text-lg md:text-xl font-bold text-warning">{money(valueOf(expiring))}</p>
+            <p className="text-xs text-muted-foreground">{quantityOf(expiring)} units in {expiring.length} batch{expiring.length === 1 ? "" : "es"}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="p-3 md:p-6 pb-2">
+          <CardTitle className="text-sm md:text-base">Batches</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 md:p-6 md:pt-0">
+          {loading ? (
+            <div className="py-10 text-center text-muted-foreground text-sm">Loading...</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30">
+                    <TableHead className="font-semibold">Product</TableHead>
+                    <TableHead className="font-semibold">Batch</TableHead>
+                    <TableHead className="font-semibold">Expiry</TableHead>
+                    <TableHead className="font-semibold text-right">Qty</TableHead>
+                    <TableHead className="font-semibold text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.map((batch, index) => {
+                    const days = daysToExpiry(batch.expiry_date);
+                    return (
+                      <TableRow key={batch.id} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
+                        <TableCell className="font-medium">
+                          <button type="button" className="hover:underline text-left" onClick={() => navigate(`/inventory/${batch.product_id}`)}>
+                            {batch.products?.name}
+                          </button>
+                          {batch.products?.sku && <p className="text-xs text-muted-foreground">{batch.products.sku}</p>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{batch.batch_number}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(parseISO(batch.expiry_date), "dd MMM yyyy")}
+                          <Badge variant={days < 0 ? "destructive" : "secondary"} className="ml-2 text-[10px]">
+                            {days < 0 ? `Expired ${-days}d ago` : days === 0 ? "Expires today" : `${days}d left`}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{batch.quantity}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{money(batch.quantity * Number(batch.unit_cost))}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {batches.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                        Nothing expiring within {withinDays} days ✓
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ExpiryReport;
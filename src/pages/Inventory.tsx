@@ -10,7 +10,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Pencil, Trash2, Printer, Share2, AlertTriangle, Package, IndianRupee, TrendingDown, Boxes, Download, TrendingUp, Upload, Check, ChevronsUpDown } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Pencil, Trash2, Printer, Share2, AlertTriangle, Package, IndianRupee, TrendingDown, Boxes, Download, TrendingUp, Upload, Check, ChevronsUpDown, ShieldCheck, ChevronRight, Layers, ScanLine, Tag } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { cn } from "@/lib/utils";
@@ -19,9 +20,18 @@ import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { z } from "zod";
 import { SwipeableCard } from "@/components/SwipeableCard";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { gstRates } from "@/lib/gst";
+import { SupplierPicker } from "@/components/SupplierPicker";
+import { ProductVariantsDialog } from "@/components/ProductVariantsDialog";
+import { Json } from "@/integrations/supabase/types";
+import { isVariantParent, parseVariantAttributes, parseVariantOptions, variantLabel } from "@/lib/variants";
+import { StockLocation, fetchLocations, fetchLocationStock } from "@/lib/locations";
+import { BarcodeScannerDialog } from "@/components/BarcodeScannerDialog";
+import { LabelPrintPanel, LabelProduct } from "@/components/LabelPrintPanel";
 const productSchema = z.object({
   name: z.string().min(1, "Name is required").max(200),
   sku: z.string().max(100).optional(),
+  barcode: z.string().max(100).optional(),
   description: z.string().max(1000).optional(),
   quantity: z.number().min(0, "Quantity must be positive"),
   purchase_price: z.number().min(0, "Purchase price must be positive"),
@@ -31,7 +41,8 @@ const productSchema = z.object({
   supplier_name: z.string().max(200).optional(),
   storage_location: z.string().max(200).optional(),
   manufacturing_date: z.string().optional(),
-  expiry_date: z.string().optional()
+  expiry_date: z.string().optional(),
+  hsn_code: z.string().max(20, "HSN/SAC code must be less than 20 characters").optional()
 });
 const UNITS = ['pc', 'kg', 'g', 'ltr', 'ml', 'box', 'pack', 'set', 'pair', 'dozen', 'meter', 'ft'] as const;
 
@@ -43,13 +54,26 @@ type Product = {
   quantity: number;
   purchase_price: number;
   unit_price: number;
+  mrp: number | null;
   category: string | null;
   low_stock_threshold: number;
+  supplier_id: string | null;
   supplier_name: string | null;
   storage_location: string | null;
+  barcode: string | null;
   manufacturing_date: string | null;
   expiry_date: string | null;
   unit: string | null;
+  hsn_code: string | null;
+  tax_rate: number | null;
+  parent_id: string | null;
+  variant_options: Json | null;
+  variant_attributes: Json | null;
+};
+// A product with its variants, listed as one collapsible row
+type ProductGroup = {
+  product: Product;
+  variants: Product[];
 };
 type PrintColumn = 'name' | 'sku' | 'quantity' | 'purchase_price' | 'unit_price' | 'profit' | 'total_value';
 const printColumnLabels: Record<PrintColumn, string> = {
@@ -61,32 +85,57 @@ const printColumnLabels: Record<PrintColumn, string> = {
   profit: 'Profit',
   total_value: 'Total Value'
 };
+type StockDiscrepancy = {
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  ledger_quantity: number;
+  difference: number;
+};
 const Inventory = () => {
   const navigate = useNavigate();
   const [products, setProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isPrintDialogOpen, setIsPrintDialogOpen] = useState(false);
+  const [printMode, setPrintMode] = useState<"report" | "labels">("report");
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("");
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [locationFilter, setLocationFilter] = useState("");
+  const [locationStock, setLocationStock] = useState<Map<string, number> | null>(null);
+  // What a scanned barcode is for: finding a product, or the product form's field
+  const [scanTarget, setScanTarget] = useState<"find" | "form" | null>(null);
+  const [isReconcileDialogOpen, setIsReconcileDialogOpen] = useState(false);
+  const [discrepancies, setDiscrepancies] = useState<StockDiscrepancy[]>([]);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [expandedProducts, setExpandedProducts] = useState<string[]>([]);
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null);
   const [selectedPrintColumns, setSelectedPrintColumns] = useState<PrintColumn[]>(['name', 'quantity', 'unit_price']);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const isMobile = useIsMobile();
   const [formData, setFormData] = useState({
     name: "",
     sku: "",
+    barcode: "",
     description: "",
     quantity: 0,
     purchase_price: 0,
     unit_price: 0,
+    // Empty when the product carries no MRP
+    mrp: "",
     category: "",
     low_stock_threshold: 10,
+    supplier_id: null as string | null,
     supplier_name: "",
     storage_location: "",
     manufacturing_date: "",
     expiry_date: "",
-    unit: "pc"
+    unit: "pc",
+    hsn_code: "",
+    // Empty means the default rate from Settings
+    tax_rate: ""
   });
   const fetchProducts = async () => {
     const {
@@ -102,20 +151,56 @@ const Inventory = () => {
       setFilteredProducts(data || []);
     }
   };
+  const loadLocationStock = async (locationId: string) => {
+    if (!locationId) {
+      setLocationStock(null);
+      return;
+    }
+    try {
+      setLocationStock(await fetchLocationStock(locationId));
+    } catch {
+      toast.error("Error fetching stock for this location");
+    }
+  };
+  // Reloaded with the products, since every stock change touches both
+  useEffect(() => {
+    loadLocationStock(locationFilter);
+  }, [locationFilter, products]);
   useEffect(() => {
-    let filtered = products;
+    // Parents hold no stock of their own, so lists and totals are of variants
+    let filtered = products.filter((product) => !isVariantParent(product));
     if (searchTerm) {
-      filtered = filtered.filter((product) => product.name.toLowerCase().includes(searchTerm.toLowerCase()) || product.sku?.toLowerCase().includes(searchTerm.toLowerCase()) || product.description?.toLowerCase().includes(searchTerm.toLowerCase()));
+      filtered = filtered.filter((product) => product.name.toLowerCase().includes(searchTerm.toLowerCase()) || product.sku?.toLowerCase().includes(searchTerm.toLowerCase()) || product.barcode === searchTerm.trim() || product.description?.toLowerCase().includes(searchTerm.toLowerCase()));
     }
     if (categoryFilter) {
       filtered = filtered.filter((product) => product.category === categoryFilter);
     }
+    // Products held at the chosen location, showing only the stock kept there
+    if (locationFilter && locationStock) {
+      filtered = filtered
+        .filter((product) => locationStock.get(product.id))
+        .map((product) => ({ ...product, quantity: locationStock.get(product.id) || 0 }));
+    }
     setFilteredProducts(filtered);
-  }, [searchTerm, categoryFilter, products]);
+  }, [searchTerm, categoryFilter, locationFilter, locationStock, products]);
   const categories = Array.from(new Set(products.map((p) => p.category).filter(Boolean)));
-  const lowStockProducts = products.filter((p) => p.quantity <= p.low_stock_threshold);
+  const lowStockProducts = products.filter((p) => !isVariantParent(p) && p.quantity <= p.low_stock_threshold);
+  const productGroups = filteredProducts.reduce<ProductGroup[]>((groups, product) => {
+    const parent = product.parent_id ? products.find((p) => p.id === product.parent_id) : undefined;
+    if (!parent) return [...groups, { product, variants: [] }];
+    const group = groups.find((g) => g.product.id === parent.id);
+    if (group) {
+      group.variants.push(product);
+      return groups;
+    }
+    return [...groups, { product: parent, variants: [product] }];
+  }, []);
+  const toggleExpanded = (id: string) => {
+    setExpandedProducts((prev) => prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]);
+  };
   useEffect(() => {
     fetchProducts();
+    fetchLocations().then(setLocations).catch(() => toast.error("Error fetching locations"));
     const channel = supabase.channel("products-changes").on("postgres_changes", {
       event: "*",
       schema: "public",
@@ -144,6 +229,11 @@ const Inventory = () => {
       return;
     }
 
+    if (formData.mrp !== "" && formData.unit_price > Number(formData.mrp)) {
+      toast.error("Sale price cannot be more than the MRP");
+      return;
+    }
+
     // Check for duplicate product name
     if (isProductNameDuplicate(formData.name)) {
       toast.error(`Product "${formData.name}" already exists!`);
@@ -161,14 +251,18 @@ const Inventory = () => {
       supplier_name: formData.supplier_name || null,
       storage_location: formData.storage_location || null,
       manufacturing_date: formData.manufacturing_date || null,
-      expiry_date: formData.expiry_date || null
+      expiry_date: formData.expiry_date || null,
+      hsn_code: formData.hsn_code.trim() || null,
+      barcode: formData.barcode.trim() || null,
+      mrp: formData.mrp === "" ? null : Number(formData.mrp),
+      tax_rate: formData.tax_rate === "" ? null : Number(formData.tax_rate)
     };
     if (editingProduct) {
       const {
         error
       } = await supabase.from("products").update(submitData).eq("id", editingProduct.id);
       if (error) {
-        toast.error("Error updating product");
+        toast.error(error.code === "23505" ? "Another product already has this barcode" : "Error updating product");
       } else {
         toast.success("Product updated successfully");
       }
@@ -180,7 +274,7 @@ const Inventory = () => {
         user_id: user.id
       }]);
       if (error) {
-        toast.error("Error creating product");
+        toast.error(error.code === "23505" ? "Another product already has this barcode" : "Error creating product");
       } else {
         toast.success("Product created successfully");
       }
@@ -189,6 +283,20 @@ const Inventory = () => {
     resetForm();
     fetchProducts();
   };
+  const handleReconcile = async () => {
+    setIsReconciling(true);
+    const {
+      data,
+      error
+    } = await supabase.rpc("get_stock_discrepancies");
+    setIsReconciling(false);
+    if (error) {
+      toast.error("Error checking stock ledger");
+      return;
+    }
+    setDiscrepancies(data || []);
+    setIsReconcileDialogOpen(true);
+  };
   const handleDelete = async (id: string) => {
     const {
       error
@@ -200,22 +308,34 @@ const Inventory = () => {
       fetchProducts();
     }
   };
-  const handleEdit = (product: Product) => {
+  const handleEdit = (listed: Product) => {
+    // The list may show a location's stock; the form edits the total
+    const product = products.find((p) => p.id === listed.id) || listed;
+    // Variants are edited together with their parent
+    if (product.parent_id) {
+      setVariantsProduct(products.find((p) => p.id === product.parent_id) || null);
+      return;
+    }
     setEditingProduct(product);
     setFormData({
       name: product.name,
       sku: product.sku || "",
+      barcode: product.barcode || "",
       description: product.description || "",
       quantity: product.quantity,
       purchase_price: product.purchase_price || 0,
       unit_price: product.unit_price,
+      mrp: product.mrp === null ? "" : String(product.mrp),
       category: product.category || "",
       low_stock_threshold: product.low_stock_threshold,
+      supplier_id: product.supplier_id,
       supplier_name: product.supplier_name || "",
       storage_location: product.storage_location || "",
       manufacturing_date: product.manufacturing_date || "",
       expiry_date: product.expiry_date || "",
-      unit: product.unit || "pc"
+      unit: product.unit || "pc",
+      hsn_code: product.hsn_code || "",
+      tax_rate: product.tax_rate === null ? "" : String(product.tax_rate)
     });
     setIsDialogOpen(true);
   };
@@ -223,20 +343,40 @@ const Inventory = () => {
     setFormData({
       name: "",
       sku: "",
+      barcode: "",
       description: "",
       quantity: 0,
       purchase_price: 0,
       unit_price: 0,
+      mrp: "",
       category: "",
       low_stock_threshold: 10,
+      supplier_id: null,
       supplier_name: "",
       storage_location: "",
       manufacturing_date: "",
       expiry_date: "",
-      unit: "pc"
+      unit: "pc",
+      hsn_code: "",
+      tax_rate: ""
     });
     setEditingProduct(null);
   };
+  const handleScannedCode = (code: string) => {
+    if (scanTarget === "form") {
+      setFormData((prev) => ({ ...prev, barcode: code }));
+      return;
+    }
+    const product = products.find((p) => p.barcode === code) || products.find((p) => p.sku === code);
+    if (product) {
+      navigate(`/inventory/${product.id}`);
+      return;
+    }
+    // Unknown code: start a new product with it
+    resetForm();
+    setFormData((prev) => ({ ...prev, barcode: code }));
+    setIsDialogOpen(true);
+  };
   const handlePrint = () => {
     window.print();
   };
@@ -350,6 +490,202 @@ const Inventory = () => {
 
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
+  const variantName = (variant: Product, parent: Product) => variantLabel(parseVariantAttributes(variant.variant_attributes), parseVariantOptions(parent.variant_options)) || variant.name;
+  const priceRange = (prices: number[], digits = 2) => {
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    return low === high ? `₹${low.toFixed(digits)}` : `₹${low.toFixed(0)}–${high.toFixed(0)}`;
+  };
+  // Variants are labelled with their parent's name, and its MRP unless they have their own
+  const labelProducts: LabelProduct[] = filteredProducts.map((product) => {
+    const parent = product.parent_id ? products.find((p) => p.id === product.parent_id) : undefined;
+    return {
+      ...product,
+      name: parent ? `${parent.name} - ${variantName(product, parent)}` : product.name,
+      mrp: product.mrp ?? parent?.mrp ?? null
+    };
+  });
+  const isGroupExpanded = (product: Product) => expandedProducts.includes(product.id) || !!searchTerm;
+  const renderProductCard = (product: Product, parent?: Product) => <Card key={product.id} className={`${parent ? "ml-4 " : ""}border-0 shadow-sm overflow-hidden cursor-pointer transition-shadow hover:shadow-md ${isLowStock(product) ? "bg-destructive/5" : ""}`} onClick={() => navigate(`/inventory/${product.id}`)}>
+    <div className={`h-0.5 ${isLowStock(product) ? "bg-destructive" : "gradient-primary"}`} />
+    <CardContent className="p-3 px-[9px] py-0">
+      {/* Main Row */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="font-semibold text-sm truncate">{parent ? variantName(product, parent) : product.name}</p>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {product.sku && <span>SKU: {product.sku}</span>}
+            {product.category && <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 border-secondary/30 text-secondary">
+                {product.category}
+              </Badge>}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 flex-shrink-0">
+          <div className="text-right">
+            <p className={`text-base font-bold ${isLowStock(product) ? "text-destructive" : "text-primary"}`}>
+              {product.quantity} <span className="text-xs font-normal text-muted-foreground">{product.unit || 'pc'}</span>
+            </p>
+            <p className="text-[10px] text-muted-foreground">in stock</p>
+          </div>
+          {isLowStock(product) && <Badge className="text-[10px] px-1.5 bg-destructive/80">Low</Badge>}
+        </div>
+      </div>
+      
+      {/* Price & Actions Row */}
+      <div className="flex items-center justify-between mt-2 pt-2 border-t border-border/30">
+        <div className="flex items-center gap-3 text-xs">
+          <span className="text-muted-foreground">₹{product.purchase_price.toFixed(0)}</span>
+          <span className="text-success font-medium">→ ₹{product.unit_price.toFixed(0)}</span>
+          <span className={`font-medium ${getProfitPercentage(product) >= 0 ? 'text-info' : 'text-destructive'}`}>
+            +{getProfitPercentage(product).toFixed(0)}%
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={(e) => { e.stopPropagation(); handleEdit(product); }}>
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive" onClick={(e) => { e.stopPropagation(); handleDelete(product.id); }}>
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </CardContent>
+  </Card>;
+  const renderGroupCard = ({ product, variants }: ProductGroup) => {
+    const lowCount = variants.filter(isLowStock).length;
+    return <div key={product.id} className="space-y-2">
+        <Card className={`border-0 shadow-sm overflow-hidden cursor-pointer transition-shadow hover:shadow-md ${lowCount > 0 ? "bg-destructive/5" : ""}`} onClick={() => navigate(`/inventory/${product.id}`)}>
+          <div className={`h-0.5 ${lowCount > 0 ? "bg-destructive" : "gradient-primary"}`} />
+          <CardContent className="p-3 px-[9px] py-0">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0 flex-1 flex items-center gap-1">
+                <button type="button" className="p-1 -ml-1 flex-shrink-0" onClick={(e) => { e.stopPropagation(); toggleExpanded(product.id); }}>
+                  <ChevronRight className={`h-4 w-4 text-muted-foreground transition-transform ${isGroupExpanded(product) ? "rotate-90" : ""}`} />
+                </button>
+                <div className="min-w-0">
+                  <p className="font-semibold text-sm truncate">{product.name}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{variants.length} variant{variants.length === 1 ? "" : "s"}</span>
+                    {product.category && <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 border-secondary/30 text-secondary">
+                        {product.category}
+                      </Badge>}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <div className="text-right">
+                  <p className={`text-base font-bold ${lowCount > 0 ? "text-destructive" : "text-primary"}`}>
+                    {variants.reduce((sum, v) => sum + v.quantity, 0)} <span className="text-xs font-normal text-muted-foreground">{product.unit || 'pc'}</span>
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">in stock</p>
+                </div>
+                {lowCount > 0 && <Badge className="text-[10px] px-1.5 bg-destructive/80">{lowCount} Low</Badge>}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between mt-2 pt-2 border-t border-border/30">
+              <div className="flex items-center gap-3 text-xs">
+                <span className="text-muted-foreground">{priceRange(variants.map((v) => v.purchase_price), 0)}</span>
+                <span className="text-success font-medium">→ {priceRange(variants.map((v) => v.unit_price), 0)}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={(e) => { e.stopPropagation(); setVariantsProduct(product); }}>
+                  <Layers className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={(e) => { e.stopPropagation(); handleEdit(product); }}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive" onClick={(e) => { e.stopPropagation(); handleDelete(product.id); }}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        {isGroupExpanded(product) && variants.map((variant) => renderProductCard(variant, product))}
+      </div>;
+  };
+  const renderProductRow = (product: Product, index: number, parent?: Product) => <TableRow key={product.id} className={`transition-colors cursor-pointer ${isLowStock(product) ? "bg-gradient-to-r from-destructive/10 to-warning/10 hover:from-destructive/20 hover:to-warning/20" : index % 2 === 0 ? "bg-card hover:bg-muted/30" : "bg-muted/20 hover:bg-muted/40"}`} onClick={() => navigate(`/inventory/${product.id}`)}>
+    <TableCell className="font-medium">
+      <div className={`flex items-center gap-2 ${parent ? "pl-8" : ""}`}>
+        <span className={isLowStock(product) ? "text-destructive font-semibold" : ""}>{parent ? variantName(product, parent) : product.name}</span>
+        {isLowStock(product) && <Badge className="text-xs bg-gradient-to-r from-destructive to-warning text-destructive-foreground animate-pulse">
+            Low Stock
+          </Badge>}
+      </div>
+    </TableCell>
+    <TableCell className="text-muted-foreground">{product.sku || "-"}</TableCell>
+    <TableCell>
+      {product.category ? <Badge variant="outline" className="border-secondary/30 text-secondary">
+          {product.category}
+        </Badge> : "-"}
+    </TableCell>
+    <TableCell className={`text-right font-semibold ${isLowStock(product) ? "text-destructive" : "text-primary"}`}>
+      {product.quantity} <span className="text-xs font-normal text-muted-foreground">{product.unit || 'pc'}</span>
+    </TableCell>
+    <TableCell className="text-right text-muted-foreground">₹{product.purchase_price.toFixed(2)}</TableCell>
+    <TableCell className="text-right font-medium text-success">₹{product.unit_price.toFixed(2)}</TableCell>
+    <TableCell className="text-right">
+      <div className="flex flex-col items-end">
+        <span className="font-medium text-info">₹{getProfitMargin(product).toFixed(2)}</span>
+        <span className={`text-xs ${getProfitPercentage(product) >= 0 ? 'text-success' : 'text-destructive'}`}>
+          {getProfitPercentage(product).toFixed(1)}%
+        </span>
+      </div>
+    </TableCell>
+    <TableCell className="text-right">
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); handleEdit(product); }} className="hover:bg-primary/10 hover:text-primary">
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); handleDelete(product.id); }} className="hover:bg-destructive/10 hover:text-destructive">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </TableCell>
+  </TableRow>;
+  const renderGroupRows = ({ product, variants }: ProductGroup, index: number) => {
+    const lowCount = variants.filter(isLowStock).length;
+    return [<TableRow key={product.id} className={`transition-colors cursor-pointer ${lowCount > 0 ? "bg-gradient-to-r from-destructive/10 to-warning/10 hover:from-destructive/20 hover:to-warning/20" : index % 2 === 0 ? "bg-card hover:bg-muted/30" : "bg-muted/20 hover:bg-muted/40"}`} onClick={() => navigate(`/inventory/${product.id}`)}>
+        <TableCell className="font-medium">
+          <div className="flex items-center gap-2">
+            <button type="button" className="p-1 -ml-1" onClick={(e) => { e.stopPropagation(); toggleExpanded(product.id); }}>
+              <ChevronRight className={`h-4 w-4 text-muted-foreground transition-transform ${isGroupExpanded(product) ? "rotate-90" : ""}`} />
+            </button>
+            <span>{product.name}</span>
+            <Badge variant="outline" className="text-xs">{variants.length} variant{variants.length === 1 ? "" : "s"}</Badge>
+            {lowCount > 0 && <Badge className="text-xs bg-gradient-to-r from-destructive to-warning text-destructive-foreground">
+                {lowCount} Low Stock
+              </Badge>}
+          </div>
+        </TableCell>
+        <TableCell className="text-muted-foreground">{product.sku || "-"}</TableCell>
+        <TableCell>
+          {product.category ? <Badge variant="outline" className="border-secondary/30 text-secondary">
+              {product.category}
+            </Badge> : "-"}
+        </TableCell>
+        <TableCell className={`text-right font-semibold ${lowCount > 0 ? "text-destructive" : "text-primary"}`}>
+          {variants.reduce((sum, v) => sum + v.quantity, 0)} <span className="text-xs font-normal text-muted-foreground">{product.unit || 'pc'}</span>
+        </TableCell>
+        <TableCell className="text-right text-muted-foreground">{priceRange(variants.map((v) => v.purchase_price))}</TableCell>
+        <TableCell className="text-right font-medium text-success">{priceRange(variants.map((v) => v.unit_price))}</TableCell>
+        <TableCell className="text-right text-muted-foreground">-</TableCell>
+        <TableCell className="text-right">
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); setVariantsProduct(product); }} className="hover:bg-primary/10 hover:text-primary">
+              <Layers className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); handleEdit(product); }} className="hover:bg-primary/10 hover:text-primary">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); handleDelete(product.id); }} className="hover:bg-destructive/10 hover:text-destructive">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>, ...(isGroupExpanded(product) ? variants.map((variant, i) => renderProductRow(variant, index + i + 1, product)) : [])];
+  };
   return <div className="p-4 md:p-8 space-y-4 md:space-y-8 pb-24 md:pb-8">
       <div className="flex flex-col gap-4">
         <div>
@@ -370,6 +706,10 @@ const Inventory = () => {
             <Printer className="h-4 w-4 sm:mr-2 text-secondary" />
             <span className="hidden sm:inline">Print</span>
           </Button>
+          <Button variant="outline" size="sm" onClick={handleReconcile} disabled={isReconciling} className="border-warning hover:bg-warning/10 flex-1 sm:flex-none">
+            <ShieldCheck className="h-4 w-4 sm:mr-2 text-warning" />
+            <span className="hidden sm:inline">Reconcile</span>
+          </Button>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
               <Button onClick={resetForm} size="sm" className="bg-gradient-primary shadow-colorful hover:shadow-glow-md flex-1 sm:flex-none bg-success">
@@ -414,6 +754,18 @@ const Inventory = () => {
                   sku: e.target.value
                 })} className="border-primary/20 focus:border-primary" />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="barcode">Barcode</Label>
+                <div className="flex gap-2">
+                  <Input id="barcode" value={formData.barcode} onChange={(e) => setFormData({
+                    ...formData,
+                    barcode: e.target.value
+                  })} placeholder="EAN / UPC" className="border-primary/20 focus:border-primary" />
+                  <Button type="button" variant="outline" size="icon" className="flex-shrink-0" onClick={() => setScanTarget("form")} title="Scan barcode">
+                    <ScanLine className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="category">Category</Label>
                 <Popover>
@@ -486,7 +838,8 @@ const Inventory = () => {
                   <Input id="quantity" type="number" value={formData.quantity} onChange={(e) => setFormData({
                     ...formData,
                     quantity: Number(e.target.value)
-                  })} required className="border-primary/20 focus:border-primary" />
+                  })} required disabled={!!editingProduct && isVariantParent(editingProduct)} className="border-primary/20 focus:border-primary" />
+                  {editingProduct && isVariantParent(editingProduct) ? <p className="text-xs text-muted-foreground">Stock is kept per variant</p> : locations.length > 1 && <p className="text-xs text-muted-foreground">Changes post to {locations.find((l) => l.is_default)?.name}</p>}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="purchase_price">Purchase Price *</Label>
@@ -521,21 +874,53 @@ const Inventory = () => {
                   </div>
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="mrp">MRP</Label>
+                <Input id="mrp" type="number" step="0.01" min="0" value={formData.mrp} onChange={(e) => setFormData({
+                  ...formData,
+                  mrp: e.target.value
+                })} placeholder="Printed on labels" className="border-primary/20 focus:border-primary" />
+              </div>
+              {/* GST */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="hsn_code">HSN/SAC Code</Label>
+                  <Input id="hsn_code" value={formData.hsn_code} onChange={(e) => setFormData({
+                    ...formData,
+                    hsn_code: e.target.value
+                  })} placeholder="e.g. 1006" className="border-primary/20 focus:border-primary" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tax_rate">GST Rate</Label>
+                  <select
+                    id="tax_rate"
+                    value={formData.tax_rate}
+                    onChange={(e) => setFormData({ ...formData, tax_rate: e.target.value })}
+                    className="flex h-10 w-full rounded-md border border-primary/20 bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  >
+                    <option value="">Default rate</option>
+                    {gstRates.map((rate) => (
+                      <option key={rate} value={String(rate)}>{rate}%</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
               {/* Supplier & Storage */}
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="supplier_name">Supplier Name</Label>
-                  <Input id="supplier_name" value={formData.supplier_name} onChange={(e) => setFormData({
+                  <Label>Supplier</Label>
+                  <SupplierPicker supplierId={formData.supplier_id} supplierName={formData.supplier_name} allowClear placeholder="Supplier" className="border-primary/20" onSelect={(supplier) => setFormData({
                     ...formData,
-                    supplier_name: e.target.value
-                  })} placeholder="Supplier" className="border-primary/20 focus:border-primary" />
+                    supplier_id: supplier?.id || null,
+                    supplier_name: supplier?.name || ""
+                  })} />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="storage_location">Storage Location</Label>
+                  <Label htmlFor="storage_location">Shelf / Bin</Label>
                   <Input id="storage_location" value={formData.storage_location} onChange={(e) => setFormData({
                     ...formData,
                     storage_location: e.target.value
-                  })} placeholder="Warehouse, Shop..." className="border-primary/20 focus:border-primary" />
+                  })} placeholder="Rack A2, Top shelf..." className="border-primary/20 focus:border-primary" />
                 </div>
               </div>
               {/* Dates */}
@@ -634,96 +1019,152 @@ const Inventory = () => {
       </div>
 
 
+      <Dialog open={isReconcileDialogOpen} onOpenChange={setIsReconcileDialogOpen}>
+        <DialogContent className="w-[95vw] max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Stock Reconciliation</DialogTitle>
+            <DialogDescription>
+              Products whose stock does not match the sum of their recorded movements
+            </DialogDescription>
+          </DialogHeader>
+          {discrepancies.length === 0 ?
+          <p className="text-sm text-muted-foreground text-center py-6">
+              All products match their stock movement history
+            </p> :
+
+          <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Ledger</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {discrepancies.map((d) =>
+              <TableRow key={d.product_id} className="cursor-pointer" onClick={() => navigate(`/inventory/${d.product_id}`)}>
+                    <TableCell className="font-medium">{d.product_name}</TableCell>
+                    <TableCell className="text-right">{d.quantity}</TableCell>
+                    <TableCell className="text-right">{d.ledger_quantity}</TableCell>
+                    <TableCell className="text-right font-bold text-destructive">
+                      {d.difference > 0 ? "+" : ""}{d.difference}
+                    </TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          }
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={isPrintDialogOpen} onOpenChange={setIsPrintDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader className="print:mb-8">
-            <DialogTitle className="text-2xl">Inventory Stock Report</DialogTitle>
+            <DialogTitle className="text-2xl">{printMode === "labels" ? "Product Labels" : "Inventory Stock Report"}</DialogTitle>
             <DialogDescription className="sr-only">
-              View and print inventory stock report or share via WhatsApp
+              View and print inventory stock report or share via WhatsApp, or print barcode labels
             </DialogDescription>
           </DialogHeader>
 
-          <div id="inventory-print-area" className="space-y-6">
-            {/* Column Selection - Hidden on Print */}
-            <div className="print:hidden p-4 bg-muted/30 rounded-lg">
-              <Label className="text-sm font-medium mb-3 block">Select columns to include:</Label>
-              <div className="flex flex-wrap gap-4">
-                {(Object.keys(printColumnLabels) as PrintColumn[]).map((col) => <div key={col} className="flex items-center space-x-2">
-                    <Checkbox id={`col-${col}`} checked={selectedPrintColumns.includes(col)} onCheckedChange={() => togglePrintColumn(col)} />
-                    <Label htmlFor={`col-${col}`} className="text-sm cursor-pointer">
-                      {printColumnLabels[col]}
-                    </Label>
-                  </div>)}
-              </div>
-            </div>
+          <Tabs value={printMode} onValueChange={(value) => setPrintMode(value as "report" | "labels")} className="space-y-4">
+            <TabsList className="grid grid-cols-2 w-full print:hidden">
+              <TabsTrigger value="report" className="text-xs">
+                <Printer className="h-3.5 w-3.5 mr-1" /> Stock Report
+              </TabsTrigger>
+              <TabsTrigger value="labels" className="text-xs">
+                <Tag className="h-3.5 w-3.5 mr-1" /> Labels
+              </TabsTrigger>
+            </TabsList>
 
-            <div className="flex justify-between items-start print:mb-6">
-              <div>
-                <h2 className="text-3xl font-bold text-foreground">INVENTORY REPORT</h2>
-                <p className="text-muted-foreground mt-2">
-                  Generated on {new Date().toLocaleDateString()}
-                </p>
-              </div>
-              <div className="flex gap-2 print:hidden">
-                <Button onClick={handlePrint} variant="outline" size="sm">
-                  <Printer className="h-4 w-4 mr-2" />
-                  Print
-                </Button>
-                <Button onClick={handleWhatsAppShare} variant="outline" size="sm">
-                  <Share2 className="h-4 w-4 mr-2" />
-                  WhatsApp
-                </Button>
-              </div>
-            </div>
+            <TabsContent value="labels">
+              <LabelPrintPanel products={labelProducts} />
+            </TabsContent>
 
-            <div className="border rounded-lg overflow-hidden">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    {selectedPrintColumns.includes('name') && <TableHead>Name</TableHead>}
-                    {selectedPrintColumns.includes('sku') && <TableHead>SKU</TableHead>}
-                    {selectedPrintColumns.includes('quantity') && <TableHead className="text-right">Qty</TableHead>}
-                    {selectedPrintColumns.includes('purchase_price') && <TableHead className="text-right">Purchase</TableHead>}
-                    {selectedPrintColumns.includes('unit_price') && <TableHead className="text-right">Sale</TableHead>}
-                    {selectedPrintColumns.includes('profit') && <TableHead className="text-right">Profit</TableHead>}
-                    {selectedPrintColumns.includes('total_value') && <TableHead className="text-right">Total Value</TableHead>}
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredProducts.map((product) => <TableRow key={product.id}>
-                      {selectedPrintColumns.includes('name') && <TableCell className="font-medium">{product.name}</TableCell>}
-                      {selectedPrintColumns.includes('sku') && <TableCell>{product.sku || "-"}</TableCell>}
-                      {selectedPrintColumns.includes('quantity') && <TableCell className="text-right">{product.quantity}</TableCell>}
-                      {selectedPrintColumns.includes('purchase_price') && <TableCell className="text-right">₹{product.purchase_price.toFixed(2)}</TableCell>}
-                      {selectedPrintColumns.includes('unit_price') && <TableCell className="text-right">₹{product.unit_price.toFixed(2)}</TableCell>}
-                      {selectedPrintColumns.includes('profit') && <TableCell className="text-right text-info">
-                          ₹{getProfitMargin(product).toFixed(2)} ({getProfitPercentage(product).toFixed(1)}%)
-                        </TableCell>}
-                      {selectedPrintColumns.includes('total_value') && <TableCell className="text-right font-semibold">
-                          ₹{(product.quantity * product.unit_price).toFixed(2)}
-                        </TableCell>}
-                    </TableRow>)}
-                </TableBody>
-              </Table>
-            </div>
+            <TabsContent value="report">
+              <div id="inventory-print-area" className="space-y-6">
+                {/* Column Selection - Hidden on Print */}
+                <div className="print:hidden p-4 bg-muted/30 rounded-lg">
+                  <Label className="text-sm font-medium mb-3 block">Select columns to include:</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {(Object.keys(printColumnLabels) as PrintColumn[]).map((col) => <div key={col} className="flex items-center space-x-2">
+                        <Checkbox id={`col-${col}`} checked={selectedPrintColumns.includes(col)} onCheckedChange={() => togglePrintColumn(col)} />
+                        <Label htmlFor={`col-${col}`} className="text-sm cursor-pointer">
+                          {printColumnLabels[col]}
+                        </Label>
+                      </div>)}
+                  </div>
+                </div>
 
-            <div className="flex justify-end pt-4 border-t">
-              <div className="w-72 space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Total Products:</span>
-                  <span className="text-foreground font-medium">{filteredProducts.length}</span>
+                <div className="flex justify-between items-start print:mb-6">
+                  <div>
+                    <h2 className="text-3xl font-bold text-foreground">INVENTORY REPORT</h2>
+                    <p className="text-muted-foreground mt-2">
+                      Generated on {new Date().toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 print:hidden">
+                    <Button onClick={handlePrint} variant="outline" size="sm">
+                      <Printer className="h-4 w-4 mr-2" />
+                      Print
+                    </Button>
+                    <Button onClick={handleWhatsAppShare} variant="outline" size="sm">
+                      <Share2 className="h-4 w-4 mr-2" />
+                      WhatsApp
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {selectedPrintColumns.includes('name') && <TableHead>Name</TableHead>}
+                        {selectedPrintColumns.includes('sku') && <TableHead>SKU</TableHead>}
+                        {selectedPrintColumns.includes('quantity') && <TableHead className="text-right">Qty</TableHead>}
+                        {selectedPrintColumns.includes('purchase_price') && <TableHead className="text-right">Purchase</TableHead>}
+                        {selectedPrintColumns.includes('unit_price') && <TableHead className="text-right">Sale</TableHead>}
+                        {selectedPrintColumns.includes('profit') && <TableHead className="text-right">Profit</TableHead>}
+                        {selectedPrintColumns.includes('total_value') && <TableHead className="text-right">Total Value</TableHead>}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredProducts.map((product) => <TableRow key={product.id}>
+                          {selectedPrintColumns.includes('name') && <TableCell className="font-medium">{product.name}</TableCell>}
+                          {selectedPrintColumns.includes('sku') && <TableCell>{product.sku || "-"}</TableCell>}
+                          {selectedPrintColumns.includes('quantity') && <TableCell className="text-right">{product.quantity}</TableCell>}
+                          {selectedPrintColumns.includes('purchase_price') && <TableCell className="text-right">₹{product.purchase_price.toFixed(2)}</TableCell>}
+                          {selectedPrintColumns.includes('unit_price') && <TableCell className="text-right">₹{product.unit_price.toFixed(2)}</TableCell>}
+                          {selectedPrintColumns.includes('profit') && <TableCell className="text-right text-info">
+                              ₹{getProfitMargin(product).toFixed(2)} ({getProfitPercentage(product).toFixed(1)}%)
+                            </TableCell>}
+                          {selectedPrintColumns.includes('total_value') && <TableCell className="text-right font-semibold">
+                              ₹{(product.quantity * product.unit_price).toFixed(2)}
+                            </TableCell>}
+                        </TableRow>)}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="flex justify-end pt-4 border-t">
+                  <div className="w-72 space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Total Products:</span>
+                      <span className="text-foreground font-medium">{filteredProducts.length}</span>
+                    </div>
+                    {selectedPrintColumns.includes('total_value') && <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Total Inventory Value:</span>
+                        <span className="text-foreground font-medium">₹{totalInventoryValue.toFixed(2)}</span>
+                      </div>}
+                    {selectedPrintColumns.includes('profit') && <div className="flex justify-between text-lg font-bold pt-2 border-t text-info">
+                        <span>Total Profit Margin:</span>
+                        <span>₹{totalProfitMargin.toFixed(2)}</span>
+                      </div>}
+                  </div>
                 </div>
-                {selectedPrintColumns.includes('total_value') && <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Total Inventory Value:</span>
-                    <span className="text-foreground font-medium">₹{totalInventoryValue.toFixed(2)}</span>
-                  </div>}
-                {selectedPrintColumns.includes('profit') && <div className="flex justify-between text-lg font-bold pt-2 border-t text-info">
-                    <span>Total Profit Margin:</span>
-                    <span>₹{totalProfitMargin.toFixed(2)}</span>
-                  </div>}
               </div>
-            </div>
-          </div>
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
 
@@ -745,64 +1186,31 @@ const Inventory = () => {
               </div>
             </div>
             <div className="flex flex-col sm:flex-row gap-3 w-full px-0 py-0">
-              <Input placeholder="Search products..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="flex-1 border-primary/20 focus:border-primary" />
+              <div className="flex gap-2 flex-1">
+                <Input placeholder="Search products..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="flex-1 border-primary/20 focus:border-primary" />
+                <Button variant="outline" size="icon" className="flex-shrink-0" onClick={() => setScanTarget("find")} title="Scan to find a product">
+                  <ScanLine className="h-4 w-4" />
+                </Button>
+              </div>
               <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)} className="flex h-10 w-full sm:w-48 rounded-md border border-secondary/30 bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-secondary focus-visible:ring-offset-2">
                 <option value="">All Categories</option>
                 {categories.map((cat) => <option key={cat} value={cat || ""}>
                     {cat}
                   </option>)}
               </select>
+              {locations.length > 1 && <select value={locationFilter} onChange={(e) => setLocationFilter(e.target.value)} className="flex h-10 w-full sm:w-48 rounded-md border border-secondary/30 bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-secondary focus-visible:ring-offset-2">
+                  <option value="">All Locations</option>
+                  {locations.map((location) => <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>)}
+                </select>}
             </div>
           </div>
         </CardHeader>
 
         {/* Mobile Card View - Compact */}
         {isMobile ? <CardContent className="p-2 space-y-2">
-            {filteredProducts.map((product) => <Card key={product.id} className={`border-0 shadow-sm overflow-hidden cursor-pointer transition-shadow hover:shadow-md ${isLowStock(product) ? "bg-destructive/5" : ""}`} onClick={() => navigate(`/inventory/${product.id}`)}>
-                <div className={`h-0.5 ${isLowStock(product) ? "bg-destructive" : "gradient-primary"}`} />
-                <CardContent className="p-3 px-[9px] py-0">
-                  {/* Main Row */}
-                  <div className="flex items-center justify-between gap-2">
-                    <div className="min-w-0 flex-1">
-                      <p className="font-semibold text-sm truncate">{product.name}</p>
-                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                        {product.sku && <span>SKU: {product.sku}</span>}
-                        {product.category && <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 border-secondary/30 text-secondary">
-                            {product.category}
-                          </Badge>}
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-3 flex-shrink-0">
-                      <div className="text-right">
-                        <p className={`text-base font-bold ${isLowStock(product) ? "text-destructive" : "text-primary"}`}>
-                          {product.quantity} <span className="text-xs font-normal text-muted-foreground">{product.unit || 'pc'}</span>
-                        </p>
-                        <p className="text-[10px] text-muted-foreground">in stock</p>
-                      </div>
-                      {isLowStock(product) && <Badge className="text-[10px] px-1.5 bg-destructive/80">Low</Badge>}
-                    </div>
-                  </div>
-                  
-                  {/* Price & Actions Row */}
-                  <div className="flex items-center justify-between mt-2 pt-2 border-t border-border/30">
-                    <div className="flex items-center gap-3 text-xs">
-                      <span className="text-muted-foreground">₹{product.purchase_price.toFixed(0)}</span>
-                      <span className="text-success font-medium">→ ₹{product.unit_price.toFixed(0)}</span>
-                      <span className={`font-medium ${getProfitPercentage(product) >= 0 ? 'text-info' : 'text-destructive'}`}>
-                        +{getProfitPercentage(product).toFixed(0)}%
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={(e) => { e.stopPropagation(); handleEdit(product); }}>
-                        <Pencil className="h-3.5 w-3.5" />
-                      </Button>
-                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive" onClick={(e) => { e.stopPropagation(); handleDelete(product.id); }}>
-                        <Trash2 className="h-3.5 w-3.5" />
-                      </Button>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>)}
+            {productGroups.map((group) => isVariantParent(group.product) ? renderGroupCard(group) : renderProductCard(group.product))}
             {filteredProducts.length === 0 && <p className="text-center text-muted-foreground py-6 text-sm">No products found</p>}
           </CardContent> : (/* Desktop Table View */
       <CardContent className="pt-6">
@@ -820,49 +1228,14 @@ const Inventory = () => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredProducts.map((product, index) => <TableRow key={product.id} className={`transition-colors cursor-pointer ${isLowStock(product) ? "bg-gradient-to-r from-destructive/10 to-warning/10 hover:from-destructive/20 hover:to-warning/20" : index % 2 === 0 ? "bg-card hover:bg-muted/30" : "bg-muted/20 hover:bg-muted/40"}`} onClick={() => navigate(`/inventory/${product.id}`)}>
-                    <TableCell className="font-medium">
-                      <div className="flex items-center gap-2">
-                        <span className={isLowStock(product) ? "text-destructive font-semibold" : ""}>{product.name}</span>
-                        {isLowStock(product) && <Badge className="text-xs bg-gradient-to-r from-destructive to-warning text-destructive-foreground animate-pulse">
-                            Low Stock
-                          </Badge>}
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-muted-foreground">{product.sku || "-"}</TableCell>
-                    <TableCell>
-                      {product.category ? <Badge variant="outline" className="border-secondary/30 text-secondary">
-                          {product.category}
-                        </Badge> : "-"}
-                    </TableCell>
-                    <TableCell className={`text-right font-semibold ${isLowStock(product) ? "text-destructive" : "text-primary"}`}>
-                      {product.quantity} <span className="text-xs font-normal text-muted-foreground">{product.unit || 'pc'}</span>
-                    </TableCell>
-                    <TableCell className="text-right text-muted-foreground">₹{product.purchase_price.toFixed(2)}</TableCell>
-                    <TableCell className="text-right font-medium text-success">₹{product.unit_price.toFixed(2)}</TableCell>
-                    <TableCell className="text-right">
-                      <div className="flex flex-col items-end">
-                        <span className="font-medium text-info">₹{getProfitMargin(product).toFixed(2)}</span>
-                        <span className={`text-xs ${getProfitPercentage(product) >= 0 ? 'text-success' : 'text-destructive'}`}>
-                          {getProfitPercentage(product).toFixed(1)}%
-                        </span>
-                      </div>
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <div className="flex justify-end gap-2">
-                        <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); handleEdit(product); }} className="hover:bg-primary/10 hover:text-primary">
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button variant="ghost" size="icon" onClick={(e) => { e.stopPropagation(); handleDelete(product.id); }} className="hover:bg-destructive/10 hover:text-destructive">
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>)}
+                {productGroups.map((group, index) => isVariantParent(group.product) ? renderGroupRows(group, index) : renderProductRow(group.product, index))}
               </TableBody>
             </Table>
           </CardContent>)}
       </Card>
+
+      <ProductVariantsDialog product={variantsProduct} open={!!variantsProduct} onOpenChange={(open) => !open && setVariantsProduct(null)} onSaved={fetchProducts} />
+      <BarcodeScannerDialog open={!!scanTarget} onOpenChange={(open) => !open && setScanTarget(null)} onDetected={handleScannedCode} />
     </div>;
 };
 export default Inventory;
\ No newline at end of file
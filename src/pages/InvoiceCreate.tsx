@@ -19,12 +19,19 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import { useSettings } from "@/contexts/SettingsContext";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { useCompanyStateCode } from "@/hooks/useCompanyStateCode";
+import { calculateGstTotals, DiscountType, gstStates, isInterState } from "@/lib/gst";
+import { DiscountInput } from "@/components/DiscountInput";
+import { BatchSelect } from "@/components/BatchSelect";
+import { DocumentCurrencyFields } from "@/components/DocumentCurrencyFields";
+import { currencySymbol } from "@/lib/currency";
 
 type Client = {
   id: string;
   name: string;
   email: string | null;
   phone: string | null;
+  state_code: string | null;
 };
 type Product = {
   id: string;
@@ -33,6 +40,8 @@ type Product = {
   unit_price: number;
   sku: string | null;
   quantity: number;
+  hsn_code: string | null;
+  tax_rate: number | null;
 };
 const invoiceSchema = z.object({
   customer_name: z.string().min(1, "Customer name is required"),
@@ -48,6 +57,12 @@ type InvoiceItem = {
   description: string;
   quantity: number;
   unit_price: number;
+  hsn_code: string | null;
+  tax_rate: number;
+  discount_type: DiscountType;
+  discount_value: number;
+  // Batch picked by hand; otherwise stock goes first-expiry-first-out
+  batch_id?: string | null;
 };
 const InvoiceCreate = () => {
   const navigate = useNavigate();
@@ -57,14 +72,26 @@ const InvoiceCreate = () => {
     product_id: "",
     description: "",
     quantity: 1,
-    unit_price: 0
+    unit_price: 0,
+    hsn_code: null,
+    tax_rate: settings.default_tax_rate,
+    discount_type: "percent",
+    discount_value: 0
   }]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [products, setProducts] = useState<Product[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [customerPopoverOpen, setCustomerPopoverOpen] = useState(false);
   const [taxEnabled, setTaxEnabled] = useState(settings.tax_enabled);
-  const [taxRate, setTaxRate] = useState(settings.default_tax_rate);
+  const companyState = useCompanyStateCode();
+  const [placeOfSupply, setPlaceOfSupply] = useState("");
+  const [clientId, setClientId] = useState<string | null>(null);
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [discountValue, setDiscountValue] = useState(0);
+  const [roundOff, setRoundOff] = useState(false);
+  const [currencyCode, setCurrencyCode] = useState(settings.currency_code);
+  const [exchangeRate, setExchangeRate] = useState(1);
+  const dcs = currencySymbol(currencyCode);
   const [searchOpen, setSearchOpen] = useState(false);
   const [productSearch, setProductSearch] = useState("");
   const form = useForm<InvoiceFormData>({
@@ -83,10 +110,17 @@ const InvoiceCreate = () => {
     fetchClients();
   }, []);
 
+  // Sales to an unknown state default to the business's own state
+  useEffect(() => {
+    if (companyState && !placeOfSupply) {
+      setPlaceOfSupply(companyState);
+    }
+  }, [companyState]);
+
   const fetchClients = async () => {
     const { data, error } = await supabase.
     from("clients").
-    select("id, name, email, phone").
+    select("id, name, email, phone, state_code").
     order("name");
     if (error) {
       if (import.meta.env.DEV) {
@@ -102,12 +136,18 @@ const InvoiceCreate = () => {
     if (client.email) {
       form.setValue("customer_email", client.email);
     }
+    setClientId(client.id);
+    if (client.state_code) {
+      setPlaceOfSupply(client.state_code);
+    }
     setCustomerPopoverOpen(false);
   };
   const fetchProducts = async () => {
     const { data, error } = await supabase.
     from("products").
-    select("id, name, description, unit_price, sku, quantity").
+    select("id, name, description, unit_price, sku, quantity, hsn_code, tax_rate").
+    // Variants are sold, not the product they belong to
+    is("variant_options", null).
     order("name");
     if (error) {
       toast.error("Failed to load products");
@@ -134,7 +174,12 @@ const InvoiceCreate = () => {
         product_id: product.id,
         description: product.name,
         quantity: 1,
-        unit_price: Number(product.unit_price)
+        // Catalogue prices are in the base currency
+        unit_price: Math.round(Number(product.unit_price) / (exchangeRate || 1) * 100) / 100,
+        hsn_code: product.hsn_code,
+        tax_rate: product.tax_rate ?? settings.default_tax_rate,
+        discount_type: "percent",
+        discount_value: 0
       }]);
       toast.success(`${product.name} added`);
     }
@@ -147,7 +192,7 @@ const InvoiceCreate = () => {
       setItems(items.filter((_, i) => i !== index));
     } else {
       // Reset to empty item if last one
-      setItems([{ product_id: "", description: "", quantity: 1, unit_price: 0 }]);
+      setItems([{ product_id: "", description: "", quantity: 1, unit_price: 0, hsn_code: null, tax_rate: settings.default_tax_rate, discount_type: "percent", discount_value: 0 }]);
     }
   };
   const updateItem = (index: number, field: keyof InvoiceItem, value: string | number) => {
@@ -158,17 +203,28 @@ const InvoiceCreate = () => {
     };
     setItems(newItems);
   };
-  const calculateTotals = () => {
-    const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
-    const tax = taxEnabled ? subtotal * (taxRate / 100) : 0;
-    const total = subtotal + tax;
-    return {
-      subtotal,
-      tax,
-      total
-    };
+  const updateItemDiscount = (index: number, type: DiscountType, value: number) => {
+    const newItems = [...items];
+    newItems[index] = { ...newItems[index], discount_type: type, discount_value: value };
+    setItems(newItems);
   };
+  const updateItemBatch = (index: number, batchId: string | null) => {
+    const newItems = [...items];
+    newItems[index] = { ...newItems[index], batch_id: batchId };
+    setItems(newItems);
+  };
+  const interState = isInterState(companyState, placeOfSupply);
+  // Tax is worked out on each line at the item's own rate, after discounts
+  const calculateTotals = () => calculateGstTotals(
+    items.map((item) => ({ ...item, tax_rate: taxEnabled ? item.tax_rate : 0 })),
+    interState,
+    { discount_type: discountType, discount_value: discountValue, round_off: roundOff }
+  );
   const onSubmit = async (data: InvoiceFormData) => {
+    if (currencyCode !== settings.currency_code && exchangeRate <= 0) {
+      toast.error(`Enter the exchange rate for ${currencyCode}`);
+      return;
+    }
     setIsSubmitting(true);
     try {
       const {
@@ -182,66 +238,56 @@ const InvoiceCreate = () => {
       }
       const {
         subtotal,
+        discount_amount,
+        round_off,
         tax,
-        total
+        total,
+        lines
       } = calculateTotals();
 
-      // Generate invoice number
-      const invoiceNumber = `INV-${Date.now()}`;
-
-      // Create invoice
-      const {
-        data: invoice,
-        error: invoiceError
-      } = await supabase.from("invoices").insert({
-        invoice_number: invoiceNumber,
-        user_id: user.id,
-        customer_name: data.customer_name,
-        customer_email: data.customer_email || null,
-        issue_date: data.issue_date,
-        due_date: data.due_date || null,
-        status: data.status,
-        notes: data.notes || null,
-        subtotal,
-        tax,
-        total
-      }).select().single();
-      if (invoiceError) throw invoiceError;
-
-      // Create invoice items
-      const itemsToInsert = items.filter((item) => item.description && item.quantity > 0 && item.unit_price > 0).map((item) => ({
-        invoice_id: invoice.id,
+      const itemsToInsert = items.map((item, index) => ({
         product_id: item.product_id || null,
+        batch_id: item.batch_id || null,
         description: item.description,
         quantity: item.quantity,
         unit_price: item.unit_price,
-        amount: item.quantity * item.unit_price
-      }));
-      if (itemsToInsert.length > 0) {
-        const {
-          error: itemsError
-        } = await supabase.from("invoice_items").insert(itemsToInsert);
-        if (itemsError) throw itemsError;
-
-        // Decrease product quantities in inventory
-        for (const item of itemsToInsert) {
-          if (item.product_id) {
-            const product = products.find((p) => p.id === item.product_id);
-            if (product) {
-              const {
-                error: updateError
-              } = await supabase.from("products").update({
-                quantity: Math.max(0, (product as any).quantity - item.quantity)
-              }).eq("id", item.product_id);
-              if (updateError) {
-                if (import.meta.env.DEV) {
-                  console.error("Failed to update product quantity:", updateError);
-                }
-              }
-            }
-          }
-        }
-      }
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        discount_amount: lines[index].discount_amount,
+        hsn_code: item.hsn_code,
+        tax_rate: lines[index].tax_rate,
+        cgst: lines[index].cgst,
+        sgst: lines[index].sgst,
+        igst: lines[index].igst
+      })).filter((item) => item.description && item.quantity > 0 && item.unit_price > 0);
+
+      // Create invoice, items and stock deduction in one transaction.
+      // The invoice number is assigned from the numbering sequence on insert.
+      const {
+        error: invoiceError
+      } = await supabase.rpc("create_invoice", {
+        p_invoice: {
+          customer_name: data.customer_name,
+          customer_email: data.customer_email || null,
+          client_id: clientId,
+          place_of_supply: placeOfSupply || null,
+          currency_code: currencyCode,
+          exchange_rate: currencyCode === settings.currency_code ? 1 : exchangeRate,
+          issue_date: data.issue_date,
+          due_date: data.due_date || null,
+          status: data.status,
+          notes: data.notes || null,
+          subtotal,
+          discount_type: discountType,
+          discount_value: discountValue,
+          discount_amount,
+          round_off,
+          tax,
+          total
+        },
+        p_items: itemsToInsert
+      });
+      if (invoiceError) throw invoiceError;
       toast.success("Invoice created successfully");
       navigate("/invoices");
     } catch (error) {
@@ -254,8 +300,14 @@ const InvoiceCreate = () => {
     }
   };
   const {
+    lines,
     subtotal,
+    discount_amount,
+    cgst,
+    sgst,
+    igst,
     tax,
+    round_off,
     total
   } = calculateTotals();
   return <div className="p-4 md:p-8 space-y-4 md:space-y-8 pb-24 md:pb-8">
@@ -307,7 +359,10 @@ const InvoiceCreate = () => {
                         <Command>
                           <CommandInput
                       placeholder="Search or add customer..."
-                      onValueChange={(value) => form.setValue("customer_name", value)} />
+                      onValueChange={(value) => {
+                        form.setValue("customer_name", value);
+                        setClientId(null);
+                      }} />
 
                           <CommandList>
                             <CommandEmpty>
@@ -383,6 +438,15 @@ const InvoiceCreate = () => {
                       <FormMessage />
                     </FormItem>} />
               </div>
+              <DocumentCurrencyFields
+                table="invoices"
+                currencyCode={currencyCode}
+                exchangeRate={exchangeRate}
+                onChange={(code, rate) => {
+                  setCurrencyCode(code);
+                  setExchangeRate(rate);
+                }}
+              />
               <FormField control={form.control} name="status" render={({
               field
             }) => <FormItem>
@@ -499,9 +563,35 @@ const InvoiceCreate = () => {
                         {/* Product Name */}
                         <div className="flex-1 min-w-0">
                           <p className="font-medium text-sm md:text-base truncate">{item.description}</p>
-                          <p className="text-xs text-muted-foreground">
-                            {settings.currency_symbol}{item.unit_price} each
-                          </p>
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <span>{dcs}{item.unit_price} each</span>
+                            {taxEnabled &&
+                        <>
+                                <span>·</span>
+                                <Input
+                            type="number"
+                            aria-label={`${settings.tax_name} rate`}
+                            value={item.tax_rate}
+                            onChange={(e) => updateItem(actualIndex, "tax_rate", Number(e.target.value))}
+                            className="w-12 h-6 text-center text-xs px-0"
+                            min={0}
+                            max={100}
+                            step={0.25} />
+                                <span>%</span>
+                              </>
+                        }
+                          </div>
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                            <span>Disc</span>
+                            <DiscountInput
+                          type={item.discount_type}
+                          value={item.discount_value}
+                          onChange={(type, value) => updateItemDiscount(actualIndex, type, value)} />
+                          </div>
+                          <BatchSelect
+                        productId={item.product_id}
+                        value={item.batch_id || null}
+                        onChange={(batchId) => updateItemBatch(actualIndex, batchId)} />
                         </div>
                         
                         {/* Quantity Controls */}
@@ -540,8 +630,13 @@ const InvoiceCreate = () => {
                         {/* Amount */}
                         <div className="text-right min-w-[60px]">
                           <p className="font-semibold text-sm md:text-base">
-                            {settings.currency_symbol}{(item.quantity * item.unit_price).toFixed(0)}
+                            {dcs}{lines[actualIndex].amount.toFixed(0)}
                           </p>
+                          {lines[actualIndex].discount_amount > 0 &&
+                      <p className="text-[10px] text-muted-foreground line-through">
+                              {dcs}{lines[actualIndex].gross.toFixed(0)}
+                            </p>
+                      }
                         </div>
                         
                         {/* Delete */}
@@ -564,42 +659,96 @@ const InvoiceCreate = () => {
               <div className="border-t pt-3 mt-3 space-y-2">
                 <div className="flex justify-between text-xs md:text-sm">
                   <span className="text-muted-foreground">Subtotal</span>
-                  <span>{settings.currency_symbol}{subtotal.toFixed(2)}</span>
+                  <span>{dcs}{subtotal.toFixed(2)}</span>
+                </div>
+
+                {/* Document Discount */}
+                <div className="flex items-center justify-between gap-2 text-xs md:text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">Discount</span>
+                    <DiscountInput
+                    type={discountType}
+                    value={discountValue}
+                    onChange={(type, value) => {
+                      setDiscountType(type);
+                      setDiscountValue(value);
+                    }} />
+                  </div>
+                  <span>-{dcs}{discount_amount.toFixed(2)}</span>
+                </div>
+                
+                {/* Tax Toggle, Place of Supply and Split */}
+                <div className="p-2 rounded-lg bg-muted/50 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                      id="tax-toggle"
+                      checked={taxEnabled}
+                      onCheckedChange={setTaxEnabled} />
+
+                      <Label htmlFor="tax-toggle" className="text-xs md:text-sm text-muted-foreground">
+                        {settings.tax_name}
+                      </Label>
+                    </div>
+                    {taxEnabled && <span className="font-medium text-sm">{dcs}{tax.toFixed(2)}</span>}
+                  </div>
+                  {taxEnabled &&
+                <>
+                      <div className="flex items-center justify-between gap-2">
+                        <Label className="text-xs text-muted-foreground">Place of Supply</Label>
+                        <Select value={placeOfSupply} onValueChange={setPlaceOfSupply}>
+                          <SelectTrigger className="h-8 w-44 md:w-56 text-xs">
+                            <SelectValue placeholder="Select state" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {gstStates.map((state) =>
+                        <SelectItem key={state.code} value={state.code}>{state.code} - {state.name}</SelectItem>
+                        )}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {interState ?
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>IGST</span>
+                          <span>{dcs}{igst.toFixed(2)}</span>
+                        </div> :
+
+                  <>
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>CGST</span>
+                            <span>{dcs}{cgst.toFixed(2)}</span>
+                          </div>
+                          <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>SGST</span>
+                            <span>{dcs}{sgst.toFixed(2)}</span>
+                          </div>
+                        </>
+                  }
+                    </>
+                }
                 </div>
                 
-                {/* Tax Toggle and Rate */}
-                <div className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/50">
+                <div className="flex items-center justify-between gap-2 text-xs md:text-sm">
                   <div className="flex items-center gap-2">
                     <Switch
-                    id="tax-toggle"
-                    checked={taxEnabled}
-                    onCheckedChange={setTaxEnabled} />
+                    id="round-off-toggle"
+                    checked={roundOff}
+                    onCheckedChange={setRoundOff} />
 
-                    <Label htmlFor="tax-toggle" className="text-xs md:text-sm text-muted-foreground">
-                      {settings.tax_name}
+                    <Label htmlFor="round-off-toggle" className="text-xs md:text-sm text-muted-foreground">
+                      Round off
                     </Label>
                   </div>
-                  {taxEnabled &&
-                <div className="flex items-center gap-1 md:gap-2">
-                      <Input
-                    type="number"
-                    value={taxRate}
-                    onChange={(e) => setTaxRate(Number(e.target.value))}
-                    className="w-14 md:w-16 h-8 text-center text-sm px-[7px]"
-                    min={0}
-                    max={100}
-                    step={0.1} />
-
-                      <span className="text-xs md:text-sm text-muted-foreground">%</span>
-                      <span className="font-medium text-sm">{settings.currency_symbol}{tax.toFixed(2)}</span>
-                    </div>
-                }
+                  {roundOff && <span>{round_off >= 0 ? "+" : "-"}{dcs}{Math.abs(round_off).toFixed(2)}</span>}
                 </div>
-                
+
                 <div className="flex justify-between text-base md:text-lg font-bold bg-primary/10 p-2 rounded">
                   <span>Total:</span>
-                  <span>{settings.currency_symbol}{total.toFixed(2)}</span>
+                  <span>{dcs}{total.toFixed(2)}</span>
                 </div>
+                {currencyCode !== settings.currency_code && exchangeRate > 0 && <p className="text-right text-xs text-muted-foreground">
+                    {settings.currency_symbol}{(total * exchangeRate).toFixed(2)} at {exchangeRate} {settings.currency_code}/{currencyCode}
+                  </p>}
               </div>
             </CardContent>
           </Card>
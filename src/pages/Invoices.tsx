@@ -6,16 +6,27 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Checkbox } from "@/components/ui/checkbox";
-import { Label } from "@/components/ui/label";
-import { Plus, Printer, Share2, FileText, IndianRupee, Clock, XCircle, Download, MoreHorizontal, Eye, Trash2, Edit2 } from "lucide-react";
+import { Plus, Printer, Share2, FileText, IndianRupee, Clock, XCircle, Download, MoreHorizontal, Eye, Trash2, Edit2, Undo2, Repeat, Mail } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage } from "@/lib/errorUtils";
 import { useNavigate } from "react-router-dom";
 import { CompanyBranding } from "@/components/CompanyBranding";
 import { DocumentFilters, FilterState } from "@/components/DocumentFilters";
 import { SwipeableCard } from "@/components/SwipeableCard";
+import { RecordPaymentDialog } from "@/components/RecordPaymentDialog";
+import { paymentModes } from "@/lib/payments";
+import { CreditNoteDialog, CreditableDocument } from "@/components/CreditNoteDialog";
+import { GstSummary } from "@/components/GstSummary";
+import { RecurringInvoiceDialog } from "@/components/RecurringInvoiceDialog";
+import { SendDocumentDialog } from "@/components/SendDocumentDialog";
+import { DocumentEmailLog } from "@/components/DocumentEmailLog";
+import { PaymentReminderLog } from "@/components/PaymentReminderLog";
+import { useDocumentPdf } from "@/hooks/useDocumentPdf";
+import { PdfDocument } from "@/lib/documentPdf";
+import { useSettings } from "@/contexts/SettingsContext";
+import { currencySymbol, toBase } from "@/lib/currency";
 type Invoice = {
   id: string;
   invoice_number: string;
@@ -27,8 +38,32 @@ type Invoice = {
   total: number;
   subtotal: number;
   tax: number;
+  amount_paid: number;
+  amount_credited: number;
+  balance_due: number;
   notes: string | null;
   client_id: string | null;
+  place_of_supply: string | null;
+  discount_amount: number;
+  round_off: number;
+  currency_code: string;
+  exchange_rate: number;
+};
+type Payment = {
+  id: string;
+  amount: number;
+  payment_date: string;
+  mode: string;
+  reference: string | null;
+  exchange_rate: number;
+  exchange_gain_loss: number;
+};
+type InvoiceCreditNote = {
+  id: string;
+  credit_note_number: string;
+  credit_date: string;
+  total: number;
+  refund_amount: number;
 };
 type InvoiceItem = {
   id: string;
@@ -37,13 +72,12 @@ type InvoiceItem = {
   unit_price: number;
   amount: number;
   product_id: string | null;
-};
-type InvoicePrintColumn = 'description' | 'quantity' | 'unit_price' | 'amount';
-const invoicePrintColumnLabels: Record<InvoicePrintColumn, string> = {
-  description: 'Description',
-  quantity: 'Quantity',
-  unit_price: 'Unit Price',
-  amount: 'Amount'
+  discount_amount: number;
+  hsn_code: string | null;
+  tax_rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
 };
 const invoiceStatusOptions = [{
   value: "draft",
@@ -51,6 +85,9 @@ const invoiceStatusOptions = [{
 }, {
   value: "sent",
   label: "Sent"
+}, {
+  value: "partially_paid",
+  label: "Partially Paid"
 }, {
   value: "paid",
   label: "Paid"
@@ -66,8 +103,14 @@ const Invoices = () => {
   const [filteredInvoices, setFilteredInvoices] = useState<Invoice[]>([]);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [invoiceItems, setInvoiceItems] = useState<InvoiceItem[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentInvoice, setPaymentInvoice] = useState<Invoice | null>(null);
+  const [creditNotes, setCreditNotes] = useState<InvoiceCreditNote[]>([]);
+  const [creditSource, setCreditSource] = useState<CreditableDocument | null>(null);
+  const [repeatInvoice, setRepeatInvoice] = useState<Invoice | null>(null);
+  const [emailInvoice, setEmailInvoice] = useState<Invoice | null>(null);
+  const [emailLogKey, setEmailLogKey] = useState(0);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [selectedPrintColumns, setSelectedPrintColumns] = useState<InvoicePrintColumn[]>(['description', 'quantity', 'unit_price', 'amount']);
   const [filters, setFilters] = useState<FilterState>({
     dateFrom: "",
     dateTo: "",
@@ -76,9 +119,11 @@ const Invoices = () => {
   });
   const navigate = useNavigate();
   const isMobile = useIsMobile();
-  const togglePrintColumn = (col: InvoicePrintColumn) => {
-    setSelectedPrintColumns((prev) => prev.includes(col) ? prev.filter((c) => c !== col) : [...prev, col]);
-  };
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  // Printed and shared documents use the invoice's own currency
+  const dcs = currencySymbol(selectedInvoice?.currency_code);
+  const { generating: pdfGenerating, downloadPdf, printPdf, sharePdf } = useDocumentPdf();
   const fetchInvoices = async () => {
     const {
       data,
@@ -134,23 +179,101 @@ const Invoices = () => {
       setInvoiceItems(data || []);
     }
   };
+  const fetchPayments = async (invoiceId: string) => {
+    const {
+      data,
+      error
+    } = await supabase.from("payments").select("id, amount, payment_date, mode, reference, exchange_rate, exchange_gain_loss").eq("invoice_id", invoiceId).order("payment_date", {
+      ascending: true
+    });
+    if (error) {
+      toast.error("Error fetching payments");
+    } else {
+      setPayments(data || []);
+    }
+  };
+  const fetchCreditNotes = async (invoiceId: string) => {
+    const {
+      data,
+      error
+    } = await supabase.from("credit_notes").select("id, credit_note_number, credit_date, total, refund_amount").eq("invoice_id", invoiceId).order("credit_date", {
+      ascending: true
+    });
+    if (error) {
+      toast.error("Error fetching credit notes");
+    } else {
+      setCreditNotes(data || []);
+    }
+  };
   const handleInvoiceClick = async (invoice: Invoice) => {
     setSelectedInvoice(invoice);
-    await fetchInvoiceItems(invoice.id);
+    await Promise.all([fetchInvoiceItems(invoice.id), fetchPayments(invoice.id), fetchCreditNotes(invoice.id)]);
     setIsDialogOpen(true);
   };
-  const handlePrint = () => {
-    window.print();
+  const handlePaymentRecorded = async () => {
+    if (!selectedInvoice || !isDialogOpen) return;
+    const {
+      data
+    } = await supabase.from("invoices").select("*").eq("id", selectedInvoice.id).single();
+    if (data) setSelectedInvoice(data);
+    fetchPayments(selectedInvoice.id);
+    fetchCreditNotes(selectedInvoice.id);
   };
+  const handleDeletePayment = async (paymentId: string) => {
+    const {
+      error
+    } = await supabase.from("payments").delete().eq("id", paymentId);
+    if (error) {
+      toast.error("Failed to delete payment");
+    } else {
+      toast.deleted("Payment deleted");
+      handlePaymentRecorded();
+    }
+  };
+  const buildInvoicePdf = (invoice: Invoice): PdfDocument => ({
+    type: "invoice",
+    title: "INVOICE",
+    number: invoice.invoice_number,
+    partyLabel: "Bill To",
+    partyName: invoice.customer_name,
+    partyDetails: [invoice.customer_email],
+    details: [
+      { label: "Issue Date", value: new Date(invoice.issue_date).toLocaleDateString('en-IN') },
+      ...(invoice.due_date ? [{ label: "Due Date", value: new Date(invoice.due_date).toLocaleDateString('en-IN') }] : []),
+      ...(invoice.currency_code !== settings.currency_code ? [{ label: "Exchange Rate", value: `1 ${invoice.currency_code} = ${invoice.exchange_rate} ${settings.currency_code}` }] : []),
+      { label: "Status", value: invoiceStatusOptions.find((o) => o.value === invoice.status)?.label || invoice.status }
+    ],
+    currencyCode: invoice.currency_code,
+    items: invoiceItems,
+    taxLines: invoiceItems,
+    placeOfSupply: invoice.place_of_supply,
+    documentDiscount: invoice.discount_amount,
+    totals: [
+      { label: "Subtotal", amount: invoice.subtotal },
+      ...(invoice.discount_amount > 0 ? [{ label: "Discount", amount: -invoice.discount_amount }] : []),
+      { label: settings.tax_name || "Tax", amount: invoice.tax },
+      ...(invoice.round_off !== 0 ? [{ label: "Round off", amount: invoice.round_off }] : []),
+      { label: "Total", amount: invoice.total, emphasis: true },
+      ...(invoice.amount_paid > 0 ? [{ label: "Paid", amount: invoice.amount_paid }] : []),
+      ...(invoice.amount_credited > 0 ? [{ label: "Credited", amount: invoice.amount_credited }] : []),
+      ...(invoice.amount_paid > 0 || invoice.amount_credited > 0 ? [{ label: "Balance Due", amount: invoice.balance_due }] : [])
+    ],
+    notes: invoice.notes
+  });
   const handleSavePDF = () => {
-    toast.info("Select 'Save as PDF' as the printer destination");
-    setTimeout(() => window.print(), 300);
+    if (!selectedInvoice) return;
+    downloadPdf(buildInvoicePdf(selectedInvoice), { table: "invoices", id: selectedInvoice.id });
+  };
+  // Printing goes through the PDF so it follows the invoice template
+  const handlePrint = () => {
+    if (!selectedInvoice) return;
+    printPdf(buildInvoicePdf(selectedInvoice), { table: "invoices", id: selectedInvoice.id });
   };
-  const handleWhatsAppShare = () => {
+  const handleWhatsAppShare = async () => {
     if (!selectedInvoice) return;
     
     const itemsList = invoiceItems.map((item, index) => 
-      `${index + 1}. ${item.description} (${item.quantity} x ₹${item.unit_price.toFixed(2)}) = ₹${item.amount.toFixed(2)}`
+      `${index + 1}. ${item.description} (${item.quantity} x ${dcs}${item.unit_price.toFixed(2)}${item.discount_amount > 0 ? ` - ${dcs}${item.discount_amount.toFixed(2)}` : ''}) = ${dcs}${item.amount.toFixed(2)}`
     ).join('\n');
     
     const message = `*INVOICE: ${selectedInvoice.invoice_number}*
@@ -164,17 +287,21 @@ ${selectedInvoice.due_date ? `⏰ *Due:* ${new Date(selectedInvoice.due_date).to
 ${itemsList}
 
 ━━━━━━━━━━━━━━━
-💰 *Subtotal:* ₹${selectedInvoice.subtotal.toFixed(2)}
-📊 *Tax:* ₹${selectedInvoice.tax.toFixed(2)}
-*Total:* ₹${selectedInvoice.total.toFixed(2)}
+💰 *Subtotal:* ${dcs}${selectedInvoice.subtotal.toFixed(2)}
+${selectedInvoice.discount_amount > 0 ? `🏷️ *Discount:* -${dcs}${selectedInvoice.discount_amount.toFixed(2)}\n` : ''}📊 *Tax:* ${dcs}${selectedInvoice.tax.toFixed(2)}
+${selectedInvoice.round_off !== 0 ? `Round off: ${dcs}${selectedInvoice.round_off.toFixed(2)}\n` : ''}*Total:* ${dcs}${selectedInvoice.total.toFixed(2)}
 ━━━━━━━━━━━━━━━
 ${selectedInvoice.notes ? `\n📝 Notes: ${selectedInvoice.notes}` : ''}
 *Status:* ${selectedInvoice.status.charAt(0).toUpperCase() + selectedInvoice.status.slice(1)}
 
 Thank you for your business! 🙏`;
 
+    // Share the PDF itself where the device allows, otherwise link to the stored copy
+    const { shared, link } = await sharePdf(buildInvoicePdf(selectedInvoice), { table: "invoices", id: selectedInvoice.id }, message);
+    if (shared) return;
+
     const isMobileDevice = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-    const encodedMessage = encodeURIComponent(message);
+    const encodedMessage = encodeURIComponent(link ? `${message}\n\n📄 PDF: ${link}` : message);
     
     if (isMobileDevice) {
       window.location.href = `whatsapp://send?text=${encodedMessage}`;
@@ -184,49 +311,30 @@ Thank you for your business! 🙏`;
       toast.success("Opening WhatsApp Web");
     }
   };
-  const restoreStock = async (invoiceId: string) => {
-    const {
-      data: items,
-      error: itemsError
-    } = await supabase.from("invoice_items").select("product_id, quantity").eq("invoice_id", invoiceId);
-    if (itemsError) {
-      if (import.meta.env.DEV) {
-        console.error("Failed to fetch invoice items for stock restoration:", itemsError);
-      }
-      return false;
+  const handleStatusChange = async (invoiceId: string, newStatus: string, currentStatus: string) => {
+    if (newStatus === "paid" || newStatus === "partially_paid") {
+      // Paid statuses follow recorded payments, so collect the payment instead
+      const invoice = invoices.find((inv) => inv.id === invoiceId);
+      if (invoice && invoice.balance_due > 0) setPaymentInvoice(invoice);
+      return;
     }
-    for (const item of items || []) {
-      if (item.product_id) {
-        const {
-          data: product,
-          error: productError
-        } = await supabase.from("products").select("quantity").eq("id", item.product_id).maybeSingle();
-        if (productError || !product) {
-          if (import.meta.env.DEV) {
-            console.error("Failed to fetch product:", productError);
-          }
-          continue;
-        }
-        const {
-          error: updateError
-        } = await supabase.from("products").update({
-          quantity: product.quantity + item.quantity
-        }).eq("id", item.product_id);
-        if (updateError) {
-          if (import.meta.env.DEV) {
-            console.error("Failed to restore product quantity:", updateError);
-          }
-        }
-      }
+    if ((currentStatus === "paid" || currentStatus === "partially_paid") && newStatus !== "cancelled") {
+      toast.error("Delete the invoice's payments to change its status");
+      return;
     }
-    return true;
-  };
-  const handleStatusChange = async (invoiceId: string, newStatus: string, currentStatus: string) => {
     if (newStatus === "cancelled" && currentStatus !== "cancelled") {
-      const restored = await restoreStock(invoiceId);
-      if (restored) {
-        toast.success("Stock quantities have been restored");
+      // Cancelling restores stock, so it goes through the RPC to stay atomic
+      const {
+        error
+      } = await supabase.rpc("cancel_invoice", {
+        p_invoice_id: invoiceId
+      });
+      if (error) {
+        toast.error(getSafeErrorMessage(error, "Failed to cancel invoice"));
+      } else {
+        toast.success("Invoice cancelled and stock restored");
       }
+      return;
     }
     const {
       error
@@ -239,21 +347,15 @@ Thank you for your business! 🙏`;
       toast.success("Invoice status updated");
     }
   };
-  const handleDeleteInvoice = async (invoiceId: string, currentStatus: string) => {
-    // Restore stock if not already cancelled
-    if (currentStatus !== "cancelled") {
-      await restoreStock(invoiceId);
-    }
-
-    // Delete invoice items first
-    await supabase.from("invoice_items").delete().eq("invoice_id", invoiceId);
-
-    // Delete the invoice
+  const handleDeleteInvoice = async (invoiceId: string) => {
+    // Restores stock (unless already cancelled) and deletes the invoice with its items
     const {
       error
-    } = await supabase.from("invoices").delete().eq("id", invoiceId);
+    } = await supabase.rpc("delete_invoice", {
+      p_invoice_id: invoiceId
+    });
     if (error) {
-      toast.error("Failed to delete invoice");
+      toast.error(getSafeErrorMessage(error, "Failed to delete invoice"));
     } else {
       toast.deleted("Invoice deleted and stock restored");
     }
@@ -268,6 +370,10 @@ Thank you for your business! 🙏`;
         className: "bg-info text-info-foreground",
         icon: Clock
       },
+      partially_paid: {
+        className: "bg-info/15 text-info border border-info/30",
+        icon: IndianRupee
+      },
       paid: {
         className: "bg-success text-success-foreground",
         icon: IndianRupee
@@ -285,19 +391,19 @@ Thank you for your business! 🙏`;
     const Icon = config.icon;
     return <Badge className={`${config.className} flex items-center gap-1`}>
         <Icon className="h-3 w-3" />
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {invoiceStatusOptions.find((o) => o.value === status)?.label || status}
       </Badge>;
   };
 
   // Calculate summary stats from filtered invoices
   const totalInvoices = filteredInvoices.length;
-  const paidInvoices = filteredInvoices.filter((inv) => inv.status === "paid");
-  const pendingInvoices = filteredInvoices.filter((inv) => inv.status === "sent" || inv.status === "draft");
-  const totalRevenue = paidInvoices.reduce((sum, inv) => sum + inv.total, 0);
-  const pendingAmount = pendingInvoices.reduce((sum, inv) => sum + inv.total, 0);
+  const activeInvoices = filteredInvoices.filter((inv) => inv.status !== "cancelled");
+  const pendingInvoices = activeInvoices.filter((inv) => inv.balance_due > 0);
+  const totalRevenue = activeInvoices.reduce((sum, inv) => sum + toBase(inv.amount_paid, inv.exchange_rate), 0);
+  const pendingAmount = pendingInvoices.reduce((sum, inv) => sum + toBase(inv.balance_due, inv.exchange_rate), 0);
   const handleCSVExport = () => {
-    const headers = ['Invoice #', 'Customer', 'Email', 'Issue Date', 'Due Date', 'Status', 'Subtotal', 'Tax', 'Total'];
-    const rows = filteredInvoices.map((inv) => [inv.invoice_number, inv.customer_name, inv.customer_email || '', inv.issue_date, inv.due_date || '', inv.status, inv.subtotal.toFixed(2), inv.tax.toFixed(2), inv.total.toFixed(2)]);
+    const headers = ['Invoice #', 'Customer', 'Email', 'Issue Date', 'Due Date', 'Status', 'Currency', 'Exchange Rate', 'Subtotal', 'Discount', 'Tax', 'Round Off', 'Total', 'Paid', 'Balance Due', `Total (${settings.currency_code})`];
+    const rows = filteredInvoices.map((inv) => [inv.invoice_number, inv.customer_name, inv.customer_email || '', inv.issue_date, inv.due_date || '', inv.status, inv.currency_code, inv.exchange_rate, inv.subtotal.toFixed(2), inv.discount_amount.toFixed(2), inv.tax.toFixed(2), inv.round_off.toFixed(2), inv.total.toFixed(2), inv.amount_paid.toFixed(2), inv.balance_due.toFixed(2), toBase(inv.total, inv.exchange_rate).toFixed(2)]);
     const dateRange = filters.dateFrom || filters.dateTo ? `_${filters.dateFrom || 'start'}_to_${filters.dateTo || 'end'}` : `_${new Date().toISOString().split('T')[0]}`;
     const csvContent = [filters.dateFrom || filters.dateTo ? `Date Range: ${filters.dateFrom || 'All'} to ${filters.dateTo || 'All'}` : '', headers.join(','), ...rows.map((row) => row.map((cell) => `"${cell}"`).join(','))].filter(Boolean).join('\n');
     const blob = new Blob([csvContent], {
@@ -317,6 +423,10 @@ Thank you for your business! 🙏`;
           <p className="text-sm md:text-base text-muted-foreground">Manage invoices and payments</p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => navigate("/invoices/recurring")} className="flex-1 sm:flex-none">
+            <Repeat className="h-4 w-4 sm:mr-2 text-primary" />
+            <span className="hidden sm:inline">Recurring</span>
+          </Button>
           <Button variant="outline" size="sm" onClick={handleCSVExport} className="border-success hover:bg-success/10 flex-1 sm:flex-none">
             <Download className="h-4 w-4 sm:mr-2 text-success" />
             <span className="hidden sm:inline">Export</span>
@@ -350,7 +460,7 @@ Thank you for your business! 🙏`;
           <CardContent className="p-2 md:p-6">
             <div className="text-center">
               <p className="text-[10px] md:text-sm text-muted-foreground truncate">Revenue</p>
-              <p className="text-sm md:text-2xl font-bold text-success">₹{totalRevenue >= 1000 ? `${(totalRevenue / 1000).toFixed(0)}k` : totalRevenue}</p>
+              <p className="text-sm md:text-2xl font-bold text-success">{cs}{totalRevenue >= 1000 ? `${(totalRevenue / 1000).toFixed(0)}k` : totalRevenue.toFixed(0)}</p>
             </div>
           </CardContent>
         </Card>
@@ -360,7 +470,7 @@ Thank you for your business! 🙏`;
           <CardContent className="p-2 md:p-6">
             <div className="text-center">
               <p className="text-[10px] md:text-sm text-muted-foreground truncate">Pending</p>
-              <p className="text-sm md:text-2xl font-bold text-warning">₹{pendingAmount >= 1000 ? `${(pendingAmount / 1000).toFixed(0)}k` : pendingAmount}</p>
+              <p className="text-sm md:text-2xl font-bold text-warning">{cs}{pendingAmount >= 1000 ? `${(pendingAmount / 1000).toFixed(0)}k` : pendingAmount.toFixed(0)}</p>
             </div>
           </CardContent>
         </Card>
@@ -395,11 +505,18 @@ Thank you for your business! 🙏`;
                     </div>
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
-                    <p className={`text-base font-bold ${invoice.status === "paid" ? "text-success" : ""}`}>
-                      ₹{invoice.total.toLocaleString('en-IN', {
-                  maximumFractionDigits: 0
-                })}
-                    </p>
+                    <div className="text-right">
+                      <p className={`text-base font-bold ${invoice.status === "paid" ? "text-success" : ""}`}>
+                        {currencySymbol(invoice.currency_code)}{invoice.total.toLocaleString('en-IN', {
+                    maximumFractionDigits: 0
+                  })}
+                      </p>
+                      {invoice.status === "partially_paid" && <p className="text-[10px] text-warning">
+                          Due {currencySymbol(invoice.currency_code)}{invoice.balance_due.toLocaleString('en-IN', {
+                      maximumFractionDigits: 0
+                    })}
+                        </p>}
+                    </div>
                     {getStatusBadge(invoice.status)}
                   </div>
                 </div>
@@ -436,7 +553,7 @@ Thank you for your business! 🙏`;
                           View Details
                         </DropdownMenuItem>
                         <DropdownMenuSeparator />
-                        <DropdownMenuItem onClick={() => handleDeleteInvoice(invoice.id, invoice.status)} className="text-destructive text-xs">
+                        <DropdownMenuItem onClick={() => handleDeleteInvoice(invoice.id)} className="text-destructive text-xs">
                           <Trash2 className="h-3.5 w-3.5 mr-2" />
                           Delete
                         </DropdownMenuItem>
@@ -490,13 +607,16 @@ Thank you for your business! 🙏`;
                         </SelectContent>
                       </Select>
                     </TableCell>
-                    <TableCell className="font-semibold text-right">₹{invoice.total.toLocaleString('en-IN')}</TableCell>
+                    <TableCell className="font-semibold text-right">
+                      {currencySymbol(invoice.currency_code)}{invoice.total.toLocaleString('en-IN')}
+                      {invoice.status === "partially_paid" && <p className="text-xs font-normal text-warning">Due {currencySymbol(invoice.currency_code)}{invoice.balance_due.toLocaleString('en-IN')}</p>}
+                    </TableCell>
                     <TableCell onClick={(e) => e.stopPropagation()}>
                       <div className="flex gap-1">
                         <Button variant="ghost" size="sm" onClick={() => handleInvoiceClick(invoice)}>
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Button variant="ghost" size="sm" onClick={() => handleDeleteInvoice(invoice.id, invoice.status)} className="text-destructive hover:text-destructive">
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteInvoice(invoice.id)} className="text-destructive hover:text-destructive">
                           <Trash2 className="h-4 w-4" />
                         </Button>
                       </div>
@@ -517,19 +637,6 @@ Thank you for your business! 🙏`;
           </DialogHeader>
           
           {selectedInvoice && <div id="invoice-print-area" className="space-y-4 md:space-y-6">
-              {/* Column Selection - Hidden on Print */}
-              <div className="print:hidden p-3 md:p-4 bg-muted/30 rounded-lg">
-                <Label className="text-xs md:text-sm font-medium mb-2 block">Select columns for print/share:</Label>
-                <div className="grid grid-cols-2 md:flex md:flex-wrap gap-2 md:gap-4">
-                  {(Object.keys(invoicePrintColumnLabels) as InvoicePrintColumn[]).map((col) => <div key={col} className="flex items-center space-x-2">
-                      <Checkbox id={`inv-col-${col}`} checked={selectedPrintColumns.includes(col)} onCheckedChange={() => togglePrintColumn(col)} />
-                      <Label htmlFor={`inv-col-${col}`} className="text-xs md:text-sm cursor-pointer">
-                        {invoicePrintColumnLabels[col]}
-                      </Label>
-                    </div>)}
-                </div>
-              </div>
-
               <div className="flex flex-col md:flex-row justify-between items-start gap-4 print:mb-6">
                 <div className="w-full md:w-auto">
                   <CompanyBranding />
@@ -539,18 +646,26 @@ Thank you for your business! 🙏`;
                   </p>
                 </div>
                 <div className="flex gap-2 print:hidden w-full md:w-auto flex-wrap">
-                  <Button onClick={handleSavePDF} variant="outline" size="sm" className="flex-1 md:flex-none border-destructive/20 hover:bg-destructive/10">
+                  <Button onClick={handleSavePDF} disabled={pdfGenerating} variant="outline" size="sm" className="flex-1 md:flex-none border-destructive/20 hover:bg-destructive/10">
                     <Download className="h-4 w-4 mr-1 text-destructive" />
                     PDF
                   </Button>
-                  <Button onClick={handlePrint} variant="outline" size="sm" className="flex-1 md:flex-none border-primary/20 hover:bg-primary/10">
+                  <Button onClick={handlePrint} disabled={pdfGenerating} variant="outline" size="sm" className="flex-1 md:flex-none border-primary/20 hover:bg-primary/10">
                     <Printer className="h-4 w-4 mr-1 text-primary" />
                     Print
                   </Button>
-                  <Button onClick={handleWhatsAppShare} variant="outline" size="sm" className="flex-1 md:flex-none border-success/20 hover:bg-success/10">
+                  <Button onClick={handleWhatsAppShare} disabled={pdfGenerating} variant="outline" size="sm" className="flex-1 md:flex-none border-success/20 hover:bg-success/10">
                     <Share2 className="h-4 w-4 mr-1 text-success" />
                     Share
                   </Button>
+                  <Button onClick={() => setEmailInvoice(selectedInvoice)} variant="outline" size="sm" className="flex-1 md:flex-none border-primary/20 hover:bg-primary/10">
+                    <Mail className="h-4 w-4 mr-1 text-primary" />
+                    Email
+                  </Button>
+                  {selectedInvoice.status !== "cancelled" && <Button onClick={() => setRepeatInvoice(selectedInvoice)} variant="outline" size="sm" className="flex-1 md:flex-none border-primary/20 hover:bg-primary/10">
+                      <Repeat className="h-4 w-4 mr-1 text-primary" />
+                      Repeat
+                    </Button>}
                 </div>
               </div>
 
@@ -574,6 +689,12 @@ Thank you for your business! 🙏`;
                           {new Date(selectedInvoice.due_date).toLocaleDateString()}
                         </span>
                       </p>}
+                    {selectedInvoice.currency_code !== settings.currency_code && <p className="text-xs md:text-sm">
+                        <span className="text-muted-foreground">Exchange Rate:</span>{" "}
+                        <span className="text-foreground font-medium">
+                          1 {selectedInvoice.currency_code} = {selectedInvoice.exchange_rate} {settings.currency_code}
+                        </span>
+                      </p>}
                     <div className="mt-2">
                       {getStatusBadge(selectedInvoice.status)}
                     </div>
@@ -585,38 +706,139 @@ Thank you for your business! 🙏`;
                 <Table>
                   <TableHeader>
                     <TableRow className="bg-gradient-to-r from-primary/10 to-accent/10">
-                      {selectedPrintColumns.includes('description') && <TableHead className="font-semibold text-xs md:text-sm">Description</TableHead>}
-                      {selectedPrintColumns.includes('quantity') && <TableHead className="text-right font-semibold text-xs md:text-sm">Qty</TableHead>}
-                      {selectedPrintColumns.includes('unit_price') && <TableHead className="text-right font-semibold text-xs md:text-sm">Price</TableHead>}
-                      {selectedPrintColumns.includes('amount') && <TableHead className="text-right font-semibold text-xs md:text-sm">Amount</TableHead>}
+                      <TableHead className="font-semibold text-xs md:text-sm">Description</TableHead>
+                      <TableHead className="text-right font-semibold text-xs md:text-sm">Qty</TableHead>
+                      <TableHead className="text-right font-semibold text-xs md:text-sm">Price</TableHead>
+                      <TableHead className="text-right font-semibold text-xs md:text-sm">Amount</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {invoiceItems.map((item, index) => <TableRow key={item.id} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
-                        {selectedPrintColumns.includes('description') && <TableCell className="font-medium text-xs md:text-sm">{item.description}</TableCell>}
-                        {selectedPrintColumns.includes('quantity') && <TableCell className="text-right text-xs md:text-sm">{item.quantity}</TableCell>}
-                        {selectedPrintColumns.includes('unit_price') && <TableCell className="text-right text-xs md:text-sm">₹{item.unit_price.toFixed(2)}</TableCell>}
-                        {selectedPrintColumns.includes('amount') && <TableCell className="text-right font-medium text-xs md:text-sm">₹{item.amount.toFixed(2)}</TableCell>}
+                        <TableCell className="font-medium text-xs md:text-sm">
+                            {item.description}
+                            {item.hsn_code && <span className="block text-[10px] text-muted-foreground font-normal">HSN/SAC {item.hsn_code}</span>}
+                            {item.discount_amount > 0 && <span className="block text-[10px] text-muted-foreground font-normal">Less discount {dcs}{item.discount_amount.toFixed(2)}</span>}
+                          </TableCell>
+                        <TableCell className="text-right text-xs md:text-sm">{item.quantity}</TableCell>
+                        <TableCell className="text-right text-xs md:text-sm">{dcs}{item.unit_price.toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-medium text-xs md:text-sm">{dcs}{item.amount.toFixed(2)}</TableCell>
                       </TableRow>)}
                   </TableBody>
                 </Table>
               </div>
 
-              <div className="flex justify-end">
+              <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-3">
+                <div className="w-full md:w-96">
+                  <GstSummary lines={invoiceItems} placeOfSupply={selectedInvoice.place_of_supply} documentDiscount={selectedInvoice.discount_amount} />
+                </div>
                 <div className="w-full md:w-72 space-y-2 p-3 md:p-4 rounded-lg bg-gradient-to-br from-muted/50 to-muted/30">
                   <div className="flex justify-between text-xs md:text-sm">
                     <span className="text-muted-foreground">Subtotal:</span>
-                    <span className="text-foreground font-medium">₹{selectedInvoice.subtotal.toFixed(2)}</span>
+                    <span className="text-foreground font-medium">{dcs}{selectedInvoice.subtotal.toFixed(2)}</span>
                   </div>
+                  {selectedInvoice.discount_amount > 0 && <div className="flex justify-between text-xs md:text-sm">
+                      <span className="text-muted-foreground">Discount:</span>
+                      <span className="text-foreground font-medium">-{dcs}{selectedInvoice.discount_amount.toFixed(2)}</span>
+                    </div>}
                   <div className="flex justify-between text-xs md:text-sm">
                     <span className="text-muted-foreground">Tax:</span>
-                    <span className="text-foreground font-medium">₹{selectedInvoice.tax.toFixed(2)}</span>
+                    <span className="text-foreground font-medium">{dcs}{selectedInvoice.tax.toFixed(2)}</span>
                   </div>
+                  {selectedInvoice.round_off !== 0 && <div className="flex justify-between text-xs md:text-sm">
+                      <span className="text-muted-foreground">Round off:</span>
+                      <span className="text-foreground font-medium">{dcs}{selectedInvoice.round_off.toFixed(2)}</span>
+                    </div>}
                   <div className="flex justify-between text-lg md:text-xl font-bold pt-2 border-t border-primary/20">
                     <span className="text-gradient">Total:</span>
-                    <span className="text-gradient">₹{selectedInvoice.total.toFixed(2)}</span>
+                    <span className="text-gradient">{dcs}{selectedInvoice.total.toFixed(2)}</span>
                   </div>
+                  {(selectedInvoice.amount_paid > 0 || selectedInvoice.amount_credited > 0) && <>
+                      {selectedInvoice.amount_paid > 0 && <div className="flex justify-between text-xs md:text-sm">
+                        <span className="text-muted-foreground">Paid:</span>
+                        <span className="text-success font-medium">{dcs}{selectedInvoice.amount_paid.toFixed(2)}</span>
+                      </div>}
+                      {selectedInvoice.amount_credited > 0 && <div className="flex justify-between text-xs md:text-sm">
+                        <span className="text-muted-foreground">Credited:</span>
+                        <span className="text-warning font-medium">{dcs}{selectedInvoice.amount_credited.toFixed(2)}</span>
+                      </div>}
+                      <div className="flex justify-between text-sm md:text-base font-semibold">
+                        <span>Balance Due:</span>
+                        <span>{dcs}{selectedInvoice.balance_due.toFixed(2)}</span>
+                      </div>
+                    </>}
+                </div>
+              </div>
+
+              {/* Payments - Hidden on Print */}
+              <div className="print:hidden space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-foreground text-sm md:text-base">Payments</h3>
+                  {selectedInvoice.status !== "cancelled" && selectedInvoice.balance_due > 0 && <Button size="sm" variant="outline" onClick={() => setPaymentInvoice(selectedInvoice)} className="border-success/20 hover:bg-success/10">
+                      <IndianRupee className="h-4 w-4 mr-1 text-success" />
+                      Record Payment
+                    </Button>}
                 </div>
+                {payments.length === 0 ? <p className="text-xs md:text-sm text-muted-foreground">No payments recorded</p> : <div className="border rounded-lg divide-y">
+                    {payments.map((payment) => <div key={payment.id} className="flex items-center justify-between gap-2 p-2 text-xs md:text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium">
+                            {new Date(payment.payment_date).toLocaleDateString()} · {paymentModes.find((m) => m.value === payment.mode)?.label || payment.mode}
+                          </p>
+                          {payment.reference && <p className="text-muted-foreground truncate">{payment.reference}</p>}
+                          {payment.exchange_gain_loss !== 0 && <p className={payment.exchange_gain_loss > 0 ? "text-success" : "text-destructive"}>
+                              At {payment.exchange_rate} · exchange {payment.exchange_gain_loss > 0 ? "gain" : "loss"} {cs}{Math.abs(payment.exchange_gain_loss).toFixed(2)}
+                            </p>}
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <span className="font-semibold text-success">{dcs}{payment.amount.toFixed(2)}</span>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive hover:text-destructive" onClick={() => handleDeletePayment(payment.id)}>
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </div>)}
+                  </div>}
+              </div>
+
+              {/* Credit Notes - Hidden on Print */}
+              <div className="print:hidden space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-foreground text-sm md:text-base">Returns</h3>
+                  {selectedInvoice.status !== "cancelled" && <Button size="sm" variant="outline" onClick={() => setCreditSource({
+                type: "invoice",
+                id: selectedInvoice.id,
+                number: selectedInvoice.invoice_number,
+                customer_name: selectedInvoice.customer_name,
+                subtotal: selectedInvoice.subtotal,
+                discount_amount: selectedInvoice.discount_amount,
+                currency_code: selectedInvoice.currency_code,
+                tax: selectedInvoice.tax,
+                balance_due: selectedInvoice.balance_due
+              })} className="border-warning/20 hover:bg-warning/10">
+                      <Undo2 className="h-4 w-4 mr-1 text-warning" />
+                      Credit Note
+                    </Button>}
+                </div>
+                {creditNotes.length === 0 ? <p className="text-xs md:text-sm text-muted-foreground">No credit notes issued</p> : <div className="border rounded-lg divide-y">
+                    {creditNotes.map((note) => <div key={note.id} className="flex items-center justify-between gap-2 p-2 text-xs md:text-sm">
+                        <div className="min-w-0">
+                          <p className="font-medium">{note.credit_note_number} · {new Date(note.credit_date).toLocaleDateString()}</p>
+                          {note.refund_amount > 0 && <p className="text-muted-foreground">Refunded {dcs}{note.refund_amount.toFixed(2)}</p>}
+                        </div>
+                        <span className="font-semibold text-warning flex-shrink-0">{dcs}{note.total.toFixed(2)}</span>
+                      </div>)}
+                  </div>}
+              </div>
+
+              {/* Emails - Hidden on Print */}
+              <div className="print:hidden space-y-2">
+                <h3 className="font-semibold text-foreground text-sm md:text-base">Emails</h3>
+                <DocumentEmailLog documentType="invoice" documentId={selectedInvoice.id} refreshKey={emailLogKey} />
+              </div>
+
+              {/* Reminders - Hidden on Print */}
+              <div className="print:hidden space-y-2">
+                <h3 className="font-semibold text-foreground text-sm md:text-base">Reminders</h3>
+                <PaymentReminderLog invoiceId={selectedInvoice.id} />
               </div>
 
               {selectedInvoice.notes && <div className="pt-3 md:pt-4 border-t">
@@ -626,6 +848,33 @@ Thank you for your business! 🙏`;
             </div>}
         </DialogContent>
       </Dialog>
+
+      <RecordPaymentDialog document={paymentInvoice && {
+      type: "invoice",
+      id: paymentInvoice.id,
+      number: paymentInvoice.invoice_number,
+      party_name: paymentInvoice.customer_name,
+      balance_due: paymentInvoice.balance_due,
+      currency_code: paymentInvoice.currency_code,
+      exchange_rate: paymentInvoice.exchange_rate
+    }} open={!!paymentInvoice} onOpenChange={(open) => !open && setPaymentInvoice(null)} onRecorded={handlePaymentRecorded} />
+      <RecurringInvoiceDialog invoice={repeatInvoice} open={!!repeatInvoice} onOpenChange={(open) => !open && setRepeatInvoice(null)} onCreated={() => navigate("/invoices/recurring")} />
+      <CreditNoteDialog source={creditSource} open={!!creditSource} onOpenChange={(open) => !open && setCreditSource(null)} onCreated={handlePaymentRecorded} />
+      <SendDocumentDialog document={emailInvoice && {
+      type: "invoice",
+      id: emailInvoice.id,
+      number: emailInvoice.invoice_number,
+      customer_name: emailInvoice.customer_name,
+      customer_email: emailInvoice.customer_email,
+      total: emailInvoice.total,
+      currency_code: emailInvoice.currency_code,
+      due_date: emailInvoice.due_date
+    }} pdf={emailInvoice && buildInvoicePdf(emailInvoice)} open={!!emailInvoice} onOpenChange={(open) => !open && setEmailInvoice(null)} onSent={() => {
+      setEmailLogKey((key) => key + 1);
+      // A draft becomes sent once emailed
+      handlePaymentRecorded();
+      fetchInvoices();
+    }} />
     </div>;
 };
 export default Invoices;
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash2, Warehouse, ArrowRightLeft, Star } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { StockLocation, fetchLocations } from "@/lib/locations";
+import { LocationDialog } from "@/components/LocationDialog";
+import { StockTransferDialog } from "@/components/StockTransferDialog";
+
+type LocationTotals = { units: number; products: number };
+
+type StockTransfer = {
+  id: string;
+  transfer_number: string;
+  from_location_id: string;
+  to_location_id: string;
+  transfer_date: string;
+  notes: string | null;
+  stock_transfer_items: { description: string; quantity: number }[];
+};
+
+const Locations = () => {
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [totals, setTotals] = useState<Map<string, LocationTotals>>(new Map());
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<StockLocation | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+
+  const loadLocations = async () => {
+    try {
+      setLocations(await fetchLocations());
+    } catch (error) {
+      logErrorInDev("FetchLocations", error);
+      toast.error("Error fetching locations");
+    }
+  };
+
+  const loadStock = async () => {
+    const [stockResult, transferResult] = await Promise.all([
+      supabase.from("location_stock").select("location_id, quantity").gt("quantity", 0),
+      supabase
+        .from("stock_transfers")
+        .select("id, transfer_number, from_location_id, to_location_id, transfer_date, notes, stock_transfer_items(description, quantity)")
+        .order("transfer_date", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(20),
+    ]);
+
+    if (stockResult.error || transferResult.error) {
+      logErrorInDev("FetchLocationStock", stockResult.error || transferResult.error);
+      toast.error("Error fetching stock by location");
+      return;
+    }
+
+    const byLocation = new Map<string, LocationTotals>();
+    for (const row of stockResult.data || []) {
+      const current = byLocation.get(row.location_id) || { units: 0, products: 0 };
+      byLocation.set(row.location_id, { units: current.units + row.quantity, products: current.products + 1 });
+    }
+    setTotals(byLocation);
+    setTransfers((transferResult.data || []) as StockTransfer[]);
+  };
+
+  useEffect(() => {
+    loadLocations();
+    loadStock();
+
+    const channel = supabase
+      .channel("locations-changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "locations" }, () => {
+        loadLocations();
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "location_stock" }, () => {
+        loadStock();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const locationName = (id: string) => locations.find((l) => l.id === id)?.name || "Deleted location";
+
+  const openDialog = (location: StockLocation | null) => {
+    setEditingLocation(location);
+    setIsDialogOpen(true);
+  };
+
+  const handleSetDefault = async (location: StockLocation) => {
+    const { error } = await supabase.rpc("set_default_location", { p_location_id: location.id });
+
+    if (error) {
+      logErrorInDev("SetDefaultLocation", error);
+      toast.error(getSafeErrorMessage(error, "Error changing the default location"));
+    } else {
+      toast.success(`Sales and receipts now use ${location.name}`);
+      loadLocations();
+    }
+  };
+
+  const handleDelete = async (location: StockLocation) => {
+    // The database refuses to delete the default location or one still holding stock
+    const { error } = await supabase.from("locations").delete().eq("id", location.id);
+
+    if (error) {
+      toast.error(getSafeErrorMessage(error, "Error deleting location"));
+    } else {
+      toast.deleted("Location deleted successfully");
+    }
+  };
+
+  const actions = (location: StockLocation) => (
+    <div className="flex items-center gap-1 flex-shrink-0">
+      {!location.is_default && (
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Make default" onClick={() => handleSetDefault(location)}>
+          <Star className="h-4 w-4" />
+        </Button>
+      )}
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(location)}>
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-destructive hover:text-destructive"
+        disabled={location.is_default}
+        onClick={() => handleDelete(location)}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-8 pb-24 md:pb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">Locations</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Where your stock is kept and how it moves between places</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => setIsTransferOpen(true)} size="sm" variant="outline" disabled={locations.length < 2} className="flex-1 sm:flex-none">
+            <ArrowRightLeft className="mr-2 h-4 w-4" /> New Transfer
+          </Button>
+          <Button onClick={() => openDialog(null)} size="sm" className="gradient-primary text-primary-foreground shadow-colorful flex-1 sm:flex-none">
+            <Plus className="mr-2 h-4 w-4" /> Add Location
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-0 shadow-colorful">
+        <CardHeader className="border-b bg-gradient-to-r from-primary/5 to-accent/5 p-3 md:p-6">
+          <CardTitle className="flex items-center gap-2 text-sm md:text-base">
+            <Warehouse className="h-5 w-5 text-primary" />
+            All Locations
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0 divide-y">
+          {locations.map((location) => {
+            const stock = totals.get(location.id);
+            return (
+              <div key={location.id} className="flex items-center justify-between gap-2 p-3 md:px-6">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold text-sm truncate">{location.name}</p>
+                    {location.is_default && <Badge variant="secondary" className="text-[10px]">Default</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {stock ? `${stock.units} units of ${stock.products} product${stock.products === 1 ? "" : "s"}` : "No stock"}
+                  </p>
+                </div>
+                {actions(location)}
+              </div>
+            );
+          })}
+          {locations.length === 0 && (
+            <p className="text-center text-muted-foreground py-6 text-sm">No locations yet</p>
+          )}
+        </CardContent>
+      </Card>
+      <p className="text-xs text-muted-foreground -mt-2 md:-mt-6">
+        Sales, purchases and stock adjustments post to the default location. Cancellations and returns go back to where the document was raised.
+      </p>
+
+      <Card className="border-0 shadow-colorful">
+        <CardHeader className="border-b bg-gradient-to-r from-primary/5 to-accent/5 p-3 md:p-6">
+          <CardTitle className="flex items-center gap-2 text-sm md:text-base">
+            <ArrowRightLeft className="h-5 w-5 text-primary" />
+            Recent Transfers
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30">
+                  <TableHead className="font-semibold">Transfer</TableHead>
+                  <TableHead className="font-semibold">Date</TableHead>
+                  <TableHead className="font-semibold">Route</TableHead>
+                  <TableHead className="font-semibold">Items</TableHead>
+                  <TableHead className="font-semibold text-right">Units</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.map((transfer, index) => (
+                  <TableRow key={transfer.id} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
+                    <TableCell className="font-medium whitespace-nowrap">{transfer.transfer_number}</TableCell>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(transfer.transfer_date), "dd MMM yyyy")}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {locationName(transfer.from_location_id)} → {locationName(transfer.to_location_id)}
+                    </TableCell>
+                    <TableCell className="max-w-[240px]">
+                      <p className="truncate">{transfer.stock_transfer_items.map((item) => `${item.description} × ${item.quantity}`).join(", ")}</p>
+                      {transfer.notes && <p className="text-xs text-muted-foreground truncate">{transfer.notes}</p>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {transfer.stock_transfer_items.reduce((sum, item) => sum + item.quantity, 0)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {transfers.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-6">No transfers yet</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <LocationDialog location={editingLocation} open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+      <StockTransferDialog locations={locations} open={isTransferOpen} onOpenChange={setIsTransferOpen} onSaved={loadStock} />
+    </div>
+  );
+};
+
+export default Locations;
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { toBase } from "@/lib/currency";
+import { AgingDocument, AgingReport, agingBuckets, buildAgingReport } from "@/lib/aging";
+import { renderAgingPdf } from "@/lib/agingPdf";
+import { downloadBlob, loadPdfCompany } from "@/lib/documentPdf";
+import { AgingReportView } from "@/components/AgingReportView";
+
+/**
+ * Unpaid purchase bills as they stood on `asOf`. Supplier payments dated later
+ * are added back to today's balance due.
+ */
+async function loadPayables(asOf: string): Promise<AgingDocument[]> {
+  let query = supabase
+    .from("bills")
+    .select("id, bill_number, supplier_id, customer_name, bill_date, due_date, balance_due, currency_code, exchange_rate")
+    .eq("bill_type", "purchase")
+    .neq("status", "cancelled")
+    .lte("bill_date", asOf);
+  const backdated = asOf < format(new Date(), "yyyy-MM-dd");
+  if (!backdated) query = query.gt("balance_due", 0);
+
+  const [{ data: bills, error }, { data: laterPayments, error: paymentsError }] = await Promise.all([
+    query,
+    backdated
+      ? supabase.from("bill_payments").select("bill_id, amount").gt("payment_date", asOf)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (error) throw error;
+  if (paymentsError) throw paymentsError;
+
+  const paidLater = new Map<string, number>();
+  (laterPayments || []).forEach((payment) => paidLater.set(payment.bill_id, (paidLater.get(payment.bill_id) || 0) + Number(payment.amount)));
+
+  return (bills || [])
+    .map((bill) => {
+      const balance = Math.round((Number(bill.balance_due) + (paidLater.get(bill.id) || 0)) * 100) / 100;
+      return {
+        id: bill.id,
+        number: bill.bill_number,
+        partyId: bill.supplier_id,
+        partyName: bill.customer_name,
+        issueDate: bill.bill_date,
+        dueDate: bill.due_date || bill.bill_date,
+        currencyCode: bill.currency_code,
+        balance,
+        baseBalance: toBase(balance, bill.exchange_rate),
+      };
+    })
+    .filter((bill) => bill.balance > 0);
+}
+
+const PayablesAging = () => {
+  const navigate = useNavigate();
+  const { settings, loading: settingsLoading } = useSettings();
+  const [asOf, setAsOf] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const cs = settings.currency_symbol || "₹";
+
+  useEffect(() => {
+    if (!asOf || settingsLoading) return;
+    let stale = false;
+    setLoading(true);
+    loadPayables(asOf)
+      .then((documents) => {
+        if (!stale) setReport(buildAgingReport(documents, asOf));
+      })
+      .catch((error) => {
+        logErrorInDev("LoadPayablesAging", error);
+        toast.error(getSafeErrorMessage(error, "Failed to load payables"));
+      })
+      .finally(() => {
+        if (!stale) setLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [asOf, settingsLoading]);
+
+  const handleCSVExport = () => {
+    if (!report) return;
+    const headers = ['Supplier', 'Bill #', 'Bill Date', 'Due Date', 'Days Overdue', 'Currency', 'Balance', ...agingBuckets.map((bucket) => `${bucket.label.replace('–', '-')} (${settings.currency_code})`), `Total (${settings.currency_code})`];
+    const rows = report.rows.flatMap((row) => row.documents.map((document) => [
+      row.partyName,
+      document.number,
+      document.issueDate,
+      document.dueDate,
+      Math.max(document.daysOverdue, 0),
+      document.currencyCode,
+      document.balance.toFixed(2),
+      ...agingBuckets.map((bucket) => (document.bucket === bucket.key ? document.baseBalance.toFixed(2) : '')),
+      document.baseBalance.toFixed(2)
+    ]));
+    const totals = ['Total', '', '', '', '', '', '', ...agingBuckets.map((bucket) => report.totals[bucket.key].toFixed(2)), report.total.toFixed(2)];
+
+    const csvContent = [
+      `Accounts Payable Aging as of ${report.asOf}`,
+      headers.join(','),
+      ...[...rows, totals].map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), `ap_aging_${report.asOf}.csv`);
+    toast.success('Payables aging exported to CSV');
+  };
+
+  const handlePdfDownload = async () => {
+    if (!report) return;
+    setExporting(true);
+    try {
+      const company = await loadPdfCompany();
+      const blob = renderAgingPdf(report, company, settings.pdf_page_size, {
+        title: "Accounts Payable Aging",
+        partyLabel: "Supplier",
+        currencyCode: settings.currency_code,
+      });
+      downloadBlob(blob, `AP-Aging-${report.asOf}.pdf`);
+      toast.success(`AP-Aging-${report.asOf}.pdf downloaded`);
+    } catch (error) {
+      logErrorInDev("PayablesAgingPdf", error);
+      toast.error(getSafeErrorMessage(error, "Failed to generate PDF"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">Payables Aging</h1>
+          <p className="text-sm md:text-base text-muted-foreground">What you owe suppliers, by how long it is past due</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="aging-as-of" className="text-xs">As of</Label>
+            <Input id="aging-as-of" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="w-40" />
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCSVExport} disabled={!report}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" /> CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={handlePdfDownload} disabled={!report || exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />} PDF
+          </Button>
+        </div>
+      </div>
+
+      {loading || !report ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground text-sm">Loading...</CardContent>
+        </Card>
+      ) : (
+        <AgingReportView
+          report={report}
+          currencySymbol={cs}
+          partyLabel="Supplier"
+          documentLabel="Bill"
+          partyAction={{ label: "Supplier details", onClick: (row) => navigate(`/suppliers/${row.partyId}`) }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PayablesAging;
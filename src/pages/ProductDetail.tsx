@@ -5,10 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { ArrowLeft, Package, IndianRupee, TrendingUp, Pencil, MapPin, Factory, Calendar, AlertTriangle, BarChart3 } from "lucide-react";
-import { format } from "date-fns";
+import { ArrowLeft, Package, IndianRupee, TrendingUp, Pencil, MapPin, Factory, Calendar, AlertTriangle, BarChart3, History, Layers, Boxes, Warehouse, Barcode } from "lucide-react";
+import { format, parseISO } from "date-fns";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { useSettings } from "@/contexts/SettingsContext";
+import { Json } from "@/integrations/supabase/types";
+import { isVariantParent, parseVariantAttributes, parseVariantOptions, variantLabel } from "@/lib/variants";
+import { ProductVariantsDialog } from "@/components/ProductVariantsDialog";
+import { ProductBatch, daysToExpiry, expiryStatus } from "@/lib/batches";
+import { StockLocation, fetchLocations } from "@/lib/locations";
 
 type Product = {
   id: string;
@@ -18,17 +23,60 @@ type Product = {
   quantity: number;
   purchase_price: number;
   unit_price: number;
+  mrp: number | null;
   category: string | null;
   low_stock_threshold: number;
+  supplier_id: string | null;
   supplier_name: string | null;
   storage_location: string | null;
+  barcode: string | null;
   manufacturing_date: string | null;
   expiry_date: string | null;
   unit: string | null;
+  hsn_code: string | null;
+  tax_rate: number | null;
+  parent_id: string | null;
+  variant_options: Json | null;
   created_at: string;
   updated_at: string;
 };
 
+type Variant = {
+  id: string;
+  sku: string | null;
+  quantity: number;
+  low_stock_threshold: number;
+  purchase_price: number;
+  unit_price: number;
+  variant_attributes: Json | null;
+};
+
+type StockMovement = {
+  id: string;
+  quantity_change: number;
+  balance_after: number;
+  reason: string;
+  reference: string | null;
+  location_id: string | null;
+  created_at: string;
+};
+
+const movementReasonLabels: Record<string, string> = {
+  opening: "Opening stock",
+  sale: "Sale",
+  purchase: "Purchase",
+  invoice_cancelled: "Invoice cancelled",
+  invoice_deleted: "Invoice deleted",
+  bill_cancelled: "Bill cancelled",
+  bill_deleted: "Bill deleted",
+  receive_undone: "Receive undone",
+  manual_edit: "Manual edit",
+  sales_return: "Sales return",
+  transfer: "Transfer",
+  stock_take: "Stock take",
+  variant_split: "Moved to variants",
+};
+
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -38,27 +86,73 @@ const ProductDetail = () => {
   const [loading, setLoading] = useState(true);
   const [totalSold, setTotalSold] = useState(0);
   const [totalRevenue, setTotalRevenue] = useState(0);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [batches, setBatches] = useState<ProductBatch[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [stockByLocation, setStockByLocation] = useState<Record<string, number>>({});
+  const [movementLocation, setMovementLocation] = useState("");
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [soldByVariant, setSoldByVariant] = useState<Record<string, number>>({});
+  const [parentName, setParentName] = useState("");
+  const [isVariantsOpen, setIsVariantsOpen] = useState(false);
 
-  useEffect(() => {
+  const fetchProduct = async () => {
     if (!id) return;
-    const fetchProduct = async () => {
-      setLoading(true);
-      const [{ data, error }, { data: salesData }] = await Promise.all([
-        supabase.from("products").select("*").eq("id", id).single(),
-        supabase.from("invoice_items").select("quantity, amount").eq("product_id", id),
-      ]);
-      if (error || !data) {
-        toast.error("Product not found");
-        navigate("/inventory");
-        return;
-      }
-      setProduct(data);
-      if (salesData) {
-        setTotalSold(salesData.reduce((sum, i) => sum + (Number(i.quantity) || 0), 0));
-        setTotalRevenue(salesData.reduce((sum, i) => sum + (Number(i.amount) || 0), 0));
-      }
-      setLoading(false);
-    };
+    setLoading(true);
+    const [{ data, error }, { data: variantData }, { data: movementData }, { data: batchData }, { data: locationStockData }, locationList] = await Promise.all([
+      supabase.from("products").select("*").eq("id", id).single(),
+      supabase
+        .from("products")
+        .select("id, sku, quantity, low_stock_threshold, purchase_price, unit_price, variant_attributes")
+        .eq("parent_id", id)
+        .order("name"),
+      supabase
+        .from("stock_movements")
+        .select("id, quantity_change, balance_after, reason, reference, location_id, created_at")
+        .eq("product_id", id)
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("product_batches")
+        .select("id, batch_number, manufacturing_date, expiry_date, unit_cost, quantity")
+        .eq("product_id", id)
+        .gt("quantity", 0)
+        .order("expiry_date", { ascending: true, nullsFirst: false }),
+      supabase.from("location_stock").select("location_id, quantity").eq("product_id", id),
+      fetchLocations().catch(() => [] as StockLocation[]),
+    ]);
+    if (error || !data) {
+      toast.error("Product not found");
+      navigate("/inventory");
+      return;
+    }
+    // A parent's sales are those of its variants
+    const soldIds = variantData?.length ? variantData.map((v) => v.id) : [id];
+    const [{ data: salesData }, { data: parent }] = await Promise.all([
+      supabase.from("invoice_items").select("product_id, quantity, amount").in("product_id", soldIds),
+      data.parent_id
+        ? supabase.from("products").select("name").eq("id", data.parent_id).single()
+        : Promise.resolve({ data: null }),
+    ]);
+    setProduct(data);
+    setVariants(variantData || []);
+    setParentName(parent?.name || "");
+    if (salesData) {
+      setTotalSold(salesData.reduce((sum, i) => sum + (Number(i.quantity) || 0), 0));
+      setTotalRevenue(salesData.reduce((sum, i) => sum + (Number(i.amount) || 0), 0));
+      const sold: Record<string, number> = {};
+      salesData.forEach((i) => {
+        if (i.product_id) sold[i.product_id] = (sold[i.product_id] || 0) + (Number(i.quantity) || 0);
+      });
+      setSoldByVariant(sold);
+    }
+    setMovements(movementData || []);
+    setBatches(batchData || []);
+    setLocations(locationList);
+    setStockByLocation(Object.fromEntries((locationStockData || []).map((row) => [row.location_id, row.quantity])));
+    setLoading(false);
+  };
+
+  useEffect(() => {
     fetchProduct();
   }, [id]);
 
@@ -70,12 +164,32 @@ const ProductDetail = () => {
     );
   }
 
+  const hasVariants = isVariantParent(product) && variants.length > 0;
+  const options = parseVariantOptions(product.variant_options);
+  const isVariantLow = (v: Variant) => v.quantity <= v.low_stock_threshold;
+  const lowVariants = variants.filter(isVariantLow);
   const profitPerUnit = product.unit_price - product.purchase_price;
   const profitPct = product.purchase_price > 0 ? (profitPerUnit / product.purchase_price) * 100 : 0;
-  const isLowStock = product.quantity <= product.low_stock_threshold;
+  const stockQuantity = hasVariants ? variants.reduce((sum, v) => sum + v.quantity, 0) : product.quantity;
+  const isLowStock = hasVariants ? lowVariants.length > 0 : product.quantity <= product.low_stock_threshold;
   const stockPct = product.low_stock_threshold > 0 ? Math.min((product.quantity / product.low_stock_threshold) * 100, 100) : 100;
-  const totalStockValue = product.quantity * product.unit_price;
-  const totalProfitPotential = product.quantity * profitPerUnit;
+  const totalStockValue = hasVariants ? variants.reduce((sum, v) => sum + v.quantity * v.unit_price, 0) : product.quantity * product.unit_price;
+  const totalProfitPotential = hasVariants
+    ? variants.reduce((sum, v) => sum + v.quantity * (v.unit_price - v.purchase_price), 0)
+    : product.quantity * profitPerUnit;
+  const totalProfitEarned = hasVariants
+    ? variants.reduce((sum, v) => sum + (soldByVariant[v.id] || 0) * (v.unit_price - v.purchase_price), 0)
+    : totalSold * profitPerUnit;
+  const priceRange = (prices: number[]) => {
+    const low = Math.min(...prices);
+    const high = Math.max(...prices);
+    return low === high ? `${cs}${low.toFixed(2)}` : `${cs}${low.toFixed(2)}–${high.toFixed(2)}`;
+  };
+  const ledgerQuantity = movements.reduce((sum, m) => sum + m.quantity_change, 0);
+  const ledgerMismatch = ledgerQuantity !== product.quantity;
+  const unbatchedQuantity = product.quantity - batches.reduce((sum, b) => sum + b.quantity, 0);
+  const locationName = (locationId: string | null) => locations.find((l) => l.id === locationId)?.name;
+  const shownMovements = movementLocation ? movements.filter((m) => m.location_id === movementLocation) : movements;
 
   return (
     <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
@@ -93,22 +207,46 @@ const ProductDetail = () => {
                 Low Stock
               </Badge>
             )}
+            {ledgerMismatch && (
+              <Badge variant="outline" className="text-[10px] border-warning text-warning">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                Ledger mismatch
+              </Badge>
+            )}
           </div>
-          <div className="flex items-center gap-2 mt-0.5">
+          <div className="flex items-center gap-2 mt-0.5 flex-wrap">
+            {product.parent_id && (
+              <button type="button" className="text-xs text-primary hover:underline" onClick={() => navigate(`/inventory/${product.parent_id}`)}>
+                Variant of {parentName || "product"}
+              </button>
+            )}
             {product.sku && <span className="text-xs text-muted-foreground">SKU: {product.sku}</span>}
+            {product.hsn_code && <span className="text-xs text-muted-foreground">HSN/SAC: {product.hsn_code}</span>}
+            <span className="text-xs text-muted-foreground">
+              {settings.tax_name} {product.tax_rate ?? settings.default_tax_rate}%
+            </span>
             {product.category && (
               <Badge variant="outline" className="text-[10px] border-secondary/30 text-secondary">{product.category}</Badge>
             )}
           </div>
         </div>
+        {!product.parent_id && (
+          <Button variant="outline" size="sm" onClick={() => setIsVariantsOpen(true)}>
+            <Layers className="h-4 w-4 mr-1" /> Variants
+          </Button>
+        )}
       </div>
 
       {/* Key Stats */}
       <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
         {[
-          { title: "In Stock", value: `${product.quantity} ${(product.unit || 'pc').toUpperCase()}`, icon: Package, color: isLowStock ? "text-destructive" : "text-primary", sub: `Threshold: ${product.low_stock_threshold}` },
-          { title: "Sale Price", value: `${cs}${product.unit_price.toFixed(2)}`, icon: IndianRupee, color: "text-success", sub: `Buy: ${cs}${product.purchase_price.toFixed(2)}` },
-          { title: "Profit/Unit", value: `${cs}${profitPerUnit.toFixed(2)}`, icon: TrendingUp, color: profitPerUnit >= 0 ? "text-info" : "text-destructive", sub: `${profitPct.toFixed(1)}% margin` },
+          { title: "In Stock", value: `${stockQuantity} ${(product.unit || 'pc').toUpperCase()}`, icon: Package, color: isLowStock ? "text-destructive" : "text-primary", sub: hasVariants ? `Across ${variants.length} variants` : `Threshold: ${product.low_stock_threshold}` },
+          hasVariants
+            ? { title: "Sale Price", value: priceRange(variants.map((v) => v.unit_price)), icon: IndianRupee, color: "text-success", sub: `Buy: ${priceRange(variants.map((v) => v.purchase_price))}` }
+            : { title: "Sale Price", value: `${cs}${product.unit_price.toFixed(2)}`, icon: IndianRupee, color: "text-success", sub: `Buy: ${cs}${product.purchase_price.toFixed(2)}` },
+          hasVariants
+            ? { title: "Low Stock", value: `${lowVariants.length}`, icon: AlertTriangle, color: lowVariants.length > 0 ? "text-destructive" : "text-info", sub: `of ${variants.length} variants` }
+            : { title: "Profit/Unit", value: `${cs}${profitPerUnit.toFixed(2)}`, icon: TrendingUp, color: profitPerUnit >= 0 ? "text-info" : "text-destructive", sub: `${profitPct.toFixed(1)}% margin` },
           { title: "Stock Value", value: `${cs}${totalStockValue.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`, icon: BarChart3, color: "text-warning", sub: `Profit: ${cs}${totalProfitPotential.toLocaleString("en-IN", { maximumFractionDigits: 0 })}` },
         ].map((item) => (
           <Card key={item.title} className="relative overflow-hidden">
@@ -127,29 +265,62 @@ const ProductDetail = () => {
 
       {/* Stock Level + Sales Performance */}
       <div className="grid gap-3 md:gap-4 grid-cols-1 lg:grid-cols-2">
-        <Card>
-          <CardHeader className="p-3 md:p-6 pb-2">
-            <CardTitle className="text-sm md:text-base">Stock Level</CardTitle>
-          </CardHeader>
-          <CardContent className="p-3 md:p-6 pt-0 space-y-4">
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Current Stock</span>
-                <span className="font-bold">{product.quantity} {(product.unit || 'pc').toUpperCase()}</span>
+        {hasVariants ? (
+          <Card>
+            <CardHeader className="p-3 md:p-6 pb-2">
+              <CardTitle className="text-sm md:text-base">Stock by Variant</CardTitle>
+            </CardHeader>
+            <CardContent className="p-3 md:p-6 pt-0">
+              <div className="divide-y max-h-80 overflow-y-auto">
+                {variants.map((v) => (
+                  <button
+                    key={v.id}
+                    type="button"
+                    className="w-full flex items-center justify-between gap-3 py-2 text-left hover:bg-muted/30"
+                    onClick={() => navigate(`/inventory/${v.id}`)}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{variantLabel(parseVariantAttributes(v.variant_attributes), options)}</p>
+                      <p className="text-[10px] text-muted-foreground">
+                        {v.sku ? `SKU: ${v.sku} · ` : ""}{cs}{v.unit_price.toFixed(2)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {isVariantLow(v) && <Badge variant="destructive" className="text-[10px]">Low</Badge>}
+                      <span className={`text-sm font-bold ${isVariantLow(v) ? "text-destructive" : "text-primary"}`}>
+                        {v.quantity} {(product.unit || 'pc').toUpperCase()}
+                      </span>
+                    </div>
+                  </button>
+                ))}
               </div>
-              <Progress value={stockPct} className={`h-3 ${isLowStock ? "[&>div]:bg-destructive" : ""}`} />
-              <p className="text-xs text-muted-foreground">
-                {isLowStock ? `⚠️ Below threshold (${product.low_stock_threshold})` : `✓ Above threshold (${product.low_stock_threshold})`}
-              </p>
-            </div>
-            {product.description && (
-              <div className="pt-2 border-t">
-                <p className="text-xs text-muted-foreground mb-1">Description</p>
-                <p className="text-sm">{product.description}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="p-3 md:p-6 pb-2">
+              <CardTitle className="text-sm md:text-base">Stock Level</CardTitle>
+            </CardHeader>
+            <CardContent className="p-3 md:p-6 pt-0 space-y-4">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Current Stock</span>
+                  <span className="font-bold">{product.quantity} {(product.unit || 'pc').toUpperCase()}</span>
+                </div>
+                <Progress value={stockPct} className={`h-3 ${isLowStock ? "[&>div]:bg-destructive" : ""}`} />
+                <p className="text-xs text-muted-foreground">
+                  {isLowStock ? `⚠️ Below threshold (${product.low_stock_threshold})` : `✓ Above threshold (${product.low_stock_threshold})`}
+                </p>
               </div>
-            )}
-          </CardContent>
-        </Card>
+              {product.description && (
+                <div className="pt-2 border-t">
+                  <p className="text-xs text-muted-foreground mb-1">Description</p>
+                  <p className="text-sm">{product.description}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         <Card>
           <CardHeader className="p-3 md:p-6 pb-2">
@@ -166,12 +337,136 @@ const ProductDetail = () => {
             </div>
             <div className="flex justify-between items-center p-3 rounded-lg bg-muted/30">
               <span className="text-sm text-muted-foreground">Total Profit Earned</span>
-              <span className="text-lg font-bold text-info">{cs}{(totalSold * profitPerUnit).toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
+              <span className="text-lg font-bold text-info">{cs}{totalProfitEarned.toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Stock split across locations */}
+      {locations.length > 1 && !hasVariants && (
+        <Card>
+          <CardHeader className="p-3 md:p-6 pb-2">
+            <CardTitle className="text-sm md:text-base flex items-center gap-2">
+              <Warehouse className="h-4 w-4 text-muted-foreground" />
+              Stock by Location
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-3 md:p-6 pt-0">
+            <div className="divide-y">
+              {locations.map((l) => (
+                <div key={l.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <p className="text-sm font-medium truncate">{l.name}</p>
+                    {l.is_default && <Badge variant="secondary" className="text-[10px]">Default</Badge>}
+                  </div>
+                  <span className={`text-sm font-bold ${(stockByLocation[l.id] || 0) < 0 ? "text-destructive" : ""}`}>
+                    {stockByLocation[l.id] || 0} {(product.unit || 'pc').toUpperCase()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Batches in stock, first to expire first */}
+      {batches.length > 0 && (
+        <Card>
+          <CardHeader className="p-3 md:p-6 pb-2">
+            <CardTitle className="text-sm md:text-base flex items-center gap-2">
+              <Boxes className="h-4 w-4 text-muted-foreground" />
+              Batches
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-3 md:p-6 pt-0">
+            <div className="divide-y">
+              {batches.map((b) => {
+                const status = expiryStatus(b.expiry_date);
+                return (
+                  <div key={b.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{b.batch_number}</p>
+                      <p className="text-[10px] text-muted-foreground">
+                        {b.manufacturing_date && `Mfg ${format(parseISO(b.manufacturing_date), "dd MMM yyyy")} · `}
+                        {b.expiry_date ? `Exp ${format(parseISO(b.expiry_date), "dd MMM yyyy")}` : "No expiry"}
+                        {` · Cost ${cs}${Number(b.unit_cost).toFixed(2)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {status === "expired" && <Badge variant="destructive" className="text-[10px]">Expired</Badge>}
+                      {status === "near" && b.expiry_date && (
+                        <Badge variant="secondary" className="text-[10px] text-warning">{daysToExpiry(b.expiry_date)}d left</Badge>
+                      )}
+                      <span className="text-sm font-bold">{b.quantity} {(product.unit || 'pc').toUpperCase()}</span>
+                    </div>
+                  </div>
+                );
+              })}
+              {unbatchedQuantity > 0 && (
+                <div className="flex items-center justify-between gap-3 py-2 text-muted-foreground">
+                  <p className="text-sm">Not in a batch</p>
+                  <span className="text-sm font-bold">{unbatchedQuantity} {(product.unit || 'pc').toUpperCase()}</span>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Stock Movements */}
+      <Card>
+        <CardHeader className="p-3 md:p-6 pb-2 flex flex-row items-center justify-between gap-2 space-y-0">
+          <CardTitle className="text-sm md:text-base flex items-center gap-2">
+            <History className="h-4 w-4 text-muted-foreground" />
+            Stock Movements
+          </CardTitle>
+          {locations.length > 1 && (
+            <select
+              value={movementLocation}
+              onChange={(e) => setMovementLocation(e.target.value)}
+              className="h-8 rounded-md border bg-background px-2 text-xs"
+            >
+              <option value="">All locations</option>
+              {locations.map((l) => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          )}
+        </CardHeader>
+        <CardContent className="p-3 md:p-6 pt-0 space-y-2">
+          {ledgerMismatch && (
+            <p className="text-xs text-warning flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Movements add up to {ledgerQuantity}, but stock shows {product.quantity}
+            </p>
+          )}
+          {shownMovements.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No stock movements recorded</p>
+          ) : (
+            <div className="divide-y">
+              {shownMovements.map((m) => (
+                <div key={m.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{movementReasonLabels[m.reason] || m.reason}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {format(new Date(m.created_at), "dd MMM yyyy, hh:mm a")}
+                      {m.reference && ` · ${m.reference}`}
+                      {locations.length > 1 && locationName(m.location_id) && ` · ${locationName(m.location_id)}`}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className={`text-sm font-bold ${m.quantity_change > 0 ? "text-success" : "text-destructive"}`}>
+                      {m.quantity_change > 0 ? "+" : ""}{m.quantity_change}
+                    </p>
+                    {/* The balance is of total stock, so it is hidden for a single location */}
+                    {!movementLocation && <p className="text-[10px] text-muted-foreground">Balance: {m.balance_after}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Product Details */}
       <Card>
         <CardHeader className="p-3 md:p-6 pb-2">
@@ -180,24 +475,32 @@ const ProductDetail = () => {
         <CardContent className="p-3 md:p-6 pt-0">
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
             {[
-              { label: "Supplier", value: product.supplier_name, icon: Factory },
-              { label: "Storage Location", value: product.storage_location, icon: MapPin },
+              { label: "Supplier", value: product.supplier_name, icon: Factory, href: product.supplier_id ? `/suppliers/${product.supplier_id}` : undefined },
+              { label: "Barcode", value: product.barcode, icon: Barcode },
+              { label: "MRP", value: product.mrp !== null ? `${cs}${product.mrp.toFixed(2)}` : null, icon: IndianRupee },
+              { label: "Shelf / Bin", value: product.storage_location, icon: MapPin },
               { label: "Manufacturing Date", value: product.manufacturing_date ? format(new Date(product.manufacturing_date), "dd MMM yyyy") : null, icon: Calendar },
               { label: "Expiry Date", value: product.expiry_date ? format(new Date(product.expiry_date), "dd MMM yyyy") : null, icon: Calendar },
               { label: "Created", value: format(new Date(product.created_at), "dd MMM yyyy"), icon: Calendar },
               { label: "Last Updated", value: format(new Date(product.updated_at), "dd MMM yyyy"), icon: Calendar },
             ].filter((d) => d.value).map((detail) => (
-              <div key={detail.label} className="flex items-center gap-3 p-2.5 rounded-lg border">
+              <div
+                key={detail.label}
+                className={`flex items-center gap-3 p-2.5 rounded-lg border ${detail.href ? "cursor-pointer hover:bg-muted/30" : ""}`}
+                onClick={detail.href ? () => navigate(detail.href) : undefined}
+              >
                 <detail.icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                 <div>
                   <p className="text-[10px] text-muted-foreground">{detail.label}</p>
-                  <p className="text-sm font-medium">{detail.value}</p>
+                  <p className={`text-sm font-medium ${detail.href ? "text-primary" : ""}`}>{detail.value}</p>
                 </div>
               </div>
             ))}
           </div>
         </CardContent>
       </Card>
+
+      <ProductVariantsDialog product={product} open={isVariantsOpen} onOpenChange={setIsVariantsOpen} onSaved={fetchProduct} />
     </div>
   );
 };
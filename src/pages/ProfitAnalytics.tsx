@@ -6,12 +6,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { TrendingUp, TrendingDown, IndianRupee, Package, Download, Percent, BarChart3 } from "lucide-react";
+import { TrendingUp, TrendingDown, IndianRupee, Package, Download, Percent, BarChart3, Tag } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, AreaChart, Area, LineChart, Line, ReferenceLine } from "recharts";
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from "@/components/ui/chart";
 import { format, startOfMonth, endOfMonth, subMonths } from "date-fns";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useSettings } from "@/contexts/SettingsContext";
+import { toBase } from "@/lib/currency";
 type Product = {
   id: string;
   name: string;
@@ -26,11 +28,28 @@ type InvoiceItem = {
   quantity: number;
   unit_price: number;
   amount: number;
+  discount_amount: number;
   product_id: string | null;
   invoice_id: string;
   invoices: {
     issue_date: string;
     status: string;
+    subtotal: number;
+    discount_amount: number;
+    exchange_rate: number;
+  } | null;
+  products: {
+    name: string;
+    purchase_price: number;
+  } | null;
+};
+type ReturnedItem = {
+  id: string;
+  quantity: number;
+  amount: number;
+  credit_notes: {
+    credit_date: string;
+    exchange_rate: number;
   } | null;
   products: {
     name: string;
@@ -40,10 +59,13 @@ type InvoiceItem = {
 const ProfitAnalytics = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [invoiceItems, setInvoiceItems] = useState<InvoiceItem[]>([]);
+  const [returnedItems, setReturnedItems] = useState<ReturnedItem[]>([]);
   const [dateFrom, setDateFrom] = useState(() => format(startOfMonth(subMonths(new Date(), 5)), "yyyy-MM-dd"));
   const [dateTo, setDateTo] = useState(() => format(endOfMonth(new Date()), "yyyy-MM-dd"));
   const [loading, setLoading] = useState(true);
   const isMobile = useIsMobile();
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
   useEffect(() => {
     fetchData();
   }, [dateFrom, dateTo]);
@@ -56,11 +78,20 @@ const ProfitAnalytics = () => {
       data: itemsData
     } = await supabase.from("invoice_items").select(`
         *,
-        invoices!inner(issue_date, status),
+        invoices!inner(issue_date, status, subtotal, discount_amount, exchange_rate),
         products(name, purchase_price)
       `).gte("invoices.issue_date", dateFrom).lte("invoices.issue_date", dateTo).neq("invoices.status", "cancelled");
+    // Sales returns reduce the period in which the credit note was issued
+    const {
+      data: returnsData
+    } = await supabase.from("credit_note_items").select(`
+        id, quantity, amount,
+        credit_notes!inner(credit_date, invoice_id, exchange_rate),
+        products(name, purchase_price)
+      `).gte("credit_notes.credit_date", dateFrom).lte("credit_notes.credit_date", dateTo).not("credit_notes.invoice_id", "is", null);
     setProducts(productsData || []);
     setInvoiceItems(itemsData || []);
+    setReturnedItems(returnsData || []);
     setLoading(false);
   };
 
@@ -68,6 +99,15 @@ const ProfitAnalytics = () => {
   const calculateProfitMetrics = () => {
     let totalRevenue = 0;
     let totalCost = 0;
+    let listValue = 0;
+    let lineDiscounts = 0;
+    let documentDiscounts = 0;
+    const productDiscounts: Record<string, {
+      name: string;
+      listValue: number;
+      lineDiscount: number;
+      documentDiscount: number;
+    }> = {};
     const productProfits: Record<string, {
       name: string;
       revenue: number;
@@ -82,13 +122,34 @@ const ProfitAnalytics = () => {
     }> = {};
     invoiceItems.forEach(item => {
       const purchasePrice = item.products?.purchase_price || 0;
-      const revenue = item.amount;
+      // Line amounts are already net of line discounts; the invoice-level discount is shared by value
+      const invoiceSubtotal = Number(item.invoices?.subtotal) || 0;
+      // Sales in other currencies are converted at the invoice's stored rate
+      const rate = item.invoices?.exchange_rate;
+      const documentShare = invoiceSubtotal > 0 ? toBase(Number(item.invoices?.discount_amount || 0) * item.amount / invoiceSubtotal, rate) : 0;
+      const revenue = toBase(item.amount, rate) - documentShare;
       const cost = purchasePrice * item.quantity;
       totalRevenue += revenue;
       totalCost += cost;
 
       // Track by product
       const productName = item.products?.name || "Unknown";
+      const itemListValue = toBase(item.quantity * item.unit_price, rate);
+      const itemLineDiscount = toBase(item.discount_amount, rate);
+      listValue += itemListValue;
+      lineDiscounts += itemLineDiscount;
+      documentDiscounts += documentShare;
+      if (!productDiscounts[productName]) {
+        productDiscounts[productName] = {
+          name: productName,
+          listValue: 0,
+          lineDiscount: 0,
+          documentDiscount: 0
+        };
+      }
+      productDiscounts[productName].listValue += itemListValue;
+      productDiscounts[productName].lineDiscount += itemLineDiscount;
+      productDiscounts[productName].documentDiscount += documentShare;
       if (!productProfits[productName]) {
         productProfits[productName] = {
           name: productName,
@@ -117,6 +178,38 @@ const ProfitAnalytics = () => {
         monthlyProfits[month].profit += revenue - cost;
       }
     });
+    returnedItems.forEach(item => {
+      const revenue = toBase(item.amount, item.credit_notes?.exchange_rate);
+      const cost = (item.products?.purchase_price || 0) * item.quantity;
+      totalRevenue -= revenue;
+      totalCost -= cost;
+      const productName = item.products?.name || "Unknown";
+      if (!productProfits[productName]) {
+        productProfits[productName] = {
+          name: productName,
+          revenue: 0,
+          cost: 0,
+          quantity: 0
+        };
+      }
+      productProfits[productName].revenue -= revenue;
+      productProfits[productName].cost -= cost;
+      productProfits[productName].quantity -= item.quantity;
+      if (item.credit_notes?.credit_date) {
+        const month = format(new Date(item.credit_notes.credit_date), "MMM yyyy");
+        if (!monthlyProfits[month]) {
+          monthlyProfits[month] = {
+            month,
+            revenue: 0,
+            cost: 0,
+            profit: 0
+          };
+        }
+        monthlyProfits[month].revenue -= revenue;
+        monthlyProfits[month].cost -= cost;
+        monthlyProfits[month].profit -= revenue - cost;
+      }
+    });
     const totalProfit = totalRevenue - totalCost;
     const profitMarginPercent = totalRevenue > 0 ? totalProfit / totalRevenue * 100 : 0;
 
@@ -129,13 +222,29 @@ const ProfitAnalytics = () => {
 
     // Sort monthly data
     const monthlyData = Object.values(monthlyProfits).sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime());
+
+    // Products given away most in discounts
+    const totalDiscount = lineDiscounts + documentDiscounts;
+    const discountedProducts = Object.values(productDiscounts).map(p => ({
+      ...p,
+      total: p.lineDiscount + p.documentDiscount,
+      percent: p.listValue > 0 ? (p.lineDiscount + p.documentDiscount) / p.listValue * 100 : 0
+    })).filter(p => p.total > 0).sort((a, b) => b.total - a.total).slice(0, 10);
     return {
       totalRevenue,
       totalCost,
       totalProfit,
       profitMarginPercent,
       topProfitableProducts,
-      monthlyData
+      monthlyData,
+      discounts: {
+        listValue,
+        lineDiscounts,
+        documentDiscounts,
+        totalDiscount,
+        discountPercent: listValue > 0 ? totalDiscount / listValue * 100 : 0,
+        products: discountedProducts
+      }
     };
   };
   const metrics = calculateProfitMetrics();
@@ -159,7 +268,9 @@ const ProfitAnalytics = () => {
   const handleCSVExport = () => {
     const headers = ['Product', 'Quantity Sold', 'Revenue', 'Cost', 'Profit', 'Margin %'];
     const rows = metrics.topProfitableProducts.map(p => [p.name, p.quantity, p.revenue.toFixed(2), p.cost.toFixed(2), p.profit.toFixed(2), p.margin.toFixed(2) + '%']);
-    const csvContent = [`Profit Analytics Report (${dateFrom} to ${dateTo})`, '', `Total Revenue: ₹${metrics.totalRevenue.toFixed(2)}`, `Total Cost: ₹${metrics.totalCost.toFixed(2)}`, `Total Profit: ₹${metrics.totalProfit.toFixed(2)}`, `Profit Margin: ${metrics.profitMarginPercent.toFixed(2)}%`, '', headers.join(','), ...rows.map(row => row.map(cell => `"${cell}"`).join(','))].join('\n');
+    const discountHeaders = ['Product', 'List Value', 'Line Discount', 'Invoice Discount', 'Total Discount', 'Discount %'];
+    const discountRows = metrics.discounts.products.map(p => [p.name, p.listValue.toFixed(2), p.lineDiscount.toFixed(2), p.documentDiscount.toFixed(2), p.total.toFixed(2), p.percent.toFixed(2) + '%']);
+    const csvContent = [`Profit Analytics Report (${dateFrom} to ${dateTo})`, '', `Total Revenue: ${cs}${metrics.totalRevenue.toFixed(2)}`, `Total Cost: ${cs}${metrics.totalCost.toFixed(2)}`, `Total Profit: ${cs}${metrics.totalProfit.toFixed(2)}`, `Profit Margin: ${metrics.profitMarginPercent.toFixed(2)}%`, '', headers.join(','), ...rows.map(row => row.map(cell => `"${cell}"`).join(',')), '', 'Discount Report', `Line Discounts: ${cs}${metrics.discounts.lineDiscounts.toFixed(2)}`, `Invoice Discounts: ${cs}${metrics.discounts.documentDiscounts.toFixed(2)}`, `Discount on List Value: ${metrics.discounts.discountPercent.toFixed(2)}%`, '', discountHeaders.join(','), ...discountRows.map(row => row.map(cell => `"${cell}"`).join(','))].join('\n');
     const blob = new Blob([csvContent], {
       type: 'text/csv;charset=utf-8;'
     });
@@ -209,7 +320,7 @@ const ProfitAnalytics = () => {
             <div className="flex items-center justify-between">
               <div className="min-w-0 flex-1">
                 <p className="text-xs md:text-sm font-medium text-muted-foreground truncate">Revenue</p>
-                <p className="text-lg md:text-2xl font-bold text-primary truncate">₹{metrics.totalRevenue.toFixed(0)}</p>
+                <p className="text-lg md:text-2xl font-bold text-primary truncate">{cs}{metrics.totalRevenue.toFixed(0)}</p>
               </div>
               <div className="h-10 w-10 md:h-12 md:w-12 rounded-full bg-gradient-primary flex items-center justify-center flex-shrink-0 ml-2">
                 <IndianRupee className="h-5 w-5 md:h-6 md:w-6 text-primary-foreground" />
@@ -223,7 +334,7 @@ const ProfitAnalytics = () => {
             <div className="flex items-center justify-between">
               <div className="min-w-0 flex-1">
                 <p className="text-xs md:text-sm font-medium text-muted-foreground truncate">Cost</p>
-                <p className="text-lg md:text-2xl font-bold text-warning truncate">₹{metrics.totalCost.toFixed(0)}</p>
+                <p className="text-lg md:text-2xl font-bold text-warning truncate">{cs}{metrics.totalCost.toFixed(0)}</p>
               </div>
               <div className="h-10 w-10 md:h-12 md:w-12 rounded-full bg-gradient-warm flex items-center justify-center flex-shrink-0 ml-2">
                 <TrendingDown className="h-5 w-5 md:h-6 md:w-6 text-warning-foreground" />
@@ -238,7 +349,7 @@ const ProfitAnalytics = () => {
               <div className="min-w-0 flex-1">
                 <p className="text-xs md:text-sm font-medium text-muted-foreground truncate">Profit</p>
                 <p className={`text-lg md:text-2xl font-bold truncate ${metrics.totalProfit >= 0 ? 'text-success' : 'text-destructive'}`}>
-                  ₹{metrics.totalProfit.toFixed(0)}
+                  {cs}{metrics.totalProfit.toFixed(0)}
                 </p>
               </div>
               <div className={`h-10 w-10 md:h-12 md:w-12 rounded-full flex items-center justify-center flex-shrink-0 ml-2 ${metrics.totalProfit >= 0 ? 'bg-gradient-to-br from-success to-success/60' : 'bg-gradient-to-br from-destructive to-destructive/60'}`}>
@@ -267,7 +378,7 @@ const ProfitAnalytics = () => {
             <div className="flex items-center justify-between">
               <div className="min-w-0 flex-1">
                 <p className="text-xs md:text-sm font-medium text-muted-foreground truncate">Inventory Potential</p>
-                <p className="text-lg md:text-2xl font-bold text-secondary truncate">₹{inventoryProfitPotential.toFixed(0)}</p>
+                <p className="text-lg md:text-2xl font-bold text-secondary truncate">{cs}{inventoryProfitPotential.toFixed(0)}</p>
               </div>
               <div className="h-10 w-10 md:h-12 md:w-12 rounded-full bg-gradient-secondary flex items-center justify-center flex-shrink-0 ml-2">
                 <Package className="h-5 w-5 md:h-6 md:w-6 text-secondary-foreground" />
@@ -298,7 +409,7 @@ const ProfitAnalytics = () => {
                 />
                 <YAxis 
                   tick={{ fontSize: isMobile ? 8 : 12 }}
-                  tickFormatter={(value) => isMobile ? `₹${(value / 1000).toFixed(0)}k` : `₹${value}`}
+                  tickFormatter={(value) => isMobile ? `${cs}${(value / 1000).toFixed(0)}k` : `${cs}${value}`}
                   width={isMobile ? 35 : 60}
                 />
                 <ChartTooltip content={<ChartTooltipContent />} />
@@ -328,7 +439,7 @@ const ProfitAnalytics = () => {
                 />
                 <YAxis 
                   tick={{ fontSize: isMobile ? 8 : 12 }}
-                  tickFormatter={(value) => isMobile ? `₹${(value / 1000).toFixed(0)}k` : `₹${value}`}
+                  tickFormatter={(value) => isMobile ? `${cs}${(value / 1000).toFixed(0)}k` : `${cs}${value}`}
                   width={isMobile ? 35 : 60}
                 />
                 <ChartTooltip content={<ChartTooltipContent />} />
@@ -373,7 +484,7 @@ const ProfitAnalytics = () => {
                 />
                 <YAxis
                   tick={{ fontSize: isMobile ? 9 : 12 }}
-                  tickFormatter={(v) => isMobile ? `₹${(v / 1000).toFixed(0)}k` : `₹${v.toLocaleString('en-IN')}`}
+                  tickFormatter={(v) => isMobile ? `${cs}${(v / 1000).toFixed(0)}k` : `${cs}${v.toLocaleString('en-IN')}`}
                   width={isMobile ? 40 : 70}
                 />
                 <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" strokeOpacity={0.5} />
@@ -397,7 +508,7 @@ const ProfitAnalytics = () => {
                 <div key={m.month} className="text-center p-2 rounded-lg bg-muted/40">
                   <p className="text-[10px] md:text-xs text-muted-foreground">{isMobile ? m.month.slice(0, 3) : m.month}</p>
                   <p className={`text-xs md:text-sm font-bold ${m.profit >= 0 ? 'text-success' : 'text-destructive'}`}>
-                    {m.profit >= 0 ? '+' : ''}₹{Math.abs(m.profit).toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+                    {m.profit >= 0 ? '+' : ''}{cs}{Math.abs(m.profit).toLocaleString('en-IN', { maximumFractionDigits: 0 })}
                   </p>
                 </div>
               ))}
@@ -427,12 +538,12 @@ const ProfitAnalytics = () => {
                       </div>
                       <div>
                         <span className="text-muted-foreground">Revenue:</span>
-                        <span className="ml-1 font-medium text-primary">₹{product.revenue.toFixed(0)}</span>
+                        <span className="ml-1 font-medium text-primary">{cs}{product.revenue.toFixed(0)}</span>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Profit:</span>
                         <span className={`ml-1 font-semibold ${product.profit >= 0 ? 'text-success' : 'text-destructive'}`}>
-                          ₹{product.profit.toFixed(0)}
+                          {cs}{product.profit.toFixed(0)}
                         </span>
                       </div>
                       <div>
@@ -467,10 +578,10 @@ const ProfitAnalytics = () => {
                       </div>
                     </TableCell>
                     <TableCell className="text-right">{product.quantity}</TableCell>
-                    <TableCell className="text-right text-primary">₹{product.revenue.toFixed(2)}</TableCell>
-                    <TableCell className="text-right text-warning">₹{product.cost.toFixed(2)}</TableCell>
+                    <TableCell className="text-right text-primary">{cs}{product.revenue.toFixed(2)}</TableCell>
+                    <TableCell className="text-right text-warning">{cs}{product.cost.toFixed(2)}</TableCell>
                     <TableCell className={`text-right font-semibold ${product.profit >= 0 ? 'text-success' : 'text-destructive'}`}>
-                      ₹{product.profit.toFixed(2)}
+                      {cs}{product.profit.toFixed(2)}
                     </TableCell>
                     <TableCell className="text-right">
                       <Badge variant={product.margin >= 20 ? "default" : product.margin >= 10 ? "secondary" : "destructive"} className={product.margin >= 20 ? "bg-success" : ""}>
@@ -487,6 +598,63 @@ const ProfitAnalytics = () => {
             </Table>)}
         </CardContent>
       </Card>
+
+      {/* Discount Report */}
+      <Card className="border-2 border-accent/20 shadow-colorful">
+        <CardHeader className="bg-gradient-to-r from-warning/5 to-primary/5 px-3 md:px-6 py-3 md:py-4">
+          <CardTitle className="flex items-center gap-2 text-base md:text-lg">
+            <Tag className="h-4 w-4 md:h-5 md:w-5 text-warning" />
+            Discount Report
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-4 md:pt-6 px-3 md:px-6 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 md:gap-3">
+            <div className="p-2 md:p-3 rounded-lg bg-muted/40">
+              <p className="text-[10px] md:text-xs text-muted-foreground">List Value</p>
+              <p className="text-sm md:text-lg font-bold">{cs}{metrics.discounts.listValue.toFixed(0)}</p>
+            </div>
+            <div className="p-2 md:p-3 rounded-lg bg-muted/40">
+              <p className="text-[10px] md:text-xs text-muted-foreground">Line Discounts</p>
+              <p className="text-sm md:text-lg font-bold text-warning">{cs}{metrics.discounts.lineDiscounts.toFixed(0)}</p>
+            </div>
+            <div className="p-2 md:p-3 rounded-lg bg-muted/40">
+              <p className="text-[10px] md:text-xs text-muted-foreground">Invoice Discounts</p>
+              <p className="text-sm md:text-lg font-bold text-warning">{cs}{metrics.discounts.documentDiscounts.toFixed(0)}</p>
+            </div>
+            <div className="p-2 md:p-3 rounded-lg bg-muted/40">
+              <p className="text-[10px] md:text-xs text-muted-foreground">Given Away</p>
+              <p className="text-sm md:text-lg font-bold text-info">{metrics.discounts.discountPercent.toFixed(1)}%</p>
+            </div>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gradient-to-r from-warning/10 to-accent/10">
+                <TableHead className="font-bold">Product</TableHead>
+                {!isMobile && <TableHead className="text-right font-bold">List Value</TableHead>}
+                {!isMobile && <TableHead className="text-right font-bold">Line</TableHead>}
+                {!isMobile && <TableHead className="text-right font-bold">Invoice</TableHead>}
+                <TableHead className="text-right font-bold">Discount</TableHead>
+                <TableHead className="text-right font-bold">%</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {metrics.discounts.products.map((product, index) => <TableRow key={product.name} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
+                  <TableCell className="font-medium text-xs md:text-sm">{product.name}</TableCell>
+                  {!isMobile && <TableCell className="text-right">{cs}{product.listValue.toFixed(2)}</TableCell>}
+                  {!isMobile && <TableCell className="text-right">{cs}{product.lineDiscount.toFixed(2)}</TableCell>}
+                  {!isMobile && <TableCell className="text-right">{cs}{product.documentDiscount.toFixed(2)}</TableCell>}
+                  <TableCell className="text-right font-semibold text-warning text-xs md:text-sm">{cs}{product.total.toFixed(2)}</TableCell>
+                  <TableCell className="text-right text-xs md:text-sm">{product.percent.toFixed(1)}%</TableCell>
+                </TableRow>)}
+              {metrics.discounts.products.length === 0 && <TableRow>
+                  <TableCell colSpan={isMobile ? 3 : 6} className="text-center text-muted-foreground py-8">
+                    No discounts given in the selected period
+                  </TableCell>
+                </TableRow>}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
     </div>;
 };
 export default ProfitAnalytics;
\ No newline at end of file
@@ -6,12 +6,28 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Trash2, FileText, ArrowRight, Search, Package, Check, Send, Share2 } from "lucide-react";
+import { Plus, Trash2, FileText, ArrowRight, Search, Package, Check, Send, Share2, Download, PackagePlus, Save } from "lucide-react";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { useSettings } from "@/contexts/SettingsContext";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
 import { useNavigate } from "react-router-dom";
 import { format } from "date-fns";
+import { ReceivePurchaseOrderDialog } from "@/components/ReceivePurchaseOrderDialog";
+import { useDocumentPdf } from "@/hooks/useDocumentPdf";
+import { PdfDocument, documentPdfLink } from "@/lib/documentPdf";
+import { SupplierPicker } from "@/components/SupplierPicker";
+import { calculateGstTotals } from "@/lib/gst";
 
 type PurchaseOrder = {
   id: string;
@@ -25,6 +41,7 @@ type PurchaseOrder = {
   total: number;
   status: string;
   notes: string | null;
+  purchase_order_items?: { quantity: number; received_quantity: number }[];
 };
 
 type POItem = {
@@ -34,6 +51,7 @@ type POItem = {
   unit_price: number;
   amount: number;
   product_id: string | null;
+  received_quantity: number;
 };
 
 type Product = {
@@ -41,6 +59,7 @@ type Product = {
   name: string;
   purchase_price: number;
   unit_price: number;
+  tax_rate: number | null;
 };
 
 type NewPOItem = {
@@ -54,6 +73,7 @@ const PurchaseOrders = () => {
   const { settings } = useSettings();
   const navigate = useNavigate();
   const cs = settings.currency_symbol || "₹";
+  const { generating: pdfGenerating, generatePdf, downloadPdf, sharePdf } = useDocumentPdf();
 
   const [orders, setOrders] = useState<PurchaseOrder[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
@@ -61,10 +81,13 @@ const PurchaseOrders = () => {
   const [poItems, setPOItems] = useState<POItem[]>([]);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
-  const [isConverting, setIsConverting] = useState(false);
+  const [isReceiveOpen, setIsReceiveOpen] = useState(false);
   const [searchFilter, setSearchFilter] = useState("");
+  const [isDiscardOpen, setIsDiscardOpen] = useState(false);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
 
   // Create form
+  const [supplierId, setSupplierId] = useState<string | null>(null);
   const [supplierName, setSupplierName] = useState("");
   const [supplierPhone, setSupplierPhone] = useState("");
   const [supplierEmail, setSupplierEmail] = useState("");
@@ -84,7 +107,7 @@ const PurchaseOrders = () => {
   const fetchOrders = async () => {
     const { data } = await supabase
       .from("purchase_orders")
-      .select("*")
+      .select("*, purchase_order_items(quantity, received_quantity)")
       .order("created_at", { ascending: false });
     setOrders((data as PurchaseOrder[]) || []);
   };
@@ -92,7 +115,9 @@ const PurchaseOrders = () => {
   const fetchProducts = async () => {
     const { data } = await supabase
       .from("products")
-      .select("id, name, purchase_price, unit_price")
+      .select("id, name, purchase_price, unit_price, tax_rate")
+      // Variants are ordered, not the product they belong to
+      .is("variant_options", null)
       .order("name");
     setProducts(data || []);
   };
@@ -135,13 +160,26 @@ const PurchaseOrders = () => {
     setItems(updated);
   };
 
+  // Each line is taxed at its product's rate, as on the bill it is received into
+  const taxOf = (lines: { product_id: string | null; quantity: number; unit_price: number }[]) =>
+    calculateGstTotals(
+      lines.map((line) => ({
+        quantity: line.quantity,
+        unit_price: Number(line.unit_price),
+        tax_rate: settings.tax_enabled
+          ? products.find((p) => p.id === line.product_id)?.tax_rate ?? settings.default_tax_rate
+          : 0,
+      })),
+      false
+    ).tax;
+
   const itemsSubtotal = items.reduce((sum, i) => sum + i.quantity * i.unit_price, 0);
-  const itemsTax = settings.tax_enabled ? itemsSubtotal * (settings.default_tax_rate / 100) : 0;
+  const itemsTax = taxOf(items);
   const itemsTotal = itemsSubtotal + itemsTax;
 
   const handleCreatePO = async () => {
-    if (!supplierName.trim()) {
-      toast.error("Enter supplier name");
+    if (!supplierId) {
+      toast.error("Select a supplier");
       return;
     }
     if (items.some((i) => !i.description.trim())) {
@@ -154,25 +192,10 @@ const PurchaseOrders = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      // Generate PO number
-      const { data: lastPO } = await supabase
-        .from("purchase_orders")
-        .select("po_number")
-        .order("created_at", { ascending: false })
-        .limit(1);
-
-      let nextNum = 1;
-      if (lastPO && lastPO.length > 0) {
-        const last = parseInt(lastPO[0].po_number.replace(/\D/g, "")) || 0;
-        nextNum = last + 1;
-      }
-      const poNumber = `PO-${String(nextNum).padStart(4, "0")}`;
-
-      const { data: po, error } = await supabase
-        .from("purchase_orders")
-        .insert({
-          user_id: user.id,
-          po_number: poNumber,
+      // The PO number is assigned from the numbering sequence on insert
+      const { data: poId, error } = await supabase.rpc("create_purchase_order", {
+        p_po: {
+          supplier_id: supplierId,
           supplier_name: supplierName.trim(),
           supplier_email: supplierEmail.trim() || null,
           po_date: poDate,
@@ -180,24 +203,24 @@ const PurchaseOrders = () => {
           subtotal: itemsSubtotal,
           tax: itemsTax,
           total: itemsTotal,
-          status: "pending",
           notes: notes.trim() || null,
-        })
-        .select()
-        .single();
+        },
+        p_items: items.map((i) => ({
+          product_id: i.product_id,
+          description: i.description,
+          quantity: i.quantity,
+          unit_price: i.unit_price,
+        })),
+      });
 
       if (error) throw error;
 
-      const poItemsData = items.map((i) => ({
-        po_id: po.id,
-        product_id: i.product_id,
-        description: i.description,
-        quantity: i.quantity,
-        unit_price: i.unit_price,
-        amount: i.quantity * i.unit_price,
-      }));
-
-      await supabase.from("purchase_order_items").insert(poItemsData);
+      const { data: createdPO } = await supabase
+        .from("purchase_orders")
+        .select("po_number")
+        .eq("id", poId)
+        .single();
+      const poNumber = createdPO?.po_number || "";
 
       toast.success(`${poNumber} created!`);
 
@@ -206,7 +229,16 @@ const PurchaseOrders = () => {
         const msg = buildPOWhatsAppMessage(poNumber, supplierName.trim(), items, itemsSubtotal, itemsTax, itemsTotal, expectedDate);
         const phone = supplierPhone.trim().replace(/\D/g, "");
         const fullPhone = phone.startsWith("91") ? phone : `91${phone}`;
-        window.open(`https://wa.me/${fullPhone}?text=${encodeURIComponent(msg)}`, "_blank");
+        // A chat opened for a number carries text only, so link to the PDF
+        const pdf = await generatePdf(
+          buildPOPdf(
+            { po_number: poNumber, supplier_name: supplierName.trim(), supplier_email: supplierEmail.trim() || null, po_date: poDate, expected_date: expectedDate || null, subtotal: itemsSubtotal, tax: itemsTax, total: itemsTotal, notes: notes.trim() || null },
+            items.map((i) => ({ ...i, amount: i.quantity * i.unit_price }))
+          ),
+          { table: "purchase_orders", id: poId }
+        );
+        const link = pdf?.path ? await documentPdfLink(pdf.path) : null;
+        window.open(`https://wa.me/${fullPhone}?text=${encodeURIComponent(link ? `${msg}\n\n📄 PDF: ${link}` : msg)}`, "_blank");
       }
 
       setIsCreateOpen(false);
@@ -220,6 +252,7 @@ const PurchaseOrders = () => {
   };
 
   const resetForm = () => {
+    setSupplierId(null);
     setSupplierName("");
     setSupplierPhone("");
     setSupplierEmail("");
@@ -251,109 +284,180 @@ const PurchaseOrders = () => {
     return msg;
   };
 
-  const handleSharePOWhatsApp = () => {
+  const buildPOPdf = (
+    po: Pick<PurchaseOrder, "po_number" | "supplier_name" | "supplier_email" | "po_date" | "expected_date" | "subtotal" | "tax" | "total" | "notes">,
+    poItemsList: { description: string; quantity: number; unit_price: number; amount: number; product_id?: string | null }[]
+  ): PdfDocument => ({
+    type: "purchase_order",
+    title: "PURCHASE ORDER",
+    number: po.po_number,
+    partyLabel: "Supplier",
+    partyName: po.supplier_name,
+    partyDetails: [po.supplier_email],
+    details: [
+      { label: "Date", value: format(new Date(po.po_date), "dd MMM yyyy") },
+      ...(po.expected_date ? [{ label: "Expected", value: format(new Date(po.expected_date), "dd MMM yyyy") }] : []),
+    ],
+    currencyCode: settings.currency_code,
+    items: poItemsList.map((i) => ({ ...i, unit_price: Number(i.unit_price), amount: Number(i.amount) })),
+    totals: [
+      { label: "Subtotal", amount: Number(po.subtotal) },
+      ...(Number(po.tax) > 0 ? [{ label: "Tax", amount: Number(po.tax) }] : []),
+      { label: "Total", amount: Number(po.total), emphasis: true },
+    ],
+    notes: po.notes,
+    footer: "Please confirm this order.",
+  });
+
+  const handleDownloadPOPdf = () => {
+    if (!selectedPO || poItems.length === 0) return;
+    downloadPdf(buildPOPdf(selectedPO, poItems), { table: "purchase_orders", id: selectedPO.id });
+  };
+
+  const handleSharePOWhatsApp = async () => {
     if (!selectedPO || poItems.length === 0) return;
     const msg = buildPOWhatsAppMessage(
       selectedPO.po_number, selectedPO.supplier_name, poItems,
       Number(selectedPO.subtotal), Number(selectedPO.tax), Number(selectedPO.total),
       selectedPO.expected_date
     );
-    const url = `https://wa.me/?text=${encodeURIComponent(msg)}`;
+    // Share the PDF itself where the device allows, otherwise link to the stored copy
+    const { shared, link } = await sharePdf(buildPOPdf(selectedPO, poItems), { table: "purchase_orders", id: selectedPO.id }, msg);
+    if (shared) return;
+    const url = `https://wa.me/?text=${encodeURIComponent(link ? `${msg}\n\n📄 PDF: ${link}` : msg)}`;
     window.open(url, "_blank");
   };
 
-  const handleConvertToBill = async () => {
-    if (!selectedPO) return;
-    setIsConverting(true);
-
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      // Generate bill number
-      const { data: lastBill } = await supabase
-        .from("bills")
-        .select("bill_number")
-        .order("created_at", { ascending: false })
-        .limit(1);
-
-      let nextNum = 1;
-      if (lastBill && lastBill.length > 0) {
-        const last = parseInt(lastBill[0].bill_number.replace(/\D/g, "")) || 0;
-        nextNum = last + 1;
-      }
-      const billNumber = `${settings.bill_prefix}${String(nextNum).padStart(4, "0")}`;
-
-      // Create bill
-      const { data: bill, error: billErr } = await supabase
-        .from("bills")
-        .insert({
-          user_id: user.id,
-          bill_number: billNumber,
-          customer_name: selectedPO.supplier_name,
-          customer_email: selectedPO.supplier_email,
-          bill_date: new Date().toISOString().split("T")[0],
-          subtotal: selectedPO.subtotal,
-          tax: selectedPO.tax,
-          total: selectedPO.total,
-          status: "active",
-          notes: `Converted from ${selectedPO.po_number}`,
-        })
-        .select()
-        .single();
+  const isDraft = selectedPO?.status === "draft";
+  const draftSubtotal = poItems.reduce((sum, i) => sum + i.quantity * Number(i.unit_price), 0);
+  const draftTax = taxOf(poItems);
+  const drafts = orders.filter((o) => o.status === "draft");
+  const draftsTotal = drafts.reduce((sum, o) => sum + Number(o.total), 0);
+
+  const updatePOItem = (id: string, field: "quantity" | "unit_price", value: number) => {
+    setPOItems((prev) => prev.map((i) => {
+      if (i.id !== id) return i;
+      const updated = { ...i, [field]: value };
+      return { ...updated, amount: updated.quantity * Number(updated.unit_price) };
+    }));
+  };
 
-      if (billErr) throw billErr;
+  const removePOItem = (id: string) => {
+    setPOItems((prev) => prev.filter((i) => i.id !== id));
+  };
 
-      // Copy items to bill
-      const billItems = poItems.map((i) => ({
-        bill_id: bill.id,
+  // Drafts are edited in place; totals follow the lines at the current tax rate
+  const saveDraft = async () => {
+    if (!selectedPO) return false;
+    if (poItems.length === 0) {
+      toast.error("A purchase order needs at least one item");
+      return false;
+    }
+    if (poItems.some((i) => i.quantity <= 0)) {
+      toast.error("Quantities must be more than zero");
+      return false;
+    }
+    const { error } = await supabase.rpc("update_draft_purchase_order", {
+      p_po_id: selectedPO.id,
+      p_po: {
+        expected_date: selectedPO.expected_date,
+        notes: selectedPO.notes,
+        subtotal: draftSubtotal,
+        tax: draftTax,
+        total: draftSubtotal + draftTax,
+      },
+      p_items: poItems.map((i) => ({
         product_id: i.product_id,
         description: i.description,
         quantity: i.quantity,
-        unit_price: i.unit_price,
-        amount: i.amount,
-      }));
-
-      await supabase.from("bill_items").insert(billItems);
+        unit_price: Number(i.unit_price),
+      })),
+    });
+    if (error) {
+      toast.error(error.message || "Failed to save draft");
+      return false;
+    }
+    return true;
+  };
 
-      // Update PO status
-      await supabase
-        .from("purchase_orders")
-        .update({ status: "converted" })
-        .eq("id", selectedPO.id);
-
-      // Update product stock (increase since goods received)
-      for (const item of poItems) {
-        if (item.product_id) {
-          const { data: product } = await supabase
-            .from("products")
-            .select("quantity")
-            .eq("id", item.product_id)
-            .single();
-
-          if (product) {
-            await supabase
-              .from("products")
-              .update({ quantity: product.quantity + item.quantity })
-              .eq("id", item.product_id);
-          }
-        }
-      }
+  const handleSaveDraft = async () => {
+    setIsSavingDraft(true);
+    try {
+      if (!(await saveDraft())) return;
+      toast.success("Draft saved");
+      setIsDetailOpen(false);
+      fetchOrders();
+    } finally {
+      setIsSavingDraft(false);
+    }
+  };
 
-      toast.success(`Converted to Bill ${billNumber} & stock updated!`);
+  const handleConfirmDraft = async () => {
+    if (!selectedPO) return;
+    setIsSavingDraft(true);
+    try {
+      if (!(await saveDraft())) return;
+      const { error } = await supabase.rpc("confirm_purchase_orders", { p_po_ids: [selectedPO.id] });
+      if (error) throw error;
+      toast.success(`${selectedPO.po_number} confirmed`);
       setIsDetailOpen(false);
       fetchOrders();
-    } catch (err: any) {
-      toast.error(err.message || "Failed to convert");
+    } catch (error) {
+      logErrorInDev("ConfirmPurchaseOrder", error);
+      toast.error(getSafeErrorMessage(error, "Failed to confirm PO"));
     } finally {
-      setIsConverting(false);
+      setIsSavingDraft(false);
     }
   };
 
+  const handleDiscardDraft = async () => {
+    if (!selectedPO) return;
+    setIsSavingDraft(true);
+    // Its items go with it
+    const { error } = await supabase
+      .from("purchase_orders")
+      .delete()
+      .eq("id", selectedPO.id)
+      .eq("status", "draft");
+    setIsSavingDraft(false);
+    if (error) {
+      toast.error(error.message || "Failed to discard draft");
+      return;
+    }
+    toast.success(`${selectedPO.po_number} discarded`);
+    setIsDiscardOpen(false);
+    setIsDetailOpen(false);
+    fetchOrders();
+  };
+
+  const handleConfirmAllDrafts = async () => {
+    setIsSavingDraft(true);
+    const { data: confirmed, error } = await supabase.rpc("confirm_purchase_orders", { p_po_ids: drafts.map((o) => o.id) });
+    setIsSavingDraft(false);
+    if (error) {
+      toast.error(error.message || "Failed to confirm drafts");
+      return;
+    }
+    toast.success(`${confirmed} purchase order${confirmed === 1 ? "" : "s"} confirmed`);
+    fetchOrders();
+  };
+
+  const handleReceived = (billId: string, billNumber: string) => {
+    toast.success(`Received into Bill ${billNumber} & stock updated!`);
+    setIsDetailOpen(false);
+    fetchOrders();
+  };
+
+  // Units ordered but not yet delivered
+  const outstandingUnits = (po: PurchaseOrder) =>
+    (po.purchase_order_items || []).reduce((sum, i) => sum + i.quantity - i.received_quantity, 0);
+
   const statusColor = (s: string) => {
     switch (s) {
+      case "draft": return "outline";
       case "pending": return "secondary";
-      case "converted": return "default";
+      case "partially_received": return "outline";
+      case "received": return "default";
       case "cancelled": return "destructive";
       default: return "outline" as const;
     }
@@ -371,14 +475,38 @@ const PurchaseOrders = () => {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-xl md:text-3xl font-bold text-foreground">Purchase Orders</h1>
-          <p className="text-xs md:text-sm text-muted-foreground">Create PO → Convert to Bill</p>
+          <p className="text-xs md:text-sm text-muted-foreground">Create PO → Receive deliveries</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => navigate("/reorder")} variant="outline" size="sm">
+            <PackagePlus className="h-4 w-4 mr-1" />
+            Reorder
+          </Button>
+          <Button onClick={() => setIsCreateOpen(true)} className="gradient-primary text-primary-foreground" size="sm">
+            <Plus className="h-4 w-4 mr-1" />
+            New PO
+          </Button>
         </div>
-        <Button onClick={() => setIsCreateOpen(true)} className="gradient-primary text-primary-foreground" size="sm">
-          <Plus className="h-4 w-4 mr-1" />
-          New PO
-        </Button>
       </div>
 
+      {/* Drafts awaiting confirmation */}
+      {drafts.length > 0 && (
+        <Card className="border-primary/30 bg-primary/5">
+          <CardContent className="p-3 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold">{drafts.length} draft PO{drafts.length === 1 ? "" : "s"} to review</p>
+              <p className="text-xs text-muted-foreground">
+                {cs}{draftsTotal.toLocaleString("en-IN", { maximumFractionDigits: 0 })} · open one to edit, or confirm them all
+              </p>
+            </div>
+            <Button onClick={handleConfirmAllDrafts} disabled={isSavingDraft} size="sm" className="gradient-primary text-primary-foreground flex-shrink-0">
+              <Check className="h-4 w-4 mr-1" />
+              Confirm all
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Search */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -411,10 +539,13 @@ const PurchaseOrders = () => {
                   <div className="flex items-center gap-2">
                     <p className="font-semibold text-sm">{po.po_number}</p>
                     <Badge variant={statusColor(po.status) as any} className="text-[10px]">
-                      {po.status}
+                      {po.status.replace("_", " ")}
                     </Badge>
                   </div>
                   <p className="text-xs text-muted-foreground truncate">{po.supplier_name}</p>
+                  {po.status === "partially_received" && (
+                    <p className="text-[10px] text-warning">{outstandingUnits(po)} units outstanding</p>
+                  )}
                   <p className="text-[10px] text-muted-foreground">
                     {format(new Date(po.po_date), "dd MMM yyyy")}
                   </p>
@@ -449,74 +580,189 @@ const PurchaseOrders = () => {
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Status</span>
               <Badge variant={statusColor(selectedPO?.status || "") as any}>
-                {selectedPO?.status}
+                {selectedPO?.status.replace("_", " ")}
               </Badge>
             </div>
 
             <div className="border rounded-lg overflow-hidden">
               <div className="bg-muted p-2 flex text-[10px] font-semibold text-muted-foreground">
                 <span className="flex-1">Item</span>
-                <span className="w-10 text-center">Qty</span>
-                <span className="w-16 text-right">Price</span>
+                <span className={isDraft ? "w-14 text-center" : "w-10 text-center"}>Qty</span>
+                {!isDraft && <span className="w-12 text-center">Recd</span>}
+                <span className={isDraft ? "w-20 text-right" : "w-16 text-right"}>Price</span>
                 <span className="w-16 text-right">Total</span>
+                {isDraft && <span className="w-7" />}
               </div>
-              {poItems.map((item) => (
+              {isDraft ? poItems.map((item) => (
+                <div key={item.id} className="p-2 flex gap-1 text-xs border-t items-center">
+                  <span className="flex-1 truncate">{item.description}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-14 h-7 text-xs text-center px-1"
+                    value={item.quantity}
+                    onChange={(e) => updatePOItem(item.id, "quantity", parseInt(e.target.value) || 0)}
+                    aria-label={`Quantity of ${item.description}`}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-20 h-7 text-xs text-right px-1"
+                    value={item.unit_price}
+                    onChange={(e) => updatePOItem(item.id, "unit_price", parseFloat(e.target.value) || 0)}
+                    aria-label={`Price of ${item.description}`}
+                  />
+                  <span className="w-16 text-right font-semibold">{cs}{(item.quantity * Number(item.unit_price)).toLocaleString("en-IN")}</span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => removePOItem(item.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              )) : poItems.map((item) => (
                 <div key={item.id} className="p-2 flex text-xs border-t items-center">
                   <span className="flex-1 truncate">{item.description}</span>
                   <span className="w-10 text-center">{item.quantity}</span>
+                  <span className={`w-12 text-center ${item.received_quantity < item.quantity ? "text-warning" : "text-success"}`}>
+                    {item.received_quantity}
+                  </span>
                   <span className="w-16 text-right">{cs}{Number(item.unit_price).toLocaleString("en-IN")}</span>
                   <span className="w-16 text-right font-semibold">{cs}{Number(item.amount).toLocaleString("en-IN")}</span>
                 </div>
               ))}
             </div>
 
-            <div className="space-y-1 text-sm">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Subtotal</span>
-                <span>{cs}{Number(selectedPO?.subtotal || 0).toLocaleString("en-IN")}</span>
+            {isDraft ? (
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>{cs}{draftSubtotal.toLocaleString("en-IN")}</span>
+                </div>
+                {settings.tax_enabled && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{settings.tax_name}</span>
+                    <span>{cs}{draftTax.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold text-base border-t pt-1">
+                  <span>Total</span>
+                  <span className="text-primary">{cs}{(draftSubtotal + draftTax).toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
+                </div>
               </div>
-              {Number(selectedPO?.tax || 0) > 0 && (
+            ) : (
+              <div className="space-y-1 text-sm">
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Tax</span>
-                  <span>{cs}{Number(selectedPO?.tax || 0).toLocaleString("en-IN")}</span>
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>{cs}{Number(selectedPO?.subtotal || 0).toLocaleString("en-IN")}</span>
+                </div>
+                {Number(selectedPO?.tax || 0) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Tax</span>
+                    <span>{cs}{Number(selectedPO?.tax || 0).toLocaleString("en-IN")}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold text-base border-t pt-1">
+                  <span>Total</span>
+                  <span className="text-primary">{cs}{Number(selectedPO?.total || 0).toLocaleString("en-IN")}</span>
                 </div>
-              )}
-              <div className="flex justify-between font-bold text-base border-t pt-1">
-                <span>Total</span>
-                <span className="text-primary">{cs}{Number(selectedPO?.total || 0).toLocaleString("en-IN")}</span>
               </div>
-            </div>
+            )}
 
             {selectedPO?.notes && (
               <p className="text-xs text-muted-foreground italic">{selectedPO.notes}</p>
             )}
 
-            <div className="flex gap-2">
-              <Button
-                onClick={handleSharePOWhatsApp}
-                variant="outline"
-                className="flex-1"
-                size="sm"
-              >
-                <Share2 className="h-4 w-4 mr-1" />
-                Share WhatsApp
-              </Button>
-              {selectedPO?.status === "pending" && (
+            {isDraft ? (
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => setIsDiscardOpen(true)}
+                  disabled={isSavingDraft}
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Discard
+                </Button>
                 <Button
-                  onClick={handleConvertToBill}
-                  disabled={isConverting}
+                  onClick={handleSaveDraft}
+                  disabled={isSavingDraft}
+                  variant="outline"
+                  className="flex-1"
+                  size="sm"
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Save
+                </Button>
+                <Button
+                  onClick={handleConfirmDraft}
+                  disabled={isSavingDraft}
                   className="flex-1 gradient-primary text-primary-foreground"
                   size="sm"
                 >
-                  <ArrowRight className="h-4 w-4 mr-1" />
-                  {isConverting ? "Converting..." : "Convert to Bill"}
+                  <Check className="h-4 w-4 mr-1" />
+                  Confirm PO
                 </Button>
-              )}
-            </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleDownloadPOPdf}
+                  disabled={pdfGenerating}
+                  variant="outline"
+                  size="sm"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  PDF
+                </Button>
+                <Button
+                  onClick={handleSharePOWhatsApp}
+                  disabled={pdfGenerating}
+                  variant="outline"
+                  className="flex-1"
+                  size="sm"
+                >
+                  <Share2 className="h-4 w-4 mr-1" />
+                  Share WhatsApp
+                </Button>
+                {(selectedPO?.status === "pending" || selectedPO?.status === "partially_received") && (
+                  <Button
+                    onClick={() => setIsReceiveOpen(true)}
+                    className="flex-1 gradient-primary text-primary-foreground"
+                    size="sm"
+                  >
+                    <ArrowRight className="h-4 w-4 mr-1" />
+                    Receive Goods
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
 
+      <AlertDialog open={isDiscardOpen} onOpenChange={setIsDiscardOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard {selectedPO?.po_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The draft and its items are deleted. Its products will be suggested again in the reorder planner.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSavingDraft}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); handleDiscardDraft(); }} disabled={isSavingDraft}>
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReceivePurchaseOrderDialog
+        po={isReceiveOpen ? selectedPO : null}
+        open={isReceiveOpen}
+        onOpenChange={setIsReceiveOpen}
+        onReceived={handleReceived}
+      />
+
       {/* Create PO Dialog */}
       <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
         <DialogContent className="w-[95vw] max-w-lg max-h-[90vh] flex flex-col p-0">
@@ -525,10 +771,15 @@ const PurchaseOrders = () => {
           </DialogHeader>
 
           <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3">
-            <Input
-              placeholder="Supplier Name *"
-              value={supplierName}
-              onChange={(e) => setSupplierName(e.target.value)}
+            <SupplierPicker
+              supplierId={supplierId}
+              placeholder="Supplier *"
+              onSelect={(supplier) => {
+                setSupplierId(supplier?.id || null);
+                setSupplierName(supplier?.name || "");
+                setSupplierPhone(supplier?.phone || "");
+                setSupplierEmail(supplier?.email || "");
+              }}
             />
             <div className="grid grid-cols-2 gap-2">
               <Input
@@ -627,7 +878,7 @@ const PurchaseOrders = () => {
               </div>
               {settings.tax_enabled && (
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">{settings.tax_name} ({settings.default_tax_rate}%)</span>
+                  <span className="text-muted-foreground">{settings.tax_name}</span>
                   <span>{cs}{itemsTax.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
                 </div>
               )}
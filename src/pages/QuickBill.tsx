@@ -4,14 +4,20 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Search, Plus, Minus, ShoppingCart, Trash2, Receipt, X, Send, PlusCircle } from "lucide-react";
+import { Search, Plus, Minus, ShoppingCart, Trash2, Receipt, X, Send, PlusCircle, ScanLine } from "lucide-react";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { useSettings } from "@/contexts/SettingsContext";
 import { useNavigate } from "react-router-dom";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarcodeScannerDialog } from "@/components/BarcodeScannerDialog";
 import DocumentPreview from "@/components/DocumentPreview";
+import { useCompanyStateCode } from "@/hooks/useCompanyStateCode";
+import { calculateGstTotals, DiscountType } from "@/lib/gst";
+import { DiscountInput } from "@/components/DiscountInput";
+import { BatchSelect } from "@/components/BatchSelect";
+import { Switch } from "@/components/ui/switch";
 
 type Product = {
   id: string;
@@ -20,11 +26,19 @@ type Product = {
   purchase_price: number;
   quantity: number;
   category: string | null;
+  barcode: string | null;
+  sku: string | null;
+  hsn_code: string | null;
+  tax_rate: number | null;
 };
 
 type CartItem = {
   product: Product;
   qty: number;
+  discount_type: DiscountType;
+  discount_value: number;
+  // Batch picked by hand; otherwise stock goes first-expiry-first-out
+  batch_id: string | null;
 };
 
 const UNITS = ["kg", "ltr", "pc", "box", "pack", "set", "pair", "g", "ml", "dozen"];
@@ -33,6 +47,7 @@ const QuickBill = () => {
   const { settings } = useSettings();
   const navigate = useNavigate();
   const cs = settings.currency_symbol || "₹";
+  const companyState = useCompanyStateCode();
 
   const [products, setProducts] = useState<Product[]>([]);
   const [search, setSearch] = useState("");
@@ -42,23 +57,32 @@ const QuickBill = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showCart, setShowCart] = useState(false);
   const [showQuickAdd, setShowQuickAdd] = useState(false);
-  const [newProduct, setNewProduct] = useState({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc" });
+  const [showScanner, setShowScanner] = useState(false);
+  const [newProduct, setNewProduct] = useState({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc", barcode: "" });
   const [isAddingProduct, setIsAddingProduct] = useState(false);
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [discountValue, setDiscountValue] = useState(0);
+  const [roundOff, setRoundOff] = useState(false);
   const [previewData, setPreviewData] = useState<{
+    docId: string;
     docNumber: string;
     partyName: string;
     partyPhone?: string;
     date: string;
-    items: { name: string; qty: number; unitPrice: number; amount: number }[];
+    items: { productId: string; name: string; hsnCode: string | null; taxRate: number; qty: number; unitPrice: number; discount: number; amount: number }[];
     subtotal: number;
+    discount: number;
     tax: number;
+    roundOff: number;
     total: number;
   } | null>(null);
 
   const fetchProducts = async () => {
     const { data } = await supabase
       .from("products")
-      .select("id, name, unit_price, purchase_price, quantity, category")
+      .select("id, name, unit_price, purchase_price, quantity, category, hsn_code, tax_rate, barcode, sku")
+      // Variants are sold, not the product they belong to
+      .is("variant_options", null)
       .order("name");
     setProducts(data || []);
   };
@@ -86,9 +110,10 @@ const QuickBill = () => {
           unit_price: parseFloat(newProduct.unit_price) || 0,
           category: newProduct.category.trim() || null,
           unit: newProduct.unit || "pc",
+          barcode: newProduct.barcode.trim() || null,
           quantity: 0,
         })
-        .select("id, name, unit_price, purchase_price, quantity, category")
+        .select("id, name, unit_price, purchase_price, quantity, category, hsn_code, tax_rate, barcode, sku")
         .single();
 
       if (error) throw error;
@@ -96,10 +121,10 @@ const QuickBill = () => {
       toast.success(`${data.name} added!`);
       setProducts((prev) => [...prev, data as Product].sort((a, b) => a.name.localeCompare(b.name)));
       addToCart(data as Product);
-      setNewProduct({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc" });
+      setNewProduct({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc", barcode: "" });
       setShowQuickAdd(false);
     } catch (err: any) {
-      toast.error(err.message || "Failed to add product");
+      toast.error(err.code === "23505" ? "Another product already has this barcode" : err.message || "Failed to add product");
     } finally {
       setIsAddingProduct(false);
     }
@@ -114,6 +139,7 @@ const QuickBill = () => {
   const filteredProducts = products.filter((p) => {
     const matchesSearch =
       p.name.toLowerCase().includes(search.toLowerCase()) ||
+      p.barcode === search.trim() ||
       (p.category && p.category.toLowerCase().includes(search.toLowerCase()));
     const matchesCategory = !selectedCategory || p.category === selectedCategory;
     return matchesSearch && matchesCategory;
@@ -135,10 +161,22 @@ const QuickBill = () => {
         toast.error("Out of stock");
         return prev;
       }
-      return [...prev, { product, qty: 1 }];
+      return [...prev, { product, qty: 1, discount_type: "percent", discount_value: 0, batch_id: null }];
     });
   };
 
+  // A scanned code adds the product, or opens Quick Add with the code filled in
+  const handleScannedCode = (code: string) => {
+    const product = products.find((p) => p.barcode === code) || products.find((p) => p.sku === code);
+    if (product) {
+      addToCart(product);
+      return;
+    }
+    setShowScanner(false);
+    setNewProduct((p) => ({ ...p, barcode: code }));
+    setShowQuickAdd(true);
+  };
+
   const updateQty = (productId: string, delta: number) => {
     setCart((prev) =>
       prev
@@ -159,9 +197,29 @@ const QuickBill = () => {
     setCart((prev) => prev.filter((c) => c.product.id !== productId));
   };
 
-  const subtotal = cart.reduce((sum, c) => sum + c.qty * c.product.unit_price, 0);
-  const taxAmount = settings.tax_enabled ? subtotal * (settings.default_tax_rate / 100) : 0;
-  const total = subtotal + taxAmount;
+  const updateDiscount = (productId: string, type: DiscountType, value: number) => {
+    setCart((prev) =>
+      prev.map((c) => (c.product.id === productId ? { ...c, discount_type: type, discount_value: value } : c))
+    );
+  };
+
+  const updateBatch = (productId: string, batchId: string | null) => {
+    setCart((prev) => prev.map((c) => (c.product.id === productId ? { ...c, batch_id: batchId } : c)));
+  };
+
+  // Counter sales are always intra-state, so tax splits into CGST + SGST
+  const gst = calculateGstTotals(
+    cart.map((c) => ({
+      quantity: c.qty,
+      unit_price: c.product.unit_price,
+      tax_rate: settings.tax_enabled ? c.product.tax_rate ?? settings.default_tax_rate : 0,
+      discount_type: c.discount_type,
+      discount_value: c.discount_value,
+    })),
+    false,
+    { discount_type: discountType, discount_value: discountValue, round_off: roundOff }
+  );
+  const { subtotal, tax: taxAmount, total } = gst;
   const cartCount = cart.reduce((sum, c) => sum + c.qty, 0);
 
   const handleGenerateBill = async () => {
@@ -179,78 +237,75 @@ const QuickBill = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      // Generate bill number
-      const { data: lastBill } = await supabase
-        .from("bills")
-        .select("bill_number")
-        .order("created_at", { ascending: false })
-        .limit(1);
-
-      let nextNumber = 1;
-      if (lastBill && lastBill.length > 0) {
-        const lastNum = parseInt(lastBill[0].bill_number.replace(/\D/g, "")) || 0;
-        nextNumber = lastNum + 1;
-      }
-      const billNumber = `${settings.bill_prefix}${String(nextNumber).padStart(4, "0")}`;
-
-      const { data: bill, error: billError } = await supabase
-        .from("bills")
-        .insert({
-          user_id: user.id,
-          bill_number: billNumber,
+      // Bill, items and stock deduction in one transaction (fails if stock ran out meanwhile).
+      // The bill number is assigned from the numbering sequence on insert.
+      const { data: billId, error: billError } = await supabase.rpc("create_sale_bill", {
+        p_bill: {
           customer_name: customerName.trim(),
           bill_date: new Date().toISOString().split("T")[0],
+          place_of_supply: companyState,
           subtotal,
+          discount_type: discountType,
+          discount_value: discountValue,
+          discount_amount: gst.discount_amount,
+          round_off: gst.round_off,
           tax: taxAmount,
           total,
-          status: "active",
-        })
-        .select()
-        .single();
+        },
+        p_items: cart.map((c, index) => ({
+          product_id: c.product.id,
+          batch_id: c.batch_id,
+          description: c.product.name,
+          quantity: c.qty,
+          unit_price: c.product.unit_price,
+          discount_type: c.discount_type,
+          discount_value: c.discount_value,
+          discount_amount: gst.lines[index].discount_amount,
+          hsn_code: c.product.hsn_code,
+          tax_rate: gst.lines[index].tax_rate,
+          cgst: gst.lines[index].cgst,
+          sgst: gst.lines[index].sgst,
+          igst: gst.lines[index].igst,
+        })),
+      });
 
       if (billError) throw billError;
 
-      // Insert bill items
-      const billItems = cart.map((c) => ({
-        bill_id: bill.id,
-        product_id: c.product.id,
-        description: c.product.name,
-        quantity: c.qty,
-        unit_price: c.product.unit_price,
-        amount: c.qty * c.product.unit_price,
-      }));
-
-      const { error: itemsError } = await supabase.from("bill_items").insert(billItems);
-      if (itemsError) throw itemsError;
-
-      // Update product stock
-      for (const c of cart) {
-        await supabase
-          .from("products")
-          .update({ quantity: c.product.quantity - c.qty })
-          .eq("id", c.product.id);
-      }
+      const { data: createdBill } = await supabase
+        .from("bills")
+        .select("bill_number")
+        .eq("id", billId)
+        .single();
+      const billNumber = createdBill?.bill_number || "";
 
       toast.success(`Bill ${billNumber} created!`);
 
       // Show preview dialog
       setPreviewData({
+        docId: billId,
         docNumber: billNumber,
         partyName: customerName.trim(),
         partyPhone: customerPhone.trim() || undefined,
         date: new Date().toISOString().split("T")[0],
-        items: cart.map((c) => ({
+        items: cart.map((c, index) => ({
+          productId: c.product.id,
           name: c.product.name,
+          hsnCode: c.product.hsn_code,
+          taxRate: gst.lines[index].tax_rate,
           qty: c.qty,
           unitPrice: c.product.unit_price,
-          amount: c.qty * c.product.unit_price,
+          discount: gst.lines[index].discount_amount,
+          amount: gst.lines[index].amount,
         })),
         subtotal,
+        discount: gst.discount_amount,
         tax: taxAmount,
+        roundOff: gst.round_off,
         total,
       });
 
       setCart([]);
+      setDiscountValue(0);
       setCustomerName("");
       setCustomerPhone("");
       setShowCart(false);
@@ -259,6 +314,7 @@ const QuickBill = () => {
       await fetchProducts();
     } catch (error: any) {
       toast.error(error.message || "Failed to create bill");
+      fetchProducts();
     } finally {
       setIsSubmitting(false);
     }
@@ -327,6 +383,15 @@ const QuickBill = () => {
             className="pl-10"
           />
         </div>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-10 w-10 flex-shrink-0"
+          onClick={() => setShowScanner(true)}
+          title="Scan barcode"
+        >
+          <ScanLine className="h-5 w-5" />
+        </Button>
         <Button
           variant="outline"
           size="icon"
@@ -416,7 +481,7 @@ const QuickBill = () => {
             {cart.length === 0 ? (
               <p className="text-center text-muted-foreground py-8">Cart is empty</p>
             ) : (
-              cart.map((item) => (
+              cart.map((item, index) => (
                 <div
                   key={item.product.id}
                   className="flex items-center gap-2 p-2 border rounded-lg"
@@ -426,6 +491,21 @@ const QuickBill = () => {
                     <p className="text-xs text-muted-foreground">
                       {cs}{item.product.unit_price.toLocaleString("en-IN")} × {item.qty}
                     </p>
+                    <div className="flex items-center gap-1 text-[10px] text-muted-foreground mt-1">
+                      <span>Disc</span>
+                      <DiscountInput
+                        type={item.discount_type}
+                        value={item.discount_value}
+                        onChange={(type, value) => updateDiscount(item.product.id, type, value)}
+                      />
+                    </div>
+                    <div className="mt-1">
+                      <BatchSelect
+                        productId={item.product.id}
+                        value={item.batch_id}
+                        onChange={(batchId) => updateBatch(item.product.id, batchId)}
+                      />
+                    </div>
                   </div>
                   <div className="flex items-center gap-1">
                     <Button
@@ -454,9 +534,16 @@ const QuickBill = () => {
                       <Trash2 className="h-3 w-3" />
                     </Button>
                   </div>
-                  <p className="text-sm font-bold w-16 text-right">
-                    {cs}{(item.qty * item.product.unit_price).toLocaleString("en-IN")}
-                  </p>
+                  <div className="w-16 text-right">
+                    <p className="text-sm font-bold">
+                      {cs}{gst.lines[index].amount.toLocaleString("en-IN")}
+                    </p>
+                    {gst.lines[index].discount_amount > 0 && (
+                      <p className="text-[10px] text-muted-foreground line-through">
+                        {cs}{gst.lines[index].gross.toLocaleString("en-IN")}
+                      </p>
+                    )}
+                  </div>
                 </div>
               ))
             )}
@@ -489,12 +576,41 @@ const QuickBill = () => {
                   <span className="text-muted-foreground">Subtotal</span>
                   <span>{cs}{subtotal.toLocaleString("en-IN")}</span>
                 </div>
-                {settings.tax_enabled && (
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">{settings.tax_name} ({settings.default_tax_rate}%)</span>
-                    <span>{cs}{taxAmount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">Discount</span>
+                    <DiscountInput
+                      type={discountType}
+                      value={discountValue}
+                      onChange={(type, value) => {
+                        setDiscountType(type);
+                        setDiscountValue(value);
+                      }}
+                    />
                   </div>
+                  <span>-{cs}{gst.discount_amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
+                </div>
+                {settings.tax_enabled && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">CGST</span>
+                      <span>{cs}{gst.cgst.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">SGST</span>
+                      <span>{cs}{gst.sgst.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
+                    </div>
+                  </>
                 )}
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Switch id="round-off-toggle-quick" checked={roundOff} onCheckedChange={setRoundOff} />
+                    <Label htmlFor="round-off-toggle-quick" className="text-muted-foreground">Round off</Label>
+                  </div>
+                  {roundOff && (
+                    <span>{gst.round_off < 0 ? "-" : "+"}{cs}{Math.abs(gst.round_off).toFixed(2)}</span>
+                  )}
+                </div>
                 <div className="flex justify-between font-bold text-base pt-1 border-t">
                   <span>Total</span>
                   <span className="text-primary">{cs}{total.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
@@ -519,13 +635,16 @@ const QuickBill = () => {
           open={!!previewData}
           onOpenChange={(open) => { if (!open) setPreviewData(null); }}
           type="bill"
+          docId={previewData.docId}
           docNumber={previewData.docNumber}
           partyName={previewData.partyName}
           partyPhone={previewData.partyPhone}
           date={previewData.date}
           items={previewData.items}
           subtotal={previewData.subtotal}
+          discount={previewData.discount}
           tax={previewData.tax}
+          roundOff={previewData.roundOff}
           total={previewData.total}
         />
       )}
@@ -547,6 +666,8 @@ const QuickBill = () => {
         </div>
       )}
 
+      <BarcodeScannerDialog open={showScanner} onOpenChange={setShowScanner} onDetected={handleScannedCode} continuous />
+
       {/* Quick Add Product Dialog */}
       <Dialog open={showQuickAdd} onOpenChange={setShowQuickAdd}>
         <DialogContent className="w-[95vw] max-w-sm">
@@ -562,6 +683,11 @@ const QuickBill = () => {
               <Input placeholder="e.g. Sugar 1kg" value={newProduct.name}
                 onChange={(e) => setNewProduct((p) => ({ ...p, name: e.target.value }))} autoFocus />
             </div>
+            <div>
+              <Label className="text-xs">Barcode</Label>
+              <Input placeholder="Scan or type" value={newProduct.barcode}
+                onChange={(e) => setNewProduct((p) => ({ ...p, barcode: e.target.value }))} />
+            </div>
             <div className="grid grid-cols-2 gap-2">
               <div>
                 <Label className="text-xs">Sell Price *</Label>
@@ -5,15 +5,18 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Search, Plus, Minus, ShoppingCart, Trash2, ClipboardList, Send, PackageCheck, Package, PlusCircle } from "lucide-react";
+import { Search, Plus, Minus, ShoppingCart, Trash2, ClipboardList, Send, PackageCheck, Package, PlusCircle, ScanLine } from "lucide-react";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
 import { useSettings } from "@/contexts/SettingsContext";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarcodeScannerDialog } from "@/components/BarcodeScannerDialog";
 import { format } from "date-fns";
 import DocumentPreview from "@/components/DocumentPreview";
+import { ReceivePurchaseOrderDialog } from "@/components/ReceivePurchaseOrderDialog";
+import { SupplierPicker } from "@/components/SupplierPicker";
+import { calculateGstTotals } from "@/lib/gst";
 
 type Product = {
   id: string;
@@ -22,6 +25,9 @@ type Product = {
   purchase_price: number;
   quantity: number;
   category: string | null;
+  barcode: string | null;
+  sku: string | null;
+  tax_rate: number | null;
 };
 
 type CartItem = {
@@ -45,21 +51,21 @@ const QuickPurchase = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [search, setSearch] = useState("");
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [supplierId, setSupplierId] = useState<string | null>(null);
   const [supplierName, setSupplierName] = useState("");
   const [supplierPhone, setSupplierPhone] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showCart, setShowCart] = useState(false);
   const [pendingPOs, setPendingPOs] = useState<PendingPO[]>([]);
-  const [receivingId, setReceivingId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("order");
-  const [confirmReceiveId, setConfirmReceiveId] = useState<string | null>(null);
-  const [confirmPO, setConfirmPO] = useState<PendingPO | null>(null);
+  const [receivePO, setReceivePO] = useState<PendingPO | null>(null);
   const [previewData, setPreviewData] = useState<{
+    docId: string;
     docNumber: string;
     partyName: string;
     partyPhone?: string;
     date: string;
-    items: { name: string; qty: number; unitPrice: number; amount: number }[];
+    items: { productId: string; name: string; qty: number; unitPrice: number; amount: number }[];
     subtotal: number;
     tax: number;
     total: number;
@@ -67,7 +73,8 @@ const QuickPurchase = () => {
 
   // Quick Add Product state
   const [showQuickAdd, setShowQuickAdd] = useState(false);
-  const [newProduct, setNewProduct] = useState({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc" });
+  const [showScanner, setShowScanner] = useState(false);
+  const [newProduct, setNewProduct] = useState({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc", barcode: "" });
   const [isAddingProduct, setIsAddingProduct] = useState(false);
 
   const UNITS = ["kg", "ltr", "pc", "box", "pack", "set", "pair", "g", "ml", "dozen"];
@@ -91,9 +98,10 @@ const QuickPurchase = () => {
           unit_price: parseFloat(newProduct.unit_price) || 0,
           category: newProduct.category.trim() || null,
           unit: newProduct.unit || "pc",
+          barcode: newProduct.barcode.trim() || null,
           quantity: 0,
         })
-        .select("id, name, unit_price, purchase_price, quantity, category")
+        .select("id, name, unit_price, purchase_price, quantity, category, barcode, sku, tax_rate")
         .single();
 
       if (error) throw error;
@@ -101,10 +109,10 @@ const QuickPurchase = () => {
       toast.success(`${data.name} added!`);
       setProducts((prev) => [...prev, data as Product].sort((a, b) => a.name.localeCompare(b.name)));
       addToCart(data as Product);
-      setNewProduct({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc" });
+      setNewProduct({ name: "", purchase_price: "", unit_price: "", category: "", unit: "pc", barcode: "" });
       setShowQuickAdd(false);
     } catch (err: any) {
-      toast.error(err.message || "Failed to add product");
+      toast.error(err.code === "23505" ? "Another product already has this barcode" : err.message || "Failed to add product");
     } finally {
       setIsAddingProduct(false);
     }
@@ -118,7 +126,9 @@ const QuickPurchase = () => {
   const fetchProducts = async () => {
     const { data } = await supabase
       .from("products")
-      .select("id, name, unit_price, purchase_price, quantity, category")
+      .select("id, name, unit_price, purchase_price, quantity, category, barcode, sku, tax_rate")
+      // Variants are ordered, not the product they belong to
+      .is("variant_options", null)
       .order("name");
     setProducts(data || []);
   };
@@ -127,7 +137,7 @@ const QuickPurchase = () => {
     const { data } = await supabase
       .from("purchase_orders")
       .select("id, po_number, supplier_name, total, po_date, status")
-      .eq("status", "pending")
+      .in("status", ["pending", "partially_received"])
       .order("created_at", { ascending: false });
     setPendingPOs((data as PendingPO[]) || []);
   };
@@ -141,6 +151,7 @@ const QuickPurchase = () => {
   const filteredProducts = products.filter((p) => {
     const matchesSearch =
       p.name.toLowerCase().includes(search.toLowerCase()) ||
+      p.barcode === search.trim() ||
       (p.category && p.category.toLowerCase().includes(search.toLowerCase()));
     const matchesCategory = !selectedCategory || p.category === selectedCategory;
     return matchesSearch && matchesCategory;
@@ -158,6 +169,18 @@ const QuickPurchase = () => {
     });
   };
 
+  // A scanned code adds the product, or opens Quick Add with the code filled in
+  const handleScannedCode = (code: string) => {
+    const product = products.find((p) => p.barcode === code) || products.find((p) => p.sku === code);
+    if (product) {
+      addToCart(product);
+      return;
+    }
+    setShowScanner(false);
+    setNewProduct((p) => ({ ...p, barcode: code }));
+    setShowQuickAdd(true);
+  };
+
   const updateQty = (productId: string, delta: number) => {
     setCart((prev) =>
       prev
@@ -174,7 +197,15 @@ const QuickPurchase = () => {
   };
 
   const subtotal = cart.reduce((sum, c) => sum + c.qty * c.product.purchase_price, 0);
-  const taxAmount = settings.tax_enabled ? subtotal * (settings.default_tax_rate / 100) : 0;
+  // Each line is taxed at its product's rate, as on the bill it is received into
+  const taxAmount = calculateGstTotals(
+    cart.map((c) => ({
+      quantity: c.qty,
+      unit_price: c.product.purchase_price,
+      tax_rate: settings.tax_enabled ? c.product.tax_rate ?? settings.default_tax_rate : 0,
+    })),
+    false
+  ).tax;
   const total = subtotal + taxAmount;
   const cartCount = cart.reduce((sum, c) => sum + c.qty, 0);
 
@@ -187,8 +218,8 @@ const QuickPurchase = () => {
       toast.error("Add items to order first");
       return;
     }
-    if (!supplierName.trim()) {
-      toast.error("Enter supplier name");
+    if (!supplierId) {
+      toast.error("Select a supplier");
       return;
     }
 
@@ -197,56 +228,44 @@ const QuickPurchase = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
 
-      const { data: lastPO } = await supabase
-        .from("purchase_orders")
-        .select("po_number")
-        .order("created_at", { ascending: false })
-        .limit(1);
-
-      let nextNum = 1;
-      if (lastPO && lastPO.length > 0) {
-        const last = parseInt(lastPO[0].po_number.replace(/\D/g, "")) || 0;
-        nextNum = last + 1;
-      }
-      const poNumber = `PO-${String(nextNum).padStart(4, "0")}`;
-
-      const { data: po, error } = await supabase
-        .from("purchase_orders")
-        .insert({
-          user_id: user.id,
-          po_number: poNumber,
+      // The PO number is assigned from the numbering sequence on insert
+      const { data: newPOId, error } = await supabase.rpc("create_purchase_order", {
+        p_po: {
+          supplier_id: supplierId,
           supplier_name: supplierName.trim(),
           po_date: new Date().toISOString().split("T")[0],
           subtotal,
           tax: taxAmount,
           total,
-          status: "pending",
-        })
-        .select()
-        .single();
+        },
+        p_items: cart.map((c) => ({
+          product_id: c.product.id,
+          description: c.product.name,
+          quantity: c.qty,
+          unit_price: c.product.purchase_price,
+        })),
+      });
 
       if (error) throw error;
 
-      const poItems = cart.map((c) => ({
-        po_id: po.id,
-        product_id: c.product.id,
-        description: c.product.name,
-        quantity: c.qty,
-        unit_price: c.product.purchase_price,
-        amount: c.qty * c.product.purchase_price,
-      }));
-
-      await supabase.from("purchase_order_items").insert(poItems);
+      const { data: createdPO } = await supabase
+        .from("purchase_orders")
+        .select("po_number")
+        .eq("id", newPOId)
+        .single();
+      const poNumber = createdPO?.po_number || "";
 
       toast.success(`${poNumber} created!`);
 
       // Show preview dialog
       setPreviewData({
+        docId: newPOId,
         docNumber: poNumber,
         partyName: supplierName.trim(),
         partyPhone: supplierPhone.trim() || undefined,
         date: new Date().toISOString().split("T")[0],
         items: cart.map((c) => ({
+          productId: c.product.id,
           name: c.product.name,
           qty: c.qty,
           unitPrice: c.product.purchase_price,
@@ -258,6 +277,7 @@ const QuickPurchase = () => {
       });
 
       setCart([]);
+      setSupplierId(null);
       setSupplierName("");
       setSupplierPhone("");
       setShowCart(false);
@@ -269,35 +289,17 @@ const QuickPurchase = () => {
     }
   };
 
-  const handleUndoReceive = async (poId: string, billId: string, stockChanges: { productId: string; qty: number }[]) => {
+  const handleUndoReceive = async (poId: string, billId: string) => {
     try {
-      // Reverse stock increases
-      for (const change of stockChanges) {
-        const { data: product } = await supabase
-          .from("products")
-          .select("quantity")
-          .eq("id", change.productId)
-          .single();
-
-        if (product) {
-          await supabase
-            .from("products")
-            .update({ quantity: Math.max(0, product.quantity - change.qty) })
-            .eq("id", change.productId);
-        }
-      }
-
-      // Delete bill items then bill
-      await supabase.from("bill_items").delete().eq("bill_id", billId);
-      await supabase.from("bills").delete().eq("id", billId);
+      // Reverses the stock increase, deletes the bill and sets the PO back to pending
+      const { error } = await supabase.rpc("undo_purchase_receive", {
+        p_po_id: poId,
+        p_bill_id: billId,
+      });
 
-      // Restore PO to pending
-      await supabase
-        .from("purchase_orders")
-        .update({ status: "pending" })
-        .eq("id", poId);
+      if (error) throw error;
 
-      toast.deleted("Receive undone — stock restored, bill deleted, PO back to pending");
+      toast.deleted("Receive undone — stock restored and bill deleted");
       fetchPendingPOs();
       fetchProducts();
     } catch (err: any) {
@@ -305,121 +307,16 @@ const QuickPurchase = () => {
     }
   };
 
-  const handleReceive = async (poId: string) => {
-    setReceivingId(poId);
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      // Get PO items
-      const { data: items } = await supabase
-        .from("purchase_order_items")
-        .select("product_id, quantity")
-        .eq("po_id", poId);
-
-      if (!items || items.length === 0) throw new Error("No items found");
-
-      // Get PO details for bill creation
-      const { data: po } = await supabase
-        .from("purchase_orders")
-        .select("*")
-        .eq("id", poId)
-        .single();
-
-      if (!po) throw new Error("PO not found");
-
-      // Generate bill number
-      const { data: lastBill } = await supabase
-        .from("bills")
-        .select("bill_number")
-        .order("created_at", { ascending: false })
-        .limit(1);
-
-      let nextNum = 1;
-      if (lastBill && lastBill.length > 0) {
-        const last = parseInt(lastBill[0].bill_number.replace(/\D/g, "")) || 0;
-        nextNum = last + 1;
-      }
-      const billNumber = `${settings.bill_prefix}${String(nextNum).padStart(4, "0")}`;
-
-      // Create bill from PO
-      const { data: bill, error: billErr } = await supabase
-        .from("bills")
-        .insert({
-          user_id: user.id,
-          bill_number: billNumber,
-          customer_name: po.supplier_name,
-          customer_email: po.supplier_email,
-          bill_date: new Date().toISOString().split("T")[0],
-          subtotal: po.subtotal,
-          tax: po.tax,
-          total: po.total,
-          status: "active",
-          notes: `Received from ${po.po_number}`,
-        })
-        .select()
-        .single();
-
-      if (billErr) throw billErr;
-
-      // Get full PO items for bill
-      const { data: fullItems } = await supabase
-        .from("purchase_order_items")
-        .select("*")
-        .eq("po_id", poId);
-
-      if (fullItems) {
-        const billItems = fullItems.map((i: any) => ({
-          bill_id: bill.id,
-          product_id: i.product_id,
-          description: i.description,
-          quantity: i.quantity,
-          unit_price: i.unit_price,
-          amount: i.amount,
-        }));
-        await supabase.from("bill_items").insert(billItems);
-      }
-
-      // Increase stock for each product & track changes for undo
-      const stockChanges: { productId: string; qty: number }[] = [];
-      for (const item of items) {
-        if (item.product_id) {
-          const { data: product } = await supabase
-            .from("products")
-            .select("quantity")
-            .eq("id", item.product_id)
-            .single();
-
-          if (product) {
-            await supabase
-              .from("products")
-              .update({ quantity: product.quantity + item.quantity })
-              .eq("id", item.product_id);
-            stockChanges.push({ productId: item.product_id, qty: item.quantity });
-          }
-        }
-      }
-
-      // Mark PO as converted
-      await supabase
-        .from("purchase_orders")
-        .update({ status: "converted" })
-        .eq("id", poId);
-
-      toast.success(`Received! Stock updated & Bill ${billNumber} created`, {
-        duration: 15000,
-        action: {
-          label: "Undo",
-          onClick: () => handleUndoReceive(poId, bill.id, stockChanges),
-        },
-      });
-      fetchPendingPOs();
-      fetchProducts();
-    } catch (err: any) {
-      toast.error(err.message || "Failed to receive");
-    } finally {
-      setReceivingId(null);
-    }
+  const handleReceived = (poId: string, billId: string, billNumber: string) => {
+    toast.success(`Received! Stock updated & Bill ${billNumber} created`, {
+      duration: 15000,
+      action: {
+        label: "Undo",
+        onClick: () => handleUndoReceive(poId, billId),
+      },
+    });
+    fetchPendingPOs();
+    fetchProducts();
   };
 
   const buildWhatsAppMessage = (
@@ -491,6 +388,15 @@ const QuickPurchase = () => {
                 className="pl-10"
               />
             </div>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-10 w-10 flex-shrink-0"
+              onClick={() => setShowScanner(true)}
+              title="Scan barcode"
+            >
+              <ScanLine className="h-5 w-5" />
+            </Button>
             <Button
               variant="outline"
               size="icon"
@@ -582,7 +488,7 @@ const QuickPurchase = () => {
                   <div className="min-w-0 flex-1">
                     <div className="flex items-center gap-2">
                       <p className="font-semibold text-sm">{po.po_number}</p>
-                      <Badge variant="secondary" className="text-[10px]">pending</Badge>
+                      <Badge variant="secondary" className="text-[10px]">{po.status.replace("_", " ")}</Badge>
                     </div>
                     <p className="text-xs text-muted-foreground truncate">{po.supplier_name}</p>
                     <p className="text-[10px] text-muted-foreground">
@@ -596,11 +502,10 @@ const QuickPurchase = () => {
                     <Button
                       size="sm"
                       className="gradient-secondary text-secondary-foreground"
-                      onClick={() => { setConfirmReceiveId(po.id); setConfirmPO(po); }}
-                      disabled={receivingId === po.id}
+                      onClick={() => setReceivePO(po)}
                     >
                       <PackageCheck className="h-4 w-4 mr-1" />
-                      {receivingId === po.id ? "..." : "Receive"}
+                      Receive
                     </Button>
                   </div>
                 </CardContent>
@@ -610,39 +515,13 @@ const QuickPurchase = () => {
         </TabsContent>
       </Tabs>
 
-      {/* Receive Confirmation Dialog */}
-      <AlertDialog open={!!confirmReceiveId} onOpenChange={(open) => { if (!open) { setConfirmReceiveId(null); setConfirmPO(null); } }}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Confirm Receive Goods</AlertDialogTitle>
-            <AlertDialogDescription>
-              {confirmPO && (
-                <>
-                  Are you sure you want to receive <strong>{confirmPO.po_number}</strong> from <strong>{confirmPO.supplier_name}</strong> for <strong>{cs}{Number(confirmPO.total).toLocaleString("en-IN", { maximumFractionDigits: 0 })}</strong>?
-                  <br /><br />
-                  This will update your inventory stock levels and create a purchase bill. This action cannot be undone.
-                </>
-              )}
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              className="gradient-secondary text-secondary-foreground"
-              onClick={() => {
-                if (confirmReceiveId) {
-                  handleReceive(confirmReceiveId);
-                  setConfirmReceiveId(null);
-                  setConfirmPO(null);
-                }
-              }}
-            >
-              <PackageCheck className="h-4 w-4 mr-1" />
-              Yes, Receive Goods
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* Receive Dialog */}
+      <ReceivePurchaseOrderDialog
+        po={receivePO}
+        open={!!receivePO}
+        onOpenChange={(open) => !open && setReceivePO(null)}
+        onReceived={(billId, billNumber) => receivePO && handleReceived(receivePO.id, billId, billNumber)}
+      />
 
       {/* Order Cart Dialog */}
       <Dialog open={showCart} onOpenChange={setShowCart}>
@@ -691,10 +570,14 @@ const QuickPurchase = () => {
 
           {cart.length > 0 && (
             <div className="border-t p-4 space-y-3">
-              <Input
-                placeholder="Supplier Name *"
-                value={supplierName}
-                onChange={(e) => setSupplierName(e.target.value)}
+              <SupplierPicker
+                supplierId={supplierId}
+                placeholder="Supplier *"
+                onSelect={(supplier) => {
+                  setSupplierId(supplier?.id || null);
+                  setSupplierName(supplier?.name || "");
+                  setSupplierPhone(supplier?.phone || "");
+                }}
               />
               <div className="flex gap-2 items-center">
                 <Input
@@ -718,7 +601,7 @@ const QuickPurchase = () => {
                 </div>
                 {settings.tax_enabled && (
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">{settings.tax_name} ({settings.default_tax_rate}%)</span>
+                    <span className="text-muted-foreground">{settings.tax_name}</span>
                     <span>{cs}{taxAmount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</span>
                   </div>
                 )}
@@ -746,6 +629,7 @@ const QuickPurchase = () => {
           open={!!previewData}
           onOpenChange={(open) => { if (!open) setPreviewData(null); }}
           type="purchase_order"
+          docId={previewData.docId}
           docNumber={previewData.docNumber}
           partyName={previewData.partyName}
           partyPhone={previewData.partyPhone}
@@ -757,6 +641,8 @@ const QuickPurchase = () => {
         />
       )}
 
+      <BarcodeScannerDialog open={showScanner} onOpenChange={setShowScanner} onDetected={handleScannedCode} continuous />
+
       {/* Quick Add Product Dialog */}
       <Dialog open={showQuickAdd} onOpenChange={setShowQuickAdd}>
         <DialogContent className="w-[95vw] max-w-sm">
@@ -776,6 +662,11 @@ const QuickPurchase = () => {
                 autoFocus
               />
             </div>
+            <div>
+              <Label className="text-xs">Barcode</Label>
+              <Input placeholder="Scan or type" value={newProduct.barcode}
+                onChange={(e) => setNewProduct((p) => ({ ...p, barcode: e.target.value }))} />
+            </div>
             <div className="grid grid-cols-2 gap-2">
               <div>
                 <Label className="text-xs">Purchase Price</Label>
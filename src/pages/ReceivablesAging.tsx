@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { toBase } from "@/lib/currency";
+import { AgingDocument, AgingReport, agingBuckets, buildAgingReport, effectiveDueDate } from "@/lib/aging";
+import { renderAgingPdf } from "@/lib/agingPdf";
+import { downloadBlob, loadPdfCompany } from "@/lib/documentPdf";
+import { AgingReportView } from "@/components/AgingReportView";
+
+/**
+ * Unpaid invoices as they stood on `asOf`. Payments and credit notes dated
+ * later are added back to today's balance due.
+ */
+async function loadReceivables(asOf: string, paymentTermsDays: number): Promise<AgingDocument[]> {
+  let query = supabase
+    .from("invoices")
+    .select("id, invoice_number, client_id, customer_name, issue_date, due_date, balance_due, currency_code, exchange_rate")
+    .not("status", "in", "(draft,cancelled)")
+    .lte("issue_date", asOf);
+  const backdated = asOf < format(new Date(), "yyyy-MM-dd");
+  if (!backdated) query = query.gt("balance_due", 0);
+
+  const [{ data: invoices, error }, { data: laterPayments, error: paymentsError }, { data: laterCredits, error: creditsError }] = await Promise.all([
+    query,
+    backdated
+      ? supabase.from("payments").select("invoice_id, amount").gt("payment_date", asOf)
+      : Promise.resolve({ data: [], error: null }),
+    backdated
+      ? supabase.from("credit_notes").select("invoice_id, total, refund_amount").not("invoice_id", "is", null).gt("credit_date", asOf)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (error) throw error;
+  if (paymentsError) throw paymentsError;
+  if (creditsError) throw creditsError;
+
+  const settledLater = new Map<string, number>();
+  const addBack = (invoiceId: string | null, amount: number) => {
+    if (invoiceId) settledLater.set(invoiceId, (settledLater.get(invoiceId) || 0) + amount);
+  };
+  (laterPayments || []).forEach((payment) => addBack(payment.invoice_id, Number(payment.amount)));
+  (laterCredits || []).forEach((note) => addBack(note.invoice_id, Number(note.total) - Number(note.refund_amount)));
+
+  return (invoices || [])
+    .map((invoice) => {
+      const balance = Math.round((Number(invoice.balance_due) + (settledLater.get(invoice.id) || 0)) * 100) / 100;
+      return {
+        id: invoice.id,
+        number: invoice.invoice_number,
+        partyId: invoice.client_id,
+        partyName: invoice.customer_name,
+        issueDate: invoice.issue_date,
+        dueDate: effectiveDueDate(invoice.due_date, invoice.issue_date, paymentTermsDays),
+        currencyCode: invoice.currency_code,
+        balance,
+        baseBalance: toBase(balance, invoice.exchange_rate),
+      };
+    })
+    .filter((invoice) => invoice.balance > 0);
+}
+
+const ReceivablesAging = () => {
+  const navigate = useNavigate();
+  const { settings, loading: settingsLoading } = useSettings();
+  const [asOf, setAsOf] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const cs = settings.currency_symbol || "₹";
+
+  useEffect(() => {
+    if (!asOf || settingsLoading) return;
+    let stale = false;
+    setLoading(true);
+    loadReceivables(asOf, settings.default_payment_terms)
+      .then((documents) => {
+        if (!stale) setReport(buildAgingReport(documents, asOf));
+      })
+      .catch((error) => {
+        logErrorInDev("LoadReceivablesAging", error);
+        toast.error(getSafeErrorMessage(error, "Failed to load receivables"));
+      })
+      .finally(() => {
+        if (!stale) setLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [asOf, settingsLoading, settings.default_payment_terms]);
+
+  const handleCSVExport = () => {
+    if (!report) return;
+    const headers = ['Client', 'Invoice #', 'Issue Date', 'Due Date', 'Days Overdue', 'Currency', 'Balance', ...agingBuckets.map((bucket) => `${bucket.label.replace('–', '-')} (${settings.currency_code})`), `Total (${settings.currency_code})`];
+    const rows = report.rows.flatMap((row) => row.documents.map((document) => [
+      row.partyName,
+      document.number,
+      document.issueDate,
+      document.dueDate,
+      Math.max(document.daysOverdue, 0),
+      document.currencyCode,
+      document.balance.toFixed(2),
+      ...agingBuckets.map((bucket) => (document.bucket === bucket.key ? document.baseBalance.toFixed(2) : '')),
+      document.baseBalance.toFixed(2)
+    ]));
+    const totals = ['Total', '', '', '', '', '', '', ...agingBuckets.map((bucket) => report.totals[bucket.key].toFixed(2)), report.total.toFixed(2)];
+
+    const csvContent = [
+      `Accounts Receivable Aging as of ${report.asOf}`,
+      headers.join(','),
+      ...[...rows, totals].map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), `ar_aging_${report.asOf}.csv`);
+    toast.success('Receivables aging exported to CSV');
+  };
+
+  const handlePdfDownload = async () => {
+    if (!report) return;
+    setExporting(true);
+    try {
+      const company = await loadPdfCompany();
+      const blob = renderAgingPdf(report, company, settings.pdf_page_size, {
+        title: "Accounts Receivable Aging",
+        partyLabel: "Client",
+        currencyCode: settings.currency_code,
+      });
+      downloadBlob(blob, `AR-Aging-${report.asOf}.pdf`);
+      toast.success(`AR-Aging-${report.asOf}.pdf downloaded`);
+    } catch (error) {
+      logErrorInDev("ReceivablesAgingPdf", error);
+      toast.error(getSafeErrorMessage(error, "Failed to generate PDF"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">Receivables Aging</h1>
+          <p className="text-sm md:text-base text-muted-foreground">What customers owe, by how long it is past due</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="aging-as-of" className="text-xs">As of</Label>
+            <Input id="aging-as-of" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="w-40" />
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCSVExport} disabled={!report}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" /> CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={handlePdfDownload} disabled={!report || exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />} PDF
+          </Button>
+        </div>
+      </div>
+
+      {loading || !report ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground text-sm">Loading...</CardContent>
+        </Card>
+      ) : (
+        <AgingReportView
+          report={report}
+          currencySymbol={cs}
+          partyLabel="Client"
+          documentLabel="Invoice"
+          partyAction={{ label: "Statement of account", onClick: (row) => navigate(`/clients/${row.partyId}/statement`) }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReceivablesAging;
@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
+import { ArrowLeft, Repeat, MoreHorizontal, Pause, Play, SkipForward, History, Trash2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { frequencyLabel, upcomingRunDates } from "@/lib/recurrence";
+
+type RecurringInvoice = {
+  id: string;
+  customer_name: string;
+  frequency: string;
+  start_date: string;
+  end_date: string | null;
+  next_run_date: string;
+  auto_send: boolean;
+  status: string;
+  currency_code: string | null;
+  recurring_invoice_items: { id: string }[];
+};
+
+type RecurringRun = {
+  id: string;
+  run_date: string;
+  status: string;
+  error: string | null;
+  invoices: { invoice_number: string } | null;
+};
+
+const statusVariant = (status: string) => {
+  if (status === "active" || status === "generated") return "default" as const;
+  if (status === "failed") return "destructive" as const;
+  return "secondary" as const;
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+const RecurringInvoices = () => {
+  const [schedules, setSchedules] = useState<RecurringInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [historySchedule, setHistorySchedule] = useState<RecurringInvoice | null>(null);
+  const [runs, setRuns] = useState<RecurringRun[]>([]);
+  const navigate = useNavigate();
+
+  const fetchSchedules = async () => {
+    const { data, error } = await supabase
+      .from("recurring_invoices")
+      .select("id, customer_name, frequency, start_date, end_date, next_run_date, auto_send, status, currency_code, recurring_invoice_items(id)")
+      .order("next_run_date", { ascending: true });
+
+    if (error) {
+      toast.error("Error fetching recurring invoices");
+    } else {
+      setSchedules(data || []);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const handleToggleStatus = async (schedule: RecurringInvoice) => {
+    const status = schedule.status === "active" ? "paused" : "active";
+    const { error } = await supabase.from("recurring_invoices").update({ status }).eq("id", schedule.id);
+    if (error) {
+      toast.error(getSafeErrorMessage(error, "Failed to update recurring invoice"));
+      return;
+    }
+    toast.success(status === "paused" ? `Paused invoices for ${schedule.customer_name}` : `Resumed invoices for ${schedule.customer_name}`);
+    fetchSchedules();
+  };
+
+  const handleSkip = async (schedule: RecurringInvoice) => {
+    try {
+      const { data: nextRunDate, error } = await supabase.rpc("skip_recurring_invoice_run", { p_recurring_id: schedule.id });
+      if (error) throw error;
+      toast.success(`Skipped ${formatDate(schedule.next_run_date)}, next invoice on ${formatDate(nextRunDate)}`);
+      fetchSchedules();
+    } catch (error) {
+      logErrorInDev("SkipRecurringInvoice", error);
+      toast.error(getSafeErrorMessage(error, "Failed to skip the next invoice"));
+    }
+  };
+
+  const handleDelete = async (schedule: RecurringInvoice) => {
+    const { error } = await supabase.from("recurring_invoices").delete().eq("id", schedule.id);
+    if (error) {
+      toast.error(getSafeErrorMessage(error, "Failed to delete recurring invoice"));
+      return;
+    }
+    toast.deleted("Recurring invoice deleted. Invoices already raised are kept");
+    fetchSchedules();
+  };
+
+  const handleShowHistory = async (schedule: RecurringInvoice) => {
+    const { data, error } = await supabase
+      .from("recurring_invoice_runs")
+      .select("id, run_date, status, error, invoices(invoice_number)")
+      .eq("recurring_invoice_id", schedule.id)
+      .order("run_date", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Error fetching run history");
+      return;
+    }
+    setRuns(data || []);
+    setHistorySchedule(schedule);
+  };
+
+  const activeCount = schedules.filter((s) => s.status === "active").length;
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-8 pb-24 md:pb-8">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/invoices")} className="flex-shrink-0">
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">Recurring Invoices</h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            {activeCount} active schedule{activeCount === 1 ? "" : "s"}. Open an invoice and choose Repeat to add one.
+          </p>
+        </div>
+      </div>
+
+      <Card className="border-0 shadow-colorful">
+        <CardHeader className="border-b bg-gradient-to-r from-primary/5 to-accent/5">
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-primary" />
+            Schedules
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {!loading && schedules.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground text-sm">
+              No recurring invoices yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30">
+                  <TableHead className="font-semibold">Customer</TableHead>
+                  <TableHead className="font-semibold hidden sm:table-cell">Frequency</TableHead>
+                  <TableHead className="font-semibold">Next</TableHead>
+                  <TableHead className="font-semibold hidden md:table-cell">Upcoming</TableHead>
+                  <TableHead className="font-semibold">Status</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map((schedule, index) => {
+                  const upcoming = schedule.status === "completed" ? [] : upcomingRunDates(schedule, 4);
+                  return (
+                    <TableRow key={schedule.id} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
+                      <TableCell>
+                        <span className="font-medium">{schedule.customer_name}</span>
+                        <span className="block text-[10px] text-muted-foreground">
+                          {schedule.recurring_invoice_items.length} item{schedule.recurring_invoice_items.length === 1 ? "" : "s"}
+                          {schedule.currency_code ? ` · ${schedule.currency_code}` : ""}
+                          {schedule.auto_send ? " · auto email" : ""}
+                        </span>
+                      </TableCell>
+                      <TableCell className="hidden sm:table-cell">{frequencyLabel(schedule.frequency)}</TableCell>
+                      <TableCell className="text-xs md:text-sm">{upcoming.length > 0 ? formatDate(upcoming[0]) : "-"}</TableCell>
+                      <TableCell className="hidden md:table-cell text-xs text-muted-foreground">
+                        {upcoming.slice(1).map(formatDate).join(", ") || "-"}
+                        {schedule.end_date && <span className="block">Ends {formatDate(schedule.end_date)}</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(schedule.status)} className="capitalize">{schedule.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {schedule.status !== "completed" && (
+                              <>
+                                <DropdownMenuItem onClick={() => handleToggleStatus(schedule)}>
+                                  {schedule.status === "active" ? <Pause className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+                                  {schedule.status === "active" ? "Pause" : "Resume"}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleSkip(schedule)}>
+                                  <SkipForward className="h-4 w-4 mr-2" />
+                                  Skip next
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            <DropdownMenuItem onClick={() => handleShowHistory(schedule)}>
+                              <History className="h-4 w-4 mr-2" />
+                              Past runs
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => handleDelete(schedule)} className="text-destructive">
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!historySchedule} onOpenChange={(open) => !open && setHistorySchedule(null)}>
+        <DialogContent className="w-[95vw] max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Past Runs</DialogTitle>
+            <DialogDescription>
+              {historySchedule ? `${historySchedule.customer_name} · ${frequencyLabel(historySchedule.frequency)}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invoices raised yet</p>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              {runs.map((run) => (
+                <div key={run.id} className="flex items-center justify-between gap-2 p-2 text-xs md:text-sm">
+                  <div>
+                    <span className="font-medium">{formatDate(run.run_date)}</span>
+                    {run.invoices && <span className="text-muted-foreground"> · {run.invoices.invoice_number}</span>}
+                    {run.error && <span className="block text-[10px] text-destructive">{run.error}</span>}
+                  </div>
+                  <Badge variant={statusVariant(run.status)} className="capitalize">{run.status}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RecurringInvoices;
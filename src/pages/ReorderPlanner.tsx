@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, ClipboardList, Loader2, Truck } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { ReorderStats, ReorderSuggestion, fetchReorderStats, groupBySupplier, planReorder } from "@/lib/reorder";
+import { calculateGstTotals } from "@/lib/gst";
+
+type DaysSetting = "reorder_cover_days" | "default_lead_time_days";
+
+/**
+ * What to reorder from each supplier, from recent sales, stock on hand and on
+ * order, and lead times. Approved lines become one draft purchase order per
+ * supplier, to check and confirm on the Purchase Orders page.
+ */
+const ReorderPlanner = () => {
+  const navigate = useNavigate();
+  const { settings, loading: settingsLoading, updateSettings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [stats, setStats] = useState<ReorderStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [coverDays, setCoverDays] = useState("");
+  const [leadDays, setLeadDays] = useState("");
+  // Quantities changed from the suggestion, and lines left out, by product
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [drafting, setDrafting] = useState(false);
+
+  const loadStats = async (historyDays: number) => {
+    setLoading(true);
+    try {
+      setStats(await fetchReorderStats(historyDays));
+    } catch (error) {
+      logErrorInDev("FetchReorderStats", error);
+      toast.error(getSafeErrorMessage(error, "Failed to load reorder suggestions"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!settingsLoading) loadStats(settings.reorder_history_days);
+  }, [settingsLoading, settings.reorder_history_days]);
+
+  useEffect(() => {
+    setCoverDays(String(settings.reorder_cover_days));
+    setLeadDays(String(settings.default_lead_time_days));
+  }, [settings.reorder_cover_days, settings.default_lead_time_days]);
+
+  const suggestions = planReorder(stats, {
+    historyDays: settings.reorder_history_days,
+    coverDays: settings.reorder_cover_days,
+    defaultLeadDays: settings.default_lead_time_days,
+  });
+  const groups = groupBySupplier(suggestions);
+  const quantityFor = (line: ReorderSuggestion) => quantities[line.product_id] ?? line.suggestedQuantity;
+  const isIncluded = (line: ReorderSuggestion) => !!line.supplier_id && !excluded.includes(line.product_id) && quantityFor(line) > 0;
+  const orderGroups = groups
+    .filter((group) => group.supplierId)
+    .map((group) => ({ ...group, lines: group.lines.filter(isIncluded) }))
+    .filter((group) => group.lines.length > 0);
+  const lineAmount = (line: ReorderSuggestion) => quantityFor(line) * Number(line.unit_cost);
+  const orderValue = orderGroups.reduce((sum, group) => sum + group.lines.reduce((s, line) => s + lineAmount(line), 0), 0);
+  const money = (amount: number) => `${cs}${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const saveDays = (key: DaysSetting, text: string, min: number) => {
+    const value = Number(text);
+    if (!Number.isInteger(value) || value < min || value > 365) {
+      toast.error(`Enter ${min} to 365 days`);
+      setCoverDays(String(settings.reorder_cover_days));
+      setLeadDays(String(settings.default_lead_time_days));
+      return;
+    }
+    if (value === settings[key]) return;
+    updateSettings({ [key]: value }).catch((error) => {
+      logErrorInDev("SaveReorderSettings", error);
+      toast.error("Failed to save setting");
+    });
+  };
+
+  const toggleLine = (productId: string) => {
+    setExcluded((prev) => prev.includes(productId) ? prev.filter((id) => id !== productId) : [...prev, productId]);
+  };
+
+  const handleDraftOrders = async () => {
+    let created = 0;
+    setDrafting(true);
+    try {
+      // Each line is taxed at its product's rate, as on the bill it is received into
+      const { data: rates, error: ratesError } = await supabase
+        .from("products")
+        .select("id, tax_rate")
+        .in("id", orderGroups.flatMap((group) => group.lines.map((line) => line.product_id)));
+      if (ratesError) throw ratesError;
+      const taxRates = new Map((rates || []).map((product) => [product.id, product.tax_rate]));
+
+      for (const group of orderGroups) {
+        const items = group.lines.map((line) => ({
+          product_id: line.product_id,
+          description: line.product_name,
+          quantity: quantityFor(line),
+          unit_price: Number(line.unit_cost),
+        }));
+        const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+        const tax = calculateGstTotals(
+          items.map((item) => ({
+            ...item,
+            tax_rate: settings.tax_enabled ? taxRates.get(item.product_id) ?? settings.default_tax_rate : 0,
+          })),
+          false
+        ).tax;
+
+        // The PO number is assigned from the numbering sequence on insert
+        const { error } = await supabase.rpc("create_purchase_order", {
+          p_po: {
+            status: "draft",
+            supplier_id: group.supplierId,
+            supplier_name: group.supplierName,
+            supplier_email: group.supplierEmail,
+            po_date: format(new Date(), "yyyy-MM-dd"),
+            expected_date: format(addDays(new Date(), group.leadDays), "yyyy-MM-dd"),
+            subtotal,
+            tax,
+            total: subtotal + tax,
+            notes: null,
+          },
+          p_items: items,
+        });
+        if (error) throw error;
+        created++;
+      }
+      toast.success(`${created} draft purchase order${created === 1 ? "" : "s"} created`);
+      navigate("/purchase-orders");
+    } catch (error) {
+      logErrorInDev("DraftReorderPurchaseOrders", error);
+      toast.error(getSafeErrorMessage(error, "Failed to draft purchase orders"));
+      // Drafts made before the failure are now on order
+      if (created > 0) loadStats(settings.reorder_history_days);
+    } finally {
+      setDrafting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/purchase-orders")} className="flex-shrink-0">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gradient">Reorder Planner</h1>
+            <p className="text-sm md:text-base text-muted-foreground">Suggested orders from sales, stock and supplier lead times</p>
+          </div>
+        </div>
+        <Button
+          onClick={handleDraftOrders}
+          disabled={drafting || orderGroups.length === 0}
+          size="sm"
+          className="gradient-primary text-primary-foreground shadow-colorful"
+        >
+          {drafting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ClipboardList className="mr-2 h-4 w-4" />}
+          Draft {orderGroups.length} Purchase Order{orderGroups.length === 1 ? "" : "s"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-3 md:p-4 space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Sales history</Label>
+              <Select
+                value={String(settings.reorder_history_days)}
+                onValueChange={(value) => updateSettings({ reorder_history_days: Number(value) }).catch((error) => logErrorInDev("SaveReorderSettings", error))}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">Last 30 days</SelectItem>
+                  <SelectItem value="60">Last 60 days</SelectItem>
+                  <SelectItem value="90">Last 90 days</SelectItem>
+                  <SelectItem value="180">Last 180 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reorder-cover" className="text-xs">Days of cover</Label>
+              <Input
+                id="reorder-cover"
+                type="number"
+                min={1}
+                max={365}
+                value={coverDays}
+                onChange={(e) => setCoverDays(e.target.value)}
+                onBlur={() => saveDays("reorder_cover_days", coverDays, 1)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="reorder-lead" className="text-xs">Default lead time (days)</Label>
+              <Input
+                id="reorder-lead"
+                type="number"
+                min={0}
+                max={365}
+                value={leadDays}
+                onChange={(e) => setLeadDays(e.target.value)}
+                onBlur={() => saveDays("default_lead_time_days", leadDays, 0)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A product is suggested when its stock and what is on order would fall to its low-stock level before a new
+            order arrives. The order covers sales during the lead time plus {settings.reorder_cover_days} days.
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-3 grid-cols-3">
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">To Reorder</span>
+            <p className="text-lg md:text-xl font-bold">{suggestions.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Suppliers</span>
+            <p className="text-lg md:text-xl font-bold">{orderGroups.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Order Value</span>
+            <p className="text-lg md:text-xl font-bold text-primary">{money(orderValue)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {loading ? (
+        <div className="py-10 text-center text-muted-foreground text-sm">Loading...</div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground text-sm">Nothing needs reordering ✓</CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => {
+          const included = group.lines.filter(isIncluded);
+          return (
+            <Card key={group.supplierId || "none"}>
+              <CardHeader className="p-3 md:p-6 pb-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle className="text-sm md:text-base flex items-center gap-2">
+                    {group.supplierId ? <Truck className="h-4 w-4 text-primary" /> : <AlertTriangle className="h-4 w-4 text-warning" />}
+                    {group.supplierName}
+                  </CardTitle>
+                  {group.supplierId ? (
+                    <p className="text-xs text-muted-foreground">
+                      {group.leadDays} day lead time · {included.length} item{included.length === 1 ? "" : "s"} ·{" "}
+                      <span className="font-semibold text-foreground">{money(included.reduce((sum, line) => sum + lineAmount(line), 0))}</span>
+                    </p>
+                  ) : (
+                    <p className="text-xs text-warning">Set a supplier on these products to order them</p>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="p-0 md:p-6 md:pt-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/30">
+                        <TableHead className="w-8" />
+                        <TableHead className="font-semibold">Product</TableHead>
+                        <TableHead className="font-semibold text-right">In Stock</TableHead>
+                        <TableHead className="font-semibold text-right">On Order</TableHead>
+                        <TableHead className="font-semibold text-right">Sold / Day</TableHead>
+                        <TableHead className="font-semibold text-right">Days Left</TableHead>
+                        <TableHead className="font-semibold text-right">Order Qty</TableHead>
+                        <TableHead className="font-semibold text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.lines.map((line, index) => (
+                        <TableRow key={line.product_id} className={`${index % 2 === 0 ? "bg-card" : "bg-muted/20"} ${isIncluded(line) ? "" : "opacity-60"}`}>
+                          <TableCell>
+                            <Checkbox
+                              checked={isIncluded(line)}
+                              disabled={!line.supplier_id}
+                              onCheckedChange={() => toggleLine(line.product_id)}
+                              aria-label={`Order ${line.product_name}`}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            <button type="button" className="text-left hover:underline" onClick={() => navigate(`/inventory/${line.product_id}`)}>
+                              {line.product_name}
+                            </button>
+                            {line.sku && <p className="text-xs text-muted-foreground font-normal">{line.sku}</p>}
+                          </TableCell>
+                          <TableCell className={`text-right whitespace-nowrap ${line.quantity <= line.low_stock_threshold ? "text-destructive font-semibold" : ""}`}>
+                            {line.quantity} <span className="text-xs text-muted-foreground">{line.unit || "pc"}</span>
+                          </TableCell>
+                          <TableCell className="text-right">{line.on_order || "-"}</TableCell>
+                          <TableCell className="text-right">{line.dailySales > 0 ? line.dailySales.toFixed(1) : "-"}</TableCell>
+                          <TableCell className={`text-right ${line.daysLeft !== null && line.daysLeft <= line.leadDays ? "text-destructive font-semibold" : ""}`}>
+                            {line.daysLeft === null ? "-" : Math.floor(line.daysLeft)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min={0}
+                              value={quantityFor(line)}
+                              onChange={(e) => setQuantities((prev) => ({ ...prev, [line.product_id]: Math.max(0, Math.floor(Number(e.target.value))) }))}
+                              disabled={!line.supplier_id}
+                              className="w-20 h-8 ml-auto text-right"
+                              aria-label={`Quantity of ${line.product_name}`}
+                            />
+                            {quantityFor(line) !== line.suggestedQuantity && (
+                              <p className="text-[10px] text-muted-foreground">Suggested {line.suggestedQuantity}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {money(lineAmount(line))}
+                            <p className="text-[10px] text-muted-foreground">@ {money(Number(line.unit_cost))}</p>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default ReorderPlanner;
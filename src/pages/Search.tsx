@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Package, Users, FileText, Search as SearchIcon, Receipt } from "lucide-react";
 import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { currencySymbol } from "@/lib/currency";
 
 type SearchResult = {
   type: "product" | "client" | "invoice" | "bill";
@@ -75,7 +76,7 @@ const Search = () => {
       // Search invoices
       const { data: invoices } = await supabase
         .from("invoices")
-        .select("id, invoice_number, customer_name, total, status")
+        .select("id, invoice_number, customer_name, total, status, currency_code")
         .or(`invoice_number.ilike.%${searchTerm}%,customer_name.ilike.%${searchTerm}%`)
         .limit(10);
 
@@ -86,7 +87,7 @@ const Search = () => {
             id: i.id,
             title: i.invoice_number,
             subtitle: i.customer_name,
-            extra: `₹${i.total} - ${i.status}`,
+            extra: `${currencySymbol(i.currency_code)}${i.total} - ${i.status}`,
           }))
         );
       }
@@ -94,7 +95,7 @@ const Search = () => {
       // Search bills
       const { data: bills } = await supabase
         .from("bills")
-        .select("id, bill_number, customer_name, total, status")
+        .select("id, bill_number, customer_name, total, status, currency_code")
         .or(`bill_number.ilike.%${searchTerm}%,customer_name.ilike.%${searchTerm}%`)
         .limit(10);
 
@@ -105,7 +106,7 @@ const Search = () => {
             id: b.id,
             title: b.bill_number,
             subtitle: b.customer_name,
-            extra: `₹${b.total} - ${b.status}`,
+            extra: `${currencySymbol(b.currency_code)}${b.total} - ${b.status}`,
           }))
         );
       }
@@ -18,12 +18,15 @@ import {
   Shield, LogOut, Clock, Download, Eye, Fingerprint, KeyRound, AlertTriangle, CheckCircle2, History, Database
 } from "lucide-react";
 import DataManagement from "@/components/DataManagement";
+import DocumentNumbering from "@/components/DocumentNumbering";
+import DocumentTemplateDesigner from "@/components/DocumentTemplateDesigner";
 import { useTheme } from "next-themes";
 import { z } from "zod";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useSettings } from "@/contexts/SettingsContext";
 import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
 import { isSoundEnabled, setSoundEnabled, playSuccess } from "@/lib/soundUtils";
+import { currencies } from "@/lib/currency";
 import { format } from "date-fns";
 import { motion } from "framer-motion";
 
@@ -48,15 +51,6 @@ interface CompanyProfile {
   website: string;
 }
 
-const currencies = [
-  { code: "INR", symbol: "₹", name: "Indian Rupee" },
-  { code: "USD", symbol: "$", name: "US Dollar" },
-  { code: "EUR", symbol: "€", name: "Euro" },
-  { code: "GBP", symbol: "£", name: "British Pound" },
-  { code: "AED", symbol: "د.إ", name: "UAE Dirham" },
-  { code: "SAR", symbol: "ر.س", name: "Saudi Riyal" },
-];
-
 const dateFormats = [
   { value: "DD/MM/YYYY", label: "DD/MM/YYYY (31/12/2024)" },
   { value: "MM/DD/YYYY", label: "MM/DD/YYYY (12/31/2024)" },
@@ -72,6 +66,7 @@ const Settings = () => {
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [reminderOffsetsText, setReminderOffsetsText] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const isMobile = useIsMobile();
   
@@ -417,6 +412,32 @@ const Settings = () => {
     }
   };
 
+  useEffect(() => {
+    setReminderOffsetsText(settings.reminder_offsets.join(", "));
+  }, [settings.reminder_offsets]);
+
+  const handleReminderOffsetsBlur = async () => {
+    const parts = reminderOffsetsText.split(",").map((part) => part.trim()).filter(Boolean);
+    const offsets = [...new Set(parts.map(Number))].sort((a, b) => a - b);
+    if (
+      offsets.length === 0 ||
+      offsets.length > 10 ||
+      offsets.some((offset) => !Number.isInteger(offset) || offset < -60 || offset > 365)
+    ) {
+      toast({
+        title: "Invalid reminder schedule",
+        description: "Enter up to 10 whole numbers of days between -60 and 365, e.g. -3, 0, 7",
+        variant: "destructive",
+      });
+      setReminderOffsetsText(settings.reminder_offsets.join(", "));
+      return;
+    }
+    setReminderOffsetsText(offsets.join(", "));
+    if (offsets.join() !== settings.reminder_offsets.join()) {
+      await handleSettingsChange("reminder_offsets", offsets);
+    }
+  };
+
   const handleCurrencyChange = async (currencyCode: string) => {
     const currency = currencies.find(c => c.code === currencyCode);
     if (currency) {
@@ -688,11 +709,11 @@ const Settings = () => {
                 <DollarSign className="h-5 w-5 text-primary" />
                 Currency Settings
               </CardTitle>
-              <CardDescription>Set your default currency for all transactions</CardDescription>
+              <CardDescription>Set the base currency for your books and reports</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4 px-4 md:px-6">
               <div className="space-y-2">
-                <Label>Currency</Label>
+                <Label>Base Currency</Label>
                 <Select value={settings.currency_code} onValueChange={handleCurrencyChange}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select currency" />
@@ -711,7 +732,7 @@ const Settings = () => {
                   Current: <span className="font-semibold">{settings.currency_symbol}</span> ({settings.currency_code})
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  This will be used for all monetary displays
+                  Invoices and bills in another currency store their exchange rate to this one
                 </p>
               </div>
             </CardContent>
@@ -788,6 +809,36 @@ const Settings = () => {
                   onCheckedChange={(checked) => handleSettingsChange("invoice_reminders", checked)}
                 />
               </div>
+              {settings.invoice_reminders && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pb-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Send reminders by</Label>
+                    <Select
+                      value={settings.reminder_channel}
+                      onValueChange={(value) => handleSettingsChange("reminder_channel", value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="email">Email</SelectItem>
+                        <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="reminder_offsets" className="text-xs">Days from due date</Label>
+                    <Input
+                      id="reminder_offsets"
+                      value={reminderOffsetsText}
+                      onChange={(e) => setReminderOffsetsText(e.target.value)}
+                      onBlur={handleReminderOffsetsBlur}
+                      placeholder="-3, 0, 7"
+                    />
+                    <p className="text-[10px] text-muted-foreground">Negative numbers send before the due date</p>
+                  </div>
+                </div>
+              )}
               <div className="flex items-center justify-between py-2">
                 <div>
                   <Label>Bill Due Alerts</Label>
@@ -798,6 +849,28 @@ const Settings = () => {
                   onCheckedChange={(checked) => handleSettingsChange("bill_due_alerts", checked)}
                 />
               </div>
+              {settings.bill_due_alerts && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pb-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Start alerting</Label>
+                    <Select
+                      value={String(settings.bill_due_alert_days)}
+                      onValueChange={(value) => handleSettingsChange("bill_due_alert_days", Number(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">On the due date</SelectItem>
+                        <SelectItem value="1">1 day before</SelectItem>
+                        <SelectItem value="3">3 days before</SelectItem>
+                        <SelectItem value="7">7 days before</SelectItem>
+                        <SelectItem value="14">14 days before</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
               <Separator />
               <div className="flex items-center justify-between py-2">
                 <div>
@@ -882,24 +955,6 @@ const Settings = () => {
               <CardDescription>Configure invoice and bill defaults</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4 px-4 md:px-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label>Invoice Prefix</Label>
-                  <Input
-                    value={settings.invoice_prefix}
-                    onChange={(e) => handleSettingsChange("invoice_prefix", e.target.value)}
-                    placeholder="INV-"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>Bill Prefix</Label>
-                  <Input
-                    value={settings.bill_prefix}
-                    onChange={(e) => handleSettingsChange("bill_prefix", e.target.value)}
-                    placeholder="BILL-"
-                  />
-                </div>
-              </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>Default Payment Terms (days)</Label>
@@ -928,9 +983,27 @@ const Settings = () => {
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="space-y-2">
+                  <Label>PDF Page Size</Label>
+                  <Select
+                    value={settings.pdf_page_size}
+                    onValueChange={(value) => handleSettingsChange("pdf_page_size", value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="a4">A4</SelectItem>
+                      <SelectItem value="a5">A5</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
             </CardContent>
           </Card>
+          <DocumentNumbering />
+
+          <DocumentTemplateDesigner />
         </TabsContent>
 
         {/* Security Tab */}
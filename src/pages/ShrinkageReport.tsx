@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, FileSpreadsheet } from "lucide-react";
+import { format, startOfMonth, subMonths } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { downloadBlob } from "@/lib/documentPdf";
+import { AdjustmentReason, adjustmentReasonLabels, lineVariance, varianceValue } from "@/lib/stockTakes";
+
+type AdjustmentLine = {
+  product_id: string | null;
+  description: string;
+  sku: string | null;
+  system_quantity: number;
+  counted_quantity: number | null;
+  unit_cost: number;
+  reason: string | null;
+  stock_takes: { take_number: string; take_date: string };
+};
+
+type ProductShrinkage = {
+  key: string;
+  description: string;
+  sku: string | null;
+  units: number;
+  value: number;
+};
+
+/**
+ * Stock lost or found in posted stock takes over a period, by reason and by
+ * product, valued at cost
+ */
+const ShrinkageReport = () => {
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [dateFrom, setDateFrom] = useState(() => format(startOfMonth(subMonths(new Date(), 2)), "yyyy-MM-dd"));
+  const [dateTo, setDateTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [adjustments, setAdjustments] = useState<AdjustmentLine[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!dateFrom || !dateTo) return;
+    let stale = false;
+    setLoading(true);
+    supabase
+      .from("stock_take_items")
+      .select("product_id, description, sku, system_quantity, counted_quantity, unit_cost, reason, stock_takes!inner(take_number, take_date, status)")
+      .eq("stock_takes.status", "posted")
+      .gte("stock_takes.take_date", dateFrom)
+      .lte("stock_takes.take_date", dateTo)
+      .not("counted_quantity", "is", null)
+      .then(({ data, error }) => {
+        if (stale) return;
+        setLoading(false);
+        if (error) {
+          logErrorInDev("LoadShrinkageReport", error);
+          toast.error(getSafeErrorMessage(error, "Failed to load shrinkage report"));
+          return;
+        }
+        setAdjustments(((data || []) as AdjustmentLine[]).filter((line) => lineVariance(line) !== 0));
+      });
+    return () => {
+      stale = true;
+    };
+  }, [dateFrom, dateTo]);
+
+  const money = (amount: number) => `${amount < 0 ? "-" : ""}${cs}${Math.abs(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const losses = adjustments.filter((line) => lineVariance(line) < 0);
+  const totalLoss = losses.reduce((sum, line) => sum + varianceValue(line), 0);
+  const totalGain = adjustments.filter((line) => lineVariance(line) > 0).reduce((sum, line) => sum + varianceValue(line), 0);
+
+  const byReason = (Object.keys(adjustmentReasonLabels) as AdjustmentReason[])
+    .map((reason) => {
+      const lines = adjustments.filter((line) => (line.reason || "count_error") === reason);
+      return {
+        reason,
+        units: lines.reduce((sum, line) => sum + lineVariance(line), 0),
+        value: lines.reduce((sum, line) => sum + varianceValue(line), 0),
+      };
+    })
+    .filter((row) => row.units !== 0 || row.value !== 0);
+
+  // Products with the biggest net loss first
+  const byProduct = Object.values(
+    adjustments.reduce<Record<string, ProductShrinkage>>((acc, line) => {
+      const key = line.product_id || line.description;
+      const row = acc[key] || { key, description: line.description, sku: line.sku, units: 0, value: 0 };
+      acc[key] = { ...row, units: row.units + lineVariance(line), value: row.value + varianceValue(line) };
+      return acc;
+    }, {})
+  ).sort((a, b) => a.value - b.value);
+
+  const handleCSVExport = () => {
+    const headers = ['Stock Take', 'Date', 'Product', 'SKU', 'System', 'Counted', 'Variance', 'Reason', `Unit Cost (${settings.currency_code})`, `Value (${settings.currency_code})`];
+    const rows = adjustments.map((line) => [
+      line.stock_takes.take_number,
+      line.stock_takes.take_date,
+      line.description,
+      line.sku || '',
+      line.system_quantity,
+      line.counted_quantity,
+      lineVariance(line),
+      adjustmentReasonLabels[(line.reason || 'count_error') as AdjustmentReason] || line.reason,
+      Number(line.unit_cost).toFixed(2),
+      varianceValue(line).toFixed(2)
+    ]);
+
+    const csvContent = [
+      `Stock take adjustments from ${dateFrom} to ${dateTo}`,
+      headers.join(','),
+      ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), `shrinkage_${dateFrom}_to_${dateTo}.csv`);
+    toast.success('Shrinkage report exported to CSV');
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/stock-takes")} className="flex-shrink-0">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gradient">Shrinkage</h1>
+            <p className="text-sm md:text-base text-muted-foreground">Stock lost or found in posted stock takes</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="shrinkage-from" className="text-xs">From</Label>
+            <Input id="shrinkage-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="w-40" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="shrinkage-to" className="text-xs">To</Label>
+            <Input id="shrinkage-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="w-40" />
+          </div>
+          <Button variant="outline" size="sm" onClick={handleCSVExport} disabled={adjustments.length === 0}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" /> CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 grid-cols-3">
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Lost</span>
+            <p className="text-lg md:text-xl font-bold text-destructive">{money(totalLoss)}</p>
+            <p className="text-xs text-muted-foreground">{-losses.reduce((sum, line) => sum + lineVariance(line), 0)} units</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Found</span>
+            <p className="text-lg md:text-xl font-bold text-success">{money(totalGain)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Net Shrinkage</span>
+            <p className={`text-lg md:text-xl font-bold ${totalLoss + totalGain < 0 ? "text-destructive" : ""}`}>{money(totalLoss + totalGain)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {loading ? (
+        <div className="py-10 text-center text-muted-foreground text-sm">Loading...</div>
+      ) : (
+        <div className="grid gap-4 md:gap-6 lg:grid-cols-[1fr_2fr]">
+          <Card>
+            <CardHeader className="p-3 md:p-6 pb-2">
+              <CardTitle className="text-sm md:text-base">By Reason</CardTitle>
+            </CardHeader>
+            <CardContent className="p-3 md:p-6 pt-0">
+              <div className="divide-y">
+                {byReason.map((row) => (
+                  <div key={row.reason} className="flex items-center justify-between gap-3 py-2">
+                    <p className="text-sm font-medium">{adjustmentReasonLabels[row.reason]}</p>
+                    <div className="text-right">
+                      <p className={`text-sm font-bold ${row.value < 0 ? "text-destructive" : "text-success"}`}>{money(row.value)}</p>
+                      <p className="text-[10px] text-muted-foreground">{row.units > 0 ? "+" : ""}{row.units} units</p>
+                    </div>
+                  </div>
+                ))}
+                {byReason.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">No adjustments in this period</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="p-3 md:p-6 pb-2">
+              <CardTitle className="text-sm md:text-base">By Product</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0 md:p-6 md:pt-0">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/30">
+                      <TableHead className="font-semibold">Product</TableHead>
+                      <TableHead className="font-semibold text-right">Units</TableHead>
+                      <TableHead className="font-semibold text-right">Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {byProduct.map((row, index) => (
+                      <TableRow key={row.key} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
+                        <TableCell className="font-medium">
+                          {row.description}
+                          {row.sku && <p className="text-xs text-muted-foreground font-normal">{row.sku}</p>}
+                        </TableCell>
+                        <TableCell className={`text-right ${row.units < 0 ? "text-destructive" : "text-success"}`}>
+                          {row.units > 0 ? "+" : ""}{row.units}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">{money(row.value)}</TableCell>
+                      </TableRow>
+                    ))}
+                    {byProduct.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center text-muted-foreground py-6">No adjustments in this period</TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShrinkageReport;
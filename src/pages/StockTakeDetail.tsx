@@ -0,0 +1,351 @@
+import { useEffect, useRef, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, CheckCircle2, Loader2, ScanLine, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { AdjustmentReason, StockTakeLine, adjustmentReasonLabels, lineVariance, varianceValue } from "@/lib/stockTakes";
+
+type StockTake = {
+  id: string;
+  take_number: string;
+  take_date: string;
+  status: string;
+  notes: string | null;
+  posted_at: string | null;
+  locations: { name: string } | null;
+};
+
+// The product's current barcode, for scanning
+type CountLine = StockTakeLine & { products: { barcode: string | null } | null };
+
+type LineFilter = "all" | "uncounted" | "variance";
+
+const StockTakeDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [stockTake, setStockTake] = useState<StockTake | null>(null);
+  const [lines, setLines] = useState<CountLine[]>([]);
+  const [filter, setFilter] = useState<LineFilter>("all");
+  const [scanCode, setScanCode] = useState("");
+  const [lastScanned, setLastScanned] = useState<CountLine | null>(null);
+  const [isPostOpen, setIsPostOpen] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  const fetchStockTake = async () => {
+    if (!id) return;
+    const [{ data, error }, { data: lineData, error: lineError }] = await Promise.all([
+      supabase.from("stock_takes").select("id, take_number, take_date, status, notes, posted_at, locations(name)").eq("id", id).single(),
+      supabase
+        .from("stock_take_items")
+        .select("id, product_id, description, sku, unit, system_quantity, counted_quantity, unit_cost, reason, products(barcode)")
+        .eq("stock_take_id", id)
+        .order("description"),
+    ]);
+    if (error || !data) {
+      toast.error("Stock take not found");
+      navigate("/stock-takes");
+      return;
+    }
+    if (lineError) {
+      logErrorInDev("FetchStockTakeItems", lineError);
+      toast.error("Error fetching stock take lines");
+    }
+    setStockTake(data);
+    setLines(lineData || []);
+  };
+
+  useEffect(() => {
+    fetchStockTake();
+  }, [id]);
+
+  if (!stockTake) {
+    return (
+      <div className="p-4 md:p-8 flex items-center justify-center min-h-[50vh]">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  const isCounting = stockTake.status === "counting";
+  const money = (amount: number) => `${amount < 0 ? "-" : ""}${cs}${Math.abs(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const saveLine = async (lineId: string, changes: Partial<Pick<StockTakeLine, "counted_quantity" | "reason">>) => {
+    setLines((prev) => prev.map((l) => (l.id === lineId ? { ...l, ...changes } : l)));
+    const { error } = await supabase.from("stock_take_items").update(changes).eq("id", lineId);
+    if (error) {
+      logErrorInDev("SaveStockTakeItem", error);
+      toast.error(getSafeErrorMessage(error, "Failed to save count"));
+      fetchStockTake();
+    }
+  };
+
+  const handleCountChange = (lineId: string, value: string) => {
+    const counted = value === "" ? null : Math.max(0, Math.floor(Number(value)) || 0);
+    setLines((prev) => prev.map((l) => (l.id === lineId ? { ...l, counted_quantity: counted } : l)));
+  };
+
+  // A scanner types the code and presses Enter; each scan counts one unit
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = scanCode.trim().toLowerCase();
+    if (!code) return;
+    const line =
+      lines.find((l) => l.products?.barcode?.toLowerCase() === code) ||
+      lines.find((l) => l.sku?.toLowerCase() === code) ||
+      lines.find((l) => l.description.toLowerCase() === code);
+    setScanCode("");
+    if (!line) {
+      toast.error(`Nothing in this stock take matches "${scanCode.trim()}"`);
+      return;
+    }
+    const counted = (line.counted_quantity || 0) + 1;
+    setLastScanned({ ...line, counted_quantity: counted });
+    saveLine(line.id, { counted_quantity: counted });
+    scanRef.current?.focus();
+  };
+
+  const handlePost = async () => {
+    setPosting(true);
+    const { data, error } = await supabase.rpc("post_stock_take", { p_stock_take_id: stockTake.id });
+    setPosting(false);
+    setIsPostOpen(false);
+
+    if (error) {
+      logErrorInDev("PostStockTake", error);
+      toast.error(getSafeErrorMessage(error, "Failed to post stock take"));
+      return;
+    }
+    toast.success(data ? `Stock adjusted for ${data} product${data === 1 ? "" : "s"}` : "Stock take posted, no adjustments needed");
+    fetchStockTake();
+  };
+
+  const handleDelete = async () => {
+    const { error } = await supabase.from("stock_takes").delete().eq("id", stockTake.id);
+    if (error) {
+      toast.error(getSafeErrorMessage(error, "Error deleting stock take"));
+      return;
+    }
+    toast.deleted("Stock take discarded");
+    navigate("/stock-takes");
+  };
+
+  const counted = lines.filter((l) => l.counted_quantity !== null);
+  const varianceLines = lines.filter((l) => lineVariance(l) !== 0);
+  const shortage = varianceLines.filter((l) => lineVariance(l) < 0).reduce((sum, l) => sum + varianceValue(l), 0);
+  const surplus = varianceLines.filter((l) => lineVariance(l) > 0).reduce((sum, l) => sum + varianceValue(l), 0);
+  const shownLines = filter === "uncounted"
+    ? lines.filter((l) => l.counted_quantity === null)
+    : filter === "variance"
+      ? varianceLines
+      : lines;
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/stock-takes")} className="flex-shrink-0">
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <h1 className="text-xl md:text-2xl font-bold text-foreground truncate">{stockTake.take_number}</h1>
+            <Badge variant={isCounting ? "outline" : "secondary"} className="text-[10px]">{isCounting ? "Counting" : "Posted"}</Badge>
+          </div>
+          <p className="text-xs md:text-sm text-muted-foreground">
+            {stockTake.locations?.name && `${stockTake.locations.name} · `}
+            Snapshot of {format(parseISO(stockTake.take_date), "dd MMM yyyy")}
+            {stockTake.posted_at && ` · Posted ${format(new Date(stockTake.posted_at), "dd MMM yyyy, hh:mm a")}`}
+          </p>
+          {stockTake.notes && <p className="text-xs text-muted-foreground">{stockTake.notes}</p>}
+        </div>
+        {isCounting && (
+          <div className="flex gap-2 flex-shrink-0">
+            <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <Button size="sm" onClick={() => setIsPostOpen(true)} disabled={counted.length === 0} className="gradient-primary text-primary-foreground">
+              <CheckCircle2 className="h-4 w-4 mr-1" /> Post
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Counted</span>
+            <p className="text-lg md:text-xl font-bold">{counted.length} <span className="text-sm font-normal text-muted-foreground">of {lines.length}</span></p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Shortage</span>
+            <p className="text-lg md:text-xl font-bold text-destructive">{money(shortage)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Surplus</span>
+            <p className="text-lg md:text-xl font-bold text-success">{money(surplus)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 md:p-4">
+            <span className="text-xs font-medium text-muted-foreground">Net Variance</span>
+            <p className={`text-lg md:text-xl font-bold ${shortage + surplus < 0 ? "text-destructive" : ""}`}>{money(shortage + surplus)}</p>
+            <p className="text-xs text-muted-foreground">{varianceLines.length} product{varianceLines.length === 1 ? "" : "s"}, at cost</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        {isCounting && (
+          <form onSubmit={handleScan} className="relative flex-1">
+            <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              ref={scanRef}
+              value={scanCode}
+              onChange={(e) => setScanCode(e.target.value)}
+              placeholder="Scan a barcode or type a SKU and press Enter to count one"
+              className="pl-10"
+              autoFocus
+            />
+          </form>
+        )}
+        <Select value={filter} onValueChange={(value) => setFilter(value as LineFilter)}>
+          <SelectTrigger className="w-full sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All products ({lines.length})</SelectItem>
+            <SelectItem value="uncounted">Not counted ({lines.length - counted.length})</SelectItem>
+            <SelectItem value="variance">With variance ({varianceLines.length})</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {lastScanned && isCounting && (
+        <p className="text-xs text-muted-foreground -mt-2">
+          Last scanned: <span className="font-medium text-foreground">{lastScanned.description}</span>, counted {lastScanned.counted_quantity}
+        </p>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30">
+                  <TableHead className="font-semibold">Product</TableHead>
+                  <TableHead className="font-semibold text-right">System</TableHead>
+                  <TableHead className="font-semibold text-right">Counted</TableHead>
+                  <TableHead className="font-semibold text-right">Variance</TableHead>
+                  <TableHead className="font-semibold text-right">Value</TableHead>
+                  <TableHead className="font-semibold">Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownLines.map((line, index) => {
+                  const variance = lineVariance(line);
+                  return (
+                    <TableRow key={line.id} className={index % 2 === 0 ? "bg-card" : "bg-muted/20"}>
+                      <TableCell className="font-medium">
+                        {line.description}
+                        {line.sku && <p className="text-xs text-muted-foreground font-normal">{line.sku}</p>}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{line.system_quantity} {line.unit || "pc"}</TableCell>
+                      <TableCell className="text-right">
+                        {isCounting ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            value={line.counted_quantity ?? ""}
+                            onChange={(e) => handleCountChange(line.id, e.target.value)}
+                            onBlur={() => saveLine(line.id, { counted_quantity: line.counted_quantity })}
+                            placeholder="-"
+                            className="h-8 w-20 ml-auto text-right"
+                          />
+                        ) : (
+                          line.counted_quantity ?? "-"
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${variance < 0 ? "text-destructive" : variance > 0 ? "text-success" : "text-muted-foreground"}`}>
+                        {line.counted_quantity === null ? "" : `${variance > 0 ? "+" : ""}${variance}`}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{variance !== 0 && money(varianceValue(line))}</TableCell>
+                      <TableCell>
+                        {variance !== 0 && (isCounting ? (
+                          <Select value={line.reason || "count_error"} onValueChange={(value) => saveLine(line.id, { reason: value })}>
+                            <SelectTrigger className="h-8 w-32 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(adjustmentReasonLabels) as AdjustmentReason[]).map((reason) => (
+                                <SelectItem key={reason} value={reason}>{adjustmentReasonLabels[reason]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-xs">{adjustmentReasonLabels[line.reason as AdjustmentReason] || line.reason}</span>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {shownLines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                      {filter === "variance" ? "No variances ✓" : filter === "uncounted" ? "Everything has been counted ✓" : "No products to count"}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={isPostOpen} onOpenChange={setIsPostOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Post stock take?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stock of {varianceLines.length} product{varianceLines.length === 1 ? "" : "s"} will be adjusted by {money(shortage + surplus)} at cost.
+              {lines.length > counted.length && ` ${lines.length - counted.length} uncounted product${lines.length - counted.length === 1 ? " is" : "s are"} left as they are.`}
+              {" "}A posted stock take can no longer be changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={posting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={(e) => { e.preventDefault(); handlePost(); }} disabled={posting}>
+              {posting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Post Adjustments
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default StockTakeDetail;
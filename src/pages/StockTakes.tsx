@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardCheck, Loader2, Plus, TrendingDown } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { StockLocation, fetchLocations } from "@/lib/locations";
+import { varianceValue } from "@/lib/stockTakes";
+
+type StockTakeSummary = {
+  id: string;
+  take_number: string;
+  location_id: string | null;
+  take_date: string;
+  status: string;
+  notes: string | null;
+  stock_take_items: { system_quantity: number; counted_quantity: number | null; unit_cost: number }[];
+};
+
+const StockTakes = () => {
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [stockTakes, setStockTakes] = useState<StockTakeSummary[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isStartOpen, setIsStartOpen] = useState(false);
+  const [locationId, setLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [starting, setStarting] = useState(false);
+
+  const loadStockTakes = async () => {
+    const { data, error } = await supabase
+      .from("stock_takes")
+      .select("id, take_number, location_id, take_date, status, notes, stock_take_items(system_quantity, counted_quantity, unit_cost)")
+      .order("take_date", { ascending: false })
+      .order("created_at", { ascending: false });
+    setLoading(false);
+    if (error) {
+      logErrorInDev("FetchStockTakes", error);
+      toast.error("Error fetching stock takes");
+      return;
+    }
+    setStockTakes((data || []) as StockTakeSummary[]);
+  };
+
+  useEffect(() => {
+    loadStockTakes();
+    fetchLocations().then(setLocations).catch((error) => {
+      logErrorInDev("FetchLocations", error);
+    });
+  }, []);
+
+  const locationName = (id: string | null) => locations.find((l) => l.id === id)?.name || "-";
+  const money = (amount: number) => `${amount < 0 ? "-" : ""}${cs}${Math.abs(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const openStart = () => {
+    setLocationId(locations.find((l) => l.is_default)?.id || locations[0]?.id || "");
+    setNotes("");
+    setIsStartOpen(true);
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    const { data, error } = await supabase.rpc("start_stock_take", { p_location_id: locationId || undefined, p_notes: notes });
+    setStarting(false);
+
+    if (error) {
+      logErrorInDev("StartStockTake", error);
+      toast.error(getSafeErrorMessage(error, "Failed to start stock take"));
+      return;
+    }
+    setIsStartOpen(false);
+    navigate(`/stock-takes/${data}`);
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">Stock Take</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Count what is on the shelves and correct the books with a reason</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => navigate("/shrinkage")} size="sm" variant="outline" className="flex-1 sm:flex-none">
+            <TrendingDown className="mr-2 h-4 w-4" /> Shrinkage Report
+          </Button>
+          <Button onClick={openStart} size="sm" className="gradient-primary text-primary-foreground shadow-colorful flex-1 sm:flex-none">
+            <Plus className="mr-2 h-4 w-4" /> Start Stock Take
+          </Button>
+        </div>
+      </div>
+
+      <Card className="border-0 shadow-colorful">
+        <CardHeader className="border-b bg-gradient-to-r from-primary/5 to-accent/5 p-3 md:p-6">
+          <CardTitle className="flex items-center gap-2 text-sm md:text-base">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+            Stock Takes
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="py-10 text-center text-muted-foreground text-sm">Loading...</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30">
+                    <TableHead className="font-semibold">Stock Take</TableHead>
+                    <TableHead className="font-semibold">Date</TableHead>
+                    <TableHead className="font-semibold">Location</TableHead>
+                    <TableHead className="font-semibold">Counted</TableHead>
+                    <TableHead className="font-semibold text-right">Variance</TableHead>
+                    <TableHead className="font-semibold">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stockTakes.map((take, index) => {
+                    const counted = take.stock_take_items.filter((item) => item.counted_quantity !== null).length;
+                    const variance = take.stock_take_items.reduce((sum, item) => sum + varianceValue(item), 0);
+                    return (
+                      <TableRow
+                        key={take.id}
+                        className={`cursor-pointer hover:bg-muted/50 ${index % 2 === 0 ? "bg-card" : "bg-muted/20"}`}
+                        onClick={() => navigate(`/stock-takes/${take.id}`)}
+                      >
+                        <TableCell className="font-medium whitespace-nowrap">
+                          {take.take_number}
+                          {take.notes && <p className="text-xs text-muted-foreground font-normal truncate max-w-[200px]">{take.notes}</p>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{format(parseISO(take.take_date), "dd MMM yyyy")}</TableCell>
+                        <TableCell>{locationName(take.location_id)}</TableCell>
+                        <TableCell className="whitespace-nowrap">{counted} of {take.stock_take_items.length}</TableCell>
+                        <TableCell className={`text-right whitespace-nowrap ${variance < 0 ? "text-destructive" : variance > 0 ? "text-success" : ""}`}>
+                          {money(variance)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={take.status === "posted" ? "secondary" : "outline"} className="text-[10px]">
+                            {take.status === "posted" ? "Posted" : "Counting"}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {stockTakes.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-6">No stock takes yet</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isStartOpen} onOpenChange={setIsStartOpen}>
+        <DialogContent className="w-[95vw] max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Start Stock Take</DialogTitle>
+            <DialogDescription>
+              Today's stock at the location is frozen as the snapshot your counts are compared against.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {locations.length > 1 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Location</Label>
+                <Select value={locationId} onValueChange={setLocationId}>
+                  <SelectTrigger><SelectValue placeholder="Location" /></SelectTrigger>
+                  <SelectContent>
+                    {locations.map((l) => <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="stock-take-notes" className="text-xs">Notes</Label>
+              <Textarea id="stock-take-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="Year-end count, aisle 3..." />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsStartOpen(false)}>Cancel</Button>
+            <Button onClick={handleStart} disabled={starting} className="gradient-primary text-primary-foreground">
+              {starting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start Counting
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default StockTakes;
@@ -0,0 +1,302 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Pencil, IndianRupee, Hourglass, AlertTriangle, ClipboardList, Phone, Mail, MapPin, User, Landmark, CalendarClock, Truck } from "lucide-react";
+import { format } from "date-fns";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { logErrorInDev } from "@/lib/errorUtils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { currencySymbol, toBase } from "@/lib/currency";
+import { stateName } from "@/lib/gst";
+import { Supplier } from "@/lib/suppliers";
+import { SupplierDialog } from "@/components/SupplierDialog";
+
+type SupplierOrder = {
+  id: string;
+  po_number: string;
+  po_date: string;
+  status: string;
+  total: number;
+};
+
+type SupplierBill = {
+  id: string;
+  bill_number: string;
+  bill_date: string;
+  due_date: string | null;
+  status: string;
+  total: number;
+  balance_due: number;
+  currency_code: string;
+  exchange_rate: number;
+};
+
+type SupplierProduct = {
+  id: string;
+  name: string;
+  purchase_price: number;
+  quantity: number;
+};
+
+const poStatusVariant = (status: string) => {
+  switch (status) {
+    case "received": return "default";
+    case "cancelled": return "destructive";
+    case "partially_received": return "outline";
+    default: return "secondary";
+  }
+};
+
+const SupplierDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const cs = settings.currency_symbol || "₹";
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [orders, setOrders] = useState<SupplierOrder[]>([]);
+  const [bills, setBills] = useState<SupplierBill[]>([]);
+  const [products, setProducts] = useState<SupplierProduct[]>([]);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  const fetchSupplier = async () => {
+    if (!id) return;
+    const [{ data, error }, { data: orderData, error: ordersError }, { data: billData, error: billsError }, { data: productData }] = await Promise.all([
+      supabase.from("suppliers").select("*").eq("id", id).single(),
+      supabase.from("purchase_orders").select("id, po_number, po_date, status, total").eq("supplier_id", id).order("po_date", { ascending: false }),
+      supabase
+        .from("bills")
+        .select("id, bill_number, bill_date, due_date, status, total, balance_due, currency_code, exchange_rate")
+        .eq("supplier_id", id)
+        .eq("bill_type", "purchase")
+        .order("bill_date", { ascending: false }),
+      supabase.from("products").select("id, name, purchase_price, quantity").eq("supplier_id", id).order("name"),
+    ]);
+    if (error || !data) {
+      toast.error("Supplier not found");
+      navigate("/suppliers");
+      return;
+    }
+    if (ordersError) logErrorInDev("FetchSupplierOrders", ordersError);
+    if (billsError) logErrorInDev("FetchSupplierBills", billsError);
+    setSupplier(data);
+    setOrders(orderData || []);
+    setBills(billData || []);
+    setProducts(productData || []);
+  };
+
+  useEffect(() => {
+    fetchSupplier();
+  }, [id]);
+
+  if (!supplier) {
+    return (
+      <div className="p-4 md:p-8 flex items-center justify-center min-h-[50vh]">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const activeBills = bills.filter((bill) => bill.status !== "cancelled");
+  const totalSpend = activeBills.reduce((sum, bill) => sum + toBase(bill.total, bill.exchange_rate), 0);
+  const outstanding = activeBills.reduce((sum, bill) => sum + toBase(bill.balance_due, bill.exchange_rate), 0);
+  const overdueBills = activeBills.filter((bill) => bill.balance_due > 0 && !!bill.due_date && bill.due_date < today);
+  const overdue = overdueBills.reduce((sum, bill) => sum + toBase(bill.balance_due, bill.exchange_rate), 0);
+  const openOrders = orders.filter((order) => order.status === "pending" || order.status === "partially_received");
+  const money = (amount: number) => `${cs}${amount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`;
+
+  const details = [
+    { label: "Contact Person", value: supplier.contact_person, icon: User },
+    { label: "Phone", value: supplier.phone, icon: Phone },
+    { label: "Email", value: supplier.email, icon: Mail },
+    { label: "Address", value: [supplier.address, stateName(supplier.state_code)].filter(Boolean).join(", "), icon: MapPin },
+    { label: "Payment Terms", value: supplier.payment_terms === null ? `Default (${settings.default_payment_terms} days)` : `${supplier.payment_terms} days`, icon: CalendarClock },
+    { label: "Lead Time", value: supplier.lead_time_days === null ? `Default (${settings.default_lead_time_days} days)` : `${supplier.lead_time_days} days`, icon: Truck },
+    {
+      label: "Bank Account",
+      value: [supplier.bank_account_name, supplier.bank_account_number, supplier.bank_ifsc, supplier.bank_name].filter(Boolean).join(" · "),
+      icon: Landmark,
+    },
+    { label: "UPI", value: supplier.upi_id, icon: IndianRupee },
+  ].filter((detail) => detail.value);
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-6 pb-24 md:pb-8">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/suppliers")} className="flex-shrink-0">
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-xl md:text-2xl font-bold text-foreground truncate">{supplier.name}</h1>
+          <div className="flex items-center gap-2 mt-0.5">
+            {supplier.gstin && <span className="text-xs text-muted-foreground">GSTIN: {supplier.gstin}</span>}
+            {supplier.state_code && <span className="text-xs text-muted-foreground">{stateName(supplier.state_code)}</span>}
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)}>
+          <Pencil className="h-4 w-4 mr-1" /> Edit
+        </Button>
+      </div>
+
+      {/* Key Stats */}
+      <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
+        {[
+          { title: "Total Spend", value: money(totalSpend), icon: IndianRupee, color: "text-primary", sub: `${activeBills.length} bill${activeBills.length === 1 ? "" : "s"}` },
+          { title: "Outstanding", value: money(outstanding), icon: Hourglass, color: outstanding > 0 ? "text-warning" : "text-success", sub: "Unpaid on bills" },
+          { title: "Overdue", value: money(overdue), icon: AlertTriangle, color: overdue > 0 ? "text-destructive" : "text-success", sub: `${overdueBills.length} bill${overdueBills.length === 1 ? "" : "s"} past due` },
+          { title: "Open POs", value: String(openOrders.length), icon: ClipboardList, color: "text-info", sub: `${orders.length} in total` },
+        ].map((item) => (
+          <Card key={item.title} className="relative overflow-hidden">
+            <div className="absolute top-0 left-0 right-0 h-1" style={{ background: "var(--gradient-primary)" }} />
+            <CardContent className="p-3 md:p-4 pt-4">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs font-medium text-muted-foreground">{item.title}</span>
+                <item.icon className={`h-4 w-4 ${item.color}`} />
+              </div>
+              <p className={`text-lg md:text-xl font-bold ${item.color}`}>{item.value}</p>
+              <p className="text-[10px] text-muted-foreground mt-0.5">{item.sub}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:gap-4 grid-cols-1 lg:grid-cols-2">
+        {/* Purchase Order History */}
+        <Card>
+          <CardHeader className="p-3 md:p-6 pb-2 flex flex-row items-center justify-between">
+            <CardTitle className="text-sm md:text-base">Purchase Orders</CardTitle>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => navigate("/purchase-orders")}>All POs</Button>
+          </CardHeader>
+          <CardContent className="p-3 md:p-6 pt-0">
+            {orders.length === 0 ? (
+              <p className="text-muted-foreground text-center py-6 text-sm">No purchase orders yet</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {orders.map((order) => (
+                  <div key={order.id} className="flex items-center justify-between gap-2 p-2.5 rounded-lg border">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{order.po_number}</p>
+                      <p className="text-[10px] text-muted-foreground">{format(new Date(order.po_date), "dd MMM yyyy")}</p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className="text-sm font-bold">{cs}{Number(order.total).toLocaleString("en-IN", { maximumFractionDigits: 2 })}</p>
+                      <Badge variant={poStatusVariant(order.status)} className="text-[10px]">{order.status.replace("_", " ")}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Bills */}
+        <Card>
+          <CardHeader className="p-3 md:p-6 pb-2 flex flex-row items-center justify-between">
+            <CardTitle className="text-sm md:text-base">Bills</CardTitle>
+            {outstanding > 0 && (
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => navigate("/payables-aging")}>Aging</Button>
+            )}
+          </CardHeader>
+          <CardContent className="p-3 md:p-6 pt-0">
+            {bills.length === 0 ? (
+              <p className="text-muted-foreground text-center py-6 text-sm">No bills yet</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {bills.map((bill) => {
+                  const isOverdue = bill.status !== "cancelled" && bill.balance_due > 0 && !!bill.due_date && bill.due_date < today;
+                  return (
+                    <div key={bill.id} className={`flex items-center justify-between gap-2 p-2.5 rounded-lg border ${bill.status === "cancelled" ? "opacity-60" : ""}`}>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{bill.bill_number}</p>
+                        <p className="text-[10px] text-muted-foreground">
+                          {format(new Date(bill.bill_date), "dd MMM yyyy")}
+                          {bill.due_date && ` · Due ${format(new Date(bill.due_date), "dd MMM yyyy")}`}
+                        </p>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <p className="text-sm font-bold">{currencySymbol(bill.currency_code)}{Number(bill.total).toLocaleString("en-IN", { maximumFractionDigits: 2 })}</p>
+                        {bill.status === "cancelled" ? (
+                          <Badge variant="outline" className="text-[10px]">Cancelled</Badge>
+                        ) : bill.balance_due > 0 ? (
+                          <Badge variant={isOverdue ? "destructive" : "secondary"} className="text-[10px]">
+                            {isOverdue ? "Overdue" : "Due"} {currencySymbol(bill.currency_code)}{Number(bill.balance_due).toLocaleString("en-IN", { maximumFractionDigits: 2 })}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-[10px] border-success text-success">Paid</Badge>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-3 md:gap-4 grid-cols-1 lg:grid-cols-2">
+        {/* Supplier Details */}
+        <Card>
+          <CardHeader className="p-3 md:p-6 pb-2">
+            <CardTitle className="text-sm md:text-base">Supplier Details</CardTitle>
+          </CardHeader>
+          <CardContent className="p-3 md:p-6 pt-0">
+            {details.length === 0 && !supplier.notes ? (
+              <p className="text-muted-foreground text-center py-6 text-sm">No contact or bank details yet</p>
+            ) : (
+              <div className="space-y-2">
+                {details.map((detail) => (
+                  <div key={detail.label} className="flex items-center gap-3 p-2.5 rounded-lg border">
+                    <detail.icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-[10px] text-muted-foreground">{detail.label}</p>
+                      <p className="text-sm font-medium break-words">{detail.value}</p>
+                    </div>
+                  </div>
+                ))}
+                {supplier.notes && <p className="text-sm text-muted-foreground pt-1">{supplier.notes}</p>}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Products Supplied */}
+        <Card>
+          <CardHeader className="p-3 md:p-6 pb-2">
+            <CardTitle className="text-sm md:text-base">Products Supplied</CardTitle>
+          </CardHeader>
+          <CardContent className="p-3 md:p-6 pt-0">
+            {products.length === 0 ? (
+              <p className="text-muted-foreground text-center py-6 text-sm">No products linked to this supplier</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {products.map((product) => (
+                  <button
+                    key={product.id}
+                    type="button"
+                    className="w-full flex items-center justify-between gap-2 p-2.5 rounded-lg border text-left hover:bg-muted/30"
+                    onClick={() => navigate(`/inventory/${product.id}`)}
+                  >
+                    <p className="text-sm font-medium truncate">{product.name}</p>
+                    <div className="text-right flex-shrink-0">
+                      <p className="text-sm font-bold">{cs}{product.purchase_price.toFixed(2)}</p>
+                      <p className="text-[10px] text-muted-foreground">{product.quantity} in stock</p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <SupplierDialog supplier={supplier} open={isEditOpen} onOpenChange={setIsEditOpen} onSaved={fetchSupplier} />
+    </div>
+  );
+};
+
+export default SupplierDetail;
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash2, Factory, Search } from "lucide-react";
+import { toastWithSound as toast } from "@/lib/toastWithSound";
+import { getSafeErrorMessage, logErrorInDev } from "@/lib/errorUtils";
+import { stateName } from "@/lib/gst";
+import { Supplier, fetchSuppliers } from "@/lib/suppliers";
+import { SupplierDialog } from "@/components/SupplierDialog";
+
+const Suppliers = () => {
+  const navigate = useNavigate();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  const loadSuppliers = async () => {
+    try {
+      setSuppliers(await fetchSuppliers());
+    } catch (error) {
+      logErrorInDev("FetchSuppliers", error);
+      toast.error("Error fetching suppliers");
+    }
+  };
+
+  useEffect(() => {
+    loadSuppliers();
+
+    const channel = supabase
+      .channel("suppliers-changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "suppliers" }, () => {
+        loadSuppliers();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const search = searchTerm.toLowerCase();
+  const filteredSuppliers = suppliers.filter(
+    (supplier) =>
+      supplier.name.toLowerCase().includes(search) ||
+      supplier.email?.toLowerCase().includes(search) ||
+      supplier.phone?.toLowerCase().includes(search) ||
+      supplier.gstin?.toLowerCase().includes(search)
+  );
+
+  const openDialog = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    // Products, purchase orders and bills keep the supplier's name
+    const { error } = await supabase.from("suppliers").delete().eq("id", supplier.id);
+
+    if (error) {
+      toast.error(getSafeErrorMessage(error, "Error deleting supplier"));
+    } else {
+      toast.deleted("Supplier deleted successfully");
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-4 md:space-y-8 pb-24 md:pb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gradient">Suppliers</h1>
+          <p className="text-sm md:text-base text-muted-foreground">Manage the businesses you buy from</p>
+        </div>
+        <Button onClick={() => openDialog(null)} size="sm" className="gradient-primary text-primary-foreground shadow-colorful w-full sm:w-auto">
+          <Plus className="mr-2 h-4 w-4" /> Add Supplier
+        </Button>
+      </div>
+
+      {/* Summary Card */}
+      <Card className="border-0 shadow-colorful overflow-hidden">
+        <div className="h-1 gradient-primary" />
+        <CardContent className="p-3 md:pt-4 md:p-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Factory className="h-4 w-4 md:h-5 md:w-5 text-primary" />
+            </div>
+            <div>
+              <p className="text-xs md:text-sm text-muted-foreground">Total Suppliers</p>
+              <p className="text-xl md:text-2xl font-bold">{suppliers.length}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Search */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search suppliers..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {/* Suppliers - Mobile Cards - Compact */}
+      <div className="md:hidden space-y-2">
+        {filteredSuppliers.map((supplier) => (
+          <Card key={supplier.id} className="border-0 shadow-sm overflow-hidden">
+            <div className="h-0.5 gradient-primary" />
+            <CardContent className="p-3">
+              <div className="flex items-center justify-between gap-2">
+                <button type="button" className="min-w-0 flex-1 text-left" onClick={() => navigate(`/suppliers/${supplier.id}`)}>
+                  <p className="font-semibold text-sm truncate">{supplier.name}</p>
+                  <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground mt-0.5">
+                    {supplier.phone && <span>{supplier.phone}</span>}
+                    {supplier.email && supplier.phone && <span>•</span>}
+                    {supplier.email && <span className="truncate max-w-[140px]">{supplier.email}</span>}
+                  </div>
+                  {supplier.state_code && (
+                    <p className="text-xs text-muted-foreground mt-1">{stateName(supplier.state_code)}</p>
+                  )}
+                </button>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openDialog(supplier)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive" onClick={() => handleDelete(supplier)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+        {filteredSuppliers.length === 0 && (
+          <p className="text-center text-muted-foreground py-6 text-sm">No suppliers found</p>
+        )}
+      </div>
+
+      {/* Desktop Table */}
+      <Card className="border-0 shadow-colorful hidden md:block">
+        <CardHeader className="border-b bg-gradient-to-r from-primary/5 to-accent/5">
+          <CardTitle className="flex items-center gap-2">
+            <Factory className="h-5 w-5 text-primary" />
+            All Suppliers
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/30">
+                <TableHead className="font-semibold">Name</TableHead>
+                <TableHead className="font-semibold">Phone</TableHead>
+                <TableHead className="font-semibold">Email</TableHead>
+                <TableHead className="font-semibold">GSTIN</TableHead>
+                <TableHead className="font-semibold">Terms</TableHead>
+                <TableHead className="font-semibold">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredSuppliers.map((supplier, index) => (
+                <TableRow
+                  key={supplier.id}
+                  className={`cursor-pointer hover:bg-muted/50 ${index % 2 === 0 ? "bg-card" : "bg-muted/20"}`}
+                  onClick={() => navigate(`/suppliers/${supplier.id}`)}
+                >
+                  <TableCell className="font-medium">{supplier.name}</TableCell>
+                  <TableCell>{supplier.phone || "-"}</TableCell>
+                  <TableCell>{supplier.email || "-"}</TableCell>
+                  <TableCell>{supplier.gstin || "-"}</TableCell>
+                  <TableCell>{supplier.payment_terms === null ? "Default" : `${supplier.payment_terms} days`}</TableCell>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(supplier)} className="h-8 w-8">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(supplier)}
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filteredSuppliers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-6">No suppliers found</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <SupplierDialog supplier={editingSupplier} open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,88 @@
+import nodemailer from "npm:nodemailer@6.9.16";
+
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface Mail {
+  from: { name: string; address: string };
+  to: string;
+  replyTo?: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(mail: Mail): Promise<{ messageId: string | null }>;
+}
+
+function smtpTransport(): MailTransport {
+  const host = Deno.env.get("SMTP_HOST");
+  if (!host) throw new Error("SMTP_HOST is not set");
+  const port = Number(Deno.env.get("SMTP_PORT") || 587);
+  const user = Deno.env.get("SMTP_USER");
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    // Implicit TLS on 465; other ports upgrade with STARTTLS when the server offers it
+    secure: (Deno.env.get("SMTP_SECURE") ?? String(port === 465)) === "true",
+    // Mail catchers such as Inbucket or Mailpit take mail without a login
+    auth: user ? { user, pass: Deno.env.get("SMTP_PASS") || "" } : undefined,
+  });
+
+  return {
+    async send(mail) {
+      const info = await transporter.sendMail({
+        from: mail.from,
+        to: mail.to,
+        replyTo: mail.replyTo,
+        subject: mail.subject,
+        text: mail.text,
+        attachments: mail.attachments,
+      });
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
+
+// Writes the mail to the function log instead of sending it
+function consoleTransport(): MailTransport {
+  return {
+    send(mail) {
+      console.log("Mail (not sent):", JSON.stringify({
+        from: mail.from,
+        to: mail.to,
+        subject: mail.subject,
+        text: mail.text,
+        attachments: (mail.attachments || []).map((a) => `${a.filename} (${a.content.byteLength} bytes)`),
+      }));
+      return Promise.resolve({ messageId: null });
+    },
+  };
+}
+
+/**
+ * Transport chosen by MAIL_TRANSPORT:
+ * - "smtp" (default) sends through SMTP_HOST and SMTP_PORT, logging in with
+ *   SMTP_USER and SMTP_PASS when set. For local development point it at a mail
+ *   catcher, e.g. SMTP_HOST=host.docker.internal SMTP_PORT=54325 for the Inbucket
+ *   started by `supabase start`.
+ * - "console" only logs what would have been sent.
+ */
+export function createMailTransport(): MailTransport {
+  const kind = Deno.env.get("MAIL_TRANSPORT") || "smtp";
+  if (kind === "console") return consoleTransport();
+  if (kind === "smtp") return smtpTransport();
+  throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+}
+
+// Address mail is sent from; replies go to the company's own email
+export function mailFromAddress(): string {
+  const from = Deno.env.get("MAIL_FROM");
+  if (!from) throw new Error("MAIL_FROM is not set");
+  return from;
+}
@@ -0,0 +1,77 @@
+// An approved message template. Business-initiated messages, such as payment
+// reminders, must use one: free-form text is only delivered to customers who
+// have messaged the business number in the last 24 hours.
+export interface WhatsAppTemplate {
+  name: string;
+  language: string;
+  // Values for the body placeholders {{1}}, {{2}}, ... in order
+  parameters: string[];
+}
+
+export interface WhatsAppTransport {
+  sendTemplate(to: string, template: WhatsAppTemplate): Promise<{ messageId: string }>;
+}
+
+/**
+ * Digits only, with the India country code added to 10-digit numbers, the same
+ * way the app builds wa.me links
+ */
+export function normalizeWhatsAppNumber(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length === 10 ? `91${digits}` : digits;
+}
+
+// Template parameters may not hold line breaks, tabs or long runs of spaces
+function templateParameter(value: string): string {
+  return value.replace(/[\n\t]+/g, " ").replace(/ {4,}/g, "   ").trim() || "-";
+}
+
+/**
+ * Sends through the WhatsApp Cloud API with WHATSAPP_TOKEN and
+ * WHATSAPP_PHONE_NUMBER_ID. Set WHATSAPP_TRANSPORT=console to only log
+ * messages instead.
+ */
+export function createWhatsAppTransport(): WhatsAppTransport {
+  if (Deno.env.get("WHATSAPP_TRANSPORT") === "console") {
+    return {
+      sendTemplate(to, template) {
+        console.log("WhatsApp (not sent):", JSON.stringify({ to, template }));
+        return Promise.resolve({ messageId: "console" });
+      },
+    };
+  }
+
+  const token = Deno.env.get("WHATSAPP_TOKEN");
+  const phoneNumberId = Deno.env.get("WHATSAPP_PHONE_NUMBER_ID");
+  if (!token || !phoneNumberId) throw new Error("WhatsApp is not configured");
+
+  return {
+    async sendTemplate(to, template) {
+      const response = await fetch(`https://graph.facebook.com/v20.0/${phoneNumberId}/messages`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          messaging_product: "whatsapp",
+          to: normalizeWhatsAppNumber(to),
+          type: "template",
+          template: {
+            name: template.name,
+            language: { code: template.language },
+            components: [{
+              type: "body",
+              parameters: template.parameters.map((text) => ({ type: "text", text: templateParameter(text) })),
+            }],
+          },
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`WhatsApp API ${response.status}: ${(await response.text()).slice(0, 300)}`);
+      }
+      // A message the API took on comes back with its id
+      const result = await response.json() as { messages?: { id?: string }[] };
+      const messageId = result.messages?.[0]?.id;
+      if (!messageId) throw new Error("WhatsApp API did not accept the message");
+      return { messageId };
+    },
+  };
+}
@@ -38,37 +38,49 @@ Deno.serve(async (req) => {
     // Use service role to delete user data and auth account
     const adminClient = createClient(supabaseUrl, serviceRoleKey);
 
-    // Delete user's data from all tables (cascade will handle some, but be explicit)
-    const tables = [
-      "bill_items", "bills", "invoice_items", "invoices", "products",
-      "clients", "transactions", "user_settings", "user_pins",
-      "otp_verifications", "company_profile", "profiles",
-    ];
+    // Any failed delete stops here, before the auth user goes, so no data is
+    // left behind without an owner
+    const check = ({ error }: { error: unknown }) => {
+      if (error) throw error;
+    };
 
-    // bill_items and invoice_items need special handling (they reference bills/invoices by bill_id/invoice_id, not user_id)
-    // Delete bills/invoices first will cascade, but let's delete explicitly
-    const { data: userBills } = await adminClient.from("bills").select("id").eq("user_id", user.id);
+    // bill_items and invoice_items reference bills/invoices by bill_id/invoice_id, not user_id
+    const { data: userBills, error: billsError } = await adminClient.from("bills").select("id").eq("user_id", user.id);
+    if (billsError) throw billsError;
+    const { data: userInvoices, error: invoicesError } = await adminClient.from("invoices").select("id").eq("user_id", user.id);
+    if (invoicesError) throw invoicesError;
+
+    // Credit notes first: they reference the invoices and bills, which cannot be
+    // deleted while they are credited (their items go with them)
+    check(await adminClient.from("credit_notes").delete().eq("user_id", user.id));
     if (userBills?.length) {
-      await adminClient.from("bill_items").delete().in("bill_id", userBills.map(b => b.id));
+      check(await adminClient.from("bill_items").delete().in("bill_id", userBills.map(b => b.id)));
     }
-    const { data: userInvoices } = await adminClient.from("invoices").select("id").eq("user_id", user.id);
     if (userInvoices?.length) {
-      await adminClient.from("invoice_items").delete().in("invoice_id", userInvoices.map(i => i.id));
+      check(await adminClient.from("invoice_items").delete().in("invoice_id", userInvoices.map(i => i.id)));
     }
 
-    // Delete from remaining tables
-    for (const table of ["bills", "invoices", "products", "clients", "transactions", "user_settings", "user_pins", "otp_verifications", "company_profile", "profiles"]) {
-      await adminClient.from(table).delete().eq("user_id", user.id);
+    // Delete from remaining tables; purchase orders before the products their items reference
+    for (const table of ["payment_reminders", "email_log", "document_templates", "recurring_invoices", "bill_payments", "bills", "invoices", "purchase_orders", "products", "clients", "suppliers", "transactions", "user_settings", "user_pins", "otp_verifications", "company_profile", "profiles"]) {
+      check(await adminClient.from(table).delete().eq("user_id", user.id));
     }
+    // Stock takes, and locations, which are guarded against deletion in the app, are purged in the database
+    check(await adminClient.rpc("purge_user_data", { p_user_id: user.id }));
 
     // Delete storage files
     const { data: avatarFiles } = await adminClient.storage.from("avatars").list(user.id);
     if (avatarFiles?.length) {
-      await adminClient.storage.from("avatars").remove(avatarFiles.map(f => `${user.id}/${f.name}`));
+      check(await adminClient.storage.from("avatars").remove(avatarFiles.map(f => `${user.id}/${f.name}`)));
     }
     const { data: logoFiles } = await adminClient.storage.from("company-logos").list(user.id);
     if (logoFiles?.length) {
-      await adminClient.storage.from("company-logos").remove(logoFiles.map(f => `${user.id}/${f.name}`));
+      check(await adminClient.storage.from("company-logos").remove(logoFiles.map(f => `${user.id}/${f.name}`)));
+    }
+    for (const folder of ["invoices", "bills", "purchase_orders", "statements"]) {
+      const { data: pdfFiles } = await adminClient.storage.from("documents").list(`${user.id}/${folder}`, { limit: 1000 });
+      if (pdfFiles?.length) {
+        check(await adminClient.storage.from("documents").remove(pdfFiles.map(f => `${user.id}/${folder}/${f.name}`)));
+      }
     }
 
     // Finally delete the auth user
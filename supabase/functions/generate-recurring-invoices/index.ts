@@ -0,0 +1,109 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// A schedule that fell behind (e.g. started in the past) catches up at most
+// this many dates per run
+const MAX_RUNS_PER_SCHEDULE = 12;
+
+// Emails a generated invoice through send-document, which logs the attempt and
+// marks the invoice sent once it has gone out
+async function sendInvoice(supabaseUrl: string, serviceRoleKey: string, invoiceId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/send-document`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${serviceRoleKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ document_type: "invoice", document_id: invoiceId }),
+    });
+    if (!response.ok) console.error(`Sending invoice ${invoiceId} failed:`, await response.text());
+    return response.ok;
+  } catch (e) {
+    console.error(`Sending invoice ${invoiceId} failed:`, e);
+    return false;
+  }
+}
+
+// Called daily by pg_cron with the service role key
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey);
+    const startedAt = new Date().toISOString();
+    const today = startedAt.split("T")[0];
+
+    const { data: schedules, error } = await adminClient
+      .from("recurring_invoices")
+      .select("id")
+      .eq("status", "active")
+      .lte("next_run_date", today);
+    if (error) throw error;
+
+    let generated = 0;
+    let failed = 0;
+    let sent = 0;
+    let sendFailed = 0;
+    for (const schedule of schedules || []) {
+      // Returns NULL once the schedule is no longer due or a run fails
+      for (let run = 0; run < MAX_RUNS_PER_SCHEDULE; run++) {
+        const { data: invoiceId, error: runError } = await adminClient.rpc("generate_recurring_invoice", {
+          p_recurring_id: schedule.id,
+        });
+        if (runError) {
+          console.error(`Recurring invoice ${schedule.id} error:`, runError);
+          failed++;
+          break;
+        }
+        if (!invoiceId) break;
+        generated++;
+      }
+    }
+
+    // A run that fails is recorded by generate_recurring_invoice and returns NULL
+    const { data: failedRuns, error: failedError } = await adminClient
+      .from("recurring_invoice_runs")
+      .select("recurring_invoice_id, run_date, error")
+      .eq("status", "failed")
+      .gte("created_at", startedAt);
+    if (failedError) throw failedError;
+    for (const run of failedRuns || []) {
+      console.error(`Recurring invoice ${run.recurring_invoice_id} failed for ${run.run_date}:`, run.error);
+    }
+    failed += failedRuns?.length || 0;
+
+    // Invoices of auto_send schedules go out once the app has saved their PDF,
+    // which may be on a later run than the one that raised them
+    const { data: dueEmails, error: dueError } = await adminClient.rpc("due_recurring_invoice_emails");
+    if (dueError) throw dueError;
+    for (const email of dueEmails || []) {
+      if (await sendInvoice(supabaseUrl, serviceRoleKey, email.invoice_id)) sent++;
+      else sendFailed++;
+    }
+
+    return new Response(JSON.stringify({ success: true, schedules: schedules?.length || 0, generated, failed, sent, sendFailed }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Generate recurring invoices error:", error);
+    return new Response(JSON.stringify({ error: "Failed to generate recurring invoices" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
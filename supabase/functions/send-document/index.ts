@@ -0,0 +1,239 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createMailTransport, mailFromAddress } from "../_shared/mailTransport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const documentTables = {
+  invoice: { table: "invoices", numberColumn: "invoice_number" },
+  bill: { table: "bills", numberColumn: "bill_number" },
+} as const;
+
+// Keeps the mail server from being used to send in bulk
+const MAX_EMAILS_PER_HOUR = 30;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Company = { company_name: string | null; email: string | null } | null;
+
+interface Delivery {
+  userId: string;
+  documentType: keyof typeof documentTables;
+  documentId: string;
+  recipient: string;
+  subject: string;
+  text: string;
+  company: Company;
+  attachment: { filename: string; pdf: Blob };
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function pdfFileName(name: string): string {
+  return `${name.replace(/\.pdf$/i, "").replace(/[^\w.-]+/g, "_").slice(0, 100)}.pdf`;
+}
+
+async function overHourlyLimit(adminClient: SupabaseClient, userId: string): Promise<boolean> {
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { count } = await adminClient
+    .from("email_log")
+    .select("*", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .gte("created_at", hourAgo);
+  return count !== null && count >= MAX_EMAILS_PER_HOUR;
+}
+
+async function logEmail(adminClient: SupabaseClient, delivery: Delivery, status: "sent" | "failed", error: string | null, messageId: string | null) {
+  const { error: logError } = await adminClient.from("email_log").insert({
+    user_id: delivery.userId,
+    document_type: delivery.documentType,
+    document_id: delivery.documentId,
+    recipient: delivery.recipient,
+    subject: delivery.subject,
+    status,
+    error,
+    message_id: messageId,
+  });
+  if (logError) console.error(`Failed to log email for ${delivery.documentType} ${delivery.documentId}:`, logError);
+}
+
+// Sends the email and records the attempt in email_log; true once it has gone out
+async function deliver(adminClient: SupabaseClient, delivery: Delivery): Promise<boolean> {
+  try {
+    const transport = createMailTransport();
+    const result = await transport.send({
+      from: { name: delivery.company?.company_name || "Invoices", address: mailFromAddress() },
+      to: delivery.recipient,
+      replyTo: delivery.company?.email || undefined,
+      subject: delivery.subject,
+      text: delivery.text,
+      attachments: [{
+        filename: delivery.attachment.filename,
+        content: new Uint8Array(await delivery.attachment.pdf.arrayBuffer()),
+        contentType: "application/pdf",
+      }],
+    });
+    await logEmail(adminClient, delivery, "sent", null, result.messageId);
+    return true;
+  } catch (e) {
+    console.error("Failed to send email:", e);
+    await logEmail(adminClient, delivery, "failed", (e instanceof Error ? e.message : String(e)).slice(0, 500), null);
+    return false;
+  }
+}
+
+// Emails a draft invoice raised by a recurring schedule with auto_send to the
+// invoice's customer, on behalf of the schedule's owner. PDFs are made by the
+// app, so the invoice stays a draft until one has been saved for it.
+async function sendGeneratedInvoice(adminClient: SupabaseClient, documentId: unknown): Promise<Response> {
+  if (typeof documentId !== "string") return json({ error: "Invalid document" }, 400);
+
+  const { data: invoice } = await adminClient
+    .from("invoices")
+    .select("id, user_id, status, invoice_number, customer_name, customer_email, total, currency_code, due_date, pdf_path, clients(email)")
+    .eq("id", documentId)
+    .maybeSingle();
+  if (!invoice) return json({ error: "Document not found" }, 404);
+  // Already sent, by hand or by an earlier attempt
+  if (invoice.status !== "draft") return json({ success: true });
+  if (!invoice.pdf_path) return json({ error: "Generate the PDF before emailing it" }, 409);
+
+  const { data: pdf, error: pdfError } = await adminClient.storage.from("documents").download(invoice.pdf_path);
+  if (pdfError || !pdf) return json({ error: "PDF not found" }, 404);
+
+  const { data: company } = await adminClient
+    .from("company_profile")
+    .select("company_name, email")
+    .eq("user_id", invoice.user_id)
+    .maybeSingle();
+
+  const client = invoice.clients as { email: string | null } | null;
+  const amount = `${invoice.currency_code} ${Number(invoice.total).toFixed(2)}`;
+  const due = invoice.due_date
+    ? ` is due on ${new Date(`${invoice.due_date}T00:00:00Z`).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" })}`
+    : "";
+  const delivery: Delivery = {
+    userId: invoice.user_id,
+    documentType: "invoice",
+    documentId: invoice.id,
+    recipient: (invoice.customer_email || client?.email || "").trim(),
+    subject: `Invoice ${invoice.invoice_number}`,
+    text: [
+      `Dear ${invoice.customer_name},`,
+      "",
+      `Invoice ${invoice.invoice_number} for ${amount}${due}.`,
+      "Please find it attached.",
+      "",
+      "Thank you.",
+      company?.company_name || "",
+    ].join("\n").trim(),
+    company,
+    attachment: { filename: pdfFileName(`INVOICE-${invoice.invoice_number}`), pdf },
+  };
+
+  // Nothing can go out, but the owner sees why in the invoice's email log
+  const skipReason = !EMAIL_PATTERN.test(delivery.recipient)
+    ? "No email address for the customer"
+    : await overHourlyLimit(adminClient, delivery.userId)
+      ? "Too many emails sent in the last hour"
+      : null;
+  if (skipReason) {
+    await logEmail(adminClient, delivery, "failed", skipReason, null);
+    return json({ error: skipReason }, 422);
+  }
+
+  if (!(await deliver(adminClient, delivery))) return json({ error: "Email could not be sent" }, 502);
+
+  await adminClient.from("invoices").update({ status: "sent" }).eq("id", invoice.id).eq("status", "draft");
+  return json({ success: true });
+}
+
+// Emails an invoice or bill PDF, already saved to storage by the app, and logs the attempt
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) return json({ error: "Unauthorized" }, 401);
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey);
+
+    // generate-recurring-invoices calls in with the service role key
+    if (authHeader === `Bearer ${serviceRoleKey}`) {
+      const { document_id } = await req.json();
+      return await sendGeneratedInvoice(adminClient, document_id);
+    }
+
+    const userClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) return json({ error: "Unauthorized" }, 401);
+
+    const { document_type, document_id, to, subject, message, file_name } = await req.json();
+
+    const source = documentTables[document_type as keyof typeof documentTables];
+    if (!source || typeof document_id !== "string") return json({ error: "Invalid document" }, 400);
+    const recipient = typeof to === "string" ? to.trim() : "";
+    if (!EMAIL_PATTERN.test(recipient) || recipient.length > 254) return json({ error: "Invalid email address" }, 400);
+    if (typeof subject !== "string" || !subject.trim() || subject.length > 200) return json({ error: "Subject is required (max 200 characters)" }, 400);
+    if (typeof message !== "string" || message.length > 5000) return json({ error: "Message is too long (max 5000 characters)" }, 400);
+
+    if (await overHourlyLimit(adminClient, user.id)) {
+      return json({ error: "Too many emails sent. Try again later." }, 429);
+    }
+
+    // Read through the user's own client so RLS decides what they may send
+    const { data: document } = await userClient
+      .from(source.table)
+      .select(`id, status, pdf_path, ${source.numberColumn}`)
+      .eq("id", document_id)
+      .maybeSingle();
+    if (!document) return json({ error: "Document not found" }, 404);
+    if (!document.pdf_path) return json({ error: "Generate the PDF before emailing it" }, 400);
+
+    const { data: pdf, error: pdfError } = await userClient.storage.from("documents").download(document.pdf_path);
+    if (pdfError || !pdf) return json({ error: "PDF not found" }, 404);
+
+    const { data: company } = await userClient
+      .from("company_profile")
+      .select("company_name, email")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    const number = String((document as Record<string, unknown>)[source.numberColumn]);
+    const sent = await deliver(adminClient, {
+      userId: user.id,
+      documentType: document_type,
+      documentId: document_id,
+      recipient,
+      subject: subject.trim(),
+      text: message,
+      company,
+      attachment: { filename: pdfFileName(String(file_name || number)), pdf },
+    });
+    if (!sent) return json({ error: "Email could not be sent" }, 502);
+
+    // A draft invoice that has gone out to the customer is sent
+    if (document_type === "invoice" && document.status === "draft") {
+      await userClient.from("invoices").update({ status: "sent" }).eq("id", document_id).eq("status", "draft");
+    }
+
+    return json({ success: true });
+  } catch (error) {
+    console.error("Error in send-document:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,180 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createMailTransport, mailFromAddress, MailTransport } from "../_shared/mailTransport.ts";
+import { createWhatsAppTransport, WhatsAppTemplate, WhatsAppTransport } from "../_shared/whatsappTransport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Anything left over is picked up by the next run
+const MAX_REMINDERS_PER_RUN = 200;
+
+type Company = { company_name: string; email: string | null; phone: string | null } | null;
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+type ReminderInvoice = { invoice_number: string; customer_name: string; balance_due: number; currency_code: string };
+
+// e.g. "is due today" or "was due on 3 Nov 2026 and is now 7 days overdue"
+function dueWording(offsetDays: number, dueDate: string): string {
+  return offsetDays < 0
+    ? `is due on ${formatDate(dueDate)}`
+    : offsetDays === 0
+      ? "is due today"
+      : `was due on ${formatDate(dueDate)} and is now ${offsetDays} day${offsetDays === 1 ? "" : "s"} overdue`;
+}
+
+function reminderText(invoice: ReminderInvoice, offsetDays: number, dueDate: string, company: Company): string {
+  const amount = `${invoice.currency_code} ${Number(invoice.balance_due).toFixed(2)}`;
+  const when = dueWording(offsetDays, dueDate);
+  return [
+    `Dear ${invoice.customer_name},`,
+    "",
+    `This is a reminder that invoice ${invoice.invoice_number} for ${amount} ${when}.`,
+    "If you have already paid, please ignore this message.",
+    "",
+    "Thank you.",
+    [company?.company_name, company?.phone].filter(Boolean).join(" · "),
+  ].join("\n").trim();
+}
+
+/**
+ * The approved template named by WHATSAPP_REMINDER_TEMPLATE, in
+ * WHATSAPP_TEMPLATE_LANGUAGE (default en). Its body takes five values, e.g.
+ * "Dear {{1}}, this is a reminder that invoice {{2}} for {{3}} {{4}}. If you
+ * have already paid, please ignore this message. {{5}}"
+ */
+function reminderTemplate(invoice: ReminderInvoice, offsetDays: number, dueDate: string, company: Company): WhatsAppTemplate {
+  const name = Deno.env.get("WHATSAPP_REMINDER_TEMPLATE");
+  if (!name) throw new Error("WHATSAPP_REMINDER_TEMPLATE is not set");
+  return {
+    name,
+    language: Deno.env.get("WHATSAPP_TEMPLATE_LANGUAGE") || "en",
+    parameters: [
+      invoice.customer_name,
+      invoice.invoice_number,
+      `${invoice.currency_code} ${Number(invoice.balance_due).toFixed(2)}`,
+      dueWording(offsetDays, dueDate),
+      [company?.company_name, company?.phone].filter(Boolean).join(" · "),
+    ],
+  };
+}
+
+// Called daily by pg_cron with the service role key
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader !== `Bearer ${serviceRoleKey}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const adminClient = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: dueReminders, error } = await adminClient
+      .rpc("due_payment_reminders")
+      .limit(MAX_REMINDERS_PER_RUN);
+    if (error) throw error;
+
+    // Transports are only set up for the channels in use
+    let mail: MailTransport | null = null;
+    let whatsapp: WhatsAppTransport | null = null;
+    const companies = new Map<string, Company>();
+    const counts = { sent: 0, failed: 0, skipped: 0 };
+
+    for (const reminder of dueReminders || []) {
+      const { data: invoice } = await adminClient
+        .from("invoices")
+        .select("id, invoice_number, customer_name, customer_email, client_id, balance_due, currency_code, pdf_path, clients(email, phone, reminders_opt_out)")
+        .eq("id", reminder.invoice_id)
+        .single();
+      if (!invoice) continue;
+
+      if (!companies.has(reminder.user_id)) {
+        const { data: company } = await adminClient
+          .from("company_profile")
+          .select("company_name, email, phone")
+          .eq("user_id", reminder.user_id)
+          .maybeSingle();
+        companies.set(reminder.user_id, company);
+      }
+      const company = companies.get(reminder.user_id) ?? null;
+      const client = invoice.clients as { email: string | null; phone: string | null; reminders_opt_out: boolean } | null;
+      const recipient = reminder.channel === "whatsapp" ? client?.phone : invoice.customer_email || client?.email;
+
+      let status: "sent" | "failed" | "skipped" = "sent";
+      let reminderError: string | null = null;
+      if (client?.reminders_opt_out) {
+        status = "skipped";
+        reminderError = "Client opted out of reminders";
+      } else if (!recipient) {
+        status = "skipped";
+        reminderError = reminder.channel === "whatsapp" ? "No phone number for the client" : "No email address for the customer";
+      } else {
+        try {
+          if (reminder.channel === "whatsapp") {
+            whatsapp ??= createWhatsAppTransport();
+            // Only counts as sent once the API has accepted the message
+            await whatsapp.sendTemplate(recipient, reminderTemplate(invoice, reminder.offset_days, reminder.due_date, company));
+          } else {
+            const text = reminderText(invoice, reminder.offset_days, reminder.due_date, company);
+            mail ??= createMailTransport();
+            const { data: pdf } = invoice.pdf_path
+              ? await adminClient.storage.from("documents").download(invoice.pdf_path)
+              : { data: null };
+            await mail.send({
+              from: { name: company?.company_name || "Invoices", address: mailFromAddress() },
+              to: recipient,
+              replyTo: company?.email || undefined,
+              subject: `Payment reminder: invoice ${invoice.invoice_number}`,
+              text,
+              attachments: pdf
+                ? [{ filename: `INVOICE-${invoice.invoice_number}.pdf`.replace(/[^\w.-]+/g, "_"), content: new Uint8Array(await pdf.arrayBuffer()), contentType: "application/pdf" }]
+                : [],
+            });
+          }
+        } catch (e) {
+          console.error(`Reminder for invoice ${invoice.id} failed:`, e);
+          status = "failed";
+          reminderError = (e instanceof Error ? e.message : String(e)).slice(0, 500);
+        }
+      }
+
+      // A concurrent run may have recorded the same step already
+      const { error: logError } = await adminClient.from("payment_reminders").upsert({
+        user_id: reminder.user_id,
+        invoice_id: invoice.id,
+        offset_days: reminder.offset_days,
+        due_date: reminder.due_date,
+        channel: reminder.channel,
+        recipient: recipient || null,
+        status,
+        error: reminderError,
+      }, { onConflict: "invoice_id,offset_days", ignoreDuplicates: true });
+      if (logError) console.error(`Failed to record reminder for invoice ${invoice.id}:`, logError);
+      counts[status]++;
+    }
+
+    return new Response(JSON.stringify({ success: true, ...counts }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Send payment reminders error:", error);
+    return new Response(JSON.stringify({ error: "Failed to send payment reminders" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,251 @@
+-- Atomic document creation RPCs
+-- Each function writes the header, its lines and the resulting stock changes
+-- in a single transaction. Stock is adjusted relative to the current row value
+-- so concurrent sales from several devices cannot overwrite each other.
+
+-- Sales invoice: decreases stock (never below zero, matching previous behaviour)
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice_id uuid;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, invoice_number, customer_name, customer_email, client_id,
+    issue_date, due_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_invoice->>'invoice_number',
+    p_invoice->>'customer_name',
+    NULLIF(p_invoice->>'customer_email', ''),
+    NULLIF(p_invoice->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_invoice->>'issue_date', '')::date, CURRENT_DATE),
+    NULLIF(p_invoice->>'due_date', '')::date,
+    COALESCE(NULLIF(p_invoice->>'status', ''), 'draft'),
+    NULLIF(p_invoice->>'notes', ''),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE((p_invoice->>'tax')::numeric, 0),
+    COALESCE((p_invoice->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_invoice_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.invoice_items (invoice_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_invoice_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price);
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = GREATEST(quantity - v_qty, 0)
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+-- Counter sale bill (Quick Bill): decreases stock and fails if any line is short
+CREATE OR REPLACE FUNCTION public.create_sale_bill(p_bill jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_bill_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.bill_items (bill_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price);
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity - v_qty
+      WHERE id = v_product_id AND user_id = v_user_id AND quantity >= v_qty;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', v_item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
+
+-- Purchase bill: increases stock. When p_po_id is given the purchase order
+-- is marked converted in the same transaction.
+CREATE OR REPLACE FUNCTION public.create_purchase_bill(p_bill jsonb, p_items jsonb, p_po_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_po_id IS NOT NULL THEN
+    -- Lock the PO so two devices cannot receive it twice
+    PERFORM 1 FROM public.purchase_orders
+    WHERE id = p_po_id AND user_id = v_user_id AND status = 'pending'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order is no longer pending';
+    END IF;
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_bill_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.bill_items (bill_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price);
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  IF p_po_id IS NOT NULL THEN
+    UPDATE public.purchase_orders SET status = 'converted' WHERE id = p_po_id;
+  END IF;
+
+  RETURN v_bill_id;
+END;
+$$;
+
+-- Purchase order: header and lines only, stock moves when goods are received
+CREATE OR REPLACE FUNCTION public.create_purchase_order(p_po jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po_id uuid;
+  v_item jsonb;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.purchase_orders (
+    user_id, po_number, supplier_name, supplier_email, po_date,
+    expected_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_po->>'po_number',
+    p_po->>'supplier_name',
+    NULLIF(p_po->>'supplier_email', ''),
+    COALESCE(NULLIF(p_po->>'po_date', '')::date, CURRENT_DATE),
+    NULLIF(p_po->>'expected_date', '')::date,
+    'pending',
+    NULLIF(p_po->>'notes', ''),
+    COALESCE((p_po->>'subtotal')::numeric, 0),
+    COALESCE((p_po->>'tax')::numeric, 0),
+    COALESCE((p_po->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_po_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.purchase_order_items (po_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_po_id, NULLIF(v_item->>'product_id', '')::uuid, v_item->>'description', v_qty, v_price, v_qty * v_price);
+  END LOOP;
+
+  RETURN v_po_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_invoice(jsonb, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.create_sale_bill(jsonb, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.create_purchase_bill(jsonb, jsonb, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.create_purchase_order(jsonb, jsonb) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.create_invoice(jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_sale_bill(jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_purchase_bill(jsonb, jsonb, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_purchase_order(jsonb, jsonb) TO authenticated;
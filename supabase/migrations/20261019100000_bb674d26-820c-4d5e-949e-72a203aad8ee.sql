@@ -0,0 +1,567 @@
+-- Stock movement ledger
+-- Every change to products.quantity is recorded by a trigger together with the
+-- document that caused it. RPCs describe the change through transaction-local
+-- settings; anything without that context (edits from the product form) is
+-- logged as a manual edit.
+
+CREATE TABLE public.stock_movements (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity_change integer NOT NULL,
+  balance_after integer NOT NULL,
+  reason text NOT NULL,
+  source_type text,
+  source_id uuid,
+  reference text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+    'opening', 'sale', 'purchase', 'invoice_cancelled', 'invoice_deleted',
+    'bill_cancelled', 'bill_deleted', 'receive_undone', 'manual_edit'
+  )),
+  CONSTRAINT stock_movements_source_type_check CHECK (source_type IN ('invoice', 'bill', 'purchase_order'))
+);
+
+CREATE INDEX idx_stock_movements_product ON public.stock_movements(product_id, created_at DESC);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; rows are only written by the trigger below
+CREATE POLICY "Users can view their own stock movements"
+ON public.stock_movements FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Describe the stock changes made by the rest of the current transaction
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(
+  p_reason text,
+  p_source_type text DEFAULT NULL,
+  p_source_id uuid DEFAULT NULL,
+  p_reference text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM set_config('app.stock_reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config('app.stock_source_type', COALESCE(p_source_type, ''), true);
+  PERFORM set_config('app.stock_source_id', COALESCE(p_source_id::text, ''), true);
+  PERFORM set_config('app.stock_reference', COALESCE(p_reference, ''), true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_change integer;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_change := NEW.quantity;
+  ELSE
+    v_change := NEW.quantity - OLD.quantity;
+  END IF;
+
+  IF v_change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    user_id, product_id, quantity_change, balance_after,
+    reason, source_type, source_id, reference
+  ) VALUES (
+    NEW.user_id,
+    NEW.id,
+    v_change,
+    NEW.quantity,
+    COALESCE(
+      NULLIF(current_setting('app.stock_reason', true), ''),
+      CASE WHEN TG_OP = 'INSERT' THEN 'opening' ELSE 'manual_edit' END
+    ),
+    NULLIF(current_setting('app.stock_source_type', true), ''),
+    NULLIF(current_setting('app.stock_source_id', true), '')::uuid,
+    NULLIF(current_setting('app.stock_reference', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_products_stock_movement
+AFTER INSERT OR UPDATE OF quantity ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.log_stock_movement();
+
+-- Opening balance for existing products so the ledger sums to current stock
+INSERT INTO public.stock_movements (user_id, product_id, quantity_change, balance_after, reason, created_at)
+SELECT user_id, id, quantity, quantity, 'opening', created_at
+FROM public.products
+WHERE quantity <> 0;
+
+-- Document creation RPCs, now tagging their stock changes
+
+-- Sales invoice: decreases stock (never below zero, matching previous behaviour)
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice_id uuid;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, invoice_number, customer_name, customer_email, client_id,
+    issue_date, due_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_invoice->>'invoice_number',
+    p_invoice->>'customer_name',
+    NULLIF(p_invoice->>'customer_email', ''),
+    NULLIF(p_invoice->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_invoice->>'issue_date', '')::date, CURRENT_DATE),
+    NULLIF(p_invoice->>'due_date', '')::date,
+    COALESCE(NULLIF(p_invoice->>'status', ''), 'draft'),
+    NULLIF(p_invoice->>'notes', ''),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE((p_invoice->>'tax')::numeric, 0),
+    COALESCE((p_invoice->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_invoice_id;
+
+  PERFORM public.set_stock_movement_context('sale', 'invoice', v_invoice_id, p_invoice->>'invoice_number');
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.invoice_items (invoice_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_invoice_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price);
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = GREATEST(quantity - v_qty, 0)
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+-- Counter sale bill (Quick Bill): decreases stock and fails if any line is short
+CREATE OR REPLACE FUNCTION public.create_sale_bill(p_bill jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_bill_id;
+
+  PERFORM public.set_stock_movement_context('sale', 'bill', v_bill_id, p_bill->>'bill_number');
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.bill_items (bill_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price);
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity - v_qty
+      WHERE id = v_product_id AND user_id = v_user_id AND quantity >= v_qty;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', v_item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
+
+-- Purchase bill: increases stock. When p_po_id is given the purchase order
+-- is marked converted in the same transaction.
+CREATE OR REPLACE FUNCTION public.create_purchase_bill(p_bill jsonb, p_items jsonb, p_po_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_po_id IS NOT NULL THEN
+    -- Lock the PO so two devices cannot receive it twice
+    PERFORM 1 FROM public.purchase_orders
+    WHERE id = p_po_id AND user_id = v_user_id AND status = 'pending'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order is no longer pending';
+    END IF;
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_bill_id;
+
+  PERFORM public.set_stock_movement_context('purchase', 'bill', v_bill_id, p_bill->>'bill_number');
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.bill_items (bill_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price);
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  IF p_po_id IS NOT NULL THEN
+    UPDATE public.purchase_orders SET status = 'converted' WHERE id = p_po_id;
+  END IF;
+
+  RETURN v_bill_id;
+END;
+$$;
+
+-- Cancel a sales invoice and put its items back into stock
+CREATE OR REPLACE FUNCTION public.cancel_invoice(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice public.invoices%ROWTYPE;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_invoice.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.set_stock_movement_context('invoice_cancelled', 'invoice', v_invoice.id, v_invoice.invoice_number);
+
+  FOR v_item IN
+    SELECT product_id, quantity FROM public.invoice_items
+    WHERE invoice_id = v_invoice.id AND product_id IS NOT NULL
+  LOOP
+    UPDATE public.products
+    SET quantity = quantity + v_item.quantity
+    WHERE id = v_item.product_id AND user_id = v_user_id;
+  END LOOP;
+
+  UPDATE public.invoices SET status = 'cancelled' WHERE id = v_invoice.id;
+END;
+$$;
+
+-- Delete a sales invoice, restoring stock unless it was already cancelled
+CREATE OR REPLACE FUNCTION public.delete_invoice(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice public.invoices%ROWTYPE;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_invoice.status <> 'cancelled' THEN
+    PERFORM public.set_stock_movement_context('invoice_deleted', 'invoice', v_invoice.id, v_invoice.invoice_number);
+
+    FOR v_item IN
+      SELECT product_id, quantity FROM public.invoice_items
+      WHERE invoice_id = v_invoice.id AND product_id IS NOT NULL
+    LOOP
+      UPDATE public.products
+      SET quantity = quantity + v_item.quantity
+      WHERE id = v_item.product_id AND user_id = v_user_id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.invoice_items WHERE invoice_id = v_invoice.id;
+  DELETE FROM public.invoices WHERE id = v_invoice.id;
+END;
+$$;
+
+-- Cancel a bill and reverse its stock: a sale's items go back into stock, a
+-- purchase's come back out. A purchase is a bill that logged 'purchase'
+-- movements when it was created.
+CREATE OR REPLACE FUNCTION public.cancel_bill(p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill public.bills%ROWTYPE;
+  v_purchase boolean;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_bill FROM public.bills
+  WHERE id = p_bill_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF v_bill.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  v_purchase := EXISTS (
+    SELECT 1 FROM public.stock_movements
+    WHERE source_type = 'bill' AND source_id = v_bill.id AND reason = 'purchase'
+  );
+
+  PERFORM public.set_stock_movement_context('bill_cancelled', 'bill', v_bill.id, v_bill.bill_number);
+
+  FOR v_item IN
+    SELECT product_id, quantity FROM public.bill_items
+    WHERE bill_id = v_bill.id AND product_id IS NOT NULL
+  LOOP
+    UPDATE public.products
+    SET quantity = CASE WHEN v_purchase THEN GREATEST(quantity - v_item.quantity, 0) ELSE quantity + v_item.quantity END
+    WHERE id = v_item.product_id AND user_id = v_user_id;
+  END LOOP;
+
+  UPDATE public.bills SET status = 'cancelled' WHERE id = v_bill.id;
+END;
+$$;
+
+-- Delete a bill, reversing its stock as cancel_bill does unless it was
+-- already cancelled
+CREATE OR REPLACE FUNCTION public.delete_bill(p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill public.bills%ROWTYPE;
+  v_purchase boolean;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_bill FROM public.bills
+  WHERE id = p_bill_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF v_bill.status <> 'cancelled' THEN
+    v_purchase := EXISTS (
+      SELECT 1 FROM public.stock_movements
+      WHERE source_type = 'bill' AND source_id = v_bill.id AND reason = 'purchase'
+    );
+
+    PERFORM public.set_stock_movement_context('bill_deleted', 'bill', v_bill.id, v_bill.bill_number);
+
+    FOR v_item IN
+      SELECT product_id, quantity FROM public.bill_items
+      WHERE bill_id = v_bill.id AND product_id IS NOT NULL
+    LOOP
+      UPDATE public.products
+      SET quantity = CASE WHEN v_purchase THEN GREATEST(quantity - v_item.quantity, 0) ELSE quantity + v_item.quantity END
+      WHERE id = v_item.product_id AND user_id = v_user_id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.bill_items WHERE bill_id = v_bill.id;
+  DELETE FROM public.bills WHERE id = v_bill.id;
+END;
+$$;
+
+-- Undo a Quick Purchase receive: take the goods back out of stock, drop the
+-- generated bill and return the purchase order to pending
+CREATE OR REPLACE FUNCTION public.undo_purchase_receive(p_po_id uuid, p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_po FROM public.purchase_orders
+  WHERE id = p_po_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('receive_undone', 'purchase_order', v_po.id, v_po.po_number);
+
+  FOR v_item IN
+    SELECT product_id, quantity FROM public.bill_items
+    WHERE bill_id = p_bill_id AND product_id IS NOT NULL
+  LOOP
+    UPDATE public.products
+    SET quantity = GREATEST(quantity - v_item.quantity, 0)
+    WHERE id = v_item.product_id AND user_id = v_user_id;
+  END LOOP;
+
+  DELETE FROM public.bill_items
+  WHERE bill_id IN (SELECT id FROM public.bills WHERE id = p_bill_id AND user_id = v_user_id);
+  DELETE FROM public.bills WHERE id = p_bill_id AND user_id = v_user_id;
+
+  UPDATE public.purchase_orders SET status = 'pending' WHERE id = v_po.id;
+END;
+$$;
+
+-- Reconciliation: products whose quantity differs from the sum of their movements
+CREATE OR REPLACE FUNCTION public.get_stock_discrepancies()
+RETURNS TABLE (
+  product_id uuid,
+  product_name text,
+  quantity integer,
+  ledger_quantity integer,
+  difference integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT
+    p.id,
+    p.name,
+    p.quantity,
+    COALESCE(SUM(m.quantity_change), 0)::integer,
+    (p.quantity - COALESCE(SUM(m.quantity_change), 0))::integer
+  FROM public.products p
+  LEFT JOIN public.stock_movements m ON m.product_id = p.id
+  WHERE p.user_id = auth.uid()
+  GROUP BY p.id, p.name, p.quantity
+  HAVING p.quantity <> COALESCE(SUM(m.quantity_change), 0)
+  ORDER BY p.name;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_stock_movement_context(text, text, uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.cancel_invoice(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.delete_invoice(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.cancel_bill(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.delete_bill(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.undo_purchase_receive(uuid, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_stock_discrepancies() FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.set_stock_movement_context(text, text, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_invoice(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_invoice(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_bill(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_bill(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.undo_purchase_receive(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_stock_discrepancies() TO authenticated;
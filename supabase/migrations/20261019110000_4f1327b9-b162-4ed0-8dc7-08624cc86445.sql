@@ -0,0 +1,201 @@
+-- Document numbering sequences
+-- One counter per user and document type. Numbers are assigned by a BEFORE
+-- INSERT trigger inside the transaction that creates the document, so a failed
+-- insert rolls the counter back and numbers stay unique and gapless.
+--
+-- Format tokens: {PREFIX}, {FY} (financial year, April-March, e.g. 2026-27),
+-- {YYYY}, {MM} and {SEQ} (the counter, zero-padded to `padding` digits).
+
+CREATE TABLE public.document_sequences (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  document_type text NOT NULL,
+  prefix text NOT NULL DEFAULT '',
+  format text NOT NULL DEFAULT '{PREFIX}{SEQ}',
+  padding integer NOT NULL DEFAULT 4,
+  reset_yearly boolean NOT NULL DEFAULT false,
+  last_number integer NOT NULL DEFAULT 0,
+  current_period text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT document_sequences_user_type_key UNIQUE (user_id, document_type),
+  CONSTRAINT document_sequences_padding_check CHECK (padding BETWEEN 1 AND 10),
+  CONSTRAINT document_sequences_format_check CHECK (position('{SEQ}' IN format) > 0),
+  -- A counter that restarts each year needs the year in the number to stay unique
+  CONSTRAINT document_sequences_reset_check CHECK (NOT reset_yearly OR position('{FY}' IN format) > 0)
+);
+
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document sequences"
+ON public.document_sequences FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document sequences"
+ON public.document_sequences FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own document sequences"
+ON public.document_sequences FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_document_sequences_updated_at
+BEFORE UPDATE ON public.document_sequences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Financial year label for a date, e.g. 2026-27 for any date from April 2026 to March 2027
+CREATE OR REPLACE FUNCTION public.financial_year_label(p_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $$
+  SELECT (y)::text || '-' || right((y + 1)::text, 2)
+  FROM (
+    SELECT EXTRACT(YEAR FROM p_date)::integer - CASE WHEN EXTRACT(MONTH FROM p_date) < 4 THEN 1 ELSE 0 END AS y
+  ) fy;
+$$;
+
+CREATE OR REPLACE FUNCTION public.format_document_number(
+  p_format text,
+  p_prefix text,
+  p_padding integer,
+  p_number integer,
+  p_date date
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $$
+  SELECT replace(replace(replace(replace(replace(p_format,
+    '{PREFIX}', COALESCE(p_prefix, '')),
+    '{FY}', public.financial_year_label(p_date)),
+    '{YYYY}', to_char(p_date, 'YYYY')),
+    '{MM}', to_char(p_date, 'MM')),
+    -- lpad would truncate numbers longer than the padding
+    '{SEQ}', CASE WHEN length(p_number::text) >= p_padding THEN p_number::text ELSE lpad(p_number::text, p_padding, '0') END);
+$$;
+
+-- Prefix used when a sequence is first created, taken from the older settings columns
+CREATE OR REPLACE FUNCTION public.default_document_prefix(p_user_id uuid, p_document_type text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN COALESCE((SELECT invoice_prefix FROM public.user_settings WHERE user_id = p_user_id), 'INV-')
+    WHEN 'bill' THEN COALESCE((SELECT bill_prefix FROM public.user_settings WHERE user_id = p_user_id), 'BILL-')
+    WHEN 'purchase_order' THEN 'PO-'
+    ELSE upper(p_document_type) || '-'
+  END;
+$$;
+
+-- Take the next number of a sequence. Must run in the same transaction as the
+-- insert that uses it; the row lock serialises concurrent documents.
+CREATE OR REPLACE FUNCTION public.allocate_document_number(p_user_id uuid, p_document_type text, p_date date)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_seq public.document_sequences%ROWTYPE;
+  v_period text := public.financial_year_label(p_date);
+BEGIN
+  INSERT INTO public.document_sequences (user_id, document_type, prefix, current_period)
+  VALUES (p_user_id, p_document_type, public.default_document_prefix(p_user_id, p_document_type), v_period)
+  ON CONFLICT (user_id, document_type) DO NOTHING;
+
+  SELECT * INTO v_seq FROM public.document_sequences
+  WHERE user_id = p_user_id AND document_type = p_document_type
+  FOR UPDATE;
+
+  -- Only move forward: a back-dated document must not restart an earlier year
+  IF v_seq.reset_yearly AND (v_seq.current_period IS NULL OR v_period > v_seq.current_period) THEN
+    v_seq.last_number := 0;
+    v_seq.current_period := v_period;
+  END IF;
+
+  v_seq.last_number := v_seq.last_number + 1;
+
+  UPDATE public.document_sequences
+  SET last_number = v_seq.last_number,
+      current_period = COALESCE(v_seq.current_period, v_period)
+  WHERE id = v_seq.id;
+
+  RETURN public.format_document_number(v_seq.format, v_seq.prefix, v_seq.padding, v_seq.last_number, p_date);
+END;
+$$;
+
+-- Trigger: assign a number when the insert leaves it empty.
+-- Arguments: document type, number column, date column.
+CREATE OR REPLACE FUNCTION public.assign_document_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_row jsonb := to_jsonb(NEW);
+  v_number text;
+BEGIN
+  IF COALESCE(v_row->>TG_ARGV[1], '') <> '' THEN
+    RETURN NEW;
+  END IF;
+
+  v_number := public.allocate_document_number(
+    NEW.user_id,
+    TG_ARGV[0],
+    COALESCE(NULLIF(v_row->>TG_ARGV[2], '')::date, CURRENT_DATE)
+  );
+
+  NEW := jsonb_populate_record(NEW, jsonb_build_object(TG_ARGV[1], v_number));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_invoice_number
+BEFORE INSERT ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_document_number('invoice', 'invoice_number', 'issue_date');
+
+CREATE TRIGGER assign_bill_number
+BEFORE INSERT ON public.bills
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_document_number('bill', 'bill_number', 'bill_date');
+
+CREATE TRIGGER assign_po_number
+BEFORE INSERT ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_document_number('purchase_order', 'po_number', 'po_date');
+
+-- Continue existing numbering: start each counter after the highest numeric
+-- suffix already used. Timestamp-style numbers (INV-1712345678901) are ignored.
+INSERT INTO public.document_sequences (user_id, document_type, prefix, last_number, current_period)
+SELECT user_id, 'invoice', public.default_document_prefix(user_id, 'invoice'),
+  COALESCE(MAX(substring(invoice_number FROM '(\d{1,9})$')::integer) FILTER (WHERE invoice_number !~ '\d{10,}$'), 0),
+  public.financial_year_label(CURRENT_DATE)
+FROM public.invoices
+GROUP BY user_id;
+
+INSERT INTO public.document_sequences (user_id, document_type, prefix, last_number, current_period)
+SELECT user_id, 'bill', public.default_document_prefix(user_id, 'bill'),
+  COALESCE(MAX(substring(bill_number FROM '(\d{1,9})$')::integer) FILTER (WHERE bill_number !~ '\d{10,}$'), 0),
+  public.financial_year_label(CURRENT_DATE)
+FROM public.bills
+GROUP BY user_id;
+
+INSERT INTO public.document_sequences (user_id, document_type, prefix, last_number, current_period)
+SELECT user_id, 'purchase_order', 'PO-',
+  COALESCE(MAX(substring(po_number FROM '(\d{1,9})$')::integer) FILTER (WHERE po_number !~ '\d{10,}$'), 0),
+  public.financial_year_label(CURRENT_DATE)
+FROM public.purchase_orders
+GROUP BY user_id;
+
+-- Numbers are only handed out by the insert trigger
+REVOKE ALL ON FUNCTION public.allocate_document_number(uuid, text, date) FROM PUBLIC, anon, authenticated;
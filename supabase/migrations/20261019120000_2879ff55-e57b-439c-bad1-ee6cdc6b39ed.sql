@@ -0,0 +1,139 @@
+-- Payments received against invoices
+-- invoices.amount_paid is kept equal to the sum of the invoice's payments by a
+-- trigger, which also moves the status between sent, partially_paid and paid.
+
+CREATE TABLE public.payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  amount numeric NOT NULL,
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  mode text NOT NULL DEFAULT 'cash',
+  reference text,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT payments_amount_check CHECK (amount > 0),
+  CONSTRAINT payments_mode_check CHECK (mode IN ('cash', 'upi', 'card', 'bank_transfer', 'cheque', 'other'))
+);
+
+CREATE INDEX idx_payments_invoice ON public.payments(invoice_id);
+CREATE INDEX idx_payments_user_date ON public.payments(user_id, payment_date);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payments"
+ON public.payments FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own payments"
+ON public.payments FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own payments"
+ON public.payments FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own payments"
+ON public.payments FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.invoices
+  ADD COLUMN amount_paid numeric NOT NULL DEFAULT 0,
+  ADD COLUMN balance_due numeric GENERATED ALWAYS AS (total - amount_paid) STORED;
+
+-- Recalculate amount_paid and the payment status of one invoice
+CREATE OR REPLACE FUNCTION public.refresh_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_paid numeric;
+  v_status text;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM public.payments WHERE invoice_id = p_invoice_id;
+
+  IF v_paid > v_invoice.total THEN
+    RAISE EXCEPTION 'Payment exceeds the balance due on %', v_invoice.invoice_number;
+  END IF;
+
+  v_status := v_invoice.status;
+  IF v_invoice.status <> 'cancelled' THEN
+    IF v_paid > 0 AND v_paid >= v_invoice.total THEN
+      v_status := 'paid';
+    ELSIF v_paid > 0 THEN
+      v_status := 'partially_paid';
+    ELSIF v_invoice.status IN ('paid', 'partially_paid') THEN
+      v_status := 'sent';
+    END IF;
+  END IF;
+
+  UPDATE public.invoices
+  SET amount_paid = v_paid, status = v_status
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_invoice_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_invoice_payment_status(OLD.invoice_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.invoice_id <> OLD.invoice_id OR NEW.amount <> OLD.amount) THEN
+    PERFORM public.refresh_invoice_payment_status(NEW.invoice_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_payments
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_invoice_payments();
+
+-- An invoice saved as paid is settled in full on its issue date
+CREATE OR REPLACE FUNCTION public.record_payment_for_paid_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND NEW.total > 0 THEN
+    INSERT INTO public.payments (user_id, invoice_id, amount, payment_date, mode)
+    VALUES (NEW.user_id, NEW.id, NEW.total, NEW.issue_date, 'other');
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_payment_for_paid_invoice
+AFTER INSERT ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.record_payment_for_paid_invoice();
+
+-- Invoices already marked paid get one payment for their full total
+INSERT INTO public.payments (user_id, invoice_id, amount, payment_date, mode, notes)
+SELECT user_id, id, total, COALESCE(updated_at::date, issue_date), 'other', 'Recorded before payment tracking'
+FROM public.invoices
+WHERE status = 'paid' AND total > 0;
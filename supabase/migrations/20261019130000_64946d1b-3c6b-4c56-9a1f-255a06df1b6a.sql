@@ -0,0 +1,364 @@
+-- Credit notes for goods returned against an invoice or a bill
+-- A credit note puts the returned quantity back into stock. On an invoice, the
+-- part of the credit that is not refunded is applied to the balance due.
+
+CREATE TABLE public.credit_notes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  credit_note_number text NOT NULL DEFAULT '',
+  invoice_id uuid REFERENCES public.invoices(id),
+  bill_id uuid REFERENCES public.bills(id),
+  client_id uuid REFERENCES public.clients(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  credit_date date NOT NULL DEFAULT CURRENT_DATE,
+  reason text,
+  subtotal numeric NOT NULL DEFAULT 0,
+  tax numeric NOT NULL DEFAULT 0,
+  total numeric NOT NULL DEFAULT 0,
+  refund_amount numeric NOT NULL DEFAULT 0,
+  refund_mode text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT credit_notes_source_check CHECK ((invoice_id IS NULL) <> (bill_id IS NULL)),
+  CONSTRAINT credit_notes_refund_check CHECK (refund_amount >= 0 AND refund_amount <= total),
+  CONSTRAINT credit_notes_refund_mode_check CHECK (refund_mode IN ('cash', 'upi', 'card', 'bank_transfer', 'cheque', 'other'))
+);
+
+CREATE TABLE public.credit_note_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_note_id uuid NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  invoice_item_id uuid REFERENCES public.invoice_items(id) ON DELETE SET NULL,
+  bill_item_id uuid REFERENCES public.bill_items(id) ON DELETE SET NULL,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  quantity integer NOT NULL,
+  unit_price numeric NOT NULL,
+  amount numeric NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT credit_note_items_quantity_check CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_credit_notes_user_date ON public.credit_notes(user_id, credit_date);
+CREATE INDEX idx_credit_notes_invoice ON public.credit_notes(invoice_id);
+CREATE INDEX idx_credit_notes_bill ON public.credit_notes(bill_id);
+CREATE INDEX idx_credit_note_items_credit_note ON public.credit_note_items(credit_note_id);
+
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+-- Credit notes are issued through create_credit_note and never edited, to keep
+-- the stock ledger and the numbering consistent
+CREATE POLICY "Users can view their own credit notes"
+ON public.credit_notes FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own credit note items"
+ON public.credit_note_items FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.credit_notes
+  WHERE credit_notes.id = credit_note_items.credit_note_id
+  AND credit_notes.user_id = auth.uid()
+));
+
+CREATE TRIGGER update_credit_notes_updated_at
+BEFORE UPDATE ON public.credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.default_document_prefix(p_user_id uuid, p_document_type text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN COALESCE((SELECT invoice_prefix FROM public.user_settings WHERE user_id = p_user_id), 'INV-')
+    WHEN 'bill' THEN COALESCE((SELECT bill_prefix FROM public.user_settings WHERE user_id = p_user_id), 'BILL-')
+    WHEN 'purchase_order' THEN 'PO-'
+    WHEN 'credit_note' THEN 'CN-'
+    ELSE upper(p_document_type) || '-'
+  END;
+$$;
+
+CREATE TRIGGER assign_credit_note_number
+BEFORE INSERT ON public.credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_document_number('credit_note', 'credit_note_number', 'credit_date');
+
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_reason_check,
+  DROP CONSTRAINT stock_movements_source_type_check;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+    'opening', 'sale', 'purchase', 'invoice_cancelled', 'invoice_deleted',
+    'bill_cancelled', 'bill_deleted', 'receive_undone', 'manual_edit', 'sales_return'
+  )),
+  ADD CONSTRAINT stock_movements_source_type_check CHECK (source_type IN ('invoice', 'bill', 'purchase_order', 'credit_note'));
+
+-- Credits reduce what the customer owes just like payments do
+ALTER TABLE public.invoices DROP COLUMN balance_due;
+
+ALTER TABLE public.invoices
+  ADD COLUMN amount_credited numeric NOT NULL DEFAULT 0,
+  ADD COLUMN balance_due numeric GENERATED ALWAYS AS (total - amount_paid - amount_credited) STORED;
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_paid numeric;
+  v_credited numeric;
+  v_status text;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM public.payments WHERE invoice_id = p_invoice_id;
+
+  -- Only the unrefunded part of a credit note is applied to the invoice
+  SELECT COALESCE(SUM(total - refund_amount), 0) INTO v_credited
+  FROM public.credit_notes WHERE invoice_id = p_invoice_id;
+
+  IF v_paid + v_credited > v_invoice.total THEN
+    RAISE EXCEPTION 'Payment exceeds the balance due on %', v_invoice.invoice_number;
+  END IF;
+
+  v_status := v_invoice.status;
+  IF v_invoice.status <> 'cancelled' THEN
+    IF v_paid > 0 AND v_paid + v_credited >= v_invoice.total THEN
+      v_status := 'paid';
+    ELSIF v_paid > 0 THEN
+      v_status := 'partially_paid';
+    ELSIF v_invoice.status IN ('paid', 'partially_paid') THEN
+      v_status := 'sent';
+    END IF;
+  END IF;
+
+  UPDATE public.invoices
+  SET amount_paid = v_paid, amount_credited = v_credited, status = v_status
+  WHERE id = p_invoice_id;
+END;
+$$;
+
+-- Returned goods are already back in stock, so a credited document can no
+-- longer be cancelled or deleted without counting them twice
+CREATE OR REPLACE FUNCTION public.prevent_credited_document_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (NEW.status <> 'cancelled' OR OLD.status = 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.credit_notes
+    WHERE (TG_TABLE_NAME = 'invoices' AND invoice_id = OLD.id)
+       OR (TG_TABLE_NAME = 'bills' AND bill_id = OLD.id)
+  ) THEN
+    RAISE EXCEPTION 'This document has credit notes and cannot be %', CASE TG_OP WHEN 'DELETE' THEN 'deleted' ELSE 'cancelled' END;
+  END IF;
+
+  RETURN CASE TG_OP WHEN 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER prevent_credited_invoice_change
+BEFORE UPDATE OF status OR DELETE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_credited_document_change();
+
+CREATE TRIGGER prevent_credited_bill_change
+BEFORE UPDATE OF status OR DELETE ON public.bills
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_credited_document_change();
+
+-- Issue a credit note against an invoice or a bill.
+-- p_credit_note: invoice_id or bill_id, credit_date, reason, refund_amount, refund_mode
+-- p_items: [{ "source_item_id": <invoice_items.id or bill_items.id>, "quantity": n }]
+-- Lines are priced as on the original document, with its tax in proportion.
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_credit_note jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice public.invoices%ROWTYPE;
+  v_bill public.bills%ROWTYPE;
+  v_credit_note_id uuid;
+  v_credit_note_number text;
+  v_item jsonb;
+  v_source record;
+  v_returned integer;
+  v_quantity integer;
+  v_tax_rate numeric;
+  v_subtotal numeric := 0;
+  v_tax numeric;
+  v_total numeric;
+  v_refund numeric := COALESCE((p_credit_note->>'refund_amount')::numeric, 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  IF p_credit_note->>'invoice_id' IS NOT NULL THEN
+    SELECT * INTO v_invoice FROM public.invoices
+    WHERE id = (p_credit_note->>'invoice_id')::uuid AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice not found';
+    END IF;
+    IF v_invoice.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Invoice % is cancelled', v_invoice.invoice_number;
+    END IF;
+
+    v_tax_rate := CASE WHEN v_invoice.subtotal > 0 THEN v_invoice.tax / v_invoice.subtotal ELSE 0 END;
+
+    INSERT INTO public.credit_notes (user_id, invoice_id, client_id, customer_name, credit_date, reason, refund_mode)
+    VALUES (
+      v_user_id,
+      v_invoice.id,
+      v_invoice.client_id,
+      v_invoice.customer_name,
+      COALESCE((p_credit_note->>'credit_date')::date, CURRENT_DATE),
+      p_credit_note->>'reason',
+      p_credit_note->>'refund_mode'
+    )
+    RETURNING id, credit_note_number INTO v_credit_note_id, v_credit_note_number;
+  ELSE
+    SELECT * INTO v_bill FROM public.bills
+    WHERE id = (p_credit_note->>'bill_id')::uuid AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Bill not found';
+    END IF;
+    IF v_bill.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Bill % is cancelled', v_bill.bill_number;
+    END IF;
+
+    v_tax_rate := CASE WHEN v_bill.subtotal > 0 THEN v_bill.tax / v_bill.subtotal ELSE 0 END;
+
+    INSERT INTO public.credit_notes (user_id, bill_id, client_id, customer_name, credit_date, reason, refund_mode)
+    VALUES (
+      v_user_id,
+      v_bill.id,
+      v_bill.client_id,
+      v_bill.customer_name,
+      COALESCE((p_credit_note->>'credit_date')::date, CURRENT_DATE),
+      p_credit_note->>'reason',
+      p_credit_note->>'refund_mode'
+    )
+    RETURNING id, credit_note_number INTO v_credit_note_id, v_credit_note_number;
+  END IF;
+
+  PERFORM public.set_stock_movement_context('sales_return', 'credit_note', v_credit_note_id, v_credit_note_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    IF v_invoice.id IS NOT NULL THEN
+      SELECT id, product_id, description, quantity, unit_price INTO v_source
+      FROM public.invoice_items
+      WHERE id = (v_item->>'source_item_id')::uuid AND invoice_id = v_invoice.id;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+      FROM public.credit_note_items WHERE invoice_item_id = v_source.id;
+    ELSE
+      SELECT id, product_id, description, quantity, unit_price INTO v_source
+      FROM public.bill_items
+      WHERE id = (v_item->>'source_item_id')::uuid AND bill_id = v_bill.id;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+      FROM public.credit_note_items WHERE bill_item_id = v_source.id;
+    END IF;
+
+    IF v_source.id IS NULL THEN
+      RAISE EXCEPTION 'Item does not belong to this document';
+    END IF;
+
+    IF v_quantity > v_source.quantity - v_returned THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', v_source.quantity - v_returned, v_source.description;
+    END IF;
+
+    INSERT INTO public.credit_note_items (credit_note_id, invoice_item_id, bill_item_id, product_id, description, quantity, unit_price, amount)
+    VALUES (
+      v_credit_note_id,
+      CASE WHEN v_invoice.id IS NOT NULL THEN v_source.id END,
+      CASE WHEN v_bill.id IS NOT NULL THEN v_source.id END,
+      v_source.product_id,
+      v_source.description,
+      v_quantity,
+      v_source.unit_price,
+      round(v_quantity * v_source.unit_price, 2)
+    );
+
+    v_subtotal := v_subtotal + round(v_quantity * v_source.unit_price, 2);
+
+    IF v_source.product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_quantity
+      WHERE id = v_source.product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  IF v_subtotal = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  v_tax := round(v_subtotal * v_tax_rate, 2);
+  v_total := v_subtotal + v_tax;
+
+  IF v_invoice.id IS NOT NULL THEN
+    -- Whatever cannot be taken off the balance due has to be paid back
+    IF v_refund < v_total - v_invoice.balance_due THEN
+      RAISE EXCEPTION 'Refund at least % — only % is still due on %',
+        round(v_total - v_invoice.balance_due, 2), v_invoice.balance_due, v_invoice.invoice_number;
+    END IF;
+  ELSE
+    -- Bills are settled at the counter, so a return is always refunded
+    v_refund := v_total;
+  END IF;
+
+  IF v_refund > v_total THEN
+    RAISE EXCEPTION 'Refund cannot be more than the credit note total';
+  END IF;
+
+  UPDATE public.credit_notes
+  SET subtotal = v_subtotal,
+      tax = v_tax,
+      total = v_total,
+      refund_amount = v_refund,
+      refund_mode = CASE WHEN v_refund > 0 THEN COALESCE(refund_mode, 'cash') END
+  WHERE id = v_credit_note_id;
+
+  IF v_invoice.id IS NOT NULL THEN
+    PERFORM public.refresh_invoice_payment_status(v_invoice.id);
+  END IF;
+
+  RETURN v_credit_note_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_credit_note(jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_credit_note(jsonb, jsonb) TO authenticated;
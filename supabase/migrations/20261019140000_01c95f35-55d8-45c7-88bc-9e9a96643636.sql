@@ -0,0 +1,271 @@
+-- Partial receiving of purchase orders
+-- Each delivery creates its own goods-receipt bill for the quantities actually
+-- received. A PO is partially_received until every line is received in full.
+-- Statuses: pending, partially_received, received, cancelled ('converted' is
+-- replaced by 'received').
+
+ALTER TABLE public.purchase_order_items
+  ADD COLUMN received_quantity integer NOT NULL DEFAULT 0,
+  ADD CONSTRAINT purchase_order_items_received_check CHECK (received_quantity >= 0 AND received_quantity <= quantity);
+
+ALTER TABLE public.bills
+  ADD COLUMN po_id uuid REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+
+ALTER TABLE public.bill_items
+  ADD COLUMN po_item_id uuid REFERENCES public.purchase_order_items(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_bills_po ON public.bills(po_id);
+
+UPDATE public.purchase_orders SET status = 'received' WHERE status = 'converted';
+
+UPDATE public.purchase_order_items
+SET received_quantity = quantity
+WHERE po_id IN (SELECT id FROM public.purchase_orders WHERE status = 'received');
+
+-- Status of a PO from what has been received against its lines
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_status(p_po_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_ordered integer;
+  v_received integer;
+BEGIN
+  SELECT COALESCE(SUM(quantity), 0), COALESCE(SUM(received_quantity), 0)
+  INTO v_ordered, v_received
+  FROM public.purchase_order_items
+  WHERE po_id = p_po_id;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN v_received = 0 THEN 'pending'
+    WHEN v_received >= v_ordered THEN 'received'
+    ELSE 'partially_received'
+  END
+  WHERE id = p_po_id AND status <> 'cancelled';
+END;
+$$;
+
+-- Receive one delivery against a PO.
+-- p_lines: [{ "po_item_id": uuid, "quantity": n }], quantities received now
+-- Returns the id of the goods-receipt bill.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_po_id uuid, p_lines jsonb, p_bill_date date DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_bill_id uuid;
+  v_bill_number text;
+  v_line jsonb;
+  v_item public.purchase_order_items%ROWTYPE;
+  v_qty integer;
+  v_subtotal numeric := 0;
+  v_tax numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the PO so two devices cannot receive the same quantities
+  SELECT * INTO v_po FROM public.purchase_orders
+  WHERE id = p_po_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_po.status NOT IN ('pending', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is %', v_po.po_number, replace(v_po.status, '_', ' ');
+  END IF;
+
+  INSERT INTO public.bills (user_id, customer_name, customer_email, bill_date, status, notes, po_id)
+  VALUES (
+    v_user_id,
+    v_po.supplier_name,
+    v_po.supplier_email,
+    COALESCE(p_bill_date, CURRENT_DATE),
+    'active',
+    'Received against ' || v_po.po_number,
+    v_po.id
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('purchase', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    v_qty := (v_line->>'quantity')::integer;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item FROM public.purchase_order_items
+    WHERE id = (v_line->>'po_item_id')::uuid AND po_id = v_po.id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item does not belong to %', v_po.po_number;
+    END IF;
+
+    IF v_qty > v_item.quantity - v_item.received_quantity THEN
+      RAISE EXCEPTION 'Only % of % is still outstanding', v_item.quantity - v_item.received_quantity, v_item.description;
+    END IF;
+
+    INSERT INTO public.bill_items (bill_id, product_id, po_item_id, description, quantity, unit_price, amount)
+    VALUES (v_bill_id, v_item.product_id, v_item.id, v_item.description, v_qty, v_item.unit_price, v_qty * v_item.unit_price);
+
+    UPDATE public.purchase_order_items
+    SET received_quantity = received_quantity + v_qty
+    WHERE id = v_item.id;
+
+    IF v_item.product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_item.product_id AND user_id = v_user_id;
+    END IF;
+
+    v_subtotal := v_subtotal + v_qty * v_item.unit_price;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.bill_items WHERE bill_id = v_bill_id) THEN
+    RAISE EXCEPTION 'Enter the quantity received for at least one item';
+  END IF;
+
+  -- Tax in the same proportion as on the PO
+  v_tax := CASE WHEN v_po.subtotal > 0 THEN round(v_subtotal * v_po.tax / v_po.subtotal, 2) ELSE 0 END;
+
+  UPDATE public.bills
+  SET subtotal = v_subtotal, tax = v_tax, total = v_subtotal + v_tax
+  WHERE id = v_bill_id;
+
+  PERFORM public.refresh_purchase_order_status(v_po.id);
+
+  RETURN v_bill_id;
+END;
+$$;
+
+-- Receiving a whole PO in one go is a single delivery of everything outstanding
+CREATE OR REPLACE FUNCTION public.create_purchase_bill(p_bill jsonb, p_items jsonb, p_po_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_po_id IS NOT NULL THEN
+    RETURN public.receive_purchase_order(
+      p_po_id,
+      (SELECT jsonb_agg(jsonb_build_object('po_item_id', id, 'quantity', quantity - received_quantity))
+       FROM public.purchase_order_items WHERE po_id = p_po_id),
+      NULLIF(p_bill->>'bill_date', '')::date
+    );
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('purchase', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.bill_items (bill_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price);
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
+
+-- Undo one delivery: take its quantities back out of stock and off the PO lines
+CREATE OR REPLACE FUNCTION public.undo_purchase_receive(p_po_id uuid, p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_po FROM public.purchase_orders
+  WHERE id = p_po_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  PERFORM public.set_stock_movement_context('receive_undone', 'purchase_order', v_po.id, v_po.po_number);
+
+  FOR v_item IN
+    SELECT bi.product_id, bi.po_item_id, bi.quantity
+    FROM public.bill_items bi
+    JOIN public.bills b ON b.id = bi.bill_id
+    WHERE b.id = p_bill_id AND b.user_id = v_user_id AND b.po_id = v_po.id
+  LOOP
+    IF v_item.product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = GREATEST(quantity - v_item.quantity, 0)
+      WHERE id = v_item.product_id AND user_id = v_user_id;
+    END IF;
+
+    UPDATE public.purchase_order_items
+    SET received_quantity = GREATEST(received_quantity - v_item.quantity, 0)
+    WHERE id = v_item.po_item_id;
+  END LOOP;
+
+  DELETE FROM public.bill_items
+  WHERE bill_id IN (SELECT id FROM public.bills WHERE id = p_bill_id AND user_id = v_user_id AND po_id = v_po.id);
+  DELETE FROM public.bills WHERE id = p_bill_id AND user_id = v_user_id AND po_id = v_po.id;
+
+  PERFORM public.refresh_purchase_order_status(v_po.id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.receive_purchase_order(uuid, jsonb, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(uuid, jsonb, date) TO authenticated;
@@ -0,0 +1,252 @@
+-- GST: HSN/SAC codes and tax rates on products, tax worked out per line and
+-- split into CGST + SGST (intra-state) or IGST (inter-state) by place of supply.
+-- A null product tax_rate means the default rate from settings applies.
+
+ALTER TABLE public.products
+  ADD COLUMN hsn_code text,
+  ADD COLUMN tax_rate numeric,
+  ADD CONSTRAINT products_tax_rate_check CHECK (tax_rate IS NULL OR (tax_rate >= 0 AND tax_rate <= 100));
+
+-- Two-digit GST state code
+ALTER TABLE public.clients
+  ADD COLUMN state_code text;
+
+ALTER TABLE public.invoices
+  ADD COLUMN place_of_supply text;
+
+ALTER TABLE public.bills
+  ADD COLUMN place_of_supply text;
+
+ALTER TABLE public.invoice_items
+  ADD COLUMN hsn_code text,
+  ADD COLUMN tax_rate numeric NOT NULL DEFAULT 0,
+  ADD COLUMN cgst numeric NOT NULL DEFAULT 0,
+  ADD COLUMN sgst numeric NOT NULL DEFAULT 0,
+  ADD COLUMN igst numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE public.bill_items
+  ADD COLUMN hsn_code text,
+  ADD COLUMN tax_rate numeric NOT NULL DEFAULT 0,
+  ADD COLUMN cgst numeric NOT NULL DEFAULT 0,
+  ADD COLUMN sgst numeric NOT NULL DEFAULT 0,
+  ADD COLUMN igst numeric NOT NULL DEFAULT 0;
+
+-- Document creation RPCs, now storing line tax components
+
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice_id uuid;
+  v_invoice_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, invoice_number, customer_name, customer_email, client_id,
+    issue_date, due_date, status, notes, place_of_supply, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_invoice->>'invoice_number',
+    p_invoice->>'customer_name',
+    NULLIF(p_invoice->>'customer_email', ''),
+    NULLIF(p_invoice->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_invoice->>'issue_date', '')::date, CURRENT_DATE),
+    NULLIF(p_invoice->>'due_date', '')::date,
+    COALESCE(NULLIF(p_invoice->>'status', ''), 'draft'),
+    NULLIF(p_invoice->>'notes', ''),
+    NULLIF(p_invoice->>'place_of_supply', ''),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE((p_invoice->>'tax')::numeric, 0),
+    COALESCE((p_invoice->>'total')::numeric, 0)
+  )
+  RETURNING id, invoice_number INTO v_invoice_id, v_invoice_number;
+
+  PERFORM public.set_stock_movement_context('sale', 'invoice', v_invoice_id, v_invoice_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.invoice_items (
+      invoice_id, product_id, description, quantity, unit_price, amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_invoice_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = GREATEST(quantity - v_qty, 0)
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_sale_bill(p_bill jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, place_of_supply, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    NULLIF(p_bill->>'place_of_supply', ''),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('sale', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.bill_items (
+      bill_id, product_id, description, quantity, unit_price, amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity - v_qty
+      WHERE id = v_product_id AND user_id = v_user_id AND quantity >= v_qty;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', v_item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_purchase_bill(p_bill jsonb, p_items jsonb, p_po_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_po_id IS NOT NULL THEN
+    RETURN public.receive_purchase_order(
+      p_po_id,
+      (SELECT jsonb_agg(jsonb_build_object('po_item_id', id, 'quantity', quantity - received_quantity))
+       FROM public.purchase_order_items WHERE po_id = p_po_id),
+      NULLIF(p_bill->>'bill_date', '')::date
+    );
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, place_of_supply, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    NULLIF(p_bill->>'place_of_supply', ''),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('purchase', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.bill_items (
+      bill_id, product_id, description, quantity, unit_price, amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
@@ -0,0 +1,372 @@
+-- Multi-currency documents
+-- Invoices and bills carry their own currency and the exchange rate to the
+-- account's base currency (user_settings.currency_code) on the document date:
+-- one unit of the document currency = exchange_rate units of the base currency.
+-- Credit notes follow the document they reverse. A payment records the rate it
+-- was received at, and the difference against the invoice rate is the realised
+-- exchange gain (positive) or loss (negative), in the base currency.
+
+ALTER TABLE public.invoices
+  ADD COLUMN currency_code text,
+  ADD COLUMN exchange_rate numeric NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE public.bills
+  ADD COLUMN currency_code text,
+  ADD COLUMN exchange_rate numeric NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE public.credit_notes
+  ADD COLUMN currency_code text,
+  ADD COLUMN exchange_rate numeric NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE public.payments
+  ADD COLUMN exchange_rate numeric CHECK (exchange_rate > 0),
+  ADD COLUMN exchange_gain_loss numeric NOT NULL DEFAULT 0;
+
+-- Everything recorded so far is in the base currency
+UPDATE public.invoices i
+SET currency_code = COALESCE((SELECT currency_code FROM public.user_settings s WHERE s.user_id = i.user_id), 'INR');
+
+UPDATE public.bills b
+SET currency_code = COALESCE((SELECT currency_code FROM public.user_settings s WHERE s.user_id = b.user_id), 'INR');
+
+UPDATE public.credit_notes c
+SET currency_code = COALESCE((SELECT currency_code FROM public.user_settings s WHERE s.user_id = c.user_id), 'INR');
+
+UPDATE public.payments SET exchange_rate = 1;
+
+ALTER TABLE public.invoices ALTER COLUMN currency_code SET NOT NULL;
+ALTER TABLE public.bills ALTER COLUMN currency_code SET NOT NULL;
+ALTER TABLE public.credit_notes ALTER COLUMN currency_code SET NOT NULL;
+ALTER TABLE public.payments ALTER COLUMN exchange_rate SET NOT NULL;
+
+-- Documents saved without a currency are in the base currency
+CREATE OR REPLACE FUNCTION public.default_document_currency()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.currency_code IS NULL THEN
+    NEW.currency_code := COALESCE((SELECT currency_code FROM public.user_settings WHERE user_id = NEW.user_id), 'INR');
+    NEW.exchange_rate := 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER default_invoice_currency
+BEFORE INSERT ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.default_document_currency();
+
+CREATE TRIGGER default_bill_currency
+BEFORE INSERT ON public.bills
+FOR EACH ROW
+EXECUTE FUNCTION public.default_document_currency();
+
+-- A credit note is in the currency and at the rate of the document it reverses
+CREATE OR REPLACE FUNCTION public.inherit_credit_note_currency()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.invoice_id IS NOT NULL THEN
+    SELECT currency_code, exchange_rate INTO NEW.currency_code, NEW.exchange_rate
+    FROM public.invoices WHERE id = NEW.invoice_id;
+  ELSE
+    SELECT currency_code, exchange_rate INTO NEW.currency_code, NEW.exchange_rate
+    FROM public.bills WHERE id = NEW.bill_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER inherit_credit_note_currency
+BEFORE INSERT ON public.credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.inherit_credit_note_currency();
+
+-- Realised exchange difference of a payment. Without a rate the payment is
+-- taken at the invoice rate, so nothing is realised.
+CREATE OR REPLACE FUNCTION public.set_payment_exchange_gain_loss()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_invoice_rate numeric;
+BEGIN
+  SELECT exchange_rate INTO v_invoice_rate FROM public.invoices WHERE id = NEW.invoice_id;
+  NEW.exchange_rate := COALESCE(NEW.exchange_rate, v_invoice_rate, 1);
+  NEW.exchange_gain_loss := round(NEW.amount * (NEW.exchange_rate - COALESCE(v_invoice_rate, 1)), 2);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_payment_exchange_gain_loss
+BEFORE INSERT OR UPDATE OF amount, exchange_rate, invoice_id ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_payment_exchange_gain_loss();
+
+-- Document creation RPCs, now storing the currency and exchange rate
+
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice_id uuid;
+  v_invoice_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.invoices (
+    user_id, invoice_number, customer_name, customer_email, client_id,
+    issue_date, due_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    p_invoice->>'invoice_number',
+    p_invoice->>'customer_name',
+    NULLIF(p_invoice->>'customer_email', ''),
+    NULLIF(p_invoice->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_invoice->>'issue_date', '')::date, CURRENT_DATE),
+    NULLIF(p_invoice->>'due_date', '')::date,
+    COALESCE(NULLIF(p_invoice->>'status', ''), 'draft'),
+    NULLIF(p_invoice->>'notes', ''),
+    NULLIF(p_invoice->>'place_of_supply', ''),
+    NULLIF(p_invoice->>'currency_code', ''),
+    COALESCE((p_invoice->>'exchange_rate')::numeric, 1),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_invoice->>'discount_type', ''), 'percent'),
+    COALESCE((p_invoice->>'discount_value')::numeric, 0),
+    COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+    COALESCE((p_invoice->>'round_off')::numeric, 0),
+    COALESCE((p_invoice->>'tax')::numeric, 0),
+    COALESCE((p_invoice->>'total')::numeric, 0)
+  )
+  RETURNING id, invoice_number INTO v_invoice_id, v_invoice_number;
+
+  PERFORM public.set_stock_movement_context('sale', 'invoice', v_invoice_id, v_invoice_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.invoice_items (
+      invoice_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_invoice_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = GREATEST(quantity - v_qty, 0)
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_sale_bill(p_bill jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    NULLIF(p_bill->>'place_of_supply', ''),
+    NULLIF(p_bill->>'currency_code', ''),
+    COALESCE((p_bill->>'exchange_rate')::numeric, 1),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_bill->>'discount_type', ''), 'percent'),
+    COALESCE((p_bill->>'discount_value')::numeric, 0),
+    COALESCE((p_bill->>'discount_amount')::numeric, 0),
+    COALESCE((p_bill->>'round_off')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('sale', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.bill_items (
+      bill_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity - v_qty
+      WHERE id = v_product_id AND user_id = v_user_id AND quantity >= v_qty;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', v_item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_purchase_bill(p_bill jsonb, p_items jsonb, p_po_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_po_id IS NOT NULL THEN
+    RETURN public.receive_purchase_order(
+      p_po_id,
+      (SELECT jsonb_agg(jsonb_build_object('po_item_id', id, 'quantity', quantity - received_quantity))
+       FROM public.purchase_order_items WHERE po_id = p_po_id),
+      NULLIF(p_bill->>'bill_date', '')::date
+    );
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    NULLIF(p_bill->>'place_of_supply', ''),
+    NULLIF(p_bill->>'currency_code', ''),
+    COALESCE((p_bill->>'exchange_rate')::numeric, 1),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_bill->>'discount_type', ''), 'percent'),
+    COALESCE((p_bill->>'discount_value')::numeric, 0),
+    COALESCE((p_bill->>'discount_amount')::numeric, 0),
+    COALESCE((p_bill->>'round_off')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('purchase', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.bill_items (
+      bill_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
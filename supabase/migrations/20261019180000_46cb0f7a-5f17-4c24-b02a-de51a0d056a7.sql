@@ -0,0 +1,567 @@
+-- Recurring invoices
+-- A schedule holds the customer, lines and terms of an invoice that is raised
+-- every week, month, quarter or year from start_date until end_date (open ended
+-- when NULL). The generate-recurring-invoices edge function runs daily and calls
+-- generate_recurring_invoice for every active schedule whose next_run_date has
+-- come. Every generated or skipped date is recorded in recurring_invoice_runs,
+-- and next_run_date is worked out from start_date and the number of those runs,
+-- so month-end dates do not drift.
+
+CREATE TABLE public.recurring_invoices (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  client_id uuid REFERENCES public.clients(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  customer_email text,
+  place_of_supply text,
+  currency_code text,
+  exchange_rate numeric NOT NULL DEFAULT 1 CHECK (exchange_rate > 0),
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date date NOT NULL,
+  end_date date,
+  next_run_date date NOT NULL,
+  payment_terms_days integer CHECK (payment_terms_days >= 0),
+  -- Generated invoices are emailed to the customer once their PDF has been
+  -- saved, and marked sent when the email goes out
+  auto_send boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed')),
+  notes text,
+  discount_type text NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'flat')),
+  discount_value numeric NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  round_off boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT recurring_invoices_dates_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE public.recurring_invoice_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recurring_invoice_id uuid NOT NULL REFERENCES public.recurring_invoices(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_price numeric NOT NULL,
+  hsn_code text,
+  tax_rate numeric NOT NULL DEFAULT 0,
+  discount_type text NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'flat')),
+  discount_value numeric NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.recurring_invoice_runs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recurring_invoice_id uuid NOT NULL REFERENCES public.recurring_invoices(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  run_date date NOT NULL,
+  status text NOT NULL CHECK (status IN ('generated', 'skipped', 'failed')),
+  invoice_id uuid REFERENCES public.invoices(id) ON DELETE SET NULL,
+  error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_recurring_invoices_due ON public.recurring_invoices (next_run_date) WHERE status = 'active';
+CREATE INDEX idx_recurring_invoice_items_schedule ON public.recurring_invoice_items (recurring_invoice_id);
+CREATE INDEX idx_recurring_invoice_runs_schedule ON public.recurring_invoice_runs (recurring_invoice_id, run_date DESC);
+
+ALTER TABLE public.recurring_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring invoices"
+ON public.recurring_invoices FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring invoices"
+ON public.recurring_invoices FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring invoices"
+ON public.recurring_invoices FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring invoices"
+ON public.recurring_invoices FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view items of their recurring invoices"
+ON public.recurring_invoice_items FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.recurring_invoices r
+  WHERE r.id = recurring_invoice_items.recurring_invoice_id AND r.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can insert items of their recurring invoices"
+ON public.recurring_invoice_items FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.recurring_invoices r
+  WHERE r.id = recurring_invoice_items.recurring_invoice_id AND r.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete items of their recurring invoices"
+ON public.recurring_invoice_items FOR DELETE
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.recurring_invoices r
+  WHERE r.id = recurring_invoice_items.recurring_invoice_id AND r.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can view their own recurring invoice runs"
+ON public.recurring_invoice_runs FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own recurring invoice runs"
+ON public.recurring_invoice_runs FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_invoices_updated_at
+BEFORE UPDATE ON public.recurring_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_recurring_invoice_currency
+BEFORE INSERT ON public.recurring_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.default_document_currency();
+
+-- Invoice creation for a given user. create_invoice runs it for the signed-in
+-- user; generate_recurring_invoice runs it for the schedule's owner. Signed-in
+-- callers still go through RLS, so they can only create their own invoices.
+
+CREATE OR REPLACE FUNCTION public.create_invoice_for_user(p_user_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := p_user_id;
+  v_invoice_id uuid;
+  v_invoice_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  INSERT INTO public.invoices (
+    user_id, invoice_number, customer_name, customer_email, client_id,
+    issue_date, due_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    p_invoice->>'invoice_number',
+    p_invoice->>'customer_name',
+    NULLIF(p_invoice->>'customer_email', ''),
+    NULLIF(p_invoice->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_invoice->>'issue_date', '')::date, CURRENT_DATE),
+    NULLIF(p_invoice->>'due_date', '')::date,
+    COALESCE(NULLIF(p_invoice->>'status', ''), 'draft'),
+    NULLIF(p_invoice->>'notes', ''),
+    NULLIF(p_invoice->>'place_of_supply', ''),
+    NULLIF(p_invoice->>'currency_code', ''),
+    COALESCE((p_invoice->>'exchange_rate')::numeric, 1),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_invoice->>'discount_type', ''), 'percent'),
+    COALESCE((p_invoice->>'discount_value')::numeric, 0),
+    COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+    COALESCE((p_invoice->>'round_off')::numeric, 0),
+    COALESCE((p_invoice->>'tax')::numeric, 0),
+    COALESCE((p_invoice->>'total')::numeric, 0)
+  )
+  RETURNING id, invoice_number INTO v_invoice_id, v_invoice_number;
+
+  PERFORM public.set_stock_movement_context('sale', 'invoice', v_invoice_id, v_invoice_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.invoice_items (
+      invoice_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_invoice_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = GREATEST(quantity - v_qty, 0)
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_invoice(p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN public.create_invoice_for_user(auth.uid(), p_invoice, p_items);
+END;
+$$;
+
+-- The n-th date of a schedule, counted from its start (0 is the start date).
+-- Monthly dates past the end of a shorter month fall on its last day.
+CREATE OR REPLACE FUNCTION public.recurrence_date(p_start date, p_frequency text, p_n integer)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $$
+  SELECT (CASE p_frequency
+    WHEN 'weekly' THEN p_start + make_interval(weeks => p_n)
+    WHEN 'monthly' THEN p_start + make_interval(months => p_n)
+    WHEN 'quarterly' THEN p_start + make_interval(months => 3 * p_n)
+    WHEN 'yearly' THEN p_start + make_interval(years => p_n)
+  END)::date;
+$$;
+
+-- Discount on an amount, never more than the amount itself (as in src/lib/gst.ts)
+CREATE OR REPLACE FUNCTION public.calculate_discount(p_base numeric, p_type text, p_value numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $$
+  SELECT round(LEAST(
+    GREATEST(p_base, 0),
+    CASE WHEN p_type = 'flat' THEN GREATEST(COALESCE(p_value, 0), 0)
+    ELSE p_base * LEAST(GREATEST(COALESCE(p_value, 0), 0), 100) / 100 END
+  ), 2);
+$$;
+
+-- Moves a schedule on to its next date after a run, completing it once the
+-- next date is past the end date
+CREATE OR REPLACE FUNCTION public.advance_recurring_invoice(p_recurring_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  UPDATE public.recurring_invoices r
+  SET next_run_date = public.recurrence_date(r.start_date, r.frequency, (
+        SELECT count(*)::integer FROM public.recurring_invoice_runs
+        WHERE recurring_invoice_id = r.id AND status IN ('generated', 'skipped')
+      ))
+  WHERE r.id = p_recurring_id;
+
+  UPDATE public.recurring_invoices
+  SET status = 'completed'
+  WHERE id = p_recurring_id AND end_date IS NOT NULL AND next_run_date > end_date;
+END;
+$$;
+
+-- Raises the invoice for a schedule's next date, if it has come. Totals and GST
+-- are worked out as on the invoice form; the invoice is numbered and stock is
+-- reduced exactly as for one created by hand. A failure is recorded as a failed
+-- run and the date is retried on the next call.
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice(p_recurring_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_schedule public.recurring_invoices%ROWTYPE;
+  v_run_date date;
+  v_company_state text;
+  v_inter_state boolean;
+  v_item record;
+  v_items jsonb := '[]'::jsonb;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_amount numeric;
+  v_subtotal numeric;
+  v_document_discount numeric;
+  v_share numeric;
+  v_taxable numeric;
+  v_cgst numeric;
+  v_sgst numeric;
+  v_igst numeric;
+  v_tax numeric := 0;
+  v_total numeric;
+  v_round_off numeric := 0;
+  v_invoice_id uuid;
+BEGIN
+  SELECT * INTO v_schedule
+  FROM public.recurring_invoices
+  WHERE id = p_recurring_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring invoice not found';
+  END IF;
+
+  IF v_schedule.status <> 'active' OR v_schedule.next_run_date > CURRENT_DATE THEN
+    RETURN NULL;
+  END IF;
+
+  v_run_date := v_schedule.next_run_date;
+
+  IF v_schedule.end_date IS NOT NULL AND v_run_date > v_schedule.end_date THEN
+    UPDATE public.recurring_invoices SET status = 'completed' WHERE id = p_recurring_id;
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    SELECT substring(trim(gst_number) FROM '^(\d{2})') INTO v_company_state
+    FROM public.company_profile
+    WHERE user_id = v_schedule.user_id;
+    v_inter_state := v_company_state IS NOT NULL AND v_schedule.place_of_supply IS NOT NULL
+      AND v_company_state <> v_schedule.place_of_supply;
+
+    SELECT COALESCE(sum(round(round(quantity * unit_price, 2)
+      - public.calculate_discount(round(quantity * unit_price, 2), discount_type, discount_value), 2)), 0)
+    INTO v_subtotal
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_recurring_id;
+
+    v_document_discount := public.calculate_discount(v_subtotal, v_schedule.discount_type, v_schedule.discount_value);
+
+    FOR v_item IN
+      SELECT * FROM public.recurring_invoice_items
+      WHERE recurring_invoice_id = p_recurring_id
+      ORDER BY created_at, id
+    LOOP
+      v_gross := round(v_item.quantity * v_item.unit_price, 2);
+      v_line_discount := public.calculate_discount(v_gross, v_item.discount_type, v_item.discount_value);
+      v_amount := round(v_gross - v_line_discount, 2);
+      -- The document discount is shared across lines by value before tax
+      v_share := CASE WHEN v_subtotal > 0 THEN round(v_document_discount * v_amount / v_subtotal, 2) ELSE 0 END;
+      v_taxable := round(v_amount - v_share, 2);
+
+      IF v_inter_state THEN
+        v_cgst := 0;
+        v_sgst := 0;
+        v_igst := round(v_taxable * v_item.tax_rate / 100, 2);
+      ELSE
+        v_cgst := round(v_taxable * v_item.tax_rate / 200, 2);
+        v_sgst := v_cgst;
+        v_igst := 0;
+      END IF;
+      v_tax := v_tax + v_cgst + v_sgst + v_igst;
+
+      v_items := v_items || jsonb_build_object(
+        'product_id', v_item.product_id,
+        'description', v_item.description,
+        'quantity', v_item.quantity,
+        'unit_price', v_item.unit_price,
+        'discount_type', v_item.discount_type,
+        'discount_value', v_item.discount_value,
+        'discount_amount', v_line_discount,
+        'hsn_code', v_item.hsn_code,
+        'tax_rate', v_item.tax_rate,
+        'cgst', v_cgst,
+        'sgst', v_sgst,
+        'igst', v_igst
+      );
+    END LOOP;
+
+    IF jsonb_array_length(v_items) = 0 THEN
+      RAISE EXCEPTION 'Recurring invoice has no items';
+    END IF;
+
+    v_total := round(v_subtotal - v_document_discount + v_tax, 2);
+    IF v_schedule.round_off THEN
+      v_round_off := round(v_total) - v_total;
+      v_total := v_total + v_round_off;
+    END IF;
+
+    v_invoice_id := public.create_invoice_for_user(
+      v_schedule.user_id,
+      jsonb_build_object(
+        'customer_name', v_schedule.customer_name,
+        'customer_email', v_schedule.customer_email,
+        'client_id', v_schedule.client_id,
+        'issue_date', v_run_date,
+        'due_date', v_run_date + v_schedule.payment_terms_days,
+        'status', CASE WHEN v_schedule.auto_send THEN 'sent' ELSE 'draft' END,
+        'notes', v_schedule.notes,
+        'place_of_supply', v_schedule.place_of_supply,
+        'currency_code', v_schedule.currency_code,
+        'exchange_rate', v_schedule.exchange_rate,
+        'subtotal', v_subtotal,
+        'discount_type', v_schedule.discount_type,
+        'discount_value', v_schedule.discount_value,
+        'discount_amount', v_document_discount,
+        'round_off', v_round_off,
+        'tax', v_tax,
+        'total', v_total
+      ),
+      v_items
+    );
+
+    INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, user_id, run_date, status, invoice_id)
+    VALUES (p_recurring_id, v_schedule.user_id, v_run_date, 'generated', v_invoice_id);
+  EXCEPTION WHEN OTHERS THEN
+    INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, user_id, run_date, status, error)
+    VALUES (p_recurring_id, v_schedule.user_id, v_run_date, 'failed', SQLERRM);
+    RETURN NULL;
+  END;
+
+  PERFORM public.advance_recurring_invoice(p_recurring_id);
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+-- Sets up a schedule that repeats an existing invoice's customer and lines.
+-- p_schedule: frequency, start_date, end_date, payment_terms_days, auto_send
+CREATE OR REPLACE FUNCTION public.create_recurring_invoice_from_invoice(p_invoice_id uuid, p_schedule jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice public.invoices%ROWTYPE;
+  v_recurring_id uuid;
+  v_start date;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  v_start := COALESCE(NULLIF(p_schedule->>'start_date', '')::date, CURRENT_DATE);
+
+  INSERT INTO public.recurring_invoices (
+    user_id, client_id, customer_name, customer_email, place_of_supply,
+    currency_code, exchange_rate, frequency, start_date, end_date, next_run_date,
+    payment_terms_days, auto_send, notes, discount_type, discount_value, round_off
+  ) VALUES (
+    v_user_id,
+    v_invoice.client_id,
+    v_invoice.customer_name,
+    v_invoice.customer_email,
+    v_invoice.place_of_supply,
+    v_invoice.currency_code,
+    v_invoice.exchange_rate,
+    COALESCE(NULLIF(p_schedule->>'frequency', ''), 'monthly'),
+    v_start,
+    NULLIF(p_schedule->>'end_date', '')::date,
+    v_start,
+    NULLIF(p_schedule->>'payment_terms_days', '')::integer,
+    COALESCE((p_schedule->>'auto_send')::boolean, false),
+    v_invoice.notes,
+    v_invoice.discount_type,
+    v_invoice.discount_value,
+    v_invoice.round_off <> 0
+  )
+  RETURNING id INTO v_recurring_id;
+
+  INSERT INTO public.recurring_invoice_items (
+    recurring_invoice_id, product_id, description, quantity, unit_price,
+    hsn_code, tax_rate, discount_type, discount_value
+  )
+  SELECT v_recurring_id, product_id, description, quantity, unit_price,
+    hsn_code, tax_rate, discount_type, discount_value
+  FROM public.invoice_items
+  WHERE invoice_id = p_invoice_id
+  ORDER BY created_at, id;
+
+  RETURN v_recurring_id;
+END;
+$$;
+
+-- Skips a schedule's next date without raising an invoice
+CREATE OR REPLACE FUNCTION public.skip_recurring_invoice_run(p_recurring_id uuid)
+RETURNS date
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_schedule public.recurring_invoices%ROWTYPE;
+  v_next_run_date date;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_schedule
+  FROM public.recurring_invoices
+  WHERE id = p_recurring_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring invoice not found';
+  END IF;
+
+  IF v_schedule.status = 'completed' THEN
+    RAISE EXCEPTION 'Recurring invoice has ended';
+  END IF;
+
+  INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, user_id, run_date, status)
+  VALUES (p_recurring_id, v_user_id, v_schedule.next_run_date, 'skipped');
+
+  PERFORM public.advance_recurring_invoice(p_recurring_id);
+
+  SELECT next_run_date INTO v_next_run_date
+  FROM public.recurring_invoices
+  WHERE id = p_recurring_id;
+
+  RETURN v_next_run_date;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_invoice_for_user(uuid, jsonb, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.advance_recurring_invoice(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.create_recurring_invoice_from_invoice(uuid, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.skip_recurring_invoice_run(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.generate_recurring_invoice(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_invoice(uuid) TO service_role;
+
+-- Run the generator every morning. The project URL and service role key are
+-- read from Vault (secrets 'project_url' and 'service_role_key').
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'generate-recurring-invoices',
+  '30 0 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/generate-recurring-invoices',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
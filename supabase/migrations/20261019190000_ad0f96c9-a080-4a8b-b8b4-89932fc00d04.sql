@@ -0,0 +1,30 @@
+-- Generated PDFs
+-- Invoices, bills and purchase orders are rendered to PDF in the browser and
+-- kept in the private 'documents' bucket under <user_id>/<table>/<id>.pdf.
+-- pdf_path points at the latest copy; it is replaced whenever the PDF is
+-- generated again.
+
+INSERT INTO storage.buckets (id, name, public) VALUES ('documents', 'documents', false);
+
+CREATE POLICY "Authenticated users can view their own documents" ON storage.objects
+FOR SELECT TO authenticated
+USING (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Authenticated users can upload their own documents" ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Authenticated users can update their own documents" ON storage.objects
+FOR UPDATE TO authenticated
+USING (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Authenticated users can delete their own documents" ON storage.objects
+FOR DELETE TO authenticated
+USING (bucket_id = 'documents' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+ALTER TABLE public.invoices ADD COLUMN pdf_path text;
+ALTER TABLE public.bills ADD COLUMN pdf_path text;
+ALTER TABLE public.purchase_orders ADD COLUMN pdf_path text;
+
+ALTER TABLE public.user_settings
+  ADD COLUMN pdf_page_size text NOT NULL DEFAULT 'a4' CHECK (pdf_page_size IN ('a4', 'a5'));
@@ -0,0 +1,47 @@
+-- Print and PDF layout per document type, chosen in Settings
+CREATE TABLE public.document_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'bill', 'purchase_order')),
+  layout text NOT NULL DEFAULT 'classic' CHECK (layout IN ('classic', 'modern', 'minimal')),
+  accent_color text NOT NULL DEFAULT '#282828' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  logo_position text NOT NULL DEFAULT 'left' CHECK (logo_position IN ('left', 'center', 'right', 'none')),
+  show_sku boolean NOT NULL DEFAULT false,
+  show_hsn boolean NOT NULL DEFAULT true,
+  show_discount boolean NOT NULL DEFAULT true,
+  show_tax boolean NOT NULL DEFAULT true,
+  footer_terms text,
+  bank_details text,
+  -- Path of the signature image in the company-logos bucket
+  signature_path text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, document_type)
+);
+
+ALTER TABLE public.document_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document templates"
+ON public.document_templates FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document templates"
+ON public.document_templates FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own document templates"
+ON public.document_templates FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document templates"
+ON public.document_templates FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_document_templates_updated_at
+BEFORE UPDATE ON public.document_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,24 @@
+-- Every invoice and bill emailed from the app, written by the send-document function
+CREATE TABLE public.email_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'bill')),
+  document_id uuid NOT NULL,
+  recipient text NOT NULL,
+  subject text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  message_id text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_log_document ON public.email_log (document_type, document_id, created_at DESC);
+CREATE INDEX idx_email_log_user_created ON public.email_log (user_id, created_at DESC);
+
+ALTER TABLE public.email_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; rows are only written with the service role
+CREATE POLICY "Users can view their own email log"
+ON public.email_log FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,84 @@
+-- Payment reminders for unpaid invoices, sent by the send-payment-reminders function
+
+-- Days relative to the due date on which to remind, negative for before it
+ALTER TABLE public.user_settings
+  ADD COLUMN reminder_channel text NOT NULL DEFAULT 'email' CHECK (reminder_channel IN ('email', 'whatsapp')),
+  ADD COLUMN reminder_offsets integer[] NOT NULL DEFAULT '{-3,0,7}'
+    CHECK (cardinality(reminder_offsets) <= 10 AND -60 <= ALL (reminder_offsets) AND 365 >= ALL (reminder_offsets));
+
+ALTER TABLE public.clients
+  ADD COLUMN reminders_opt_out boolean NOT NULL DEFAULT false;
+
+CREATE TABLE public.payment_reminders (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  offset_days integer NOT NULL,
+  due_date date NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('email', 'whatsapp')),
+  recipient text,
+  status text NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  -- Each step of the cadence is tried once per invoice
+  UNIQUE (invoice_id, offset_days)
+);
+
+CREATE INDEX idx_payment_reminders_user_created ON public.payment_reminders (user_id, created_at DESC);
+
+ALTER TABLE public.payment_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; rows are only written with the service role
+CREATE POLICY "Users can view their own payment reminders"
+ON public.payment_reminders FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Invoices with a reminder step reached and not yet tried. Only the latest step
+-- reached is returned, and only within a week of it, so a missed run catches up
+-- without sending stale reminders or a backlog when reminders are switched on.
+-- Invoices without a due date fall due default_payment_terms days after issue.
+CREATE OR REPLACE FUNCTION public.due_payment_reminders(p_today date DEFAULT CURRENT_DATE)
+RETURNS TABLE (invoice_id uuid, user_id uuid, offset_days integer, due_date date, channel text)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT i.id, i.user_id, o.offset_days, d.due_date, s.reminder_channel
+  FROM public.invoices i
+  JOIN public.user_settings s ON s.user_id = i.user_id AND s.invoice_reminders
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(i.due_date, i.issue_date + s.default_payment_terms) AS due_date
+  ) d
+  CROSS JOIN LATERAL (
+    SELECT max(x) AS offset_days FROM unnest(s.reminder_offsets) AS x WHERE d.due_date + x <= p_today
+  ) o
+  WHERE i.status IN ('sent', 'partially_paid', 'overdue')
+    AND i.balance_due > 0
+    AND o.offset_days IS NOT NULL
+    AND d.due_date + o.offset_days > p_today - 7
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payment_reminders r
+      WHERE r.invoice_id = i.id AND r.offset_days = o.offset_days
+    )
+  ORDER BY i.user_id, d.due_date;
+$$;
+
+REVOKE ALL ON FUNCTION public.due_payment_reminders(date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.due_payment_reminders(date) TO service_role;
+
+-- Send reminders every morning, reading the project URL and service role key from Vault
+SELECT cron.schedule(
+  'send-payment-reminders',
+  '0 4 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-payment-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
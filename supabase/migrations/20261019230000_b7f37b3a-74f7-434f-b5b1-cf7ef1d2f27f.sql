@@ -0,0 +1,386 @@
+-- Supplier payables: due dates and payments on purchase bills
+-- Sale bills from the counter are settled when they are made, so only purchase
+-- bills carry a balance. bills.amount_paid is kept equal to the sum of the
+-- bill's payments by a trigger, as for invoices.
+
+ALTER TABLE public.bills
+  ADD COLUMN bill_type text NOT NULL DEFAULT 'sale' CHECK (bill_type IN ('purchase', 'sale')),
+  ADD COLUMN due_date date,
+  ADD COLUMN amount_paid numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE public.bills
+  ADD COLUMN balance_due numeric GENERATED ALWAYS AS (
+    CASE WHEN bill_type = 'purchase' AND status <> 'cancelled' THEN total - amount_paid ELSE 0 END
+  ) STORED,
+  ADD CONSTRAINT bills_due_date_check CHECK (due_date >= bill_date);
+
+-- Existing bills are sales unless they were a PO delivery or brought stock in.
+-- Counter sales from before the stock ledger have no movements, so the lack of
+-- a 'sale' movement says nothing.
+UPDATE public.bills b
+SET bill_type = 'purchase'
+WHERE b.po_id IS NOT NULL
+  OR EXISTS (
+    SELECT 1 FROM public.stock_movements m
+    WHERE m.source_type = 'bill' AND m.source_id = b.id AND m.reason = 'purchase'
+  );
+
+-- New bills are purchases unless created as a sale by create_sale_bill
+ALTER TABLE public.bills ALTER COLUMN bill_type SET DEFAULT 'purchase';
+
+CREATE INDEX idx_bills_user_due ON public.bills(user_id, due_date) WHERE bill_type = 'purchase';
+
+-- How many days before bills fall due to start alerting
+ALTER TABLE public.user_settings
+  ADD COLUMN bill_due_alert_days integer NOT NULL DEFAULT 3 CHECK (bill_due_alert_days BETWEEN 0 AND 60);
+
+CREATE TABLE public.bill_payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  bill_id uuid NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  amount numeric NOT NULL,
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  mode text NOT NULL DEFAULT 'bank_transfer',
+  reference text,
+  notes text,
+  exchange_rate numeric NOT NULL CHECK (exchange_rate > 0),
+  exchange_gain_loss numeric NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT bill_payments_amount_check CHECK (amount > 0),
+  CONSTRAINT bill_payments_mode_check CHECK (mode IN ('cash', 'upi', 'card', 'bank_transfer', 'cheque', 'other'))
+);
+
+CREATE INDEX idx_bill_payments_bill ON public.bill_payments(bill_id);
+CREATE INDEX idx_bill_payments_user_date ON public.bill_payments(user_id, payment_date);
+
+ALTER TABLE public.bill_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bill payments"
+ON public.bill_payments FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bill payments"
+ON public.bill_payments FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bill payments"
+ON public.bill_payments FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bill payments"
+ON public.bill_payments FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bill_payments_updated_at
+BEFORE UPDATE ON public.bill_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Realised exchange difference of a supplier payment. Paying at a higher rate
+-- than the bill was booked at is a loss. Without a rate the payment is taken
+-- at the bill rate, so nothing is realised.
+CREATE OR REPLACE FUNCTION public.set_bill_payment_exchange_gain_loss()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_bill_rate numeric;
+BEGIN
+  SELECT exchange_rate INTO v_bill_rate FROM public.bills WHERE id = NEW.bill_id;
+  NEW.exchange_rate := COALESCE(NEW.exchange_rate, v_bill_rate, 1);
+  NEW.exchange_gain_loss := round(NEW.amount * (COALESCE(v_bill_rate, 1) - NEW.exchange_rate), 2);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_bill_payment_exchange_gain_loss
+BEFORE INSERT OR UPDATE OF amount, exchange_rate, bill_id ON public.bill_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_bill_payment_exchange_gain_loss();
+
+-- Recalculate amount_paid of one bill
+CREATE OR REPLACE FUNCTION public.refresh_bill_payment_status(p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_bill public.bills%ROWTYPE;
+  v_paid numeric;
+BEGIN
+  SELECT * INTO v_bill FROM public.bills WHERE id = p_bill_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM public.bill_payments WHERE bill_id = p_bill_id;
+
+  IF v_paid > 0 AND v_bill.bill_type <> 'purchase' THEN
+    RAISE EXCEPTION 'Sale bills are settled at the counter';
+  END IF;
+
+  IF v_paid > v_bill.total THEN
+    RAISE EXCEPTION 'Payment exceeds the balance due on %', v_bill.bill_number;
+  END IF;
+
+  UPDATE public.bills SET amount_paid = v_paid WHERE id = p_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_bill_payments()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_bill_payment_status(OLD.bill_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.bill_id <> OLD.bill_id OR NEW.amount <> OLD.amount) THEN
+    PERFORM public.refresh_bill_payment_status(NEW.bill_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_bill_payments
+AFTER INSERT OR UPDATE OR DELETE ON public.bill_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_bill_payments();
+
+-- Payment terms of a supplier in days: the terms of their latest bill with a
+-- due date, else the default payment terms
+CREATE OR REPLACE FUNCTION public.supplier_payment_terms(p_user_id uuid, p_supplier_name text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT due_date - bill_date FROM public.bills
+     WHERE user_id = p_user_id
+       AND bill_type = 'purchase'
+       AND due_date IS NOT NULL
+       AND lower(trim(customer_name)) = lower(trim(p_supplier_name))
+     ORDER BY bill_date DESC, created_at DESC
+     LIMIT 1),
+    (SELECT default_payment_terms FROM public.user_settings WHERE user_id = p_user_id),
+    30
+  );
+$$;
+
+-- Purchase bills saved without a due date, including bills for PO deliveries,
+-- fall due on the supplier's terms
+CREATE OR REPLACE FUNCTION public.default_bill_due_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.bill_type = 'purchase' AND NEW.due_date IS NULL THEN
+    NEW.due_date := NEW.bill_date + public.supplier_payment_terms(NEW.user_id, NEW.customer_name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER default_bill_due_date
+BEFORE INSERT ON public.bills
+FOR EACH ROW
+EXECUTE FUNCTION public.default_bill_due_date();
+
+-- Purchase bills recorded before payables were tracked are taken as settled on
+-- their bill date, so they do not all show up as overdue. They keep no due
+-- date, so they are not read as the supplier's terms.
+INSERT INTO public.bill_payments (user_id, bill_id, amount, payment_date, mode, exchange_rate, notes)
+SELECT user_id, id, total, bill_date, 'other', exchange_rate, 'Recorded before payment tracking'
+FROM public.bills
+WHERE bill_type = 'purchase' AND status <> 'cancelled' AND total > 0;
+
+-- Bill creation RPCs, now recording the bill type and the due date
+
+CREATE OR REPLACE FUNCTION public.create_sale_bill(p_bill jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_type, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    'sale',
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    NULLIF(p_bill->>'place_of_supply', ''),
+    NULLIF(p_bill->>'currency_code', ''),
+    COALESCE((p_bill->>'exchange_rate')::numeric, 1),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_bill->>'discount_type', ''), 'percent'),
+    COALESCE((p_bill->>'discount_value')::numeric, 0),
+    COALESCE((p_bill->>'discount_amount')::numeric, 0),
+    COALESCE((p_bill->>'round_off')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('sale', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.bill_items (
+      bill_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity - v_qty
+      WHERE id = v_product_id AND user_id = v_user_id AND quantity >= v_qty;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', v_item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_purchase_bill(p_bill jsonb, p_items jsonb, p_po_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_po_id IS NOT NULL THEN
+    RETURN public.receive_purchase_order(
+      p_po_id,
+      (SELECT jsonb_agg(jsonb_build_object('po_item_id', id, 'quantity', quantity - received_quantity))
+       FROM public.purchase_order_items WHERE po_id = p_po_id),
+      NULLIF(p_bill->>'bill_date', '')::date
+    );
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id,
+    bill_date, due_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    NULLIF(p_bill->>'due_date', '')::date,
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    NULLIF(p_bill->>'place_of_supply', ''),
+    NULLIF(p_bill->>'currency_code', ''),
+    COALESCE((p_bill->>'exchange_rate')::numeric, 1),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_bill->>'discount_type', ''), 'percent'),
+    COALESCE((p_bill->>'discount_value')::numeric, 0),
+    COALESCE((p_bill->>'discount_amount')::numeric, 0),
+    COALESCE((p_bill->>'round_off')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('purchase', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.bill_items (
+      bill_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
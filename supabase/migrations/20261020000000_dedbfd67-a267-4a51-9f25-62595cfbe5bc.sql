@@ -0,0 +1,307 @@
+-- Supplier master records
+-- Suppliers were free text on products, purchase orders and purchase bills, so
+-- one supplier spelt several ways counted as several. Documents keep the name
+-- they were issued with; supplier_id links them to the supplier record.
+
+-- Names that differ only in case, spacing or punctuation are the same supplier
+CREATE OR REPLACE FUNCTION public.normalize_supplier_name(p_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(
+    NULLIF(btrim(regexp_replace(lower(p_name), '[^[:alnum:]]+', ' ', 'g')), ''),
+    lower(btrim(p_name))
+  );
+$$;
+
+CREATE TABLE public.suppliers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  contact_person text,
+  email text,
+  phone text,
+  gstin text,
+  address text,
+  state_code text,
+  -- Days to pay bills in; NULL falls back to the default payment terms
+  payment_terms integer CHECK (payment_terms BETWEEN 0 AND 365),
+  bank_account_name text,
+  bank_account_number text,
+  bank_ifsc text,
+  bank_name text,
+  upi_id text,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX suppliers_user_name_key ON public.suppliers(user_id, public.normalize_supplier_name(name));
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suppliers"
+ON public.suppliers FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own suppliers"
+ON public.suppliers FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own suppliers"
+ON public.suppliers FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own suppliers"
+ON public.suppliers FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_suppliers_updated_at
+BEFORE UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.products ADD COLUMN supplier_id uuid REFERENCES public.suppliers(id) ON DELETE SET NULL;
+ALTER TABLE public.purchase_orders ADD COLUMN supplier_id uuid REFERENCES public.suppliers(id) ON DELETE SET NULL;
+ALTER TABLE public.bills ADD COLUMN supplier_id uuid REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_products_supplier ON public.products(supplier_id);
+CREATE INDEX idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX idx_bills_supplier ON public.bills(supplier_id);
+
+-- One supplier per normalized name, under its most used spelling, with the
+-- latest email it was given
+WITH names AS (
+  SELECT user_id, btrim(supplier_name) AS name, NULL::text AS email, created_at
+  FROM public.products WHERE btrim(COALESCE(supplier_name, '')) <> ''
+  UNION ALL
+  SELECT user_id, btrim(supplier_name), NULLIF(btrim(supplier_email), ''), created_at
+  FROM public.purchase_orders WHERE btrim(supplier_name) <> ''
+  UNION ALL
+  SELECT user_id, btrim(customer_name), NULLIF(btrim(customer_email), ''), created_at
+  FROM public.bills WHERE bill_type = 'purchase' AND btrim(customer_name) <> ''
+),
+spellings AS (
+  SELECT user_id, public.normalize_supplier_name(name) AS name_key, name, count(*) AS uses
+  FROM names
+  GROUP BY user_id, public.normalize_supplier_name(name), name
+)
+INSERT INTO public.suppliers (user_id, name, email)
+SELECT DISTINCT ON (s.user_id, s.name_key)
+  s.user_id,
+  s.name,
+  (SELECT n.email FROM names n
+   WHERE n.user_id = s.user_id AND public.normalize_supplier_name(n.name) = s.name_key AND n.email IS NOT NULL
+   ORDER BY n.created_at DESC
+   LIMIT 1)
+FROM spellings s
+ORDER BY s.user_id, s.name_key, s.uses DESC, s.name;
+
+UPDATE public.products p
+SET supplier_id = s.id, supplier_name = s.name
+FROM public.suppliers s
+WHERE s.user_id = p.user_id
+  AND public.normalize_supplier_name(s.name) = public.normalize_supplier_name(p.supplier_name);
+
+UPDATE public.purchase_orders po
+SET supplier_id = s.id
+FROM public.suppliers s
+WHERE s.user_id = po.user_id
+  AND public.normalize_supplier_name(s.name) = public.normalize_supplier_name(po.supplier_name);
+
+UPDATE public.bills b
+SET supplier_id = s.id
+FROM public.suppliers s
+WHERE b.bill_type = 'purchase'
+  AND s.user_id = b.user_id
+  AND public.normalize_supplier_name(s.name) = public.normalize_supplier_name(b.customer_name);
+
+-- A supplier's own payment terms come first, then the gap on their last bill
+CREATE OR REPLACE FUNCTION public.supplier_payment_terms(p_user_id uuid, p_supplier_name text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE(
+    (SELECT payment_terms FROM public.suppliers
+     WHERE user_id = p_user_id
+       AND public.normalize_supplier_name(name) = public.normalize_supplier_name(p_supplier_name)),
+    (SELECT due_date - bill_date FROM public.bills
+     WHERE user_id = p_user_id
+       AND bill_type = 'purchase'
+       AND due_date IS NOT NULL
+       AND public.normalize_supplier_name(customer_name) = public.normalize_supplier_name(p_supplier_name)
+     ORDER BY bill_date DESC, created_at DESC
+     LIMIT 1),
+    (SELECT default_payment_terms FROM public.user_settings WHERE user_id = p_user_id),
+    30
+  );
+$$;
+
+-- Bills for PO deliveries are from the PO's supplier. Purchase bills saved
+-- without a due date fall due on the supplier's terms.
+CREATE OR REPLACE FUNCTION public.default_bill_due_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.supplier_id IS NULL AND NEW.po_id IS NOT NULL THEN
+    SELECT supplier_id INTO NEW.supplier_id FROM public.purchase_orders WHERE id = NEW.po_id;
+  END IF;
+  IF NEW.bill_type = 'purchase' AND NEW.due_date IS NULL THEN
+    NEW.due_date := NEW.bill_date + public.supplier_payment_terms(NEW.user_id, NEW.customer_name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- PO and bill creation RPCs, now recording the supplier
+
+CREATE OR REPLACE FUNCTION public.create_purchase_order(p_po jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po_id uuid;
+  v_item jsonb;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.purchase_orders (
+    user_id, po_number, supplier_id, supplier_name, supplier_email, po_date,
+    expected_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_po->>'po_number',
+    NULLIF(p_po->>'supplier_id', '')::uuid,
+    p_po->>'supplier_name',
+    NULLIF(p_po->>'supplier_email', ''),
+    COALESCE(NULLIF(p_po->>'po_date', '')::date, CURRENT_DATE),
+    NULLIF(p_po->>'expected_date', '')::date,
+    'pending',
+    NULLIF(p_po->>'notes', ''),
+    COALESCE((p_po->>'subtotal')::numeric, 0),
+    COALESCE((p_po->>'tax')::numeric, 0),
+    COALESCE((p_po->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_po_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.purchase_order_items (po_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_po_id, NULLIF(v_item->>'product_id', '')::uuid, v_item->>'description', v_qty, v_price, v_qty * v_price);
+  END LOOP;
+
+  RETURN v_po_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_purchase_bill(p_bill jsonb, p_items jsonb, p_po_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_po_id IS NOT NULL THEN
+    RETURN public.receive_purchase_order(
+      p_po_id,
+      (SELECT jsonb_agg(jsonb_build_object('po_item_id', id, 'quantity', quantity - received_quantity))
+       FROM public.purchase_order_items WHERE po_id = p_po_id),
+      NULLIF(p_bill->>'bill_date', '')::date
+    );
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_number, customer_name, customer_email, client_id, supplier_id,
+    bill_date, due_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    NULLIF(p_bill->>'supplier_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    NULLIF(p_bill->>'due_date', '')::date,
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    NULLIF(p_bill->>'place_of_supply', ''),
+    NULLIF(p_bill->>'currency_code', ''),
+    COALESCE((p_bill->>'exchange_rate')::numeric, 1),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_bill->>'discount_type', ''), 'percent'),
+    COALESCE((p_bill->>'discount_value')::numeric, 0),
+    COALESCE((p_bill->>'discount_amount')::numeric, 0),
+    COALESCE((p_bill->>'round_off')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('purchase', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.bill_items (
+      bill_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  RETURN v_bill_id;
+END;
+$$;
@@ -0,0 +1,164 @@
+-- Product variants
+-- A product with variant options (e.g. Size: S, M, L and Colour: Red, Blue) is a
+-- parent that holds no stock of its own. Each combination is a row in products
+-- pointing at the parent, with its own SKU, prices, stock and low-stock
+-- threshold, so documents and the stock ledger treat variants like any product.
+-- Variants are named after the parent and share its category, unit, tax and
+-- supplier.
+
+ALTER TABLE public.products
+  ADD COLUMN parent_id uuid REFERENCES public.products(id) ON DELETE CASCADE,
+  -- On a parent: [{"name": "Size", "values": ["S", "M", "L"]}, ...]
+  ADD COLUMN variant_options jsonb,
+  -- On a variant: {"Size": "M", "Colour": "Red"}
+  ADD COLUMN variant_attributes jsonb,
+  ADD CONSTRAINT products_variant_check CHECK (
+    (parent_id IS NULL AND variant_attributes IS NULL)
+    OR (parent_id IS NOT NULL AND parent_id <> id AND variant_attributes IS NOT NULL AND variant_options IS NULL)
+  );
+
+CREATE INDEX idx_products_parent_id ON public.products(parent_id);
+
+-- One variant per combination of options
+CREATE UNIQUE INDEX products_parent_attributes_key
+ON public.products(parent_id, variant_attributes)
+WHERE parent_id IS NOT NULL;
+
+-- The variant's option values in the order of the parent's options, e.g. "M / Red"
+CREATE OR REPLACE FUNCTION public.variant_label(p_options jsonb, p_attributes jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = 'public'
+AS $$
+  SELECT string_agg(p_attributes->>(o.option->>'name'), ' / ' ORDER BY o.ord)
+  FROM jsonb_array_elements(COALESCE(p_options, '[]'::jsonb)) WITH ORDINALITY AS o(option, ord)
+  WHERE p_attributes ? (o.option->>'name');
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_product_variant()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_parent public.products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_parent FROM public.products WHERE id = NEW.parent_id;
+  IF NOT FOUND OR v_parent.user_id <> NEW.user_id THEN
+    RAISE EXCEPTION 'Parent product not found';
+  END IF;
+  IF v_parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A variant cannot have variants of its own';
+  END IF;
+
+  NEW.name := v_parent.name || ' - ' || COALESCE(public.variant_label(v_parent.variant_options, NEW.variant_attributes), '');
+  NEW.category := v_parent.category;
+  NEW.unit := v_parent.unit;
+  NEW.hsn_code := v_parent.hsn_code;
+  NEW.tax_rate := v_parent.tax_rate;
+  NEW.supplier_id := v_parent.supplier_id;
+  NEW.supplier_name := v_parent.supplier_name;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_products_variant
+BEFORE INSERT OR UPDATE ON public.products
+FOR EACH ROW
+WHEN (NEW.parent_id IS NOT NULL)
+EXECUTE FUNCTION public.sync_product_variant();
+
+-- Touching the variants re-runs the sync above with the parent's new values
+CREATE OR REPLACE FUNCTION public.sync_variants_of_product()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  UPDATE public.products SET updated_at = now() WHERE parent_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_products_variants_of_product
+AFTER UPDATE OF name, category, unit, hsn_code, tax_rate, supplier_id, supplier_name, variant_options ON public.products
+FOR EACH ROW
+WHEN (NEW.parent_id IS NULL)
+EXECUTE FUNCTION public.sync_variants_of_product();
+
+-- Replace a product's variant options and variants in one transaction.
+-- Variants with an id are updated, the rest are added, and variants left out
+-- are deleted. A product with variants keeps no stock itself; any stock it had
+-- is expected to be carried into the variants by the caller.
+CREATE OR REPLACE FUNCTION public.save_product_variants(p_product_id uuid, p_options jsonb, p_variants jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_parent public.products%ROWTYPE;
+  v_variant jsonb;
+  v_variant_id uuid;
+  v_keep uuid[] := '{}';
+  v_has_variants boolean := jsonb_array_length(COALESCE(p_variants, '[]'::jsonb)) > 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_parent FROM public.products WHERE id = p_product_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+  IF v_parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A variant cannot have variants of its own';
+  END IF;
+
+  UPDATE public.products
+  SET variant_options = CASE WHEN v_has_variants THEN p_options END,
+      quantity = CASE WHEN v_has_variants THEN 0 ELSE quantity END
+  WHERE id = p_product_id;
+
+  FOR v_variant IN SELECT * FROM jsonb_array_elements(COALESCE(p_variants, '[]'::jsonb))
+  LOOP
+    v_variant_id := NULLIF(v_variant->>'id', '')::uuid;
+
+    IF v_variant_id IS NOT NULL THEN
+      UPDATE public.products
+      SET variant_attributes = v_variant->'variant_attributes',
+          sku = NULLIF(btrim(v_variant->>'sku'), ''),
+          purchase_price = COALESCE((v_variant->>'purchase_price')::numeric, 0),
+          unit_price = COALESCE((v_variant->>'unit_price')::numeric, 0),
+          quantity = COALESCE((v_variant->>'quantity')::integer, 0),
+          low_stock_threshold = COALESCE((v_variant->>'low_stock_threshold')::integer, 0)
+      WHERE id = v_variant_id AND parent_id = p_product_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variant not found';
+      END IF;
+    ELSE
+      INSERT INTO public.products (
+        user_id, name, parent_id, variant_attributes, sku,
+        purchase_price, unit_price, quantity, low_stock_threshold
+      ) VALUES (
+        v_user_id,
+        v_parent.name,
+        p_product_id,
+        v_variant->'variant_attributes',
+        NULLIF(btrim(v_variant->>'sku'), ''),
+        COALESCE((v_variant->>'purchase_price')::numeric, 0),
+        COALESCE((v_variant->>'unit_price')::numeric, 0),
+        COALESCE((v_variant->>'quantity')::integer, 0),
+        COALESCE((v_variant->>'low_stock_threshold')::integer, 0)
+      )
+      RETURNING id INTO v_variant_id;
+    END IF;
+
+    v_keep := v_keep || v_variant_id;
+  END LOOP;
+
+  DELETE FROM public.products
+  WHERE parent_id = p_product_id AND NOT (id = ANY(v_keep));
+END;
+$$;
@@ -0,0 +1,492 @@
+-- Product batches
+-- Stock that arrives in lots (pharmacy, FMCG) is tracked per batch, each with
+-- its own batch number, dates, cost and remaining quantity. Batches follow the
+-- stock ledger: a trigger splits every stock movement of a product with
+-- batches over those batches in stock_movement_batches, so RPCs only describe
+-- the batch of a line through a transaction-local setting.
+--  * Goods received with a batch number go into that batch.
+--  * Stock going out is taken first from batches the same document added to
+--    (a purchase being cancelled), then from the batch picked on the line,
+--    then first-expiry-first-out.
+--  * Stock coming back goes into the batches the document took it from
+--    (cancelled sales and credit notes).
+-- Stock no batch accounts for (opening stock, manual additions) stays
+-- unbatched, so a product's batches never hold more than its stock.
+
+CREATE TABLE public.product_batches (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  batch_number text NOT NULL,
+  manufacturing_date date,
+  expiry_date date,
+  unit_cost numeric NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  received_quantity integer NOT NULL DEFAULT 0,
+  -- Still in stock
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT product_batches_product_batch_key UNIQUE (product_id, batch_number)
+);
+
+CREATE INDEX idx_product_batches_expiry ON public.product_batches(user_id, expiry_date) WHERE quantity > 0;
+
+-- How much of each stock movement came from or went into which batch
+CREATE TABLE public.stock_movement_batches (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  stock_movement_id uuid NOT NULL REFERENCES public.stock_movements(id) ON DELETE CASCADE,
+  batch_id uuid NOT NULL REFERENCES public.product_batches(id) ON DELETE CASCADE,
+  quantity_change integer NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_movement_batches_movement ON public.stock_movement_batches(stock_movement_id);
+CREATE INDEX idx_stock_movement_batches_batch ON public.stock_movement_batches(batch_id);
+
+ALTER TABLE public.product_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_movement_batches ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; rows are only written by the trigger below
+CREATE POLICY "Users can view their own product batches"
+ON public.product_batches FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own stock movement batches"
+ON public.stock_movement_batches FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_product_batches_updated_at
+BEFORE UPDATE ON public.product_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Describe the batch of the next stock change in the current transaction:
+-- {"batch_id": ...} to sell from a particular batch, or {"batch_number": ...,
+-- "manufacturing_date": ..., "expiry_date": ..., "unit_cost": ...} for goods received
+CREATE OR REPLACE FUNCTION public.set_stock_batch_context(p_batch jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM set_config('app.stock_batch', COALESCE(p_batch::text, ''), true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.allocate_stock_batches()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_batch jsonb := NULLIF(current_setting('app.stock_batch', true), '')::jsonb;
+  v_picked_id uuid := NULLIF(v_batch->>'batch_id', '')::uuid;
+  v_remaining integer := abs(NEW.quantity_change);
+  v_document_type text := NEW.source_type;
+  v_document_id uuid := NEW.source_id;
+  v_related uuid[];
+  v_batch_id uuid;
+  v_take integer;
+  v_row record;
+BEGIN
+  IF NEW.quantity_change > 0 AND NEW.reason = 'purchase' AND NULLIF(btrim(v_batch->>'batch_number'), '') IS NOT NULL THEN
+    -- A later delivery of the same batch number tops the batch up
+    INSERT INTO public.product_batches (
+      user_id, product_id, batch_number, manufacturing_date, expiry_date,
+      unit_cost, received_quantity, quantity
+    ) VALUES (
+      NEW.user_id,
+      NEW.product_id,
+      btrim(v_batch->>'batch_number'),
+      NULLIF(v_batch->>'manufacturing_date', '')::date,
+      NULLIF(v_batch->>'expiry_date', '')::date,
+      COALESCE((v_batch->>'unit_cost')::numeric, 0),
+      NEW.quantity_change,
+      NEW.quantity_change
+    )
+    ON CONFLICT (product_id, batch_number) DO UPDATE
+    SET received_quantity = product_batches.received_quantity + EXCLUDED.received_quantity,
+        quantity = product_batches.quantity + EXCLUDED.quantity,
+        manufacturing_date = COALESCE(EXCLUDED.manufacturing_date, product_batches.manufacturing_date),
+        expiry_date = COALESCE(EXCLUDED.expiry_date, product_batches.expiry_date)
+    RETURNING id INTO v_batch_id;
+
+    INSERT INTO public.stock_movement_batches (user_id, stock_movement_id, batch_id, quantity_change)
+    VALUES (NEW.user_id, NEW.id, v_batch_id, NEW.quantity_change);
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.product_batches WHERE product_id = NEW.product_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- A credit note belongs with the invoice or bill it was raised against
+  IF v_document_type = 'credit_note' THEN
+    SELECT CASE WHEN invoice_id IS NOT NULL THEN 'invoice' ELSE 'bill' END, COALESCE(invoice_id, bill_id)
+    INTO v_document_type, v_document_id
+    FROM public.credit_notes
+    WHERE id = NEW.source_id;
+  END IF;
+
+  -- Earlier movements of this product for the same document: the invoice or
+  -- bill with its credit notes, or a PO with its goods receipts
+  SELECT array_agg(m.id) INTO v_related
+  FROM public.stock_movements m
+  WHERE m.product_id = NEW.product_id
+    AND m.id <> NEW.id
+    AND (
+      (m.source_type = v_document_type AND m.source_id = v_document_id)
+      OR (m.source_type = 'credit_note' AND m.source_id IN (
+        SELECT cn.id FROM public.credit_notes cn
+        WHERE (v_document_type = 'invoice' AND cn.invoice_id = v_document_id)
+           OR (v_document_type = 'bill' AND cn.bill_id = v_document_id)
+      ))
+      OR (v_document_type = 'purchase_order' AND m.source_type = 'bill' AND m.source_id IN (
+        SELECT b.id FROM public.bills b WHERE b.po_id = v_document_id
+      ))
+    );
+
+  IF NEW.quantity_change > 0 THEN
+    FOR v_row IN
+      SELECT smb.batch_id, -sum(smb.quantity_change)::integer AS available
+      FROM public.stock_movement_batches smb
+      WHERE smb.stock_movement_id = ANY(COALESCE(v_related, '{}'))
+      GROUP BY smb.batch_id
+      HAVING sum(smb.quantity_change) < 0
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_row.available);
+      UPDATE public.product_batches SET quantity = quantity + v_take WHERE id = v_row.batch_id;
+      INSERT INTO public.stock_movement_batches (user_id, stock_movement_id, batch_id, quantity_change)
+      VALUES (NEW.user_id, NEW.id, v_row.batch_id, v_take);
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+  ELSE
+    FOR v_row IN
+      SELECT b.id AS batch_id, b.quantity AS available
+      FROM public.product_batches b
+      LEFT JOIN (
+        SELECT smb.batch_id, sum(smb.quantity_change) AS added
+        FROM public.stock_movement_batches smb
+        WHERE smb.stock_movement_id = ANY(COALESCE(v_related, '{}'))
+        GROUP BY smb.batch_id
+      ) document ON document.batch_id = b.id
+      WHERE b.product_id = NEW.product_id AND b.quantity > 0
+      ORDER BY
+        COALESCE(document.added, 0) > 0 DESC,
+        b.id IS NOT DISTINCT FROM v_picked_id DESC,
+        b.expiry_date NULLS LAST,
+        b.created_at
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_row.available);
+      UPDATE public.product_batches SET quantity = quantity - v_take WHERE id = v_row.batch_id;
+      INSERT INTO public.stock_movement_batches (user_id, stock_movement_id, batch_id, quantity_change)
+      VALUES (NEW.user_id, NEW.id, v_row.batch_id, -v_take);
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER allocate_stock_movement_batches
+AFTER INSERT ON public.stock_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.allocate_stock_batches();
+
+-- Stock of products that already carry an expiry date becomes their first batch
+INSERT INTO public.product_batches (
+  user_id, product_id, batch_number, manufacturing_date, expiry_date,
+  unit_cost, received_quantity, quantity
+)
+SELECT user_id, id, 'OPENING', manufacturing_date, expiry_date, purchase_price, quantity, quantity
+FROM public.products
+WHERE expiry_date IS NOT NULL AND quantity > 0;
+
+-- Sales name the batch picked on each line, and goods receipts the batch
+-- delivered. Otherwise unchanged.
+
+CREATE OR REPLACE FUNCTION public.create_invoice_for_user(p_user_id uuid, p_invoice jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := p_user_id;
+  v_invoice_id uuid;
+  v_invoice_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  INSERT INTO public.invoices (
+    user_id, invoice_number, customer_name, customer_email, client_id,
+    issue_date, due_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    p_invoice->>'invoice_number',
+    p_invoice->>'customer_name',
+    NULLIF(p_invoice->>'customer_email', ''),
+    NULLIF(p_invoice->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_invoice->>'issue_date', '')::date, CURRENT_DATE),
+    NULLIF(p_invoice->>'due_date', '')::date,
+    COALESCE(NULLIF(p_invoice->>'status', ''), 'draft'),
+    NULLIF(p_invoice->>'notes', ''),
+    NULLIF(p_invoice->>'place_of_supply', ''),
+    NULLIF(p_invoice->>'currency_code', ''),
+    COALESCE((p_invoice->>'exchange_rate')::numeric, 1),
+    COALESCE((p_invoice->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_invoice->>'discount_type', ''), 'percent'),
+    COALESCE((p_invoice->>'discount_value')::numeric, 0),
+    COALESCE((p_invoice->>'discount_amount')::numeric, 0),
+    COALESCE((p_invoice->>'round_off')::numeric, 0),
+    COALESCE((p_invoice->>'tax')::numeric, 0),
+    COALESCE((p_invoice->>'total')::numeric, 0)
+  )
+  RETURNING id, invoice_number INTO v_invoice_id, v_invoice_number;
+
+  PERFORM public.set_stock_movement_context('sale', 'invoice', v_invoice_id, v_invoice_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.invoice_items (
+      invoice_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_invoice_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      PERFORM public.set_stock_batch_context(jsonb_build_object('batch_id', v_item->>'batch_id'));
+      UPDATE public.products
+      SET quantity = GREATEST(quantity - v_qty, 0)
+      WHERE id = v_product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  PERFORM public.set_stock_batch_context(NULL);
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_sale_bill(p_bill jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill_id uuid;
+  v_bill_number text;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+  v_price numeric;
+  v_discount numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.bills (
+    user_id, bill_type, bill_number, customer_name, customer_email, client_id,
+    bill_date, status, notes, place_of_supply,
+    currency_code, exchange_rate,
+    subtotal, discount_type, discount_value, discount_amount, round_off, tax, total
+  ) VALUES (
+    v_user_id,
+    'sale',
+    p_bill->>'bill_number',
+    p_bill->>'customer_name',
+    NULLIF(p_bill->>'customer_email', ''),
+    NULLIF(p_bill->>'client_id', '')::uuid,
+    COALESCE(NULLIF(p_bill->>'bill_date', '')::date, CURRENT_DATE),
+    'active',
+    NULLIF(p_bill->>'notes', ''),
+    NULLIF(p_bill->>'place_of_supply', ''),
+    NULLIF(p_bill->>'currency_code', ''),
+    COALESCE((p_bill->>'exchange_rate')::numeric, 1),
+    COALESCE((p_bill->>'subtotal')::numeric, 0),
+    COALESCE(NULLIF(p_bill->>'discount_type', ''), 'percent'),
+    COALESCE((p_bill->>'discount_value')::numeric, 0),
+    COALESCE((p_bill->>'discount_amount')::numeric, 0),
+    COALESCE((p_bill->>'round_off')::numeric, 0),
+    COALESCE((p_bill->>'tax')::numeric, 0),
+    COALESCE((p_bill->>'total')::numeric, 0)
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('sale', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+    v_discount := LEAST(COALESCE((v_item->>'discount_amount')::numeric, 0), v_qty * v_price);
+
+    INSERT INTO public.bill_items (
+      bill_id, product_id, description, quantity, unit_price, amount,
+      discount_type, discount_value, discount_amount,
+      hsn_code, tax_rate, cgst, sgst, igst
+    ) VALUES (
+      v_bill_id, v_product_id, v_item->>'description', v_qty, v_price, v_qty * v_price - v_discount,
+      COALESCE(NULLIF(v_item->>'discount_type', ''), 'percent'),
+      COALESCE((v_item->>'discount_value')::numeric, 0),
+      v_discount,
+      NULLIF(v_item->>'hsn_code', ''),
+      COALESCE((v_item->>'tax_rate')::numeric, 0),
+      COALESCE((v_item->>'cgst')::numeric, 0),
+      COALESCE((v_item->>'sgst')::numeric, 0),
+      COALESCE((v_item->>'igst')::numeric, 0)
+    );
+
+    IF v_product_id IS NOT NULL THEN
+      PERFORM public.set_stock_batch_context(jsonb_build_object('batch_id', v_item->>'batch_id'));
+      UPDATE public.products
+      SET quantity = quantity - v_qty
+      WHERE id = v_product_id AND user_id = v_user_id AND quantity >= v_qty;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough stock for %', v_item->>'description';
+      END IF;
+    END IF;
+  END LOOP;
+
+  PERFORM public.set_stock_batch_context(NULL);
+
+  RETURN v_bill_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_po_id uuid, p_lines jsonb, p_bill_date date DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_bill_id uuid;
+  v_bill_number text;
+  v_line jsonb;
+  v_item public.purchase_order_items%ROWTYPE;
+  v_qty integer;
+  v_subtotal numeric := 0;
+  v_tax numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the PO so two devices cannot receive the same quantities
+  SELECT * INTO v_po FROM public.purchase_orders
+  WHERE id = p_po_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_po.status NOT IN ('pending', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is %', v_po.po_number, replace(v_po.status, '_', ' ');
+  END IF;
+
+  INSERT INTO public.bills (user_id, customer_name, customer_email, bill_date, status, notes, po_id)
+  VALUES (
+    v_user_id,
+    v_po.supplier_name,
+    v_po.supplier_email,
+    COALESCE(p_bill_date, CURRENT_DATE),
+    'active',
+    'Received against ' || v_po.po_number,
+    v_po.id
+  )
+  RETURNING id, bill_number INTO v_bill_id, v_bill_number;
+
+  PERFORM public.set_stock_movement_context('purchase', 'bill', v_bill_id, v_bill_number);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+  LOOP
+    v_qty := (v_line->>'quantity')::integer;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item FROM public.purchase_order_items
+    WHERE id = (v_line->>'po_item_id')::uuid AND po_id = v_po.id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item does not belong to %', v_po.po_number;
+    END IF;
+
+    IF v_qty > v_item.quantity - v_item.received_quantity THEN
+      RAISE EXCEPTION 'Only % of % is still outstanding', v_item.quantity - v_item.received_quantity, v_item.description;
+    END IF;
+
+    INSERT INTO public.bill_items (bill_id, product_id, po_item_id, description, quantity, unit_price, amount)
+    VALUES (v_bill_id, v_item.product_id, v_item.id, v_item.description, v_qty, v_item.unit_price, v_qty * v_item.unit_price);
+
+    UPDATE public.purchase_order_items
+    SET received_quantity = received_quantity + v_qty
+    WHERE id = v_item.id;
+
+    IF v_item.product_id IS NOT NULL THEN
+      PERFORM public.set_stock_batch_context(jsonb_build_object(
+        'batch_number', v_line->>'batch_number',
+        'manufacturing_date', v_line->>'manufacturing_date',
+        'expiry_date', v_line->>'expiry_date',
+        'unit_cost', v_item.unit_price
+      ));
+      UPDATE public.products
+      SET quantity = quantity + v_qty
+      WHERE id = v_item.product_id AND user_id = v_user_id;
+    END IF;
+
+    v_subtotal := v_subtotal + v_qty * v_item.unit_price;
+  END LOOP;
+
+  PERFORM public.set_stock_batch_context(NULL);
+
+  IF NOT EXISTS (SELECT 1 FROM public.bill_items WHERE bill_id = v_bill_id) THEN
+    RAISE EXCEPTION 'Enter the quantity received for at least one item';
+  END IF;
+
+  -- Tax in the same proportion as on the PO
+  v_tax := CASE WHEN v_po.subtotal > 0 THEN round(v_subtotal * v_po.tax / v_po.subtotal, 2) ELSE 0 END;
+
+  UPDATE public.bills
+  SET subtotal = v_subtotal, tax = v_tax, total = v_subtotal + v_tax
+  WHERE id = v_bill_id;
+
+  PERFORM public.refresh_purchase_order_status(v_po.id);
+
+  RETURN v_bill_id;
+END;
+$$;
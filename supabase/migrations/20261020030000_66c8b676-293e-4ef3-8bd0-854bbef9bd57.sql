@@ -0,0 +1,515 @@
+-- Stock locations
+-- Stock is held at locations (shop floor, godown, a second outlet).
+-- products.quantity stays the total across locations; location_stock holds the
+-- split. Every stock movement is posted to a location and a trigger keeps
+-- location_stock in step with the ledger:
+--  * sales and receipts post to the user's default location, which is also
+--    recorded on the invoice or bill;
+--  * cancellations, deletions and credit notes post back to the location of
+--    the document they undo;
+--  * transfers move stock between two locations without changing the total,
+--    as a pair of movements with reason 'transfer'.
+-- A location can go below zero when stock is sold from where the books say it
+-- is not; a transfer puts it right. products.storage_location is kept as the
+-- shelf or bin within a location.
+
+CREATE TABLE public.locations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT locations_name_check CHECK (btrim(name) <> '')
+);
+
+CREATE UNIQUE INDEX locations_user_name_key ON public.locations(user_id, lower(btrim(name)));
+-- At most one default per user
+CREATE UNIQUE INDEX locations_user_default_key ON public.locations(user_id) WHERE is_default;
+
+CREATE TABLE public.location_stock (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  location_id uuid NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 0,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT location_stock_location_product_key UNIQUE (location_id, product_id)
+);
+
+CREATE INDEX idx_location_stock_product ON public.location_stock(product_id);
+
+CREATE TABLE public.stock_transfers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  transfer_number text NOT NULL DEFAULT '',
+  from_location_id uuid NOT NULL REFERENCES public.locations(id),
+  to_location_id uuid NOT NULL REFERENCES public.locations(id),
+  transfer_date date NOT NULL DEFAULT CURRENT_DATE,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT stock_transfers_locations_check CHECK (from_location_id <> to_location_id)
+);
+
+CREATE TABLE public.stock_transfer_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transfer_id uuid NOT NULL REFERENCES public.stock_transfers(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  quantity integer NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT stock_transfer_items_quantity_check CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_stock_transfers_user_date ON public.stock_transfers(user_id, transfer_date DESC);
+CREATE INDEX idx_stock_transfer_items_transfer ON public.stock_transfer_items(transfer_id);
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.location_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own locations"
+ON public.locations FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own locations"
+ON public.locations FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own locations"
+ON public.locations FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own locations"
+ON public.locations FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Read-only for users; rows are only written by the trigger below
+CREATE POLICY "Users can view their own location stock"
+ON public.location_stock FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Transfers are made through create_stock_transfer and never edited, to keep
+-- the stock ledger consistent
+CREATE POLICY "Users can view their own stock transfers"
+ON public.stock_transfers FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own stock transfers"
+ON public.stock_transfers FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own stock transfer items"
+ON public.stock_transfer_items FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.stock_transfers
+  WHERE stock_transfers.id = stock_transfer_items.transfer_id
+  AND stock_transfers.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create their own stock transfer items"
+ON public.stock_transfer_items FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.stock_transfers
+  WHERE stock_transfers.id = stock_transfer_items.transfer_id
+  AND stock_transfers.user_id = auth.uid()
+));
+
+CREATE TRIGGER update_locations_updated_at
+BEFORE UPDATE ON public.locations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_location_stock_updated_at
+BEFORE UPDATE ON public.location_stock
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_stock_transfers_updated_at
+BEFORE UPDATE ON public.stock_transfers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A location can only go once it holds no stock, and the default cannot go at all
+CREATE OR REPLACE FUNCTION public.check_location_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF OLD.is_default THEN
+    RAISE EXCEPTION 'Make another location the default before deleting %', OLD.name;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.location_stock WHERE location_id = OLD.id AND quantity <> 0) THEN
+    RAISE EXCEPTION '% still holds stock; transfer it out first', OLD.name;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER check_locations_delete
+BEFORE DELETE ON public.locations
+FOR EACH ROW
+EXECUTE FUNCTION public.check_location_delete();
+
+-- The user's default location. Without one, their oldest location becomes the
+-- default, or "Main" is created for users with no locations yet.
+CREATE OR REPLACE FUNCTION public.default_location_id(p_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_location_id uuid;
+BEGIN
+  SELECT id INTO v_location_id FROM public.locations WHERE user_id = p_user_id AND is_default;
+  IF v_location_id IS NOT NULL THEN
+    RETURN v_location_id;
+  END IF;
+
+  SELECT id INTO v_location_id FROM public.locations WHERE user_id = p_user_id ORDER BY created_at LIMIT 1;
+  IF v_location_id IS NULL THEN
+    INSERT INTO public.locations (user_id, name, is_default)
+    VALUES (p_user_id, 'Main', true)
+    RETURNING id INTO v_location_id;
+  ELSE
+    UPDATE public.locations SET is_default = true WHERE id = v_location_id;
+  END IF;
+  RETURN v_location_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_default_location(p_location_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.locations WHERE id = p_location_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  -- Two statements, as the unique index allows only one default at any moment
+  UPDATE public.locations SET is_default = false WHERE user_id = v_user_id AND is_default AND id <> p_location_id;
+  UPDATE public.locations SET is_default = true WHERE id = p_location_id;
+END;
+$$;
+
+-- Invoices and bills remember the location their stock moved at
+ALTER TABLE public.invoices ADD COLUMN location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL;
+ALTER TABLE public.bills ADD COLUMN location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.assign_document_location()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  NEW.location_id := COALESCE(NEW.location_id, public.default_location_id(NEW.user_id));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_invoice_location
+BEFORE INSERT ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_document_location();
+
+CREATE TRIGGER assign_bill_location
+BEFORE INSERT ON public.bills
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_document_location();
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL,
+  DROP CONSTRAINT stock_movements_reason_check,
+  DROP CONSTRAINT stock_movements_source_type_check;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+    'opening', 'sale', 'purchase', 'invoice_cancelled', 'invoice_deleted',
+    'bill_cancelled', 'bill_deleted', 'receive_undone', 'manual_edit', 'sales_return',
+    'transfer'
+  )),
+  ADD CONSTRAINT stock_movements_source_type_check CHECK (source_type IN (
+    'invoice', 'bill', 'purchase_order', 'credit_note', 'stock_transfer'
+  ));
+
+CREATE INDEX idx_stock_movements_location ON public.stock_movements(location_id);
+
+-- Where a stock change caused by a document is posted
+CREATE OR REPLACE FUNCTION public.stock_movement_location(p_user_id uuid, p_source_type text, p_source_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_location_id uuid;
+BEGIN
+  IF p_source_type = 'invoice' THEN
+    SELECT location_id INTO v_location_id FROM public.invoices WHERE id = p_source_id;
+  ELSIF p_source_type = 'bill' THEN
+    SELECT location_id INTO v_location_id FROM public.bills WHERE id = p_source_id;
+  ELSIF p_source_type = 'credit_note' THEN
+    SELECT COALESCE(i.location_id, b.location_id) INTO v_location_id
+    FROM public.credit_notes cn
+    LEFT JOIN public.invoices i ON i.id = cn.invoice_id
+    LEFT JOIN public.bills b ON b.id = cn.bill_id
+    WHERE cn.id = p_source_id;
+  ELSIF p_source_type = 'purchase_order' THEN
+    SELECT location_id INTO v_location_id FROM public.bills
+    WHERE po_id = p_source_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN COALESCE(v_location_id, public.default_location_id(p_user_id));
+END;
+$$;
+
+-- As before, now posting each movement to a location
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_change integer;
+  v_source_type text := NULLIF(current_setting('app.stock_source_type', true), '');
+  v_source_id uuid := NULLIF(current_setting('app.stock_source_id', true), '')::uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_change := NEW.quantity;
+  ELSE
+    v_change := NEW.quantity - OLD.quantity;
+  END IF;
+
+  IF v_change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    user_id, product_id, quantity_change, balance_after,
+    reason, source_type, source_id, reference, location_id
+  ) VALUES (
+    NEW.user_id,
+    NEW.id,
+    v_change,
+    NEW.quantity,
+    COALESCE(
+      NULLIF(current_setting('app.stock_reason', true), ''),
+      CASE WHEN TG_OP = 'INSERT' THEN 'opening' ELSE 'manual_edit' END
+    ),
+    v_source_type,
+    v_source_id,
+    NULLIF(current_setting('app.stock_reference', true), ''),
+    public.stock_movement_location(NEW.user_id, v_source_type, v_source_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_location_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  INSERT INTO public.location_stock (user_id, location_id, product_id, quantity)
+  VALUES (NEW.user_id, NEW.location_id, NEW.product_id, NEW.quantity_change)
+  ON CONFLICT (location_id, product_id) DO UPDATE
+  SET quantity = location_stock.quantity + EXCLUDED.quantity;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_stock_movement_location
+AFTER INSERT ON public.stock_movements
+FOR EACH ROW
+WHEN (NEW.location_id IS NOT NULL)
+EXECUTE FUNCTION public.apply_location_stock();
+
+-- Moving stock between locations leaves its batches as they are
+DROP TRIGGER allocate_stock_movement_batches ON public.stock_movements;
+
+CREATE TRIGGER allocate_stock_movement_batches
+AFTER INSERT ON public.stock_movements
+FOR EACH ROW
+WHEN (NEW.reason <> 'transfer')
+EXECUTE FUNCTION public.allocate_stock_batches();
+
+-- Each transfer line moves stock out of one location and into the other
+CREATE OR REPLACE FUNCTION public.log_stock_transfer_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_product public.products%ROWTYPE;
+  v_available integer;
+BEGIN
+  SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = NEW.transfer_id;
+
+  SELECT * INTO v_product FROM public.products
+  WHERE id = NEW.product_id AND user_id = v_transfer.user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  SELECT quantity INTO v_available FROM public.location_stock
+  WHERE location_id = v_transfer.from_location_id AND product_id = NEW.product_id;
+  IF COALESCE(v_available, 0) < NEW.quantity THEN
+    RAISE EXCEPTION 'Only % of % at the source location', GREATEST(COALESCE(v_available, 0), 0), v_product.name;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    user_id, product_id, quantity_change, balance_after,
+    reason, source_type, source_id, reference, location_id
+  ) VALUES
+    (v_transfer.user_id, NEW.product_id, -NEW.quantity, v_product.quantity,
+     'transfer', 'stock_transfer', v_transfer.id, v_transfer.transfer_number, v_transfer.from_location_id),
+    (v_transfer.user_id, NEW.product_id, NEW.quantity, v_product.quantity,
+     'transfer', 'stock_transfer', v_transfer.id, v_transfer.transfer_number, v_transfer.to_location_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_stock_transfer_items
+AFTER INSERT ON public.stock_transfer_items
+FOR EACH ROW
+EXECUTE FUNCTION public.log_stock_transfer_item();
+
+CREATE OR REPLACE FUNCTION public.default_document_prefix(p_user_id uuid, p_document_type text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN COALESCE((SELECT invoice_prefix FROM public.user_settings WHERE user_id = p_user_id), 'INV-')
+    WHEN 'bill' THEN COALESCE((SELECT bill_prefix FROM public.user_settings WHERE user_id = p_user_id), 'BILL-')
+    WHEN 'purchase_order' THEN 'PO-'
+    WHEN 'credit_note' THEN 'CN-'
+    WHEN 'stock_transfer' THEN 'TRF-'
+    ELSE upper(p_document_type) || '-'
+  END;
+$$;
+
+CREATE TRIGGER assign_stock_transfer_number
+BEFORE INSERT ON public.stock_transfers
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_document_number('stock_transfer', 'transfer_number', 'transfer_date');
+
+-- Move stock between two locations in one transaction.
+-- p_items: [{"product_id": ..., "quantity": ...}]
+CREATE OR REPLACE FUNCTION public.create_stock_transfer(p_transfer jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_from_id uuid := NULLIF(p_transfer->>'from_location_id', '')::uuid;
+  v_to_id uuid := NULLIF(p_transfer->>'to_location_id', '')::uuid;
+  v_transfer_id uuid;
+  v_item jsonb;
+  v_product_id uuid;
+  v_qty integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF (SELECT count(*) FROM public.locations WHERE id IN (v_from_id, v_to_id) AND user_id = v_user_id) <> 2 THEN
+    RAISE EXCEPTION 'Choose two different locations';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to transfer';
+  END IF;
+
+  INSERT INTO public.stock_transfers (user_id, from_location_id, to_location_id, transfer_date, notes)
+  VALUES (
+    v_user_id,
+    v_from_id,
+    v_to_id,
+    COALESCE(NULLIF(p_transfer->>'transfer_date', '')::date, CURRENT_DATE),
+    NULLIF(btrim(p_transfer->>'notes'), '')
+  )
+  RETURNING id INTO v_transfer_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_product_id := NULLIF(v_item->>'product_id', '')::uuid;
+    v_qty := (v_item->>'quantity')::integer;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      RAISE EXCEPTION 'Transfer quantities must be positive';
+    END IF;
+
+    INSERT INTO public.stock_transfer_items (transfer_id, product_id, description, quantity)
+    SELECT v_transfer_id, id, name, v_qty
+    FROM public.products
+    WHERE id = v_product_id AND user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found';
+    END IF;
+  END LOOP;
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_stock_transfer(jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_stock_transfer(jsonb, jsonb) TO authenticated;
+REVOKE ALL ON FUNCTION public.set_default_location(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_default_location(uuid) TO authenticated;
+
+-- Existing stock starts out at a "Main" location
+INSERT INTO public.locations (user_id, name, is_default)
+SELECT DISTINCT user_id, 'Main', true
+FROM public.products;
+
+UPDATE public.stock_movements m
+SET location_id = l.id
+FROM public.locations l
+WHERE l.user_id = m.user_id AND l.is_default;
+
+UPDATE public.invoices i
+SET location_id = l.id
+FROM public.locations l
+WHERE l.user_id = i.user_id AND l.is_default;
+
+UPDATE public.bills b
+SET location_id = l.id
+FROM public.locations l
+WHERE l.user_id = b.user_id AND l.is_default;
+
+INSERT INTO public.location_stock (user_id, location_id, product_id, quantity)
+SELECT p.user_id, l.id, p.id, p.quantity
+FROM public.products p
+JOIN public.locations l ON l.user_id = p.user_id AND l.is_default
+WHERE p.quantity <> 0;
@@ -0,0 +1,289 @@
+-- Stock takes
+-- A stock take counts what is physically at one location and corrects the
+-- books to match, leaving a trail of why stock changed:
+--  * start_stock_take freezes the system quantity of every product at the
+--    location as the snapshot counts are compared against;
+--  * counted quantities and a reason code (damage, theft, count error...) are
+--    entered on the lines while the take is 'counting';
+--  * post_stock_take adjusts stock by each line's variance (counted minus
+--    snapshot) as 'stock_take' movements at the location, so sales made while
+--    counting are not undone. Lines left uncounted are not adjusted.
+-- Posted lines keep the variance and its value at cost for the shrinkage report.
+
+CREATE TABLE public.stock_takes (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  take_number text NOT NULL DEFAULT '',
+  location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL,
+  take_date date NOT NULL DEFAULT CURRENT_DATE,
+  status text NOT NULL DEFAULT 'counting',
+  notes text,
+  posted_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT stock_takes_status_check CHECK (status IN ('counting', 'posted'))
+);
+
+CREATE TABLE public.stock_take_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  stock_take_id uuid NOT NULL REFERENCES public.stock_takes(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  sku text,
+  unit text,
+  -- Snapshot taken when the stock take started
+  system_quantity integer NOT NULL,
+  unit_cost numeric NOT NULL DEFAULT 0,
+  -- NULL until counted
+  counted_quantity integer,
+  reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT stock_take_items_counted_check CHECK (counted_quantity >= 0),
+  CONSTRAINT stock_take_items_reason_check CHECK (reason IN ('count_error', 'damage', 'theft', 'expired', 'other'))
+);
+
+CREATE INDEX idx_stock_takes_user_date ON public.stock_takes(user_id, take_date DESC);
+CREATE INDEX idx_stock_take_items_take ON public.stock_take_items(stock_take_id);
+-- One take in progress per location
+CREATE UNIQUE INDEX stock_takes_location_counting_key ON public.stock_takes(location_id) WHERE status = 'counting';
+
+ALTER TABLE public.stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_take_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own stock takes"
+ON public.stock_takes FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own stock takes"
+ON public.stock_takes FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own stock takes"
+ON public.stock_takes FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id AND status = 'counting');
+
+-- A posted take is part of the stock history and stays
+CREATE POLICY "Users can delete their own stock takes"
+ON public.stock_takes FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id AND status = 'counting');
+
+CREATE POLICY "Users can view their own stock take items"
+ON public.stock_take_items FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.stock_takes
+  WHERE stock_takes.id = stock_take_items.stock_take_id
+  AND stock_takes.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create their own stock take items"
+ON public.stock_take_items FOR INSERT
+TO authenticated
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.stock_takes
+  WHERE stock_takes.id = stock_take_items.stock_take_id
+  AND stock_takes.user_id = auth.uid()
+  AND stock_takes.status = 'counting'
+));
+
+CREATE POLICY "Users can update their own stock take items"
+ON public.stock_take_items FOR UPDATE
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.stock_takes
+  WHERE stock_takes.id = stock_take_items.stock_take_id
+  AND stock_takes.user_id = auth.uid()
+  AND stock_takes.status = 'counting'
+));
+
+CREATE TRIGGER update_stock_takes_updated_at
+BEFORE UPDATE ON public.stock_takes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_stock_take_items_updated_at
+BEFORE UPDATE ON public.stock_take_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.default_document_prefix(p_user_id uuid, p_document_type text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT CASE p_document_type
+    WHEN 'invoice' THEN COALESCE((SELECT invoice_prefix FROM public.user_settings WHERE user_id = p_user_id), 'INV-')
+    WHEN 'bill' THEN COALESCE((SELECT bill_prefix FROM public.user_settings WHERE user_id = p_user_id), 'BILL-')
+    WHEN 'purchase_order' THEN 'PO-'
+    WHEN 'credit_note' THEN 'CN-'
+    WHEN 'stock_transfer' THEN 'TRF-'
+    WHEN 'stock_take' THEN 'ST-'
+    ELSE upper(p_document_type) || '-'
+  END;
+$$;
+
+CREATE TRIGGER assign_stock_take_number
+BEFORE INSERT ON public.stock_takes
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_document_number('stock_take', 'take_number', 'take_date');
+
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_reason_check,
+  DROP CONSTRAINT stock_movements_source_type_check;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+    'opening', 'sale', 'purchase', 'invoice_cancelled', 'invoice_deleted',
+    'bill_cancelled', 'bill_deleted', 'receive_undone', 'manual_edit', 'sales_return',
+    'transfer', 'stock_take'
+  )),
+  ADD CONSTRAINT stock_movements_source_type_check CHECK (source_type IN (
+    'invoice', 'bill', 'purchase_order', 'credit_note', 'stock_transfer', 'stock_take'
+  ));
+
+-- As before, with stock take adjustments posted at the counted location
+CREATE OR REPLACE FUNCTION public.stock_movement_location(p_user_id uuid, p_source_type text, p_source_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_location_id uuid;
+BEGIN
+  IF p_source_type = 'invoice' THEN
+    SELECT location_id INTO v_location_id FROM public.invoices WHERE id = p_source_id;
+  ELSIF p_source_type = 'bill' THEN
+    SELECT location_id INTO v_location_id FROM public.bills WHERE id = p_source_id;
+  ELSIF p_source_type = 'credit_note' THEN
+    SELECT COALESCE(i.location_id, b.location_id) INTO v_location_id
+    FROM public.credit_notes cn
+    LEFT JOIN public.invoices i ON i.id = cn.invoice_id
+    LEFT JOIN public.bills b ON b.id = cn.bill_id
+    WHERE cn.id = p_source_id;
+  ELSIF p_source_type = 'purchase_order' THEN
+    SELECT location_id INTO v_location_id FROM public.bills
+    WHERE po_id = p_source_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+  ELSIF p_source_type = 'stock_take' THEN
+    SELECT location_id INTO v_location_id FROM public.stock_takes WHERE id = p_source_id;
+  END IF;
+
+  RETURN COALESCE(v_location_id, public.default_location_id(p_user_id));
+END;
+$$;
+
+-- Start counting a location (the default one if none is given): one line per
+-- product with its stock there now
+CREATE OR REPLACE FUNCTION public.start_stock_take(p_location_id uuid DEFAULT NULL, p_notes text DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_location_id uuid;
+  v_stock_take_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_location_id := COALESCE(p_location_id, public.default_location_id(v_user_id));
+  IF NOT EXISTS (SELECT 1 FROM public.locations WHERE id = v_location_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_takes WHERE location_id = v_location_id AND status = 'counting') THEN
+    RAISE EXCEPTION 'A stock take is already in progress at this location';
+  END IF;
+
+  INSERT INTO public.stock_takes (user_id, location_id, notes)
+  VALUES (v_user_id, v_location_id, NULLIF(btrim(p_notes), ''))
+  RETURNING id INTO v_stock_take_id;
+
+  -- Variant parents hold no stock of their own
+  INSERT INTO public.stock_take_items (stock_take_id, product_id, description, sku, unit, system_quantity, unit_cost)
+  SELECT v_stock_take_id, p.id, p.name, p.sku, p.unit, COALESCE(ls.quantity, 0), COALESCE(p.purchase_price, 0)
+  FROM public.products p
+  LEFT JOIN public.location_stock ls ON ls.product_id = p.id AND ls.location_id = v_location_id
+  WHERE p.user_id = v_user_id AND p.variant_options IS NULL
+  ORDER BY p.name;
+
+  RETURN v_stock_take_id;
+END;
+$$;
+
+-- Adjust stock by the counted variances and close the stock take.
+-- Returns the number of products adjusted.
+CREATE OR REPLACE FUNCTION public.post_stock_take(p_stock_take_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_take public.stock_takes%ROWTYPE;
+  v_item record;
+  v_quantity integer;
+  v_adjusted integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_take FROM public.stock_takes
+  WHERE id = p_stock_take_id AND user_id = v_user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found';
+  END IF;
+  IF v_take.status <> 'counting' THEN
+    RAISE EXCEPTION 'This stock take has already been posted';
+  END IF;
+
+  UPDATE public.stock_take_items
+  SET reason = COALESCE(reason, 'count_error')
+  WHERE stock_take_id = p_stock_take_id
+    AND counted_quantity IS NOT NULL
+    AND counted_quantity <> system_quantity;
+
+  PERFORM public.set_stock_movement_context('stock_take', 'stock_take', v_take.id, v_take.take_number);
+
+  FOR v_item IN
+    SELECT product_id, description, counted_quantity - system_quantity AS variance
+    FROM public.stock_take_items
+    WHERE stock_take_id = p_stock_take_id
+      AND product_id IS NOT NULL
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> system_quantity
+  LOOP
+    SELECT quantity INTO v_quantity FROM public.products
+    WHERE id = v_item.product_id AND user_id = v_user_id
+    FOR UPDATE;
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_quantity + v_item.variance < 0 THEN
+      RAISE EXCEPTION 'Posting would take % below zero stock', v_item.description;
+    END IF;
+
+    UPDATE public.products SET quantity = quantity + v_item.variance WHERE id = v_item.product_id;
+    v_adjusted := v_adjusted + 1;
+  END LOOP;
+
+  UPDATE public.stock_takes SET status = 'posted', posted_at = now() WHERE id = p_stock_take_id;
+
+  RETURN v_adjusted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.start_stock_take(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_stock_take(uuid, text) TO authenticated;
+REVOKE ALL ON FUNCTION public.post_stock_take(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_stock_take(uuid) TO authenticated;
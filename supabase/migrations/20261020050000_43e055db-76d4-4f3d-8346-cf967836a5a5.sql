@@ -0,0 +1,84 @@
+-- Product barcodes
+-- The code printed on a product's packaging (EAN/UPC or an in-house label),
+-- looked up when scanning at the counter. Kept apart from the SKU, which is
+-- the shop's own reference. A code identifies one product of a user.
+
+ALTER TABLE public.products ADD COLUMN barcode text;
+
+CREATE UNIQUE INDEX products_user_barcode_key ON public.products(user_id, barcode)
+WHERE barcode IS NOT NULL AND barcode <> '';
+
+-- As before, with a barcode per variant, as each variant has its own packaging
+CREATE OR REPLACE FUNCTION public.save_product_variants(p_product_id uuid, p_options jsonb, p_variants jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_parent public.products%ROWTYPE;
+  v_variant jsonb;
+  v_variant_id uuid;
+  v_keep uuid[] := '{}';
+  v_has_variants boolean := jsonb_array_length(COALESCE(p_variants, '[]'::jsonb)) > 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_parent FROM public.products WHERE id = p_product_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+  IF v_parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A variant cannot have variants of its own';
+  END IF;
+
+  UPDATE public.products
+  SET variant_options = CASE WHEN v_has_variants THEN p_options END,
+      quantity = CASE WHEN v_has_variants THEN 0 ELSE quantity END
+  WHERE id = p_product_id;
+
+  FOR v_variant IN SELECT * FROM jsonb_array_elements(COALESCE(p_variants, '[]'::jsonb))
+  LOOP
+    v_variant_id := NULLIF(v_variant->>'id', '')::uuid;
+
+    IF v_variant_id IS NOT NULL THEN
+      UPDATE public.products
+      SET variant_attributes = v_variant->'variant_attributes',
+          sku = NULLIF(btrim(v_variant->>'sku'), ''),
+          barcode = NULLIF(btrim(v_variant->>'barcode'), ''),
+          purchase_price = COALESCE((v_variant->>'purchase_price')::numeric, 0),
+          unit_price = COALESCE((v_variant->>'unit_price')::numeric, 0),
+          quantity = COALESCE((v_variant->>'quantity')::integer, 0),
+          low_stock_threshold = COALESCE((v_variant->>'low_stock_threshold')::integer, 0)
+      WHERE id = v_variant_id AND parent_id = p_product_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variant not found';
+      END IF;
+    ELSE
+      INSERT INTO public.products (
+        user_id, name, parent_id, variant_attributes, sku, barcode,
+        purchase_price, unit_price, quantity, low_stock_threshold
+      ) VALUES (
+        v_user_id,
+        v_parent.name,
+        p_product_id,
+        v_variant->'variant_attributes',
+        NULLIF(btrim(v_variant->>'sku'), ''),
+        NULLIF(btrim(v_variant->>'barcode'), ''),
+        COALESCE((v_variant->>'purchase_price')::numeric, 0),
+        COALESCE((v_variant->>'unit_price')::numeric, 0),
+        COALESCE((v_variant->>'quantity')::integer, 0),
+        COALESCE((v_variant->>'low_stock_threshold')::integer, 0)
+      )
+      RETURNING id INTO v_variant_id;
+    END IF;
+
+    v_keep := v_keep || v_variant_id;
+  END LOOP;
+
+  DELETE FROM public.products
+  WHERE parent_id = p_product_id AND NOT (id = ANY(v_keep));
+END;
+$$;
@@ -0,0 +1,7 @@
+-- Maximum retail price
+-- The MRP printed on packaging and shelf labels. Optional, as not every
+-- product carries one.
+
+ALTER TABLE public.products ADD COLUMN mrp numeric;
+
+ALTER TABLE public.products ADD CONSTRAINT products_mrp_check CHECK (mrp IS NULL OR mrp >= 0);
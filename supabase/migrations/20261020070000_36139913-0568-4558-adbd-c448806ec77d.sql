@@ -0,0 +1,240 @@
+-- Reorder planning
+-- Suggests what to reorder from how fast each product sells, and drafts the
+-- purchase orders for it:
+--  * get_reorder_stats returns, per product, the units sold over a recent
+--    window (sales invoices and sale bills), units already on order, and the
+--    supplier and cost to order from. The suggestion itself is worked out in
+--    the app from these, the supplier's lead time and the days of cover wanted;
+--  * suppliers.lead_time_days is how long a supplier takes to deliver, the
+--    default lead time in settings applying where it is not set;
+--  * purchase orders may be 'draft': not yet sent, editable, and not
+--    receivable. confirm_purchase_orders turns drafts into pending orders.
+-- Statuses: draft, pending, partially_received, received, cancelled.
+
+ALTER TABLE public.suppliers
+  ADD COLUMN lead_time_days integer CHECK (lead_time_days IS NULL OR lead_time_days BETWEEN 0 AND 365);
+
+ALTER TABLE public.user_settings
+  ADD COLUMN reorder_history_days integer NOT NULL DEFAULT 90 CHECK (reorder_history_days BETWEEN 7 AND 365),
+  ADD COLUMN reorder_cover_days integer NOT NULL DEFAULT 30 CHECK (reorder_cover_days BETWEEN 1 AND 365),
+  ADD COLUMN default_lead_time_days integer NOT NULL DEFAULT 7 CHECK (default_lead_time_days BETWEEN 0 AND 365);
+
+CREATE INDEX idx_purchase_orders_user_status ON public.purchase_orders(user_id, status);
+
+-- As before, optionally creating the order as a draft
+CREATE OR REPLACE FUNCTION public.create_purchase_order(p_po jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po_id uuid;
+  v_item jsonb;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.purchase_orders (
+    user_id, po_number, supplier_id, supplier_name, supplier_email, po_date,
+    expected_date, status, notes, subtotal, tax, total
+  ) VALUES (
+    v_user_id,
+    p_po->>'po_number',
+    NULLIF(p_po->>'supplier_id', '')::uuid,
+    p_po->>'supplier_name',
+    NULLIF(p_po->>'supplier_email', ''),
+    COALESCE(NULLIF(p_po->>'po_date', '')::date, CURRENT_DATE),
+    NULLIF(p_po->>'expected_date', '')::date,
+    CASE WHEN p_po->>'status' = 'draft' THEN 'draft' ELSE 'pending' END,
+    NULLIF(p_po->>'notes', ''),
+    COALESCE((p_po->>'subtotal')::numeric, 0),
+    COALESCE((p_po->>'tax')::numeric, 0),
+    COALESCE((p_po->>'total')::numeric, 0)
+  )
+  RETURNING id INTO v_po_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.purchase_order_items (po_id, product_id, description, quantity, unit_price, amount)
+    VALUES (v_po_id, NULLIF(v_item->>'product_id', '')::uuid, v_item->>'description', v_qty, v_price, v_qty * v_price);
+  END LOOP;
+
+  RETURN v_po_id;
+END;
+$$;
+
+-- Replace the lines and totals of a draft purchase order
+CREATE OR REPLACE FUNCTION public.update_draft_purchase_order(p_po_id uuid, p_po jsonb, p_items jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_item jsonb;
+  v_qty integer;
+  v_price numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = p_po_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status <> 'draft' THEN
+    RAISE EXCEPTION 'Purchase order % is %', v_po.po_number, replace(v_po.status, '_', ' ');
+  END IF;
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one item';
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET expected_date = NULLIF(p_po->>'expected_date', '')::date,
+      notes = NULLIF(p_po->>'notes', ''),
+      subtotal = COALESCE((p_po->>'subtotal')::numeric, 0),
+      tax = COALESCE((p_po->>'tax')::numeric, 0),
+      total = COALESCE((p_po->>'total')::numeric, 0)
+  WHERE id = p_po_id;
+
+  DELETE FROM public.purchase_order_items WHERE po_id = p_po_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_qty := (v_item->>'quantity')::integer;
+    v_price := (v_item->>'unit_price')::numeric;
+
+    INSERT INTO public.purchase_order_items (po_id, product_id, description, quantity, unit_price, amount)
+    VALUES (p_po_id, NULLIF(v_item->>'product_id', '')::uuid, v_item->>'description', v_qty, v_price, v_qty * v_price);
+  END LOOP;
+END;
+$$;
+
+-- Turn drafts into pending orders, dated today. The expected date moves with
+-- the order date, keeping the lead time it was drafted with. Returns how many
+-- were confirmed; drafts without items are left as they are.
+CREATE OR REPLACE FUNCTION public.confirm_purchase_orders(p_po_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_count integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.purchase_orders po
+  SET status = 'pending',
+      expected_date = CURRENT_DATE + (po.expected_date - po.po_date),
+      po_date = CURRENT_DATE
+  WHERE po.id = ANY(p_po_ids)
+    AND po.user_id = v_user_id
+    AND po.status = 'draft'
+    AND EXISTS (SELECT 1 FROM public.purchase_order_items i WHERE i.po_id = po.id);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Sales, stock on order and sourcing for each product that can be ordered
+-- (variants, not the product they belong to). The supplier is the product's
+-- own, or else the one it was last bought from; the cost is the purchase
+-- price, or else the last price paid.
+CREATE OR REPLACE FUNCTION public.get_reorder_stats(p_history_days integer DEFAULT 90)
+RETURNS TABLE (
+  product_id uuid,
+  product_name text,
+  sku text,
+  unit text,
+  quantity integer,
+  low_stock_threshold integer,
+  units_sold integer,
+  on_order integer,
+  supplier_id uuid,
+  supplier_name text,
+  supplier_email text,
+  lead_time_days integer,
+  unit_cost numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  WITH sold AS (
+    SELECT ii.product_id, SUM(ii.quantity) AS units
+    FROM public.invoice_items ii
+    JOIN public.invoices i ON i.id = ii.invoice_id
+    WHERE i.user_id = auth.uid()
+      AND i.status <> 'cancelled'
+      AND i.issue_date > CURRENT_DATE - p_history_days
+    GROUP BY ii.product_id
+    UNION ALL
+    SELECT bi.product_id, SUM(bi.quantity)
+    FROM public.bill_items bi
+    JOIN public.bills b ON b.id = bi.bill_id
+    WHERE b.user_id = auth.uid()
+      AND b.bill_type = 'sale'
+      AND b.status <> 'cancelled'
+      AND b.bill_date > CURRENT_DATE - p_history_days
+    GROUP BY bi.product_id
+  ),
+  ordered AS (
+    SELECT poi.product_id, SUM(poi.quantity - poi.received_quantity) AS units
+    FROM public.purchase_order_items poi
+    JOIN public.purchase_orders po ON po.id = poi.po_id
+    WHERE po.user_id = auth.uid()
+      AND po.status IN ('draft', 'pending', 'partially_received')
+    GROUP BY poi.product_id
+  ),
+  last_purchase AS (
+    SELECT DISTINCT ON (bi.product_id) bi.product_id, b.supplier_id, bi.unit_price
+    FROM public.bill_items bi
+    JOIN public.bills b ON b.id = bi.bill_id
+    WHERE b.user_id = auth.uid()
+      AND b.bill_type = 'purchase'
+      AND b.status <> 'cancelled'
+      AND bi.product_id IS NOT NULL
+    ORDER BY bi.product_id, b.bill_date DESC, b.created_at DESC
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.sku,
+    p.unit,
+    p.quantity,
+    p.low_stock_threshold,
+    COALESCE((SELECT SUM(s.units) FROM sold s WHERE s.product_id = p.id), 0)::integer,
+    COALESCE(o.units, 0)::integer,
+    sup.id,
+    sup.name,
+    sup.email,
+    sup.lead_time_days,
+    COALESCE(NULLIF(p.purchase_price, 0), lp.unit_price, 0)
+  FROM public.products p
+  LEFT JOIN ordered o ON o.product_id = p.id
+  LEFT JOIN last_purchase lp ON lp.product_id = p.id
+  LEFT JOIN public.suppliers sup ON sup.id = COALESCE(p.supplier_id, lp.supplier_id)
+  WHERE p.user_id = auth.uid()
+    AND p.variant_options IS NULL
+  ORDER BY p.name;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_draft_purchase_order(uuid, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_draft_purchase_order(uuid, jsonb, jsonb) TO authenticated;
+REVOKE ALL ON FUNCTION public.confirm_purchase_orders(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_purchase_orders(uuid[]) TO authenticated;
+REVOKE ALL ON FUNCTION public.get_reorder_stats(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_reorder_stats(integer) TO authenticated;
@@ -0,0 +1,174 @@
+-- Cancelling or deleting a goods receipt
+-- A bill made by receive_purchase_order added the delivered stock and marked
+-- it received on the PO. Cancelling it now takes that stock back out and puts
+-- the quantities back to outstanding, so the PO can be received again;
+-- deleting it is the same as undoing the receipt. Other bills are reversed
+-- by their bill_type: a sale's stock goes back in, a purchase's comes back out.
+
+CREATE OR REPLACE FUNCTION public.cancel_bill(p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill public.bills%ROWTYPE;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_bill FROM public.bills
+  WHERE id = p_bill_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF v_bill.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.set_stock_movement_context('bill_cancelled', 'bill', v_bill.id, v_bill.bill_number);
+
+  IF v_bill.po_id IS NOT NULL THEN
+    PERFORM 1 FROM public.purchase_orders WHERE id = v_bill.po_id FOR UPDATE;
+
+    FOR v_item IN
+      SELECT product_id, po_item_id, quantity FROM public.bill_items
+      WHERE bill_id = v_bill.id
+    LOOP
+      IF v_item.product_id IS NOT NULL THEN
+        UPDATE public.products
+        SET quantity = GREATEST(quantity - v_item.quantity, 0)
+        WHERE id = v_item.product_id AND user_id = v_user_id;
+      END IF;
+
+      UPDATE public.purchase_order_items
+      SET received_quantity = GREATEST(received_quantity - v_item.quantity, 0)
+      WHERE id = v_item.po_item_id;
+    END LOOP;
+
+    UPDATE public.bills SET status = 'cancelled' WHERE id = v_bill.id;
+    PERFORM public.refresh_purchase_order_status(v_bill.po_id);
+    RETURN;
+  END IF;
+
+  FOR v_item IN
+    SELECT product_id, quantity FROM public.bill_items
+    WHERE bill_id = v_bill.id AND product_id IS NOT NULL
+  LOOP
+    UPDATE public.products
+    SET quantity = CASE WHEN v_bill.bill_type = 'purchase' THEN GREATEST(quantity - v_item.quantity, 0) ELSE quantity + v_item.quantity END
+    WHERE id = v_item.product_id AND user_id = v_user_id;
+  END LOOP;
+
+  UPDATE public.bills SET status = 'cancelled' WHERE id = v_bill.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_bill(p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_bill public.bills%ROWTYPE;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_bill FROM public.bills
+  WHERE id = p_bill_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF v_bill.po_id IS NOT NULL THEN
+    PERFORM public.undo_purchase_receive(v_bill.po_id, v_bill.id);
+    RETURN;
+  END IF;
+
+  IF v_bill.status <> 'cancelled' THEN
+    PERFORM public.set_stock_movement_context('bill_deleted', 'bill', v_bill.id, v_bill.bill_number);
+
+    FOR v_item IN
+      SELECT product_id, quantity FROM public.bill_items
+      WHERE bill_id = v_bill.id AND product_id IS NOT NULL
+    LOOP
+      UPDATE public.products
+      SET quantity = CASE WHEN v_bill.bill_type = 'purchase' THEN GREATEST(quantity - v_item.quantity, 0) ELSE quantity + v_item.quantity END
+      WHERE id = v_item.product_id AND user_id = v_user_id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.bill_items WHERE bill_id = v_bill.id;
+  DELETE FROM public.bills WHERE id = v_bill.id;
+END;
+$$;
+
+-- As before, except that a cancelled receipt has already been reversed and is
+-- only deleted
+CREATE OR REPLACE FUNCTION public.undo_purchase_receive(p_po_id uuid, p_bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_bill public.bills%ROWTYPE;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_po FROM public.purchase_orders
+  WHERE id = p_po_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  SELECT * INTO v_bill FROM public.bills
+  WHERE id = p_bill_id AND user_id = v_user_id AND po_id = v_po.id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF v_bill.status <> 'cancelled' THEN
+    PERFORM public.set_stock_movement_context('receive_undone', 'purchase_order', v_po.id, v_po.po_number);
+
+    FOR v_item IN
+      SELECT product_id, po_item_id, quantity FROM public.bill_items
+      WHERE bill_id = v_bill.id
+    LOOP
+      IF v_item.product_id IS NOT NULL THEN
+        UPDATE public.products
+        SET quantity = GREATEST(quantity - v_item.quantity, 0)
+        WHERE id = v_item.product_id AND user_id = v_user_id;
+      END IF;
+
+      UPDATE public.purchase_order_items
+      SET received_quantity = GREATEST(received_quantity - v_item.quantity, 0)
+      WHERE id = v_item.po_item_id;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.bill_items WHERE bill_id = v_bill.id;
+  DELETE FROM public.bills WHERE id = v_bill.id;
+
+  PERFORM public.refresh_purchase_order_status(v_po.id);
+END;
+$$;
@@ -0,0 +1,199 @@
+-- Enforcing unique, gapless document numbers
+-- The numbering trigger only filled in numbers the insert left empty, and the
+-- counters could be written by users, so nothing stopped two documents
+-- sharing a number. Now:
+--  * numbers are unique per user for each document type;
+--  * a number only ever comes from the sequence: one supplied on insert, or a
+--    change to it afterwards, is rejected;
+--  * the counter only moves in allocate_document_number. Users change a
+--    sequence's prefix, format, padding and yearly reset through
+--    save_document_sequence and can no longer write the table directly.
+
+-- Documents that already share a number: the first keeps it, later ones get a suffix
+UPDATE public.invoices i
+SET invoice_number = i.invoice_number || '-' || d.n
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id, invoice_number ORDER BY created_at, id) - 1 AS n
+  FROM public.invoices
+) d
+WHERE d.id = i.id AND d.n > 0;
+
+UPDATE public.bills b
+SET bill_number = b.bill_number || '-' || d.n
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id, bill_number ORDER BY created_at, id) - 1 AS n
+  FROM public.bills
+) d
+WHERE d.id = b.id AND d.n > 0;
+
+UPDATE public.purchase_orders po
+SET po_number = po.po_number || '-' || d.n
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY user_id, po_number ORDER BY created_at, id) - 1 AS n
+  FROM public.purchase_orders
+) d
+WHERE d.id = po.id AND d.n > 0;
+
+CREATE UNIQUE INDEX invoices_user_invoice_number_key ON public.invoices(user_id, invoice_number);
+CREATE UNIQUE INDEX bills_user_bill_number_key ON public.bills(user_id, bill_number);
+CREATE UNIQUE INDEX purchase_orders_user_po_number_key ON public.purchase_orders(user_id, po_number);
+CREATE UNIQUE INDEX credit_notes_user_credit_note_number_key ON public.credit_notes(user_id, credit_note_number);
+CREATE UNIQUE INDEX stock_transfers_user_transfer_number_key ON public.stock_transfers(user_id, transfer_number);
+CREATE UNIQUE INDEX stock_takes_user_take_number_key ON public.stock_takes(user_id, take_number);
+
+-- Trigger: assign the next number on insert.
+-- Arguments: document type, number column, date column.
+CREATE OR REPLACE FUNCTION public.assign_document_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_row jsonb := to_jsonb(NEW);
+  v_number text;
+BEGIN
+  IF COALESCE(v_row->>TG_ARGV[1], '') <> '' THEN
+    RAISE EXCEPTION 'Document numbers are assigned automatically';
+  END IF;
+
+  v_number := public.allocate_document_number(
+    NEW.user_id,
+    TG_ARGV[0],
+    COALESCE(NULLIF(v_row->>TG_ARGV[2], '')::date, CURRENT_DATE)
+  );
+
+  NEW := jsonb_populate_record(NEW, jsonb_build_object(TG_ARGV[1], v_number));
+  RETURN NEW;
+END;
+$$;
+
+-- Trigger: keep the number a document was given. Argument: number column.
+CREATE OR REPLACE FUNCTION public.prevent_document_number_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF to_jsonb(NEW)->>TG_ARGV[0] IS DISTINCT FROM to_jsonb(OLD)->>TG_ARGV[0] THEN
+    RAISE EXCEPTION 'Document numbers cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_invoice_number_change
+BEFORE UPDATE OF invoice_number ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_document_number_change('invoice_number');
+
+CREATE TRIGGER prevent_bill_number_change
+BEFORE UPDATE OF bill_number ON public.bills
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_document_number_change('bill_number');
+
+CREATE TRIGGER prevent_po_number_change
+BEFORE UPDATE OF po_number ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_document_number_change('po_number');
+
+CREATE TRIGGER prevent_credit_note_number_change
+BEFORE UPDATE OF credit_note_number ON public.credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_document_number_change('credit_note_number');
+
+CREATE TRIGGER prevent_transfer_number_change
+BEFORE UPDATE OF transfer_number ON public.stock_transfers
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_document_number_change('transfer_number');
+
+CREATE TRIGGER prevent_take_number_change
+BEFORE UPDATE OF take_number ON public.stock_takes
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_document_number_change('take_number');
+
+-- Sequences are read-only to users; the counter is only written here
+DROP POLICY "Users can create their own document sequences" ON public.document_sequences;
+DROP POLICY "Users can update their own document sequences" ON public.document_sequences;
+
+CREATE OR REPLACE FUNCTION public.allocate_document_number(p_user_id uuid, p_document_type text, p_date date)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_seq public.document_sequences%ROWTYPE;
+  v_period text := public.financial_year_label(p_date);
+BEGIN
+  INSERT INTO public.document_sequences (user_id, document_type, prefix, current_period)
+  VALUES (p_user_id, p_document_type, public.default_document_prefix(p_user_id, p_document_type), v_period)
+  ON CONFLICT (user_id, document_type) DO NOTHING;
+
+  SELECT * INTO v_seq FROM public.document_sequences
+  WHERE user_id = p_user_id AND document_type = p_document_type
+  FOR UPDATE;
+
+  -- Only move forward: a back-dated document must not restart an earlier year
+  IF v_seq.reset_yearly AND (v_seq.current_period IS NULL OR v_period > v_seq.current_period) THEN
+    v_seq.last_number := 0;
+    v_seq.current_period := v_period;
+  END IF;
+
+  v_seq.last_number := v_seq.last_number + 1;
+
+  UPDATE public.document_sequences
+  SET last_number = v_seq.last_number,
+      current_period = COALESCE(v_seq.current_period, v_period)
+  WHERE id = v_seq.id;
+
+  RETURN public.format_document_number(v_seq.format, v_seq.prefix, v_seq.padding, v_seq.last_number, p_date);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.allocate_document_number(uuid, text, date) FROM PUBLIC, anon, authenticated;
+
+-- Change how a document type is numbered, leaving its counter alone
+CREATE OR REPLACE FUNCTION public.save_document_sequence(
+  p_document_type text,
+  p_prefix text,
+  p_format text,
+  p_padding integer,
+  p_reset_yearly boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_document_type NOT IN ('invoice', 'bill', 'purchase_order', 'credit_note', 'stock_transfer', 'stock_take') THEN
+    RAISE EXCEPTION 'Unknown document type %', p_document_type;
+  END IF;
+
+  INSERT INTO public.document_sequences (user_id, document_type, prefix, format, padding, reset_yearly, current_period)
+  VALUES (
+    v_user_id,
+    p_document_type,
+    COALESCE(p_prefix, ''),
+    p_format,
+    p_padding,
+    COALESCE(p_reset_yearly, false),
+    public.financial_year_label(CURRENT_DATE)
+  )
+  ON CONFLICT (user_id, document_type) DO UPDATE
+  SET prefix = EXCLUDED.prefix,
+      format = EXCLUDED.format,
+      padding = EXCLUDED.padding,
+      reset_yearly = EXCLUDED.reset_yearly;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.save_document_sequence(text, text, text, integer, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_document_sequence(text, text, text, integer, boolean) TO authenticated;
@@ -0,0 +1,48 @@
+-- Purging a deleted account's stock locations
+-- delete-account removes a user's data table by table, but a user's default
+-- location, or one still holding stock, cannot be deleted. purge_user_data
+-- removes the location data and numbering sequences in one go, with the
+-- location checks switched off for that user while it runs.
+
+-- As before, except while the owner's data is being purged
+CREATE OR REPLACE FUNCTION public.check_location_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF current_setting('app.purging_user', true) = OLD.user_id::text THEN
+    RETURN OLD;
+  END IF;
+  IF OLD.is_default THEN
+    RAISE EXCEPTION 'Make another location the default before deleting %', OLD.name;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.location_stock WHERE location_id = OLD.id AND quantity <> 0) THEN
+    RAISE EXCEPTION '% still holds stock; transfer it out first', OLD.name;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+-- Called by delete-account with the service role
+CREATE OR REPLACE FUNCTION public.purge_user_data(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM set_config('app.purging_user', p_user_id::text, true);
+
+  -- Transfer items go with their transfers
+  DELETE FROM public.stock_transfers WHERE user_id = p_user_id;
+  DELETE FROM public.location_stock WHERE user_id = p_user_id;
+  DELETE FROM public.locations WHERE user_id = p_user_id;
+  DELETE FROM public.document_sequences WHERE user_id = p_user_id;
+
+  PERFORM set_config('app.purging_user', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_user_data(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_user_data(uuid) TO service_role;
@@ -0,0 +1,25 @@
+-- Purging a deleted account's stock takes
+-- As before, with stock takes removed too, their items first.
+
+CREATE OR REPLACE FUNCTION public.purge_user_data(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM set_config('app.purging_user', p_user_id::text, true);
+
+  DELETE FROM public.stock_take_items
+  WHERE stock_take_id IN (SELECT id FROM public.stock_takes WHERE user_id = p_user_id);
+  DELETE FROM public.stock_takes WHERE user_id = p_user_id;
+
+  -- Transfer items go with their transfers
+  DELETE FROM public.stock_transfers WHERE user_id = p_user_id;
+  DELETE FROM public.location_stock WHERE user_id = p_user_id;
+  DELETE FROM public.locations WHERE user_id = p_user_id;
+  DELETE FROM public.document_sequences WHERE user_id = p_user_id;
+
+  PERFORM set_config('app.purging_user', '', true);
+END;
+$$;
@@ -0,0 +1,159 @@
+-- Recurring invoices start as draft
+-- generate_recurring_invoice issued auto_send invoices as sent although nothing
+-- was emailed. Every generated invoice is now a draft; for auto_send schedules
+-- the generate-recurring-invoices function emails it through send-document,
+-- which logs the attempt in email_log and marks the invoice sent once it has
+-- gone out.
+
+-- As before, except that the invoice is always created as a draft
+CREATE OR REPLACE FUNCTION public.generate_recurring_invoice(p_recurring_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_schedule public.recurring_invoices%ROWTYPE;
+  v_run_date date;
+  v_company_state text;
+  v_inter_state boolean;
+  v_item record;
+  v_items jsonb := '[]'::jsonb;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_amount numeric;
+  v_subtotal numeric;
+  v_document_discount numeric;
+  v_share numeric;
+  v_taxable numeric;
+  v_cgst numeric;
+  v_sgst numeric;
+  v_igst numeric;
+  v_tax numeric := 0;
+  v_total numeric;
+  v_round_off numeric := 0;
+  v_invoice_id uuid;
+BEGIN
+  SELECT * INTO v_schedule
+  FROM public.recurring_invoices
+  WHERE id = p_recurring_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring invoice not found';
+  END IF;
+
+  IF v_schedule.status <> 'active' OR v_schedule.next_run_date > CURRENT_DATE THEN
+    RETURN NULL;
+  END IF;
+
+  v_run_date := v_schedule.next_run_date;
+
+  IF v_schedule.end_date IS NOT NULL AND v_run_date > v_schedule.end_date THEN
+    UPDATE public.recurring_invoices SET status = 'completed' WHERE id = p_recurring_id;
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    SELECT substring(trim(gst_number) FROM '^(\d{2})') INTO v_company_state
+    FROM public.company_profile
+    WHERE user_id = v_schedule.user_id;
+    v_inter_state := v_company_state IS NOT NULL AND v_schedule.place_of_supply IS NOT NULL
+      AND v_company_state <> v_schedule.place_of_supply;
+
+    SELECT COALESCE(sum(round(round(quantity * unit_price, 2)
+      - public.calculate_discount(round(quantity * unit_price, 2), discount_type, discount_value), 2)), 0)
+    INTO v_subtotal
+    FROM public.recurring_invoice_items
+    WHERE recurring_invoice_id = p_recurring_id;
+
+    v_document_discount := public.calculate_discount(v_subtotal, v_schedule.discount_type, v_schedule.discount_value);
+
+    FOR v_item IN
+      SELECT * FROM public.recurring_invoice_items
+      WHERE recurring_invoice_id = p_recurring_id
+      ORDER BY created_at, id
+    LOOP
+      v_gross := round(v_item.quantity * v_item.unit_price, 2);
+      v_line_discount := public.calculate_discount(v_gross, v_item.discount_type, v_item.discount_value);
+      v_amount := round(v_gross - v_line_discount, 2);
+      -- The document discount is shared across lines by value before tax
+      v_share := CASE WHEN v_subtotal > 0 THEN round(v_document_discount * v_amount / v_subtotal, 2) ELSE 0 END;
+      v_taxable := round(v_amount - v_share, 2);
+
+      IF v_inter_state THEN
+        v_cgst := 0;
+        v_sgst := 0;
+        v_igst := round(v_taxable * v_item.tax_rate / 100, 2);
+      ELSE
+        v_cgst := round(v_taxable * v_item.tax_rate / 200, 2);
+        v_sgst := v_cgst;
+        v_igst := 0;
+      END IF;
+      v_tax := v_tax + v_cgst + v_sgst + v_igst;
+
+      v_items := v_items || jsonb_build_object(
+        'product_id', v_item.product_id,
+        'description', v_item.description,
+        'quantity', v_item.quantity,
+        'unit_price', v_item.unit_price,
+        'discount_type', v_item.discount_type,
+        'discount_value', v_item.discount_value,
+        'discount_amount', v_line_discount,
+        'hsn_code', v_item.hsn_code,
+        'tax_rate', v_item.tax_rate,
+        'cgst', v_cgst,
+        'sgst', v_sgst,
+        'igst', v_igst
+      );
+    END LOOP;
+
+    IF jsonb_array_length(v_items) = 0 THEN
+      RAISE EXCEPTION 'Recurring invoice has no items';
+    END IF;
+
+    v_total := round(v_subtotal - v_document_discount + v_tax, 2);
+    IF v_schedule.round_off THEN
+      v_round_off := round(v_total) - v_total;
+      v_total := v_total + v_round_off;
+    END IF;
+
+    v_invoice_id := public.create_invoice_for_user(
+      v_schedule.user_id,
+      jsonb_build_object(
+        'customer_name', v_schedule.customer_name,
+        'customer_email', v_schedule.customer_email,
+        'client_id', v_schedule.client_id,
+        'issue_date', v_run_date,
+        'due_date', v_run_date + v_schedule.payment_terms_days,
+        'status', 'draft',
+        'notes', v_schedule.notes,
+        'place_of_supply', v_schedule.place_of_supply,
+        'currency_code', v_schedule.currency_code,
+        'exchange_rate', v_schedule.exchange_rate,
+        'subtotal', v_subtotal,
+        'discount_type', v_schedule.discount_type,
+        'discount_value', v_schedule.discount_value,
+        'discount_amount', v_document_discount,
+        'round_off', v_round_off,
+        'tax', v_tax,
+        'total', v_total
+      ),
+      v_items
+    );
+
+    INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, user_id, run_date, status, invoice_id)
+    VALUES (p_recurring_id, v_schedule.user_id, v_run_date, 'generated', v_invoice_id);
+  EXCEPTION WHEN OTHERS THEN
+    INSERT INTO public.recurring_invoice_runs (recurring_invoice_id, user_id, run_date, status, error)
+    VALUES (p_recurring_id, v_schedule.user_id, v_run_date, 'failed', SQLERRM);
+    RETURN NULL;
+  END;
+
+  PERFORM public.advance_recurring_invoice(p_recurring_id);
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.generate_recurring_invoice(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_invoice(uuid) TO service_role;
@@ -0,0 +1,197 @@
+-- Creating credit notes
+-- credit_notes and credit_note_items are read-only to users, so that a credit
+-- can only come from a return of items still on the invoice or bill. Running
+-- create_credit_note with the caller's rights made every insert fail RLS. It
+-- now runs as its owner; it only touches documents, items and products that
+-- belong to auth.uid().
+
+-- As before, running as the function owner
+CREATE OR REPLACE FUNCTION public.create_credit_note(p_credit_note jsonb, p_items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invoice public.invoices%ROWTYPE;
+  v_bill public.bills%ROWTYPE;
+  v_credit_note_id uuid;
+  v_credit_note_number text;
+  v_item jsonb;
+  v_source record;
+  v_returned integer;
+  v_quantity integer;
+  v_tax_rate numeric;
+  v_net_factor numeric;
+  v_unit_price numeric;
+  v_amount numeric;
+  v_subtotal numeric := 0;
+  v_tax numeric;
+  v_total numeric;
+  v_refund numeric := COALESCE((p_credit_note->>'refund_amount')::numeric, 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  IF p_credit_note->>'invoice_id' IS NOT NULL THEN
+    SELECT * INTO v_invoice FROM public.invoices
+    WHERE id = (p_credit_note->>'invoice_id')::uuid AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice not found';
+    END IF;
+    IF v_invoice.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Invoice % is cancelled', v_invoice.invoice_number;
+    END IF;
+
+    v_net_factor := CASE WHEN v_invoice.subtotal > 0 THEN (v_invoice.subtotal - v_invoice.discount_amount) / v_invoice.subtotal ELSE 1 END;
+    v_tax_rate := CASE WHEN v_invoice.subtotal - v_invoice.discount_amount > 0
+      THEN v_invoice.tax / (v_invoice.subtotal - v_invoice.discount_amount) ELSE 0 END;
+
+    INSERT INTO public.credit_notes (user_id, invoice_id, client_id, customer_name, credit_date, reason, refund_mode)
+    VALUES (
+      v_user_id,
+      v_invoice.id,
+      v_invoice.client_id,
+      v_invoice.customer_name,
+      COALESCE((p_credit_note->>'credit_date')::date, CURRENT_DATE),
+      p_credit_note->>'reason',
+      p_credit_note->>'refund_mode'
+    )
+    RETURNING id, credit_note_number INTO v_credit_note_id, v_credit_note_number;
+  ELSE
+    SELECT * INTO v_bill FROM public.bills
+    WHERE id = (p_credit_note->>'bill_id')::uuid AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Bill not found';
+    END IF;
+    IF v_bill.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Bill % is cancelled', v_bill.bill_number;
+    END IF;
+    IF v_bill.bill_type = 'purchase' THEN
+      RAISE EXCEPTION 'Bill % is a purchase; only sales can be returned with a credit note', v_bill.bill_number;
+    END IF;
+
+    v_net_factor := CASE WHEN v_bill.subtotal > 0 THEN (v_bill.subtotal - v_bill.discount_amount) / v_bill.subtotal ELSE 1 END;
+    v_tax_rate := CASE WHEN v_bill.subtotal - v_bill.discount_amount > 0
+      THEN v_bill.tax / (v_bill.subtotal - v_bill.discount_amount) ELSE 0 END;
+
+    INSERT INTO public.credit_notes (user_id, bill_id, client_id, customer_name, credit_date, reason, refund_mode)
+    VALUES (
+      v_user_id,
+      v_bill.id,
+      v_bill.client_id,
+      v_bill.customer_name,
+      COALESCE((p_credit_note->>'credit_date')::date, CURRENT_DATE),
+      p_credit_note->>'reason',
+      p_credit_note->>'refund_mode'
+    )
+    RETURNING id, credit_note_number INTO v_credit_note_id, v_credit_note_number;
+  END IF;
+
+  PERFORM public.set_stock_movement_context('sales_return', 'credit_note', v_credit_note_id, v_credit_note_number);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    IF v_invoice.id IS NOT NULL THEN
+      SELECT id, product_id, description, quantity, unit_price, amount INTO v_source
+      FROM public.invoice_items
+      WHERE id = (v_item->>'source_item_id')::uuid AND invoice_id = v_invoice.id;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+      FROM public.credit_note_items WHERE invoice_item_id = v_source.id;
+    ELSE
+      SELECT id, product_id, description, quantity, unit_price, amount INTO v_source
+      FROM public.bill_items
+      WHERE id = (v_item->>'source_item_id')::uuid AND bill_id = v_bill.id;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+      FROM public.credit_note_items WHERE bill_item_id = v_source.id;
+    END IF;
+
+    IF v_source.id IS NULL THEN
+      RAISE EXCEPTION 'Item does not belong to this document';
+    END IF;
+
+    IF v_quantity > v_source.quantity - v_returned THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', v_source.quantity - v_returned, v_source.description;
+    END IF;
+
+    v_unit_price := v_source.amount / v_source.quantity * v_net_factor;
+    v_amount := round(v_quantity * v_unit_price, 2);
+
+    INSERT INTO public.credit_note_items (credit_note_id, invoice_item_id, bill_item_id, product_id, description, quantity, unit_price, amount)
+    VALUES (
+      v_credit_note_id,
+      CASE WHEN v_invoice.id IS NOT NULL THEN v_source.id END,
+      CASE WHEN v_bill.id IS NOT NULL THEN v_source.id END,
+      v_source.product_id,
+      v_source.description,
+      v_quantity,
+      round(v_unit_price, 2),
+      v_amount
+    );
+
+    v_subtotal := v_subtotal + v_amount;
+
+    IF v_source.product_id IS NOT NULL THEN
+      UPDATE public.products
+      SET quantity = quantity + v_quantity
+      WHERE id = v_source.product_id AND user_id = v_user_id;
+    END IF;
+  END LOOP;
+
+  IF v_subtotal = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  v_tax := round(v_subtotal * v_tax_rate, 2);
+  v_total := v_subtotal + v_tax;
+
+  IF v_invoice.id IS NOT NULL THEN
+    -- Whatever cannot be taken off the balance due has to be paid back
+    IF v_refund < v_total - v_invoice.balance_due THEN
+      RAISE EXCEPTION 'Refund at least % — only % is still due on %',
+        round(v_total - v_invoice.balance_due, 2), v_invoice.balance_due, v_invoice.invoice_number;
+    END IF;
+  ELSE
+    -- Bills are settled at the counter, so a return is always refunded
+    v_refund := v_total;
+  END IF;
+
+  IF v_refund > v_total THEN
+    RAISE EXCEPTION 'Refund cannot be more than the credit note total';
+  END IF;
+
+  UPDATE public.credit_notes
+  SET subtotal = v_subtotal,
+      tax = v_tax,
+      total = v_total,
+      refund_amount = v_refund,
+      refund_mode = CASE WHEN v_refund > 0 THEN COALESCE(refund_mode, 'cash') END
+  WHERE id = v_credit_note_id;
+
+  IF v_invoice.id IS NOT NULL THEN
+    PERFORM public.refresh_invoice_payment_status(v_invoice.id);
+  END IF;
+
+  RETURN v_credit_note_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_credit_note(jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_credit_note(jsonb, jsonb) TO authenticated;
@@ -0,0 +1,46 @@
+-- Back-dating into a restarted year
+-- A counter that restarts each financial year only keeps the current year's
+-- count. A document dated in an earlier year after the restart was numbered
+-- from that low count with the earlier year's label, repeating a number that
+-- year already used. Such documents are now refused.
+
+-- As before, refusing dates before the year the counter has moved on to
+CREATE OR REPLACE FUNCTION public.allocate_document_number(p_user_id uuid, p_document_type text, p_date date)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_seq public.document_sequences%ROWTYPE;
+  v_period text := public.financial_year_label(p_date);
+BEGIN
+  INSERT INTO public.document_sequences (user_id, document_type, prefix, current_period)
+  VALUES (p_user_id, p_document_type, public.default_document_prefix(p_user_id, p_document_type), v_period)
+  ON CONFLICT (user_id, document_type) DO NOTHING;
+
+  SELECT * INTO v_seq FROM public.document_sequences
+  WHERE user_id = p_user_id AND document_type = p_document_type
+  FOR UPDATE;
+
+  IF v_seq.reset_yearly AND v_period < v_seq.current_period THEN
+    RAISE EXCEPTION 'Numbering has moved on to %, so documents can no longer be dated in %', v_seq.current_period, v_period;
+  END IF;
+
+  IF v_seq.reset_yearly AND (v_seq.current_period IS NULL OR v_period > v_seq.current_period) THEN
+    v_seq.last_number := 0;
+    v_seq.current_period := v_period;
+  END IF;
+
+  v_seq.last_number := v_seq.last_number + 1;
+
+  UPDATE public.document_sequences
+  SET last_number = v_seq.last_number,
+      current_period = COALESCE(v_seq.current_period, v_period)
+  WHERE id = v_seq.id;
+
+  RETURN public.format_document_number(v_seq.format, v_seq.prefix, v_seq.padding, v_seq.last_number, p_date);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.allocate_document_number(uuid, text, date) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,29 @@
+-- Emailing auto_send invoices once they have a PDF
+-- PDFs are made by the app, so an invoice raised by an auto_send schedule waits
+-- as a draft until its PDF has been saved. generate-recurring-invoices emails
+-- the ones that are ready through send-document on every run.
+
+-- Drafts from auto_send schedules with a saved PDF and no email tried yet. A
+-- failed attempt is in the invoice's email log and is not repeated.
+CREATE OR REPLACE FUNCTION public.due_recurring_invoice_emails()
+RETURNS TABLE (invoice_id uuid, user_id uuid)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT i.id, i.user_id
+  FROM public.recurring_invoice_runs run
+  JOIN public.recurring_invoices r ON r.id = run.recurring_invoice_id AND r.auto_send
+  JOIN public.invoices i ON i.id = run.invoice_id
+  WHERE run.status = 'generated'
+    AND i.status = 'draft'
+    AND i.pdf_path IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.email_log e
+      WHERE e.document_type = 'invoice' AND e.document_id = i.id
+    )
+  ORDER BY i.user_id, i.issue_date;
+$$;
+
+REVOKE ALL ON FUNCTION public.due_recurring_invoice_emails() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.due_recurring_invoice_emails() TO service_role;
@@ -0,0 +1,70 @@
+-- Invoices settled by credit notes, and payments on other users' invoices
+-- An invoice only became paid once it had a payment, so one settled entirely
+-- by credit notes stayed unpaid. It is now paid once payments and credits
+-- cover it. Payments could also be recorded or moved against any invoice id;
+-- the invoice now has to belong to the user as well.
+
+DROP POLICY "Users can create their own payments" ON public.payments;
+DROP POLICY "Users can update their own payments" ON public.payments;
+
+CREATE POLICY "Users can create their own payments"
+ON public.payments FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.invoices WHERE id = invoice_id AND user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own payments"
+ON public.payments FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.invoices WHERE id = invoice_id AND user_id = auth.uid())
+);
+
+-- As before, except that the invoice is paid once nothing is left to pay
+CREATE OR REPLACE FUNCTION public.refresh_invoice_payment_status(p_invoice_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_paid numeric;
+  v_credited numeric;
+  v_status text;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM public.payments WHERE invoice_id = p_invoice_id;
+
+  -- Only the unrefunded part of a credit note is applied to the invoice
+  SELECT COALESCE(SUM(total - refund_amount), 0) INTO v_credited
+  FROM public.credit_notes WHERE invoice_id = p_invoice_id;
+
+  IF v_paid + v_credited > v_invoice.total THEN
+    RAISE EXCEPTION 'Payment exceeds the balance due on %', v_invoice.invoice_number;
+  END IF;
+
+  v_status := v_invoice.status;
+  IF v_invoice.status <> 'cancelled' THEN
+    IF v_paid + v_credited > 0 AND v_paid + v_credited >= v_invoice.total THEN
+      v_status := 'paid';
+    ELSIF v_paid > 0 THEN
+      v_status := 'partially_paid';
+    ELSIF v_invoice.status IN ('paid', 'partially_paid') THEN
+      v_status := 'sent';
+    END IF;
+  END IF;
+
+  UPDATE public.invoices
+  SET amount_paid = v_paid, amount_credited = v_credited, status = v_status
+  WHERE id = p_invoice_id;
+END;
+$$;
@@ -0,0 +1,164 @@
+-- Variants keep their history
+-- Saving a product's variants used to delete every variant left out of the
+-- list, taking its stock ledger with it (and failing on any PO line), and
+-- zeroed the parent's stock without a movement. Now:
+--  * a variant with stock movements or purchase order lines cannot be removed;
+--  * when a product with stock is split into variants, that stock is moved to
+--    the first variant as 'variant_split' movements, location by location, so
+--    the ledger of both sides adds up.
+
+ALTER TABLE public.stock_movements
+  DROP CONSTRAINT stock_movements_reason_check;
+
+ALTER TABLE public.stock_movements
+  ADD CONSTRAINT stock_movements_reason_check CHECK (reason IN (
+    'opening', 'sale', 'purchase', 'invoice_cancelled', 'invoice_deleted',
+    'bill_cancelled', 'bill_deleted', 'receive_undone', 'manual_edit', 'sales_return',
+    'transfer', 'stock_take', 'variant_split'
+  ));
+
+-- As before, letting a function pin the location of the movements it makes
+CREATE OR REPLACE FUNCTION public.stock_movement_location(p_user_id uuid, p_source_type text, p_source_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_location_id uuid := NULLIF(current_setting('app.stock_location', true), '')::uuid;
+BEGIN
+  IF v_location_id IS NOT NULL THEN
+    RETURN v_location_id;
+  END IF;
+
+  IF p_source_type = 'invoice' THEN
+    SELECT location_id INTO v_location_id FROM public.invoices WHERE id = p_source_id;
+  ELSIF p_source_type = 'bill' THEN
+    SELECT location_id INTO v_location_id FROM public.bills WHERE id = p_source_id;
+  ELSIF p_source_type = 'credit_note' THEN
+    SELECT COALESCE(i.location_id, b.location_id) INTO v_location_id
+    FROM public.credit_notes cn
+    LEFT JOIN public.invoices i ON i.id = cn.invoice_id
+    LEFT JOIN public.bills b ON b.id = cn.bill_id
+    WHERE cn.id = p_source_id;
+  ELSIF p_source_type = 'purchase_order' THEN
+    SELECT location_id INTO v_location_id FROM public.bills
+    WHERE po_id = p_source_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+  ELSIF p_source_type = 'stock_take' THEN
+    SELECT location_id INTO v_location_id FROM public.stock_takes WHERE id = p_source_id;
+  END IF;
+
+  RETURN COALESCE(v_location_id, public.default_location_id(p_user_id));
+END;
+$$;
+
+-- As before, but refusing to remove variants with history and moving the
+-- parent's stock into the first variant through the ledger. The quantity
+-- given for a new variant is its opening stock.
+CREATE OR REPLACE FUNCTION public.save_product_variants(p_product_id uuid, p_options jsonb, p_variants jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_parent public.products%ROWTYPE;
+  v_variant jsonb;
+  v_variant_id uuid;
+  v_keep uuid[] := '{}';
+  v_has_variants boolean := jsonb_array_length(COALESCE(p_variants, '[]'::jsonb)) > 0;
+  v_removed record;
+  v_stock record;
+  v_left integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_parent FROM public.products WHERE id = p_product_id AND user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+  IF v_parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A variant cannot have variants of its own';
+  END IF;
+
+  UPDATE public.products
+  SET variant_options = CASE WHEN v_has_variants THEN p_options END
+  WHERE id = p_product_id;
+
+  FOR v_variant IN SELECT * FROM jsonb_array_elements(COALESCE(p_variants, '[]'::jsonb))
+  LOOP
+    v_variant_id := NULLIF(v_variant->>'id', '')::uuid;
+
+    IF v_variant_id IS NOT NULL THEN
+      UPDATE public.products
+      SET variant_attributes = v_variant->'variant_attributes',
+          sku = NULLIF(btrim(v_variant->>'sku'), ''),
+          barcode = NULLIF(btrim(v_variant->>'barcode'), ''),
+          purchase_price = COALESCE((v_variant->>'purchase_price')::numeric, 0),
+          unit_price = COALESCE((v_variant->>'unit_price')::numeric, 0),
+          quantity = COALESCE((v_variant->>'quantity')::integer, 0),
+          low_stock_threshold = COALESCE((v_variant->>'low_stock_threshold')::integer, 0)
+      WHERE id = v_variant_id AND parent_id = p_product_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variant not found';
+      END IF;
+    ELSE
+      INSERT INTO public.products (
+        user_id, name, parent_id, variant_attributes, sku, barcode,
+        purchase_price, unit_price, quantity, low_stock_threshold
+      ) VALUES (
+        v_user_id,
+        v_parent.name,
+        p_product_id,
+        v_variant->'variant_attributes',
+        NULLIF(btrim(v_variant->>'sku'), ''),
+        NULLIF(btrim(v_variant->>'barcode'), ''),
+        COALESCE((v_variant->>'purchase_price')::numeric, 0),
+        COALESCE((v_variant->>'unit_price')::numeric, 0),
+        COALESCE((v_variant->>'quantity')::integer, 0),
+        COALESCE((v_variant->>'low_stock_threshold')::integer, 0)
+      )
+      RETURNING id INTO v_variant_id;
+    END IF;
+
+    v_keep := v_keep || v_variant_id;
+  END LOOP;
+
+  -- Stock sold and bought as the product is now sold and bought as its
+  -- variants: move it to the first one, at the location it is held
+  IF v_has_variants AND v_parent.quantity <> 0 THEN
+    PERFORM public.set_stock_movement_context('variant_split', NULL, NULL, v_parent.name);
+
+    FOR v_stock IN
+      SELECT location_id, quantity FROM public.location_stock
+      WHERE product_id = p_product_id AND quantity <> 0
+    LOOP
+      PERFORM set_config('app.stock_location', v_stock.location_id::text, true);
+      UPDATE public.products SET quantity = quantity - v_stock.quantity WHERE id = p_product_id;
+      UPDATE public.products SET quantity = quantity + v_stock.quantity WHERE id = v_keep[1];
+    END LOOP;
+    PERFORM set_config('app.stock_location', '', true);
+
+    -- Whatever is not held at any location is moved at the default one
+    SELECT quantity INTO v_left FROM public.products WHERE id = p_product_id;
+    IF v_left <> 0 THEN
+      UPDATE public.products SET quantity = 0 WHERE id = p_product_id;
+      UPDATE public.products SET quantity = quantity + v_left WHERE id = v_keep[1];
+    END IF;
+  END IF;
+
+  FOR v_removed IN
+    SELECT id, name FROM public.products
+    WHERE parent_id = p_product_id AND NOT (id = ANY(v_keep))
+  LOOP
+    IF EXISTS (SELECT 1 FROM public.stock_movements WHERE product_id = v_removed.id)
+       OR EXISTS (SELECT 1 FROM public.purchase_order_items WHERE product_id = v_removed.id) THEN
+      RAISE EXCEPTION '% has stock history and cannot be removed', v_removed.name;
+    END IF;
+    DELETE FROM public.products WHERE id = v_removed.id;
+  END LOOP;
+END;
+$$;